@@ -239,6 +239,10 @@ describe('SupervisorAgent', () => {
     it('should delegate resume to builder agent', () => {
       expect(() => supervisor.resume()).not.toThrow();
     });
+
+    it('should allow cancel without a plan in progress', () => {
+      expect(() => supervisor.cancel()).not.toThrow();
+    });
   });
 });
 
@@ -500,6 +504,111 @@ describe('BuilderAgent', () => {
     expect(result.stepResults[0].success).toBe(false);
   });
 
+  it('should retry transient step errors and record the attempts', async () => {
+    mockedCanvasCreateNode.mockImplementationOnce(() => {
+      throw Object.assign(new Error('connect ECONNRESET'), { code: 'ECONNRESET' });
+    });
+
+    const plan: ExecutionPlan = {
+      id: 'plan-retry',
+      version: '1.0',
+      metadata: {
+        name: 'Retry Plan',
+        description: 'Recovers from a dropped connection',
+        complexity: 'simple',
+        estimatedSteps: 1,
+      },
+      context: { userIntent: 'retry', existingNodes: [], existingEdges: [] },
+      steps: [
+        {
+          id: 'step-1',
+          order: 1,
+          name: 'Flaky Create',
+          action: { type: 'CREATE_NODE', nodeType: 'agent', label: 'Flaky' },
+          dependsOn: [],
+          retryDelayMs: 1,
+        },
+      ],
+    };
+
+    const result = await builder.executePlan(plan);
+
+    expect(result.status).toBe('completed');
+    expect(mockedCanvasCreateNode).toHaveBeenCalledTimes(2);
+    expect(result.stepResults[0].attempts).toEqual([
+      expect.objectContaining({ attempt: 1, reason: 'network', error: 'connect ECONNRESET' }),
+    ]);
+  });
+
+  it('should retry steps whose action is refused', async () => {
+    mockedCanvasCreateNode.mockReturnValueOnce({ success: false, error: 'Parent not found' });
+
+    const plan: ExecutionPlan = {
+      id: 'plan-refused',
+      version: '1.0',
+      metadata: {
+        name: 'Refused Plan',
+        description: 'Succeeds on the second attempt',
+        complexity: 'simple',
+        estimatedSteps: 1,
+      },
+      context: { userIntent: 'retry', existingNodes: [], existingEdges: [] },
+      steps: [
+        {
+          id: 'step-1',
+          order: 1,
+          name: 'Refused Create',
+          action: { type: 'CREATE_NODE', nodeType: 'agent', label: 'Child' },
+          dependsOn: [],
+          retryDelayMs: 1,
+        },
+      ],
+    };
+
+    const result = await builder.executePlan(plan);
+
+    expect(result.status).toBe('completed');
+    expect(mockedCanvasCreateNode).toHaveBeenCalledTimes(2);
+    expect(result.stepResults[0].attempts).toEqual([
+      expect.objectContaining({ attempt: 1, reason: 'step_failed', error: 'Parent not found' }),
+    ]);
+  });
+
+  it('should stop retrying once the plan is aborted', async () => {
+    const controller = new AbortController();
+    mockedCanvasCreateNode.mockImplementationOnce(() => {
+      controller.abort();
+      return { success: false, error: 'Parent not found' };
+    });
+
+    const plan: ExecutionPlan = {
+      id: 'plan-abort',
+      version: '1.0',
+      metadata: {
+        name: 'Aborted Plan',
+        description: 'Cancelled mid-step',
+        complexity: 'simple',
+        estimatedSteps: 1,
+      },
+      context: { userIntent: 'abort', existingNodes: [], existingEdges: [] },
+      steps: [
+        {
+          id: 'step-1',
+          order: 1,
+          name: 'Cancelled Create',
+          action: { type: 'CREATE_NODE', nodeType: 'agent', label: 'Child' },
+          dependsOn: [],
+          retryDelayMs: 1,
+        },
+      ],
+    };
+
+    const result = await builder.executePlan(plan, controller.signal);
+
+    expect(result.status).toBe('failed');
+    expect(mockedCanvasCreateNode).toHaveBeenCalledTimes(1);
+  });
+
   it('should skip steps with unmet dependencies', async () => {
     mockedCanvasCreateNode.mockReturnValueOnce({
       success: false,
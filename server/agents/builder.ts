@@ -44,6 +44,7 @@ import {
   SANDBOX_TOOLS,
 } from '../mcp/sandbox-mcp';
 import { smartGenerate } from '../lib/anthropic-client';
+import { classifyError, withRetry, type RetryAttempt, type RetryReason } from '../lib/retry';
 
 // -----------------------------------------------------------------------------
 // Configuration
@@ -52,6 +53,11 @@ import { smartGenerate } from '../lib/anthropic-client';
 const MAX_RETRIES = 3;
 const RETRY_DELAY_MS = 1000;
 
+/** Transient errors keep their own reason; any other step failure is retried too */
+function classifyStepError(err: unknown): RetryReason {
+  return classifyError(err) ?? 'step_failed';
+}
+
 // -----------------------------------------------------------------------------
 // Builder Agent Class
 // -----------------------------------------------------------------------------
@@ -59,6 +65,7 @@ const RETRY_DELAY_MS = 1000;
 export class BuilderAgent {
   private sessionId: string;
   private executionState: PlanExecutionState | null = null;
+  private signal?: AbortSignal;
 
   constructor(sessionId: string) {
     this.sessionId = sessionId;
@@ -69,7 +76,8 @@ export class BuilderAgent {
   // Execute a complete plan
   // ---------------------------------------------------------------------------
 
-  async executePlan(plan: ExecutionPlan): Promise<PlanExecutionState> {
+  async executePlan(plan: ExecutionPlan, signal?: AbortSignal): Promise<PlanExecutionState> {
+    this.signal = signal;
     // Initialize execution state
     this.executionState = {
       planId: plan.id,
@@ -197,52 +205,56 @@ export class BuilderAgent {
   // Execute a single step
   // ---------------------------------------------------------------------------
 
+  // retryCount is the total number of attempts. Every failure is retried, as
+  // before the shared retry engine: a refused canvas or sandbox action often
+  // succeeds once the step it races with has settled. Aborts stop at once.
   private async executeStep(step: ExecutionStep): Promise<StepResult> {
     const startedAt = Date.now();
-    const retryCount = step.retryCount || MAX_RETRIES;
-    const retryDelay = step.retryDelayMs || RETRY_DELAY_MS;
-
-    let lastError: string | undefined;
-
-    for (let attempt = 0; attempt < retryCount; attempt++) {
-      try {
-        // Resolve variables in action
-        const resolvedAction = resolveActionVariables(
-          step.action,
-          this.executionState!.variables
-        );
-
-        // Execute based on action type
-        const result = await this.executeAction(resolvedAction);
-
-        if (result.success) {
-          return {
-            stepId: step.id,
-            success: true,
-            startedAt,
-            completedAt: Date.now(),
-            result: result.data,
-          };
-        }
+    const attempts: RetryAttempt[] = [];
+    const policy = {
+      maxRetries: Math.max((step.retryCount || MAX_RETRIES) - 1, 0),
+      backoffMs: step.retryDelayMs || RETRY_DELAY_MS,
+      exponential: true,
+    };
 
-        lastError = result.error;
-      } catch (error) {
-        lastError = error instanceof Error ? error.message : 'Unknown error';
-      }
+    try {
+      const data = await withRetry(
+        async () => {
+          // Resolve variables in action
+          const resolvedAction = resolveActionVariables(
+            step.action,
+            this.executionState!.variables
+          );
+
+          // Execute based on action type
+          const result = await this.executeAction(resolvedAction);
+          if (!result.success) {
+            throw new Error(result.error ?? 'Unknown error');
+          }
+          return result.data;
+        },
+        policy,
+        { signal: this.signal, classify: classifyStepError, onAttempt: (attempt) => attempts.push(attempt) }
+      );
 
-      // Wait before retry
-      if (attempt < retryCount - 1) {
-        await this.sleep(retryDelay);
-      }
+      return {
+        stepId: step.id,
+        success: true,
+        startedAt,
+        completedAt: Date.now(),
+        result: data,
+        ...(attempts.length > 0 ? { attempts } : {}),
+      };
+    } catch (error) {
+      return {
+        stepId: step.id,
+        success: false,
+        startedAt,
+        completedAt: Date.now(),
+        error: error instanceof Error ? error.message : 'Unknown error',
+        ...(attempts.length > 0 ? { attempts } : {}),
+      };
     }
-
-    return {
-      stepId: step.id,
-      success: false,
-      startedAt,
-      completedAt: Date.now(),
-      error: lastError,
-    };
   }
 
   // ---------------------------------------------------------------------------
@@ -393,10 +405,6 @@ export class BuilderAgent {
     });
   }
 
-  private sleep(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
-  }
-
   // ---------------------------------------------------------------------------
   // Pause/Resume control
   // ---------------------------------------------------------------------------
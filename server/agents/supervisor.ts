@@ -59,6 +59,8 @@ export class SupervisorAgent {
   private genAI: GoogleGenerativeAI | null = null;
   private sessionId: string;
   private builderAgent: BuilderAgent | null = null;
+  // Aborted when the session is cancelled; stops the builder's steps and retries
+  private abortController: AbortController | null = null;
 
   constructor(sessionId: string) {
     this.sessionId = sessionId;
@@ -301,7 +303,9 @@ export class SupervisorAgent {
 
     // Create Builder agent to execute plan
     this.builderAgent = createBuilderAgent(this.sessionId);
-    const result = await this.builderAgent.executePlan(plan);
+    this.abortController = new AbortController();
+    const result = await this.builderAgent.executePlan(plan, this.abortController.signal);
+    this.abortController = null;
 
     // Final state update
     if (result.status === 'completed') {
@@ -434,7 +438,7 @@ export class SupervisorAgent {
   }
 
   // ---------------------------------------------------------------------------
-  // Pause/Resume control (delegated to builder)
+  // Pause/Resume/Cancel control (delegated to builder)
   // ---------------------------------------------------------------------------
 
   pause(): void {
@@ -445,6 +449,11 @@ export class SupervisorAgent {
     this.builderAgent?.resume();
   }
 
+  /** Stop the plan being built, including any retry backoff in progress */
+  cancel(): void {
+    this.abortController?.abort();
+  }
+
   // ---------------------------------------------------------------------------
   // Helper methods
   // ---------------------------------------------------------------------------
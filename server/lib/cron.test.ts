@@ -0,0 +1,91 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { nextCronRun, nextCronRuns, parseCron, startCronTimer } from './cron';
+import { CronExpressionError } from './errors';
+
+const iso = (dates: Date[]) => dates.map((d) => d.toISOString());
+
+describe('parseCron', () => {
+  it('expands ranges, steps, lists and names', () => {
+    const schedule = parseCron('*/15 9-17 1,15 JAN-MAR mon-fri');
+
+    expect([...schedule.minutes]).toEqual([0, 15, 30, 45]);
+    expect([...schedule.hours]).toEqual([9, 10, 11, 12, 13, 14, 15, 16, 17]);
+    expect([...schedule.daysOfMonth]).toEqual([1, 15]);
+    expect([...schedule.months]).toEqual([1, 2, 3]);
+    expect([...schedule.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+    expect(schedule.dayOr).toBe(true);
+  });
+
+  it('accepts shortcuts and 7 as Sunday', () => {
+    expect(parseCron('@weekly').daysOfWeek).toEqual(new Set([0]));
+    expect(parseCron('0 0 * * 7').daysOfWeek).toEqual(new Set([0]));
+  });
+
+  it('names the invalid field', () => {
+    expect(() => parseCron('60 * * * *')).toThrow(/Invalid minute value "60"/);
+    expect(() => parseCron('* * * *')).toThrow(/must have 5 fields/);
+    expect(() => parseCron('*/0 * * * *')).toThrow(/Invalid minute step/);
+    expect(() => parseCron('0 0 * * *', 'Mars/Olympus')).toThrow(CronExpressionError);
+  });
+});
+
+describe('nextCronRun', () => {
+  const from = new Date('2026-03-06T10:07:30Z'); // a Friday
+
+  it('finds the next matching minute strictly after the start', () => {
+    expect(nextCronRun('*/5 * * * *', from)?.toISOString()).toBe('2026-03-06T10:10:00.000Z');
+    expect(nextCronRun('0 3 * * 1', from)?.toISOString()).toBe('2026-03-09T03:00:00.000Z');
+    expect(nextCronRun('10 10 6 3 *', new Date('2026-03-06T10:10:00Z'))?.toISOString()).toBe(
+      '2027-03-06T10:10:00.000Z'
+    );
+  });
+
+  it('matches either day field when both are restricted', () => {
+    expect(iso(nextCronRuns('0 0 13 * 5', 3, from))).toEqual([
+      '2026-03-13T00:00:00.000Z',
+      '2026-03-20T00:00:00.000Z',
+      '2026-03-27T00:00:00.000Z',
+    ]);
+  });
+
+  it('evaluates in the schedule timezone across DST changes', () => {
+    const schedule = parseCron('30 9 * * *', 'America/New_York');
+
+    // US clocks spring forward on 2026-03-08
+    expect(iso(nextCronRuns(schedule, 3, from))).toEqual([
+      '2026-03-06T14:30:00.000Z',
+      '2026-03-07T14:30:00.000Z',
+      '2026-03-08T13:30:00.000Z',
+    ]);
+  });
+
+  it('returns null for dates that never occur', () => {
+    expect(nextCronRun('0 0 30 2 *', from)).toBeNull();
+  });
+});
+
+describe('startCronTimer', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('sleeps past the setTimeout limit and fires on every run', async () => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout', 'Date'] });
+    vi.setSystemTime(new Date('2026-10-19T10:00:00Z'));
+    const fired: string[] = [];
+
+    const timer = startCronTimer(parseCron('@yearly'), (fireAt) => fired.push(fireAt.toISOString()));
+    expect(timer.nextRunAt?.toISOString()).toBe('2027-01-01T00:00:00.000Z');
+
+    await vi.advanceTimersByTimeAsync(60 * 24 * 60 * 60_000);
+    expect(fired).toEqual([]);
+
+    await vi.advanceTimersByTimeAsync(15 * 24 * 60 * 60_000);
+    expect(fired).toEqual(['2027-01-01T00:00:00.000Z']);
+    expect(timer.nextRunAt?.toISOString()).toBe('2028-01-01T00:00:00.000Z');
+
+    timer.stop();
+    await vi.advanceTimersByTimeAsync(400 * 24 * 60 * 60_000);
+    expect(fired).toHaveLength(1);
+  });
+});
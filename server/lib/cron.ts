@@ -0,0 +1,313 @@
+// =============================================================================
+// Cron Expressions
+// Parses standard 5-field cron expressions (minute hour day-of-month month
+// day-of-week), computes upcoming fire times in an IANA timezone and runs
+// timers that fire on them.
+// Supports *, ranges, steps, lists, JAN-DEC / SUN-SAT names and the
+// @hourly / @daily / @weekly / @monthly / @yearly shortcuts.
+// =============================================================================
+
+import { CronExpressionError } from './errors';
+
+export interface CronSchedule {
+  expression: string;
+  timezone: string;
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  /** Day-of-month and day-of-week were both restricted: either may match */
+  dayOr: boolean;
+}
+
+interface FieldSpec {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[];
+}
+
+const FIELDS: FieldSpec[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day-of-month', min: 1, max: 31 },
+  {
+    name: 'month',
+    min: 1,
+    max: 12,
+    names: ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'],
+  },
+  { name: 'day-of-week', min: 0, max: 7, names: ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'] },
+];
+
+const SHORTCUTS: Record<string, string> = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *',
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+};
+
+export interface CronTimer {
+  /** The fire being waited for; null when the schedule never fires */
+  readonly nextRunAt: Date | null;
+  stop(): void;
+}
+
+/** Give up looking for a fire time this far ahead (e.g. `0 0 30 2 *`) */
+const SEARCH_HORIZON_YEARS = 5;
+
+/** setTimeout cannot wait longer than this; longer waits re-arm on wake */
+const MAX_TIMER_MS = 2 ** 31 - 1;
+
+// -----------------------------------------------------------------------------
+// Parsing
+// -----------------------------------------------------------------------------
+
+function parseValue(raw: string, spec: FieldSpec, expression: string): number {
+  const upper = raw.toUpperCase();
+  const named = spec.names?.indexOf(upper) ?? -1;
+  const value = named >= 0 ? named + (spec.name === 'month' ? 1 : 0) : /^\d+$/.test(raw) ? Number(raw) : NaN;
+
+  if (Number.isNaN(value) || value < spec.min || value > spec.max) {
+    throw new CronExpressionError(
+      `Invalid ${spec.name} value "${raw}" (expected ${spec.min}-${spec.max})`,
+      expression
+    );
+  }
+  return value;
+}
+
+function parseField(field: string, spec: FieldSpec, expression: string): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const [range, stepRaw] = part.split('/');
+    let step = 1;
+    if (stepRaw !== undefined) {
+      step = /^\d+$/.test(stepRaw) ? Number(stepRaw) : 0;
+      if (step < 1) {
+        throw new CronExpressionError(`Invalid ${spec.name} step "${stepRaw}"`, expression);
+      }
+    }
+
+    let start: number;
+    let end: number;
+    if (range === '*') {
+      start = spec.min;
+      end = spec.max;
+    } else if (range.includes('-')) {
+      const [from, to] = range.split('-');
+      start = parseValue(from, spec, expression);
+      end = parseValue(to, spec, expression);
+      if (start > end) {
+        throw new CronExpressionError(`Invalid ${spec.name} range "${range}"`, expression);
+      }
+    } else {
+      start = parseValue(range, spec, expression);
+      // `5/15` means "from 5, every 15"
+      end = stepRaw !== undefined ? spec.max : start;
+    }
+
+    for (let v = start; v <= end; v += step) {
+      values.add(v);
+    }
+  }
+
+  return values;
+}
+
+function assertTimezone(timezone: string, expression: string): void {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+  } catch {
+    throw new CronExpressionError(`Unknown timezone "${timezone}"`, expression);
+  }
+}
+
+/**
+ * Parse and validate a cron expression. Throws CronExpressionError (400)
+ * naming the offending field.
+ */
+export function parseCron(expression: string, timezone: string = 'UTC'): CronSchedule {
+  const trimmed = expression.trim();
+  const expanded = SHORTCUTS[trimmed.toLowerCase()] ?? trimmed;
+  const fields = expanded.split(/\s+/);
+
+  if (fields.length !== 5) {
+    throw new CronExpressionError(
+      `Cron expression must have 5 fields (minute hour day-of-month month day-of-week), got ${fields.length}`,
+      expression
+    );
+  }
+  assertTimezone(timezone, expression);
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, i) =>
+    parseField(field, FIELDS[i], expression)
+  );
+
+  // 7 is an alias for Sunday
+  if (daysOfWeek.delete(7)) daysOfWeek.add(0);
+
+  return {
+    expression: trimmed,
+    timezone,
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    dayOr: !fields[2].startsWith('*') && !fields[4].startsWith('*'),
+  };
+}
+
+// -----------------------------------------------------------------------------
+// Fire times
+// -----------------------------------------------------------------------------
+
+/**
+ * Wall-clock time in `timezone`, expressed as a Date whose UTC fields hold
+ * the local fields. Lets the search below use plain UTC arithmetic.
+ */
+function toWallTime(instant: Date, timezone: string): Date {
+  if (timezone === 'UTC') return new Date(instant.getTime());
+
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+  }).formatToParts(instant);
+  const get = (type: string) => Number(parts.find((p) => p.type === type)?.value ?? 0);
+
+  return new Date(
+    Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'), instant.getUTCMilliseconds())
+  );
+}
+
+/** Inverse of toWallTime; times skipped by a DST jump land just after it */
+function fromWallTime(wall: Date, timezone: string): Date {
+  if (timezone === 'UTC') return new Date(wall.getTime());
+
+  const offset = toWallTime(wall, timezone).getTime() - wall.getTime();
+  let instant = new Date(wall.getTime() - offset);
+  const drift = toWallTime(instant, timezone).getTime() - wall.getTime();
+  if (drift !== 0) instant = new Date(instant.getTime() - drift);
+  return instant;
+}
+
+function dayMatches(schedule: CronSchedule, wall: Date): boolean {
+  const dom = schedule.daysOfMonth.has(wall.getUTCDate());
+  const dow = schedule.daysOfWeek.has(wall.getUTCDay());
+  return schedule.dayOr ? dom || dow : dom && dow;
+}
+
+/**
+ * The first fire time strictly after `from`, or null when the expression
+ * never fires (within the next few years).
+ */
+export function nextCronRun(schedule: CronSchedule | string, from: Date = new Date()): Date | null {
+  const parsed = typeof schedule === 'string' ? parseCron(schedule) : schedule;
+
+  let searchFrom = from;
+  for (;;) {
+    const wall = toWallTime(searchFrom, parsed.timezone);
+    wall.setUTCSeconds(0, 0);
+    wall.setUTCMinutes(wall.getUTCMinutes() + 1);
+    const horizon = wall.getUTCFullYear() + SEARCH_HORIZON_YEARS;
+
+    while (wall.getUTCFullYear() <= horizon) {
+      if (!parsed.months.has(wall.getUTCMonth() + 1)) {
+        wall.setUTCMonth(wall.getUTCMonth() + 1, 1);
+        wall.setUTCHours(0, 0, 0, 0);
+      } else if (!dayMatches(parsed, wall)) {
+        wall.setUTCDate(wall.getUTCDate() + 1);
+        wall.setUTCHours(0, 0, 0, 0);
+      } else if (!parsed.hours.has(wall.getUTCHours())) {
+        wall.setUTCHours(wall.getUTCHours() + 1, 0, 0, 0);
+      } else if (!parsed.minutes.has(wall.getUTCMinutes())) {
+        wall.setUTCMinutes(wall.getUTCMinutes() + 1, 0, 0);
+      } else {
+        break;
+      }
+    }
+    if (wall.getUTCFullYear() > horizon) return null;
+
+    const instant = fromWallTime(wall, parsed.timezone);
+    // A wall time repeated by a DST fall-back can map to the past; keep looking
+    if (instant.getTime() > from.getTime()) return instant;
+    searchFrom = new Date(instant.getTime() + 60_000);
+  }
+}
+
+/** The next `count` fire times after `from` */
+export function nextCronRuns(
+  schedule: CronSchedule | string,
+  count: number,
+  from: Date = new Date()
+): Date[] {
+  const parsed = typeof schedule === 'string' ? parseCron(schedule) : schedule;
+  const runs: Date[] = [];
+  let cursor = from;
+
+  while (runs.length < count) {
+    const next = nextCronRun(parsed, cursor);
+    if (!next) break;
+    runs.push(next);
+    cursor = next;
+  }
+  return runs;
+}
+
+// -----------------------------------------------------------------------------
+// Timers
+// -----------------------------------------------------------------------------
+
+/**
+ * Call `onFire` at every fire time of `schedule` after `from`. A timer that
+ * wakes before its fire time (waits past the setTimeout limit, clock
+ * changes) sleeps again. The next fire is armed before `onFire` runs.
+ */
+export function startCronTimer(
+  schedule: CronSchedule,
+  onFire: (fireAt: Date) => void,
+  from: Date = new Date()
+): CronTimer {
+  let nextRunAt = nextCronRun(schedule, from);
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const arm = () => {
+    const fireAt = nextRunAt;
+    if (!fireAt) return;
+
+    const delay = Math.min(Math.max(fireAt.getTime() - Date.now(), 0), MAX_TIMER_MS);
+    timer = setTimeout(() => {
+      timer = null;
+      if (Date.now() < fireAt.getTime()) {
+        arm();
+        return;
+      }
+      nextRunAt = nextCronRun(schedule, fireAt);
+      arm();
+      onFire(fireAt);
+    }, delay);
+  };
+  arm();
+
+  return {
+    get nextRunAt() {
+      return nextRunAt;
+    },
+    stop() {
+      if (timer) clearTimeout(timer);
+      timer = null;
+    },
+  };
+}
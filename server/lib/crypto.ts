@@ -1,6 +1,7 @@
 // =============================================================================
 // Secret Encryption Helpers (AES-256-GCM)
-// Uses ENCRYPTION_KEY env var (32 bytes, hex-encoded = 64 chars)
+// Uses ENCRYPTION_KEY env var (32 bytes, hex-encoded = 64 chars); key
+// rotation passes the previous key explicitly
 // =============================================================================
 
 import crypto from 'crypto';
@@ -9,8 +10,7 @@ const ALGORITHM = 'aes-256-gcm';
 const IV_LENGTH = 12;
 const AUTH_TAG_LENGTH = 16;
 
-function getEncryptionKey(): Buffer {
-  const keyHex = process.env.ENCRYPTION_KEY;
+function getEncryptionKey(keyHex: string | undefined = process.env.ENCRYPTION_KEY): Buffer {
   if (!keyHex) {
     throw new Error('ENCRYPTION_KEY env var is required for secret encryption');
   }
@@ -25,8 +25,8 @@ function getEncryptionKey(): Buffer {
  * Encrypt plaintext using AES-256-GCM.
  * Returns base64-encoded string: IV + auth tag + ciphertext.
  */
-export function encrypt(plaintext: string): string {
-  const key = getEncryptionKey();
+export function encrypt(plaintext: string, keyHex?: string): string {
+  const key = getEncryptionKey(keyHex);
   const iv = crypto.randomBytes(IV_LENGTH);
   const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
 
@@ -42,8 +42,8 @@ export function encrypt(plaintext: string): string {
  * Decrypt a base64-encoded string produced by encrypt().
  * Returns the original plaintext.
  */
-export function decrypt(encoded: string): string {
-  const key = getEncryptionKey();
+export function decrypt(encoded: string, keyHex?: string): string {
+  const key = getEncryptionKey(keyHex);
   const packed = Buffer.from(encoded, 'base64');
 
   if (packed.length < IV_LENGTH + AUTH_TAG_LENGTH) {
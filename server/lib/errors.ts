@@ -103,11 +103,112 @@ export class OpenClawConnectionError extends AutopilateError {
   }
 }
 
+// --- Execution Errors (run dispatch, trigger inputs) ---
+
+export class ExecutionError extends AutopilateError {
+  constructor(code: string, message: string, statusCode = 500, cause?: unknown) {
+    super(`EXECUTION_${code}`, message, statusCode, cause);
+    this.name = 'ExecutionError';
+  }
+}
+
+export class BudgetExceededError extends ExecutionError {
+  /** `agent` for GuardrailsConfig limits, `run` for the workflow budget */
+  public readonly scope: 'agent' | 'run';
+  /** Agent label, or the workflow name for run budgets */
+  public readonly subject: string;
+  public readonly limit: 'tokens' | 'cost';
+  public readonly max: number;
+  public readonly used: number;
+
+  constructor(scope: 'agent' | 'run', subject: string, limit: 'tokens' | 'cost', max: number, used: number) {
+    const amount = (n: number) => (limit === 'cost' ? `$${n.toFixed(4)}` : `${Math.round(n)} tokens`);
+    super(
+      'BUDGET_EXCEEDED',
+      `${scope === 'run' ? 'Run' : subject} ${limit === 'cost' ? 'cost cap' : 'token limit'} of ${amount(max)} exceeded (${amount(used)})`,
+      402
+    );
+    this.scope = scope;
+    this.subject = subject;
+    this.limit = limit;
+    this.max = max;
+    this.used = used;
+    this.name = 'BudgetExceededError';
+  }
+}
+
+export class ContentBlockedError extends ExecutionError {
+  /** Where the blocked text was: agent input or final output */
+  public readonly stage: 'input' | 'output';
+  public readonly categories: string[];
+
+  constructor(subject: string, stage: 'input' | 'output', categories: string[]) {
+    super(
+      'CONTENT_BLOCKED',
+      `Content filter blocked ${subject}'s ${stage} (${categories.join(', ')})`,
+      422
+    );
+    this.stage = stage;
+    this.categories = categories;
+    this.name = 'ContentBlockedError';
+  }
+}
+
+// --- Secrets Vault Errors (deployment secrets, key rotation) ---
+
+export class SecretsVaultError extends AutopilateError {
+  constructor(code: string, message: string, statusCode = 500, cause?: unknown) {
+    super(`SECRETS_${code}`, message, statusCode, cause);
+    this.name = 'SecretsVaultError';
+  }
+}
+
+// --- Model Provider Errors (agent runtime LLM calls) ---
+
+export class ProviderError extends AutopilateError {
+  public readonly provider: string;
+  public readonly upstreamStatus?: number;
+  /** Rate limits, 5xx, timeouts and unconfigured providers move on to the next failover target */
+  public readonly retryable: boolean;
+
+  constructor(
+    provider: string,
+    code: string,
+    message: string,
+    options: { upstreamStatus?: number; retryable?: boolean; cause?: unknown } = {}
+  ) {
+    super(`PROVIDER_${code}`, message, 502, options.cause);
+    this.provider = provider;
+    this.upstreamStatus = options.upstreamStatus;
+    this.retryable = options.retryable ?? false;
+    this.name = 'ProviderError';
+  }
+}
+
+// --- Schedule Errors (cron expressions) ---
+
+export class CronExpressionError extends AutopilateError {
+  constructor(message: string, public readonly expression: string) {
+    super('CRON_INVALID', message, 400);
+    this.name = 'CronExpressionError';
+  }
+}
+
+// --- Metrics Errors ---
+
+export class MetricsRangeError extends AutopilateError {
+  constructor(message: string) {
+    super('METRICS_RANGE_INVALID', message, 400);
+    this.name = 'MetricsRangeError';
+  }
+}
+
 // --- Trigger Errors ---
 
 export class TriggerConfigError extends DeploymentError {
-  constructor(message: string, triggerType?: string) {
-    super('TRIGGER_INVALID', message, triggerType ?? 'trigger');
+  constructor(message: string, triggerType?: string, cause?: unknown) {
+    super('TRIGGER_INVALID', message, triggerType ?? 'trigger', cause, 400);
+    this.name = 'TriggerConfigError';
   }
 }
 
@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { diffLines } from './line-diff';
+
+const lines = (count: number, label = 'line') =>
+  Array.from({ length: count }, (_, i) => `${label} ${i + 1}`).join('\n') + '\n';
+
+describe('diffLines', () => {
+  it('returns an empty diff for equal text', () => {
+    expect(diffLines('a\nb\n', 'a\nb\n')).toEqual({ unified: '', added: 0, removed: 0 });
+  });
+
+  it('shows changed lines with surrounding context', () => {
+    const before = lines(10);
+    const after = before.replace('line 5\n', 'line five\n');
+
+    expect(diffLines(before, after)).toEqual({
+      unified: [
+        '@@ -2,7 +2,7 @@',
+        ' line 2',
+        ' line 3',
+        ' line 4',
+        '-line 5',
+        '+line five',
+        ' line 6',
+        ' line 7',
+        ' line 8',
+      ].join('\n'),
+      added: 1,
+      removed: 1,
+    });
+  });
+
+  it('splits distant changes into separate hunks', () => {
+    const before = lines(20);
+    const after = before.replace('line 2\n', '').replace('line 19\n', 'line 19\nextra\n');
+
+    const diff = diffLines(before, after, 1);
+
+    expect(diff.unified.split('\n').filter((l) => l.startsWith('@@'))).toEqual([
+      '@@ -1,3 +1,2 @@',
+      '@@ -19,2 +18,3 @@',
+    ]);
+    expect(diff).toMatchObject({ added: 1, removed: 1 });
+  });
+
+  it('diffs new and deleted files against empty text', () => {
+    expect(diffLines('', 'a\nb\n').unified).toBe('@@ -0,0 +1,2 @@\n+a\n+b');
+    expect(diffLines('a\n', '').unified).toBe('@@ -1,1 +0,0 @@\n-a');
+  });
+});
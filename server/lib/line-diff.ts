@@ -0,0 +1,129 @@
+// =============================================================================
+// Line Diff
+// Unified diffs of small text files (agent CLAUDE.md, JSON configs) for the
+// deploy plan. Longest-common-subsequence over the lines that differ after
+// trimming the common prefix and suffix; past MAX_LCS_CELLS the changed
+// region is shown as a whole replacement instead.
+// =============================================================================
+
+export interface LineDiff {
+  /** `@@ -a,b +c,d @@` hunks with ` `, `-` and `+` line prefixes; '' when equal */
+  unified: string;
+  added: number;
+  removed: number;
+}
+
+interface DiffOp {
+  kind: ' ' | '-' | '+';
+  text: string;
+}
+
+const MAX_LCS_CELLS = 4_000_000;
+
+// -----------------------------------------------------------------------------
+// Internal
+// -----------------------------------------------------------------------------
+
+function splitLines(text: string): string[] {
+  if (text === '') return [];
+  const lines = text.split('\n');
+  if (lines[lines.length - 1] === '') lines.pop();
+  return lines;
+}
+
+function opsOf(kind: DiffOp['kind'], lines: string[]): DiffOp[] {
+  return lines.map((text) => ({ kind, text }));
+}
+
+/** Edit script for two line arrays that share no prefix or suffix */
+function lcsOps(a: string[], b: string[]): DiffOp[] {
+  if (a.length === 0 || b.length === 0 || a.length * b.length > MAX_LCS_CELLS) {
+    return [...opsOf('-', a), ...opsOf('+', b)];
+  }
+
+  // lengths[i * width + j] = LCS length of a[i..] and b[j..]
+  const width = b.length + 1;
+  const lengths = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i * width + j] = a[i] === b[j]
+        ? lengths[(i + 1) * width + j + 1] + 1
+        : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+    }
+  }
+
+  const ops: DiffOp[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      ops.push({ kind: ' ', text: a[i++] });
+      j++;
+    } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+      ops.push({ kind: '-', text: a[i++] });
+    } else {
+      ops.push({ kind: '+', text: b[j++] });
+    }
+  }
+  return [...ops, ...opsOf('-', a.slice(i)), ...opsOf('+', b.slice(j))];
+}
+
+function diffOps(a: string[], b: string[]): DiffOp[] {
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  return [
+    ...opsOf(' ', a.slice(0, start)),
+    ...lcsOps(a.slice(start, endA), b.slice(start, endB)),
+    ...opsOf(' ', a.slice(endA)),
+  ];
+}
+
+function hunkHeader(ops: DiffOp[], from: number, to: number): string {
+  const count = (slice: DiffOp[], skip: DiffOp['kind']) => slice.filter((op) => op.kind !== skip).length;
+  const oldBefore = count(ops.slice(0, from), '+');
+  const newBefore = count(ops.slice(0, from), '-');
+  const oldCount = count(ops.slice(from, to), '+');
+  const newCount = count(ops.slice(from, to), '-');
+  // An empty side points at the line before the hunk, as in `diff -u`
+  const oldStart = oldBefore + (oldCount > 0 ? 1 : 0);
+  const newStart = newBefore + (newCount > 0 ? 1 : 0);
+  return `@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`;
+}
+
+// -----------------------------------------------------------------------------
+// Public API
+// -----------------------------------------------------------------------------
+
+/** Unified diff of `before` → `after` with `context` unchanged lines around each change */
+export function diffLines(before: string, after: string, context = 3): LineDiff {
+  const ops = diffOps(splitLines(before), splitLines(after));
+  const changes = ops.flatMap((op, index) => (op.kind === ' ' ? [] : [index]));
+
+  // Changes closer than two contexts apart share a hunk
+  const groups: Array<[number, number]> = [];
+  for (const index of changes) {
+    const last = groups[groups.length - 1];
+    if (last && index - last[1] <= context * 2 + 1) last[1] = index;
+    else groups.push([index, index]);
+  }
+
+  const hunks = groups.map(([first, last]) => {
+    const from = Math.max(0, first - context);
+    const to = Math.min(ops.length, last + context + 1);
+    const lines = ops.slice(from, to).map((op) => `${op.kind}${op.text}`);
+    return [hunkHeader(ops, from, to), ...lines].join('\n');
+  });
+
+  return {
+    unified: hunks.join('\n'),
+    added: ops.filter((op) => op.kind === '+').length,
+    removed: ops.filter((op) => op.kind === '-').length,
+  };
+}
@@ -0,0 +1,61 @@
+// =============================================================================
+// PM2 Process Naming
+// A deployed system is a group of processes, one per agent:
+//   autopilate-<system-slug>--<agent-slug>
+// Systems deployed before per-agent processes run as a single autopilate-<slug>.
+// System slugs never contain the separator, so a name has one parse.
+// =============================================================================
+
+export const PROCESS_PREFIX = 'autopilate-';
+const AGENT_SEPARATOR = '--';
+
+/** Lowercase alphanumerics and single hyphens; `--` separates the agent slug */
+export const SYSTEM_SLUG_PATTERN = /^(?!.*--)[a-z0-9-]+$/;
+
+export const SYSTEM_SLUG_MESSAGE = 'slug must be lowercase alphanumeric with single hyphens';
+
+export interface ParsedProcessName {
+  systemSlug: string | null;
+  agentSlug: string | null;
+}
+
+/**
+ * Build the PM2 process name for a system, or for one agent within it.
+ */
+export function systemProcessName(systemSlug: string, agentSlug?: string | null): string {
+  return agentSlug
+    ? `${PROCESS_PREFIX}${systemSlug}${AGENT_SEPARATOR}${agentSlug}`
+    : `${PROCESS_PREFIX}${systemSlug}`;
+}
+
+/**
+ * Split a PM2 process name into its system and agent slugs.
+ * Returns nulls for processes not managed by AUTOPILATE.
+ */
+export function parseProcessName(name: string): ParsedProcessName {
+  if (!name.startsWith(PROCESS_PREFIX)) return { systemSlug: null, agentSlug: null };
+
+  const rest = name.slice(PROCESS_PREFIX.length);
+  const sep = rest.indexOf(AGENT_SEPARATOR);
+  if (sep === -1) return { systemSlug: rest, agentSlug: null };
+
+  return {
+    systemSlug: rest.slice(0, sep),
+    agentSlug: rest.slice(sep + AGENT_SEPARATOR.length) || null,
+  };
+}
+
+/**
+ * Whether a process name belongs to the given system's process group.
+ */
+export function belongsToSystem(name: string | undefined, systemSlug: string): boolean {
+  return name !== undefined && parseProcessName(name).systemSlug === systemSlug;
+}
+
+/**
+ * Derive the agent slug from a generated PM2 app name (`<system>--<agent>`).
+ */
+export function agentSlugFromAppName(appName: string): string | null {
+  const sep = appName.indexOf(AGENT_SEPARATOR);
+  return sep === -1 ? null : appName.slice(sep + AGENT_SEPARATOR.length) || null;
+}
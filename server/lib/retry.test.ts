@@ -0,0 +1,105 @@
+import { describe, it, expect, vi } from 'vitest';
+import { backoffDelay, classifyError, parseRetryPolicy, withRetry, type RetryAttempt } from './retry';
+import { BudgetExceededError, ProviderError } from './errors';
+
+const fast = { maxRetries: 3, backoffMs: 1, exponential: true };
+
+function httpError(status: number): Error {
+  return Object.assign(new Error(`HTTP ${status}`), { status });
+}
+
+describe('parseRetryPolicy', () => {
+  it('reads the execution retry policy with the schema defaults', () => {
+    expect(parseRetryPolicy({})).toEqual({ maxRetries: 3, backoffMs: 1000, exponential: true });
+    expect(
+      parseRetryPolicy({ execution: { retryPolicy: { maxRetries: '5', backoffMs: 250, exponential: false } } })
+    ).toEqual({ maxRetries: 5, backoffMs: 250, exponential: false });
+  });
+
+  it('uses the guardrail max retries as the count and the cap', () => {
+    expect(parseRetryPolicy({ guardrails: { maxRetries: 1 } }).maxRetries).toBe(1);
+    expect(parseRetryPolicy({ guardrails: { maxRetries: 2 }, execution: { retryPolicy: { maxRetries: 5 } } }).maxRetries).toBe(2);
+    expect(parseRetryPolicy({ execution: { retryPolicy: { maxRetries: 0 } } }).maxRetries).toBe(0);
+    expect(parseRetryPolicy({ execution: { retryPolicy: { maxRetries: 50 } } }).maxRetries).toBe(10);
+  });
+});
+
+describe('classifyError', () => {
+  it('retries rate limits, overload, server errors, timeouts and network failures', () => {
+    expect(classifyError(httpError(429))).toBe('rate_limited');
+    expect(classifyError(new ProviderError('anthropic', 'REQUEST_FAILED', 'busy', { upstreamStatus: 529 }))).toBe('overloaded');
+    expect(classifyError(httpError(502))).toBe('server_error');
+    expect(classifyError(new ProviderError('openai', 'TIMEOUT', 'timed out', { retryable: true }))).toBe('timeout');
+    expect(
+      classifyError(
+        new ProviderError('openai', 'REQUEST_FAILED', 'fetch failed', {
+          cause: Object.assign(new TypeError('fetch failed'), { cause: { code: 'ECONNREFUSED' } }),
+        })
+      )
+    ).toBe('network');
+  });
+
+  it('does not retry client errors, aborts or run limits', () => {
+    expect(classifyError(httpError(400))).toBeNull();
+    expect(classifyError(new ProviderError('openai', 'NOT_CONFIGURED', 'no key', { retryable: true }))).toBeNull();
+    expect(classifyError(Object.assign(new Error('Agent timed out'), { name: 'AbortError' }))).toBeNull();
+    expect(classifyError(new BudgetExceededError('run', 'Blog', 'cost', 1, 2))).toBeNull();
+    expect(classifyError(new Error('Canvas full'))).toBeNull();
+  });
+});
+
+describe('backoffDelay', () => {
+  it('doubles per retry with half the delay jittered, capped at a minute', () => {
+    const policy = { maxRetries: 5, backoffMs: 1000, exponential: true };
+    expect([1, 2, 3].map((n) => backoffDelay(policy, n, () => 0))).toEqual([500, 1000, 2000]);
+    expect(backoffDelay(policy, 3, () => 0.999)).toBe(3998);
+    expect(backoffDelay({ ...policy, exponential: false }, 3, () => 0.5)).toBe(750);
+    expect(backoffDelay(policy, 20, () => 0)).toBe(30_000);
+  });
+});
+
+describe('withRetry', () => {
+  it('retries transient failures and records each failed attempt', async () => {
+    const attempts: RetryAttempt[] = [];
+    const operation = vi
+      .fn()
+      .mockRejectedValueOnce(httpError(429))
+      .mockRejectedValueOnce(httpError(503))
+      .mockResolvedValue('done');
+
+    await expect(withRetry(operation, fast, { onAttempt: (a) => attempts.push(a) })).resolves.toBe('done');
+
+    expect(operation).toHaveBeenCalledTimes(3);
+    expect(attempts.map((a) => [a.attempt, a.reason, a.error])).toEqual([
+      [1, 'rate_limited', 'HTTP 429'],
+      [2, 'server_error', 'HTTP 503'],
+    ]);
+    expect(attempts.every((a) => a.delayMs !== undefined)).toBe(true);
+  });
+
+  it('stops at the first permanent failure or when retries run out', async () => {
+    const attempts: RetryAttempt[] = [];
+    await expect(
+      withRetry(vi.fn().mockRejectedValue(httpError(400)), fast, { onAttempt: (a) => attempts.push(a) })
+    ).rejects.toThrow('HTTP 400');
+    expect(attempts).toEqual([expect.objectContaining({ attempt: 1, reason: null })]);
+    expect(attempts[0]).not.toHaveProperty('delayMs');
+
+    const exhausted = vi.fn().mockRejectedValue(httpError(529));
+    await expect(withRetry(exhausted, { ...fast, maxRetries: 2 })).rejects.toThrow('HTTP 529');
+    expect(exhausted).toHaveBeenCalledTimes(3);
+  });
+
+  it('gives up during the backoff when the signal aborts', async () => {
+    const controller = new AbortController();
+    const operation = vi.fn().mockRejectedValue(httpError(429));
+
+    const run = withRetry(operation, { maxRetries: 3, backoffMs: 60_000, exponential: false }, {
+      signal: controller.signal,
+      onAttempt: () => controller.abort(),
+    });
+
+    await expect(run).rejects.toMatchObject({ name: 'AbortError' });
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,180 @@
+// =============================================================================
+// Retry Engine
+// Shared by the workflow runtime (each model call an agent makes) and the
+// builder (each plan step). Failures are classified: rate limits (429),
+// overload (529), other 5xx, timeouts and network errors are retried with
+// jittered backoff; anything else fails at once. Every failed attempt is
+// reported, and aborting the signal cancels the backoff and further attempts.
+// =============================================================================
+
+import type { RetryAttempt } from '../../shared/socket-events';
+import { AutopilateError, ProviderError } from './errors';
+
+export type { RetryAttempt };
+
+export type RetryReason = NonNullable<RetryAttempt['reason']>;
+
+export interface RetryPolicy {
+  /** Attempts after the first */
+  maxRetries: number;
+  /** Delay before the first retry */
+  backoffMs: number;
+  /** Double the delay on each further retry */
+  exponential: boolean;
+}
+
+export interface RetryOptions {
+  signal?: AbortSignal;
+  /** Called for every failed attempt, before any backoff */
+  onAttempt?: (attempt: RetryAttempt) => void;
+  /** Replaces classifyError */
+  classify?: (err: unknown) => RetryReason | null;
+  /** Jitter source in [0, 1); Math.random by default */
+  random?: () => number;
+}
+
+/** Schema defaults of ExecutionConfig `retryPolicy` */
+export const DEFAULT_RETRY_POLICY: RetryPolicy = { maxRetries: 3, backoffMs: 1000, exponential: true };
+
+const MAX_RETRIES = 10;
+const MAX_BACKOFF_MS = 60_000;
+
+const TIMEOUT_CODES = new Set(['ETIMEDOUT', 'ESOCKETTIMEDOUT', 'UND_ERR_CONNECT_TIMEOUT', 'UND_ERR_HEADERS_TIMEOUT']);
+
+const NETWORK_CODES = new Set([
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ECONNABORTED',
+  'ENOTFOUND',
+  'EAI_AGAIN',
+  'EPIPE',
+  'ENETUNREACH',
+  'EHOSTUNREACH',
+  'UND_ERR_SOCKET',
+]);
+
+function nonNegative(value: unknown): number | undefined {
+  const n = Number(value);
+  return value !== undefined && value !== null && value !== '' && Number.isFinite(n) && n >= 0 ? n : undefined;
+}
+
+function statusReason(status: number): RetryReason | null {
+  if (status === 429) return 'rate_limited';
+  if (status === 529) return 'overloaded';
+  if (status === 408) return 'timeout';
+  return status >= 500 ? 'server_error' : null;
+}
+
+function abortError(): Error {
+  const err = new Error('Execution cancelled');
+  err.name = 'AbortError';
+  return err;
+}
+
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(abortError());
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Retry policy of an agent config: ExecutionConfig `retryPolicy`, with
+ * GuardrailsConfig `maxRetries` as the retry count when the policy sets none
+ * and as an upper bound when it does.
+ */
+export function parseRetryPolicy(config: Record<string, unknown>): RetryPolicy {
+  const policy = ((config.execution as Record<string, unknown>)?.retryPolicy ?? {}) as Record<string, unknown>;
+  const guardrail = nonNegative((config.guardrails as Record<string, unknown>)?.maxRetries);
+  const requested = nonNegative(policy.maxRetries) ?? guardrail ?? DEFAULT_RETRY_POLICY.maxRetries;
+
+  return {
+    maxRetries: Math.floor(Math.min(requested, guardrail ?? MAX_RETRIES, MAX_RETRIES)),
+    backoffMs: nonNegative(policy.backoffMs) ?? DEFAULT_RETRY_POLICY.backoffMs,
+    exponential: typeof policy.exponential === 'boolean' ? policy.exponential : DEFAULT_RETRY_POLICY.exponential,
+  };
+}
+
+/**
+ * Why an error is worth retrying, or null when it is not. Looks through
+ * `cause` so wrapped SDK and fetch errors are recognised. Aborts are never
+ * retried: they mean the run was stopped or the agent ran out of time.
+ */
+export function classifyError(err: unknown): RetryReason | null {
+  let current: unknown = err;
+  for (let depth = 0; current && depth < 5; depth++) {
+    if (current instanceof ProviderError) {
+      if (current.code === 'PROVIDER_TIMEOUT') return 'timeout';
+      if (current.upstreamStatus !== undefined) return statusReason(current.upstreamStatus);
+    } else if (current instanceof AutopilateError) {
+      return null;
+    } else {
+      const { name, code, status, message } = current as { name?: string; code?: string; status?: number; message?: string };
+      if (name === 'AbortError') return null;
+      if (typeof status === 'number') return statusReason(status);
+      if (name === 'APIConnectionTimeoutError' || name === 'TimeoutError' || TIMEOUT_CODES.has(code ?? '')) {
+        return 'timeout';
+      }
+      if (name === 'APIConnectionError' || NETWORK_CODES.has(code ?? '')) return 'network';
+      if (current instanceof TypeError && message === 'fetch failed') return 'network';
+    }
+    current = (current as { cause?: unknown }).cause;
+  }
+  return null;
+}
+
+/**
+ * Backoff before retry `retry` (1-based), capped at a minute. Half of the
+ * delay is fixed and half random, so agents that hit the same rate limit
+ * together do not retry together.
+ */
+export function backoffDelay(policy: RetryPolicy, retry: number, random: () => number = Math.random): number {
+  const delay = Math.min(
+    policy.exponential ? policy.backoffMs * 2 ** (retry - 1) : policy.backoffMs,
+    MAX_BACKOFF_MS
+  );
+  return Math.round(delay / 2 + (random() * delay) / 2);
+}
+
+/**
+ * Run `operation` until it succeeds, fails with an error that is not
+ * retryable, or runs out of retries; the last error is rethrown.
+ */
+export async function withRetry<T>(
+  operation: (attempt: number) => Promise<T>,
+  policy: RetryPolicy,
+  options: RetryOptions = {}
+): Promise<T> {
+  const classify = options.classify ?? classifyError;
+
+  for (let attempt = 1; ; attempt++) {
+    if (options.signal?.aborted) throw abortError();
+    const startedAt = Date.now();
+    try {
+      return await operation(attempt);
+    } catch (err) {
+      if (options.signal?.aborted) throw err;
+
+      const reason = classify(err);
+      const delayMs = reason && attempt <= policy.maxRetries ? backoffDelay(policy, attempt, options.random) : undefined;
+      options.onAttempt?.({
+        attempt,
+        error: err instanceof Error ? err.message : String(err),
+        reason,
+        durationMs: Date.now() - startedAt,
+        ...(delayMs !== undefined ? { delayMs } : {}),
+      });
+      if (delayMs === undefined) throw err;
+
+      await wait(delayMs, options.signal);
+    }
+  }
+}
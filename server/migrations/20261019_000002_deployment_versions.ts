@@ -0,0 +1,29 @@
+import { Client } from 'pg';
+
+export async function up(client: Client): Promise<void> {
+  await client.query(`
+    CREATE TABLE deployment_versions (
+      id              uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+      deployment_id   uuid NOT NULL REFERENCES deployments(id),
+      version         varchar(32) NOT NULL,
+      manifest_json   jsonb NOT NULL,
+      canvas_json     jsonb,
+      openclaw_config jsonb,
+      trigger_config  jsonb,
+      agent_configs   jsonb NOT NULL,
+      mcp_configs     jsonb NOT NULL,
+      pm2_ecosystem   jsonb NOT NULL,
+      created_at      timestamptz DEFAULT now(),
+      UNIQUE (deployment_id, version)
+    );
+
+    CREATE INDEX idx_deployment_versions_deployment_id
+      ON deployment_versions (deployment_id, created_at DESC);
+  `);
+}
+
+export async function down(client: Client): Promise<void> {
+  await client.query(`
+    DROP TABLE IF EXISTS deployment_versions;
+  `);
+}
@@ -0,0 +1,28 @@
+import { Client } from 'pg';
+
+export async function up(client: Client): Promise<void> {
+  await client.query(`
+    CREATE TABLE operator_runs (
+      id             uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+      operator_type  varchar(30) NOT NULL,
+      trigger        varchar(20) NOT NULL,
+      status         varchar(20) NOT NULL,
+      subject        varchar(255),
+      started_at     timestamptz DEFAULT now(),
+      completed_at   timestamptz,
+      duration_ms    integer,
+      actions_count  integer DEFAULT 0,
+      summary        text,
+      error_message  text
+    );
+
+    CREATE INDEX idx_operator_runs_started_at
+      ON operator_runs (operator_type, started_at DESC);
+  `);
+}
+
+export async function down(client: Client): Promise<void> {
+  await client.query(`
+    DROP TABLE IF EXISTS operator_runs;
+  `);
+}
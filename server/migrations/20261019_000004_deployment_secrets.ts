@@ -0,0 +1,86 @@
+import { Client } from 'pg';
+import { decrypt } from '../lib/crypto';
+
+interface LegacyDeployment {
+  id: string;
+  system_slug: string;
+  secrets_encrypted: Buffer | null;
+  pm2_ecosystem: { apps?: Array<{ name?: string; env?: Record<string, string> }> } | null;
+  mcp_configs: Array<{ name?: string; env?: Record<string, string> }> | null;
+}
+
+// Provider keys appear in app envs as `${NAME}` placeholders
+const PLACEHOLDER = /^\$\{([A-Za-z_][A-Za-z0-9_]*)\}$/;
+
+/** The .env.example the system was deployed with, which secrets_encrypted held until now */
+function storedEnvExample(row: LegacyDeployment): Record<string, string> | null {
+  if (!row.secrets_encrypted || !process.env.ENCRYPTION_KEY) return null;
+  try {
+    return JSON.parse(decrypt(row.secrets_encrypted.toString('utf-8')));
+  } catch {
+    return null;
+  }
+}
+
+/** The same keys, read back from the latest version snapshot's app and MCP envs */
+function snapshotEnvExample(row: LegacyDeployment): Record<string, string> | null {
+  if (!row.pm2_ecosystem && !row.mcp_configs) return null;
+
+  const required: Record<string, string> = {};
+  for (const app of row.pm2_ecosystem?.apps ?? []) {
+    for (const value of Object.values(app.env ?? {})) {
+      const name = PLACEHOLDER.exec(value)?.[1];
+      if (name) required[name] = `# Required by ${app.name ?? 'an agent'}`;
+    }
+  }
+  for (const mcp of row.mcp_configs ?? []) {
+    for (const key of Object.keys(mcp.env ?? {})) {
+      required[key] ??= `# Required by MCP server: ${mcp.name ?? 'unknown'}`;
+    }
+  }
+  return required;
+}
+
+export async function up(client: Client): Promise<void> {
+  await client.query(`
+    ALTER TABLE deployments
+      ADD COLUMN required_secrets jsonb NOT NULL DEFAULT '{}'::jsonb;
+  `);
+
+  // Backfill the names the vault should ask for before the placeholders go
+  const { rows } = await client.query<LegacyDeployment>(`
+    SELECT d.id, d.system_slug, d.secrets_encrypted, v.pm2_ecosystem, v.mcp_configs
+    FROM deployments d
+    LEFT JOIN LATERAL (
+      SELECT pm2_ecosystem, mcp_configs FROM deployment_versions
+      WHERE deployment_id = d.id
+      ORDER BY created_at DESC
+      LIMIT 1
+    ) v ON true
+  `);
+  for (const row of rows) {
+    const required = storedEnvExample(row) ?? snapshotEnvExample(row);
+    if (required && Object.keys(required).length > 0) {
+      await client.query(`UPDATE deployments SET required_secrets = $1::jsonb WHERE id = $2`, [
+        JSON.stringify(required),
+        row.id,
+      ]);
+    } else if (row.secrets_encrypted) {
+      console.warn(
+        `Required secrets of ${row.system_slug} could not be recovered; redeploy it to list them under its secrets`
+      );
+    }
+  }
+
+  await client.query(`
+    -- Until now secrets_encrypted only ever held the bundle's .env.example
+    -- placeholders, never real values
+    UPDATE deployments SET secrets_encrypted = NULL;
+  `);
+}
+
+export async function down(client: Client): Promise<void> {
+  await client.query(`
+    ALTER TABLE deployments DROP COLUMN IF EXISTS required_secrets;
+  `);
+}
@@ -0,0 +1,35 @@
+import { Client } from 'pg';
+
+export async function up(client: Client): Promise<void> {
+  await client.query(`
+    ALTER TABLE deployments
+      ADD COLUMN max_concurrency integer CHECK (max_concurrency > 0);
+
+    ALTER TABLE execution_logs
+      ADD COLUMN priority    integer NOT NULL DEFAULT 0,
+      ADD COLUMN dedupe_key  varchar(255),
+      ADD COLUMN queued_at   timestamptz;
+
+    UPDATE execution_logs SET queued_at = started_at;
+
+    CREATE INDEX idx_execution_logs_queue
+      ON execution_logs (deployment_id, priority DESC, queued_at)
+      WHERE status = 'queued';
+
+    CREATE INDEX idx_execution_logs_dedupe_key
+      ON execution_logs (deployment_id, dedupe_key)
+      WHERE dedupe_key IS NOT NULL;
+  `);
+}
+
+export async function down(client: Client): Promise<void> {
+  await client.query(`
+    DROP INDEX IF EXISTS idx_execution_logs_dedupe_key;
+    DROP INDEX IF EXISTS idx_execution_logs_queue;
+    ALTER TABLE execution_logs
+      DROP COLUMN IF EXISTS queued_at,
+      DROP COLUMN IF EXISTS dedupe_key,
+      DROP COLUMN IF EXISTS priority;
+    ALTER TABLE deployments DROP COLUMN IF EXISTS max_concurrency;
+  `);
+}
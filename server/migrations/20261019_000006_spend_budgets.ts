@@ -0,0 +1,25 @@
+import { Client } from 'pg';
+
+export async function up(client: Client): Promise<void> {
+  await client.query(`
+    ALTER TABLE deployments
+      ADD COLUMN budget_daily_usd    decimal(10,2) CHECK (budget_daily_usd > 0),
+      ADD COLUMN budget_monthly_usd  decimal(10,2) CHECK (budget_monthly_usd > 0),
+      ADD COLUMN budget_warn_percent integer NOT NULL DEFAULT 80
+        CHECK (budget_warn_percent BETWEEN 1 AND 100);
+
+    CREATE INDEX idx_execution_logs_spend
+      ON execution_logs (deployment_id, completed_at)
+      WHERE cost_usd IS NOT NULL;
+  `);
+}
+
+export async function down(client: Client): Promise<void> {
+  await client.query(`
+    DROP INDEX IF EXISTS idx_execution_logs_spend;
+    ALTER TABLE deployments
+      DROP COLUMN IF EXISTS budget_warn_percent,
+      DROP COLUMN IF EXISTS budget_monthly_usd,
+      DROP COLUMN IF EXISTS budget_daily_usd;
+  `);
+}
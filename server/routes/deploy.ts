@@ -5,40 +5,55 @@
 
 import { Router, Request, Response, NextFunction } from 'express';
 import { z } from 'zod';
-import { validateBody } from '../src/middleware/validation';
+import {
+  validateBody,
+  validateQuery,
+  triggerSettingsSchema,
+  cronPreviewQuerySchema,
+} from '../src/middleware/validation';
 import { AppError } from '../src/middleware/error-handler';
 import { deploySystem, DeployError } from '../services/deploy-bridge';
+import { planDeploy } from '../services/deploy-plan';
+import { withoutSecrets } from '../services/secrets-vault';
+import { parseCron, nextCronRuns } from '../lib/cron';
+import { SYSTEM_SLUG_MESSAGE, SYSTEM_SLUG_PATTERN } from '../lib/process-names';
 
 // -----------------------------------------------------------------------------
 // Zod Schema (mirrors the systems register schema)
 // -----------------------------------------------------------------------------
 
-const deployBodySchema = z.object({
-  manifest: z.object({
-    name: z.string().min(1),
-    slug: z.string().min(1).max(128).regex(/^[a-z0-9-]+$/, 'slug must be lowercase alphanumeric with hyphens'),
-    description: z.string(),
-    version: z.string(),
-    category: z.enum(['web-development', 'content-production', 'research', 'data-analysis', 'monitoring']),
-    requiredInputs: z.array(z.object({
-      name: z.string(),
-      type: z.string(),
+const deployBodySchema = z
+  .object({
+    manifest: z.object({
+      name: z.string().min(1),
+      slug: z.string().min(1).max(128).regex(SYSTEM_SLUG_PATTERN, SYSTEM_SLUG_MESSAGE),
       description: z.string(),
-      required: z.boolean(),
-    })),
-    outputType: z.enum(['web_artifact', 'document', 'data', 'notification']),
-    estimatedCostUsd: z.number().min(0),
-    triggerPattern: z.enum(['cron', 'webhook', 'messaging', 'always-on']),
-    nodeCount: z.number().int().min(0),
-    edgeCount: z.number().int().min(0),
-  }),
-  canvasJson: z.unknown(),
-  agentConfigs: z.record(z.string(), z.unknown()),
-  mcpConfigs: z.array(z.unknown()),
-  pm2Ecosystem: z.unknown(),
-  envExample: z.record(z.string(), z.string()),
-  createdAt: z.string(),
-});
+      version: z.string(),
+      category: z.enum(['web-development', 'content-production', 'research', 'data-analysis', 'monitoring']),
+      requiredInputs: z.array(z.object({
+        name: z.string(),
+        type: z.string(),
+        description: z.string(),
+        required: z.boolean(),
+      })),
+      outputType: z.enum(['web_artifact', 'document', 'data', 'notification']),
+      estimatedCostUsd: z.number().min(0),
+      triggerPattern: z.enum(['cron', 'webhook', 'messaging', 'always-on']),
+      nodeCount: z.number().int().min(0),
+      edgeCount: z.number().int().min(0),
+    }),
+    canvasJson: z.unknown(),
+    agentConfigs: z.record(z.string(), z.unknown()),
+    mcpConfigs: z.array(z.unknown()),
+    pm2Ecosystem: z.unknown(),
+    envExample: z.record(z.string(), z.string()),
+    createdAt: z.string(),
+    trigger: triggerSettingsSchema.optional(),
+  })
+  .refine((body) => !body.trigger || body.trigger.type === body.manifest.triggerPattern, {
+    message: 'trigger.type must match manifest.triggerPattern',
+    path: ['trigger', 'type'],
+  });
 
 // -----------------------------------------------------------------------------
 // Router
@@ -54,7 +69,7 @@ router.post(
     try {
       const openclawRoot = process.env.OPENCLAW_ROOT || '/opt/openclaw';
       const record = await deploySystem(req.body, openclawRoot);
-      res.status(201).json(record);
+      res.status(201).json(withoutSecrets(record));
     } catch (error) {
       // DeployError (DeploymentError) is an AutopilateError — the centralized
       // error handler will format it correctly. Pass through directly.
@@ -67,7 +82,11 @@ router.post(
         (error as { code: string }).code === '23505'
       ) {
         return next(
-          new AppError(409, `System with slug "${req.body.manifest.slug}" already exists`, 'DUPLICATE_SLUG')
+          new AppError(
+            409,
+            `System with slug "${req.body.manifest.slug}" already exists — use POST /api/systems/${req.body.manifest.slug}/deploy to ship a new version`,
+            'DUPLICATE_SLUG'
+          )
         );
       }
       next(error);
@@ -75,4 +94,38 @@ router.post(
   }
 );
 
+// POST /api/deploy/plan — dry run: validate the bundle and list the files it would write
+router.post(
+  '/plan',
+  validateBody(deployBodySchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const openclawRoot = process.env.OPENCLAW_ROOT || '/opt/openclaw';
+      res.json(await planDeploy(req.body, openclawRoot));
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// GET /api/deploy/cron-preview — validate a cron expression, list its next fire times
+router.get(
+  '/cron-preview',
+  validateQuery(cronPreviewQuerySchema),
+  (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { expression, timezone, count } = req.query as unknown as z.infer<typeof cronPreviewQuerySchema>;
+      // CronExpressionError (400) names the invalid field
+      const schedule = parseCron(expression, timezone);
+      res.json({
+        expression: schedule.expression,
+        timezone,
+        nextRuns: nextCronRuns(schedule, count).map((run) => run.toISOString()),
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
 export { router as deployRouter };
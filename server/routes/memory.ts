@@ -0,0 +1,45 @@
+// =============================================================================
+// Agent Memory Routes
+// Inspect and clear what canvas agents remember between runs. `:system` is
+// the workflow name the runs were started under.
+// =============================================================================
+
+import { Router, Request, Response, NextFunction } from 'express';
+import { AppError } from '../src/middleware/error-handler';
+import { clearMemory, listMemories, loadMemory } from '../services/agent-memory';
+
+// -----------------------------------------------------------------------------
+// Router
+// -----------------------------------------------------------------------------
+
+const router = Router();
+
+// GET /api/memory/:system — agents with stored memory
+router.get('/:system', (req: Request, res: Response) => {
+  res.json({ system: req.params.system, agents: listMemories(req.params.system) });
+});
+
+// GET /api/memory/:system/:agentId — one agent's summary and entries
+router.get('/:system/:agentId', (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const memory = loadMemory(req.params.system, req.params.agentId);
+    if (!memory) {
+      throw new AppError(404, `No memory for agent "${req.params.agentId}"`, 'NOT_FOUND');
+    }
+    res.json(memory);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// DELETE /api/memory/:system — forget every agent of the system
+router.delete('/:system', (req: Request, res: Response) => {
+  res.json({ cleared: clearMemory(req.params.system) });
+});
+
+// DELETE /api/memory/:system/:agentId — forget one agent
+router.delete('/:system/:agentId', (req: Request, res: Response) => {
+  res.json({ cleared: clearMemory(req.params.system, req.params.agentId) });
+});
+
+export { router as memoryRouter };
@@ -0,0 +1,31 @@
+// =============================================================================
+// Inbound Messaging Routes
+// Receives POST /api/messages/inbound from messaging channel bridges and
+// routes each message through the Router Agent to the deployed systems
+// =============================================================================
+
+import { Router, Request, Response, NextFunction } from 'express';
+import { inboundMessageBodySchema, validateBody } from '../src/middleware/validation';
+import { handleInboundMessage } from '../services/inbound-messages';
+
+// -----------------------------------------------------------------------------
+// Router
+// -----------------------------------------------------------------------------
+
+const router = Router();
+
+// POST /api/messages/inbound — classify, clarify or trigger a system
+router.post(
+  '/inbound',
+  validateBody(inboundMessageBodySchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const result = await handleInboundMessage(req.body);
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export { router as messagesRouter };
@@ -0,0 +1,31 @@
+// =============================================================================
+// Metrics API Routes
+// Fleet-wide execution metrics; per-system metrics live under /api/systems
+// =============================================================================
+
+import { Router, Request, Response, NextFunction } from 'express';
+import { metricsQuerySchema } from '../src/middleware/validation';
+import { AppError } from '../src/middleware/error-handler';
+import { getFleetMetrics } from '../services/execution-metrics';
+
+// -----------------------------------------------------------------------------
+// Router
+// -----------------------------------------------------------------------------
+
+const router = Router();
+
+// GET /api/metrics — bucketed series across every non-archived system
+router.get('/', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const parsed = metricsQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      throw new AppError(400, 'Invalid query parameters', 'VALIDATION_ERROR');
+    }
+
+    res.json(await getFleetMetrics(parsed.data));
+  } catch (error) {
+    next(error);
+  }
+});
+
+export { router as metricsRouter };
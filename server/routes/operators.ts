@@ -1,13 +1,21 @@
 // =============================================================================
 // Operator Actions API Routes
-// CRUD routes for managing operator actions (monitor, QA, optimization)
+// CRUD routes for managing operator actions (monitor, QA, optimization),
+// plus the scheduler's run history and manual "run now" triggers
 // =============================================================================
 
 import { Router, Request, Response, NextFunction } from 'express';
 import { z } from 'zod';
 import { pool } from '../db';
 import { AppError } from '../src/middleware/error-handler';
-import { restartProcess } from '../services/pm2-manager';
+import { restartSystemProcesses } from '../services/pm2-manager';
+import { OperatorError } from '../lib/errors';
+import {
+  getOperatorSchedules,
+  listOperatorRuns,
+  remediateExecution,
+  startOperatorRun,
+} from '../services/operator-scheduler';
 
 // -----------------------------------------------------------------------------
 // Types
@@ -57,6 +65,27 @@ const actionIdSchema = z.object({
   id: z.string().uuid(),
 });
 
+const operatorTypeSchema = z.enum(['system_monitor', 'remediation', 'optimization']);
+
+const runsQuerySchema = z.object({
+  operator_type: operatorTypeSchema.optional(),
+  status: z.enum(['running', 'completed', 'failed', 'skipped']).optional(),
+  limit: z
+    .string()
+    .optional()
+    .transform((val) => (val ? parseInt(val, 10) : 50))
+    .pipe(z.number().int().min(1).max(200)),
+  offset: z
+    .string()
+    .optional()
+    .transform((val) => (val ? parseInt(val, 10) : 0))
+    .pipe(z.number().int().min(0)),
+});
+
+const runNowBodySchema = z.object({
+  executionId: z.string().uuid().optional(),
+});
+
 // -----------------------------------------------------------------------------
 // Helpers
 // -----------------------------------------------------------------------------
@@ -266,6 +295,72 @@ router.post(
   }
 );
 
+// GET /api/operators/runs — operator run history, newest first
+router.get('/runs', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const parsed = runsQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      throw new AppError(400, 'Invalid query parameters', 'VALIDATION_ERROR');
+    }
+
+    const { operator_type, status, limit, offset } = parsed.data;
+    const { runs, total } = await listOperatorRuns({ operatorType: operator_type, status, limit, offset });
+
+    res.json({ runs, total, limit, offset });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/operators/schedules — cron schedule and next run per operator
+router.get('/schedules', (_req: Request, res: Response) => {
+  res.json({ schedules: getOperatorSchedules() });
+});
+
+// POST /api/operators/:operator/run — run an operator now.
+// QA remediation needs the `executionId` of a completed execution.
+router.post('/:operator/run', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const operatorParsed = operatorTypeSchema.safeParse(req.params.operator);
+    if (!operatorParsed.success) {
+      throw new AppError(404, `Unknown operator "${req.params.operator}"`, 'NOT_FOUND');
+    }
+    const bodyParsed = runNowBodySchema.safeParse(req.body ?? {});
+    if (!bodyParsed.success) {
+      throw new AppError(400, 'Invalid request body', 'VALIDATION_ERROR');
+    }
+
+    const operator = operatorParsed.data;
+    const { executionId } = bodyParsed.data;
+
+    let started;
+    if (operator === 'remediation' && executionId) {
+      try {
+        started = await remediateExecution(executionId, 'manual');
+      } catch (err) {
+        if (err instanceof OperatorError && err.code === 'OPERATOR_EXECUTION_NOT_FOUND') {
+          throw new AppError(404, err.message, 'NOT_FOUND');
+        }
+        throw err;
+      }
+      if (!started) {
+        throw new AppError(422, 'Execution has no failing QA scores to remediate', 'NOTHING_TO_REMEDIATE');
+      }
+    } else {
+      // Without an execution, remediation sweeps recent unremediated failures
+      started = await startOperatorRun(operator, 'manual');
+    }
+
+    if (started.run.status === 'skipped') {
+      throw new AppError(409, `${operator} is already running`, 'ALREADY_RUNNING');
+    }
+
+    res.status(202).json({ run: started.run });
+  } catch (error) {
+    next(error);
+  }
+});
+
 // -----------------------------------------------------------------------------
 // Apply approved action: update deployment config and restart process
 // -----------------------------------------------------------------------------
@@ -287,10 +382,10 @@ async function applyApprovedAction(action: OperatorActionRow): Promise<void> {
     );
   }
 
-  // Restart the process for the affected system
+  // Restart every agent process of the affected system
   if (action.system_slug) {
     try {
-      await restartProcess(`autopilate-${action.system_slug}`);
+      await restartSystemProcesses(action.system_slug);
     } catch {
       console.warn(
         `[operators] Process restart failed for ${action.system_slug}`
@@ -4,7 +4,7 @@
 
 import { Router, Request, Response, NextFunction } from 'express';
 import { z } from 'zod';
-import { validateBody } from '../src/middleware/validation';
+import { validateBody, triggerSettingsSchema, metricsQuerySchema } from '../src/middleware/validation';
 import { AppError } from '../src/middleware/error-handler';
 import {
   registerSystem,
@@ -14,6 +14,37 @@ import {
   archiveSystem,
   SystemNotFoundError,
 } from '../services/registry';
+import { listExecutionLogs, getExecutionLog } from '../services/execution-logs';
+import { getSystemMetrics } from '../services/execution-metrics';
+import { getBudgetStatus, setBudget, MAX_BUDGET_USD } from '../services/spend-budgets';
+import {
+  dispatchExecution,
+  mapPayloadToInputs,
+  getRunQueue,
+  setMaxConcurrency,
+  cancelQueuedExecution,
+  MAX_CONCURRENCY_LIMIT,
+} from '../services/execution-dispatcher';
+import {
+  listSystemProcesses,
+  stopSystemProcesses,
+} from '../services/pm2-manager';
+import {
+  redeploySystem,
+  rollbackSystem,
+  restartSystem,
+  updateTrigger,
+} from '../services/deploy-bridge';
+import { listVersions } from '../services/deployment-versions';
+import { unsubscribeFromSystem } from '../services/openclaw-client';
+import {
+  listSecrets,
+  setSecret,
+  deleteSecret,
+  withoutSecrets,
+} from '../services/secrets-vault';
+import type { DeploymentRecord } from '../types/registry';
+import { SYSTEM_SLUG_MESSAGE, SYSTEM_SLUG_PATTERN } from '../lib/process-names';
 
 // -----------------------------------------------------------------------------
 // Zod Schemas
@@ -21,7 +52,7 @@ import {
 
 const systemManifestSchema = z.object({
   name: z.string().min(1),
-  slug: z.string().min(1).max(128).regex(/^[a-z0-9-]+$/, 'slug must be lowercase alphanumeric with hyphens'),
+  slug: z.string().min(1).max(128).regex(SYSTEM_SLUG_PATTERN, SYSTEM_SLUG_MESSAGE),
   description: z.string(),
   version: z.string(),
   category: z.enum(['web-development', 'content-production', 'research', 'data-analysis', 'monitoring']),
@@ -38,20 +69,96 @@ const systemManifestSchema = z.object({
   edgeCount: z.number().int().min(0),
 });
 
-const registerSystemBodySchema = z.object({
-  manifest: systemManifestSchema,
-  canvasJson: z.unknown(),
-  agentConfigs: z.record(z.string(), z.unknown()),
-  mcpConfigs: z.array(z.unknown()),
-  pm2Ecosystem: z.unknown(),
-  envExample: z.record(z.string(), z.string()),
-  createdAt: z.string(),
-});
+const registerSystemBodySchema = z
+  .object({
+    manifest: systemManifestSchema,
+    canvasJson: z.unknown(),
+    agentConfigs: z.record(z.string(), z.unknown()),
+    mcpConfigs: z.array(z.unknown()),
+    pm2Ecosystem: z.unknown(),
+    envExample: z.record(z.string(), z.string()),
+    createdAt: z.string(),
+    trigger: triggerSettingsSchema.optional(),
+  })
+  .refine((body) => !body.trigger || body.trigger.type === body.manifest.triggerPattern, {
+    message: 'trigger.type must match manifest.triggerPattern',
+    path: ['trigger', 'type'],
+  });
 
 const updateSystemBodySchema = z.object({
   status: z.enum(['deployed', 'stopped', 'errored']),
 });
 
+const isoDate = z
+  .string()
+  .refine((val) => !Number.isNaN(Date.parse(val)), 'must be an ISO 8601 date');
+
+const logsQuerySchema = z.object({
+  status: z.enum(['queued', 'running', 'completed', 'failed', 'qa_failed', 'cancelled']).optional(),
+  triggered_by: z.enum(['cron', 'webhook', 'messaging', 'manual', 'operator', 'qa-remediation']).optional(),
+  from: isoDate.optional(),
+  to: isoDate.optional(),
+  limit: z
+    .string()
+    .optional()
+    .transform((val) => (val ? parseInt(val, 10) : 50))
+    .pipe(z.number().int().min(1).max(200)),
+  offset: z
+    .string()
+    .optional()
+    .transform((val) => (val ? parseInt(val, 10) : 0))
+    .pipe(z.number().int().min(0)),
+});
+
+const executionIdSchema = z.string().uuid();
+
+const rollbackBodySchema = z.object({
+  version: z.string().min(1),
+});
+
+const triggerBodySchema = z.object({
+  inputs: z.record(z.string(), z.unknown()).default({}),
+});
+
+const queueBodySchema = z.object({
+  maxConcurrency: z.number().int().min(1).max(MAX_CONCURRENCY_LIMIT).nullable(),
+});
+
+const budgetBodySchema = z.object({
+  dailyLimitUsd: z.number().positive().max(MAX_BUDGET_USD).nullable(),
+  monthlyLimitUsd: z.number().positive().max(MAX_BUDGET_USD).nullable(),
+  warnPercent: z.number().int().min(1).max(100).default(80),
+});
+
+const secretNameSchema = z.string().max(128).regex(/^[A-Za-z_][A-Za-z0-9_]*$/);
+
+const secretBodySchema = z.object({
+  value: z.string().min(1).max(10_000),
+});
+
+// -----------------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------------
+
+function openclawRoot(): string {
+  return process.env.OPENCLAW_ROOT || '/opt/openclaw';
+}
+
+async function requireSystem(slug: string): Promise<DeploymentRecord> {
+  const record = await getSystem(slug);
+  if (!record) {
+    throw new AppError(404, `System "${slug}" not found`, 'NOT_FOUND');
+  }
+  return record;
+}
+
+function requireSecretName(name: string): string {
+  if (!secretNameSchema.safeParse(name).success) {
+    throw new AppError(400, 'Secret names must be env var names (letters, digits, underscores)', 'VALIDATION_ERROR');
+  }
+  return name;
+}
+
 // -----------------------------------------------------------------------------
 // Router
 // -----------------------------------------------------------------------------
@@ -62,7 +169,7 @@ const router = Router();
 router.get('/', async (_req: Request, res: Response, next: NextFunction) => {
   try {
     const systems = await listSystems();
-    res.json({ systems });
+    res.json({ systems: systems.map(withoutSecrets) });
   } catch (error) {
     next(error);
   }
@@ -75,7 +182,7 @@ router.post(
   async (req: Request, res: Response, next: NextFunction) => {
     try {
       const record = await registerSystem(req.body);
-      res.status(201).json(record);
+      res.status(201).json(withoutSecrets(record));
     } catch (error) {
       // Handle unique slug constraint violation
       if (
@@ -95,11 +202,8 @@ router.post(
 // GET /api/systems/:slug — get a single system
 router.get('/:slug', async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const record = await getSystem(req.params.slug);
-    if (!record) {
-      throw new AppError(404, `System "${req.params.slug}" not found`, 'NOT_FOUND');
-    }
-    res.json(record);
+    const record = await requireSystem(req.params.slug);
+    res.json(withoutSecrets(record));
   } catch (error) {
     next(error);
   }
@@ -120,10 +224,297 @@ router.put(
   }
 );
 
+// GET /api/systems/:slug/logs — paginated execution history
+router.get('/:slug/logs', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const parsed = logsQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      throw new AppError(400, 'Invalid query parameters', 'VALIDATION_ERROR');
+    }
+
+    const record = await requireSystem(req.params.slug);
+    const { status, triggered_by, from, to, limit, offset } = parsed.data;
+
+    const page = await listExecutionLogs(record.id, {
+      status,
+      triggeredBy: triggered_by,
+      from,
+      to,
+      limit,
+      offset,
+    });
+    res.json(page);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/systems/:slug/logs/:id — single execution detail
+router.get('/:slug/logs/:id', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (!executionIdSchema.safeParse(req.params.id).success) {
+      throw new AppError(400, 'Invalid execution ID', 'VALIDATION_ERROR');
+    }
+
+    const record = await requireSystem(req.params.slug);
+    const log = await getExecutionLog(record.id, req.params.id);
+    if (!log) {
+      throw new AppError(404, `Execution "${req.params.id}" not found`, 'NOT_FOUND');
+    }
+    res.json(log);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/systems/:slug/metrics — bucketed cost, duration, failure and QA series
+router.get('/:slug/metrics', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const parsed = metricsQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      throw new AppError(400, 'Invalid query parameters', 'VALIDATION_ERROR');
+    }
+
+    const record = await requireSystem(req.params.slug);
+    res.json(await getSystemMetrics(record.id, parsed.data));
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/systems/:slug/trigger — manually start a run
+router.post(
+  '/:slug/trigger',
+  validateBody(triggerBodySchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const record = await requireSystem(req.params.slug);
+      const inputs = mapPayloadToInputs(record.manifestJson, req.body.inputs);
+      const { executionId, status } = await dispatchExecution({
+        deployment: record,
+        triggeredBy: 'manual',
+        inputs,
+      });
+      res.status(202).json({ executionId, status });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// PUT /api/systems/:slug/trigger — change the trigger (file + registry row)
+router.put(
+  '/:slug/trigger',
+  validateBody(triggerSettingsSchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const record = await requireSystem(req.params.slug);
+      const updated = await updateTrigger(record, req.body, openclawRoot());
+      res.json(withoutSecrets(updated));
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// GET /api/systems/:slug/queue — concurrency limit, running count and queued runs
+router.get('/:slug/queue', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const record = await requireSystem(req.params.slug);
+    res.json(await getRunQueue(record.id));
+  } catch (error) {
+    next(error);
+  }
+});
+
+// PUT /api/systems/:slug/queue — set the concurrency limit (null = default)
+router.put(
+  '/:slug/queue',
+  validateBody(queueBodySchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const record = await requireSystem(req.params.slug);
+      res.json(await setMaxConcurrency(record.id, req.body.maxConcurrency));
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// DELETE /api/systems/:slug/queue/:id — cancel a queued run
+router.delete('/:slug/queue/:id', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (!executionIdSchema.safeParse(req.params.id).success) {
+      throw new AppError(400, 'Invalid execution ID', 'VALIDATION_ERROR');
+    }
+    const record = await requireSystem(req.params.slug);
+    await cancelQueuedExecution(record.id, req.params.id);
+    res.status(204).send();
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/systems/:slug/budget — spend limits and today's / this month's spend
+router.get('/:slug/budget', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const record = await requireSystem(req.params.slug);
+    res.json(await getBudgetStatus(record.id));
+  } catch (error) {
+    next(error);
+  }
+});
+
+// PUT /api/systems/:slug/budget — set daily/monthly limits (null = no limit)
+router.put(
+  '/:slug/budget',
+  validateBody(budgetBodySchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const record = await requireSystem(req.params.slug);
+      res.json(await setBudget(record.id, req.body));
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// GET /api/systems/:slug/processes — per-agent PM2 status
+router.get('/:slug/processes', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const record = await requireSystem(req.params.slug);
+    const processes = await listSystemProcesses(record.systemSlug);
+    res.json({ processes });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/systems/:slug/stop — stop every agent process
+router.post('/:slug/stop', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const record = await requireSystem(req.params.slug);
+    const stopped = await stopSystemProcesses(record.systemSlug);
+    await updateSystemStatus(record.systemSlug, 'stopped');
+    res.json({ success: true, stopped });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/systems/:slug/restart — recreate every agent process with current secrets
+router.post('/:slug/restart', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const record = await requireSystem(req.params.slug);
+    const processes = await restartSystem(record, openclawRoot());
+    await updateSystemStatus(record.systemSlug, 'deployed');
+    res.json({ success: true, processes });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/systems/:slug/deploy — redeploy an updated bundle as a new version
+router.post(
+  '/:slug/deploy',
+  validateBody(registerSystemBodySchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const record = await requireSystem(req.params.slug);
+      const updated = await redeploySystem(record, req.body, openclawRoot());
+      res.json(withoutSecrets(updated));
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// GET /api/systems/:slug/versions — deployed versions, newest first
+router.get('/:slug/versions', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const record = await requireSystem(req.params.slug);
+    const versions = await listVersions(record.id);
+    res.json({ currentVersion: record.manifestJson.version, versions });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/systems/:slug/rollback — restore a previously deployed version
+router.post(
+  '/:slug/rollback',
+  validateBody(rollbackBodySchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const record = await requireSystem(req.params.slug);
+      const restored = await rollbackSystem(record, req.body.version, openclawRoot());
+      res.json(withoutSecrets(restored));
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// GET /api/systems/:slug/secrets — masked secrets and missing required ones
+router.get('/:slug/secrets', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const record = await requireSystem(req.params.slug);
+    res.json(await listSecrets(record));
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/systems/:slug/secrets/:name — one masked secret
+router.get('/:slug/secrets/:name', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const name = requireSecretName(req.params.name);
+    const record = await requireSystem(req.params.slug);
+    const { secrets } = await listSecrets(record);
+    const secret = secrets.find((s) => s.name === name);
+    if (!secret) {
+      throw new AppError(404, `Secret "${name}" not found`, 'NOT_FOUND');
+    }
+    res.json(secret);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// PUT /api/systems/:slug/secrets/:name — set or replace a secret (applied on restart)
+router.put(
+  '/:slug/secrets/:name',
+  validateBody(secretBodySchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const name = requireSecretName(req.params.name);
+      const record = await requireSystem(req.params.slug);
+      await setSecret(record, name, req.body.value);
+      const { secrets } = await listSecrets(record);
+      res.json(secrets.find((s) => s.name === name));
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// DELETE /api/systems/:slug/secrets/:name — remove a secret (applied on restart)
+router.delete('/:slug/secrets/:name', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const name = requireSecretName(req.params.name);
+    const record = await requireSystem(req.params.slug);
+    await deleteSecret(record, name);
+    res.status(204).send();
+  } catch (error) {
+    next(error);
+  }
+});
+
 // DELETE /api/systems/:slug — archive a system (soft delete)
 router.delete('/:slug', async (req: Request, res: Response, next: NextFunction) => {
   try {
     await archiveSystem(req.params.slug);
+    unsubscribeFromSystem(req.params.slug);
     res.status(204).send();
   } catch (error) {
     // SystemNotFoundError is an AutopilateError with 404 status — pass through
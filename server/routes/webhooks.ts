@@ -0,0 +1,99 @@
+// =============================================================================
+// Inbound Webhook Routes
+// Receives POST /api/webhooks/:slug for webhook-triggered systems, verifies
+// the per-system secret and dispatches a run
+// =============================================================================
+
+import { Router, Response, NextFunction } from 'express';
+import { AppError } from '../src/middleware/error-handler';
+import {
+  RawBodyRequest,
+  verifyBearerToken,
+  verifyHmacSignature,
+} from '../src/middleware/webhook-verify';
+import { getSystem } from '../services/registry';
+import { dispatchExecution, mapPayloadToInputs } from '../services/execution-dispatcher';
+import type { WebhookTriggerConfig } from '../services/trigger-factory';
+import type { DeploymentRecord } from '../types/registry';
+import { WebhookSignatureError } from '../lib/errors';
+
+// -----------------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------------
+
+/**
+ * Resolve the secret for a system's webhook: the WEBHOOK_SECRET stored in the
+ * system's vault first, then a secret left in the trigger config by an earlier
+ * version, then the server-wide WEBHOOK_SECRET env var.
+ */
+function resolveWebhookSecret(
+  record: DeploymentRecord,
+  trigger: WebhookTriggerConfig
+): string | undefined {
+  return (
+    record.secretsDecrypted?.WEBHOOK_SECRET ||
+    trigger.secret ||
+    process.env.WEBHOOK_SECRET ||
+    undefined
+  );
+}
+
+function verifyRequest(
+  req: RawBodyRequest,
+  record: DeploymentRecord,
+  trigger: WebhookTriggerConfig
+): void {
+  if (trigger.authType === 'none') return;
+
+  const secret = resolveWebhookSecret(record, trigger);
+  if (!secret) {
+    // Never accept an authenticated webhook we have no way to verify
+    throw new WebhookSignatureError(`No webhook secret configured for ${record.systemSlug}`);
+  }
+
+  if (trigger.authType === 'hmac') {
+    verifyHmacSignature(req.rawBody ?? Buffer.alloc(0), secret, req.header('X-Webhook-Signature'));
+  } else {
+    verifyBearerToken(secret, req.header('Authorization'));
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Router
+// -----------------------------------------------------------------------------
+
+const router = Router();
+
+// POST /api/webhooks/:slug — fire a webhook-triggered system
+router.post('/:slug', async (req: RawBodyRequest, res: Response, next: NextFunction) => {
+  try {
+    const record = await getSystem(req.params.slug);
+    const trigger = record?.triggerConfig as WebhookTriggerConfig | undefined;
+
+    // Systems without a webhook trigger are indistinguishable from unknown slugs
+    if (!record || record.triggerType !== 'webhook' || trigger?.type !== 'webhook') {
+      throw new AppError(404, `No webhook registered for "${req.params.slug}"`, 'NOT_FOUND');
+    }
+
+    verifyRequest(req, record, trigger);
+
+    if (!trigger.enabled) {
+      throw new AppError(409, `Webhook for "${record.systemSlug}" is disabled`, 'TRIGGER_DISABLED');
+    }
+
+    const inputs = mapPayloadToInputs(record.manifestJson, req.body);
+    const { executionId, status, deduplicated } = await dispatchExecution({
+      deployment: record,
+      triggeredBy: 'webhook',
+      inputs,
+      dedupeKey: req.header('Idempotency-Key') || undefined,
+    });
+
+    // A retried delivery reports the run its first delivery started
+    res.status(deduplicated ? 200 : 202).json({ executionId, status, deduplicated });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export { router as webhooksRouter };
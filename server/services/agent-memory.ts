@@ -0,0 +1,438 @@
+// =============================================================================
+// Agent Memory
+// Runtime side of MemoryConfig: what an agent remembers between canvas runs of
+// the same system, one JSON file per system and agent. Each successful run is
+// recorded as an entry; `contextPersistence: session` keeps only the current
+// session's memory, `persistent` keeps it across sessions. When the stored
+// entries cross `summarizationThreshold` the oldest are folded into a
+// summary (long-term / both) or dropped (short-term). Before a run, the
+// summary and the entries most relevant to the task are recalled into the
+// system prompt, within `maxContextTokens` together with the task itself.
+// =============================================================================
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { estimateTokens } from './execution-budget';
+
+// -----------------------------------------------------------------------------
+// Types
+// -----------------------------------------------------------------------------
+
+export type ContextPersistence = 'session' | 'persistent';
+
+export type MemoryType = 'short-term' | 'long-term' | 'both';
+
+export interface MemorySettings {
+  persistence: ContextPersistence;
+  type: MemoryType;
+  maxContextTokens: number;
+  summarizationThreshold: number;
+}
+
+export interface MemoryEntry {
+  id: string;
+  sessionId: string;
+  at: string;
+  task: string;
+  output: string;
+  tokens: number;
+}
+
+export interface AgentMemory {
+  system: string;
+  agentId: string;
+  agentLabel: string;
+  /** Owning session when the agent's memory is session-scoped */
+  sessionId?: string;
+  /** Earlier runs folded together; empty until the first summarization */
+  summary: string;
+  /** How many entries the summary covers */
+  summarizedEntries: number;
+  /** Runs not yet folded into the summary, oldest first */
+  entries: MemoryEntry[];
+  updatedAt: string;
+}
+
+/** One agent's memory as listed by the inspector */
+export interface AgentMemoryInfo {
+  agentId: string;
+  agentLabel: string;
+  sessionId?: string;
+  entries: number;
+  summarizedEntries: number;
+  tokens: number;
+  updatedAt: string;
+}
+
+export interface RecalledMemory {
+  /** Block to append to the system prompt; empty when nothing fits or applies */
+  prompt: string;
+  entries: number;
+  summary: boolean;
+  tokens: number;
+}
+
+/** Folds earlier runs into a summary with the agent's own model */
+export type MemorySummarizer = (request: { system: string; prompt: string; maxTokens: number }) => Promise<string>;
+
+export interface RecordMemoryOptions {
+  system: string;
+  agent: { id: string; label: string };
+  settings: MemorySettings;
+  sessionId: string;
+  task: string;
+  output: string;
+  summarize: MemorySummarizer;
+  log?: (msg: string, stream?: 'stdout' | 'stderr') => void;
+}
+
+// -----------------------------------------------------------------------------
+// Constants
+// -----------------------------------------------------------------------------
+
+const DEFAULT_MEMORY_DIR = path.resolve(__dirname, '../../data/agent-memory');
+
+/** Schema defaults of the agent Memory & Context section */
+const DEFAULT_MAX_CONTEXT_TOKENS = 8000;
+const DEFAULT_SUMMARIZATION_THRESHOLD = 6000;
+
+/** Long tasks and outputs are clipped before they are stored */
+const MAX_ENTRY_CHARS = 4000;
+
+const MEMORY_TYPES: MemoryType[] = ['short-term', 'long-term', 'both'];
+
+const STOP_WORDS = new Set([
+  'about', 'after', 'also', 'been', 'before', 'being', 'could', 'does', 'each', 'from', 'have',
+  'into', 'just', 'like', 'make', 'more', 'most', 'only', 'other', 'over', 'should', 'some',
+  'such', 'than', 'that', 'their', 'them', 'then', 'there', 'these', 'they', 'this', 'those',
+  'very', 'what', 'when', 'where', 'which', 'while', 'will', 'with', 'would', 'your',
+]);
+
+/** Tail of the pending writes to each memory file */
+const pendingWrites = new Map<string, Promise<unknown>>();
+
+const SUMMARY_SYSTEM_PROMPT =
+  'You maintain the long-term memory of an AI agent. Merge the existing summary and the new runs ' +
+  'into one updated summary of durable facts, decisions, preferences and open threads. ' +
+  'Drop small talk and anything superseded. Reply with the summary only.';
+
+// -----------------------------------------------------------------------------
+// Internal
+// -----------------------------------------------------------------------------
+
+function positiveInt(value: unknown, fallback: number): number {
+  const n = Number(value);
+  return Number.isFinite(n) && n > 0 ? Math.floor(n) : fallback;
+}
+
+function memoryDir(): string {
+  return process.env.AGENT_MEMORY_DIR || DEFAULT_MEMORY_DIR;
+}
+
+/**
+ * Directory name for a system: its workflow name slugified for readability,
+ * plus a hash of the exact name so `Lead Gen` and `lead-gen` never share one.
+ */
+function systemKey(system: string): string {
+  const slug = system.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'workflow';
+  const hash = crypto.createHash('sha256').update(system).digest('hex').slice(0, 8);
+  return `${slug}-${hash}`;
+}
+
+function memoryPath(system: string, agentId: string): string {
+  // Agent ids come from the canvas; never let one escape the system directory
+  return path.join(memoryDir(), systemKey(system), `${path.basename(agentId)}.json`);
+}
+
+function clip(text: string): string {
+  return text.length > MAX_ENTRY_CHARS ? `${text.slice(0, MAX_ENTRY_CHARS)}…` : text;
+}
+
+function saveMemory(memory: AgentMemory): void {
+  const filePath = memoryPath(memory.system, memory.agentId);
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  const tmpPath = filePath + '.tmp';
+  fs.writeFileSync(tmpPath, JSON.stringify(memory, null, 2), 'utf-8');
+  fs.renameSync(tmpPath, filePath);
+}
+
+/**
+ * Run `write` once every earlier write to the same file has finished, so
+ * pool instances and parallel phases of one agent never overwrite each
+ * other's entries.
+ */
+function serializeWrite<T>(filePath: string, write: () => Promise<T>): Promise<T> {
+  const result = (pendingWrites.get(filePath) ?? Promise.resolve()).then(write);
+  const tail = result.catch(() => {});
+  pendingWrites.set(filePath, tail);
+  void tail.then(() => {
+    if (pendingWrites.get(filePath) === tail) pendingWrites.delete(filePath);
+  });
+  return result;
+}
+
+/** The memory a run of `options.sessionId` extends: what is stored if it is in scope */
+function memoryInScope(stored: AgentMemory | null, options: RecordMemoryOptions): AgentMemory {
+  const { system, agent, settings, sessionId } = options;
+  const sameScope = settings.persistence === 'persistent' || stored?.sessionId === sessionId;
+  const memory: AgentMemory =
+    stored && sameScope
+      ? { ...stored, agentLabel: agent.label }
+      : { system, agentId: agent.id, agentLabel: agent.label, summary: '', summarizedEntries: 0, entries: [], updatedAt: '' };
+  if (settings.persistence === 'session') {
+    memory.sessionId = sessionId;
+  } else {
+    delete memory.sessionId;
+  }
+  return memory;
+}
+
+async function appendMemory(options: RecordMemoryOptions): Promise<AgentMemory> {
+  const { system, agent, sessionId } = options;
+  const stored = loadMemory(system, agent.id);
+  let memory = memoryInScope(stored, options);
+
+  const task = clip(options.task);
+  const output = clip(options.output);
+  const entry: MemoryEntry = {
+    id: uuidv4(),
+    sessionId,
+    at: new Date().toISOString(),
+    task,
+    output,
+    tokens: estimateTokens(task) + estimateTokens(output),
+  };
+  memory.entries.push(entry);
+
+  await compactMemory(memory, options);
+
+  // The file may have been cleared while the summary was written; extend what
+  // is stored now rather than bring the cleared runs back
+  const current = loadMemory(system, agent.id);
+  if (current?.updatedAt !== stored?.updatedAt) {
+    memory = memoryInScope(current, options);
+    memory.entries.push(entry);
+  }
+
+  memory.updatedAt = new Date().toISOString();
+  try {
+    saveMemory(memory);
+  } catch (err) {
+    options.log?.(
+      `  [MEMORY] ${agent.label}: could not save memory — ${err instanceof Error ? err.message : String(err)}`,
+      'stderr'
+    );
+  }
+  return memory;
+}
+
+function memoryTokens(memory: AgentMemory): number {
+  return estimateTokens(memory.summary) + memory.entries.reduce((sum, e) => sum + e.tokens, 0);
+}
+
+function terms(text: string): Set<string> {
+  return new Set(
+    (text.toLowerCase().match(/[a-z0-9]{4,}/g) ?? []).filter((word) => !STOP_WORDS.has(word))
+  );
+}
+
+/** Task terms the entry shares */
+function relevance(entry: MemoryEntry, taskTerms: Set<string>): number {
+  const entryTerms = terms(`${entry.task} ${entry.output}`);
+  let score = 0;
+  for (const term of taskTerms) if (entryTerms.has(term)) score++;
+  return score;
+}
+
+function formatEntry(entry: MemoryEntry): string {
+  return `**Run ${entry.at}**\nTask: ${entry.task}\nOutput: ${entry.output}`;
+}
+
+function summarizationPrompt(summary: string, folded: MemoryEntry[], maxWords: number): string {
+  return [
+    `## Existing summary\n${summary || '(none)'}`,
+    `## New runs\n${folded.map(formatEntry).join('\n\n')}`,
+    `Write the updated summary in at most ${maxWords} words.`,
+  ].join('\n\n');
+}
+
+/**
+ * Fold the oldest entries once the memory crosses the threshold, keeping the
+ * newest runs that fit in half of it (always at least the latest run).
+ */
+async function compactMemory(memory: AgentMemory, options: RecordMemoryOptions): Promise<void> {
+  const { settings, agent, log } = options;
+  if (memoryTokens(memory) <= settings.summarizationThreshold) return;
+
+  let kept = 0;
+  let keptTokens = 0;
+  for (let i = memory.entries.length - 1; i >= 0; i--) {
+    const tokens = memory.entries[i].tokens;
+    if (kept > 0 && keptTokens + tokens > settings.summarizationThreshold / 2) break;
+    kept++;
+    keptTokens += tokens;
+  }
+  const folded = memory.entries.slice(0, memory.entries.length - kept);
+  if (folded.length === 0) return;
+
+  if (settings.type === 'short-term') {
+    memory.entries = memory.entries.slice(folded.length);
+    log?.(`  [MEMORY] ${agent.label}: dropped ${folded.length} older run(s)`);
+    return;
+  }
+
+  const summaryTokens = Math.floor(settings.summarizationThreshold / 2);
+  try {
+    const summary = await options.summarize({
+      system: SUMMARY_SYSTEM_PROMPT,
+      prompt: summarizationPrompt(memory.summary, folded, Math.floor(summaryTokens * 0.75)),
+      maxTokens: summaryTokens,
+    });
+    memory.summary = summary.trim();
+    memory.summarizedEntries += folded.length;
+    memory.entries = memory.entries.slice(folded.length);
+    log?.(`  [MEMORY] ${agent.label}: summarized ${folded.length} older run(s)`);
+  } catch (err) {
+    // Keep the entries; the next run tries again
+    log?.(
+      `  [MEMORY] ${agent.label}: summarization failed — ${err instanceof Error ? err.message : String(err)}`,
+      'stderr'
+    );
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Public API
+// -----------------------------------------------------------------------------
+
+/**
+ * Memory settings from an agent's `memory` config, or null when the agent
+ * keeps no memory (`contextPersistence` unset or `none`).
+ */
+export function parseMemorySettings(memory: unknown): MemorySettings | null {
+  if (!memory || typeof memory !== 'object') return null;
+  const m = memory as Record<string, unknown>;
+  if (m.contextPersistence !== 'session' && m.contextPersistence !== 'persistent') return null;
+
+  return {
+    persistence: m.contextPersistence,
+    type: MEMORY_TYPES.includes(m.memoryType as MemoryType) ? (m.memoryType as MemoryType) : 'short-term',
+    maxContextTokens: positiveInt(m.maxContextTokens, DEFAULT_MAX_CONTEXT_TOKENS),
+    summarizationThreshold: positiveInt(m.summarizationThreshold, DEFAULT_SUMMARIZATION_THRESHOLD),
+  };
+}
+
+export function loadMemory(system: string, agentId: string): AgentMemory | null {
+  try {
+    return JSON.parse(fs.readFileSync(memoryPath(system, agentId), 'utf-8'));
+  } catch {
+    return null;
+  }
+}
+
+/** Every agent with stored memory in a system, most recently updated first */
+export function listMemories(system: string): AgentMemoryInfo[] {
+  const dir = path.join(memoryDir(), systemKey(system));
+  let files: string[];
+  try {
+    files = fs.readdirSync(dir).filter((f) => f.endsWith('.json'));
+  } catch {
+    return [];
+  }
+
+  return files
+    .map((file) => loadMemory(system, path.basename(file, '.json')))
+    .filter((memory): memory is AgentMemory => memory !== null)
+    .map((memory) => ({
+      agentId: memory.agentId,
+      agentLabel: memory.agentLabel,
+      ...(memory.sessionId ? { sessionId: memory.sessionId } : {}),
+      entries: memory.entries.length,
+      summarizedEntries: memory.summarizedEntries,
+      tokens: memoryTokens(memory),
+      updatedAt: memory.updatedAt,
+    }))
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+/** Forget one agent, or every agent of the system; returns how many memories were removed */
+export function clearMemory(system: string, agentId?: string): number {
+  if (agentId) {
+    try {
+      fs.unlinkSync(memoryPath(system, agentId));
+      return 1;
+    } catch {
+      return 0;
+    }
+  }
+
+  const count = listMemories(system).length;
+  fs.rmSync(path.join(memoryDir(), systemKey(system)), { recursive: true, force: true });
+  return count;
+}
+
+/**
+ * What the agent remembers for this task: the summary (long-term / both) and
+ * the entries that fit in what `maxContextTokens` leaves after the task.
+ * Short-term memory recalls the latest runs, long-term only runs sharing
+ * terms with the task, both ranks by shared terms then recency.
+ */
+export function recallMemory(
+  memory: AgentMemory | null,
+  settings: MemorySettings,
+  task: string,
+  sessionId: string
+): RecalledMemory {
+  const none: RecalledMemory = { prompt: '', entries: 0, summary: false, tokens: 0 };
+  if (!memory) return none;
+  if (settings.persistence === 'session' && memory.sessionId !== sessionId) return none;
+
+  let budget = settings.maxContextTokens - estimateTokens(task);
+  const sections: string[] = [];
+  let summary = false;
+
+  if (settings.type !== 'short-term' && memory.summary) {
+    const text = memory.summary.slice(0, Math.max(budget, 0) * 4);
+    if (text) {
+      sections.push(`### Summary of earlier runs\n${text}`);
+      budget -= estimateTokens(text);
+      summary = true;
+    }
+  }
+
+  const taskTerms = terms(task);
+  const ranked = memory.entries
+    .map((entry, index) => ({ entry, index, score: relevance(entry, taskTerms) }))
+    .filter((r) => settings.type !== 'long-term' || r.score > 0)
+    .sort((a, b) =>
+      settings.type === 'short-term' ? b.index - a.index : b.score - a.score || b.index - a.index
+    );
+
+  const picked: typeof ranked = [];
+  for (const candidate of ranked) {
+    const tokens = estimateTokens(formatEntry(candidate.entry));
+    if (tokens > budget) continue;
+    picked.push(candidate);
+    budget -= tokens;
+  }
+  if (picked.length > 0) {
+    picked.sort((a, b) => a.index - b.index);
+    sections.push(`### Earlier runs\n${picked.map((p) => formatEntry(p.entry)).join('\n\n')}`);
+  }
+
+  if (sections.length === 0) return none;
+  const prompt = `\n\n## Memory\nFrom your earlier runs in this system:\n\n${sections.join('\n\n')}`;
+  return { prompt, entries: picked.length, summary, tokens: estimateTokens(prompt) };
+}
+
+/**
+ * Store a finished run and compact the memory when it crosses the
+ * summarization threshold. Session-scoped memory from another session is
+ * replaced rather than extended. Runs of the same agent are recorded one at a
+ * time, in the order they finished.
+ */
+export function recordMemory(options: RecordMemoryOptions): Promise<AgentMemory> {
+  return serializeWrite(memoryPath(options.system, options.agent.id), () => appendMemory(options));
+}
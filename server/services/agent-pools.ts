@@ -0,0 +1,358 @@
+// =============================================================================
+// Agent Pools
+// Runtime for AGENT_POOL nodes (AgentPoolConfig). A pool runs the tasks
+// delegated to it on instances of its member agents: instances scale with
+// the queue between scaling.minInstances and maxInstances, each takes up to
+// scaling.concurrency tasks at once, tasks are assigned by the pool's
+// loadBalancing strategy and started no faster than rateLimit per minute.
+// Tasks the pool fails are retried on the pools in its failoverChain.
+// =============================================================================
+
+import type { AgentResult, ParsedWorkflow, WorkflowNode } from './orchestrator-bridge';
+
+// -----------------------------------------------------------------------------
+// Types
+// -----------------------------------------------------------------------------
+
+export type LoadBalancing = 'round-robin' | 'least-loaded' | 'random';
+
+export interface PoolSettings {
+  minInstances: number;
+  maxInstances: number;
+  /** Tasks one instance runs at once */
+  concurrency: number;
+  loadBalancing: LoadBalancing;
+  /** Task starts per minute across the pool; unset means unlimited */
+  rateLimit?: number;
+  /** Default timeout for members without their own guardrails.timeoutSeconds */
+  timeoutSeconds?: number;
+  /** Backup pool ids or names, in order */
+  failoverChain: string[];
+}
+
+export interface PoolTaskResult extends AgentResult {
+  pool: NonNullable<AgentResult['pool']>;
+}
+
+export interface PoolRun {
+  /** Every member run, primary pool and backups, in the order they finished */
+  results: PoolTaskResult[];
+  /** Final result per task after failover; null when no pool could take it */
+  tasks: Array<PoolTaskResult | null>;
+}
+
+/**
+ * Run one task on a member agent (its config already carries the pool timeout).
+ * The assignment says which instance and task the run is for.
+ */
+export type MemberRunner = (
+  member: WorkflowNode,
+  task: string,
+  assignment: PoolTaskResult['pool']
+) => Promise<AgentResult>;
+
+export interface PoolRuntimeOptions {
+  workflow: ParsedWorkflow;
+  log: (msg: string, stream?: 'stdout' | 'stderr') => void;
+  signal?: AbortSignal;
+}
+
+export interface PoolRuntime {
+  /** Run tasks on a pool, failing over task by task along its failoverChain */
+  run: (pool: WorkflowNode, tasks: string[], runMember: MemberRunner) => Promise<PoolRun>;
+}
+
+interface Instance {
+  index: number;
+  member: WorkflowNode;
+  active: number;
+}
+
+interface RateLimiter {
+  acquire: (signal?: AbortSignal) => Promise<void>;
+}
+
+// -----------------------------------------------------------------------------
+// Constants
+// -----------------------------------------------------------------------------
+
+const RATE_WINDOW_MS = 60_000;
+
+const LOAD_BALANCING: ReadonlySet<string> = new Set(['round-robin', 'least-loaded', 'random']);
+
+/** `TASK: <description>` lines in a delegating agent's output become separate pool tasks */
+const TASK_MARKER = /^\s*TASK:\s*(.+?)\s*$/gim;
+
+// -----------------------------------------------------------------------------
+// Internal
+// -----------------------------------------------------------------------------
+
+function positiveInt(value: unknown): number | undefined {
+  const n = typeof value === 'string' ? parseFloat(value) : value;
+  return typeof n === 'number' && Number.isFinite(n) && n >= 1 ? Math.floor(n) : undefined;
+}
+
+function poolName(pool: WorkflowNode): string {
+  return (pool.config.name as string) || pool.label;
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const done = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener('abort', done);
+  });
+}
+
+/** Sliding one-minute window over task starts */
+function createRateLimiter(perMinute: number | undefined, onWait: (ms: number) => void): RateLimiter {
+  const starts: number[] = [];
+  return {
+    async acquire(signal) {
+      if (!perMinute) return;
+      while (!signal?.aborted) {
+        const now = Date.now();
+        while (starts.length > 0 && now - starts[0] >= RATE_WINDOW_MS) starts.shift();
+        if (starts.length < perMinute) {
+          starts.push(now);
+          return;
+        }
+        const wait = RATE_WINDOW_MS - (now - starts[0]);
+        onWait(wait);
+        await sleep(wait, signal);
+      }
+    },
+  };
+}
+
+function pickInstance(instances: Instance[], settings: PoolSettings, cursor: { next: number }): Instance {
+  const free = instances.filter((i) => i.active < settings.concurrency);
+  switch (settings.loadBalancing) {
+    case 'least-loaded':
+      return free.reduce((best, i) => (i.active < best.active ? i : best));
+    case 'random':
+      return free[Math.floor(Math.random() * free.length)];
+    default: {
+      for (let step = 0; step < instances.length; step++) {
+        const candidate = instances[(cursor.next + step) % instances.length];
+        if (candidate.active < settings.concurrency) {
+          cursor.next = (candidate.index + 1) % instances.length;
+          return candidate;
+        }
+      }
+      return free[0];
+    }
+  }
+}
+
+/** Pool timeout applies to members that set none of their own */
+function withPoolTimeout(member: WorkflowNode, settings: PoolSettings): WorkflowNode {
+  const guardrails = (member.config.guardrails as Record<string, unknown> | undefined) ?? {};
+  if (settings.timeoutSeconds === undefined || guardrails.timeoutSeconds !== undefined) return member;
+  return {
+    ...member,
+    config: { ...member.config, guardrails: { ...guardrails, timeoutSeconds: settings.timeoutSeconds } },
+  };
+}
+
+// -----------------------------------------------------------------------------
+// Public API
+// -----------------------------------------------------------------------------
+
+/**
+ * Runtime settings from an AgentPoolConfig. Unset scaling runs one
+ * instance per member, one task at a time each.
+ */
+export function parsePoolSettings(config: Record<string, unknown>, memberCount: number): PoolSettings {
+  const scaling = (config.scaling && typeof config.scaling === 'object' ? config.scaling : {}) as Record<string, unknown>;
+  const maxInstances = positiveInt(scaling.maxInstances) ?? Math.max(memberCount, 1);
+  const minInstances = Math.min(positiveInt(scaling.minInstances) ?? 1, maxInstances);
+  const loadBalancing = typeof config.loadBalancing === 'string' && LOAD_BALANCING.has(config.loadBalancing)
+    ? (config.loadBalancing as LoadBalancing)
+    : 'round-robin';
+
+  return {
+    minInstances,
+    maxInstances,
+    concurrency: positiveInt(scaling.concurrency) ?? 1,
+    loadBalancing,
+    rateLimit: positiveInt(config.rateLimit),
+    timeoutSeconds: positiveInt(config.timeout),
+    failoverChain: Array.isArray(config.failoverChain)
+      ? config.failoverChain.map(String).filter((ref) => ref.trim())
+      : [],
+  };
+}
+
+/** Member agents of a pool: nested under it on the canvas or listed in its `agents` */
+export function poolMembers(pool: WorkflowNode, workflow: ParsedWorkflow): WorkflowNode[] {
+  const listed = new Set(Array.isArray(pool.config.agents) ? pool.config.agents.map(String) : []);
+  return workflow.agents.filter(
+    (a) => a.parentId === pool.id || listed.has(a.id) || listed.has(a.label)
+  );
+}
+
+/** Map of pooled agent id → pool id; an agent in two pools belongs to the first */
+export function poolMembership(workflow: ParsedWorkflow): Map<string, string> {
+  const membership = new Map<string, string>();
+  for (const pool of workflow.pools) {
+    for (const member of poolMembers(pool, workflow)) {
+      if (!membership.has(member.id)) membership.set(member.id, pool.id);
+    }
+  }
+  return membership;
+}
+
+/** Backup pools named by a pool's failoverChain, by id or name; unknown names are skipped */
+export function failoverPools(pool: WorkflowNode, workflow: ParsedWorkflow): WorkflowNode[] {
+  const settings = parsePoolSettings(pool.config, 0);
+  return settings.failoverChain
+    .map((ref) => workflow.pools.find((p) => p.id === ref || poolName(p) === ref || p.label === ref))
+    .filter((p): p is WorkflowNode => !!p && p.id !== pool.id);
+}
+
+/**
+ * Tasks for a pool: each `TASK:` line in its upstream outputs, or the
+ * whole input as a single task when there are none.
+ */
+export function extractTasks(input: string, upstreamOutputs: string[]): string[] {
+  const tasks: string[] = [];
+  for (const output of upstreamOutputs) {
+    const marker = new RegExp(TASK_MARKER.source, TASK_MARKER.flags);
+    let match: RegExpExecArray | null;
+    while ((match = marker.exec(output)) !== null) {
+      tasks.push(`${input}\n\n## Your Task\n${match[1]}`);
+    }
+  }
+  return tasks.length > 0 ? tasks : [input];
+}
+
+export function describePool(pool: WorkflowNode, workflow: ParsedWorkflow): string {
+  const members = poolMembers(pool, workflow);
+  const settings = parsePoolSettings(pool.config, members.length);
+  const limits = [
+    `${members.length} member${members.length === 1 ? '' : 's'}`,
+    `${settings.minInstances}–${settings.maxInstances} instances × ${settings.concurrency}`,
+    settings.loadBalancing,
+    settings.rateLimit !== undefined && `${settings.rateLimit}/min`,
+  ].filter(Boolean);
+  return limits.join(', ');
+}
+
+/**
+ * Pool runtime for one execution. Rate limits are kept per pool for the
+ * whole run, so a pool serving as another's backup shares its budget of
+ * starts with its own tasks.
+ */
+export function createPoolRuntime(options: PoolRuntimeOptions): PoolRuntime {
+  const { workflow, log, signal } = options;
+  const limiters = new Map<string, RateLimiter>();
+
+  const limiterFor = (pool: WorkflowNode, settings: PoolSettings) => {
+    let limiter = limiters.get(pool.id);
+    if (!limiter) {
+      limiter = createRateLimiter(settings.rateLimit, (ms) =>
+        log(`  [POOL] ${pool.label}: rate limit of ${settings.rateLimit}/min reached, waiting ${Math.ceil(ms / 1000)}s`)
+      );
+      limiters.set(pool.id, limiter);
+    }
+    return limiter;
+  };
+
+  /** Run the given tasks on one pool; returns each task's result */
+  const dispatch = async (
+    pool: WorkflowNode,
+    tasks: string[],
+    taskIndexes: number[],
+    runMember: MemberRunner,
+    results: PoolTaskResult[]
+  ): Promise<Map<number, PoolTaskResult>> => {
+    const finished = new Map<number, PoolTaskResult>();
+    const members = poolMembers(pool, workflow);
+    if (members.length === 0) {
+      log(`  [POOL] ${pool.label} has no member agents`, 'stderr');
+      return finished;
+    }
+
+    const settings = parsePoolSettings(pool.config, members.length);
+    const wanted = Math.ceil(taskIndexes.length / settings.concurrency);
+    const instanceCount = Math.min(settings.maxInstances, Math.max(settings.minInstances, wanted));
+    const instances: Instance[] = Array.from({ length: instanceCount }, (_, index) => ({
+      index,
+      member: withPoolTimeout(members[index % members.length], settings),
+      active: 0,
+    }));
+    log(
+      `  [POOL] ${pool.label}: ${taskIndexes.length} task(s) on ${instanceCount} instance(s) × ${settings.concurrency}, ${settings.loadBalancing}`
+    );
+
+    const limiter = limiterFor(pool, settings);
+    const cursor = { next: 0 };
+    const queue = [...taskIndexes];
+    const running = new Set<Promise<void>>();
+
+    while (queue.length > 0 && !signal?.aborted) {
+      if (running.size >= instanceCount * settings.concurrency) {
+        await Promise.race(running);
+        continue;
+      }
+      await limiter.acquire(signal);
+      if (signal?.aborted) break;
+
+      const taskIndex = queue.shift()!;
+      const instance = pickInstance(instances, settings, cursor);
+      instance.active++;
+      log(`  > ${pool.label}#${instance.index + 1} (${instance.member.label}) ← task ${taskIndex + 1}`);
+
+      const assignment = { id: pool.id, label: pool.label, instance: instance.index + 1, task: taskIndex + 1 };
+      const run: Promise<void> = runMember(instance.member, tasks[taskIndex], assignment)
+        .then((result) => {
+          const taskResult: PoolTaskResult = { ...result, pool: assignment };
+          results.push(taskResult);
+          finished.set(taskIndex, taskResult);
+        })
+        .finally(() => {
+          instance.active--;
+          running.delete(run);
+        });
+      running.add(run);
+    }
+
+    await Promise.all(running);
+    return finished;
+  };
+
+  return {
+    async run(pool, tasks, runMember) {
+      const results: PoolTaskResult[] = [];
+      const final: Array<PoolTaskResult | null> = tasks.map(() => null);
+      let pending = tasks.map((_, i) => i);
+
+      // The chain grows with each backup's own failoverChain, visiting every pool once
+      const chain = [pool];
+      const visited = new Set([pool.id]);
+      for (let i = 0; i < chain.length && pending.length > 0 && !signal?.aborted; i++) {
+        const current = chain[i];
+        const finished = await dispatch(current, tasks, pending, runMember, results);
+        for (const [taskIndex, result] of finished) final[taskIndex] = result;
+        pending = pending.filter((taskIndex) => finished.get(taskIndex)?.status !== 'success');
+
+        for (const backup of failoverPools(current, workflow)) {
+          if (!visited.has(backup.id)) {
+            visited.add(backup.id);
+            chain.push(backup);
+          }
+        }
+        if (pending.length > 0 && i + 1 < chain.length && !signal?.aborted) {
+          log(`  [FAILOVER] ${current.label}: ${pending.length} task(s) failed → ${chain[i + 1].label}`);
+        }
+      }
+
+      return { results, tasks: final };
+    },
+  };
+}
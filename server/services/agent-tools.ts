@@ -0,0 +1,306 @@
+// =============================================================================
+// Agent Tools
+// Builds the tool set a canvas agent can call during a run: the sandbox file
+// tools allowed by its `tools` list, plus the tools of every MCP server it is
+// connected to, spawned over stdio for the lifetime of the agent run.
+// =============================================================================
+
+import Anthropic from '@anthropic-ai/sdk';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import {
+  StdioClientTransport,
+  getDefaultEnvironment,
+} from '@modelcontextprotocol/sdk/client/stdio.js';
+import { SANDBOX_TOOLS, SANDBOX_ROOT } from '../mcp/sandbox-mcp';
+import type { ParsedWorkflow, WorkflowNode } from './orchestrator-bridge';
+
+// -----------------------------------------------------------------------------
+// Types
+// -----------------------------------------------------------------------------
+
+type SandboxToolName = keyof typeof SANDBOX_TOOLS;
+
+export type ToolLog = (msg: string, stream?: 'stdout' | 'stderr') => void;
+
+export interface McpServerSpec {
+  name: string;
+  command: string;
+  args: string[];
+  env: Record<string, string>;
+  timeoutMs: number;
+}
+
+export interface ToolCallResult {
+  content: string;
+  isError: boolean;
+}
+
+export interface AgentToolset {
+  tools: Anthropic.Tool[];
+  call: (name: string, input: Record<string, unknown>) => Promise<ToolCallResult>;
+  close: () => Promise<void>;
+}
+
+type ToolHandler = (input: Record<string, unknown>) => Promise<ToolCallResult>;
+
+// -----------------------------------------------------------------------------
+// Constants
+// -----------------------------------------------------------------------------
+
+const DEFAULT_MCP_TIMEOUT_MS = 30_000;
+
+/** Tool results larger than this are truncated before going back to the model */
+const MAX_RESULT_CHARS = 20_000;
+
+/** Agent `tools` capability names (Claude Code style) → sandbox tools */
+const CAPABILITY_TOOLS: Record<string, SandboxToolName[]> = {
+  Read: ['sandbox_read_file', 'sandbox_list_directory', 'sandbox_file_exists'],
+  Glob: ['sandbox_list_directory', 'sandbox_file_exists'],
+  Grep: ['sandbox_read_file', 'sandbox_list_directory'],
+  Write: ['sandbox_create_file', 'sandbox_create_directory'],
+  Edit: ['sandbox_read_file', 'sandbox_create_file', 'sandbox_delete_file'],
+  Bash: ['sandbox_execute_command'],
+};
+
+const READ_ONLY_TOOLS = new Set<SandboxToolName>([
+  'sandbox_read_file',
+  'sandbox_list_directory',
+  'sandbox_file_exists',
+]);
+
+// -----------------------------------------------------------------------------
+// Resolution
+// -----------------------------------------------------------------------------
+
+function isSandboxTool(name: string): name is SandboxToolName {
+  return Object.prototype.hasOwnProperty.call(SANDBOX_TOOLS, name);
+}
+
+function expandCapability(name: string): SandboxToolName[] {
+  if (CAPABILITY_TOOLS[name]) return CAPABILITY_TOOLS[name];
+  return isSandboxTool(name) ? [name] : [];
+}
+
+/**
+ * Sandbox tools an agent may call. Agents without a `tools` list get every
+ * sandbox tool; `disallowedTools` always wins, and plan mode is read-only.
+ */
+export function resolveSandboxTools(config: Record<string, unknown>): SandboxToolName[] {
+  const requested = config.tools;
+  const allowed = new Set<SandboxToolName>(
+    Array.isArray(requested)
+      ? requested.flatMap((name) => expandCapability(String(name)))
+      : (Object.keys(SANDBOX_TOOLS) as SandboxToolName[])
+  );
+
+  const disallowed = Array.isArray(config.disallowedTools) ? config.disallowedTools : [];
+  for (const name of disallowed) {
+    for (const tool of expandCapability(String(name))) allowed.delete(tool);
+  }
+
+  if (config.permissionMode === 'plan') {
+    for (const tool of allowed) {
+      if (!READ_ONLY_TOOLS.has(tool)) allowed.delete(tool);
+    }
+  }
+
+  return Array.from(allowed);
+}
+
+function toServerSpec(node: WorkflowNode): McpServerSpec | null {
+  const config = node.config;
+  const command = typeof config.command === 'string' ? config.command.trim() : '';
+  if (!command) return null;
+
+  return {
+    name: (config.name as string) || node.label,
+    command,
+    args: Array.isArray(config.args) ? config.args.map(String) : [],
+    env: (config.env as Record<string, string>) || {},
+    timeoutMs: (config.timeout as number) || DEFAULT_MCP_TIMEOUT_MS,
+  };
+}
+
+/**
+ * MCP servers an agent uses: MCP_SERVER nodes joined to it by an edge in
+ * either direction, plus any named in its `mcps` list. Deduplicated by name.
+ */
+export function findAgentMcpServers(
+  agent: WorkflowNode,
+  workflow: ParsedWorkflow
+): McpServerSpec[] {
+  const byNodeId = new Map(workflow.mcpServers.map((node) => [node.id, node]));
+  const selected = new Map<string, WorkflowNode>();
+
+  for (const edge of workflow.edges) {
+    if (edge.target === agent.id && byNodeId.has(edge.source)) {
+      selected.set(edge.source, byNodeId.get(edge.source)!);
+    }
+    if (edge.source === agent.id && byNodeId.has(edge.target)) {
+      selected.set(edge.target, byNodeId.get(edge.target)!);
+    }
+  }
+
+  const referenced = new Set(
+    Array.isArray(agent.config.mcps) ? agent.config.mcps.map(String) : []
+  );
+  for (const node of workflow.mcpServers) {
+    const name = (node.config.name as string) || node.label;
+    if (referenced.has(name)) selected.set(node.id, node);
+  }
+
+  const specs = new Map<string, McpServerSpec>();
+  for (const node of selected.values()) {
+    const spec = toServerSpec(node);
+    if (spec && !specs.has(spec.name)) specs.set(spec.name, spec);
+  }
+  return Array.from(specs.values());
+}
+
+/**
+ * Name exposed to the model for an MCP tool, e.g. `mcp__github__create_issue`.
+ * Anthropic tool names must match ^[a-zA-Z0-9_-]{1,64}$.
+ */
+export function mcpToolName(serverName: string, toolName: string): string {
+  const clean = (s: string) => s.replace(/[^a-zA-Z0-9_-]/g, '_');
+  return `mcp__${clean(serverName)}__${clean(toolName)}`.slice(0, 64);
+}
+
+// -----------------------------------------------------------------------------
+// Tool execution
+// -----------------------------------------------------------------------------
+
+function truncate(content: string): string {
+  if (content.length <= MAX_RESULT_CHARS) return content;
+  return `${content.slice(0, MAX_RESULT_CHARS)}\n[truncated: ${content.length} chars]`;
+}
+
+function sandboxHandler(name: SandboxToolName, sessionId: string): ToolHandler {
+  return async (input) => {
+    const params: Record<string, unknown> = { ...input };
+    if (name === 'sandbox_execute_command') {
+      params.sessionId = sessionId;
+      params.source = 'workflow';
+    }
+
+    const result = await SANDBOX_TOOLS[name].handler(params as never);
+    return { content: truncate(JSON.stringify(result)), isError: !result.success };
+  };
+}
+
+function mcpHandler(client: Client, toolName: string, timeoutMs: number): ToolHandler {
+  return async (input) => {
+    const result = await client.callTool(
+      { name: toolName, arguments: input },
+      undefined,
+      { timeout: timeoutMs }
+    );
+
+    const parts = Array.isArray(result.content) ? result.content : [];
+    const content = parts
+      .map((part) => (part.type === 'text' ? part.text : JSON.stringify(part)))
+      .join('\n');
+
+    return { content: truncate(content), isError: result.isError === true };
+  };
+}
+
+async function connectMcpServer(spec: McpServerSpec, log: ToolLog): Promise<Client> {
+  const transport = new StdioClientTransport({
+    command: spec.command,
+    args: spec.args,
+    env: { ...getDefaultEnvironment(), ...spec.env },
+    cwd: SANDBOX_ROOT,
+    stderr: 'pipe',
+  });
+
+  transport.stderr?.on('data', (chunk: Buffer) => {
+    for (const line of chunk.toString().split('\n')) {
+      if (line.trim()) log(`[MCP:${spec.name}] ${line}`, 'stderr');
+    }
+  });
+
+  const client = new Client({ name: 'visual-agent-builder', version: '1.0.0' });
+  try {
+    await client.connect(transport, { timeout: spec.timeoutMs });
+  } catch (err) {
+    // Don't leave a half-started server process behind
+    await transport.close().catch(() => undefined);
+    throw err;
+  }
+  return client;
+}
+
+// -----------------------------------------------------------------------------
+// Public API
+// -----------------------------------------------------------------------------
+
+/**
+ * Spawn the agent's MCP servers and assemble its tool set. A server that
+ * fails to start is logged and skipped so the agent can still run with the
+ * remaining tools. Callers must `close()` the toolset to stop the servers.
+ */
+export async function openAgentToolset(
+  agent: WorkflowNode,
+  workflow: ParsedWorkflow,
+  sessionId: string,
+  log: ToolLog
+): Promise<AgentToolset> {
+  const tools: Anthropic.Tool[] = [];
+  const handlers = new Map<string, ToolHandler>();
+  const clients: Client[] = [];
+
+  for (const name of resolveSandboxTools(agent.config)) {
+    const tool = SANDBOX_TOOLS[name];
+    tools.push({
+      name: tool.name,
+      description: tool.description,
+      input_schema: tool.parameters as Anthropic.Tool.InputSchema,
+    });
+    handlers.set(name, sandboxHandler(name, sessionId));
+  }
+
+  for (const spec of findAgentMcpServers(agent, workflow)) {
+    try {
+      log(`[MCP] Starting ${spec.name}: ${[spec.command, ...spec.args].join(' ')}`);
+      const client = await connectMcpServer(spec, log);
+      clients.push(client);
+
+      const { tools: serverTools } = await client.listTools(undefined, { timeout: spec.timeoutMs });
+      for (const tool of serverTools) {
+        const name = mcpToolName(spec.name, tool.name);
+        tools.push({
+          name,
+          description: tool.description || `${tool.name} (${spec.name} MCP server)`,
+          input_schema: tool.inputSchema as Anthropic.Tool.InputSchema,
+        });
+        handlers.set(name, mcpHandler(client, tool.name, spec.timeoutMs));
+      }
+      log(`[MCP] ✓ ${spec.name}: ${serverTools.length} tool(s)`);
+    } catch (err) {
+      const errMsg = err instanceof Error ? err.message : String(err);
+      log(`[MCP] ✗ ${spec.name} failed to start: ${errMsg}`, 'stderr');
+    }
+  }
+
+  return {
+    tools,
+
+    async call(name, input) {
+      const handler = handlers.get(name);
+      if (!handler) {
+        return { content: JSON.stringify({ success: false, error: `Unknown tool: ${name}` }), isError: true };
+      }
+      try {
+        return await handler(input);
+      } catch (err) {
+        const errMsg = err instanceof Error ? err.message : String(err);
+        return { content: JSON.stringify({ success: false, error: errMsg }), isError: true };
+      }
+    },
+
+    async close() {
+      await Promise.allSettled(clients.map((client) => client.close()));
+    },
+  };
+}
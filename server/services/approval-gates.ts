@@ -0,0 +1,293 @@
+// =============================================================================
+// Approval Gates
+// Human-in-the-loop checks for canvas agent runs. A tool call covered by the
+// agent's `requiresApprovalFor` list (or an agent whose slash command has
+// `requiresApproval`) is suspended until someone answers the approval card in
+// the TerminalPanel, or the timeout policy decides. Every decision is appended
+// to a JSONL audit trail.
+// =============================================================================
+
+import fs from 'fs';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { emitApprovalRequest, emitApprovalResolved } from '../socket/emitter';
+import type {
+  ApprovalAuditEntry,
+  ApprovalGateAction,
+  ApprovalRequestPayload,
+  ApprovalResolvedPayload,
+} from '../../shared/socket-events';
+import type { ParsedWorkflow, WorkflowNode } from './orchestrator-bridge';
+
+const DEFAULT_AUDIT_PATH = path.resolve(__dirname, '../../data/approvals.jsonl');
+const DEFAULT_TIMEOUT_SECONDS = 300;
+
+export interface ApprovalPolicy {
+  timeoutMs: number;
+  /** Decision applied when nobody answers in time */
+  onTimeout: 'approve' | 'reject';
+}
+
+export interface ApprovalDecision {
+  approved: boolean;
+  decidedBy: ApprovalResolvedPayload['decidedBy'];
+  reason?: string;
+}
+
+interface PendingApproval {
+  request: ApprovalRequestPayload;
+  resolve: (decision: ApprovalDecision) => void;
+}
+
+const pending = new Map<string, PendingApproval>();
+
+// -----------------------------------------------------------------------------
+// Policy
+// -----------------------------------------------------------------------------
+
+/**
+ * Timeout policy from APPROVAL_TIMEOUT_SECONDS / APPROVAL_TIMEOUT_POLICY,
+ * overridable per agent with `approvalTimeoutSeconds` / `approvalTimeoutPolicy`.
+ * Unanswered requests are rejected unless the policy says otherwise.
+ */
+export function approvalPolicy(config: Record<string, unknown> = {}): ApprovalPolicy {
+  const seconds =
+    Number(config.approvalTimeoutSeconds) ||
+    Number(process.env.APPROVAL_TIMEOUT_SECONDS) ||
+    DEFAULT_TIMEOUT_SECONDS;
+  const policy = String(config.approvalTimeoutPolicy || process.env.APPROVAL_TIMEOUT_POLICY || 'reject');
+
+  return {
+    timeoutMs: seconds * 1000,
+    onTimeout: policy === 'approve' ? 'approve' : 'reject',
+  };
+}
+
+// -----------------------------------------------------------------------------
+// Gate classification
+// -----------------------------------------------------------------------------
+
+/** Actions a tool call performs, in the vocabulary of `requiresApprovalFor` */
+export function toolActions(toolName: string, input: Record<string, unknown>): ApprovalGateAction[] {
+  switch (toolName) {
+    case 'sandbox_create_file':
+    case 'sandbox_create_directory':
+      return ['file_writes'];
+    case 'sandbox_delete_file':
+      return ['file_deletes'];
+    case 'sandbox_execute_command':
+      return runsGit(String(input.command ?? '')) ? ['git_operations', 'shell_commands'] : ['shell_commands'];
+    default:
+      return toolName.startsWith('mcp__') ? ['external_apis'] : [];
+  }
+}
+
+// Boundaries after which a new command starts: chaining operators, pipes,
+// subshells, command substitution, and quotes (so `sh -c "git push"` is seen)
+const COMMAND_BOUNDARY = /&&|\|\||\$\(|[;|&\n()`"']/;
+// Prefixes that run the command after them: env assignments and wrappers
+const COMMAND_PREFIX = /^(?:[A-Za-z_][A-Za-z0-9_]*=\S*|env|sudo|command|exec|nohup|time|xargs)$/;
+
+/**
+ * Whether any command in a shell line is `git`, e.g. `cd repo && git push`,
+ * `env X=1 git push` or `sh -c "git push"`. Errs towards gating: a quoted
+ * string that starts with the word git counts too.
+ */
+function runsGit(command: string): boolean {
+  return command.split(COMMAND_BOUNDARY).some((segment) => {
+    const words = segment.trim().split(/\s+/);
+    const program = words.find((word) => !COMMAND_PREFIX.test(word) && !word.startsWith('-'));
+    return program !== undefined && path.basename(program) === 'git';
+  });
+}
+
+/** The first of the tool call's actions the agent requires approval for, if any */
+export function gatedAction(
+  config: Record<string, unknown>,
+  toolName: string,
+  input: Record<string, unknown>
+): ApprovalGateAction | null {
+  const required = new Set(
+    Array.isArray(config.requiresApprovalFor) ? config.requiresApprovalFor.map(String) : []
+  );
+  if (required.size === 0) return null;
+  return toolActions(toolName, input).find((action) => required.has(action)) ?? null;
+}
+
+/**
+ * COMMAND nodes with `requiresApproval` that this agent handles: connected by
+ * an edge, listed in its `commands`, or naming it as their `agent`.
+ */
+export function findGatedCommands(agent: WorkflowNode, workflow: ParsedWorkflow): WorkflowNode[] {
+  const agentNames = new Set([agent.label, agent.config.name as string].filter(Boolean));
+  const listed = new Set(Array.isArray(agent.config.commands) ? agent.config.commands.map(String) : []);
+  const linked = new Set(
+    workflow.edges.flatMap((e) =>
+      e.source === agent.id ? [e.target] : e.target === agent.id ? [e.source] : []
+    )
+  );
+
+  return workflow.nodes.filter((node) => {
+    if (node.nodeType !== 'COMMAND' || node.config.requiresApproval !== true) return false;
+    const name = (node.config.name as string) || node.label;
+    return (
+      linked.has(node.id) ||
+      listed.has(name) ||
+      listed.has(`/${name}`) ||
+      agentNames.has(node.config.agent as string)
+    );
+  });
+}
+
+/** One-line description of a tool call for the approval card */
+export function describeToolCall(toolName: string, input: Record<string, unknown>): string {
+  if (toolName === 'sandbox_execute_command') {
+    return `$ ${String(input.command ?? '')}${input.cwd ? ` (in ${input.cwd})` : ''}`;
+  }
+  if (typeof input.path === 'string') {
+    return `${toolName.replace(/^sandbox_/, '')} ${input.path}`;
+  }
+  const args = JSON.stringify(input);
+  return `${toolName} ${args.length > 200 ? `${args.slice(0, 200)}…` : args}`;
+}
+
+// -----------------------------------------------------------------------------
+// Requests
+// -----------------------------------------------------------------------------
+
+export interface ApprovalRequestInput {
+  sessionId: string;
+  agentId: string;
+  agentLabel: string;
+  action: ApprovalGateAction;
+  tool: string;
+  summary: string;
+  input: Record<string, unknown>;
+}
+
+/**
+ * Ask the user to approve an action and wait for the answer. Resolves with
+ * the timeout policy's decision if nobody answers, and rejects the action if
+ * `signal` aborts (the run was stopped) while waiting.
+ */
+export function requestApproval(
+  input: ApprovalRequestInput,
+  policy: ApprovalPolicy,
+  signal?: AbortSignal
+): Promise<ApprovalDecision> {
+  if (signal?.aborted) {
+    return Promise.resolve({ approved: false, decidedBy: 'cancelled', reason: 'Run stopped' });
+  }
+
+  const requestedAt = new Date();
+  const request: ApprovalRequestPayload = {
+    approvalId: `approval_${uuidv4()}`,
+    ...input,
+    requestedAt: requestedAt.toISOString(),
+    expiresAt: new Date(requestedAt.getTime() + policy.timeoutMs).toISOString(),
+    timeoutPolicy: policy.onTimeout,
+  };
+
+  return new Promise((resolve) => {
+    const onAbort = () =>
+      resolveApproval(request.approvalId, false, { decidedBy: 'cancelled', reason: 'Run stopped' });
+    const timer = setTimeout(
+      () =>
+        resolveApproval(request.approvalId, policy.onTimeout === 'approve', {
+          decidedBy: 'timeout',
+          reason: `No response within ${Math.round(policy.timeoutMs / 1000)}s`,
+        }),
+      policy.timeoutMs
+    );
+    signal?.addEventListener('abort', onAbort);
+
+    pending.set(request.approvalId, {
+      request,
+      resolve: (decision) => {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+        resolve(decision);
+      },
+    });
+    emitApprovalRequest(request);
+  });
+}
+
+/**
+ * Record a decision for a pending request. Returns false when the request is
+ * unknown or was already decided.
+ */
+export function resolveApproval(
+  approvalId: string,
+  approved: boolean,
+  options: { decidedBy?: ApprovalDecision['decidedBy']; reason?: string } = {}
+): boolean {
+  const entry = pending.get(approvalId);
+  if (!entry) return false;
+  pending.delete(approvalId);
+
+  const decision: ApprovalDecision = {
+    approved,
+    decidedBy: options.decidedBy ?? 'user',
+    ...(options.reason ? { reason: options.reason } : {}),
+  };
+  const resolved: ApprovalResolvedPayload = {
+    approvalId,
+    sessionId: entry.request.sessionId,
+    ...decision,
+    decidedAt: new Date().toISOString(),
+  };
+
+  appendAudit({ ...entry.request, ...resolved });
+  emitApprovalResolved(resolved);
+  entry.resolve(decision);
+  return true;
+}
+
+export function listPendingApprovals(sessionId?: string): ApprovalRequestPayload[] {
+  return Array.from(pending.values())
+    .map((entry) => entry.request)
+    .filter((request) => !sessionId || request.sessionId === sessionId);
+}
+
+// -----------------------------------------------------------------------------
+// Audit trail
+// -----------------------------------------------------------------------------
+
+function auditPath(): string {
+  return process.env.APPROVALS_AUDIT_PATH || DEFAULT_AUDIT_PATH;
+}
+
+function appendAudit(entry: ApprovalAuditEntry): void {
+  const filePath = auditPath();
+  try {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.appendFileSync(filePath, JSON.stringify(entry) + '\n', 'utf-8');
+  } catch (err) {
+    console.error('[Approvals] Failed to write audit entry:', err);
+  }
+}
+
+/** Most recent decisions first, optionally only those of one session */
+export function readApprovalAudit(limit = 100, sessionId?: string): ApprovalAuditEntry[] {
+  let raw: string;
+  try {
+    raw = fs.readFileSync(auditPath(), 'utf-8');
+  } catch {
+    return [];
+  }
+
+  const entries: ApprovalAuditEntry[] = [];
+  for (const line of raw.split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      entries.push(JSON.parse(line));
+    } catch {
+      // Skip a torn line from an interrupted write
+    }
+  }
+  return entries
+    .filter((entry) => !sessionId || entry.sessionId === sessionId)
+    .reverse()
+    .slice(0, limit);
+}
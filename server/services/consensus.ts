@@ -0,0 +1,401 @@
+// =============================================================================
+// Consensus
+// Runtime side of SubAgentConfig `resultAggregation` and PALConfig
+// `consensusConfig` for coordinators. Once every agent a coordinator delegates
+// to has finished, their results are combined:
+//   first  — the first successful result
+//   vote   — each successful sub-agent scores every result 0–10 and votes for
+//            its top pick; the winner needs the consensus threshold
+//            (majority / unanimous / weighted by agent weight)
+//   custom — the coordinator merges the results itself
+// A vote that misses the threshold escalates along DelegationConfig
+// `escalationPath` until an agent there decides. `merge`, the default, hands
+// the results on unchanged.
+// =============================================================================
+
+import type {
+  ConsensusBallot,
+  ConsensusCandidate,
+  ConsensusReport,
+  ConsensusRole,
+} from '../../shared/socket-events';
+import type { ExecutionPlan } from './execution-planner';
+import type { AgentResult, ParsedWorkflow, WorkflowNode } from './orchestrator-bridge';
+
+// -----------------------------------------------------------------------------
+// Types
+// -----------------------------------------------------------------------------
+
+export type AggregationMethod = ConsensusReport['aggregation'];
+
+export type VotingMethod = NonNullable<ConsensusReport['votingMethod']>;
+
+export interface AggregationSettings {
+  method: AggregationMethod;
+  votingMethod: VotingMethod;
+  /** Share of votes (or voter weight) the winner needs, 0–1 */
+  threshold: number;
+  /** Voter weight by agent id or label; unlisted voters weigh 1 */
+  weights: Record<string, number>;
+  /** Agent ids or labels that decide when the vote misses the threshold */
+  escalationPath: string[];
+}
+
+export interface SubAgentResult {
+  agent: WorkflowNode;
+  status: AgentResult['status'] | 'skipped';
+  output: string;
+  /** When the result came in, for `first` */
+  finishedAt: number;
+}
+
+/** Run an agent for the aggregation; results are reported like any other run */
+export type ConsensusRunner = (
+  agent: WorkflowNode,
+  input: string,
+  role: ConsensusRole['role']
+) => Promise<AgentResult>;
+
+export interface ConsensusOptions {
+  workflow: ParsedWorkflow;
+  brief: string;
+  run: ConsensusRunner;
+  log: (msg: string, stream?: 'stdout' | 'stderr') => void;
+}
+
+export interface ConsensusOutcome {
+  status: 'success' | 'error';
+  output: string;
+  report: ConsensusReport;
+}
+
+// -----------------------------------------------------------------------------
+// Constants
+// -----------------------------------------------------------------------------
+
+const AGGREGATIONS: AggregationMethod[] = ['first', 'vote', 'custom'];
+
+const VOTING_METHODS: VotingMethod[] = ['majority', 'unanimous', 'weighted'];
+
+/** Schema default of the Consensus Threshold slider */
+const DEFAULT_THRESHOLD = 0.67;
+
+/** `A: 7`, `Candidate B = 9`, `SCORE C - 4` */
+const SCORE_LINE = /^\s*(?:score\s+)?(?:candidate\s+)?([A-Z])\s*[:=-]\s*(\d+(?:\.\d+)?)/gim;
+
+// -----------------------------------------------------------------------------
+// Internal
+// -----------------------------------------------------------------------------
+
+function letter(index: number): string {
+  return String.fromCharCode(65 + index);
+}
+
+function percent(share: number): string {
+  return `${Math.round(share * 100)}%`;
+}
+
+function formatCandidates(candidates: SubAgentResult[]): string {
+  return candidates
+    .map((c, i) => `### Candidate ${letter(i)} (${c.agent.label})\n${c.output}`)
+    .join('\n\n');
+}
+
+function ballotPrompt(brief: string, candidates: SubAgentResult[]): string {
+  return [
+    `## Task\n${brief}`,
+    `## Candidate results\n${formatCandidates(candidates)}`,
+    '## Your ballot\nScore every candidate from 0 to 10 for how well it completes the task, ' +
+      'judging impartially — your own result included. Reply with one line per candidate, e.g.\n' +
+      candidates.map((_, i) => `${letter(i)}: ${i === 0 ? 7 : 5}`).join('\n'),
+  ].join('\n\n');
+}
+
+function escalationPrompt(brief: string, candidates: SubAgentResult[], report: ConsensusReport): string {
+  const tally = report.candidates
+    .map((c, i) => `- ${letter(i)} (${c.agentLabel}): ${c.votes} vote(s)`)
+    .join('\n');
+  return [
+    `## Task\n${brief}`,
+    `## Candidate results\n${formatCandidates(candidates)}`,
+    `## Vote\nThe agents could not agree (${report.votingMethod}, threshold ${percent(report.threshold ?? 0)}):\n${tally}`,
+    '## Your decision\nReply with the final result for the task. You may pick a candidate, combine them, or write a better one.',
+  ].join('\n\n');
+}
+
+function synthesisPrompt(brief: string, candidates: SubAgentResult[]): string {
+  return [
+    `## Task\n${brief}`,
+    `## Results from your sub-agents\n${formatCandidates(candidates)}`,
+    '## Aggregate\nCombine these results into the single final result for the task.',
+  ].join('\n\n');
+}
+
+/** Scores per candidate from a ballot; out-of-range scores are clamped to 0–10 */
+function parseBallot(output: string, count: number): Array<number | null> {
+  const scores: Array<number | null> = Array.from({ length: count }, () => null);
+  const line = new RegExp(SCORE_LINE.source, SCORE_LINE.flags);
+  let match: RegExpExecArray | null;
+  while ((match = line.exec(output)) !== null) {
+    const index = match[1].toUpperCase().charCodeAt(0) - 65;
+    if (index < count && scores[index] === null) {
+      scores[index] = Math.min(10, Math.max(0, Number(match[2])));
+    }
+  }
+  return scores;
+}
+
+/** The voter's top-scored candidate; ties go to the earlier one */
+function choiceOf(scores: Array<number | null>): number | null {
+  let choice: number | null = null;
+  scores.forEach((score, i) => {
+    if (score !== null && (choice === null || score > scores[choice]!)) choice = i;
+  });
+  return choice;
+}
+
+/** Agents by id, name or label; unknown references are skipped */
+function resolveAgents(refs: string[], workflow: ParsedWorkflow): WorkflowNode[] {
+  return refs
+    .map((ref) => workflow.agents.find((a) => a.id === ref || a.config.name === ref || a.label === ref))
+    .filter((a): a is WorkflowNode => !!a);
+}
+
+function weightOf(agent: WorkflowNode, settings: AggregationSettings): number {
+  const weight = settings.weights[agent.id] ?? settings.weights[agent.label];
+  return weight !== undefined && weight >= 0 ? weight : 1;
+}
+
+async function runVote(
+  coordinator: WorkflowNode,
+  candidates: SubAgentResult[],
+  settings: AggregationSettings,
+  options: ConsensusOptions
+): Promise<ConsensusOutcome> {
+  const { log } = options;
+  const report: ConsensusReport = {
+    coordinatorId: coordinator.id,
+    coordinatorLabel: coordinator.label,
+    aggregation: 'vote',
+    votingMethod: settings.votingMethod,
+    threshold: settings.threshold,
+    candidates: [],
+    ballots: [],
+    met: false,
+    status: 'error',
+  };
+
+  if (candidates.length === 1) {
+    log(`  [CONSENSUS] ${coordinator.label}: only ${candidates[0].agent.label} succeeded — no vote needed`);
+    report.candidates = tallyVotes(candidates, [], settings).candidates;
+    return {
+      status: 'success',
+      output: candidates[0].output,
+      report: { ...report, winner: candidates[0].agent.id, support: 1, met: true, status: 'success' },
+    };
+  }
+
+  // Every sub-agent that produced a result votes, in parallel
+  const voters = candidates.filter((c) => c.agent.nodeType === 'AGENT').map((c) => c.agent);
+  log(`  [CONSENSUS] ${coordinator.label}: ${voters.length} agent(s) voting on ${candidates.length} result(s)`);
+  const prompt = ballotPrompt(options.brief, candidates);
+  report.ballots = await Promise.all(
+    voters.map(async (voter): Promise<ConsensusBallot> => {
+      const result = await options.run(voter, prompt, 'ballot');
+      const scores =
+        result.status === 'success' ? parseBallot(result.output, candidates.length) : candidates.map(() => null);
+      return {
+        voterId: voter.id,
+        voterLabel: voter.label,
+        weight: weightOf(voter, settings),
+        scores,
+        choice: choiceOf(scores),
+      };
+    })
+  );
+
+  const tally = tallyVotes(candidates, report.ballots, settings);
+  Object.assign(report, tally);
+  const winner = candidates.find((c) => c.agent.id === tally.winner);
+  const summary = winner ? `${winner.agent.label} ${percent(tally.support ?? 0)}` : 'no votes';
+
+  if (tally.met && winner) {
+    log(`  [CONSENSUS] ${coordinator.label}: ${summary} (${settings.votingMethod}) → ${winner.agent.label}`);
+    return { status: 'success', output: winner.output, report: { ...report, status: 'success' } };
+  }
+
+  // No consensus: the escalation path decides, first agent that succeeds wins
+  const targets = resolveAgents(settings.escalationPath, options.workflow);
+  if (targets.length === 0) {
+    log(`  [CONSENSUS] ${coordinator.label}: no consensus (${summary}, needs ${percent(settings.threshold)}) and no escalation path`, 'stderr');
+    return { status: 'error', output: '', report };
+  }
+
+  const decisionPrompt = escalationPrompt(options.brief, candidates, report);
+  for (const target of targets) {
+    log(`  [CONSENSUS] ${coordinator.label}: no consensus (${summary}, needs ${percent(settings.threshold)}) → escalating to ${target.label}`);
+    const result = await options.run(target, decisionPrompt, 'escalation');
+    report.escalatedTo = { agentId: target.id, agentLabel: target.label, status: result.status };
+    if (result.status === 'success') {
+      return { status: 'success', output: result.output, report: { ...report, status: 'success' } };
+    }
+  }
+  log(`  [CONSENSUS] ${coordinator.label}: every escalation failed`, 'stderr');
+  return { status: 'error', output: '', report };
+}
+
+// -----------------------------------------------------------------------------
+// Public API
+// -----------------------------------------------------------------------------
+
+/**
+ * Aggregation settings for a coordinator, or null when its results are
+ * simply merged. Consensus enabled without an explicit aggregation votes.
+ */
+export function parseAggregation(config: Record<string, unknown>): AggregationSettings | null {
+  const subAgent = (config.subAgentConfig ?? {}) as Record<string, unknown>;
+  const consensus = ((config.palConfig ?? {}) as Record<string, unknown>).consensusConfig as
+    | Record<string, unknown>
+    | undefined;
+  const delegation = (config.delegation ?? {}) as Record<string, unknown>;
+
+  const method = AGGREGATIONS.includes(subAgent.resultAggregation as AggregationMethod)
+    ? (subAgent.resultAggregation as AggregationMethod)
+    : !subAgent.resultAggregation && consensus?.enabled === true
+      ? 'vote'
+      : null;
+  if (!method) return null;
+
+  const threshold = Number(consensus?.threshold);
+  const weights: Record<string, number> = {};
+  if (consensus?.weights && typeof consensus.weights === 'object') {
+    for (const [agent, weight] of Object.entries(consensus.weights as Record<string, unknown>)) {
+      const n = Number(weight);
+      if (Number.isFinite(n)) weights[agent] = n;
+    }
+  }
+
+  return {
+    method,
+    votingMethod: VOTING_METHODS.includes(consensus?.votingMethod as VotingMethod)
+      ? (consensus!.votingMethod as VotingMethod)
+      : 'majority',
+    threshold: threshold > 0 && threshold <= 1 ? threshold : DEFAULT_THRESHOLD,
+    weights,
+    escalationPath: Array.isArray(delegation.escalationPath)
+      ? delegation.escalationPath.map(String).filter((ref) => ref.trim())
+      : [],
+  };
+}
+
+/** Units the coordinator delegates to in the plan */
+export function subAgentsOf(plan: ExecutionPlan, coordinatorId: string): string[] {
+  return Array.from(plan.dependencies)
+    .filter(([, deps]) => deps.some((d) => d.agentId === coordinatorId && d.kind === 'delegation'))
+    .map(([id]) => id);
+}
+
+/** Agents on a voting coordinator's escalation path */
+export function escalationTargets(coordinator: WorkflowNode, workflow: ParsedWorkflow): WorkflowNode[] {
+  const settings = coordinator.nodeType === 'AGENT' ? parseAggregation(coordinator.config) : null;
+  return settings?.method === 'vote' ? resolveAgents(settings.escalationPath, workflow) : [];
+}
+
+/** e.g. `vote, weighted ≥ 67%` */
+export function describeAggregation(settings: AggregationSettings): string {
+  return settings.method === 'vote'
+    ? `vote, ${settings.votingMethod}${settings.votingMethod === 'unanimous' ? '' : ` ≥ ${percent(settings.threshold)}`}`
+    : settings.method;
+}
+
+/**
+ * Count ballots per candidate. The winner has the most votes (voter weight
+ * for weighted voting), then the best average score. Abstentions count
+ * against the winner's share; a majority also needs more than half.
+ */
+export function tallyVotes(
+  candidates: SubAgentResult[],
+  ballots: ConsensusBallot[],
+  settings: AggregationSettings
+): Pick<ConsensusReport, 'candidates' | 'winner' | 'support' | 'met'> {
+  const tallied: ConsensusCandidate[] = candidates.map((c, i) => {
+    const scores = ballots.map((b) => b.scores[i]).filter((s): s is number => s !== null);
+    const votes = ballots.filter((b) => b.choice === i);
+    return {
+      agentId: c.agent.id,
+      agentLabel: c.agent.label,
+      votes: votes.length,
+      weight: votes.reduce((sum, b) => sum + b.weight, 0),
+      averageScore: scores.length > 0 ? scores.reduce((a, b) => a + b, 0) / scores.length : null,
+    };
+  });
+  if (ballots.length === 0) return { candidates: tallied, met: false };
+
+  const weighted = settings.votingMethod === 'weighted';
+  const ranked = tallied
+    .map((c, index) => ({ c, index }))
+    .sort(
+      (a, b) =>
+        (weighted ? b.c.weight - a.c.weight : b.c.votes - a.c.votes) ||
+        (b.c.averageScore ?? -1) - (a.c.averageScore ?? -1) ||
+        a.index - b.index
+    );
+  const top = ranked[0].c;
+  if (top.votes === 0) return { candidates: tallied, met: false };
+
+  const totalWeight = ballots.reduce((sum, b) => sum + b.weight, 0);
+  const support = weighted ? (totalWeight > 0 ? top.weight / totalWeight : 0) : top.votes / ballots.length;
+  const met =
+    settings.votingMethod === 'unanimous'
+      ? top.votes === ballots.length
+      : support >= settings.threshold && (weighted || support > 0.5);
+
+  return { candidates: tallied, winner: top.agentId, support, met };
+}
+
+/**
+ * Combine a coordinator's sub-agent results per its aggregation settings.
+ * Skipped and failed sub-agents are left out; with no successful result
+ * there is nothing to aggregate.
+ */
+export async function aggregateResults(
+  coordinator: WorkflowNode,
+  subAgents: SubAgentResult[],
+  settings: AggregationSettings,
+  options: ConsensusOptions
+): Promise<ConsensusOutcome> {
+  const candidates = subAgents.filter((s) => s.status === 'success');
+  const base: ConsensusReport = {
+    coordinatorId: coordinator.id,
+    coordinatorLabel: coordinator.label,
+    aggregation: settings.method,
+    candidates: tallyVotes(candidates, [], settings).candidates,
+    ballots: [],
+    met: false,
+    status: 'error',
+  };
+
+  if (candidates.length === 0) {
+    options.log(`  [CONSENSUS] ${coordinator.label}: no sub-agent succeeded — nothing to aggregate`, 'stderr');
+    return { status: 'error', output: '', report: base };
+  }
+
+  if (settings.method === 'first') {
+    const first = [...candidates].sort((a, b) => a.finishedAt - b.finishedAt)[0];
+    options.log(`  [CONSENSUS] ${coordinator.label}: first result from ${first.agent.label}`);
+    return {
+      status: 'success',
+      output: first.output,
+      report: { ...base, winner: first.agent.id, met: true, status: 'success' },
+    };
+  }
+
+  if (settings.method === 'custom') {
+    options.log(`  [CONSENSUS] ${coordinator.label}: aggregating ${candidates.length} result(s) itself`);
+    const result = await options.run(coordinator, synthesisPrompt(options.brief, candidates), 'synthesis');
+    const status = result.status === 'success' ? 'success' : 'error';
+    return { status, output: result.output, report: { ...base, met: status === 'success', status } };
+  }
+
+  return runVote(coordinator, candidates, settings, options);
+}
@@ -0,0 +1,281 @@
+// =============================================================================
+// Cron Executor
+// Fires cron-triggered systems in-process when no OpenClaw runtime schedules
+// them. Every deployed system with an enabled cron trigger gets a timer;
+// each fire dispatches a run with triggered_by='cron', executed by the
+// gateway or, standalone, by the local runner. Fire times missed
+// while the server was down are caught up at start according to the
+// trigger's catch-up policy. The registry is re-read periodically so edited,
+// disabled and removed triggers are picked up without a restart.
+// =============================================================================
+
+import { pool } from '../db';
+import { parseCron, nextCronRun, startCronTimer, type CronSchedule, type CronTimer } from '../lib/cron';
+import { listSystems, getSystem } from './registry';
+import { dispatchExecution, mapPayloadToInputs } from './execution-dispatcher';
+import type { CronTriggerConfig } from './trigger-factory';
+import type { CronCatchUpPolicy, DeploymentRecord } from '../types/registry';
+
+// -----------------------------------------------------------------------------
+// Types
+// -----------------------------------------------------------------------------
+
+interface ArmedTrigger {
+  deploymentId: string;
+  schedule: CronSchedule;
+  timer: CronTimer;
+}
+
+export interface CronTriggerStatus {
+  systemSlug: string;
+  expression: string;
+  timezone: string;
+  nextRunAt: string | null;
+}
+
+// -----------------------------------------------------------------------------
+// Constants
+// -----------------------------------------------------------------------------
+
+const CATCH_UP_POLICIES: CronCatchUpPolicy[] = ['skip', 'latest', 'all'];
+
+/** Missed fires older than this are never caught up */
+const CATCH_UP_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+/** Upper bound on runs dispatched per system by the `all` policy */
+const MAX_CATCH_UP_RUNS = 10;
+
+const DEFAULT_SYNC_INTERVAL_MS = 60_000;
+
+// -----------------------------------------------------------------------------
+// Module state
+// -----------------------------------------------------------------------------
+
+const armed = new Map<string, ArmedTrigger>();
+let syncTimer: ReturnType<typeof setInterval> | null = null;
+
+// -----------------------------------------------------------------------------
+// Configuration
+// -----------------------------------------------------------------------------
+
+/**
+ * CRON_EXECUTOR_ENABLED switches the executor explicitly; unset, it runs
+ * only when no OpenClaw gateway is configured to fire cron triggers itself.
+ */
+export function cronExecutorEnabled(): boolean {
+  const flag = process.env.CRON_EXECUTOR_ENABLED;
+  if (flag === 'true') return true;
+  if (flag === 'false') return false;
+  return !process.env.OPENCLAW_GATEWAY_URL;
+}
+
+function catchUpPolicy(config: CronTriggerConfig): CronCatchUpPolicy {
+  if (config.catchUp) return config.catchUp;
+  const fromEnv = process.env.CRON_CATCH_UP as CronCatchUpPolicy | undefined;
+  return fromEnv && CATCH_UP_POLICIES.includes(fromEnv) ? fromEnv : 'latest';
+}
+
+/** The record's cron trigger, or null when the executor should not fire it */
+function activeCronTrigger(record: DeploymentRecord): CronTriggerConfig | null {
+  const config = record.triggerConfig as CronTriggerConfig | null;
+  if (record.status !== 'deployed' || record.triggerType !== 'cron') return null;
+  if (config?.type !== 'cron' || !config.enabled) return null;
+  return config;
+}
+
+function parseTrigger(slug: string, config: CronTriggerConfig): CronSchedule | null {
+  try {
+    return parseCron(config.expression, config.timezone);
+  } catch (err) {
+    console.warn(`[cron-executor] ${slug}: ${err instanceof Error ? err.message : String(err)} — not scheduled`);
+    return null;
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Catch-up
+// -----------------------------------------------------------------------------
+
+/**
+ * Fire times after `since` and up to `now` that the policy wants run:
+ * none for `skip`, the most recent for `latest`, and for `all` every one,
+ * capped at the most recent MAX_CATCH_UP_RUNS. Fires older than
+ * CATCH_UP_WINDOW_MS are ignored.
+ */
+export function missedCronRuns(
+  schedule: CronSchedule,
+  since: Date,
+  now: Date,
+  policy: CronCatchUpPolicy
+): Date[] {
+  if (policy === 'skip') return [];
+
+  const windowStart = new Date(Math.max(since.getTime(), now.getTime() - CATCH_UP_WINDOW_MS));
+  const keep = policy === 'latest' ? 1 : MAX_CATCH_UP_RUNS;
+  const missed: Date[] = [];
+
+  let next = nextCronRun(schedule, windowStart);
+  while (next && next.getTime() <= now.getTime()) {
+    missed.push(next);
+    if (missed.length > keep) missed.shift();
+    next = nextCronRun(schedule, next);
+  }
+  return missed;
+}
+
+/** When the last cron run of a deployment was queued */
+async function lastCronFire(deploymentId: string): Promise<Date | null> {
+  const { rows } = await pool.query<{ last_started_at: string | null }>(
+    `SELECT MAX(COALESCE(queued_at, started_at)) AS last_started_at
+     FROM execution_logs
+     WHERE deployment_id = $1 AND triggered_by = 'cron'`,
+    [deploymentId]
+  );
+  const last = rows[0]?.last_started_at;
+  return last ? new Date(last) : null;
+}
+
+async function catchUp(record: DeploymentRecord, config: CronTriggerConfig, schedule: CronSchedule): Promise<void> {
+  const policy = catchUpPolicy(config);
+  if (policy === 'skip') return;
+
+  const lastFire = await lastCronFire(record.id);
+  const deployedAt = new Date(record.deployedAt);
+  const since = lastFire && lastFire > deployedAt ? lastFire : deployedAt;
+  const missed = missedCronRuns(schedule, since, new Date(), policy);
+
+  for (const scheduledAt of missed) {
+    console.log(`[cron-executor] ${record.systemSlug}: catching up fire missed at ${scheduledAt.toISOString()}`);
+    await fireTrigger(record.systemSlug, scheduledAt);
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Firing
+// -----------------------------------------------------------------------------
+
+/**
+ * Dispatch a cron run. The record is re-read first so a trigger disabled,
+ * edited or stopped since it was armed does not fire on stale settings.
+ */
+async function fireTrigger(slug: string, scheduledAt: Date, expected?: CronSchedule): Promise<string | null> {
+  const record = await getSystem(slug);
+  const config = record && activeCronTrigger(record);
+  if (!record || !config) return null;
+  if (expected && (config.expression !== expected.expression || config.timezone !== expected.timezone)) {
+    return null;
+  }
+
+  try {
+    const inputs = mapPayloadToInputs(record.manifestJson, {});
+    const { executionId, status } = await dispatchExecution({ deployment: record, triggeredBy: 'cron', inputs });
+    console.log(`[cron-executor] ${slug}: fired for ${scheduledAt.toISOString()} (${executionId}, ${status})`);
+    return executionId;
+  } catch (err) {
+    console.error(`[cron-executor] ${slug}: run for ${scheduledAt.toISOString()} failed to dispatch:`, err);
+    return null;
+  }
+}
+
+function arm(slug: string, deploymentId: string, schedule: CronSchedule): void {
+  const timer = startCronTimer(schedule, (fireAt) => {
+    void fireTrigger(slug, fireAt, schedule);
+  });
+  if (!timer.nextRunAt) {
+    console.warn(`[cron-executor] ${slug}: "${schedule.expression}" never fires`);
+  }
+  armed.set(slug, { deploymentId, schedule, timer });
+}
+
+function disarm(slug: string): void {
+  armed.get(slug)?.timer.stop();
+  armed.delete(slug);
+}
+
+// -----------------------------------------------------------------------------
+// Public API
+// -----------------------------------------------------------------------------
+
+/**
+ * Bring the armed timers in line with the registry: arm new and edited cron
+ * triggers, disarm disabled, stopped and removed ones. With `catchUpMissed`,
+ * newly armed triggers first run the fires they missed.
+ */
+export async function syncCronTriggers(catchUpMissed = false): Promise<void> {
+  const records = await listSystems();
+  const seen = new Set<string>();
+
+  for (const record of records) {
+    const config = activeCronTrigger(record);
+    if (!config) continue;
+    seen.add(record.systemSlug);
+
+    const current = armed.get(record.systemSlug);
+    if (
+      current &&
+      current.deploymentId === record.id &&
+      current.schedule.expression === config.expression &&
+      current.schedule.timezone === config.timezone
+    ) {
+      continue;
+    }
+
+    disarm(record.systemSlug);
+    const schedule = parseTrigger(record.systemSlug, config);
+    if (!schedule) continue;
+
+    arm(record.systemSlug, record.id, schedule);
+
+    if (catchUpMissed) {
+      await catchUp(record, config, schedule).catch((err) => {
+        console.error(`[cron-executor] ${record.systemSlug}: catch-up failed:`, err);
+      });
+    }
+  }
+
+  for (const slug of Array.from(armed.keys())) {
+    if (!seen.has(slug)) disarm(slug);
+  }
+}
+
+export function getCronTriggers(): CronTriggerStatus[] {
+  return Array.from(armed.entries()).map(([slug, trigger]) => ({
+    systemSlug: slug,
+    expression: trigger.schedule.expression,
+    timezone: trigger.schedule.timezone,
+    nextRunAt: trigger.timer.nextRunAt?.toISOString() ?? null,
+  }));
+}
+
+/**
+ * Start the executor: arm every enabled cron trigger, catch up missed fires,
+ * and re-sync with the registry every CRON_EXECUTOR_SYNC_MS. Resolves once
+ * the first sync has finished.
+ */
+export async function startCronExecutor(): Promise<{ stop: () => void }> {
+  stopCronExecutor();
+
+  if (!cronExecutorEnabled()) {
+    console.log('[cron-executor] Disabled — cron triggers are left to OpenClaw');
+    return { stop: stopCronExecutor };
+  }
+
+  const interval = parseInt(process.env.CRON_EXECUTOR_SYNC_MS ?? '', 10) || DEFAULT_SYNC_INTERVAL_MS;
+  syncTimer = setInterval(() => {
+    syncCronTriggers().catch((err) => {
+      console.error('[cron-executor] Registry sync failed:', err);
+    });
+  }, interval);
+
+  await syncCronTriggers(true);
+  console.log(`[cron-executor] ${armed.size} cron trigger(s) armed`);
+  return { stop: stopCronExecutor };
+}
+
+export function stopCronExecutor(): void {
+  if (syncTimer) clearInterval(syncTimer);
+  syncTimer = null;
+  for (const slug of Array.from(armed.keys())) {
+    disarm(slug);
+  }
+}
@@ -12,15 +12,42 @@ import {
   DeploymentRecord,
   AgentConfigSlim,
   MCPServerConfigSlim,
+  PM2AppConfig,
+  TriggerSettings,
+  OpenClawFile,
 } from '../types/registry';
-import { registerSystem, updateSystemStatus } from './registry';
+import {
+  registerSystem,
+  updateSystemStatus,
+  updateSystemSnapshot,
+  updateSystemTrigger,
+} from './registry';
 import {
   createTriggerConfig,
+  updateTriggerConfig,
   removeTriggerConfig,
+  restoreTriggerConfig,
   TriggerConfig,
 } from './trigger-factory';
-import { startProcess, deleteProcess } from './pm2-manager';
-import { DeploymentError } from '../lib/errors';
+import {
+  startProcess,
+  deleteProcess,
+  listSystemProcesses,
+  deleteSystemProcesses,
+  restartSystemProcesses,
+  ProcessStatus,
+} from './pm2-manager';
+import {
+  recordVersion,
+  getVersion,
+  latestVersion,
+  nextVersion,
+  VersionSnapshot,
+} from './deployment-versions';
+import { subscribeToSystem } from './openclaw-client';
+import { setSecret } from './secrets-vault';
+import { agentSlugFromAppName, systemProcessName } from '../lib/process-names';
+import { DeploymentError, TriggerConfigError } from '../lib/errors';
 
 // Re-export for backward compat in route handlers
 export { DeploymentError as DeployError };
@@ -30,7 +57,7 @@ interface DeployArtifacts {
   mcpConfigDir: string | null;
   triggerConfig: TriggerConfig | null;
   deploymentRecord: DeploymentRecord | null;
-  pm2ProcessName: string | null;
+  pm2ProcessNames: string[];
 }
 
 // -----------------------------------------------------------------------------
@@ -43,9 +70,12 @@ interface DeployArtifacts {
  * Steps (atomic — rolls back on failure):
  *   1. Write per-agent CLAUDE.md config files
  *   2. Write MCP server configs
- *   3. Generate trigger configuration
- *   4. Register in PostgreSQL deployment registry
- *   5. Start the PM2 process
+ *   3. Generate trigger configuration (defaults overridden by bundle.trigger)
+ *   4. Register in PostgreSQL deployment registry and record the version;
+ *      a webhook secret from bundle.trigger goes to the vault
+ *   5. Start one PM2 process per app in the bundle's ecosystem, with the
+ *      system's vault secrets in its env
+ *   6. Subscribe to its execution events on the OpenClaw gateway
  */
 export async function deploySystem(
   bundle: SystemBundle,
@@ -59,7 +89,7 @@ export async function deploySystem(
     mcpConfigDir: null,
     triggerConfig: null,
     deploymentRecord: null,
-    pm2ProcessName: null,
+    pm2ProcessNames: [],
   };
 
   try {
@@ -81,7 +111,8 @@ export async function deploySystem(
     artifacts.triggerConfig = await createTriggerConfig(
       manifest.triggerPattern,
       manifest,
-      openclawRoot
+      openclawRoot,
+      bundle.trigger
     );
 
     // Step 4: Register in deployment registry
@@ -89,26 +120,19 @@ export async function deploySystem(
       bundle,
       artifacts.triggerConfig
     );
+    await storeWebhookSecret(artifacts.deploymentRecord, bundle.trigger, null);
 
-    // Step 5: Start PM2 process
-    const pm2ProcessName = `autopilate-${systemSlug}`;
-    artifacts.pm2ProcessName = pm2ProcessName;
-
-    const mainApp = bundle.pm2Ecosystem.apps[0];
-    if (!mainApp) {
-      throw new DeploymentError(
-        'PM2_NO_CONFIG',
-        'No PM2 app config found in bundle',
-        'pm2-start'
-      );
-    }
+    // Step 5: Start a PM2 process for every agent app
+    await startAgentProcesses(
+      bundle.pm2Ecosystem.apps,
+      systemSlug,
+      openclawRoot,
+      artifacts.pm2ProcessNames,
+      artifacts.deploymentRecord.secretsDecrypted ?? {}
+    );
 
-    // Override cwd to point to the OpenClaw system directory
-    await startProcess({
-      ...mainApp,
-      name: pm2ProcessName,
-      cwd: path.join(openclawRoot, 'agents', systemSlug),
-    });
+    // Step 6: Follow the new system's execution events
+    subscribeToSystem(systemSlug);
 
     return artifacts.deploymentRecord;
   } catch (err) {
@@ -124,6 +148,166 @@ export async function deploySystem(
   }
 }
 
+/**
+ * Ship a new bundle for an already-deployed system under a bumped version.
+ *
+ * The running system is replaced in place: agent dirs, MCP configs and PM2
+ * processes are rewritten from the new bundle. The trigger config is kept
+ * when the trigger pattern is unchanged so user edits survive; settings sent
+ * in bundle.trigger are merged over it. If activation fails, the previous
+ * version is restored.
+ */
+export async function redeploySystem(
+  existing: DeploymentRecord,
+  bundle: SystemBundle,
+  openclawRoot: string
+): Promise<DeploymentRecord> {
+  const systemSlug = existing.systemSlug;
+  if (bundle.manifest.slug !== systemSlug) {
+    throw new DeploymentError(
+      'SLUG_MISMATCH',
+      `Bundle slug "${bundle.manifest.slug}" does not match system "${systemSlug}"`,
+      'redeploy',
+      undefined,
+      400
+    );
+  }
+
+  const currentVersion = existing.manifestJson.version;
+  const previous = await getVersion(existing.id, currentVersion);
+  const latest = (await latestVersion(existing.id)) ?? currentVersion;
+  const manifest = { ...bundle.manifest, version: nextVersion(latest, bundle.manifest.version) };
+
+  const current =
+    existing.triggerType === manifest.triggerPattern && existing.triggerConfig
+      ? (existing.triggerConfig as TriggerConfig)
+      : null;
+  if (bundle.trigger && bundle.trigger.type !== manifest.triggerPattern) {
+    throw new TriggerConfigError(
+      `Trigger settings are for "${bundle.trigger.type}" but the bundle uses "${manifest.triggerPattern}"`,
+      manifest.triggerPattern
+    );
+  }
+  await storeWebhookSecret(existing, bundle.trigger, current);
+  const triggerConfig = bundle.trigger
+    ? await updateTriggerConfig(current, bundle.trigger, manifest, openclawRoot)
+    : current ?? (await createTriggerConfig(manifest.triggerPattern, manifest, openclawRoot));
+
+  const snapshot: VersionSnapshot = {
+    version: manifest.version,
+    manifestJson: manifest,
+    canvasJson: bundle.canvasJson,
+    openclawConfig: openclawConfigFor(systemSlug),
+    triggerConfig,
+    agentConfigs: bundle.agentConfigs,
+    mcpConfigs: bundle.mcpConfigs,
+    pm2Ecosystem: bundle.pm2Ecosystem,
+  };
+
+  try {
+    const record = await activateSnapshot(existing, snapshot, openclawRoot, bundle.envExample);
+    await recordVersion(existing.id, snapshot);
+    return record;
+  } catch (err) {
+    await restorePrevious(existing, previous, openclawRoot);
+    throw wrapError(err, `Redeploy failed for ${systemSlug}`, 'redeploy');
+  }
+}
+
+/**
+ * Roll a system back to a previously recorded version, restoring its agent
+ * dirs, MCP configs, trigger file and PM2 processes from the snapshot.
+ */
+export async function rollbackSystem(
+  existing: DeploymentRecord,
+  version: string,
+  openclawRoot: string
+): Promise<DeploymentRecord> {
+  const target = await getVersion(existing.id, version);
+  if (!target) {
+    throw new DeploymentError(
+      'VERSION_NOT_FOUND',
+      `Version ${version} was never deployed for ${existing.systemSlug}`,
+      'rollback',
+      undefined,
+      404
+    );
+  }
+
+  const previous = await getVersion(existing.id, existing.manifestJson.version);
+
+  try {
+    return await activateSnapshot(existing, target, openclawRoot);
+  } catch (err) {
+    await restorePrevious(existing, previous, openclawRoot);
+    throw wrapError(err, `Rollback to ${version} failed for ${existing.systemSlug}`, 'rollback');
+  }
+}
+
+/**
+ * Restart a system's agent processes with its current vault secrets. PM2
+ * keeps an app's env across plain restarts, so the processes are recreated
+ * from the live version's ecosystem. Systems deployed before versions were
+ * recorded fall back to a plain restart with their existing env.
+ */
+export async function restartSystem(
+  existing: DeploymentRecord,
+  openclawRoot: string
+): Promise<ProcessStatus[]> {
+  const systemSlug = existing.systemSlug;
+  const live = await getVersion(existing.id, existing.manifestJson.version);
+  if (!live) {
+    return restartSystemProcesses(systemSlug);
+  }
+
+  const running = await listSystemProcesses(systemSlug);
+  if (running.length > 0) {
+    await deleteSystemProcesses(systemSlug);
+  }
+
+  const started: string[] = [];
+  try {
+    await startAgentProcesses(
+      live.pm2Ecosystem.apps,
+      systemSlug,
+      openclawRoot,
+      started,
+      existing.secretsDecrypted ?? {}
+    );
+  } catch (err) {
+    await Promise.allSettled(started.map((name) => deleteProcess(name)));
+    throw wrapError(err, `Restart failed for ${systemSlug}`, 'restart');
+  }
+
+  return listSystemProcesses(systemSlug);
+}
+
+/**
+ * Change a deployed system's trigger: rewrite the trigger file, then the
+ * registry row. The old file is put back if the row update fails. Agent
+ * processes keep running; nothing is redeployed.
+ */
+export async function updateTrigger(
+  existing: DeploymentRecord,
+  settings: TriggerSettings,
+  openclawRoot: string
+): Promise<DeploymentRecord> {
+  const systemSlug = existing.systemSlug;
+  const current = (existing.triggerConfig as TriggerConfig | null) ?? null;
+  const manifest = { ...existing.manifestJson, triggerPattern: settings.type };
+
+  await storeWebhookSecret(existing, settings, current);
+  const triggerConfig = await updateTriggerConfig(current, settings, manifest, openclawRoot);
+  try {
+    return await updateSystemTrigger(systemSlug, triggerConfig);
+  } catch (err) {
+    if (current) {
+      await restoreTriggerConfig(current, systemSlug, openclawRoot).catch(() => undefined);
+    }
+    throw wrapError(err, `Trigger update failed for ${systemSlug}`, 'trigger');
+  }
+}
+
 // -----------------------------------------------------------------------------
 // Step 1: Write per-agent CLAUDE.md files
 // -----------------------------------------------------------------------------
@@ -133,17 +317,25 @@ async function writeAgentConfigs(
   systemSlug: string,
   openclawRoot: string
 ): Promise<string> {
-  const systemDir = path.join(openclawRoot, 'agents', systemSlug);
-
-  for (const [agentSlug, config] of Object.entries(agentConfigs)) {
-    const agentDir = path.join(systemDir, agentSlug);
-    await fs.mkdir(agentDir, { recursive: true });
-
-    const claudeMd = generateAgentClaudeMd(config, agentSlug, systemSlug);
-    await fs.writeFile(path.join(agentDir, 'CLAUDE.md'), claudeMd, 'utf-8');
+  for (const file of renderAgentConfigs(agentConfigs, systemSlug, openclawRoot)) {
+    await fs.mkdir(path.dirname(file.path), { recursive: true });
+    await fs.writeFile(file.path, file.content, 'utf-8');
   }
 
-  return systemDir;
+  return path.join(openclawRoot, 'agents', systemSlug);
+}
+
+/** The CLAUDE.md file of every agent, as writeAgentConfigs writes them */
+export function renderAgentConfigs(
+  agentConfigs: Record<string, AgentConfigSlim>,
+  systemSlug: string,
+  openclawRoot: string
+): OpenClawFile[] {
+  const systemDir = path.join(openclawRoot, 'agents', systemSlug);
+  return Object.entries(agentConfigs).map(([agentSlug, config]) => ({
+    path: path.join(systemDir, agentSlug, 'CLAUDE.md'),
+    content: generateAgentClaudeMd(config, agentSlug, systemSlug),
+  }));
 }
 
 function generateAgentClaudeMd(
@@ -176,25 +368,35 @@ async function writeMcpConfigs(
   const mcpDir = path.join(openclawRoot, 'config', 'mcp', systemSlug);
   await fs.mkdir(mcpDir, { recursive: true });
 
-  for (const config of mcpConfigs) {
-    const fileName = `${config.name}.json`;
-    const configPayload = {
-      name: config.name,
-      command: config.command,
-      args: config.args ?? [],
-      env: config.env ?? {},
-    };
-
-    await fs.writeFile(
-      path.join(mcpDir, fileName),
-      JSON.stringify(configPayload, null, 2),
-      'utf-8'
-    );
+  for (const file of renderMcpConfigs(mcpConfigs, systemSlug, openclawRoot)) {
+    await fs.writeFile(file.path, file.content, 'utf-8');
   }
 
   return mcpDir;
 }
 
+/** One JSON file per MCP server, as writeMcpConfigs writes them */
+export function renderMcpConfigs(
+  mcpConfigs: MCPServerConfigSlim[],
+  systemSlug: string,
+  openclawRoot: string
+): OpenClawFile[] {
+  const mcpDir = path.join(openclawRoot, 'config', 'mcp', systemSlug);
+  return mcpConfigs.map((config) => ({
+    path: path.join(mcpDir, `${config.name}.json`),
+    content: JSON.stringify(
+      {
+        name: config.name,
+        command: config.command,
+        args: config.args ?? [],
+        env: config.env ?? {},
+      },
+      null,
+      2
+    ),
+  }));
+}
+
 // -----------------------------------------------------------------------------
 // Step 4: Register deployment with trigger config
 // -----------------------------------------------------------------------------
@@ -204,6 +406,7 @@ async function registerDeployment(
   triggerConfig: TriggerConfig
 ): Promise<DeploymentRecord> {
   const record = await registerSystem(bundle);
+  const openclawConfig = openclawConfigFor(bundle.manifest.slug);
 
   // Update the trigger_config and openclaw_config columns
   await pool.query(
@@ -214,26 +417,207 @@ async function registerDeployment(
      WHERE id = $3`,
     [
       JSON.stringify(triggerConfig),
-      JSON.stringify({
-        agentDir: `agents/${bundle.manifest.slug}`,
-        mcpDir: `config/mcp/${bundle.manifest.slug}`,
-        triggerFile: `config/triggers/${bundle.manifest.slug}.json`,
-      }),
+      JSON.stringify(openclawConfig),
       record.id,
     ]
   );
 
+  await recordVersion(record.id, {
+    version: bundle.manifest.version,
+    manifestJson: bundle.manifest,
+    canvasJson: bundle.canvasJson,
+    openclawConfig,
+    triggerConfig,
+    agentConfigs: bundle.agentConfigs,
+    mcpConfigs: bundle.mcpConfigs,
+    pm2Ecosystem: bundle.pm2Ecosystem,
+  });
+
   return {
     ...record,
     triggerConfig,
-    openclawConfig: {
-      agentDir: `agents/${bundle.manifest.slug}`,
-      mcpDir: `config/mcp/${bundle.manifest.slug}`,
-      triggerFile: `config/triggers/${bundle.manifest.slug}.json`,
-    },
+    openclawConfig,
+  };
+}
+
+/**
+ * Webhook secrets live in the system's vault as WEBHOOK_SECRET, never in the
+ * trigger config, its file or version snapshots. A secret still held by the
+ * current config moves there too, as rewriting the config drops it.
+ */
+async function storeWebhookSecret(
+  record: DeploymentRecord,
+  settings: TriggerSettings | undefined,
+  current: TriggerConfig | null
+): Promise<void> {
+  if (settings?.type !== 'webhook') return;
+  const secret = settings.secret || (current?.type === 'webhook' ? current.secret : undefined);
+  if (secret) {
+    await setSecret(record, 'WEBHOOK_SECRET', secret);
+  }
+}
+
+function openclawConfigFor(systemSlug: string): Record<string, string> {
+  return {
+    agentDir: `agents/${systemSlug}`,
+    mcpDir: `config/mcp/${systemSlug}`,
+    triggerFile: `config/triggers/${systemSlug}.json`,
   };
 }
 
+// -----------------------------------------------------------------------------
+// Step 5: Start PM2 processes
+// -----------------------------------------------------------------------------
+
+/**
+ * Start one process per app. Each name is pushed onto `started` before its
+ * start call so a half-started process is still cleaned up on failure.
+ * Vault secrets override the bundle's `${VAR}` placeholders in each app env.
+ */
+async function startAgentProcesses(
+  apps: PM2AppConfig[],
+  systemSlug: string,
+  openclawRoot: string,
+  started: string[],
+  secrets: Record<string, string>
+): Promise<void> {
+  if (apps.length === 0) {
+    throw new DeploymentError(
+      'PM2_NO_CONFIG',
+      'No PM2 app config found in bundle',
+      'pm2-start'
+    );
+  }
+
+  for (const app of apps) {
+    const pm2ProcessName = systemProcessName(systemSlug, agentSlugForApp(app, apps.length));
+    if (started.includes(pm2ProcessName)) {
+      throw new DeploymentError(
+        'PM2_DUPLICATE_APP',
+        `Duplicate PM2 process name in bundle: ${pm2ProcessName}`,
+        'pm2-start'
+      );
+    }
+    started.push(pm2ProcessName);
+
+    // Override cwd to point to the OpenClaw system directory
+    await startProcess({
+      ...app,
+      name: pm2ProcessName,
+      cwd: path.join(openclawRoot, 'agents', systemSlug),
+      env: { ...app.env, ...secrets },
+    });
+  }
+}
+
+/** PM2 process name of each app, in order, as startAgentProcesses names them */
+export function agentProcessNames(apps: PM2AppConfig[], systemSlug: string): string[] {
+  return apps.map((app) => systemProcessName(systemSlug, agentSlugForApp(app, apps.length)));
+}
+
+/**
+ * Derive the agent part of the process name from a generated app name
+ * (`<system>--<agent>`). Single-app bundles without an agent suffix keep the
+ * legacy `autopilate-<slug>` name.
+ */
+function agentSlugForApp(app: PM2AppConfig, appCount: number): string | null {
+  const agentSlug = agentSlugFromAppName(app.name);
+  if (agentSlug) return agentSlug;
+  return appCount === 1 ? null : app.name;
+}
+
+// -----------------------------------------------------------------------------
+// Redeploy / version rollback: replace a running system with a snapshot
+// -----------------------------------------------------------------------------
+
+async function activateSnapshot(
+  existing: DeploymentRecord,
+  snapshot: VersionSnapshot,
+  openclawRoot: string,
+  requiredSecrets?: Record<string, string>
+): Promise<DeploymentRecord> {
+  const manifest = snapshot.manifestJson;
+  const systemSlug = manifest.slug;
+
+  // Stop the old agents first; the new bundle may have a different agent set
+  const running = await listSystemProcesses(systemSlug);
+  if (running.length > 0) {
+    await deleteSystemProcesses(systemSlug);
+  }
+
+  const systemDir = path.join(openclawRoot, 'agents', systemSlug);
+  const mcpDir = path.join(openclawRoot, 'config', 'mcp', systemSlug);
+  await fs.rm(systemDir, { recursive: true, force: true });
+  await fs.rm(mcpDir, { recursive: true, force: true });
+
+  await writeAgentConfigs(snapshot.agentConfigs, systemSlug, openclawRoot);
+  await writeMcpConfigs(snapshot.mcpConfigs, systemSlug, openclawRoot);
+  await restoreTriggerConfig(snapshot.triggerConfig as TriggerConfig, systemSlug, openclawRoot);
+
+  const started: string[] = [];
+  try {
+    await startAgentProcesses(
+      snapshot.pm2Ecosystem.apps,
+      systemSlug,
+      openclawRoot,
+      started,
+      existing.secretsDecrypted ?? {}
+    );
+  } catch (err) {
+    await Promise.allSettled(started.map((name) => deleteProcess(name)));
+    throw err;
+  }
+
+  return updateSystemSnapshot(existing.id, {
+    manifest,
+    canvasJson: snapshot.canvasJson,
+    triggerConfig: snapshot.triggerConfig,
+    openclawConfig: snapshot.openclawConfig,
+    requiredSecrets,
+  });
+}
+
+/**
+ * Best-effort return to the version that was live before a failed redeploy or
+ * rollback. Systems without a recorded snapshot are marked errored instead.
+ */
+async function restorePrevious(
+  existing: DeploymentRecord,
+  previous: VersionSnapshot | null,
+  openclawRoot: string
+): Promise<void> {
+  if (previous) {
+    try {
+      await activateSnapshot(existing, previous, openclawRoot);
+      return;
+    } catch (err) {
+      console.error(
+        `[deploy-bridge] Failed to restore ${existing.systemSlug}@${previous.version}:`,
+        err instanceof Error ? err.message : String(err)
+      );
+    }
+  }
+
+  try {
+    await updateSystemStatus(existing.systemSlug, 'errored');
+  } catch (err) {
+    console.error(
+      `[deploy-bridge] Failed to mark ${existing.systemSlug} errored:`,
+      err instanceof Error ? err.message : String(err)
+    );
+  }
+}
+
+function wrapError(err: unknown, message: string, step: string): DeploymentError {
+  if (err instanceof DeploymentError) return err;
+  return new DeploymentError(
+    'FAILED',
+    `${message}: ${err instanceof Error ? err.message : String(err)}`,
+    step,
+    err
+  );
+}
+
 // -----------------------------------------------------------------------------
 // Rollback: Clean up partial artifacts on failure
 // -----------------------------------------------------------------------------
@@ -246,7 +630,11 @@ async function rollback(
   const errors: string[] = [];
 
   const cleanupSteps: Array<{ guard: unknown; label: string; fn: () => Promise<void> }> = [
-    { guard: artifacts.pm2ProcessName, label: 'PM2', fn: () => deleteProcess(artifacts.pm2ProcessName!) },
+    ...artifacts.pm2ProcessNames.map((name) => ({
+      guard: name,
+      label: `PM2 ${name}`,
+      fn: () => deleteProcess(name),
+    })),
     { guard: artifacts.deploymentRecord, label: 'Registry', fn: () => updateSystemStatus(systemSlug, 'errored') },
     { guard: artifacts.triggerConfig, label: 'Trigger', fn: () => removeTriggerConfig(systemSlug, openclawRoot) },
     { guard: artifacts.mcpConfigDir, label: 'MCP config', fn: () => fs.rm(artifacts.mcpConfigDir!, { recursive: true, force: true }) },
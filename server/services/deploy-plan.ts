@@ -0,0 +1,268 @@
+// =============================================================================
+// Deploy Plan
+// Dry run of deploySystem: checks a bundle for problems that would fail or
+// cripple the deploy, and lists every file it would write under
+// OPENCLAW_ROOT diffed against what is on disk. Nothing is written,
+// registered or started.
+// =============================================================================
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { constants as fsConstants } from 'fs';
+import { pool } from '../db';
+import { SystemBundle, OpenClawFile } from '../types/registry';
+import { renderAgentConfigs, renderMcpConfigs, agentProcessNames } from './deploy-bridge';
+import { resolveTriggerConfig, triggerConfigFile, TriggerConfig } from './trigger-factory';
+import { maskSecret } from './secrets-vault';
+import { diffLines } from '../lib/line-diff';
+import { TriggerConfigError } from '../lib/errors';
+
+// -----------------------------------------------------------------------------
+// Types
+// -----------------------------------------------------------------------------
+
+export type PlanIssueSeverity = 'error' | 'warning';
+
+export type PlanIssueCode =
+  | 'SLUG_TAKEN'
+  | 'SLUG_ARCHIVED'
+  | 'TRIGGER_INVALID'
+  | 'PM2_NO_CONFIG'
+  | 'PM2_DUPLICATE_APP'
+  | 'MISSING_SECRET'
+  | 'MCP_COMMAND_NOT_FOUND'
+  | 'MISSING_SYSTEM_PROMPT';
+
+export interface PlanIssue {
+  /** Errors make the deploy fail; warnings let it go through */
+  severity: PlanIssueSeverity;
+  code: PlanIssueCode;
+  message: string;
+  /** The slug, secret, MCP server, agent or process the issue is about */
+  subject: string;
+}
+
+export type PlannedFileAction = 'create' | 'update' | 'unchanged';
+
+export interface PlannedFile {
+  /** Relative to OPENCLAW_ROOT */
+  path: string;
+  action: PlannedFileAction;
+  added: number;
+  removed: number;
+  /** Unified diff against the file on disk; '' when unchanged */
+  diff: string;
+}
+
+export interface DeployPlan {
+  slug: string;
+  /** False when any issue is an error */
+  deployable: boolean;
+  issues: PlanIssue[];
+  files: PlannedFile[];
+  /** PM2 processes the deploy would start */
+  processes: string[];
+  /** Trigger config that would be written, webhook secret masked; null when invalid */
+  trigger: TriggerConfig | null;
+}
+
+// -----------------------------------------------------------------------------
+// Internal: checks
+// -----------------------------------------------------------------------------
+
+async function checkSlug(slug: string): Promise<PlanIssue[]> {
+  const { rows } = await pool.query<{ status: string }>(
+    `SELECT status FROM deployments WHERE system_slug = $1`,
+    [slug]
+  );
+  if (rows.length === 0) return [];
+
+  // Archived rows keep their slug; only live systems can take a new version
+  return [rows[0].status === 'archived'
+    ? {
+        severity: 'error',
+        code: 'SLUG_ARCHIVED',
+        message: `An archived system still holds the slug "${slug}"; choose another slug`,
+        subject: slug,
+      }
+    : {
+        severity: 'error',
+        code: 'SLUG_TAKEN',
+        message: `System "${slug}" is already deployed; deploy the bundle as a new version instead`,
+        subject: slug,
+      }];
+}
+
+/** New systems start with an empty vault, so every .env.example key is unset */
+function checkSecrets(bundle: SystemBundle): PlanIssue[] {
+  const vaultEnabled = !!process.env.ENCRYPTION_KEY;
+  return Object.keys(bundle.envExample).sort().map((name) => ({
+    severity: 'warning',
+    code: 'MISSING_SECRET',
+    message: vaultEnabled
+      ? `${name} has no value; agents start without it until it is set under the system's secrets`
+      : `${name} has no value, and the server has no ENCRYPTION_KEY to store one`,
+    subject: name,
+  }));
+}
+
+/**
+ * Whether `command` resolves to an executable: names are searched on PATH,
+ * paths are taken relative to OPENCLAW_ROOT.
+ */
+async function commandExists(command: string, openclawRoot: string): Promise<boolean> {
+  if (!command.trim()) return false;
+  const candidates = command.includes('/') || command.includes(path.sep)
+    ? [path.resolve(openclawRoot, command)]
+    : (process.env.PATH ?? '').split(path.delimiter).filter(Boolean).map((dir) => path.join(dir, command));
+
+  for (const candidate of candidates) {
+    try {
+      await fs.access(candidate, fsConstants.X_OK);
+      return true;
+    } catch {
+      // try the next PATH entry
+    }
+  }
+  return false;
+}
+
+async function checkMcpCommands(bundle: SystemBundle, openclawRoot: string): Promise<PlanIssue[]> {
+  const found = new Map<string, boolean>();
+  const issues: PlanIssue[] = [];
+
+  for (const config of bundle.mcpConfigs) {
+    if (!found.has(config.command)) {
+      found.set(config.command, await commandExists(config.command, openclawRoot));
+    }
+    if (!found.get(config.command)) {
+      issues.push({
+        severity: 'warning',
+        code: 'MCP_COMMAND_NOT_FOUND',
+        message: `MCP server "${config.name}" runs "${config.command}", which was not found on this server`,
+        subject: config.name,
+      });
+    }
+  }
+  return issues;
+}
+
+function checkSystemPrompts(bundle: SystemBundle): PlanIssue[] {
+  return Object.entries(bundle.agentConfigs)
+    .filter(([, config]) => !config.systemPrompt?.trim())
+    .map(([agentSlug, config]) => ({
+      severity: 'warning',
+      code: 'MISSING_SYSTEM_PROMPT',
+      message: `Agent "${config.name}" has no system prompt`,
+      subject: agentSlug,
+    }));
+}
+
+function checkProcesses(processes: string[]): PlanIssue[] {
+  if (processes.length === 0) {
+    return [{ severity: 'error', code: 'PM2_NO_CONFIG', message: 'No PM2 app config found in bundle', subject: '' }];
+  }
+  return processes
+    .filter((name, index) => processes.indexOf(name) !== index)
+    .map((name) => ({
+      severity: 'error',
+      code: 'PM2_DUPLICATE_APP',
+      message: `Duplicate PM2 process name in bundle: ${name}`,
+      subject: name,
+    }));
+}
+
+// -----------------------------------------------------------------------------
+// Internal: files
+// -----------------------------------------------------------------------------
+
+/** Trigger files may hold a webhook secret; it never leaves the server in a plan */
+function maskTriggerSecret<T>(config: T): T {
+  const trigger = config as { secret?: unknown };
+  return typeof trigger.secret === 'string' ? { ...config, secret: maskSecret(trigger.secret) } : config;
+}
+
+function maskTriggerFile(content: string): string {
+  try {
+    return JSON.stringify(maskTriggerSecret(JSON.parse(content)), null, 2);
+  } catch {
+    return content;
+  }
+}
+
+async function readExisting(filePath: string): Promise<string | null> {
+  try {
+    return await fs.readFile(filePath, 'utf-8');
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw err;
+  }
+}
+
+async function planFile(
+  file: OpenClawFile,
+  openclawRoot: string,
+  mask: (content: string) => string = (content) => content
+): Promise<PlannedFile> {
+  const existing = await readExisting(file.path);
+  const diff = diffLines(existing !== null ? mask(existing) : '', mask(file.content));
+  const action: PlannedFileAction =
+    existing === null ? 'create' : existing === file.content ? 'unchanged' : 'update';
+
+  return {
+    path: path.relative(openclawRoot, file.path),
+    action,
+    added: diff.added,
+    removed: diff.removed,
+    diff: diff.unified,
+  };
+}
+
+// -----------------------------------------------------------------------------
+// Public API
+// -----------------------------------------------------------------------------
+
+/**
+ * Validate a bundle for POST /api/deploy and list what deploying it would
+ * write and start, without touching the filesystem, registry or PM2.
+ */
+export async function planDeploy(bundle: SystemBundle, openclawRoot: string): Promise<DeployPlan> {
+  const { manifest } = bundle;
+  const issues: PlanIssue[] = [...(await checkSlug(manifest.slug))];
+
+  let trigger: TriggerConfig | null = null;
+  try {
+    trigger = resolveTriggerConfig(manifest.triggerPattern, manifest, bundle.trigger);
+  } catch (err) {
+    if (!(err instanceof TriggerConfigError)) throw err;
+    issues.push({ severity: 'error', code: 'TRIGGER_INVALID', message: err.message, subject: manifest.triggerPattern });
+  }
+
+  const processes = agentProcessNames(bundle.pm2Ecosystem.apps, manifest.slug);
+  issues.push(
+    ...checkProcesses(processes),
+    ...checkSecrets(bundle),
+    ...(await checkMcpCommands(bundle, openclawRoot)),
+    ...checkSystemPrompts(bundle)
+  );
+
+  const files: PlannedFile[] = [];
+  for (const file of [
+    ...renderAgentConfigs(bundle.agentConfigs, manifest.slug, openclawRoot),
+    ...renderMcpConfigs(bundle.mcpConfigs, manifest.slug, openclawRoot),
+  ]) {
+    files.push(await planFile(file, openclawRoot));
+  }
+  if (trigger) {
+    files.push(await planFile(triggerConfigFile(trigger, manifest.slug, openclawRoot), openclawRoot, maskTriggerFile));
+  }
+
+  return {
+    slug: manifest.slug,
+    deployable: !issues.some((issue) => issue.severity === 'error'),
+    issues,
+    files,
+    processes: [...new Set(processes)],
+    trigger: trigger && maskTriggerSecret(trigger),
+  };
+}
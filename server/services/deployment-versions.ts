@@ -0,0 +1,164 @@
+// =============================================================================
+// Deployment Version Service
+// Stores a snapshot of every bundle deployed under a slug so a system can be
+// redeployed with a bumped version or rolled back to an earlier one
+// =============================================================================
+
+import { pool } from '../db';
+import type {
+  AgentConfigSlim,
+  DeploymentVersionRecord,
+  DeploymentVersionSummary,
+  MCPServerConfigSlim,
+  PM2EcosystemConfig,
+  SystemManifest,
+} from '../types/registry';
+
+// -----------------------------------------------------------------------------
+// Types
+// -----------------------------------------------------------------------------
+
+export type VersionSnapshot = Omit<DeploymentVersionRecord, 'id' | 'deploymentId' | 'createdAt'>;
+
+interface DeploymentVersionRow {
+  id: string;
+  deployment_id: string;
+  version: string;
+  manifest_json: SystemManifest;
+  canvas_json: unknown;
+  openclaw_config: unknown;
+  trigger_config: unknown;
+  agent_configs: Record<string, AgentConfigSlim>;
+  mcp_configs: MCPServerConfigSlim[];
+  pm2_ecosystem: PM2EcosystemConfig;
+  created_at: string;
+}
+
+function rowToRecord(row: DeploymentVersionRow): DeploymentVersionRecord {
+  return {
+    id: row.id,
+    deploymentId: row.deployment_id,
+    version: row.version,
+    manifestJson: row.manifest_json,
+    canvasJson: row.canvas_json,
+    openclawConfig: row.openclaw_config,
+    triggerConfig: row.trigger_config,
+    agentConfigs: row.agent_configs,
+    mcpConfigs: row.mcp_configs,
+    pm2Ecosystem: row.pm2_ecosystem,
+    createdAt: row.created_at,
+  };
+}
+
+// -----------------------------------------------------------------------------
+// Version numbering
+// -----------------------------------------------------------------------------
+
+function parseSemver(version: string): [number, number, number] | null {
+  const match = /^(\d+)\.(\d+)\.(\d+)$/.exec(version.trim());
+  if (!match) return null;
+  return [Number(match[1]), Number(match[2]), Number(match[3])];
+}
+
+function compareSemver(a: [number, number, number], b: [number, number, number]): number {
+  for (let i = 0; i < 3; i++) {
+    if (a[i] !== b[i]) return a[i] - b[i];
+  }
+  return 0;
+}
+
+/**
+ * Pick the version for a redeploy: a patch bump over the latest recorded
+ * version, unless the bundle already asks for something higher.
+ */
+export function nextVersion(latest: string, requested?: string): string {
+  const base = parseSemver(latest) ?? [1, 0, 0];
+  const bumped: [number, number, number] = [base[0], base[1], base[2] + 1];
+
+  const wanted = requested ? parseSemver(requested) : null;
+  const chosen = wanted && compareSemver(wanted, bumped) > 0 ? wanted : bumped;
+  return chosen.join('.');
+}
+
+// -----------------------------------------------------------------------------
+// Public API
+// -----------------------------------------------------------------------------
+
+/**
+ * Record a snapshot for a deployment. Versions are immutable once written.
+ */
+export async function recordVersion(
+  deploymentId: string,
+  snapshot: VersionSnapshot
+): Promise<void> {
+  await pool.query(
+    `INSERT INTO deployment_versions (
+       deployment_id, version, manifest_json, canvas_json, openclaw_config,
+       trigger_config, agent_configs, mcp_configs, pm2_ecosystem
+     ) VALUES ($1, $2, $3::jsonb, $4::jsonb, $5::jsonb, $6::jsonb, $7::jsonb, $8::jsonb, $9::jsonb)`,
+    [
+      deploymentId,
+      snapshot.version,
+      JSON.stringify(snapshot.manifestJson),
+      JSON.stringify(snapshot.canvasJson ?? null),
+      JSON.stringify(snapshot.openclawConfig ?? null),
+      JSON.stringify(snapshot.triggerConfig ?? null),
+      JSON.stringify(snapshot.agentConfigs),
+      JSON.stringify(snapshot.mcpConfigs),
+      JSON.stringify(snapshot.pm2Ecosystem),
+    ]
+  );
+}
+
+/**
+ * List recorded versions for a deployment, newest first.
+ */
+export async function listVersions(deploymentId: string): Promise<DeploymentVersionSummary[]> {
+  const { rows } = await pool.query<Pick<DeploymentVersionRow, 'id' | 'deployment_id' | 'version' | 'manifest_json' | 'created_at'>>(
+    `SELECT id, deployment_id, version, manifest_json, created_at
+     FROM deployment_versions
+     WHERE deployment_id = $1
+     ORDER BY created_at DESC`,
+    [deploymentId]
+  );
+
+  return rows.map((row) => ({
+    id: row.id,
+    deploymentId: row.deployment_id,
+    version: row.version,
+    manifestJson: row.manifest_json,
+    createdAt: row.created_at,
+  }));
+}
+
+/**
+ * Fetch the full snapshot for one version, or null if it was never recorded.
+ */
+export async function getVersion(
+  deploymentId: string,
+  version: string
+): Promise<DeploymentVersionRecord | null> {
+  const { rows } = await pool.query<DeploymentVersionRow>(
+    `SELECT * FROM deployment_versions WHERE deployment_id = $1 AND version = $2`,
+    [deploymentId, version]
+  );
+
+  if (rows.length === 0) return null;
+  return rowToRecord(rows[0]);
+}
+
+/**
+ * The most recently recorded version string, or null for systems deployed
+ * before versioning existed.
+ */
+export async function latestVersion(deploymentId: string): Promise<string | null> {
+  const { rows } = await pool.query<{ version: string }>(
+    `SELECT version FROM deployment_versions
+     WHERE deployment_id = $1
+     ORDER BY created_at DESC
+     LIMIT 1`,
+    [deploymentId]
+  );
+
+  return rows[0]?.version ?? null;
+}
@@ -0,0 +1,78 @@
+// =============================================================================
+// Execution Budgets
+// Token and USD meters for canvas runs: one per agent (GuardrailsConfig
+// tokenLimit / costCap) and one for the whole run (WorkflowConfig budget).
+// Usage is fed in live while responses stream, so a limit trips mid-turn
+// rather than after the overspend.
+// =============================================================================
+
+import { BudgetExceededError } from '../lib/errors';
+
+export interface BudgetLimits {
+  tokenLimit?: number;
+  costCap?: number;
+}
+
+export interface BudgetMeter {
+  readonly scope: 'agent' | 'run';
+  readonly subject: string;
+  readonly limits: BudgetLimits;
+  readonly used: { tokens: number; cost: number };
+  add: (tokens: number, cost: number) => void;
+  /** The first limit the meter is over, if any */
+  exceeded: () => BudgetExceededError | null;
+}
+
+function positive(value: unknown): number | undefined {
+  const n = typeof value === 'string' ? parseFloat(value) : value;
+  return typeof n === 'number' && Number.isFinite(n) && n > 0 ? n : undefined;
+}
+
+/** Valid limits from a GuardrailsConfig / budget object; blanks and zeros mean no limit */
+export function parseBudgetLimits(raw: unknown): BudgetLimits {
+  const obj = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+  const limits: BudgetLimits = {};
+  const tokenLimit = positive(obj.tokenLimit);
+  const costCap = positive(obj.costCap);
+  if (tokenLimit !== undefined) limits.tokenLimit = tokenLimit;
+  if (costCap !== undefined) limits.costCap = costCap;
+  return limits;
+}
+
+export function hasBudget(limits: BudgetLimits): boolean {
+  return limits.tokenLimit !== undefined || limits.costCap !== undefined;
+}
+
+export function createBudgetMeter(
+  scope: BudgetMeter['scope'],
+  subject: string,
+  limits: BudgetLimits,
+  initial: { tokens: number; cost: number } = { tokens: 0, cost: 0 }
+): BudgetMeter {
+  const used = { ...initial };
+
+  return {
+    scope,
+    subject,
+    limits,
+    used,
+    add(tokens, cost) {
+      used.tokens += tokens;
+      used.cost += cost;
+    },
+    exceeded() {
+      if (limits.tokenLimit !== undefined && used.tokens > limits.tokenLimit) {
+        return new BudgetExceededError(scope, subject, 'tokens', limits.tokenLimit, used.tokens);
+      }
+      if (limits.costCap !== undefined && used.cost > limits.costCap) {
+        return new BudgetExceededError(scope, subject, 'cost', limits.costCap, used.cost);
+      }
+      return null;
+    },
+  };
+}
+
+/** Rough output-token count for text still streaming (usage arrives at the end) */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
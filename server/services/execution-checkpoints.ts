@@ -0,0 +1,128 @@
+// =============================================================================
+// Execution Checkpoints
+// Phase-level snapshots of canvas workflow runs, one JSON file per run, so a
+// run can be paused between phases and resumed later — or picked up from its
+// last completed phase after the server restarts mid-run.
+// =============================================================================
+
+import fs from 'fs';
+import path from 'path';
+import type { ConsensusReport, ResumableRunPayload } from '../../shared/socket-events';
+import type { BudgetLimits } from './execution-budget';
+import type { AggregationMethod } from './consensus';
+import type { AgentResult } from './orchestrator-bridge';
+
+const DEFAULT_CHECKPOINTS_DIR = path.resolve(__dirname, '../../data/checkpoints');
+
+export interface CheckpointOutcome {
+  status: AgentResult['status'] | 'skipped';
+  output: string;
+  events: string[];
+}
+
+export interface CheckpointAggregation {
+  method: AggregationMethod;
+  status: 'success' | 'error';
+  output: string;
+}
+
+export interface ExecutionCheckpoint {
+  runId: string;
+  /** Session currently driving the run (changes when another session resumes it) */
+  sessionId: string;
+  workflow: string;
+  brief: string;
+  canvasNodes: unknown[];
+  canvasEdges: unknown[];
+  /** `running` checkpoints with no live run were interrupted by a restart */
+  status: 'running' | 'paused';
+  startedAt: string;
+  updatedAt: string;
+  totalPhases: number;
+  completedPhases: number;
+  phases: Array<{ name: string; results: AgentResult[]; durationMs: number }>;
+  context: Record<string, unknown>;
+  outcomes: Record<string, CheckpointOutcome>;
+  overallStatus: 'success' | 'partial' | 'failed';
+  /** Run budget, kept so a resumed run stays within the same limits */
+  budget?: BudgetLimits;
+  /** Coordinator results already aggregated, by coordinator ID */
+  aggregations?: Record<string, CheckpointAggregation>;
+  consensus?: ConsensusReport[];
+}
+
+function checkpointsDir(): string {
+  return process.env.CHECKPOINTS_DIR || DEFAULT_CHECKPOINTS_DIR;
+}
+
+function checkpointPath(runId: string): string {
+  // Run IDs are generated server-side, but never let one escape the directory
+  return path.join(checkpointsDir(), `${path.basename(runId)}.json`);
+}
+
+/** Write a checkpoint atomically (tmp file + rename) */
+export function saveCheckpoint(checkpoint: ExecutionCheckpoint): void {
+  const filePath = checkpointPath(checkpoint.runId);
+  try {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    const tmpPath = filePath + '.tmp';
+    fs.writeFileSync(
+      tmpPath,
+      JSON.stringify({ ...checkpoint, updatedAt: new Date().toISOString() }, null, 2),
+      'utf-8'
+    );
+    fs.renameSync(tmpPath, filePath);
+  } catch (err) {
+    console.error(`[Checkpoints] Failed to save checkpoint ${checkpoint.runId}:`, err);
+  }
+}
+
+export function loadCheckpoint(runId: string): ExecutionCheckpoint | null {
+  try {
+    return JSON.parse(fs.readFileSync(checkpointPath(runId), 'utf-8'));
+  } catch {
+    return null;
+  }
+}
+
+export function deleteCheckpoint(runId: string): boolean {
+  try {
+    fs.unlinkSync(checkpointPath(runId));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Every readable checkpoint on disk, most recently updated first */
+export function listCheckpoints(): ExecutionCheckpoint[] {
+  const dir = checkpointsDir();
+  if (!fs.existsSync(dir)) return [];
+
+  const checkpoints: ExecutionCheckpoint[] = [];
+  for (const file of fs.readdirSync(dir)) {
+    if (!file.endsWith('.json')) continue;
+    const checkpoint = loadCheckpoint(file.slice(0, -'.json'.length));
+    if (checkpoint) checkpoints.push(checkpoint);
+  }
+  return checkpoints.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+export function toResumableRun(checkpoint: ExecutionCheckpoint): ResumableRunPayload {
+  const totalCost = checkpoint.phases
+    .flatMap((p) => p.results)
+    .reduce((sum, r) => sum + r.cost, 0);
+
+  return {
+    runId: checkpoint.runId,
+    sessionId: checkpoint.sessionId,
+    workflow: checkpoint.workflow,
+    brief: checkpoint.brief,
+    status: checkpoint.status === 'paused' ? 'paused' : 'interrupted',
+    completedPhases: checkpoint.completedPhases,
+    totalPhases: checkpoint.totalPhases,
+    totalCost,
+    startedAt: checkpoint.startedAt,
+    updatedAt: checkpoint.updatedAt,
+  };
+}
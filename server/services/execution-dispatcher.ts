@@ -0,0 +1,457 @@
+// =============================================================================
+// Execution Dispatcher
+// Starts runs of deployed systems through a per-system run queue: validates
+// trigger inputs against the manifest, records the execution_logs row as
+// 'queued' and sends triggers to the OpenClaw gateway (or, standalone, to the
+// local runner) while the system is under its concurrency limit. The queue
+// lives in execution_logs itself — queued rows are started by priority, then age,
+// whenever a run finishes or the periodic sweep runs. The sweep also fails
+// runs that stay 'running' past RUN_QUEUE_STALE_MS, so a run the runtime lost
+// cannot hold a concurrency slot forever.
+// =============================================================================
+
+import type { PoolClient } from 'pg';
+import { pool } from '../db';
+import { ExecutionError } from '../lib/errors';
+import { onExecutionCompleted, onExecutionFailed, sendTrigger } from './openclaw-client';
+import { runsLocally, startLocalRun } from './local-runner';
+import type {
+  DeploymentRecord,
+  ExecutionStatus,
+  ExecutionTriggeredBy,
+  SystemManifest,
+} from '../types/registry';
+
+// -----------------------------------------------------------------------------
+// Types
+// -----------------------------------------------------------------------------
+
+export interface DispatchRequest {
+  deployment: DeploymentRecord;
+  triggeredBy: ExecutionTriggeredBy;
+  inputs: Record<string, unknown>;
+  /** Runs with a key already seen within DEDUPE_WINDOW return the earlier run */
+  dedupeKey?: string;
+  /** Overrides the trigger's default from RUN_PRIORITY */
+  priority?: number;
+}
+
+export interface DispatchResult {
+  executionId: string;
+  /** 'running' when started right away; earlier statuses for deduplicated runs */
+  status: ExecutionStatus;
+  deduplicated: boolean;
+}
+
+export interface QueuedRun {
+  executionId: string;
+  triggeredBy: ExecutionTriggeredBy;
+  priority: number;
+  queuedAt: string;
+}
+
+export interface RunQueue {
+  maxConcurrency: number;
+  running: number;
+  /** In start order */
+  queued: QueuedRun[];
+}
+
+interface QueuedRow {
+  id: string;
+  triggered_by: ExecutionTriggeredBy;
+  trigger_input: Record<string, unknown> | null;
+  priority: number;
+  queued_at: string;
+  started_at: string;
+}
+
+// -----------------------------------------------------------------------------
+// Constants
+// -----------------------------------------------------------------------------
+
+/** Default start order: operator reruns, then runs a user is waiting on */
+export const RUN_PRIORITY: Record<ExecutionTriggeredBy, number> = {
+  'qa-remediation': 20,
+  operator: 20,
+  manual: 10,
+  messaging: 10,
+  webhook: 0,
+  cron: 0,
+};
+
+export const MAX_CONCURRENCY_LIMIT = 50;
+
+const DEDUPE_WINDOW = '24 hours';
+
+const DEFAULT_SWEEP_INTERVAL_MS = 15_000;
+
+const DEFAULT_STALE_RUN_MS = 6 * 60 * 60 * 1000;
+
+const STALE_RUN_ERROR = 'Run timed out without a result from the runtime';
+
+let sweepTimer: ReturnType<typeof setInterval> | null = null;
+let stopListeners: Array<() => void> = [];
+
+/** Concurrency for systems without their own max_concurrency */
+function defaultMaxConcurrency(): number {
+  const value = parseInt(process.env.RUN_QUEUE_MAX_CONCURRENCY ?? '', 10);
+  return value > 0 ? value : 1;
+}
+
+/** How long a run may stay 'running' before the sweep fails it */
+function staleRunMs(): number {
+  const value = parseInt(process.env.RUN_QUEUE_STALE_MS ?? '', 10);
+  return value > 0 ? value : DEFAULT_STALE_RUN_MS;
+}
+
+// -----------------------------------------------------------------------------
+// Internal: queue
+// -----------------------------------------------------------------------------
+
+/** Run `work` in a transaction holding the deployment row lock */
+async function withDeploymentLock<T>(
+  deploymentId: string,
+  work: (client: PoolClient, deployment: { status: string; maxConcurrency: number }) => Promise<T>
+): Promise<T | null> {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    const { rows } = await client.query<{ status: string; max_concurrency: number | null }>(
+      `SELECT status, max_concurrency FROM deployments WHERE id = $1 FOR UPDATE`,
+      [deploymentId]
+    );
+    if (rows.length === 0) {
+      await client.query('COMMIT');
+      return null;
+    }
+
+    const result = await work(client, {
+      status: rows[0].status,
+      maxConcurrency: rows[0].max_concurrency ?? defaultMaxConcurrency(),
+    });
+    await client.query('COMMIT');
+    return result;
+  } catch (err) {
+    await client.query('ROLLBACK');
+    throw err;
+  } finally {
+    client.release();
+  }
+}
+
+async function deliverTrigger(slug: string, row: QueuedRow): Promise<boolean> {
+  const trigger = {
+    executionId: row.id,
+    slug,
+    triggeredBy: row.triggered_by,
+    inputs: row.trigger_input ?? {},
+    triggeredAt: new Date(row.started_at).toISOString(),
+  };
+
+  // Standalone: no gateway to send it to, so the run executes in-process
+  if (runsLocally()) {
+    startLocalRun(trigger);
+    console.log(`[execution-dispatcher] Started ${slug} (${row.triggered_by}) locally: ${row.id}`);
+    return true;
+  }
+
+  try {
+    await sendTrigger(trigger);
+    console.log(`[execution-dispatcher] Dispatched ${slug} (${row.triggered_by}): ${row.id}`);
+    return true;
+  } catch (err) {
+    console.error(`[execution-dispatcher] Trigger delivery for ${row.id} failed:`, err);
+    // Never leave an undeliverable run in 'running'
+    await pool.query(
+      `UPDATE execution_logs
+       SET status = 'failed', error_message = $1, completed_at = now()
+       WHERE id = $2`,
+      ['Trigger delivery failed', row.id]
+    );
+    return false;
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Public API
+// -----------------------------------------------------------------------------
+
+/**
+ * Map a trigger payload onto the manifest's required inputs.
+ * Keys not declared in `requiredInputs` are dropped; missing required inputs
+ * raise an ExecutionError (422) listing every missing name.
+ */
+export function mapPayloadToInputs(
+  manifest: SystemManifest,
+  payload: unknown
+): Record<string, unknown> {
+  if (payload === undefined || payload === null) {
+    payload = {};
+  }
+  if (typeof payload !== 'object' || Array.isArray(payload)) {
+    throw new ExecutionError('INVALID_PAYLOAD', 'Trigger payload must be a JSON object', 400);
+  }
+
+  const source = payload as Record<string, unknown>;
+  const inputs: Record<string, unknown> = {};
+  const missing: string[] = [];
+
+  for (const input of manifest.requiredInputs) {
+    const value = source[input.name];
+    if (value === undefined || value === null || value === '') {
+      if (input.required) missing.push(input.name);
+      continue;
+    }
+    inputs[input.name] = value;
+  }
+
+  if (missing.length > 0) {
+    throw new ExecutionError(
+      'MISSING_INPUTS',
+      `Missing required inputs: ${missing.join(', ')}`,
+      422
+    );
+  }
+
+  return inputs;
+}
+
+/**
+ * Start every queued run of a deployment that fits under its concurrency
+ * limit, highest priority first. Returns the ids of the runs whose trigger
+ * was delivered. Stopped systems keep their queue until redeployed.
+ */
+export async function drainRunQueue(deploymentId: string): Promise<string[]> {
+  const claimed = await withDeploymentLock(deploymentId, async (client, deployment) => {
+    if (deployment.status !== 'deployed') return null;
+
+    const { rows: countRows } = await client.query<{ count: string }>(
+      `SELECT COUNT(*)::text AS count FROM execution_logs
+       WHERE deployment_id = $1 AND status = 'running'`,
+      [deploymentId]
+    );
+    const slots = deployment.maxConcurrency - parseInt(countRows[0].count, 10);
+    if (slots <= 0) return null;
+
+    const { rows } = await client.query<QueuedRow & { system_slug: string }>(
+      `UPDATE execution_logs el SET status = 'running', started_at = now()
+       FROM deployments d
+       WHERE d.id = el.deployment_id AND el.id IN (
+         SELECT id FROM execution_logs
+         WHERE deployment_id = $1 AND status = 'queued'
+         ORDER BY priority DESC, queued_at
+         LIMIT $2
+       )
+       RETURNING el.id, el.triggered_by, el.trigger_input, el.priority,
+                 el.queued_at, el.started_at, d.system_slug`,
+      [deploymentId, slots]
+    );
+    return rows;
+  });
+  if (!claimed || claimed.length === 0) return [];
+
+  claimed.sort(
+    (a, b) => b.priority - a.priority || new Date(a.queued_at).getTime() - new Date(b.queued_at).getTime()
+  );
+  const started: string[] = [];
+  for (const row of claimed) {
+    if (await deliverTrigger(row.system_slug, row)) started.push(row.id);
+  }
+  return started;
+}
+
+/**
+ * Queue a run of a deployed system and start it if a slot is free. A run
+ * whose trigger cannot be delivered is marked failed and raises
+ * EXECUTION_DISPATCH_FAILED (502).
+ */
+export async function dispatchExecution(request: DispatchRequest): Promise<DispatchResult> {
+  const { deployment, triggeredBy, inputs, dedupeKey } = request;
+
+  if (deployment.status !== 'deployed') {
+    throw new ExecutionError(
+      'SYSTEM_NOT_RUNNING',
+      `System "${deployment.systemSlug}" is ${deployment.status}`,
+      409
+    );
+  }
+
+  const queued = await withDeploymentLock(deployment.id, async (client) => {
+    if (dedupeKey) {
+      const { rows } = await client.query<{ id: string; status: ExecutionStatus }>(
+        `SELECT id, status FROM execution_logs
+         WHERE deployment_id = $1 AND dedupe_key = $2 AND queued_at > now() - $3::interval
+         ORDER BY queued_at DESC LIMIT 1`,
+        [deployment.id, dedupeKey, DEDUPE_WINDOW]
+      );
+      if (rows.length > 0) {
+        return { executionId: rows[0].id, status: rows[0].status, deduplicated: true };
+      }
+    }
+
+    const { rows } = await client.query<{ id: string }>(
+      `INSERT INTO execution_logs (
+         deployment_id, triggered_by, trigger_input, status, priority, dedupe_key, queued_at
+       ) VALUES ($1, $2, $3::jsonb, 'queued', $4, $5, now())
+       RETURNING id`,
+      [
+        deployment.id,
+        triggeredBy,
+        JSON.stringify(inputs),
+        request.priority ?? RUN_PRIORITY[triggeredBy],
+        dedupeKey ?? null,
+      ]
+    );
+    return { executionId: rows[0].id, status: 'queued' as ExecutionStatus, deduplicated: false };
+  });
+  if (!queued) {
+    throw new ExecutionError('SYSTEM_NOT_FOUND', `System "${deployment.systemSlug}" not found`, 404);
+  }
+  if (queued.deduplicated) {
+    console.log(`[execution-dispatcher] ${deployment.systemSlug}: duplicate of ${queued.executionId} (${dedupeKey})`);
+    return queued;
+  }
+
+  const started = await drainRunQueue(deployment.id);
+  if (started.includes(queued.executionId)) {
+    return { ...queued, status: 'running' };
+  }
+
+  const { rows } = await pool.query<{ status: ExecutionStatus }>(
+    `SELECT status FROM execution_logs WHERE id = $1`,
+    [queued.executionId]
+  );
+  if (rows[0]?.status === 'failed') {
+    throw new ExecutionError(
+      'DISPATCH_FAILED',
+      `Failed to deliver trigger for ${deployment.systemSlug}`,
+      502
+    );
+  }
+  console.log(`[execution-dispatcher] ${deployment.systemSlug}: queued ${queued.executionId} (${triggeredBy})`);
+  return queued;
+}
+
+/** Queue state of a deployment, queued runs in the order they will start */
+export async function getRunQueue(deploymentId: string): Promise<RunQueue> {
+  const { rows } = await pool.query<{ max_concurrency: number | null; running: string }>(
+    `SELECT d.max_concurrency,
+            (SELECT COUNT(*) FROM execution_logs
+             WHERE deployment_id = d.id AND status = 'running')::text AS running
+     FROM deployments d WHERE d.id = $1`,
+    [deploymentId]
+  );
+  const { rows: queuedRows } = await pool.query<Omit<QueuedRow, 'trigger_input' | 'started_at'>>(
+    `SELECT id, triggered_by, priority, queued_at FROM execution_logs
+     WHERE deployment_id = $1 AND status = 'queued'
+     ORDER BY priority DESC, queued_at`,
+    [deploymentId]
+  );
+
+  return {
+    maxConcurrency: rows[0]?.max_concurrency ?? defaultMaxConcurrency(),
+    running: parseInt(rows[0]?.running ?? '0', 10),
+    queued: queuedRows.map((row) => ({
+      executionId: row.id,
+      triggeredBy: row.triggered_by,
+      priority: row.priority,
+      queuedAt: new Date(row.queued_at).toISOString(),
+    })),
+  };
+}
+
+/**
+ * Set a deployment's concurrency limit (null restores the default) and
+ * start whatever the new limit lets through.
+ */
+export async function setMaxConcurrency(deploymentId: string, maxConcurrency: number | null): Promise<RunQueue> {
+  await pool.query(`UPDATE deployments SET max_concurrency = $1, updated_at = now() WHERE id = $2`, [
+    maxConcurrency,
+    deploymentId,
+  ]);
+  await drainRunQueue(deploymentId);
+  return getRunQueue(deploymentId);
+}
+
+/**
+ * Cancel a queued run. Runs that already started cannot be cancelled
+ * (409 EXECUTION_NOT_QUEUED); unknown ids raise 404 EXECUTION_NOT_FOUND.
+ */
+export async function cancelQueuedExecution(deploymentId: string, executionId: string): Promise<void> {
+  const { rows } = await pool.query<{ status: ExecutionStatus; cancelled: boolean }>(
+    `WITH cancelled AS (
+       UPDATE execution_logs SET status = 'cancelled', completed_at = now()
+       WHERE id = $1 AND deployment_id = $2 AND status = 'queued'
+       RETURNING id
+     )
+     SELECT el.status, EXISTS (SELECT 1 FROM cancelled) AS cancelled
+     FROM execution_logs el WHERE el.id = $1 AND el.deployment_id = $2`,
+    [executionId, deploymentId]
+  );
+
+  if (rows.length === 0) {
+    throw new ExecutionError('NOT_FOUND', `Execution "${executionId}" not found`, 404);
+  }
+  if (!rows[0].cancelled) {
+    throw new ExecutionError('NOT_QUEUED', `Execution "${executionId}" is ${rows[0].status}`, 409);
+  }
+}
+
+/**
+ * Fail every run that has been 'running' longer than RUN_QUEUE_STALE_MS,
+ * freeing its slot. Returns the ids of the failed runs.
+ */
+export async function failStaleRuns(): Promise<string[]> {
+  const { rows } = await pool.query<{ id: string; system_slug: string }>(
+    `UPDATE execution_logs el
+     SET status = 'failed', error_message = $1, completed_at = now()
+     FROM deployments d
+     WHERE d.id = el.deployment_id AND el.status = 'running'
+       AND el.started_at < now() - $2 * interval '1 millisecond'
+     RETURNING el.id, d.system_slug`,
+    [STALE_RUN_ERROR, staleRunMs()]
+  );
+  for (const row of rows) {
+    console.warn(`[execution-dispatcher] ${row.system_slug}: ${row.id} timed out in 'running'`);
+  }
+  return rows.map((row) => row.id);
+}
+
+/** Fail stale runs, then drain every deployment that has queued runs */
+export async function sweepRunQueues(): Promise<void> {
+  await failStaleRuns();
+  const { rows } = await pool.query<{ deployment_id: string }>(
+    `SELECT DISTINCT deployment_id FROM execution_logs WHERE status = 'queued'`
+  );
+  for (const row of rows) {
+    await drainRunQueue(row.deployment_id);
+  }
+}
+
+/**
+ * Start queued runs as soon as running ones finish, plus a sweep every
+ * RUN_QUEUE_SWEEP_MS for runs that finish without an event or go stale.
+ */
+export function startRunQueue(): { stop: () => void } {
+  stopRunQueue();
+
+  const sweep = () => {
+    sweepRunQueues().catch((err) => {
+      console.error('[execution-dispatcher] Run queue sweep failed:', err);
+    });
+  };
+  stopListeners = [onExecutionCompleted(sweep), onExecutionFailed(sweep)];
+  const interval = parseInt(process.env.RUN_QUEUE_SWEEP_MS ?? '', 10) || DEFAULT_SWEEP_INTERVAL_MS;
+  sweepTimer = setInterval(sweep, interval);
+  sweep();
+
+  return { stop: stopRunQueue };
+}
+
+export function stopRunQueue(): void {
+  if (sweepTimer) clearInterval(sweepTimer);
+  sweepTimer = null;
+  for (const stop of stopListeners) stop();
+  stopListeners = [];
+}
@@ -0,0 +1,167 @@
+// =============================================================================
+// Execution Log Service
+// Read access to the execution_logs table for the systems history API
+// =============================================================================
+
+import { pool } from '../db';
+import type { ExecutionLogRecord, ExecutionStatus } from '../types/registry';
+
+// -----------------------------------------------------------------------------
+// Types
+// -----------------------------------------------------------------------------
+
+export interface ExecutionLogFilters {
+  status?: ExecutionStatus;
+  triggeredBy?: string;
+  from?: string;
+  to?: string;
+  limit: number;
+  offset: number;
+}
+
+export interface ExecutionLogPage {
+  logs: ExecutionLogRecord[];
+  total: number;
+  limit: number;
+  offset: number;
+}
+
+interface ExecutionLogRow {
+  id: string;
+  deployment_id: string;
+  system_slug: string;
+  triggered_by: string;
+  trigger_input: unknown;
+  status: string;
+  phases_completed: number | null;
+  phases_total: number | null;
+  output_url: string | null;
+  output_type: string | null;
+  cost_usd: string | null;
+  duration_seconds: number | null;
+  qa_scores: Record<string, number> | null;
+  error_message: string | null;
+  queued_at: string | null;
+  started_at: string | null;
+  completed_at: string | null;
+}
+
+interface CountRow {
+  count: string;
+}
+
+// -----------------------------------------------------------------------------
+// Row → ExecutionLogRecord mapper
+// -----------------------------------------------------------------------------
+
+const LOG_SELECT = `
+  SELECT el.id, el.deployment_id, d.system_slug, el.triggered_by,
+         el.trigger_input, el.status, el.phases_completed, el.phases_total,
+         el.output_url, el.output_type, el.cost_usd, el.duration_seconds,
+         el.qa_scores, el.error_message, el.queued_at, el.started_at, el.completed_at
+  FROM execution_logs el
+  JOIN deployments d ON d.id = el.deployment_id`;
+
+/** When a run started, or was queued if it has not started yet */
+const RUN_TIME = 'COALESCE(el.started_at, el.queued_at)';
+
+function rowToRecord(row: ExecutionLogRow): ExecutionLogRecord {
+  return {
+    id: row.id,
+    deploymentId: row.deployment_id,
+    systemSlug: row.system_slug,
+    triggeredBy: row.triggered_by,
+    triggerInput: row.trigger_input,
+    status: row.status as ExecutionStatus,
+    phasesCompleted: row.phases_completed,
+    phasesTotal: row.phases_total,
+    outputUrl: row.output_url,
+    outputType: row.output_type,
+    // decimal columns come back from pg as strings
+    costUsd: row.cost_usd !== null ? parseFloat(row.cost_usd) : null,
+    durationSeconds: row.duration_seconds,
+    qaScores: row.qa_scores,
+    errorMessage: row.error_message,
+    queuedAt: row.queued_at ?? null,
+    startedAt: row.started_at,
+    completedAt: row.completed_at,
+  };
+}
+
+// -----------------------------------------------------------------------------
+// Public API
+// -----------------------------------------------------------------------------
+
+/**
+ * List executions for a deployment, newest first, with optional filters.
+ * Queued runs are dated and ordered by when they were queued.
+ */
+export async function listExecutionLogs(
+  deploymentId: string,
+  filters: ExecutionLogFilters
+): Promise<ExecutionLogPage> {
+  const conditions = ['el.deployment_id = $1'];
+  const params: unknown[] = [deploymentId];
+  let idx = 2;
+
+  if (filters.status) {
+    conditions.push(`el.status = $${idx++}`);
+    params.push(filters.status);
+  }
+  if (filters.triggeredBy) {
+    conditions.push(`el.triggered_by = $${idx++}`);
+    params.push(filters.triggeredBy);
+  }
+  if (filters.from) {
+    conditions.push(`${RUN_TIME} >= $${idx++}`);
+    params.push(filters.from);
+  }
+  if (filters.to) {
+    conditions.push(`${RUN_TIME} < $${idx++}`);
+    params.push(filters.to);
+  }
+
+  const where = `WHERE ${conditions.join(' AND ')}`;
+  const countParams = [...params];
+
+  params.push(filters.limit);
+  const limitIdx = idx++;
+  params.push(filters.offset);
+  const offsetIdx = idx;
+
+  const { rows } = await pool.query<ExecutionLogRow>(
+    `${LOG_SELECT} ${where}
+     ORDER BY ${RUN_TIME} DESC NULLS LAST
+     LIMIT $${limitIdx} OFFSET $${offsetIdx}`,
+    params
+  );
+
+  const { rows: countRows } = await pool.query<CountRow>(
+    `SELECT COUNT(*)::text AS count FROM execution_logs el ${where}`,
+    countParams
+  );
+
+  return {
+    logs: rows.map(rowToRecord),
+    total: parseInt(countRows[0].count, 10),
+    limit: filters.limit,
+    offset: filters.offset,
+  };
+}
+
+/**
+ * Fetch a single execution belonging to a deployment. Returns null if the id
+ * does not exist or belongs to a different system.
+ */
+export async function getExecutionLog(
+  deploymentId: string,
+  executionId: string
+): Promise<ExecutionLogRecord | null> {
+  const { rows } = await pool.query<ExecutionLogRow>(
+    `${LOG_SELECT} WHERE el.deployment_id = $1 AND el.id = $2`,
+    [deploymentId, executionId]
+  );
+
+  if (rows.length === 0) return null;
+  return rowToRecord(rows[0]);
+}
@@ -0,0 +1,287 @@
+// =============================================================================
+// Execution Metrics
+// Bucketed time series over execution_logs for the metrics API: run counts,
+// cost, p50/p95 duration, failure and qa_failed rates, and per-dimension QA
+// averages, per system or across every non-archived system. Buckets with no
+// runs are filled in so charts get an evenly spaced series.
+// =============================================================================
+
+import { pool } from '../db';
+import { MetricsRangeError } from '../lib/errors';
+
+// -----------------------------------------------------------------------------
+// Types
+// -----------------------------------------------------------------------------
+
+export type MetricsBucket = 'hour' | 'day' | 'week';
+
+export interface MetricsSummary {
+  /** Runs started in the period; queued and cancelled runs are not counted */
+  executions: number;
+  completed: number;
+  failed: number;
+  qaFailed: number;
+  costUsd: number;
+  p50DurationSeconds: number | null;
+  p95DurationSeconds: number | null;
+  /** Share of finished runs; null when none finished */
+  failureRate: number | null;
+  qaFailedRate: number | null;
+  /** Average score per QA dimension */
+  qaScores: Record<string, number>;
+}
+
+export interface MetricsPoint extends MetricsSummary {
+  bucketStart: string;
+}
+
+export interface MetricsSeries {
+  bucket: MetricsBucket;
+  from: string;
+  to: string;
+  totals: MetricsSummary;
+  points: MetricsPoint[];
+}
+
+export interface SystemMetricsTotals {
+  systemSlug: string;
+  executions: number;
+  costUsd: number;
+  failureRate: number | null;
+  qaFailedRate: number | null;
+}
+
+export interface FleetMetrics extends MetricsSeries {
+  /** Per-system totals for the period, most expensive first */
+  systems: SystemMetricsTotals[];
+}
+
+export interface MetricsRange {
+  bucket: MetricsBucket;
+  from?: string;
+  to?: string;
+}
+
+interface SeriesRow {
+  bucket_start: string | null;
+  executions: string;
+  completed: string;
+  failed: string;
+  qa_failed: string;
+  cost_usd: string;
+  p50_duration_seconds: number | null;
+  p95_duration_seconds: number | null;
+}
+
+interface QaRow {
+  bucket_start: string | null;
+  dimension: string;
+  average: string;
+}
+
+interface SystemTotalsRow {
+  system_slug: string;
+  executions: string;
+  completed: string;
+  failed: string;
+  qa_failed: string;
+  cost_usd: string;
+}
+
+// -----------------------------------------------------------------------------
+// Constants
+// -----------------------------------------------------------------------------
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const BUCKET_MS: Record<MetricsBucket, number> = {
+  hour: HOUR_MS,
+  day: 24 * HOUR_MS,
+  week: 7 * 24 * HOUR_MS,
+};
+
+/** Range covered when the request gives no `from` */
+const DEFAULT_BUCKET_COUNT: Record<MetricsBucket, number> = {
+  hour: 24,
+  day: 30,
+  week: 12,
+};
+
+export const MAX_METRICS_BUCKETS = 500;
+
+/** Started, not-yet-cancelled runs — the population every metric is over */
+const COUNTED_RUNS = `el.status NOT IN ('queued', 'cancelled')`;
+
+/** Bucket start in Date#toISOString() form, so rows key straight into the series */
+const BUCKET_START = `to_char(bucket, 'YYYY-MM-DD"T"HH24:MI:SS".000Z"')`;
+
+// -----------------------------------------------------------------------------
+// Internal: buckets
+// -----------------------------------------------------------------------------
+
+/** Start of the UTC bucket holding `date`; weeks start on Monday, as in Postgres */
+function bucketStart(date: Date, bucket: MetricsBucket): Date {
+  const start = new Date(date);
+  start.setUTCMinutes(0, 0, 0);
+  if (bucket === 'hour') return start;
+
+  start.setUTCHours(0);
+  if (bucket === 'week') start.setUTCDate(start.getUTCDate() - ((start.getUTCDay() + 6) % 7));
+  return start;
+}
+
+/**
+ * Fill in defaults (`to` = now, `from` = DEFAULT_BUCKET_COUNT buckets back)
+ * and align `from` to its bucket. Throws MetricsRangeError for an empty or
+ * reversed range or one spanning more than MAX_METRICS_BUCKETS buckets.
+ */
+export function resolveMetricsRange(range: MetricsRange): { from: Date; to: Date } {
+  const to = range.to ? new Date(range.to) : new Date();
+  const requestedFrom = range.from
+    ? new Date(range.from)
+    : new Date(to.getTime() - DEFAULT_BUCKET_COUNT[range.bucket] * BUCKET_MS[range.bucket]);
+
+  if (requestedFrom >= to) {
+    throw new MetricsRangeError('`from` must be before `to`');
+  }
+  const from = bucketStart(requestedFrom, range.bucket);
+  if ((to.getTime() - from.getTime()) / BUCKET_MS[range.bucket] > MAX_METRICS_BUCKETS) {
+    throw new MetricsRangeError(`Range spans more than ${MAX_METRICS_BUCKETS} ${range.bucket} buckets`);
+  }
+  return { from, to };
+}
+
+// -----------------------------------------------------------------------------
+// Internal: rows → metrics
+// -----------------------------------------------------------------------------
+
+function rate(count: number, finished: number): number | null {
+  return finished > 0 ? Math.round((count / finished) * 10_000) / 10_000 : null;
+}
+
+function toSummary(row: SeriesRow | undefined, qaScores: Record<string, number> = {}): MetricsSummary {
+  const completed = parseInt(row?.completed ?? '0', 10);
+  const failed = parseInt(row?.failed ?? '0', 10);
+  const qaFailed = parseInt(row?.qa_failed ?? '0', 10);
+  const finished = completed + failed + qaFailed;
+
+  return {
+    executions: parseInt(row?.executions ?? '0', 10),
+    completed,
+    failed,
+    qaFailed,
+    // decimal columns come back from pg as strings
+    costUsd: parseFloat(row?.cost_usd ?? '0'),
+    p50DurationSeconds: row?.p50_duration_seconds ?? null,
+    p95DurationSeconds: row?.p95_duration_seconds ?? null,
+    failureRate: rate(failed, finished),
+    qaFailedRate: rate(qaFailed, finished),
+    qaScores,
+  };
+}
+
+/**
+ * Query the bucketed series for runs matching `scope` (a condition on `el`
+ * and `d`, whose parameters follow $1–$3). The total row comes from the same
+ * query through GROUPING SETS.
+ */
+async function querySeries(range: MetricsRange, scope: string, scopeParams: unknown[]): Promise<MetricsSeries> {
+  const { from, to } = resolveMetricsRange(range);
+  const params = [range.bucket, from.toISOString(), to.toISOString(), ...scopeParams];
+  const runs = `
+    SELECT date_trunc($1, el.started_at AT TIME ZONE 'UTC') AS bucket, el.*
+    FROM execution_logs el
+    JOIN deployments d ON d.id = el.deployment_id
+    WHERE ${scope} AND el.started_at >= $2 AND el.started_at < $3 AND ${COUNTED_RUNS}`;
+
+  const { rows } = await pool.query<SeriesRow>(
+    `SELECT ${BUCKET_START} AS bucket_start,
+            COUNT(*)::text AS executions,
+            COUNT(*) FILTER (WHERE status = 'completed')::text AS completed,
+            COUNT(*) FILTER (WHERE status = 'failed')::text AS failed,
+            COUNT(*) FILTER (WHERE status = 'qa_failed')::text AS qa_failed,
+            COALESCE(SUM(cost_usd), 0)::text AS cost_usd,
+            percentile_cont(0.5) WITHIN GROUP (ORDER BY duration_seconds) AS p50_duration_seconds,
+            percentile_cont(0.95) WITHIN GROUP (ORDER BY duration_seconds) AS p95_duration_seconds
+     FROM (${runs}) runs
+     GROUP BY GROUPING SETS ((bucket), ())`,
+    params
+  );
+
+  const { rows: qaRows } = await pool.query<QaRow>(
+    `SELECT ${BUCKET_START} AS bucket_start, score.key AS dimension,
+            AVG(score.value::text::numeric)::text AS average
+     FROM (${runs} AND el.qa_scores IS NOT NULL) runs
+     CROSS JOIN LATERAL jsonb_each(runs.qa_scores) score
+     WHERE jsonb_typeof(score.value) = 'number'
+     GROUP BY GROUPING SETS ((bucket, score.key), (score.key))`,
+    params
+  );
+
+  // A null bucket_start is the GROUPING SETS total row
+  const seriesByBucket = new Map(rows.map((row) => [row.bucket_start, row]));
+  const qaByBucket = new Map<string | null, Record<string, number>>();
+  for (const row of qaRows) {
+    const scores = qaByBucket.get(row.bucket_start) ?? {};
+    scores[row.dimension] = Math.round(parseFloat(row.average) * 100) / 100;
+    qaByBucket.set(row.bucket_start, scores);
+  }
+
+  // UTC buckets have a fixed length, so stepping from the aligned `from` stays aligned
+  const points: MetricsPoint[] = [];
+  for (let t = from.getTime(); t < to.getTime(); t += BUCKET_MS[range.bucket]) {
+    const key = new Date(t).toISOString();
+    points.push({ bucketStart: key, ...toSummary(seriesByBucket.get(key), qaByBucket.get(key)) });
+  }
+
+  return {
+    bucket: range.bucket,
+    from: from.toISOString(),
+    to: to.toISOString(),
+    totals: toSummary(seriesByBucket.get(null), qaByBucket.get(null)),
+    points,
+  };
+}
+
+// -----------------------------------------------------------------------------
+// Public API
+// -----------------------------------------------------------------------------
+
+/** Metrics of one deployment */
+export async function getSystemMetrics(deploymentId: string, range: MetricsRange): Promise<MetricsSeries> {
+  return querySeries(range, 'el.deployment_id = $4', [deploymentId]);
+}
+
+/** Metrics across every non-archived system, with per-system totals */
+export async function getFleetMetrics(range: MetricsRange): Promise<FleetMetrics> {
+  const series = await querySeries(range, `d.status != 'archived'`, []);
+
+  const { rows } = await pool.query<SystemTotalsRow>(
+    `SELECT d.system_slug,
+            COUNT(*)::text AS executions,
+            COUNT(*) FILTER (WHERE el.status = 'completed')::text AS completed,
+            COUNT(*) FILTER (WHERE el.status = 'failed')::text AS failed,
+            COUNT(*) FILTER (WHERE el.status = 'qa_failed')::text AS qa_failed,
+            COALESCE(SUM(el.cost_usd), 0)::text AS cost_usd
+     FROM execution_logs el
+     JOIN deployments d ON d.id = el.deployment_id
+     WHERE d.status != 'archived' AND el.started_at >= $1 AND el.started_at < $2 AND ${COUNTED_RUNS}
+     GROUP BY d.system_slug
+     ORDER BY SUM(el.cost_usd) DESC NULLS LAST, d.system_slug`,
+    [series.from, series.to]
+  );
+
+  return {
+    ...series,
+    systems: rows.map((row) => {
+      const summary = toSummary({ ...row, bucket_start: null, p50_duration_seconds: null, p95_duration_seconds: null });
+      return {
+        systemSlug: row.system_slug,
+        executions: summary.executions,
+        costUsd: summary.costUsd,
+        failureRate: summary.failureRate,
+        qaFailedRate: summary.qaFailedRate,
+      };
+    }),
+  };
+}
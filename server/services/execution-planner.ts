@@ -0,0 +1,277 @@
+// =============================================================================
+// Execution Planner
+// Turns the agents and edges of a ParsedWorkflow into a DAG of stages:
+//   delegation — target runs after the agent that delegates to it
+//   data       — target runs after the source and receives its output as input
+//   event      — target runs only if the source emits the named event
+//   control    — target is an auditor and runs after every other agent
+//   failover   — target stands by and replaces the source if it errors/times out
+// Agent pools are scheduled as one unit in place of their members: edges to
+// or from a member attach to its pool, and pools named only in another
+// pool's failoverChain stand by like failover agents. So do agents named
+// only on a voting coordinator's escalation path (see consensus.ts).
+// =============================================================================
+
+import { ExecutionError } from '../lib/errors';
+import type { ParsedWorkflow, WorkflowEdge, WorkflowNode } from './orchestrator-bridge';
+import { describePool, failoverPools, poolMembership } from './agent-pools';
+import { describeAggregation, escalationTargets, parseAggregation } from './consensus';
+
+// -----------------------------------------------------------------------------
+// Types
+// -----------------------------------------------------------------------------
+
+export type DependencyKind = 'delegation' | 'data' | 'event' | 'control';
+
+export interface PlanDependency {
+  agentId: string;
+  kind: DependencyKind;
+  /** Event name, for event dependencies */
+  event?: string;
+}
+
+export interface ExecutionPhase {
+  name: string;
+  /** Agents and AGENT_POOL nodes */
+  agents: WorkflowNode[];
+  parallel: boolean;
+}
+
+export interface ExecutionPlan {
+  phases: ExecutionPhase[];
+  /** Incoming dependencies per agent id */
+  dependencies: Map<string, PlanDependency[]>;
+  /** Failover targets per source agent id, in edge order */
+  failover: Map<string, WorkflowNode[]>;
+  /** Agents and pools only reachable through failover or escalation — run on demand */
+  standby: WorkflowNode[];
+}
+
+// -----------------------------------------------------------------------------
+// Events
+// -----------------------------------------------------------------------------
+
+/** Event an unlabelled event edge listens for */
+export const DEFAULT_EVENT = 'completed';
+
+const EVENT_MARKER = /^\s*EVENT:\s*([\w.-]+)\s*$/gim;
+
+/**
+ * Events an agent emitted during a run: the lifecycle event for its status
+ * plus any `EVENT: <name>` lines it wrote in its output.
+ */
+export function emittedEvents(status: 'success' | 'error' | 'timeout', output: string): Set<string> {
+  const events = new Set<string>(
+    status === 'success' ? ['completed'] : ['failed', status]
+  );
+  const marker = new RegExp(EVENT_MARKER.source, EVENT_MARKER.flags);
+  let match: RegExpExecArray | null;
+  while ((match = marker.exec(output)) !== null) {
+    events.add(match[1].toLowerCase());
+  }
+  return events;
+}
+
+function edgeEvent(edge: WorkflowEdge): string {
+  return (edge.event || DEFAULT_EVENT).trim().toLowerCase();
+}
+
+// -----------------------------------------------------------------------------
+// Planner
+// -----------------------------------------------------------------------------
+
+function stageName(
+  agents: WorkflowNode[],
+  index: number,
+  roles: { orchestrators: Set<string>; leads: Set<string>; auditors: Set<string> }
+): string {
+  if (agents.every((a) => roles.orchestrators.has(a.id))) return 'Intake';
+  if (agents.every((a) => roles.auditors.has(a.id))) return 'Quality Gate';
+  const leads = agents.filter((a) => roles.leads.has(a.id));
+  if (leads.length === 1) return `${leads[0].label} Phase`;
+  return `Stage ${index + 1}`;
+}
+
+/** Unpooled agents plus pools, with member edges moved onto their pool */
+function schedulableUnits(workflow: ParsedWorkflow): { units: WorkflowNode[]; edges: WorkflowEdge[] } {
+  const membership = poolMembership(workflow);
+  const units = [...workflow.agents.filter((a) => !membership.has(a.id)), ...workflow.pools];
+  const ids = new Set(units.map((u) => u.id));
+  const unitOf = (id: string) => membership.get(id) ?? id;
+
+  const edges = workflow.edges
+    .map((e) => ({ ...e, source: unitOf(e.source), target: unitOf(e.target) }))
+    .filter((e) => e.source !== e.target && ids.has(e.source) && ids.has(e.target));
+  return { units, edges };
+}
+
+/**
+ * Build a staged DAG from the workflow. Agents whose dependencies are all
+ * satisfied share a stage and run in parallel. Workflows with no edges
+ * between agents keep the original behaviour: one sequential stage.
+ */
+export function buildPlan(workflow: ParsedWorkflow): ExecutionPlan {
+  const { units: agents, edges: agentEdges } = schedulableUnits(workflow);
+  const agentMap = new Map(agents.map((a) => [a.id, a]));
+
+  const dependencies = new Map<string, PlanDependency[]>(agents.map((a) => [a.id, []]));
+  const failover = new Map<string, WorkflowNode[]>();
+  const scheduledTargets = new Set<string>();
+
+  for (const edge of agentEdges) {
+    if (edge.type === 'failover') {
+      const targets = failover.get(edge.source) ?? [];
+      targets.push(agentMap.get(edge.target)!);
+      failover.set(edge.source, targets);
+      continue;
+    }
+    if (edge.type === 'delegation' || edge.type === 'data' || edge.type === 'event') {
+      dependencies.get(edge.target)!.push({
+        agentId: edge.source,
+        kind: edge.type,
+        ...(edge.type === 'event' ? { event: edgeEvent(edge) } : {}),
+      });
+      scheduledTargets.add(edge.target);
+    }
+  }
+
+  // Failover-only agents, backup pools and escalation targets stand by
+  // instead of running in the main flow
+  const standbyTargets = new Set([
+    ...Array.from(failover.values()).flat().map((a) => a.id),
+    ...workflow.pools.flatMap((pool) => failoverPools(pool, workflow).map((p) => p.id)),
+    ...agents.flatMap((a) => escalationTargets(a, workflow).map((t) => t.id)),
+  ]);
+  const standby = agents.filter((a) => standbyTargets.has(a.id) && !scheduledTargets.has(a.id));
+  const standbyIds = new Set(standby.map((a) => a.id));
+  const scheduled = agents.filter((a) => !standbyIds.has(a.id));
+
+  // Auditors (control edge targets) gate everything else
+  const auditors = new Set(
+    agentEdges.filter((e) => e.type === 'control').map((e) => e.target)
+  );
+  for (const auditorId of auditors) {
+    if (standbyIds.has(auditorId)) continue;
+    const deps = dependencies.get(auditorId)!;
+    for (const agent of scheduled) {
+      if (!auditors.has(agent.id) && !deps.some((d) => d.agentId === agent.id)) {
+        deps.push({ agentId: agent.id, kind: 'control' });
+      }
+    }
+  }
+
+  const hasStructure = scheduled.some((a) => dependencies.get(a.id)!.length > 0);
+  if (!hasStructure) {
+    return {
+      phases: scheduled.length > 0 ? [{ name: 'Execution', agents: scheduled, parallel: false }] : [],
+      dependencies,
+      failover,
+      standby,
+    };
+  }
+
+  // Kahn's algorithm, one stage per wave of ready agents
+  const delegationSources = new Set(agentEdges.filter((e) => e.type === 'delegation').map((e) => e.source));
+  const delegationTargets = new Set(agentEdges.filter((e) => e.type === 'delegation').map((e) => e.target));
+  const roles = {
+    orchestrators: new Set(
+      Array.from(delegationSources).filter((id) => !delegationTargets.has(id))
+    ),
+    leads: new Set(Array.from(delegationSources).filter((id) => delegationTargets.has(id))),
+    auditors,
+  };
+
+  const remaining = new Map(
+    scheduled.map((a) => [
+      a.id,
+      new Set(dependencies.get(a.id)!.map((d) => d.agentId).filter((id) => !standbyIds.has(id))),
+    ])
+  );
+  const phases: ExecutionPhase[] = [];
+
+  while (remaining.size > 0) {
+    const ready = scheduled.filter((a) => remaining.get(a.id)?.size === 0);
+    if (ready.length === 0) {
+      const cycle = scheduled.filter((a) => remaining.has(a.id)).map((a) => a.label);
+      throw new ExecutionError(
+        'PLAN_CYCLE',
+        `Execution graph has a cycle between: ${cycle.join(', ')}`,
+        400
+      );
+    }
+
+    for (const agent of ready) remaining.delete(agent.id);
+    for (const deps of remaining.values()) {
+      for (const agent of ready) deps.delete(agent.id);
+    }
+
+    phases.push({
+      name: stageName(ready, phases.length, roles),
+      agents: ready,
+      parallel: ready.length > 1,
+    });
+  }
+
+  return { phases, dependencies, failover, standby };
+}
+
+// -----------------------------------------------------------------------------
+// Visualization
+// -----------------------------------------------------------------------------
+
+/**
+ * Render the plan as terminal lines, e.g.
+ *
+ *   2. Research Lead Phase (parallel)
+ *        • Writer ← Researcher (data)
+ *        • Publisher ⚡ Writer:approved
+ *          ↳ Backup Writer on failure
+ *        • Editors [pool: 2 members, 1–2 instances × 1, round-robin] ← Lead (delegation)
+ *        • Lead [aggregate: vote, majority ≥ 67%]
+ *          ↳ Chief Editor on no consensus
+ */
+export function formatPlan(plan: ExecutionPlan, workflow: ParsedWorkflow): string[] {
+  const labels = new Map([...workflow.agents, ...workflow.pools].map((a) => [a.id, a.label]));
+  const lines: string[] = [];
+
+  plan.phases.forEach((phase, i) => {
+    lines.push(`  ${i + 1}. ${phase.name}${phase.parallel ? ' (parallel)' : ''}`);
+    for (const agent of phase.agents) {
+      const incoming = (plan.dependencies.get(agent.id) ?? [])
+        .filter((d) => d.kind !== 'control')
+        .map((d) =>
+          d.kind === 'event'
+            ? `⚡ ${labels.get(d.agentId)}:${d.event}`
+            : `← ${labels.get(d.agentId)} (${d.kind})`
+        );
+      const pool = agent.nodeType === 'AGENT_POOL' ? ` [pool: ${describePool(agent, workflow)}]` : '';
+      const aggregation = agent.nodeType === 'AGENT' ? parseAggregation(agent.config) : null;
+      const aggregate = aggregation ? ` [aggregate: ${describeAggregation(aggregation)}]` : '';
+      lines.push(`       • ${agent.label}${pool}${aggregate}${incoming.length > 0 ? ` ${incoming.join(', ')}` : ''}`);
+      const backups = [
+        ...(plan.failover.get(agent.id) ?? []),
+        ...(agent.nodeType === 'AGENT_POOL' ? failoverPools(agent, workflow) : []),
+      ];
+      for (const backup of backups) {
+        lines.push(`         ↳ ${backup.label} on failure`);
+      }
+      for (const target of escalationTargets(agent, workflow)) {
+        lines.push(`         ↳ ${target.label} on no consensus`);
+      }
+    }
+  });
+
+  const escalations = new Set(
+    plan.phases.flatMap((p) => p.agents.flatMap((a) => escalationTargets(a, workflow).map((t) => t.id)))
+  );
+  const standbyFailover = plan.standby.filter((a) => !escalations.has(a.id));
+  const standbyEscalation = plan.standby.filter((a) => escalations.has(a.id));
+  if (standbyFailover.length > 0) {
+    lines.push(`     Standby (failover): ${standbyFailover.map((a) => a.label).join(', ')}`);
+  }
+  if (standbyEscalation.length > 0) {
+    lines.push(`     Standby (escalation): ${standbyEscalation.map((a) => a.label).join(', ')}`);
+  }
+
+  return lines;
+}
@@ -0,0 +1,402 @@
+// =============================================================================
+// Inbound Messages
+// Entry point for messages arriving on messaging channels (Slack, Telegram,
+// the web ChatPanel, ...). Resolves the channel's session, runs the Router
+// Agent (classify → clarify → trigger), dispatches the matched system and
+// posts replies back through the platform's channel responder. Messages
+// pass the inbound content filters first (INBOUND_CONTENT_FILTERS), so
+// redacted text is all the router, sessions and runs ever see. When a run
+// dispatched from a channel finishes, its result is posted to that channel
+// and later feedback is routed as a revision of the same system.
+// =============================================================================
+
+import { v4 as uuidv4 } from 'uuid';
+import { isAutopilateError, ExecutionError } from '../lib/errors';
+import { createRouterAgent, type RouterAgent, type RouterDecision } from './router-agent';
+import { SessionManager, type RevisionBrief } from './session-manager';
+import { getSystem } from './registry';
+import { dispatchExecution, mapPayloadToInputs } from './execution-dispatcher';
+import {
+  onExecutionCompleted,
+  onExecutionFailed,
+  type ExecutionCompletedMessage,
+  type ExecutionFailedMessage,
+} from './openclaw-client';
+import { emitChannelMessage } from '../socket/emitter';
+import {
+  blockedCategories,
+  describeFilterEvents,
+  filterContent,
+  inboundContentFilters,
+} from './content-filters';
+import type {
+  InboundMessagePayload,
+  InboundMessageResult,
+  MessagingPlatform,
+} from '../../shared/socket-events';
+
+// -----------------------------------------------------------------------------
+// Types
+// -----------------------------------------------------------------------------
+
+/** Posts a reply to a channel on one messaging platform. */
+export type ChannelReplySender = (channelId: string, text: string) => Promise<void> | void;
+
+interface ChannelState {
+  sessionId: string;
+  router: RouterAgent;
+  /** Router replies produced while handling the current message */
+  outbox: string[];
+}
+
+/** A run dispatched from a channel, awaiting its completion event. */
+interface ChannelRun {
+  platform: MessagingPlatform;
+  channelId: string;
+  sessionId: string;
+  systemName: string;
+}
+
+// -----------------------------------------------------------------------------
+// Module state
+// -----------------------------------------------------------------------------
+
+const responders = new Map<MessagingPlatform, ChannelReplySender>([
+  [
+    'web',
+    (channelId, text) =>
+      emitChannelMessage({
+        channelId,
+        message: {
+          id: uuidv4(),
+          role: 'system',
+          content: text,
+          timestamp: Date.now(),
+          metadata: { intent: 'router' },
+        },
+      }),
+  ],
+]);
+
+/** Router state per channel, keyed `platform:channelId` */
+const channels = new Map<string, ChannelState>();
+
+/** Tail of each channel's message chain: messages are handled one at a time */
+const channelQueues = new Map<string, Promise<unknown>>();
+
+/** In-memory only: runs dispatched before a restart report to no channel */
+const channelRuns = new Map<string, ChannelRun>();
+
+let sessionManager: SessionManager | null = null;
+let unsubscribers: Array<() => void> = [];
+
+function getSessionManager(): SessionManager {
+  if (!sessionManager) {
+    sessionManager = new SessionManager();
+  }
+  return sessionManager;
+}
+
+function channelKey(platform: MessagingPlatform, channelId: string): string {
+  return `${platform}:${channelId}`;
+}
+
+// -----------------------------------------------------------------------------
+// Replies
+// -----------------------------------------------------------------------------
+
+/**
+ * Register how replies reach a messaging platform (the web platform posts to
+ * the ChatPanel sockets bound to the channel). Platforms without a responder
+ * still get their replies in the HTTP response. Returns a function that
+ * restores the previous responder.
+ */
+export function registerChannelResponder(
+  platform: MessagingPlatform,
+  sender: ChannelReplySender
+): () => void {
+  const previous = responders.get(platform);
+  responders.set(platform, sender);
+  return () => {
+    if (previous) responders.set(platform, previous);
+    else responders.delete(platform);
+  };
+}
+
+async function postReplies(
+  platform: MessagingPlatform,
+  channelId: string,
+  replies: string[]
+): Promise<void> {
+  const sender = responders.get(platform);
+  if (!sender) return;
+
+  for (const text of replies) {
+    try {
+      await sender(channelId, text);
+    } catch (err) {
+      console.error(`[inbound-messages] Failed to post reply to ${platform}:${channelId}:`, err);
+    }
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Dispatch
+// -----------------------------------------------------------------------------
+
+async function dispatchFromChannel(
+  message: InboundMessagePayload,
+  sessionId: string,
+  slug: string,
+  inputs: Record<string, unknown>,
+  revision?: RevisionBrief
+): Promise<Pick<InboundMessageResult, 'outcome' | 'replies' | 'executionId'>> {
+  const deployment = await getSystem(slug);
+  if (!deployment) {
+    return { outcome: 'error', replies: [`System "${slug}" is no longer deployed.`] };
+  }
+  const systemName = deployment.systemName;
+
+  let executionId: string;
+  try {
+    const mapped = mapPayloadToInputs(deployment.manifestJson, inputs);
+    ({ executionId } = await dispatchExecution({
+      deployment,
+      triggeredBy: 'messaging',
+      inputs: revision
+        ? {
+            ...mapped,
+            revision: {
+              feedback: revision.feedback,
+              lastOutput: revision.lastOutput,
+              revisionNumber: revision.revisionNumber,
+            },
+          }
+        : mapped,
+    }));
+  } catch (err) {
+    if (err instanceof ExecutionError) {
+      return { outcome: 'error', replies: [`Couldn't start **${systemName}**: ${err.message}`] };
+    }
+    throw err;
+  }
+
+  const manager = getSessionManager();
+  const key = channelKey(message.platform, message.channelId);
+  if (revision) {
+    await manager.updateSession(sessionId, { status: 'executing' });
+  } else {
+    await manager.createSession(
+      sessionId,
+      key,
+      slug,
+      systemName,
+      Object.fromEntries(Object.entries(inputs).map(([name, value]) => [name, String(value)]))
+    );
+  }
+
+  channelRuns.set(executionId, {
+    platform: message.platform,
+    channelId: message.channelId,
+    sessionId,
+    systemName,
+  });
+
+  return {
+    outcome: revision ? 'revision' : 'trigger',
+    executionId,
+    replies: [
+      revision
+        ? `Revising **${systemName}** (round ${revision.revisionNumber}). I'll post the result here.`
+        : `Started **${systemName}**. I'll post the result here when it finishes.`,
+    ],
+  };
+}
+
+// -----------------------------------------------------------------------------
+// Routing
+// -----------------------------------------------------------------------------
+
+async function resolveChannel(message: InboundMessagePayload): Promise<ChannelState> {
+  const key = channelKey(message.platform, message.channelId);
+  const existing = channels.get(key);
+  if (existing) return existing;
+
+  // Resume the channel's session if it outlived a restart, else start one
+  const session = await getSessionManager().getSessionByChannel(key);
+  const sessionId = session?.sessionId ?? uuidv4();
+  const state: ChannelState = {
+    sessionId,
+    outbox: [],
+    router: createRouterAgent(sessionId, { onReply: (content) => state.outbox.push(content) }),
+  };
+  channels.set(key, state);
+  return state;
+}
+
+/** Web chats show the user's message as it was screened, never the raw text */
+function echoWebMessage(message: InboundMessagePayload): void {
+  if (message.platform !== 'web') return;
+  emitChannelMessage({
+    channelId: message.channelId,
+    message: { id: uuidv4(), role: 'user', content: message.text, timestamp: Date.now() },
+  });
+}
+
+/** Redact or block the message text under the inbound content filters */
+function screenMessage(message: InboundMessagePayload) {
+  const filters = inboundContentFilters();
+  if (!filters) return { message, blocked: false, events: [] };
+
+  const outcome = filterContent(message.text, filters, 'inbound');
+  if (outcome.events.length > 0) {
+    console.warn(
+      `[inbound-messages] Content filter on ${message.platform}:${message.channelId}: ${describeFilterEvents(outcome.events)}`
+    );
+  }
+  return { message: { ...message, text: outcome.text }, blocked: outcome.blocked, events: outcome.events };
+}
+
+async function routeMessage(inbound: InboundMessagePayload): Promise<InboundMessageResult> {
+  const key = channelKey(inbound.platform, inbound.channelId);
+  const state = await resolveChannel(inbound);
+  state.outbox = [];
+
+  const { message, blocked, events } = screenMessage(inbound);
+  const filtered = events.length > 0 ? { contentFilterEvents: events } : {};
+  if (blocked) {
+    return {
+      sessionId: state.sessionId,
+      outcome: 'blocked',
+      replies: [
+        `Your message was blocked by a content filter (${blockedCategories(events).join(', ')}). Please rephrase it and try again.`,
+      ],
+      ...filtered,
+    };
+  }
+  echoWebMessage(message);
+
+  // Feedback on a delivered run goes back to the same system — unless the
+  // router is waiting on answers to its own questions
+  if (!state.router.isGathering()) {
+    const revision = await getSessionManager().isRevisionFeedback(key, message.text);
+    if (revision) {
+      const dispatched = await dispatchFromChannel(
+        message,
+        revision.sessionId,
+        revision.systemSlug,
+        revision.originalInputs,
+        revision
+      );
+      return { sessionId: revision.sessionId, systemSlug: revision.systemSlug, ...dispatched, ...filtered };
+    }
+  }
+
+  const decision: RouterDecision = await state.router.handleMessage(message.text);
+
+  if (decision.kind !== 'trigger') {
+    return {
+      sessionId: state.sessionId,
+      outcome: decision.kind,
+      replies: state.outbox,
+      systemSlug: decision.kind === 'clarify' ? decision.system.slug : undefined,
+      ...filtered,
+    };
+  }
+
+  const dispatched = await dispatchFromChannel(
+    message,
+    state.sessionId,
+    decision.system.slug,
+    decision.inputs
+  );
+  return {
+    sessionId: state.sessionId,
+    systemSlug: decision.system.slug,
+    ...dispatched,
+    replies: [...state.outbox, ...dispatched.replies],
+    ...filtered,
+  };
+}
+
+/**
+ * Route one inbound channel message and post the replies back to the
+ * channel. Messages on the same channel are handled in arrival order.
+ */
+export async function handleInboundMessage(
+  message: InboundMessagePayload
+): Promise<InboundMessageResult> {
+  const key = channelKey(message.platform, message.channelId);
+  const previous = channelQueues.get(key) ?? Promise.resolve();
+  const run = previous.catch(() => undefined).then(() => routeMessage(message));
+  channelQueues.set(key, run);
+
+  try {
+    const result = await run;
+    await postReplies(message.platform, message.channelId, result.replies);
+    return result;
+  } finally {
+    if (channelQueues.get(key) === run) channelQueues.delete(key);
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Run results
+// -----------------------------------------------------------------------------
+
+async function handleRunCompleted(msg: ExecutionCompletedMessage): Promise<void> {
+  const run = channelRuns.get(msg.executionId);
+  if (!run) return;
+  channelRuns.delete(msg.executionId);
+
+  const lastOutput =
+    msg.outputUrl ?? `${msg.phasesCompleted}/${msg.phasesTotal} phases completed`;
+  await getSessionManager().updateSession(run.sessionId, { status: 'delivered', lastOutput });
+
+  await postReplies(run.platform, run.channelId, [
+    `**${run.systemName}** finished: ${lastOutput}\nReply with feedback to revise it.`,
+  ]);
+}
+
+async function handleRunFailed(msg: ExecutionFailedMessage): Promise<void> {
+  const run = channelRuns.get(msg.executionId);
+  if (!run) return;
+  channelRuns.delete(msg.executionId);
+
+  await postReplies(run.platform, run.channelId, [`**${run.systemName}** failed: ${msg.error}`]);
+}
+
+function logRunError(err: unknown): void {
+  const detail = isAutopilateError(err) ? `${err.code}: ${err.message}` : err;
+  console.error('[inbound-messages] Failed to report run result:', detail);
+}
+
+// -----------------------------------------------------------------------------
+// Lifecycle
+// -----------------------------------------------------------------------------
+
+/** Start reporting channel-dispatched runs back to their channels. */
+export function startInboundMessaging(): void {
+  if (unsubscribers.length > 0) return;
+
+  unsubscribers = [
+    onExecutionCompleted((msg) => {
+      handleRunCompleted(msg).catch(logRunError);
+    }),
+    onExecutionFailed((msg) => {
+      handleRunFailed(msg).catch(logRunError);
+    }),
+  ];
+}
+
+export async function stopInboundMessaging(): Promise<void> {
+  unsubscribers.forEach((unsubscribe) => unsubscribe());
+  unsubscribers = [];
+  channels.clear();
+  channelRuns.clear();
+
+  if (sessionManager) {
+    await sessionManager.disconnect();
+    sessionManager = null;
+  }
+}
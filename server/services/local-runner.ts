@@ -0,0 +1,103 @@
+// =============================================================================
+// Local Runner
+// Runs deployed systems in-process when AUTOPILATE runs standalone, without
+// an OpenClaw gateway (OPENCLAW_GATEWAY_URL unset). The system's stored canvas
+// is executed by the orchestrator bridge and the outcome is recorded through
+// the same execution events the gateway sends, so the run queue, execution
+// history and operators cannot tell a local run from a gateway run.
+// =============================================================================
+
+import { getSystem } from './registry';
+import { executeWorkflow } from './orchestrator-bridge';
+import { recordExecutionEvent, type TriggerMessage } from './openclaw-client';
+
+type CanvasNodes = Parameters<typeof executeWorkflow>[1];
+type CanvasEdges = Parameters<typeof executeWorkflow>[2];
+
+// -----------------------------------------------------------------------------
+// Internal
+// -----------------------------------------------------------------------------
+
+function briefFor(inputs: Record<string, unknown>): string | undefined {
+  if (Object.keys(inputs).length === 0) return undefined;
+  return `Execute the workflow with these inputs:\n${JSON.stringify(inputs, null, 2)}`;
+}
+
+async function run(trigger: TriggerMessage): Promise<void> {
+  const { executionId, slug } = trigger;
+  const startedAt = new Date();
+  const failed = (error: string, phasesCompleted = 0, phasesTotal = 0) =>
+    recordExecutionEvent({
+      type: 'execution:failed',
+      slug,
+      executionId,
+      error,
+      phasesCompleted,
+      phasesTotal,
+      durationSeconds: Math.round((Date.now() - startedAt.getTime()) / 1000),
+      completedAt: new Date().toISOString(),
+    });
+
+  const record = await getSystem(slug);
+  const canvas = (record?.canvasJson ?? {}) as { nodes?: CanvasNodes; edges?: CanvasEdges };
+  if (!record || !Array.isArray(canvas.nodes)) {
+    await failed(`System ${slug} has no canvas to run`);
+    return;
+  }
+
+  await recordExecutionEvent({
+    type: 'execution:started',
+    slug,
+    executionId,
+    triggeredBy: trigger.triggeredBy,
+    startedAt: startedAt.toISOString(),
+    phasesTotal: 0,
+  });
+
+  try {
+    // Logs stream to a session named after the run; nobody has to be watching
+    const report = await executeWorkflow(
+      `run:${executionId}`,
+      canvas.nodes,
+      canvas.edges ?? [],
+      briefFor(trigger.inputs),
+      record.systemName
+    );
+    const phases = report.phases.length;
+    if (report.status !== 'success') {
+      await failed(`Run ended with status ${report.status}`, phases, phases);
+      return;
+    }
+    await recordExecutionEvent({
+      type: 'execution:completed',
+      slug,
+      executionId,
+      phasesCompleted: phases,
+      phasesTotal: phases,
+      durationSeconds: Math.round(report.totalDurationMs / 1000),
+      costUsd: report.totalCost,
+      completedAt: report.completedAt,
+    });
+  } catch (err) {
+    await failed(err instanceof Error ? err.message : String(err));
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Public API
+// -----------------------------------------------------------------------------
+
+/** Whether runs are executed here rather than by an OpenClaw gateway */
+export function runsLocally(): boolean {
+  return !process.env.OPENCLAW_GATEWAY_URL;
+}
+
+/**
+ * Start a dispatched run in-process. Returns once the run has started; its
+ * result arrives later as an `execution:completed` or `execution:failed` event.
+ */
+export function startLocalRun(trigger: TriggerMessage): void {
+  run(trigger).catch((err) => {
+    console.error(`[local-runner] Run ${trigger.executionId} of ${trigger.slug} crashed:`, err);
+  });
+}
@@ -1,8 +1,10 @@
 // =============================================================================
 // OpenClaw Gateway Client
-// Connects to the OpenClaw runtime gateway via WebSocket, subscribes to system
-// execution events, persists logs to PostgreSQL, and streams output to Redis
-// pub/sub for live dashboard consumption.
+// Connects to the OpenClaw runtime gateway via WebSocket, sends it the runs to
+// start, subscribes to system execution events, persists logs to PostgreSQL,
+// and streams output to Redis pub/sub for live dashboard consumption. On every
+// (re)connect, executions still 'running' in execution_logs are reconciled
+// against the gateway.
 // =============================================================================
 
 import WebSocket from 'ws';
@@ -27,12 +29,13 @@ export type GatewayMessage =
   | ExecutionCompletedMessage
   | ExecutionFailedMessage
   | LogOutputMessage
+  | ReconciledMessage
   | PongMessage
   | SubscribedMessage
   | UnsubscribedMessage
   | ErrorMessage;
 
-interface ExecutionStartedMessage {
+export interface ExecutionStartedMessage {
   type: 'execution:started';
   slug: string;
   executionId: string;
@@ -41,7 +44,7 @@ interface ExecutionStartedMessage {
   phasesTotal: number;
 }
 
-interface ExecutionCompletedMessage {
+export interface ExecutionCompletedMessage {
   type: 'execution:completed';
   slug: string;
   executionId: string;
@@ -55,7 +58,7 @@ interface ExecutionCompletedMessage {
   completedAt: string;
 }
 
-interface ExecutionFailedMessage {
+export interface ExecutionFailedMessage {
   type: 'execution:failed';
   slug: string;
   executionId: string;
@@ -75,6 +78,15 @@ interface LogOutputMessage {
   timestamp: string;
 }
 
+/** Reply to `reconcile`; finished executions are replayed as their events first. */
+interface ReconciledMessage {
+  type: 'reconciled';
+  /** Executions the gateway still has in flight */
+  running: string[];
+  /** Executions the gateway has no record of */
+  unknown: string[];
+}
+
 interface PongMessage {
   type: 'pong';
 }
@@ -95,12 +107,35 @@ interface ErrorMessage {
   message: string;
 }
 
+/** Run request for an execution the dispatcher has started. */
+export interface TriggerMessage {
+  executionId: string;
+  slug: string;
+  triggeredBy: string;
+  inputs: Record<string, unknown>;
+  triggeredAt: string;
+}
+
 /** Messages sent TO the OpenClaw gateway. */
 type ClientMessage =
   | { type: 'subscribe'; slug: string }
   | { type: 'unsubscribe'; slug: string }
+  | { type: 'reconcile'; executionIds: string[] }
+  | ({ type: 'trigger' } & TriggerMessage)
   | { type: 'ping' };
 
+/** Connection state reported by /api/status. */
+export interface GatewayStatus {
+  /** OPENCLAW_GATEWAY_URL is set */
+  configured: boolean;
+  connected: boolean;
+  url: string | null;
+  subscriptions: number;
+  connectedAt: string | null;
+  lastError: string | null;
+  reconnectAttempts: number;
+}
+
 // -----------------------------------------------------------------------------
 // Constants
 // -----------------------------------------------------------------------------
@@ -110,6 +145,7 @@ const MAX_BACKOFF_MS = 30_000;
 const BACKOFF_MULTIPLIER = 2;
 const PING_INTERVAL_MS = 30_000;
 const REDIS_CHANNEL_PREFIX = 'openclaw:logs:';
+const LOST_EXECUTION_ERROR = 'Execution lost by the OpenClaw gateway';
 
 // -----------------------------------------------------------------------------
 // Module state
@@ -121,9 +157,18 @@ let currentBackoffMs = INITIAL_BACKOFF_MS;
 let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
 let pingTimer: ReturnType<typeof setInterval> | null = null;
 let intentionalClose = false;
+let connectedAt: string | null = null;
+let lastError: string | null = null;
+let reconnectAttempts = 0;
 
 const subscribedSlugs = new Set<string>();
 
+type ExecutionCompletedListener = (msg: ExecutionCompletedMessage) => void;
+const completedListeners = new Set<ExecutionCompletedListener>();
+
+type ExecutionFailedListener = (msg: ExecutionFailedMessage) => void;
+const failedListeners = new Set<ExecutionFailedListener>();
+
 // Redis publisher — dedicated connection for pub/sub publishing.
 // Lazy-initialized on first use to avoid connection when not needed.
 let redisPublisher: Redis | null = null;
@@ -145,6 +190,36 @@ function getRedisPublisher(): Redis {
 // Public API
 // -----------------------------------------------------------------------------
 
+/**
+ * Connect to OPENCLAW_GATEWAY_URL at server start and subscribe every
+ * non-archived deployment. A gateway that is down at boot is retried in the
+ * background with the usual backoff.
+ */
+export async function startGatewayClient(): Promise<void> {
+  const url = process.env.OPENCLAW_GATEWAY_URL;
+  if (!url) {
+    console.log('[openclaw-client] OPENCLAW_GATEWAY_URL not set — gateway client disabled');
+    return;
+  }
+
+  try {
+    const { rows } = await pool.query<{ system_slug: string }>(
+      `SELECT system_slug FROM deployments WHERE status != 'archived'`
+    );
+    for (const row of rows) {
+      subscribedSlugs.add(row.system_slug);
+    }
+  } catch (err) {
+    console.error('[openclaw-client] Failed to load deployments to subscribe:', err);
+  }
+
+  try {
+    await connectToGateway(url);
+  } catch (err) {
+    console.error('[openclaw-client] Gateway unavailable at startup, retrying in background:', err);
+  }
+}
+
 /**
  * Connect to the OpenClaw gateway WebSocket endpoint.
  * Automatically handles reconnection with exponential backoff.
@@ -157,47 +232,22 @@ export async function connectToGateway(url: string): Promise<void> {
   gatewayUrl = url;
   intentionalClose = false;
   currentBackoffMs = INITIAL_BACKOFF_MS;
+  reconnectAttempts = 0;
 
-  return new Promise<void>((resolve, reject) => {
-    try {
-      ws = new WebSocket(url);
-    } catch (err) {
-      reject(new OpenClawError('Failed to create WebSocket', 'connect', err));
-      return;
-    }
-
-    ws.once('open', () => {
-      console.log(`[openclaw-client] Connected to gateway: ${url}`);
-      currentBackoffMs = INITIAL_BACKOFF_MS;
-      startPingInterval();
-      // Re-subscribe to any previously subscribed systems after reconnect
-      for (const slug of subscribedSlugs) {
-        sendMessage({ type: 'subscribe', slug });
-      }
-      resolve();
-    });
-
-    ws.once('error', (err) => {
-      reject(new OpenClawError('WebSocket connection error', 'connect', err));
-    });
-
-    ws.on('message', (data) => {
-      handleMessage(data);
-    });
-
-    ws.on('close', (code, reason) => {
-      console.log(`[openclaw-client] Connection closed: ${code} ${reason.toString()}`);
-      stopPingInterval();
-      if (!intentionalClose) {
-        scheduleReconnect();
-      }
-    });
+  return openSocket(url);
+}
 
-    ws.on('error', (err) => {
-      // After initial connect, log errors instead of throwing
-      console.error('[openclaw-client] WebSocket error:', err.message);
-    });
-  });
+/** Connection state of the gateway client. */
+export function getGatewayStatus(): GatewayStatus {
+  return {
+    configured: Boolean(process.env.OPENCLAW_GATEWAY_URL),
+    connected: ws !== null && ws.readyState === WebSocket.OPEN,
+    url: gatewayUrl,
+    subscriptions: subscribedSlugs.size,
+    connectedAt,
+    lastError,
+    reconnectAttempts,
+  };
 }
 
 /**
@@ -228,6 +278,7 @@ export async function disconnectFromGateway(): Promise<void> {
 
   subscribedSlugs.clear();
   gatewayUrl = null;
+  connectedAt = null;
   console.log('[openclaw-client] Disconnected from gateway');
 }
 
@@ -243,6 +294,66 @@ export function subscribeToSystem(slug: string): void {
   }
 }
 
+/**
+ * Ask the gateway to run an execution; it answers with `execution:started`.
+ * Resolves once the message is written to the connection and rejects with
+ * OpenClawError when the gateway is not connected, so the caller can fail
+ * the run instead of leaving it 'running'.
+ */
+export function sendTrigger(trigger: TriggerMessage): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (!ws || ws.readyState !== WebSocket.OPEN) {
+      reject(new OpenClawError('Gateway not connected', 'not_connected'));
+      return;
+    }
+    const message: ClientMessage = { type: 'trigger', ...trigger };
+    ws.send(JSON.stringify(message), (err) => {
+      if (err) reject(new OpenClawError('Failed to send trigger', 'send', err));
+      else resolve();
+    });
+  });
+}
+
+/**
+ * Be notified after an `execution:completed` event has been persisted
+ * (the operator scheduler uses this to start QA remediation).
+ * Returns a function that removes the listener.
+ */
+export function onExecutionCompleted(listener: ExecutionCompletedListener): () => void {
+  completedListeners.add(listener);
+  return () => {
+    completedListeners.delete(listener);
+  };
+}
+
+/**
+ * Be notified after an `execution:failed` event has been persisted.
+ * Returns a function that removes the listener.
+ */
+export function onExecutionFailed(listener: ExecutionFailedListener): () => void {
+  failedListeners.add(listener);
+  return () => {
+    failedListeners.delete(listener);
+  };
+}
+
+/**
+ * Persist and announce a run event produced outside the gateway (the local
+ * runner in standalone mode), exactly as if the gateway had sent it.
+ */
+export async function recordExecutionEvent(
+  msg: ExecutionStartedMessage | ExecutionCompletedMessage | ExecutionFailedMessage
+): Promise<void> {
+  switch (msg.type) {
+    case 'execution:started':
+      return handleExecutionStarted(msg);
+    case 'execution:completed':
+      return handleExecutionCompleted(msg);
+    case 'execution:failed':
+      return handleExecutionFailed(msg);
+  }
+}
+
 /**
  * Unsubscribe from execution events for a deployed system.
  */
@@ -280,6 +391,9 @@ function handleMessage(data: WebSocket.Data): void {
     case 'log':
       handleLogOutput(msg);
       break;
+    case 'reconciled':
+      handleReconciled(msg);
+      break;
     case 'pong':
       // Heartbeat acknowledged — nothing to do
       break;
@@ -300,11 +414,17 @@ async function handleExecutionStarted(msg: ExecutionStartedMessage): Promise<voi
     const deploymentId = await resolveDeploymentId(msg.slug);
     if (!deploymentId) return;
 
+    // Runs dispatched from here already have their row; runs the gateway
+    // started on its own do not
     await pool.query(
       `INSERT INTO execution_logs (
          id, deployment_id, triggered_by, status,
          phases_total, started_at
-       ) VALUES ($1, $2, $3, $4, $5, $6)`,
+       ) VALUES ($1, $2, $3, $4, $5, $6)
+       ON CONFLICT (id) DO UPDATE SET
+         status = 'running',
+         phases_total = EXCLUDED.phases_total,
+         started_at = COALESCE(execution_logs.started_at, EXCLUDED.started_at)`,
       [msg.executionId, deploymentId, msg.triggeredBy, 'running', msg.phasesTotal, msg.startedAt]
     );
 
@@ -357,6 +477,14 @@ async function handleExecutionCompleted(msg: ExecutionCompletedMessage): Promise
   } catch (err) {
     console.error('[openclaw-client] Failed to persist execution:completed:', err);
   }
+
+  for (const listener of completedListeners) {
+    try {
+      listener(msg);
+    } catch (err) {
+      console.error('[openclaw-client] execution:completed listener failed:', err);
+    }
+  }
 }
 
 async function handleExecutionFailed(msg: ExecutionFailedMessage): Promise<void> {
@@ -390,6 +518,18 @@ async function handleExecutionFailed(msg: ExecutionFailedMessage): Promise<void>
   } catch (err) {
     console.error('[openclaw-client] Failed to persist execution:failed:', err);
   }
+
+  notifyFailed(msg);
+}
+
+function notifyFailed(msg: ExecutionFailedMessage): void {
+  for (const listener of failedListeners) {
+    try {
+      listener(msg);
+    } catch (err) {
+      console.error('[openclaw-client] execution:failed listener failed:', err);
+    }
+  }
 }
 
 function handleLogOutput(msg: LogOutputMessage): void {
@@ -402,6 +542,79 @@ function handleLogOutput(msg: LogOutputMessage): void {
   });
 }
 
+// -----------------------------------------------------------------------------
+// Internal: Reconciliation
+// -----------------------------------------------------------------------------
+
+/**
+ * Ask the gateway about every execution still 'running' — events sent while
+ * we were disconnected are lost, so those rows would otherwise never finish.
+ */
+async function reconcileRunningExecutions(): Promise<void> {
+  const { rows } = await pool.query<{ id: string }>(
+    `SELECT el.id FROM execution_logs el
+     JOIN deployments d ON d.id = el.deployment_id
+     WHERE el.status = 'running' AND d.status != 'archived'`
+  );
+  if (rows.length === 0) return;
+
+  console.log(`[openclaw-client] Reconciling ${rows.length} running execution(s)`);
+  sendMessage({ type: 'reconcile', executionIds: rows.map((row) => row.id) });
+}
+
+/** Executions the gateway no longer knows about are marked failed. */
+async function handleReconciled(msg: ReconciledMessage): Promise<void> {
+  console.log(
+    `[openclaw-client] Reconciled: ${msg.running.length} still running, ${msg.unknown.length} lost`
+  );
+  if (msg.unknown.length === 0) return;
+
+  try {
+    const { rows } = await pool.query<{
+      id: string;
+      system_slug: string;
+      phases_completed: number | null;
+      phases_total: number | null;
+      started_at: string;
+      completed_at: string;
+    }>(
+      `UPDATE execution_logs el SET
+         status = 'failed',
+         error_message = $1,
+         completed_at = now()
+       FROM deployments d
+       WHERE d.id = el.deployment_id AND el.id = ANY($2::uuid[]) AND el.status = 'running'
+       RETURNING el.id, d.system_slug, el.phases_completed, el.phases_total,
+                 el.started_at, el.completed_at`,
+      [LOST_EXECUTION_ERROR, msg.unknown]
+    );
+
+    for (const row of rows) {
+      const completedAt = new Date(row.completed_at).toISOString();
+      publishLogEvent(row.system_slug, {
+        event: 'execution:failed',
+        executionId: row.id,
+        error: LOST_EXECUTION_ERROR,
+        timestamp: completedAt,
+      });
+      notifyFailed({
+        type: 'execution:failed',
+        slug: row.system_slug,
+        executionId: row.id,
+        error: LOST_EXECUTION_ERROR,
+        phasesCompleted: row.phases_completed ?? 0,
+        phasesTotal: row.phases_total ?? 0,
+        durationSeconds: Math.round(
+          (new Date(row.completed_at).getTime() - new Date(row.started_at).getTime()) / 1000
+        ),
+        completedAt,
+      });
+    }
+  } catch (err) {
+    console.error('[openclaw-client] Failed to mark lost executions:', err);
+  }
+}
+
 // -----------------------------------------------------------------------------
 // Internal: Redis pub/sub
 // -----------------------------------------------------------------------------
@@ -436,6 +649,60 @@ async function resolveDeploymentId(slug: string): Promise<string | null> {
 // Internal: WebSocket helpers
 // -----------------------------------------------------------------------------
 
+function openSocket(url: string): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    let socket: WebSocket;
+    try {
+      socket = new WebSocket(url);
+    } catch (err) {
+      reject(new OpenClawError('Failed to create WebSocket', 'connect', err));
+      return;
+    }
+    ws = socket;
+
+    socket.once('open', () => {
+      console.log(`[openclaw-client] Connected to gateway: ${url}`);
+      currentBackoffMs = INITIAL_BACKOFF_MS;
+      reconnectAttempts = 0;
+      connectedAt = new Date().toISOString();
+      lastError = null;
+      startPingInterval();
+      // Re-subscribe to any previously subscribed systems after reconnect
+      for (const slug of subscribedSlugs) {
+        sendMessage({ type: 'subscribe', slug });
+      }
+      reconcileRunningExecutions().catch((err) => {
+        console.error('[openclaw-client] Failed to reconcile running executions:', err);
+      });
+      resolve();
+    });
+
+    socket.once('error', (err) => {
+      reject(new OpenClawError('WebSocket connection error', 'connect', err));
+    });
+
+    socket.on('message', (data) => {
+      handleMessage(data);
+    });
+
+    socket.on('close', (code, reason) => {
+      console.log(`[openclaw-client] Connection closed: ${code} ${reason.toString()}`);
+      stopPingInterval();
+      connectedAt = null;
+      if (ws === socket) ws = null;
+      if (!intentionalClose) {
+        scheduleReconnect();
+      }
+    });
+
+    socket.on('error', (err) => {
+      // After initial connect, log errors instead of throwing
+      lastError = err.message;
+      console.error('[openclaw-client] WebSocket error:', err.message);
+    });
+  });
+}
+
 function sendMessage(msg: ClientMessage): void {
   if (!ws || ws.readyState !== WebSocket.OPEN) {
     console.warn('[openclaw-client] Cannot send — WebSocket not open');
@@ -463,21 +730,23 @@ function stopPingInterval(): void {
 // -----------------------------------------------------------------------------
 
 function scheduleReconnect(): void {
-  if (intentionalClose || !gatewayUrl) return;
+  if (intentionalClose || !gatewayUrl || reconnectTimer) return;
 
   const jitter = Math.random() * currentBackoffMs * 0.3;
   const delayMs = Math.min(currentBackoffMs + jitter, MAX_BACKOFF_MS);
+  // Grows until a connection opens again
+  currentBackoffMs = Math.min(currentBackoffMs * BACKOFF_MULTIPLIER, MAX_BACKOFF_MS);
 
   console.log(`[openclaw-client] Reconnecting in ${Math.round(delayMs)}ms...`);
 
   reconnectTimer = setTimeout(async () => {
     reconnectTimer = null;
+    reconnectAttempts++;
     try {
-      await connectToGateway(gatewayUrl!);
+      await openSocket(gatewayUrl!);
     } catch (err) {
+      // The socket's close handler schedules the next attempt
       console.error('[openclaw-client] Reconnection attempt failed:', err);
-      currentBackoffMs = Math.min(currentBackoffMs * BACKOFF_MULTIPLIER, MAX_BACKOFF_MS);
-      scheduleReconnect();
     }
   }, delayMs);
 }
@@ -0,0 +1,447 @@
+// =============================================================================
+// Operator Scheduler
+// Runs the operator agents in production: the system monitor and the
+// optimization agent on cron schedules, QA remediation whenever an
+// `execution:completed` event carries failing QA scores. Operators are
+// single-flight (remediation per deployment) — a run that would overlap one
+// in progress is recorded as skipped — and every run is persisted to
+// operator_runs.
+// =============================================================================
+
+import { pool } from '../db';
+import { parseCron, startCronTimer, type CronSchedule, type CronTimer } from '../lib/cron';
+import { OperatorError } from '../lib/errors';
+import { runSystemMonitor } from './system-monitor';
+import {
+  fetchExecutionLog,
+  hasQaFailures,
+  runQaRemediation,
+  type ExecutionLog,
+} from './qa-remediation';
+import { runOptimizationAgent } from './optimization-agent';
+import { onExecutionCompleted, type ExecutionCompletedMessage } from './openclaw-client';
+
+// -----------------------------------------------------------------------------
+// Types
+// -----------------------------------------------------------------------------
+
+export type OperatorName = 'system_monitor' | 'remediation' | 'optimization';
+export type OperatorRunTrigger = 'schedule' | 'manual' | 'event';
+export type OperatorRunStatus = 'running' | 'completed' | 'failed' | 'skipped';
+
+export interface OperatorRun {
+  id: string;
+  operatorType: OperatorName;
+  trigger: OperatorRunTrigger;
+  status: OperatorRunStatus;
+  /** Execution ID for remediation runs */
+  subject: string | null;
+  startedAt: string;
+  completedAt: string | null;
+  durationMs: number | null;
+  actionsCount: number;
+  summary: string | null;
+  error: string | null;
+}
+
+export interface OperatorSchedule {
+  operatorType: OperatorName;
+  /** null when the operator only runs on events or on demand */
+  cron: string | null;
+  timezone: string;
+  nextRunAt: string | null;
+  running: boolean;
+}
+
+export interface StartedRun {
+  run: OperatorRun;
+  /** Settles with the final record; already settled for skipped runs */
+  finished: Promise<OperatorRun>;
+}
+
+interface OperatorRunRow {
+  id: string;
+  operator_type: OperatorName;
+  trigger: OperatorRunTrigger;
+  status: OperatorRunStatus;
+  subject: string | null;
+  started_at: string;
+  completed_at: string | null;
+  duration_ms: number | null;
+  actions_count: number;
+  summary: string | null;
+  error_message: string | null;
+}
+
+interface RunOutcome {
+  actionsCount: number;
+  summary: string;
+}
+
+// -----------------------------------------------------------------------------
+// Constants
+// -----------------------------------------------------------------------------
+
+export const OPERATOR_NAMES: OperatorName[] = ['system_monitor', 'remediation', 'optimization'];
+
+/** Defaults; override with OPERATOR_<NAME>_CRON, or set it to `off` */
+const DEFAULT_CRON: Record<OperatorName, string | null> = {
+  system_monitor: '*/5 * * * *',
+  remediation: null,
+  optimization: '0 3 * * 1',
+};
+
+const CRON_ENV: Record<OperatorName, string> = {
+  system_monitor: 'OPERATOR_MONITOR_CRON',
+  remediation: 'OPERATOR_REMEDIATION_CRON',
+  optimization: 'OPERATOR_OPTIMIZATION_CRON',
+};
+
+/** Scheduled remediation sweeps look this far back for unremediated failures */
+const REMEDIATION_SWEEP_WINDOW = '24 hours';
+
+// -----------------------------------------------------------------------------
+// Module state
+// -----------------------------------------------------------------------------
+
+const schedules = new Map<OperatorName, CronSchedule>();
+const timers = new Map<OperatorName, CronTimer>();
+/** Lock keys of runs in progress: the operator, or `remediation:<deploymentId>` */
+const running = new Set<string>();
+let stopCompletedListener: (() => void) | null = null;
+
+// -----------------------------------------------------------------------------
+// Configuration
+// -----------------------------------------------------------------------------
+
+/**
+ * Cron schedule for an operator from the environment. Returns null when the
+ * operator is unscheduled; an invalid expression throws OperatorError.
+ */
+export function operatorCron(operator: OperatorName): CronSchedule | null {
+  const raw = process.env[CRON_ENV[operator]];
+  const expression = raw === undefined || raw.trim() === '' ? DEFAULT_CRON[operator] : raw.trim();
+  if (!expression || expression.toLowerCase() === 'off') return null;
+
+  try {
+    return parseCron(expression, process.env.OPERATOR_TIMEZONE || 'UTC');
+  } catch (err) {
+    throw new OperatorError(
+      'SCHEDULE_INVALID',
+      `${CRON_ENV[operator]}: ${err instanceof Error ? err.message : String(err)}`,
+      'schedule',
+      err
+    );
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Persistence
+// -----------------------------------------------------------------------------
+
+function rowToRun(row: OperatorRunRow): OperatorRun {
+  return {
+    id: row.id,
+    operatorType: row.operator_type,
+    trigger: row.trigger,
+    status: row.status,
+    subject: row.subject,
+    startedAt: row.started_at,
+    completedAt: row.completed_at,
+    durationMs: row.duration_ms,
+    actionsCount: row.actions_count,
+    summary: row.summary,
+    error: row.error_message,
+  };
+}
+
+const RUN_COLUMNS = `id, operator_type, trigger, status, subject, started_at, completed_at,
+  duration_ms, actions_count, summary, error_message`;
+
+async function insertRun(
+  operator: OperatorName,
+  trigger: OperatorRunTrigger,
+  status: 'running' | 'skipped',
+  subject: string | null,
+  summary: string | null
+): Promise<OperatorRun> {
+  const { rows } = await pool.query<OperatorRunRow>(
+    `INSERT INTO operator_runs (operator_type, trigger, status, subject, summary, completed_at, duration_ms)
+     VALUES ($1, $2, $3, $4, $5, ${status === 'skipped' ? 'now(), 0' : 'NULL, NULL'})
+     RETURNING ${RUN_COLUMNS}`,
+    [operator, trigger, status, subject, summary]
+  );
+  return rowToRun(rows[0]);
+}
+
+async function finishRun(
+  id: string,
+  status: 'completed' | 'failed',
+  durationMs: number,
+  outcome: Partial<RunOutcome> & { error?: string }
+): Promise<OperatorRun> {
+  const { rows } = await pool.query<OperatorRunRow>(
+    `UPDATE operator_runs
+     SET status = $1, completed_at = now(), duration_ms = $2,
+         actions_count = $3, summary = $4, error_message = $5
+     WHERE id = $6
+     RETURNING ${RUN_COLUMNS}`,
+    [status, durationMs, outcome.actionsCount ?? 0, outcome.summary ?? null, outcome.error ?? null, id]
+  );
+  return rowToRun(rows[0]);
+}
+
+export async function listOperatorRuns(
+  filters: { operatorType?: OperatorName; status?: OperatorRunStatus; limit?: number; offset?: number } = {}
+): Promise<{ runs: OperatorRun[]; total: number }> {
+  const conditions: string[] = [];
+  const params: unknown[] = [];
+
+  if (filters.operatorType) {
+    params.push(filters.operatorType);
+    conditions.push(`operator_type = $${params.length}`);
+  }
+  if (filters.status) {
+    params.push(filters.status);
+    conditions.push(`status = $${params.length}`);
+  }
+  const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+  const { rows } = await pool.query<OperatorRunRow>(
+    `SELECT ${RUN_COLUMNS} FROM operator_runs ${where}
+     ORDER BY started_at DESC LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+    [...params, filters.limit ?? 50, filters.offset ?? 0]
+  );
+  const { rows: countRows } = await pool.query<{ count: string }>(
+    `SELECT COUNT(*)::text AS count FROM operator_runs ${where}`,
+    params
+  );
+
+  return { runs: rows.map(rowToRun), total: parseInt(countRows[0].count, 10) };
+}
+
+// -----------------------------------------------------------------------------
+// Running operators
+// -----------------------------------------------------------------------------
+
+async function runRemediation(log: ExecutionLog): Promise<RunOutcome> {
+  const actions = await runQaRemediation(log);
+  const escalated = actions.some((a) => a.actionType === 'escalate');
+  return {
+    actionsCount: actions.length,
+    summary: `${actions.length} action(s) for ${log.systemSlug}${escalated ? ', escalated' : ''}`,
+  };
+}
+
+/** Completed executions with failing QA scores that no remediation run has handled */
+async function findUnremediatedExecutions(): Promise<string[]> {
+  const { rows } = await pool.query<{ id: string; qa_scores: Record<string, number> }>(
+    `SELECT el.id, el.qa_scores
+     FROM execution_logs el
+     WHERE el.status = 'completed'
+       AND el.qa_scores IS NOT NULL
+       AND el.completed_at > now() - $1::interval
+       AND NOT EXISTS (
+         SELECT 1 FROM operator_runs r
+         WHERE r.operator_type = 'remediation' AND r.subject = el.id::text
+           AND r.status != 'skipped'
+       )
+     ORDER BY el.completed_at`,
+    [REMEDIATION_SWEEP_WINDOW]
+  );
+  return rows.filter((r) => hasQaFailures(r.qa_scores)).map((r) => r.id);
+}
+
+async function sweepRemediation(): Promise<RunOutcome> {
+  const pending = await findUnremediatedExecutions();
+  let actionsCount = 0;
+
+  let remediated = 0;
+
+  for (const executionId of pending) {
+    const log = await fetchExecutionLog(executionId);
+    const lock = log && lockKey('remediation', log);
+    // Leave deployments that are being remediated right now to the next sweep
+    if (!log || !lock || running.has(lock)) continue;
+
+    running.add(lock);
+    try {
+      actionsCount += (await runRemediation(log)).actionsCount;
+      remediated++;
+    } finally {
+      running.delete(lock);
+    }
+  }
+  return { actionsCount, summary: `Remediated ${remediated} of ${pending.length} execution(s)` };
+}
+
+function lockKey(operator: OperatorName, target?: ExecutionLog): string {
+  return target ? `${operator}:${target.deploymentId}` : operator;
+}
+
+function isRunning(operator: OperatorName): boolean {
+  return Array.from(running).some((key) => key === operator || key.startsWith(`${operator}:`));
+}
+
+function operatorTask(operator: OperatorName, target?: ExecutionLog): () => Promise<RunOutcome> {
+  switch (operator) {
+    case 'system_monitor':
+      return async () => {
+        const actions = await runSystemMonitor();
+        return { actionsCount: actions.length, summary: `${actions.length} unhealthy process(es) handled` };
+      };
+    case 'optimization':
+      return async () => {
+        const report = await runOptimizationAgent();
+        return {
+          actionsCount: report.recommendations.length,
+          summary:
+            `${report.recommendations.length} recommendation(s) over ${report.totalExecutions} execution(s): ` +
+            `${report.autoAppliedCount} auto-applied, ${report.pendingApprovalCount} pending approval`,
+        };
+      };
+    case 'remediation':
+      return target ? () => runRemediation(target) : sweepRemediation;
+  }
+}
+
+/**
+ * Start an operator run unless one is already in progress, in which case a
+ * skipped run is recorded instead. Resolves once the run is recorded; the
+ * work itself continues in the background (see `finished`).
+ */
+export async function startOperatorRun(
+  operator: OperatorName,
+  trigger: OperatorRunTrigger,
+  target?: ExecutionLog
+): Promise<StartedRun> {
+  const subject = target?.id ?? null;
+  const lock = lockKey(operator, target);
+
+  if (running.has(lock)) {
+    console.log(`[operator-scheduler] ${lock} already running — skipping ${trigger} run`);
+    const run = await insertRun(operator, trigger, 'skipped', subject, 'Previous run still in progress');
+    return { run, finished: Promise.resolve(run) };
+  }
+
+  running.add(lock);
+  let run: OperatorRun;
+  try {
+    run = await insertRun(operator, trigger, 'running', subject, null);
+  } catch (err) {
+    running.delete(lock);
+    throw err;
+  }
+
+  console.log(`[operator-scheduler] ${operator} started (${trigger}${subject ? `, ${subject}` : ''})`);
+  const startTime = Date.now();
+
+  const finished = operatorTask(operator, target)()
+    .then(
+      (outcome) => finishRun(run.id, 'completed', Date.now() - startTime, outcome),
+      (err) => {
+        const message = err instanceof Error ? err.message : String(err);
+        console.error(`[operator-scheduler] ${operator} failed:`, message);
+        return finishRun(run.id, 'failed', Date.now() - startTime, { error: message });
+      }
+    )
+    .finally(() => {
+      running.delete(lock);
+    });
+
+  return { run, finished };
+}
+
+/**
+ * Start QA remediation for a completed execution with failing scores.
+ * Returns null when the execution passed QA (nothing to remediate).
+ */
+export async function remediateExecution(
+  executionId: string,
+  trigger: OperatorRunTrigger
+): Promise<StartedRun | null> {
+  const log = await fetchExecutionLog(executionId);
+  if (!log) {
+    throw new OperatorError('EXECUTION_NOT_FOUND', `Execution "${executionId}" not found`, 'remediation');
+  }
+  if (!log.qaScores || !hasQaFailures(log.qaScores)) return null;
+  return startOperatorRun('remediation', trigger, log);
+}
+
+function handleExecutionCompleted(msg: ExecutionCompletedMessage): void {
+  if (!msg.qaScores || !hasQaFailures(msg.qaScores)) return;
+
+  remediateExecution(msg.executionId, 'event')
+    .then((started) => started?.finished)
+    .catch((err) => {
+      console.error(`[operator-scheduler] Remediation for ${msg.executionId} failed to start:`, err);
+    });
+}
+
+// -----------------------------------------------------------------------------
+// Scheduling
+// -----------------------------------------------------------------------------
+
+function armTimer(operator: OperatorName, schedule: CronSchedule): void {
+  const timer = startCronTimer(schedule, () => {
+    startOperatorRun(operator, 'schedule')
+      .then((started) => started.finished)
+      .catch((err) => {
+        console.error(`[operator-scheduler] Scheduled ${operator} run failed to start:`, err);
+      });
+  });
+  if (!timer.nextRunAt) {
+    console.warn(`[operator-scheduler] ${operator} schedule "${schedule.expression}" never fires`);
+  }
+  timers.set(operator, timer);
+}
+
+export function getOperatorSchedules(): OperatorSchedule[] {
+  return OPERATOR_NAMES.map((operator) => {
+    const schedule = schedules.get(operator);
+    return {
+      operatorType: operator,
+      cron: schedule?.expression ?? null,
+      timezone: schedule?.timezone ?? (process.env.OPERATOR_TIMEZONE || 'UTC'),
+      nextRunAt: timers.get(operator)?.nextRunAt?.toISOString() ?? null,
+      running: isRunning(operator),
+    };
+  });
+}
+
+/**
+ * Start the scheduler: arm a timer per scheduled operator and listen for
+ * completed executions. Disabled with OPERATOR_SCHEDULER_ENABLED=false.
+ * Returns a handle with a stop() method.
+ */
+export function startOperatorScheduler(): { stop: () => void } {
+  stopOperatorScheduler();
+
+  if (process.env.OPERATOR_SCHEDULER_ENABLED === 'false') {
+    console.log('[operator-scheduler] Disabled (OPERATOR_SCHEDULER_ENABLED=false)');
+    return { stop: stopOperatorScheduler };
+  }
+
+  for (const operator of OPERATOR_NAMES) {
+    const schedule = operatorCron(operator);
+    if (!schedule) continue;
+    schedules.set(operator, schedule);
+    armTimer(operator, schedule);
+    console.log(
+      `[operator-scheduler] ${operator}: "${schedule.expression}" (${schedule.timezone}), next ${timers.get(operator)?.nextRunAt?.toISOString() ?? 'never'}`
+    );
+  }
+
+  stopCompletedListener = onExecutionCompleted(handleExecutionCompleted);
+  return { stop: stopOperatorScheduler };
+}
+
+export function stopOperatorScheduler(): void {
+  for (const timer of timers.values()) {
+    timer.stop();
+  }
+  timers.clear();
+  schedules.clear();
+  stopCompletedListener?.();
+  stopCompletedListener = null;
+}
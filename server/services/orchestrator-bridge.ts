@@ -9,14 +9,70 @@ import Anthropic from '@anthropic-ai/sdk';
 import { spawn, execSync, ChildProcess } from 'child_process';
 import * as fs from 'fs';
 import * as path from 'path';
+import { v4 as uuidv4 } from 'uuid';
 import {
   emitExecutionLog,
   emitExecutionStepStart,
   emitExecutionStepComplete,
   emitAgentResult,
   emitExecutionReport,
+  emitExecutionPaused,
 } from '../socket/emitter';
+import type {
+  AgentPoolAssignment,
+  ConsensusReport,
+  ConsensusRole,
+  ContentFilterEvent,
+  ResumableRunPayload,
+  RetryAttempt,
+} from '../../shared/socket-events';
 import { SANDBOX_TOOLS, SANDBOX_ROOT } from '../mcp/sandbox-mcp';
+import { openAgentToolset, type AgentToolset, type ToolCallResult } from './agent-tools';
+import {
+  approvalPolicy,
+  describeToolCall,
+  findGatedCommands,
+  gatedAction,
+  requestApproval,
+  type ApprovalDecision,
+} from './approval-gates';
+import {
+  calculateCost,
+  describeTarget,
+  generateWithFailover,
+  lookupPrice,
+  providerConfigError,
+  resolveModelTargets,
+  type ModelTarget,
+} from './providers';
+import { BudgetExceededError, ContentBlockedError, ExecutionError, ProviderError } from '../lib/errors';
+import { parseRetryPolicy, withRetry } from '../lib/retry';
+import { buildPlan, emittedEvents, formatPlan } from './execution-planner';
+import {
+  createBudgetMeter,
+  hasBudget,
+  parseBudgetLimits,
+  type BudgetLimits,
+  type BudgetMeter,
+} from './execution-budget';
+import {
+  deleteCheckpoint,
+  listCheckpoints,
+  loadCheckpoint,
+  saveCheckpoint,
+  toResumableRun,
+  type CheckpointAggregation,
+  type ExecutionCheckpoint,
+} from './execution-checkpoints';
+import {
+  blockedCategories,
+  describeFilterEvents,
+  filterContent,
+  parseContentFilters,
+} from './content-filters';
+import { createPoolRuntime, extractTasks, type PoolRun } from './agent-pools';
+import { loadMemory, parseMemorySettings, recallMemory, recordMemory } from './agent-memory';
+import { aggregateResults, parseAggregation, subAgentsOf } from './consensus';
 
 // ---------------------------------------------------------------------------
 // Types — mirrored from agent-orchestrator/orchestrator/src/workflow/parser.ts
@@ -38,6 +94,7 @@ export interface WorkflowEdge {
   source: string;
   target: string;
   type: string;          // delegation, data, control, event, failover
+  event?: string;        // Event name, for event edges
 }
 
 export interface ParsedWorkflow {
@@ -49,6 +106,7 @@ export interface ParsedWorkflow {
   edges: WorkflowEdge[];
   agents: WorkflowNode[];
   departments: WorkflowNode[];
+  pools: WorkflowNode[];
   mcpServers: WorkflowNode[];
   skills: WorkflowNode[];
   hooks: WorkflowNode[];
@@ -58,16 +116,6 @@ export interface ParsedWorkflow {
 // Types — mirrored from agent-orchestrator/orchestrator/src/workflow/engine.ts
 // ---------------------------------------------------------------------------
 
-interface ExecutionPhase {
-  name: string;
-  agents: WorkflowNode[];
-  parallel: boolean;
-}
-
-interface ExecutionPlan {
-  phases: ExecutionPhase[];
-}
-
 export interface AgentResult {
   agentId: string;
   agentLabel: string;
@@ -76,6 +124,20 @@ export interface AgentResult {
   tokensUsed: { input: number; output: number };
   durationMs: number;
   cost: number;
+  /** Content filter hits on this agent's input, tool results and output */
+  filterEvents?: ContentFilterEvent[];
+  /** Set when the agent ran a task as an instance of an agent pool */
+  pool?: AgentPoolAssignment;
+  /** Set when the agent ran to vote on, decide or merge a coordinator's results */
+  consensus?: ConsensusRole;
+  /** Failed model calls, retried or not, in order */
+  attempts?: RetryAttempt[];
+}
+
+interface AgentOutcome {
+  status: AgentResult['status'] | 'skipped';
+  output: string;
+  events: Set<string>;
 }
 
 interface PhaseReport {
@@ -85,6 +147,7 @@ interface PhaseReport {
 }
 
 export interface ExecutionReport {
+  runId: string;
   workflow: string;
   startedAt: string;
   completedAt: string;
@@ -92,7 +155,47 @@ export interface ExecutionReport {
   totalCost: number;
   totalTokens: { input: number; output: number };
   phases: PhaseReport[];
-  status: 'success' | 'partial' | 'failed';
+  /** `paused` runs stopped between phases and left a checkpoint to resume from */
+  status: 'success' | 'partial' | 'failed' | 'paused' | 'budget_exceeded';
+  /** The limit that stopped a `budget_exceeded` run */
+  budgetExceeded?: BudgetExceededSummary;
+  /** Content filter hits across all agents, in run order */
+  contentFilterEvents?: ContentFilterEvent[];
+  /** How coordinators aggregated their sub-agents' results */
+  consensus?: ConsensusReport[];
+}
+
+interface BudgetExceededSummary {
+  scope: 'agent' | 'run';
+  subject: string;
+  limit: 'tokens' | 'cost';
+  max: number;
+  used: number;
+}
+
+function summarizeBudgetError(error: BudgetExceededError): BudgetExceededSummary {
+  return {
+    scope: error.scope,
+    subject: error.subject,
+    limit: error.limit,
+    max: error.max,
+    used: error.used,
+  };
+}
+
+/** Run-wide budget shared by every agent in an execution */
+interface RunBudget {
+  meter: BudgetMeter;
+  /** Called once per trip; stops the whole run */
+  onExceeded: (error: BudgetExceededError) => void;
+}
+
+interface RunAgentOptions {
+  /**
+   * Set for consensus runs. They neither recall nor record memory (their
+   * prompt is a ballot, not the agent's task); ballots also get no tools.
+   */
+  aggregation?: ConsensusRole['role'];
 }
 
 // ---------------------------------------------------------------------------
@@ -140,6 +243,7 @@ interface CanvasEdge {
   source: string;
   target: string;
   type?: string;
+  label?: string;
   data?: Record<string, unknown>;
 }
 
@@ -173,11 +277,13 @@ function convertToWorkflow(
     source: e.source,
     target: e.target,
     type: e.type || (e.data?.type as string) || (e.data?.edgeType as string) || 'default',
+    event: (e.data?.event as string) || e.label || undefined,
   }));
 
   // Categorize nodes
   const agents = nodes.filter((n) => n.nodeType === 'AGENT');
   const departments = nodes.filter((n) => n.nodeType === 'DEPARTMENT');
+  const pools = nodes.filter((n) => n.nodeType === 'AGENT_POOL');
   const mcpServers = nodes.filter((n) => n.nodeType === 'MCP_SERVER');
   const skills = nodes.filter((n) => n.nodeType === 'SKILL');
   const hooks = nodes.filter((n) => n.nodeType === 'HOOK');
@@ -191,6 +297,7 @@ function convertToWorkflow(
     edges,
     agents,
     departments,
+    pools,
     mcpServers,
     skills,
     hooks,
@@ -198,138 +305,164 @@ function convertToWorkflow(
 }
 
 // ---------------------------------------------------------------------------
-// Execution Plan Builder — adapted from WorkflowEngine.buildPlan()
+// Agent Runner — adapted from AgentRunner.executeAgent()
 // ---------------------------------------------------------------------------
 
-function buildPlan(workflow: ParsedWorkflow, logger: BridgeLogger): ExecutionPlan {
-  const { agents, edges } = workflow;
-  const agentMap = new Map(agents.map((a) => [a.id, a]));
-
-  // Find delegation edges
-  const delegationEdges = edges.filter((e) => e.type === 'delegation');
-  const targetsOfDelegation = new Set(delegationEdges.map((e) => e.target));
-  const sourcesOfDelegation = new Set(delegationEdges.map((e) => e.source));
-
-  // Orchestrators: delegate but aren't delegated to
-  const orchestrators = agents.filter(
-    (a) => sourcesOfDelegation.has(a.id) && !targetsOfDelegation.has(a.id)
-  );
+/** Upper bound on model turns per agent when it keeps calling tools */
+const MAX_TOOL_ITERATIONS = 25;
 
-  // Team leads: receive delegation and also delegate
-  const leads = agents.filter(
-    (a) => targetsOfDelegation.has(a.id) && sourcesOfDelegation.has(a.id)
-  );
-
-  // Specialists: receive delegation but don't delegate
-  const specialists = agents.filter(
-    (a) => targetsOfDelegation.has(a.id) && !sourcesOfDelegation.has(a.id)
-  );
-
-  // Auditors: receive control edges
-  const controlTargets = new Set(
-    edges.filter((e) => e.type === 'control').map((e) => e.target)
+/**
+ * Skills attached to an agent — named in its `skills` list or connected by
+ * an edge — appended to its system prompt so test runs see the same
+ * instructions a deployed agent gets in its CLAUDE.md.
+ */
+function buildSkillsPrompt(agent: WorkflowNode, workflow: ParsedWorkflow): string {
+  const referenced = new Set(
+    Array.isArray(agent.config.skills) ? agent.config.skills.map(String) : []
   );
-  const auditors = agents.filter((a) => controlTargets.has(a.id));
-
-  // Data edges between agents
-  const dataEdges = edges.filter(
-    (e) => e.type === 'data' && agentMap.has(e.source) && agentMap.has(e.target)
+  const connected = new Set(
+    workflow.edges
+      .filter((e) => e.source === agent.id || e.target === agent.id)
+      .map((e) => (e.source === agent.id ? e.target : e.source))
   );
 
-  const phases: ExecutionPhase[] = [];
-
-  // Phase 0: Orchestrator intake
-  if (orchestrators.length > 0) {
-    phases.push({ name: 'Intake', agents: orchestrators, parallel: false });
-  }
-
-  // Determine lead order from data edges between leads
-  const leadOrder: WorkflowNode[] = [];
-  const visitedLeads = new Set<string>();
-
-  for (const edge of dataEdges) {
-    const src = agentMap.get(edge.source);
-    const tgt = agentMap.get(edge.target);
-    if (src && tgt && leads.includes(src) && leads.includes(tgt)) {
-      if (!visitedLeads.has(src.id)) {
-        leadOrder.push(src);
-        visitedLeads.add(src.id);
-      }
-      if (!visitedLeads.has(tgt.id)) {
-        leadOrder.push(tgt);
-        visitedLeads.add(tgt.id);
-      }
-    }
-  }
-
-  // Add any leads not in the data-edge order
-  for (const lead of leads) {
-    if (!visitedLeads.has(lead.id)) {
-      leadOrder.push(lead);
-    }
-  }
-
-  // Build department phases from lead order
-  for (const lead of leadOrder) {
-    const deptId = lead.parentId || 'unknown';
-    const deptAgents = specialists.filter((s) => s.parentId === deptId);
-
-    phases.push({
-      name: `${lead.label} Phase`,
-      agents: [lead, ...deptAgents],
-      parallel: deptAgents.length > 1,
+  const sections = workflow.skills
+    .filter((skill) => {
+      const name = (skill.config.name as string) || skill.label;
+      return connected.has(skill.id) || referenced.has(name);
+    })
+    .map((skill) => {
+      const name = (skill.config.name as string) || skill.label;
+      const description = skill.config.description as string | undefined;
+      const content = skill.config.content as string | undefined;
+      return [`### ${name}`, description, content].filter(Boolean).join('\n\n');
     });
-  }
 
-  // If no delegation structure, treat all agents as a single sequential phase
-  if (phases.length === 0 && agents.length > 0) {
-    phases.push({
-      name: 'Execution',
-      agents,
-      parallel: false,
-    });
-  }
+  return sections.length > 0 ? `\n\n## Skills\n\n${sections.join('\n\n')}` : '';
+}
 
-  // Quality gate phase
-  if (auditors.length > 0) {
-    phases.push({ name: 'Quality Gate', agents: auditors, parallel: false });
-  }
+function formatDecision(decision: ApprovalDecision): string {
+  const verdict = decision.approved ? '✓ approved' : '✗ rejected';
+  const by = decision.decidedBy === 'user' ? '' : ` (${decision.decidedBy})`;
+  return `${verdict}${by}${decision.reason ? `: ${decision.reason}` : ''}`;
+}
 
-  logger.info(
-    {
-      phases: phases.length,
-      totalAgents: phases.reduce((sum, p) => sum + p.agents.length, 0),
-    },
-    'Execution plan built'
+/** A pool succeeds when every task does; multi-task output keeps one section per task */
+function poolOutcome(
+  pool: WorkflowNode,
+  run: PoolRun,
+  log: (msg: string, stream?: 'stdout' | 'stderr') => void
+): Pick<AgentResult, 'status' | 'output'> {
+  const succeeded = run.tasks.filter((t) => t?.status === 'success').length;
+  log(
+    `  [POOL] ${pool.label}: ${succeeded}/${run.tasks.length} task(s) succeeded`,
+    succeeded === run.tasks.length ? 'stdout' : 'stderr'
   );
 
-  return { phases };
+  const output =
+    run.tasks.length === 1
+      ? run.tasks[0]?.output ?? `No instance of ${pool.label} ran the task`
+      : run.tasks.map((t, i) => `## Task ${i + 1}\n${t?.output ?? 'Not run'}`).join('\n\n');
+  const timedOut = run.tasks.every((t) => t?.status === 'success' || t?.status === 'timeout');
+  return {
+    status: succeeded === run.tasks.length ? 'success' : timedOut ? 'timeout' : 'error',
+    output,
+  };
 }
 
-// ---------------------------------------------------------------------------
-// Agent Runner — adapted from AgentRunner.executeAgent()
-// ---------------------------------------------------------------------------
+function previewToolResult(content: string): string {
+  const flat = content.replace(/\s+/g, ' ').trim();
+  return flat.length > 200 ? `${flat.slice(0, 200)}…` : flat;
+}
+
+/** Toolset of runs that may not call tools */
+const NO_TOOLS: AgentToolset = {
+  tools: [],
+  call: async (name) => ({ content: JSON.stringify({ success: false, error: `Unknown tool: ${name}` }), isError: true }),
+  close: async () => {},
+};
 
 async function runAgent(
-  client: Anthropic,
   agent: WorkflowNode,
+  workflow: ParsedWorkflow,
   input: string,
   context: Record<string, unknown>,
   sessionId: string,
   logger: BridgeLogger,
-  abortSignal?: AbortSignal
+  abortSignal?: AbortSignal,
+  budget?: RunBudget,
+  options: RunAgentOptions = {}
 ): Promise<AgentResult> {
   const config = agent.config;
-  const model = (config.model as string) || 'claude-sonnet-4-5-20250929';
+  const ballot = options.aggregation === 'ballot';
+  const targets = resolveModelTargets(config, workflow.agents.filter((a) => a.id !== agent.id));
   const maxTokens = (config.maxTokens as number) || 4096;
   const temperature = (config.temperature as number) || 0.5;
+  // Memory from earlier runs of this system rides along in the system prompt
+  const memorySettings = options.aggregation ? null : parseMemorySettings(config.memory);
+  const recalled = memorySettings
+    ? recallMemory(loadMemory(workflow.name, agent.id), memorySettings, input, sessionId)
+    : null;
   const systemPrompt =
-    (config.systemPrompt as string) || `You are ${agent.label}.`;
+    ((config.systemPrompt as string) || `You are ${agent.label}.`) +
+    buildSkillsPrompt(agent, workflow) +
+    (recalled?.prompt ?? '');
   const timeoutMs =
     ((config.guardrails as Record<string, unknown>)?.timeoutSeconds as number || 120) * 1000;
+  const log = (msg: string, stream: 'stdout' | 'stderr' = 'stdout') =>
+    emitExecutionLog(sessionId, msg, stream);
 
-  logger.info({ agent: agent.label, model, temperature }, 'Executing agent');
+  logger.info(
+    {
+      agent: agent.label,
+      model: describeTarget(targets[0]),
+      failover: targets.length > 1 ? targets.slice(1).map(describeTarget).join(' → ') : undefined,
+      temperature,
+    },
+    'Executing agent'
+  );
   const startTime = Date.now();
+  const unpriced = new Set<string>();
+
+  // Usage is metered live from the provider stream so budgets trip mid-turn
+  const tokensUsed = { input: 0, output: 0 };
+  let cost = 0;
+  const agentMeter = createBudgetMeter('agent', agent.label, parseBudgetLimits(config.guardrails));
+  let budgetError: BudgetExceededError | null = null;
+
+  // Content filters screen what the agent reads and what it hands downstream
+  const filters = parseContentFilters(config.guardrails);
+  const filterEvents: ContentFilterEvent[] = [];
+  const screen = (text: string, stage: ContentFilterEvent['stage'], tool?: string) => {
+    if (!filters) return { text, blocked: false, events: [] as ContentFilterEvent[] };
+    const outcome = filterContent(text, filters, stage, {
+      agentId: agent.id,
+      agentLabel: agent.label,
+      ...(tool ? { tool } : {}),
+    });
+    if (outcome.events.length > 0) {
+      filterEvents.push(...outcome.events);
+      log(
+        `  [FILTER] ${agent.label} ${stage.replace('_', ' ')}${tool ? ` (${tool})` : ''}: ${describeFilterEvents(outcome.events)}`,
+        outcome.blocked ? 'stderr' : 'stdout'
+      );
+    }
+    return outcome;
+  };
+  const withFilterEvents = () => (filterEvents.length > 0 ? { filterEvents } : {});
+
+  // Rate limits, overload, 5xx, timeouts and network errors are retried with backoff
+  const retryPolicy = parseRetryPolicy(config);
+  const attempts: RetryAttempt[] = [];
+  const onAttempt = (failed: RetryAttempt) => {
+    attempts.push(failed);
+    if (failed.delayMs !== undefined) {
+      log(
+        `  [RETRY] ${agent.label}: ${failed.reason} — attempt ${failed.attempt + 1}/${retryPolicy.maxRetries + 1} in ${(failed.delayMs / 1000).toFixed(1)}s`
+      );
+    }
+  };
+  const withReport = () => ({ ...withFilterEvents(), ...(attempts.length > 0 ? { attempts } : {}) });
 
   try {
     // Check if already aborted
@@ -337,69 +470,283 @@ async function runAgent(
       throw new Error('Execution cancelled');
     }
 
-    // Set up timeout
+    const task = screen(
+      Object.keys(context).length > 0 ? `## Context\n${JSON.stringify(context, null, 2)}\n\n## Task\n${input}` : input,
+      'input'
+    );
+    if (task.blocked) {
+      throw new ContentBlockedError(agent.label, 'input', blockedCategories(task.events));
+    }
+    if (recalled?.prompt) {
+      log(
+        `  [MEMORY] ${agent.label}: recalled ${recalled.entries} run(s)${recalled.summary ? ' + summary' : ''} (~${recalled.tokens} tokens)`
+      );
+    }
+
+    // Slash commands marked requiresApproval gate the whole agent run
+    const approval = approvalPolicy(config);
+    const commands = (ballot ? [] : findGatedCommands(agent, workflow)).map(
+      (c) => `/${(c.config.name as string) || c.label}`
+    );
+    if (commands.length > 0) {
+      log(`  [APPROVAL] ${agent.label} is waiting for approval to run ${commands.join(', ')}`);
+      const decision = await requestApproval(
+        {
+          sessionId,
+          agentId: agent.id,
+          agentLabel: agent.label,
+          action: 'command',
+          tool: commands.join(', '),
+          summary: `Run ${agent.label} for ${commands.join(', ')}`,
+          input: { brief: input },
+        },
+        approval,
+        abortSignal
+      );
+      log(`  [APPROVAL] ${agent.label} → ${commands.join(', ')}: ${formatDecision(decision)}`);
+      if (!decision.approved) {
+        throw new Error(`Approval rejected for ${commands.join(', ')}${decision.reason ? `: ${decision.reason}` : ''}`);
+      }
+    }
+
+    // Set up timeout — suspended while the agent waits on an approval
     const controller = new AbortController();
-    const timeout = setTimeout(() => controller.abort(), timeoutMs);
+    let remainingMs = timeoutMs;
+    let armedAt = Date.now();
+    let timeout = setTimeout(() => controller.abort(), remainingMs);
+    const suspendTimeout = () => {
+      clearTimeout(timeout);
+      remainingMs -= Date.now() - armedAt;
+    };
+    const resumeTimeout = () => {
+      armedAt = Date.now();
+      timeout = setTimeout(() => controller.abort(), Math.max(remainingMs, 0));
+    };
+
+    // Running usage of the current attempt; a new target starts a new attempt
+    let attempt: { target: string; input: number; output: number; cost: number } | null = null;
+    const onUsage = (usage: { input: number; output: number }, target: ModelTarget) => {
+      const key = describeTarget(target);
+      if (!attempt || attempt.target !== key) {
+        attempt = { target: key, input: 0, output: 0, cost: 0 };
+      }
+      const usageCost = calculateCost(target, usage);
+      const delta = {
+        input: usage.input - attempt.input,
+        output: usage.output - attempt.output,
+        cost: usageCost - attempt.cost,
+      };
+      attempt = { target: key, ...usage, cost: usageCost };
+
+      tokensUsed.input += delta.input;
+      tokensUsed.output += delta.output;
+      cost += delta.cost;
+      agentMeter.add(delta.input + delta.output, delta.cost);
+      budget?.meter.add(delta.input + delta.output, delta.cost);
+
+      if (!budgetError) {
+        budgetError = agentMeter.exceeded() ?? budget?.meter.exceeded() ?? null;
+        if (budgetError) {
+          controller.abort();
+          budget?.onExceeded(budgetError);
+        }
+      }
+    };
 
     // Also abort if external signal fires
     const onExternalAbort = () => controller.abort();
     abortSignal?.addEventListener('abort', onExternalAbort);
 
+    // Inside the try so the timer and abort listener are released if startup fails
+    let closeToolset = async () => {};
     try {
-      // Use streaming API — required for Opus models (operations >10min)
-      // and beneficial for all models (enables real-time log output)
-      const stream = client.messages.stream({
-        model,
-        max_tokens: maxTokens,
-        temperature,
-        system: systemPrompt,
-        messages: [
-          {
-            role: 'user',
-            content: context
-              ? `## Context\n${JSON.stringify(context, null, 2)}\n\n## Task\n${input}`
-              : input,
-          },
-        ],
-      });
+      // Spawn connected MCP servers and collect the tools this agent may call
+      const toolset = ballot ? NO_TOOLS : await openAgentToolset(agent, workflow, sessionId, log);
+      closeToolset = () => toolset.close();
+      if (toolset.tools.length > 0) {
+        logger.info({ agent: agent.label, tools: toolset.tools.length }, 'Tools available');
+      }
+
+      const messages: Anthropic.MessageParam[] = [{ role: 'user', content: task.text }];
 
-      // Collect streamed text chunks
       let output = '';
-      stream.on('text', (text) => {
-        output += text;
-      });
+      let iteration = 0;
+      let targetIndex = 0;
+
+      // Tool-use loop: keep calling the model until it stops asking for tools
+      while (true) {
+        if (budgetError) throw budgetError;
+        if (controller.signal.aborted) {
+          const abortError = new Error(abortSignal?.aborted ? 'Execution cancelled' : 'Agent timed out');
+          abortError.name = 'AbortError';
+          throw abortError;
+        }
+
+        iteration++;
+
+        // Walk the failover chain on 429/5xx/timeouts; once an agent has
+        // failed over it stays on that target for the rest of its turns.
+        // When the whole chain fails, the call is retried per the policy
+        const { response, target, index } = await withRetry(
+          () => {
+            attempt = null;
+            return generateWithFailover(
+              targets,
+              {
+                system: systemPrompt,
+                messages,
+                tools: toolset.tools,
+                maxTokens,
+                temperature,
+                signal: controller.signal,
+              },
+              {
+                startIndex: targetIndex,
+                onUsage,
+                onFailover: (from, to, error) =>
+                  logger.warn(
+                    { agent: agent.label, from: describeTarget(from), to: describeTarget(to), error: error.message },
+                    'Failing over'
+                  ),
+              }
+            );
+          },
+          retryPolicy,
+          { signal: controller.signal, onAttempt }
+        );
+        targetIndex = index;
+
+        // Settle the turn on the provider's final usage
+        onUsage(response.usage, target);
+        if (budgetError) throw budgetError;
+        if (!lookupPrice(target)) {
+          unpriced.add(describeTarget(target));
+        }
+
+        output += response.content
+          .map((block) => (block.type === 'text' ? block.text : ''))
+          .join('');
+
+        if (response.stopReason !== 'tool_use') break;
+
+        if (iteration >= MAX_TOOL_ITERATIONS) {
+          logger.warn(
+            { agent: agent.label, iterations: iteration },
+            'Tool iteration limit reached'
+          );
+          break;
+        }
+
+        // Execute each requested tool and feed the results back
+        const toolResults: Anthropic.ToolResultBlockParam[] = [];
+        for (const block of response.content) {
+          if (block.type !== 'tool_use') continue;
+
+          let result: ToolCallResult;
+          const action = gatedAction(config, block.name, block.input);
+          if (action) {
+            log(`  [APPROVAL] ${agent.label} is waiting for approval: ${describeToolCall(block.name, block.input)}`);
+            suspendTimeout();
+            const decision = await requestApproval(
+              {
+                sessionId,
+                agentId: agent.id,
+                agentLabel: agent.label,
+                action,
+                tool: block.name,
+                summary: describeToolCall(block.name, block.input),
+                input: block.input,
+              },
+              approval,
+              abortSignal
+            );
+            resumeTimeout();
+            log(`  [APPROVAL] ${agent.label} → ${block.name}: ${formatDecision(decision)}`);
+            result = decision.approved
+              ? await toolset.call(block.name, block.input)
+              : {
+                  content: `Not approved (${action}): the user ${
+                    decision.decidedBy === 'user' ? 'rejected' : 'did not approve'
+                  } this action${decision.reason ? ` — ${decision.reason}` : ''}. Do not retry it; continue without it.`,
+                  isError: true,
+                };
+          } else {
+            result = await toolset.call(block.name, block.input);
+          }
+          const screened = screen(result.content, 'tool_result', block.name);
+          result = screened.blocked
+            ? {
+                content: `Blocked by content filter (${blockedCategories(screened.events).join(', ')}): the result of ${block.name} was withheld. Continue without it.`,
+                isError: true,
+              }
+            : { ...result, content: screened.text };
+          log(
+            `  [TOOL] ${result.isError ? '✗' : '✓'} ${agent.label} → ${block.name}: ${previewToolResult(result.content)}`,
+            result.isError ? 'stderr' : 'stdout'
+          );
+          toolResults.push({
+            type: 'tool_result',
+            tool_use_id: block.id,
+            content: result.content,
+            ...(result.isError ? { is_error: true } : {}),
+          });
+        }
+
+        messages.push({ role: 'assistant', content: response.content });
+        messages.push({ role: 'user', content: toolResults });
+        output += '\n';
+      }
+
+      const finalOutput = screen(output.trim(), 'output');
+      if (finalOutput.blocked) {
+        throw new ContentBlockedError(agent.label, 'output', blockedCategories(finalOutput.events));
+      }
 
-      // Wait for the stream to complete and get the final message
-      const finalMessage = await stream.finalMessage();
+      if (memorySettings) {
+        await recordMemory({
+          system: workflow.name,
+          agent: { id: agent.id, label: agent.label },
+          settings: memorySettings,
+          sessionId,
+          task: input,
+          output: finalOutput.text,
+          log,
+          // Summaries are written by the agent's own model and billed to the agent
+          summarize: async (request) => {
+            attempt = null;
+            const { response, target } = await generateWithFailover(
+              targets,
+              {
+                system: request.system,
+                messages: [{ role: 'user', content: request.prompt }],
+                maxTokens: request.maxTokens,
+                temperature: 0,
+                signal: controller.signal,
+              },
+              { startIndex: targetIndex, onUsage }
+            );
+            onUsage(response.usage, target);
+            return response.content.map((block) => (block.type === 'text' ? block.text : '')).join('');
+          },
+        });
+      }
 
       clearTimeout(timeout);
       abortSignal?.removeEventListener('abort', onExternalAbort);
 
       const durationMs = Date.now() - startTime;
-      const tokensUsed = {
-        input: finalMessage.usage.input_tokens,
-        output: finalMessage.usage.output_tokens,
-      };
+      const servedBy = describeTarget(targets[targetIndex]);
 
-      // Cost estimate (Claude pricing)
-      const inputCostPer1M = model.includes('opus')
-        ? 15
-        : model.includes('haiku')
-        ? 0.25
-        : 3;
-      const outputCostPer1M = model.includes('opus')
-        ? 75
-        : model.includes('haiku')
-        ? 1.25
-        : 15;
-      const cost =
-        (tokensUsed.input / 1_000_000) * inputCostPer1M +
-        (tokensUsed.output / 1_000_000) * outputCostPer1M;
+      for (const model of unpriced) {
+        logger.warn({ agent: agent.label, model }, 'No price configured; cost reported as $0');
+      }
 
       logger.info(
         {
           agent: agent.label,
           durationMs,
+          model: servedBy,
+          iterations: iteration,
           tokens: `${tokensUsed.input}in/${tokensUsed.output}out`,
           cost: `$${cost.toFixed(4)}`,
         },
@@ -410,17 +757,36 @@ async function runAgent(
         agentId: agent.id,
         agentLabel: agent.label,
         status: 'success',
-        output,
+        output: finalOutput.text,
         tokensUsed,
         durationMs,
         cost,
+        ...withReport(),
       };
     } finally {
       clearTimeout(timeout);
       abortSignal?.removeEventListener('abort', onExternalAbort);
+      await closeToolset();
     }
   } catch (err) {
     const durationMs = Date.now() - startTime;
+
+    // A tripped budget aborts the in-flight request; report the budget, not the abort
+    const tripped = budgetError as BudgetExceededError | null;
+    if (tripped) {
+      logger.error({ agent: agent.label, error: tripped.message }, 'Budget exceeded');
+      return {
+        agentId: agent.id,
+        agentLabel: agent.label,
+        status: 'error',
+        output: `Budget exceeded: ${tripped.message}`,
+        tokensUsed,
+        durationMs,
+        cost,
+        ...withReport(),
+      };
+    }
+
     const errorMessage = err instanceof Error ? err.message : String(err);
 
     logger.error({ agent: agent.label, error: errorMessage }, 'Agent failed');
@@ -428,11 +794,16 @@ async function runAgent(
     return {
       agentId: agent.id,
       agentLabel: agent.label,
-      status: (err as Error)?.name === 'AbortError' ? 'timeout' : 'error',
+      status:
+        (err as Error)?.name === 'AbortError' ||
+        (err instanceof ProviderError && err.code === 'PROVIDER_TIMEOUT')
+          ? 'timeout'
+          : 'error',
       output: errorMessage,
-      tokensUsed: { input: 0, output: 0 },
+      tokensUsed,
       durationMs,
-      cost: 0,
+      cost,
+      ...withReport(),
     };
   }
 }
@@ -443,6 +814,12 @@ async function runAgent(
 
 const activeExecutions = new Map<string, AbortController>();
 
+// Sessions whose run should pause at the next phase boundary
+const pauseRequests = new Set<string>();
+
+// Checkpointed runs executing in this process: runId → sessionId
+const activeRuns = new Map<string, string>();
+
 /**
  * Stop an active execution by session ID
  */
@@ -455,6 +832,61 @@ export function stopExecution(sessionId: string): void {
   }
 }
 
+/**
+ * Ask the session's running workflow to pause once its current phase
+ * finishes. Returns false when the session has no workflow running.
+ */
+export function pauseExecution(sessionId: string): boolean {
+  const running = Array.from(activeRuns.values()).includes(sessionId);
+  if (!running) return false;
+
+  pauseRequests.add(sessionId);
+  emitExecutionLog(sessionId, '[SYSTEM] Pause requested — the run will pause after the current phase');
+  return true;
+}
+
+/**
+ * Checkpointed runs that are not executing: paused runs, plus runs whose
+ * server went away mid-phase. Most recent first.
+ */
+export function listResumableRuns(sessionId?: string): ResumableRunPayload[] {
+  return listCheckpoints()
+    .filter((checkpoint) => !activeRuns.has(checkpoint.runId))
+    .filter((checkpoint) => !sessionId || checkpoint.sessionId === sessionId)
+    .map(toResumableRun);
+}
+
+/** Drop a run's checkpoint so it can no longer be resumed */
+export function discardRun(runId: string): boolean {
+  if (activeRuns.has(runId)) {
+    throw new ExecutionError('RUN_ACTIVE', `Run ${runId} is still executing`, 409);
+  }
+  return deleteCheckpoint(runId);
+}
+
+/**
+ * Continue a checkpointed run from its first incomplete phase, streaming to
+ * `sessionId` (which may differ from the session that started it).
+ */
+export async function resumeWorkflow(runId: string, sessionId: string): Promise<ExecutionReport> {
+  if (activeRuns.has(runId)) {
+    throw new ExecutionError('RUN_ACTIVE', `Run ${runId} is already executing`, 409);
+  }
+  const checkpoint = loadCheckpoint(runId);
+  if (!checkpoint) {
+    throw new ExecutionError('CHECKPOINT_NOT_FOUND', `No checkpoint for run ${runId}`, 404);
+  }
+
+  return executeWorkflow(
+    sessionId,
+    checkpoint.canvasNodes as CanvasNode[],
+    checkpoint.canvasEdges as CanvasEdge[],
+    checkpoint.brief,
+    checkpoint.workflow,
+    { checkpoint }
+  );
+}
+
 // ---------------------------------------------------------------------------
 // Standalone Fixer Agent — Claude Code CLI engine (primary) + API fallback
 // ---------------------------------------------------------------------------
@@ -885,41 +1317,44 @@ export async function executeFixerAgent(
 // Main execution entry point
 // ---------------------------------------------------------------------------
 
+export interface ExecuteWorkflowOptions {
+  /** Pick up a checkpointed run after its last completed phase */
+  checkpoint?: ExecutionCheckpoint;
+  /** Run-wide token / USD limits (WorkflowConfig `budget`) */
+  budget?: BudgetLimits;
+}
+
 /**
  * Execute a workflow from canvas state.
  * Converts canvas nodes/edges → ParsedWorkflow, builds execution plan,
  * runs agents via Claude API, and streams results to TerminalPanel.
+ * A checkpoint is written after every phase so the run can be paused and
+ * resumed, or restarted from the last completed phase after a crash.
+ * Agent guardrail budgets and the run budget are metered from streaming
+ * usage; the first limit to trip stops the run as `budget_exceeded`.
  */
 export async function executeWorkflow(
   sessionId: string,
   canvasNodes: CanvasNode[],
   canvasEdges: CanvasEdge[],
   brief: string = 'Execute the workflow.',
-  workflowName: string = 'Canvas Workflow'
+  workflowName: string = 'Canvas Workflow',
+  options: ExecuteWorkflowOptions = {}
 ): Promise<ExecutionReport> {
   const logger = createSocketLogger(sessionId);
   const log = (msg: string, stream: 'stdout' | 'stderr' = 'stdout') =>
     emitExecutionLog(sessionId, msg, stream);
 
-  // Check for API key
-  const apiKey = process.env.ANTHROPIC_API_KEY;
-  if (!apiKey) {
-    log('═'.repeat(60), 'stderr');
-    log('ERROR: ANTHROPIC_API_KEY not set', 'stderr');
-    log('', 'stderr');
-    log('To run workflows, set your API key:', 'stderr');
-    log('  1. Create server/.env file', 'stderr');
-    log('  2. Add: ANTHROPIC_API_KEY=sk-ant-...', 'stderr');
-    log('  3. Restart the server', 'stderr');
-    log('═'.repeat(60), 'stderr');
-    throw new Error('ANTHROPIC_API_KEY not configured');
-  }
-
   // Set up abort controller
   const abortController = new AbortController();
   activeExecutions.set(sessionId, abortController);
 
-  const startedAt = new Date().toISOString();
+  const resumed = options.checkpoint;
+  const runId = resumed?.runId ?? `run_${uuidv4()}`;
+  activeRuns.set(runId, sessionId);
+  pauseRequests.delete(sessionId);
+
+  const startedAt = resumed?.startedAt ?? new Date().toISOString();
   const startTime = Date.now();
 
   try {
@@ -927,6 +1362,10 @@ export async function executeWorkflow(
     log('VISUAL AGENT BUILDER — Workflow Execution');
     log('═'.repeat(60));
     log('');
+    if (resumed) {
+      log(`[RESUME] Resuming run ${runId} after phase ${resumed.completedPhases}/${resumed.totalPhases}`);
+      log('');
+    }
 
     // Convert canvas state to workflow
     log('[SETUP] Converting canvas to workflow...');
@@ -939,37 +1378,301 @@ export async function executeWorkflow(
       throw new Error('No agents in workflow');
     }
 
+    // Every agent needs at least one configured provider in its chain
+    const missingProviders = new Set<string>();
+    const unreachable = workflow.agents.filter((agent) => {
+      const problems = resolveModelTargets(agent.config).map((t) => providerConfigError(t.provider));
+      problems.forEach((p) => p && missingProviders.add(p));
+      return problems.every(Boolean);
+    });
+    if (unreachable.length > 0) {
+      log('═'.repeat(60), 'stderr');
+      log(`ERROR: No configured model provider for: ${unreachable.map((a) => a.label).join(', ')}`, 'stderr');
+      log('', 'stderr');
+      for (const problem of missingProviders) {
+        log(`  • ${problem}`, 'stderr');
+      }
+      log('', 'stderr');
+      log('Add the missing keys to server/.env and restart the server.', 'stderr');
+      log('═'.repeat(60), 'stderr');
+      throw new Error('Model provider not configured');
+    }
+
     // Build execution plan
     log('[PLANNING] Building execution plan...');
-    const plan = buildPlan(workflow, logger);
+    const plan = buildPlan(workflow);
+    logger.info(
+      {
+        phases: plan.phases.length,
+        totalAgents: plan.phases.reduce((sum, p) => sum + p.agents.length, 0),
+        standby: plan.standby.length || undefined,
+      },
+      'Execution plan built'
+    );
     log(`  > ${plan.phases.length} phase(s) planned`);
-    for (const phase of plan.phases) {
-      log(`    • ${phase.name}: ${phase.agents.map((a) => a.label).join(', ')}${phase.parallel ? ' (parallel)' : ''}`);
+    for (const line of formatPlan(plan, workflow)) {
+      log(line);
     }
     log('');
 
-    // Initialize Anthropic client
-    const client = new Anthropic({ apiKey });
-    log('[INIT] Claude API client initialized');
-    log('');
-
-    // Execute phases
-    const phaseReports: PhaseReport[] = [];
-    let currentContext: Record<string, unknown> = {
+    // Execute phases, restoring completed ones from the checkpoint
+    const phaseReports: PhaseReport[] = resumed ? [...resumed.phases] : [];
+    let currentContext: Record<string, unknown> = resumed ? { ...resumed.context } : {
       brief,
     };
-    let overallStatus: 'success' | 'partial' | 'failed' = 'success';
+    let overallStatus: ExecutionReport['status'] = resumed?.overallStatus ?? 'success';
+    const outcomes = new Map<string, AgentOutcome>(
+      Object.entries(resumed?.outcomes ?? {}).map(([agentId, o]) => [
+        agentId,
+        { status: o.status, output: o.output, events: new Set(o.events) },
+      ])
+    );
+    const firstPhase = resumed ? Math.min(resumed.completedPhases, plan.phases.length) : 0;
+    const finishedAt = new Map<string, number>();
+
+    // Coordinators aggregate their sub-agents' results once all have finished
+    const aggregations = new Map<string, CheckpointAggregation>(Object.entries(resumed?.aggregations ?? {}));
+    const consensusReports: ConsensusReport[] = resumed ? [...(resumed.consensus ?? [])] : [];
+    const coordinators = plan.phases.flatMap((p) =>
+      p.agents.flatMap((agent) => {
+        const settings = agent.nodeType === 'AGENT' ? parseAggregation(agent.config) : null;
+        const subAgents = subAgentsOf(plan, agent.id);
+        return settings && subAgents.length > 0 ? [{ agent, settings, subAgents }] : [];
+      })
+    );
+    const aggregatedBy = new Map<string, string>();
+    for (const { agent, subAgents } of coordinators) {
+      subAgents.forEach((id) => aggregatedBy.has(id) || aggregatedBy.set(id, agent.id));
+    }
+
+    // The run meter starts from whatever the restored phases already spent
+    const budgetLimits = parseBudgetLimits(options.budget ?? resumed?.budget);
+    const spent = phaseReports
+      .flatMap((p) => p.results)
+      .reduce(
+        (sum, r) => ({
+          tokens: sum.tokens + r.tokensUsed.input + r.tokensUsed.output,
+          cost: sum.cost + r.cost,
+        }),
+        { tokens: 0, cost: 0 }
+      );
+    let budgetError: BudgetExceededError | null = null;
+    const runBudget: RunBudget = {
+      meter: createBudgetMeter('run', workflowName, budgetLimits, spent),
+      onExceeded: (error) => {
+        if (budgetError) return;
+        budgetError = error;
+        log(`[BUDGET] ${error.message} — stopping the run`, 'stderr');
+        abortController.abort();
+      },
+    };
+    if (hasBudget(budgetLimits)) {
+      const limits = [
+        budgetLimits.costCap !== undefined && `$${budgetLimits.costCap} cost cap`,
+        budgetLimits.tokenLimit !== undefined && `${budgetLimits.tokenLimit} tokens`,
+      ].filter(Boolean);
+      log(`[BUDGET] Run budget: ${limits.join(', ')}`);
+      log('');
+    }
+
+    const checkpoint = (completedPhases: number, status: ExecutionCheckpoint['status']): ExecutionCheckpoint => {
+      const snapshot: ExecutionCheckpoint = {
+        runId,
+        sessionId,
+        workflow: workflowName,
+        brief,
+        canvasNodes,
+        canvasEdges,
+        status,
+        startedAt,
+        updatedAt: new Date().toISOString(),
+        totalPhases: plan.phases.length,
+        completedPhases,
+        phases: phaseReports,
+        context: currentContext,
+        outcomes: Object.fromEntries(
+          Array.from(outcomes, ([agentId, o]) => [
+            agentId,
+            { status: o.status, output: o.output, events: Array.from(o.events) },
+          ])
+        ),
+        overallStatus: overallStatus === 'partial' || overallStatus === 'failed' ? overallStatus : 'success',
+        ...(hasBudget(budgetLimits) ? { budget: budgetLimits } : {}),
+        ...(aggregations.size > 0
+          ? { aggregations: Object.fromEntries(aggregations), consensus: consensusReports }
+          : {}),
+      };
+      saveCheckpoint(snapshot);
+      return snapshot;
+    };
+    checkpoint(firstPhase, 'running');
+    const labelOf = (agentId: string) =>
+      [...workflow.agents, ...workflow.pools].find((a) => a.id === agentId)?.label ?? agentId;
+    const unitOf = (agentId: string) =>
+      [...workflow.agents, ...workflow.pools].find((a) => a.id === agentId)!;
+    const pools = createPoolRuntime({ workflow, log, signal: abortController.signal });
+
+    const emitResult = (result: AgentResult, phaseIndex: number, phaseName: string) => {
+      emitAgentResult({
+        sessionId,
+        phaseIndex,
+        phaseName,
+        agentId: result.agentId,
+        agentLabel: result.agentLabel,
+        status: result.status,
+        output: result.output,
+        tokensUsed: result.tokensUsed,
+        durationMs: result.durationMs,
+        cost: result.cost,
+        ...(result.pool ? { pool: result.pool } : {}),
+        ...(result.consensus ? { consensus: result.consensus } : {}),
+        ...(result.attempts ? { attempts: result.attempts } : {}),
+      });
+    };
+
+    /**
+     * Run one planned agent or pool: skip it when its event never fired or
+     * all of its upstream agents were skipped, feed it data-edge inputs, and
+     * walk its failover edges until one succeeds. A pool splits the work
+     * into tasks and spreads them over its members. Returns every result
+     * produced, primary first.
+     */
+    const runPlannedAgent = async (
+      agent: WorkflowNode,
+      phaseIndex: number,
+      phaseName: string,
+      context: Record<string, unknown>
+    ): Promise<AgentResult[]> => {
+      const deps = plan.dependencies.get(agent.id) ?? [];
+
+      const eventDeps = deps.filter((d) => d.kind === 'event');
+      if (
+        eventDeps.length > 0 &&
+        !eventDeps.some((d) => outcomes.get(d.agentId)?.events.has(d.event!))
+      ) {
+        const waitingOn = eventDeps.map((d) => `${labelOf(d.agentId)}:${d.event}`).join(' or ');
+        log(`  > Skipping ${agent.label}: no ${waitingOn} event`);
+        outcomes.set(agent.id, { status: 'skipped', output: '', events: new Set() });
+        return [];
+      }
+
+      const upstream = deps.filter((d) => d.kind === 'delegation' || d.kind === 'data');
+      if (upstream.length > 0 && upstream.every((d) => outcomes.get(d.agentId)?.status === 'skipped')) {
+        log(`  > Skipping ${agent.label}: upstream agents were skipped`);
+        outcomes.set(agent.id, { status: 'skipped', output: '', events: new Set() });
+        return [];
+      }
+
+      // Data edges hand the upstream output to this agent as input; sub-agents
+      // of an aggregating coordinator hand over the aggregated result instead
+      const dataInputs: string[] = [];
+      for (const d of deps) {
+        if (d.kind !== 'data' || outcomes.get(d.agentId)?.status !== 'success') continue;
+        const coordinatorId = aggregatedBy.get(d.agentId);
+        const aggregation = coordinatorId ? aggregations.get(coordinatorId) : undefined;
+        if (coordinatorId && aggregation?.status === 'success') {
+          const section = `## Input from ${labelOf(coordinatorId)} (${aggregation.method})\n${aggregation.output}`;
+          if (!dataInputs.includes(section)) dataInputs.push(section);
+        } else {
+          dataInputs.push(`## Input from ${labelOf(d.agentId)}\n${outcomes.get(d.agentId)!.output}`);
+        }
+      }
+      const input = dataInputs.length > 0 ? [brief, ...dataInputs].join('\n\n') : brief;
+
+      const results: AgentResult[] = [];
+      const runMember = async (
+        member: WorkflowNode,
+        taskInput: string,
+        pool?: AgentPoolAssignment
+      ): Promise<AgentResult> => {
+        const result: AgentResult = {
+          ...(await runAgent(
+            member,
+            workflow,
+            taskInput,
+            context,
+            sessionId,
+            logger,
+            abortController.signal,
+            runBudget
+          )),
+          ...(pool ? { pool } : {}),
+        };
+        results.push(result);
+        emitResult(result, phaseIndex, phaseName);
+        return result;
+      };
 
-    for (let i = 0; i < plan.phases.length; i++) {
+      // Delegating agents can hand a pool several tasks as TASK: lines
+      const runUnit = async (unit: WorkflowNode): Promise<Pick<AgentResult, 'status' | 'output'>> => {
+        if (unit.nodeType !== 'AGENT_POOL') {
+          log(`  > Running: ${unit.label}...`);
+          return runMember(unit, input);
+        }
+        const upstreamOutputs = upstream
+          .filter((d) => outcomes.get(d.agentId)?.status === 'success')
+          .map((d) => outcomes.get(d.agentId)!.output);
+        const tasks = extractTasks(input, upstreamOutputs);
+        const run = await pools.run(unit, tasks, runMember);
+        return poolOutcome(unit, run, log);
+      };
+
+      const backups = [...(plan.failover.get(agent.id) ?? [])];
+      const tried = new Set<string>();
+      let current: WorkflowNode | undefined = agent;
+      let final: Pick<AgentResult, 'status' | 'output'> = { status: 'error', output: '' };
+
+      while (current) {
+        tried.add(current.id);
+        final = await runUnit(current);
+
+        if (final.status === 'success' || abortController.signal.aborted) break;
+
+        // Failover edges from the agent that just failed extend the chain
+        backups.push(...(plan.failover.get(current.id) ?? []).filter((b) => b !== current));
+        const next = backups.find((b) => !tried.has(b.id));
+        if (next) {
+          log(`  [FAILOVER] ${current.label} ${final.status === 'timeout' ? 'timed out' : 'failed'} → ${next.label}`);
+        }
+        current = next;
+      }
+
+      outcomes.set(agent.id, {
+        status: final.status,
+        output: final.output,
+        events: emittedEvents(final.status, final.output),
+      });
+      finishedAt.set(agent.id, Date.now());
+
+      // Feed output into context for downstream agents, under the planned
+      // agent's name even when a failover agent produced it
+      if (final.status === 'success') {
+        currentContext[agent.label.replace(/[^a-zA-Z0-9]/g, '_')] = final.output;
+      }
+
+      return results;
+    };
+
+    for (let i = firstPhase; i < plan.phases.length; i++) {
       const phase = plan.phases[i];
 
       // Check abort
+      if (budgetError) break;
       if (abortController.signal.aborted) {
         log('[CANCELLED] Execution stopped by user');
         overallStatus = 'failed';
         break;
       }
 
+      // Pause between phases: keep the checkpoint and hand back control
+      if (pauseRequests.has(sessionId)) {
+        const paused = checkpoint(i, 'paused');
+        log(`[PAUSED] Run ${runId} paused after phase ${i}/${plan.phases.length} — resume it from the Terminal`);
+        emitExecutionPaused(toResumableRun(paused));
+        overallStatus = 'paused';
+        break;
+      }
+
       log(`[PHASE ${i + 1}/${plan.phases.length}] ${phase.name}`);
       log('─'.repeat(40));
 
@@ -985,86 +1688,94 @@ export async function executeWorkflow(
       });
 
       const phaseStart = Date.now();
-      let results: AgentResult[];
+      const results: AgentResult[] = [];
 
       if (phase.parallel && phase.agents.length > 1) {
-        // Run agents in parallel
+        // Run agents in parallel against the context as it stood at phase start
         log(`  Running ${phase.agents.length} agents in parallel...`);
-        results = await Promise.all(
-          phase.agents.map((agent) =>
-            runAgent(client, agent, brief, currentContext, sessionId, logger, abortController.signal)
-          )
+        const phaseContext = { ...currentContext };
+        const batches = await Promise.all(
+          phase.agents.map((agent) => runPlannedAgent(agent, i, phase.name, phaseContext))
         );
-        // Emit structured result for each agent (parallel)
-        for (const result of results) {
-          emitAgentResult({
-            sessionId,
-            phaseIndex: i,
-            phaseName: phase.name,
-            agentId: result.agentId,
-            agentLabel: result.agentLabel,
-            status: result.status,
-            output: result.output,
-            tokensUsed: result.tokensUsed,
-            durationMs: result.durationMs,
-            cost: result.cost,
-          });
-        }
+        results.push(...batches.flat());
       } else {
         // Run agents sequentially
-        results = [];
         for (const agent of phase.agents) {
           if (abortController.signal.aborted) break;
+          results.push(...(await runPlannedAgent(agent, i, phase.name, currentContext)));
+        }
+      }
 
-          log(`  > Running: ${agent.label}...`);
-          const result = await runAgent(
-            client,
-            agent,
+      // Aggregate coordinators whose sub-agents have all finished; voting and
+      // escalation runs are reported with this phase
+      for (const { agent: coordinator, settings, subAgents } of coordinators) {
+        if (aggregations.has(coordinator.id) || abortController.signal.aborted) continue;
+        if (!subAgents.every((id) => outcomes.has(id))) continue;
+        if (subAgents.every((id) => outcomes.get(id)!.status === 'skipped')) continue;
+
+        const aggregated = await aggregateResults(
+          coordinator,
+          subAgents.map((id) => ({
+            agent: unitOf(id),
+            status: outcomes.get(id)!.status,
+            output: outcomes.get(id)!.output,
+            finishedAt: finishedAt.get(id) ?? 0,
+          })),
+          settings,
+          {
+            workflow,
             brief,
-            currentContext,
-            sessionId,
-            logger,
-            abortController.signal
-          );
-          results.push(result);
-
-          // Emit structured result for this agent (sequential)
-          emitAgentResult({
-            sessionId,
-            phaseIndex: i,
-            phaseName: phase.name,
-            agentId: result.agentId,
-            agentLabel: result.agentLabel,
-            status: result.status,
-            output: result.output,
-            tokensUsed: result.tokensUsed,
-            durationMs: result.durationMs,
-            cost: result.cost,
-          });
-
-          // Feed output into context for next agent
-          currentContext[agent.label.replace(/[^a-zA-Z0-9]/g, '_')] = result.output;
+            log,
+            run: async (agent, input, role) => {
+              const result: AgentResult = {
+                ...(await runAgent(
+                  agent,
+                  workflow,
+                  input,
+                  currentContext,
+                  sessionId,
+                  logger,
+                  abortController.signal,
+                  runBudget,
+                  { aggregation: role }
+                )),
+                consensus: { coordinatorId: coordinator.id, role },
+              };
+              results.push(result);
+              emitResult(result, i, phase.name);
+              return result;
+            },
+          }
+        );
+        aggregations.set(coordinator.id, {
+          method: settings.method,
+          status: aggregated.status,
+          output: aggregated.output,
+        });
+        consensusReports.push(aggregated.report);
+        if (aggregated.status === 'success') {
+          currentContext[`${coordinator.label.replace(/[^a-zA-Z0-9]/g, '_')}_${settings.method}`] = aggregated.output;
+        } else if (overallStatus === 'success') {
+          overallStatus = 'partial';
         }
       }
 
-      // Check for failures
-      const failures = results.filter((r) => r.status !== 'success');
+      // Check for failures — an agent recovered by failover counts as a success
+      const ran = phase.agents.filter((a) => {
+        const status = outcomes.get(a.id)?.status;
+        return status !== undefined && status !== 'skipped';
+      });
+      const failures = ran.filter((a) => outcomes.get(a.id)!.status !== 'success');
       if (failures.length > 0) {
-        if (failures.length === results.length) {
+        if (failures.length === ran.length) {
           overallStatus = 'failed';
           log(`  FAILED: All agents in phase failed`, 'stderr');
         } else {
           overallStatus = 'partial';
-          log(`  WARNING: ${failures.length}/${results.length} agents failed`);
+          log(`  WARNING: ${failures.length}/${ran.length} agents failed`);
         }
       }
 
-      // Merge successful outputs into context
-      for (const result of results.filter((r) => r.status === 'success')) {
-        currentContext[result.agentLabel.replace(/[^a-zA-Z0-9]/g, '_')] =
-          result.output;
-      }
-
       const phaseDuration = Date.now() - phaseStart;
       const phaseCost = results.reduce((sum, r) => sum + r.cost, 0);
       const phaseTokens = results.reduce(
@@ -1091,6 +1802,17 @@ export async function executeWorkflow(
         results,
         durationMs: phaseDuration,
       });
+
+      // A phase cut short by Stop is not a completed phase
+      if (!abortController.signal.aborted) {
+        checkpoint(i + 1, 'running');
+      }
+    }
+
+    // A tripped budget overrides whatever the cut-short phase reported
+    const budgetExceeded = budgetError as BudgetExceededError | null;
+    if (budgetExceeded) {
+      overallStatus = 'budget_exceeded';
     }
 
     // Final report
@@ -1102,16 +1824,55 @@ export async function executeWorkflow(
       input: allResults.reduce((sum, r) => sum + r.tokensUsed.input, 0),
       output: allResults.reduce((sum, r) => sum + r.tokensUsed.output, 0),
     };
+    const contentFilterEvents = allResults.flatMap((r) => r.filterEvents ?? []);
+    const filterSummary = contentFilterEvents.length > 0 ? { contentFilterEvents } : {};
+    const consensusSummary = consensusReports.length > 0 ? { consensus: consensusReports } : {};
+
+    if (overallStatus === 'paused') {
+      return {
+        runId,
+        workflow: workflowName,
+        startedAt,
+        completedAt,
+        totalDurationMs,
+        totalCost,
+        totalTokens,
+        phases: phaseReports,
+        status: overallStatus,
+        ...filterSummary,
+        ...consensusSummary,
+      };
+    }
+
+    // Finished or cancelled — nothing left to resume
+    deleteCheckpoint(runId);
 
     log('═'.repeat(60));
-    log(`> Workflow ${overallStatus === 'success' ? 'completed successfully' : overallStatus === 'partial' ? 'completed with warnings' : 'FAILED'}!`);
+    log(
+      `> Workflow ${
+        overallStatus === 'success'
+          ? 'completed successfully'
+          : overallStatus === 'partial'
+            ? 'completed with warnings'
+            : overallStatus === 'budget_exceeded'
+              ? 'stopped: budget exceeded'
+              : 'FAILED'
+      }!`
+    );
     log(`> Duration: ${(totalDurationMs / 1000).toFixed(1)}s`);
     log(`> Total Cost: $${totalCost.toFixed(4)}`);
     log(`> Tokens: ${totalTokens.input} input, ${totalTokens.output} output`);
     log(`> Phases: ${phaseReports.length}, Agents: ${allResults.length}`);
+    if (contentFilterEvents.length > 0) {
+      const byAction = (['redacted', 'flagged', 'blocked'] as const)
+        .map((action) => [action, contentFilterEvents.filter((e) => e.action === action).length] as const)
+        .filter(([, count]) => count > 0);
+      log(`> Content filters: ${byAction.map(([action, count]) => `${count} ${action}`).join(', ')}`);
+    }
     log('═'.repeat(60));
 
     const report: ExecutionReport = {
+      runId,
       workflow: workflowName,
       startedAt,
       completedAt,
@@ -1120,6 +1881,9 @@ export async function executeWorkflow(
       totalTokens,
       phases: phaseReports,
       status: overallStatus,
+      ...(budgetExceeded ? { budgetExceeded: summarizeBudgetError(budgetExceeded) } : {}),
+      ...filterSummary,
+      ...consensusSummary,
     };
 
     // Emit structured execution report to frontend
@@ -1141,14 +1905,22 @@ export async function executeWorkflow(
           tokensUsed: r.tokensUsed,
           durationMs: r.durationMs,
           cost: r.cost,
+          ...(r.pool ? { pool: r.pool } : {}),
+          ...(r.consensus ? { consensus: r.consensus } : {}),
+          ...(r.attempts ? { attempts: r.attempts } : {}),
         })),
         durationMs: p.durationMs,
       })),
-      status: report.status,
+      status: overallStatus,
+      budgetExceeded: report.budgetExceeded,
+      contentFilterEvents: report.contentFilterEvents,
+      consensus: report.consensus,
     });
 
     return report;
   } finally {
     activeExecutions.delete(sessionId);
+    activeRuns.delete(runId);
+    pauseRequests.delete(sessionId);
   }
 }
@@ -5,6 +5,12 @@
 
 import pm2 from 'pm2';
 import { PM2AppConfig } from '../types/registry';
+import {
+  PROCESS_PREFIX,
+  belongsToSystem,
+  parseProcessName,
+  systemProcessName,
+} from '../lib/process-names';
 
 // -----------------------------------------------------------------------------
 // Types
@@ -12,6 +18,10 @@ import { PM2AppConfig } from '../types/registry';
 
 export interface ProcessStatus {
   name: string;
+  /** System slug parsed from the process name, null for non-autopilate processes */
+  systemSlug: string | null;
+  /** Agent slug for per-agent processes, null for legacy single-process systems */
+  agentSlug: string | null;
   pid: number | undefined;
   status: string;
   cpu: number;
@@ -214,15 +224,88 @@ export async function listProcesses(): Promise<ProcessStatus[]> {
   return withPm2(async () => {
     const list = await pm2List();
     return list
-      .filter((proc) => proc.name?.startsWith('autopilate-'))
+      .filter((proc) => proc.name?.startsWith(PROCESS_PREFIX))
       .map(descriptionToStatus);
   });
 }
 
+// -----------------------------------------------------------------------------
+// Public API: system process groups
+// -----------------------------------------------------------------------------
+
+/**
+ * List every process belonging to a system, one per agent.
+ */
+export async function listSystemProcesses(systemSlug: string): Promise<ProcessStatus[]> {
+  return withPm2(async () => {
+    const list = await pm2List();
+    return list
+      .filter((proc) => belongsToSystem(proc.name, systemSlug))
+      .map(descriptionToStatus);
+  });
+}
+
+/**
+ * Stop every process belonging to a system. Returns the names stopped.
+ */
+export async function stopSystemProcesses(systemSlug: string): Promise<string[]> {
+  return withPm2(async () => {
+    const names = await systemProcessNames(systemSlug);
+    for (const name of names) {
+      await pm2Stop(name);
+    }
+    return names;
+  });
+}
+
+/**
+ * Restart every process belonging to a system and wait until all are 'online'.
+ */
+export async function restartSystemProcesses(systemSlug: string): Promise<ProcessStatus[]> {
+  return withPm2(async () => {
+    const names = await systemProcessNames(systemSlug);
+    const statuses: ProcessStatus[] = [];
+    for (const name of names) {
+      await pm2Restart(name);
+      await pollForOnline(name);
+      statuses.push(await getProcessStatusInternal(name));
+    }
+    return statuses;
+  });
+}
+
+/**
+ * Delete every process belonging to a system. Returns the names deleted.
+ */
+export async function deleteSystemProcesses(systemSlug: string): Promise<string[]> {
+  return withPm2(async () => {
+    const names = await systemProcessNames(systemSlug);
+    for (const name of names) {
+      await pm2Delete(name);
+    }
+    return names;
+  });
+}
+
 // -----------------------------------------------------------------------------
 // Internal helpers
 // -----------------------------------------------------------------------------
 
+async function systemProcessNames(systemSlug: string): Promise<string[]> {
+  const list = await pm2List();
+  const names = list
+    .map((proc) => proc.name)
+    .filter((name): name is string => belongsToSystem(name, systemSlug));
+
+  if (names.length === 0) {
+    throw new PM2ProcessError(
+      `No processes found for system: ${systemSlug}`,
+      systemProcessName(systemSlug)
+    );
+  }
+  return names;
+}
+
 async function getProcessStatusInternal(name: string): Promise<ProcessStatus> {
   const descriptions = await pm2Describe(name);
   if (descriptions.length === 0) {
@@ -233,8 +316,10 @@ async function getProcessStatusInternal(name: string): Promise<ProcessStatus> {
 
 function descriptionToStatus(proc: pm2.ProcessDescription): ProcessStatus {
   const env = proc.pm2_env as Record<string, unknown> | undefined;
+  const name = proc.name ?? 'unknown';
   return {
-    name: proc.name ?? 'unknown',
+    name,
+    ...parseProcessName(name),
     pid: proc.pid,
     status: (env?.status as string) ?? 'unknown',
     cpu: (proc.monit?.cpu as number) ?? 0,
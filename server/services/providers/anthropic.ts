@@ -0,0 +1,111 @@
+// =============================================================================
+// Anthropic Provider
+// Streams a Messages API request and normalizes the final message
+// =============================================================================
+
+import Anthropic from '@anthropic-ai/sdk';
+import { ProviderError } from '../../lib/errors';
+import { estimateTokens } from '../execution-budget';
+import {
+  isRetryableStatus,
+  type ModelProvider,
+  type ProviderContentBlock,
+  type ProviderRequest,
+  type ProviderResponse,
+} from './types';
+
+function toProviderError(err: unknown, signal?: AbortSignal): ProviderError {
+  if (err instanceof ProviderError) return err;
+
+  const status = (err as { status?: number })?.status;
+  const name = (err as Error)?.name ?? '';
+  const message = err instanceof Error ? err.message : String(err);
+
+  if (name.includes('Timeout') || signal?.aborted) {
+    return new ProviderError('anthropic', 'TIMEOUT', `Anthropic request timed out: ${message}`, {
+      retryable: true,
+      cause: err,
+    });
+  }
+  return new ProviderError(
+    'anthropic',
+    status === 429 ? 'RATE_LIMITED' : 'REQUEST_FAILED',
+    `Anthropic request failed${status ? ` (${status})` : ''}: ${message}`,
+    { upstreamStatus: status, retryable: isRetryableStatus(status), cause: err }
+  );
+}
+
+export function createAnthropicProvider(apiKey: string): ModelProvider {
+  const client = new Anthropic({ apiKey });
+
+  return {
+    name: 'anthropic',
+
+    async generate(request: ProviderRequest): Promise<ProviderResponse> {
+      try {
+        // Use streaming API — required for Opus models (operations >10min)
+        // and beneficial for all models (enables real-time log output)
+        const stream = client.messages.stream(
+          {
+            model: request.model,
+            max_tokens: request.maxTokens,
+            temperature: request.temperature,
+            system: request.system,
+            ...(request.tools && request.tools.length > 0 ? { tools: request.tools } : {}),
+            messages: request.messages,
+          },
+          request.signal ? { signal: request.signal } : undefined
+        );
+
+        if (request.onText) {
+          stream.on('text', request.onText);
+        }
+
+        if (request.onUsage) {
+          const onUsage = request.onUsage;
+          let streamed = '';
+          stream.on('streamEvent', (event, snapshot) => {
+            if (event.type === 'content_block_delta') {
+              if (event.delta.type === 'text_delta') streamed += event.delta.text;
+              if (event.delta.type === 'input_json_delta') streamed += event.delta.partial_json;
+            }
+            onUsage({
+              input: snapshot.usage.input_tokens,
+              output: Math.max(snapshot.usage.output_tokens, estimateTokens(streamed)),
+            });
+          });
+        }
+
+        const message = await stream.finalMessage();
+        request.onUsage?.({ input: message.usage.input_tokens, output: message.usage.output_tokens });
+
+        const content: ProviderContentBlock[] = [];
+        for (const block of message.content) {
+          if (block.type === 'text') {
+            content.push({ type: 'text', text: block.text });
+          } else if (block.type === 'tool_use') {
+            content.push({
+              type: 'tool_use',
+              id: block.id,
+              name: block.name,
+              input: block.input as Record<string, unknown>,
+            });
+          }
+        }
+
+        return {
+          content,
+          stopReason:
+            message.stop_reason === 'tool_use'
+              ? 'tool_use'
+              : message.stop_reason === 'max_tokens'
+              ? 'max_tokens'
+              : 'end_turn',
+          usage: { input: message.usage.input_tokens, output: message.usage.output_tokens },
+        };
+      } catch (err) {
+        throw toProviderError(err, request.signal);
+      }
+    },
+  };
+}
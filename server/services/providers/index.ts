@@ -0,0 +1,248 @@
+// =============================================================================
+// Model Providers
+// Resolves an agent's provider/model and failoverChain into an ordered list of
+// model targets, and runs requests against them — moving down the chain on
+// rate limits, 5xx responses, timeouts and unconfigured providers.
+// =============================================================================
+
+import { ProviderError } from '../../lib/errors';
+import { createAnthropicProvider } from './anthropic';
+import { createOpenAICompatibleProvider } from './openai-compatible';
+import type { ModelProvider, ModelTarget, ProviderName, ProviderRequest, ProviderResponse } from './types';
+
+export type {
+  ModelProvider,
+  ModelTarget,
+  ProviderName,
+  ProviderRequest,
+  ProviderResponse,
+  ProviderContentBlock,
+} from './types';
+export { calculateCost, lookupPrice, getPriceTable, resetPriceTable, DEFAULT_MODEL_PRICES } from './pricing';
+export type { ModelPrice } from './pricing';
+
+// -----------------------------------------------------------------------------
+// Provider registry
+// -----------------------------------------------------------------------------
+
+export const DEFAULT_PROVIDER: ProviderName = 'anthropic';
+export const DEFAULT_MODEL = 'claude-sonnet-4-5-20250929';
+
+/** Per-attempt timeout before a request counts as failed and the chain moves on */
+export const DEFAULT_ATTEMPT_TIMEOUT_MS = 60_000;
+
+interface ProviderSettings {
+  /** Env var holding the API key (same names the bundle generator writes) */
+  keyEnv?: string;
+  /** Env var overriding the base URL, e.g. to point at a local stand-in */
+  baseUrlEnv: string;
+  defaultBaseUrl?: string;
+}
+
+const PROVIDERS: Record<ProviderName, ProviderSettings> = {
+  anthropic: { keyEnv: 'ANTHROPIC_API_KEY', baseUrlEnv: 'ANTHROPIC_BASE_URL' },
+  openai: { keyEnv: 'OPENAI_API_KEY', baseUrlEnv: 'OPENAI_BASE_URL', defaultBaseUrl: 'https://api.openai.com/v1' },
+  google: {
+    keyEnv: 'GOOGLE_API_KEY',
+    baseUrlEnv: 'GOOGLE_BASE_URL',
+    defaultBaseUrl: 'https://generativelanguage.googleapis.com/v1beta/openai',
+  },
+  azure: { keyEnv: 'AZURE_OPENAI_API_KEY', baseUrlEnv: 'AZURE_OPENAI_BASE_URL' },
+  xai: { keyEnv: 'XAI_API_KEY', baseUrlEnv: 'XAI_BASE_URL', defaultBaseUrl: 'https://api.x.ai/v1' },
+  openrouter: {
+    keyEnv: 'OPENROUTER_API_KEY',
+    baseUrlEnv: 'OPENROUTER_BASE_URL',
+    defaultBaseUrl: 'https://openrouter.ai/api/v1',
+  },
+  ollama: { baseUrlEnv: 'OLLAMA_BASE_URL', defaultBaseUrl: 'http://localhost:11434' },
+};
+
+export function isProviderName(name: string): name is ProviderName {
+  return Object.prototype.hasOwnProperty.call(PROVIDERS, name);
+}
+
+/**
+ * Build the adapter for a provider from the current environment. Throws a
+ * retryable ProviderError when the provider is unknown or has no credentials,
+ * so a failover chain can skip past it.
+ */
+export function getProvider(name: string): ModelProvider {
+  if (!isProviderName(name)) {
+    throw new ProviderError(name, 'NOT_CONFIGURED', `Unknown provider: ${name}`, { retryable: true });
+  }
+
+  const settings = PROVIDERS[name];
+  const apiKey = settings.keyEnv ? process.env[settings.keyEnv] : undefined;
+  if (settings.keyEnv && !apiKey) {
+    throw new ProviderError(name, 'NOT_CONFIGURED', `${settings.keyEnv} is not set`, { retryable: true });
+  }
+
+  if (name === 'anthropic') {
+    return createAnthropicProvider(apiKey!);
+  }
+
+  let baseUrl = process.env[settings.baseUrlEnv] || settings.defaultBaseUrl;
+  if (!baseUrl) {
+    throw new ProviderError(name, 'NOT_CONFIGURED', `${settings.baseUrlEnv} is not set`, { retryable: true });
+  }
+  if (name === 'ollama' && !/\/v1\/?$/.test(baseUrl)) {
+    baseUrl = `${baseUrl.replace(/\/+$/, '')}/v1`;
+  }
+
+  return createOpenAICompatibleProvider({
+    name,
+    baseUrl,
+    // Azure authenticates API keys with its own header rather than Bearer
+    ...(name === 'azure' ? { headers: { 'api-key': apiKey! } } : { apiKey }),
+  });
+}
+
+/**
+ * Why a provider can't be used right now (e.g. "OPENAI_API_KEY is not set"),
+ * or null when it is configured.
+ */
+export function providerConfigError(name: string): string | null {
+  try {
+    getProvider(name);
+    return null;
+  } catch (err) {
+    return `${name}: ${err instanceof Error ? err.message : String(err)}`;
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Failover chain resolution
+// -----------------------------------------------------------------------------
+
+/**
+ * Parse one failoverChain entry: `provider:model`, or a bare model on the
+ * agent's own provider.
+ */
+export function parseModelTarget(entry: string, defaultProvider: ProviderName): ModelTarget {
+  const separator = entry.indexOf(':');
+  if (separator > 0) {
+    const provider = entry.slice(0, separator).trim();
+    if (isProviderName(provider)) {
+      return { provider, model: entry.slice(separator + 1).trim() };
+    }
+  }
+  return { provider: defaultProvider, model: entry.trim() };
+}
+
+/**
+ * The ordered model targets an agent runs against: its own provider/model,
+ * then each failoverChain entry. Entries naming another agent borrow that
+ * agent's provider and model.
+ */
+export function resolveModelTargets(
+  config: Record<string, unknown>,
+  peers: Array<{ label: string; config: Record<string, unknown> }> = []
+): ModelTarget[] {
+  const primary: ModelTarget = {
+    provider: String(config.provider || DEFAULT_PROVIDER) as ProviderName,
+    model: (config.model as string) || DEFAULT_MODEL,
+  };
+
+  const targets: ModelTarget[] = [primary];
+  const chain = Array.isArray(config.failoverChain) ? config.failoverChain.map(String) : [];
+
+  for (const entry of chain) {
+    const peer = peers.find((p) => p.label === entry || p.config.name === entry);
+    const target = peer
+      ? {
+          provider: String(peer.config.provider || DEFAULT_PROVIDER) as ProviderName,
+          model: (peer.config.model as string) || DEFAULT_MODEL,
+        }
+      : parseModelTarget(entry, primary.provider);
+
+    if (!targets.some((t) => t.provider === target.provider && t.model === target.model)) {
+      targets.push(target);
+    }
+  }
+
+  return targets;
+}
+
+export function describeTarget(target: ModelTarget): string {
+  return `${target.provider}:${target.model}`;
+}
+
+// -----------------------------------------------------------------------------
+// Execution
+// -----------------------------------------------------------------------------
+
+export interface FailoverOptions {
+  /** Index of the target to start from (agents stay on a target once they fail over) */
+  startIndex?: number;
+  attemptTimeoutMs?: number;
+  onFailover?: (from: ModelTarget, to: ModelTarget, error: ProviderError) => void;
+  /** Running usage of the current attempt, tagged with the target serving it */
+  onUsage?: (usage: { input: number; output: number }, target: ModelTarget) => void;
+}
+
+export interface FailoverResult {
+  response: ProviderResponse;
+  target: ModelTarget;
+  index: number;
+}
+
+function abortError(message: string): Error {
+  const err = new Error(message);
+  err.name = 'AbortError';
+  return err;
+}
+
+/**
+ * Run a request against the first target that answers. Non-retryable
+ * failures are thrown immediately; when every target fails, the last error
+ * is thrown. Aborting `request.signal` stops the walk with an AbortError.
+ */
+export async function generateWithFailover(
+  targets: ModelTarget[],
+  request: Omit<ProviderRequest, 'model'>,
+  options: FailoverOptions = {}
+): Promise<FailoverResult> {
+  const attemptTimeoutMs = options.attemptTimeoutMs ?? DEFAULT_ATTEMPT_TIMEOUT_MS;
+  let lastError: ProviderError | undefined;
+
+  for (let index = options.startIndex ?? 0; index < targets.length; index++) {
+    const target = targets[index];
+    if (request.signal?.aborted) throw abortError('Execution cancelled');
+
+    // Per-attempt deadline, also cancelled by the caller's signal
+    const attempt = new AbortController();
+    const timer = setTimeout(() => attempt.abort(), attemptTimeoutMs);
+    const onAbort = () => attempt.abort();
+    request.signal?.addEventListener('abort', onAbort);
+
+    try {
+      const provider = getProvider(target.provider);
+      const response = await provider.generate({
+        ...request,
+        model: target.model,
+        signal: attempt.signal,
+        ...(options.onUsage ? { onUsage: (usage) => options.onUsage!(usage, target) } : {}),
+      });
+      return { response, target, index };
+    } catch (err) {
+      if (request.signal?.aborted) throw abortError('Execution cancelled');
+
+      const error =
+        err instanceof ProviderError
+          ? err
+          : new ProviderError(target.provider, 'REQUEST_FAILED', err instanceof Error ? err.message : String(err), {
+              cause: err,
+            });
+      if (!error.retryable) throw error;
+
+      lastError = error;
+      const next = targets[index + 1];
+      if (next) options.onFailover?.(target, next, error);
+    } finally {
+      clearTimeout(timer);
+      request.signal?.removeEventListener('abort', onAbort);
+    }
+  }
+
+  throw lastError ?? new ProviderError('none', 'NOT_CONFIGURED', 'No model targets to run');
+}
@@ -0,0 +1,221 @@
+// =============================================================================
+// OpenAI-Compatible Provider
+// Talks to any `/chat/completions` endpoint — OpenAI, OpenRouter, xAI, Azure
+// OpenAI v1, Gemini's OpenAI endpoint and Ollama all speak this dialect.
+// =============================================================================
+
+import type Anthropic from '@anthropic-ai/sdk';
+import { ProviderError } from '../../lib/errors';
+import {
+  isRetryableStatus,
+  type ModelProvider,
+  type ProviderContentBlock,
+  type ProviderName,
+  type ProviderRequest,
+  type ProviderResponse,
+} from './types';
+
+// -----------------------------------------------------------------------------
+// Wire types (subset of the Chat Completions API)
+// -----------------------------------------------------------------------------
+
+interface ChatToolCall {
+  id: string;
+  type: 'function';
+  function: { name: string; arguments: string };
+}
+
+type ChatMessage =
+  | { role: 'system' | 'user'; content: string }
+  | { role: 'assistant'; content: string | null; tool_calls?: ChatToolCall[] }
+  | { role: 'tool'; tool_call_id: string; content: string };
+
+interface ChatCompletion {
+  choices: Array<{
+    message: { content: string | null; tool_calls?: ChatToolCall[] };
+    finish_reason: string | null;
+  }>;
+  usage?: { prompt_tokens?: number; completion_tokens?: number };
+}
+
+export interface OpenAICompatibleOptions {
+  name: ProviderName;
+  baseUrl: string;
+  apiKey?: string;
+  /** Extra headers, e.g. OpenRouter attribution */
+  headers?: Record<string, string>;
+}
+
+// -----------------------------------------------------------------------------
+// Translation
+// -----------------------------------------------------------------------------
+
+function textOf(content: string | Anthropic.ToolResultBlockParam['content']): string {
+  if (typeof content === 'string') return content;
+  if (!content) return '';
+  return content.map((block) => (block.type === 'text' ? block.text : '')).join('\n');
+}
+
+/** Anthropic-format conversation → Chat Completions messages */
+export function toChatMessages(system: string, messages: Anthropic.MessageParam[]): ChatMessage[] {
+  const chat: ChatMessage[] = [{ role: 'system', content: system }];
+
+  for (const message of messages) {
+    if (typeof message.content === 'string') {
+      chat.push({ role: message.role, content: message.content });
+      continue;
+    }
+
+    if (message.role === 'assistant') {
+      const text = message.content
+        .map((block) => (block.type === 'text' ? block.text : ''))
+        .join('');
+      const toolCalls: ChatToolCall[] = [];
+      for (const block of message.content) {
+        if (block.type === 'tool_use') {
+          toolCalls.push({
+            id: block.id,
+            type: 'function',
+            function: { name: block.name, arguments: JSON.stringify(block.input ?? {}) },
+          });
+        }
+      }
+      chat.push({
+        role: 'assistant',
+        content: text || null,
+        ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {}),
+      });
+      continue;
+    }
+
+    // User turns carry plain text and/or tool results
+    const text: string[] = [];
+    for (const block of message.content) {
+      if (block.type === 'tool_result') {
+        chat.push({ role: 'tool', tool_call_id: block.tool_use_id, content: textOf(block.content) });
+      } else if (block.type === 'text') {
+        text.push(block.text);
+      }
+    }
+    if (text.length > 0) chat.push({ role: 'user', content: text.join('\n') });
+  }
+
+  return chat;
+}
+
+function parseArguments(raw: string): Record<string, unknown> {
+  try {
+    const parsed = JSON.parse(raw || '{}');
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Provider
+// -----------------------------------------------------------------------------
+
+export function createOpenAICompatibleProvider(options: OpenAICompatibleOptions): ModelProvider {
+  const url = `${options.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+  return {
+    name: options.name,
+
+    async generate(request: ProviderRequest): Promise<ProviderResponse> {
+      const body = {
+        model: request.model,
+        max_tokens: request.maxTokens,
+        temperature: request.temperature,
+        messages: toChatMessages(request.system, request.messages),
+        ...(request.tools && request.tools.length > 0
+          ? {
+              tools: request.tools.map((tool) => ({
+                type: 'function',
+                function: {
+                  name: tool.name,
+                  description: tool.description,
+                  parameters: tool.input_schema,
+                },
+              })),
+            }
+          : {}),
+      };
+
+      let res: Response;
+      try {
+        res = await fetch(url, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            ...(options.apiKey ? { Authorization: `Bearer ${options.apiKey}` } : {}),
+            ...options.headers,
+          },
+          body: JSON.stringify(body),
+          signal: request.signal,
+        });
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        if (request.signal?.aborted) {
+          throw new ProviderError(options.name, 'TIMEOUT', `${options.name} request timed out`, {
+            retryable: true,
+            cause: err,
+          });
+        }
+        // Connection refused, DNS failure, reset: the next target may still answer
+        throw new ProviderError(options.name, 'REQUEST_FAILED', `${options.name} request failed: ${message}`, {
+          retryable: true,
+          cause: err,
+        });
+      }
+
+      if (!res.ok) {
+        const detail = (await res.text().catch(() => '')).slice(0, 500);
+        throw new ProviderError(
+          options.name,
+          res.status === 429 ? 'RATE_LIMITED' : 'REQUEST_FAILED',
+          `${options.name} request failed (${res.status})${detail ? `: ${detail}` : ''}`,
+          { upstreamStatus: res.status, retryable: isRetryableStatus(res.status) }
+        );
+      }
+
+      const completion = (await res.json()) as ChatCompletion;
+      const choice = completion.choices?.[0];
+      if (!choice) {
+        throw new ProviderError(options.name, 'BAD_RESPONSE', `${options.name} returned no choices`);
+      }
+
+      const content: ProviderContentBlock[] = [];
+      if (choice.message.content) {
+        content.push({ type: 'text', text: choice.message.content });
+        request.onText?.(choice.message.content);
+      }
+      for (const call of choice.message.tool_calls ?? []) {
+        content.push({
+          type: 'tool_use',
+          id: call.id,
+          name: call.function.name,
+          input: parseArguments(call.function.arguments),
+        });
+      }
+
+      const usage = {
+        input: completion.usage?.prompt_tokens ?? 0,
+        output: completion.usage?.completion_tokens ?? 0,
+      };
+      request.onUsage?.(usage);
+
+      const hasToolCalls = content.some((block) => block.type === 'tool_use');
+      return {
+        content,
+        stopReason:
+          choice.finish_reason === 'tool_calls' || hasToolCalls
+            ? 'tool_use'
+            : choice.finish_reason === 'length'
+            ? 'max_tokens'
+            : 'end_turn',
+        usage,
+      };
+    },
+  };
+}
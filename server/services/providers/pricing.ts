@@ -0,0 +1,105 @@
+// =============================================================================
+// Model Price Table
+// USD per million tokens. Defaults below can be overridden or extended with a
+// JSON file at MODEL_PRICES_FILE: { "<model>": { "input": 3, "output": 15 } }
+// =============================================================================
+
+import * as fs from 'fs';
+import type { ModelTarget } from './types';
+
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+export const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+  // Anthropic
+  'claude-opus-4-6': { input: 5, output: 25 },
+  'claude-opus-4-5': { input: 5, output: 25 },
+  'claude-opus-4-1': { input: 15, output: 75 },
+  'claude-opus-4': { input: 15, output: 75 },
+  'claude-sonnet-4-5': { input: 3, output: 15 },
+  'claude-sonnet-4': { input: 3, output: 15 },
+  'claude-3-7-sonnet': { input: 3, output: 15 },
+  'claude-haiku-4-5': { input: 1, output: 5 },
+  'claude-3-5-haiku': { input: 0.8, output: 4 },
+
+  // OpenAI / Azure
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4-turbo': { input: 10, output: 30 },
+  'o3-mini': { input: 1.1, output: 4.4 },
+  'o3': { input: 2, output: 8 },
+
+  // Google
+  'gemini-3-pro': { input: 2, output: 12 },
+  'gemini-3-flash': { input: 0.5, output: 3 },
+  'gemini-2.0-flash': { input: 0.1, output: 0.4 },
+  'gemini-1.5-pro': { input: 1.25, output: 5 },
+  'gemini-1.5-flash': { input: 0.075, output: 0.3 },
+
+  // xAI
+  'grok-3': { input: 3, output: 15 },
+  'grok-2': { input: 2, output: 10 },
+};
+
+/** Providers that cost nothing per token regardless of model */
+const FREE_PROVIDERS = new Set(['ollama']);
+
+let cachedTable: Record<string, ModelPrice> | null = null;
+
+/**
+ * The active price table: defaults merged with MODEL_PRICES_FILE, if set.
+ * Loaded once; call `resetPriceTable()` after changing the file.
+ */
+export function getPriceTable(): Record<string, ModelPrice> {
+  if (cachedTable) return cachedTable;
+
+  let overrides: Record<string, ModelPrice> = {};
+  const file = process.env.MODEL_PRICES_FILE;
+  if (file) {
+    try {
+      overrides = JSON.parse(fs.readFileSync(file, 'utf-8'));
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      console.warn(`[Pricing] Could not load MODEL_PRICES_FILE (${file}): ${message}`);
+    }
+  }
+
+  cachedTable = { ...DEFAULT_MODEL_PRICES, ...overrides };
+  return cachedTable;
+}
+
+export function resetPriceTable(): void {
+  cachedTable = null;
+}
+
+/**
+ * Price for a model. Matches the exact id first, then the longest table key
+ * the id starts with (so dated ids like `claude-sonnet-4-5-20250929` resolve),
+ * ignoring any `vendor/` prefix used by OpenRouter. Null when unknown.
+ */
+export function lookupPrice(target: ModelTarget): ModelPrice | null {
+  if (FREE_PROVIDERS.has(target.provider)) return { input: 0, output: 0 };
+
+  const table = getPriceTable();
+  const candidates = [target.model, target.model.split('/').pop()!];
+
+  for (const id of candidates) {
+    if (table[id]) return table[id];
+    const prefix = Object.keys(table)
+      .filter((key) => id.startsWith(key))
+      .sort((a, b) => b.length - a.length)[0];
+    if (prefix) return table[prefix];
+  }
+  return null;
+}
+
+export function calculateCost(
+  target: ModelTarget,
+  tokens: { input: number; output: number }
+): number {
+  const price = lookupPrice(target);
+  if (!price) return 0;
+  return (tokens.input / 1_000_000) * price.input + (tokens.output / 1_000_000) * price.output;
+}
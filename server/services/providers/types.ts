@@ -0,0 +1,58 @@
+// =============================================================================
+// Provider Types
+// A provider turns one model request into one model response. Conversations
+// are kept in Anthropic message format; adapters for other APIs translate
+// on the way in and out.
+// =============================================================================
+
+import type Anthropic from '@anthropic-ai/sdk';
+
+export type ProviderName =
+  | 'anthropic'
+  | 'openai'
+  | 'google'
+  | 'azure'
+  | 'xai'
+  | 'openrouter'
+  | 'ollama';
+
+export interface ModelTarget {
+  provider: ProviderName;
+  model: string;
+}
+
+export interface ProviderRequest {
+  model: string;
+  system: string;
+  messages: Anthropic.MessageParam[];
+  tools?: Anthropic.Tool[];
+  maxTokens: number;
+  temperature: number;
+  signal?: AbortSignal;
+  /** Called with text as it arrives (once with the full text for non-streaming adapters) */
+  onText?: (text: string) => void;
+  /**
+   * Called with the turn's running usage while it streams (output tokens are
+   * estimated until the provider reports them), and once more with the final usage
+   */
+  onUsage?: (usage: { input: number; output: number }) => void;
+}
+
+export type ProviderContentBlock =
+  | { type: 'text'; text: string }
+  | { type: 'tool_use'; id: string; name: string; input: Record<string, unknown> };
+
+export interface ProviderResponse {
+  content: ProviderContentBlock[];
+  stopReason: 'end_turn' | 'tool_use' | 'max_tokens';
+  usage: { input: number; output: number };
+}
+
+export interface ModelProvider {
+  name: ProviderName;
+  generate: (request: ProviderRequest) => Promise<ProviderResponse>;
+}
+
+export function isRetryableStatus(status: number | undefined): boolean {
+  return status === 429 || (status !== undefined && status >= 500);
+}
@@ -10,6 +10,8 @@ import * as fs from 'fs/promises';
 import * as path from 'path';
 import { pool } from '../db';
 import { smartGenerate } from '../lib/anthropic-client';
+import { getSystem } from './registry';
+import { dispatchExecution } from './execution-dispatcher';
 
 // -----------------------------------------------------------------------------
 // Types
@@ -45,7 +47,7 @@ export interface OperatorAction {
   autoApplied: boolean;
 }
 
-interface ExecutionLog {
+export interface ExecutionLog {
   id: string;
   deploymentId: string;
   systemSlug: string;
@@ -94,7 +96,7 @@ const DIMENSION_TO_AGENT: Record<QualityDimension, string> = {
 // Database: Fetch execution log with QA scores
 // -----------------------------------------------------------------------------
 
-async function fetchExecutionLog(executionId: string): Promise<ExecutionLog | null> {
+export async function fetchExecutionLog(executionId: string): Promise<ExecutionLog | null> {
   const { rows } = await pool.query<ExecutionLogRow>(
     `SELECT el.id, el.deployment_id, d.system_slug, el.qa_scores,
             el.phases_total, el.output_url
@@ -139,6 +141,11 @@ function identifyFailures(qaScores: Record<string, number>): FailedDimension[] {
   return failures;
 }
 
+/** Whether any mapped quality dimension scored below the pass threshold */
+export function hasQaFailures(qaScores: Record<string, number>): boolean {
+  return identifyFailures(qaScores).length > 0;
+}
+
 // -----------------------------------------------------------------------------
 // LLM: Generate remediation constraints (isolated for test mocking)
 // -----------------------------------------------------------------------------
@@ -236,26 +243,20 @@ async function triggerPartialReExecution(
   systemSlug: string,
   agentSlugs: string[]
 ): Promise<string> {
-  // Insert a new execution_logs entry for the re-run
-  const { rows } = await pool.query<{ id: string }>(
-    `INSERT INTO execution_logs (
-       deployment_id, triggered_by, status, started_at
-     )
-     SELECT id, $2, $3, now()
-     FROM deployments
-     WHERE system_slug = $1 AND status != 'archived'
-     RETURNING id`,
-    [systemSlug, 'qa-remediation', 'running']
-  );
-
-  if (rows.length === 0) {
+  const deployment = await getSystem(systemSlug);
+  if (!deployment) {
     throw new QaRemediationError(
       `No active deployment found for ${systemSlug}`,
       'trigger'
     );
   }
 
-  const executionId = rows[0].id;
+  // Queued ahead of user-triggered runs (RUN_PRIORITY)
+  const { executionId } = await dispatchExecution({
+    deployment,
+    triggeredBy: 'qa-remediation',
+    inputs: { partialReRun: { agentSlugs } },
+  });
 
   // Update the deployment to signal which agents need re-execution
   await pool.query(
@@ -294,7 +295,7 @@ async function waitForReExecution(
 
     const { status, qa_scores } = rows[0];
     if (status === 'completed' && qa_scores) return qa_scores;
-    if (status === 'failed') return null;
+    if (status === 'failed' || status === 'cancelled') return null;
 
     await sleep(pollIntervalMs);
   }
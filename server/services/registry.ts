@@ -7,8 +7,11 @@ import {
   SystemBundle,
   DeploymentRecord,
   DeploymentStatus,
+  SystemManifest,
+  TriggerPattern,
 } from '../types/registry';
-import { encrypt, decrypt } from '../lib/crypto';
+import { decryptSecretMap } from './secrets-vault';
+import { SYSTEM_SLUG_MESSAGE, SYSTEM_SLUG_PATTERN, systemProcessName } from '../lib/process-names';
 
 // -----------------------------------------------------------------------------
 // Row → DeploymentRecord mapper
@@ -24,30 +27,13 @@ interface DeploymentRow {
   trigger_type: string;
   trigger_config: unknown;
   pm2_process_name: string;
-  secrets_encrypted: string | null;
+  secrets_encrypted: Buffer | string | null;
   status: string;
   deployed_at: string;
   created_at: string;
   updated_at: string;
 }
 
-function decryptSecrets(encrypted: string | null): Record<string, string> | null {
-  if (!encrypted) return null;
-  if (!process.env.ENCRYPTION_KEY) return null;
-  try {
-    return JSON.parse(decrypt(encrypted)) as Record<string, string>;
-  } catch {
-    console.warn('[registry] Failed to decrypt secrets — returning null');
-    return null;
-  }
-}
-
-function encryptSecrets(secrets: Record<string, string>): string | null {
-  if (!process.env.ENCRYPTION_KEY) return null;
-  if (Object.keys(secrets).length === 0) return null;
-  return encrypt(JSON.stringify(secrets));
-}
-
 function rowToRecord(row: DeploymentRow): DeploymentRecord {
   return {
     id: row.id,
@@ -59,7 +45,7 @@ function rowToRecord(row: DeploymentRow): DeploymentRecord {
     triggerType: row.trigger_type as DeploymentRecord['triggerType'],
     triggerConfig: row.trigger_config,
     pm2ProcessName: row.pm2_process_name,
-    secretsDecrypted: decryptSecrets(row.secrets_encrypted),
+    secretsDecrypted: decryptSecretMap(row.secrets_encrypted),
     status: row.status as DeploymentStatus,
     deployedAt: row.deployed_at,
     createdAt: row.created_at,
@@ -71,13 +57,20 @@ function rowToRecord(row: DeploymentRow): DeploymentRecord {
 // Registry Functions
 // -----------------------------------------------------------------------------
 
+/**
+ * Insert a deployment row for a bundle. The bundle's .env.example keys become
+ * the system's required secrets; values are set later through the vault.
+ * Slugs containing `--` are refused: their process names would be read as
+ * another system's agent processes.
+ */
 export async function registerSystem(
   bundle: SystemBundle
 ): Promise<DeploymentRecord> {
   const { manifest, canvasJson } = bundle;
-  const pm2ProcessName = `autopilate-${manifest.slug}`;
-
-  const encryptedSecrets = encryptSecrets(bundle.envExample);
+  if (!SYSTEM_SLUG_PATTERN.test(manifest.slug)) {
+    throw new DeploymentError('INVALID_SLUG', `Invalid slug "${manifest.slug}": ${SYSTEM_SLUG_MESSAGE}`, 'registry', undefined, 400);
+  }
+  const pm2ProcessName = systemProcessName(manifest.slug);
 
   const { rows } = await pool.query<DeploymentRow>(
     `INSERT INTO deployments (
@@ -88,10 +81,10 @@ export async function registerSystem(
        trigger_type,
        trigger_config,
        pm2_process_name,
-       secrets_encrypted,
+       required_secrets,
        status,
        deployed_at
-     ) VALUES ($1, $2, $3::jsonb, $4::jsonb, $5, $6::jsonb, $7, $8, $9, now())
+     ) VALUES ($1, $2, $3::jsonb, $4::jsonb, $5, $6::jsonb, $7, $8::jsonb, $9, now())
      RETURNING *`,
     [
       manifest.name,
@@ -101,7 +94,7 @@ export async function registerSystem(
       manifest.triggerPattern,
       JSON.stringify({}),
       pm2ProcessName,
-      encryptedSecrets,
+      JSON.stringify(bundle.envExample),
       'deployed',
     ]
   );
@@ -109,6 +102,79 @@ export async function registerSystem(
   return rowToRecord(rows[0]);
 }
 
+/**
+ * Point a deployment at a new bundle snapshot (redeploy or rollback) and mark
+ * it deployed. Secret values are left untouched; a redeploy passes the new
+ * bundle's .env.example as `requiredSecrets`.
+ */
+export async function updateSystemSnapshot(
+  deploymentId: string,
+  snapshot: {
+    manifest: SystemManifest;
+    canvasJson: unknown;
+    triggerConfig: unknown;
+    openclawConfig: unknown;
+    requiredSecrets?: Record<string, string>;
+  }
+): Promise<DeploymentRecord> {
+  const { manifest } = snapshot;
+  const { rows } = await pool.query<DeploymentRow>(
+    `UPDATE deployments
+     SET system_name = $1,
+         manifest_json = $2::jsonb,
+         canvas_json = $3::jsonb,
+         trigger_type = $4,
+         trigger_config = $5::jsonb,
+         openclaw_config = $6::jsonb,
+         required_secrets = COALESCE($8::jsonb, required_secrets),
+         status = 'deployed',
+         deployed_at = now(),
+         updated_at = now()
+     WHERE id = $7
+     RETURNING *`,
+    [
+      manifest.name,
+      JSON.stringify(manifest),
+      JSON.stringify(snapshot.canvasJson),
+      manifest.triggerPattern,
+      JSON.stringify(snapshot.triggerConfig),
+      JSON.stringify(snapshot.openclawConfig),
+      deploymentId,
+      snapshot.requiredSecrets ? JSON.stringify(snapshot.requiredSecrets) : null,
+    ]
+  );
+
+  if (rows.length === 0) {
+    throw new SystemNotFoundError(manifest.slug);
+  }
+  return rowToRecord(rows[0]);
+}
+
+/**
+ * Replace a system's trigger. The trigger type is mirrored into
+ * manifest_json.triggerPattern so both stay in agreement.
+ */
+export async function updateSystemTrigger(
+  slug: string,
+  triggerConfig: { type: TriggerPattern }
+): Promise<DeploymentRecord> {
+  const { rows } = await pool.query<DeploymentRow>(
+    `UPDATE deployments
+     SET trigger_type = $1,
+         trigger_config = $2::jsonb,
+         manifest_json = jsonb_set(manifest_json, '{triggerPattern}', to_jsonb($1::text)),
+         updated_at = now()
+     WHERE system_slug = $3 AND status != 'archived'
+     RETURNING *`,
+    [triggerConfig.type, JSON.stringify(triggerConfig), slug]
+  );
+
+  if (rows.length === 0) {
+    throw new SystemNotFoundError(slug);
+  }
+  return rowToRecord(rows[0]);
+}
+
 export async function getSystem(
   slug: string
 ): Promise<DeploymentRecord | null> {
@@ -157,5 +223,5 @@ export async function archiveSystem(slug: string): Promise<void> {
 }
 
 // Import + re-export typed error from shared
-import { SystemNotFoundError } from '../lib/errors';
+import { DeploymentError, SystemNotFoundError } from '../lib/errors';
 export { SystemNotFoundError };
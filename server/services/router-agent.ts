@@ -22,6 +22,14 @@ export type RouterDecision =
   | { kind: 'clarify'; system: SystemManifest; missingInputs: string[]; question: string }
   | { kind: 'trigger'; system: SystemManifest; inputs: Record<string, string> };
 
+export interface RouterAgentOptions {
+  /**
+   * Receives the router's replies instead of broadcasting them as session
+   * messages (inbound channels post them through their own responder).
+   */
+  onReply?: (content: string) => void;
+}
+
 interface GatheringState {
   system: SystemManifest;
   collectedInputs: Record<string, string>;
@@ -129,7 +137,10 @@ export async function extractInputsFromMessage(
 export class RouterAgent {
   private gatheringState: GatheringState | null = null;
 
-  constructor(private readonly sessionId: string) {}
+  constructor(
+    private readonly sessionId: string,
+    private readonly options: RouterAgentOptions = {}
+  ) {}
 
   /**
    * Process an inbound message. Returns the routing decision taken.
@@ -310,6 +321,10 @@ export class RouterAgent {
   }
 
   private emitRouterMessage(content: string): void {
+    if (this.options.onReply) {
+      this.options.onReply(content);
+      return;
+    }
     emitSessionMessage({
       sessionId: this.sessionId,
       message: {
@@ -331,6 +346,6 @@ export class RouterAgent {
 // Factory
 // -----------------------------------------------------------------------------
 
-export function createRouterAgent(sessionId: string): RouterAgent {
-  return new RouterAgent(sessionId);
+export function createRouterAgent(sessionId: string, options?: RouterAgentOptions): RouterAgent {
+  return new RouterAgent(sessionId, options);
 }
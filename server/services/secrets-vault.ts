@@ -0,0 +1,325 @@
+// =============================================================================
+// Secrets Vault Service
+// Per-deployment secrets (API keys, tokens) stored as one AES-256-GCM
+// encrypted JSON map in deployments.secrets_encrypted. Values never leave the
+// server unmasked except as env vars injected into the system's PM2 apps.
+// The bundle's .env.example keys are recorded in required_secrets so the UI
+// can show which ones are still missing.
+// =============================================================================
+
+import type { PoolClient } from 'pg';
+import { pool } from '../db';
+import { encrypt, decrypt } from '../lib/crypto';
+import { SecretsVaultError } from '../lib/errors';
+import type { DeploymentRecord } from '../types/registry';
+
+// -----------------------------------------------------------------------------
+// Types
+// -----------------------------------------------------------------------------
+
+export interface SecretSummary {
+  name: string;
+  /** Masked value, null when the secret has not been set */
+  maskedValue: string | null;
+  /** Listed in the bundle's .env.example */
+  required: boolean;
+  /** The .env.example comment for required secrets */
+  description: string | null;
+}
+
+export interface SecretsOverview {
+  /** False when ENCRYPTION_KEY is not configured: nothing can be stored */
+  vaultEnabled: boolean;
+  secrets: SecretSummary[];
+  /** Required secrets that have no value yet */
+  missing: string[];
+}
+
+export interface RotationResult {
+  rotated: number;
+  /** Rows that already decrypt with the current key */
+  unchanged: number;
+}
+
+/** pg returns bytea as a Buffer holding the base64 text we stored */
+type StoredSecrets = Buffer | string | null;
+
+interface SecretsRow {
+  secrets_encrypted: StoredSecrets;
+  required_secrets: Record<string, string> | null;
+}
+
+// -----------------------------------------------------------------------------
+// Encoding
+// -----------------------------------------------------------------------------
+
+function storedText(stored: Buffer | string): string {
+  return Buffer.isBuffer(stored) ? stored.toString('utf-8') : stored;
+}
+
+function decryptMap(stored: Buffer | string, keyHex?: string): Record<string, string> {
+  return JSON.parse(decrypt(storedText(stored), keyHex)) as Record<string, string>;
+}
+
+/**
+ * Decrypt a deployment's stored secrets. Falls back to ENCRYPTION_KEY_PREVIOUS
+ * so secrets stay readable between a key change and `npm run secrets:rotate`.
+ * Returns null when nothing is stored, no key is configured or decryption fails.
+ */
+export function decryptSecretMap(stored: StoredSecrets): Record<string, string> | null {
+  if (!stored || !process.env.ENCRYPTION_KEY) return null;
+
+  const keys = [process.env.ENCRYPTION_KEY, process.env.ENCRYPTION_KEY_PREVIOUS];
+  for (const keyHex of keys) {
+    if (!keyHex) continue;
+    try {
+      return decryptMap(stored, keyHex);
+    } catch {
+      // Try the next key
+    }
+  }
+  console.warn('[secrets-vault] Failed to decrypt secrets — returning null');
+  return null;
+}
+
+function encryptSecretMap(secrets: Map<string, string>): string | null {
+  if (secrets.size === 0) return null;
+  return encrypt(JSON.stringify(Object.fromEntries(secrets)));
+}
+
+/**
+ * Mask a secret for display: the last four characters of long values,
+ * nothing of short ones.
+ */
+export function maskSecret(value: string): string {
+  return value.length >= 12 ? `••••••••${value.slice(-4)}` : '••••••••';
+}
+
+function requireVaultKey(): void {
+  if (!process.env.ENCRYPTION_KEY) {
+    throw new SecretsVaultError(
+      'VAULT_DISABLED',
+      'ENCRYPTION_KEY is not configured; secrets cannot be stored',
+      503
+    );
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Internal: row access
+// -----------------------------------------------------------------------------
+
+function descriptionOf(comment: string | undefined): string | null {
+  const text = comment?.replace(/^#\s*/, '').trim();
+  return text ? text : null;
+}
+
+/** Secrets as a Map so names like `constructor` never hit Object.prototype */
+function readSecrets(row: SecretsRow, slug: string): Map<string, string> {
+  if (!row.secrets_encrypted) return new Map();
+  const secrets = decryptSecretMap(row.secrets_encrypted);
+  if (!secrets) {
+    throw new SecretsVaultError(
+      'UNREADABLE',
+      `Secrets for "${slug}" cannot be decrypted with ENCRYPTION_KEY; run secrets:rotate with ENCRYPTION_KEY_PREVIOUS set`,
+      500
+    );
+  }
+  return new Map(Object.entries(secrets));
+}
+
+/**
+ * Read-modify-write a deployment's secret map under a row lock so concurrent
+ * PUT/DELETE calls cannot drop each other's changes.
+ */
+async function updateSecrets(
+  deployment: DeploymentRecord,
+  change: (secrets: Map<string, string>) => void
+): Promise<void> {
+  requireVaultKey();
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    const { rows } = await client.query<SecretsRow>(
+      `SELECT secrets_encrypted, required_secrets FROM deployments WHERE id = $1 FOR UPDATE`,
+      [deployment.id]
+    );
+    if (rows.length === 0) {
+      throw new SecretsVaultError('SYSTEM_NOT_FOUND', `System not found: ${deployment.systemSlug}`, 404);
+    }
+
+    const secrets = readSecrets(rows[0], deployment.systemSlug);
+    change(secrets);
+
+    await client.query(
+      `UPDATE deployments SET secrets_encrypted = $1, updated_at = now() WHERE id = $2`,
+      [encryptSecretMap(secrets), deployment.id]
+    );
+    await client.query('COMMIT');
+  } catch (err) {
+    await client.query('ROLLBACK');
+    throw err;
+  } finally {
+    client.release();
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Public API
+// -----------------------------------------------------------------------------
+
+/**
+ * Every required and stored secret of a deployment, masked, plus the names
+ * of required secrets that still have no value.
+ */
+export async function listSecrets(deployment: DeploymentRecord): Promise<SecretsOverview> {
+  const { rows } = await pool.query<SecretsRow>(
+    `SELECT secrets_encrypted, required_secrets FROM deployments WHERE id = $1`,
+    [deployment.id]
+  );
+  if (rows.length === 0) {
+    throw new SecretsVaultError('SYSTEM_NOT_FOUND', `System not found: ${deployment.systemSlug}`, 404);
+  }
+
+  const vaultEnabled = !!process.env.ENCRYPTION_KEY;
+  const required = new Map(Object.entries(rows[0].required_secrets ?? {}));
+  const secrets = vaultEnabled ? readSecrets(rows[0], deployment.systemSlug) : new Map<string, string>();
+
+  const names = [...new Set([...required.keys(), ...secrets.keys()])].sort();
+  const summaries = names.map((name) => {
+    const value = secrets.get(name);
+    return {
+      name,
+      maskedValue: value !== undefined ? maskSecret(value) : null,
+      required: required.has(name),
+      description: descriptionOf(required.get(name)),
+    };
+  });
+
+  return {
+    vaultEnabled,
+    secrets: summaries,
+    missing: summaries.filter((s) => s.required && s.maskedValue === null).map((s) => s.name),
+  };
+}
+
+/**
+ * A deployment record safe to return from the API: decrypted secrets
+ * stripped and a webhook trigger's secret masked.
+ */
+export function withoutSecrets(record: DeploymentRecord): Omit<DeploymentRecord, 'secretsDecrypted'> {
+  const { secretsDecrypted: _secrets, ...rest } = record;
+  const trigger = rest.triggerConfig as { secret?: unknown } | null;
+  if (trigger && typeof trigger.secret === 'string') {
+    rest.triggerConfig = { ...trigger, secret: maskSecret(trigger.secret) };
+  }
+  return rest;
+}
+
+/** Create or replace one secret. Running processes see it after a restart. */
+export async function setSecret(
+  deployment: DeploymentRecord,
+  name: string,
+  value: string
+): Promise<void> {
+  await updateSecrets(deployment, (secrets) => {
+    secrets.set(name, value);
+  });
+}
+
+export async function deleteSecret(deployment: DeploymentRecord, name: string): Promise<void> {
+  await updateSecrets(deployment, (secrets) => {
+    if (!secrets.delete(name)) {
+      throw new SecretsVaultError('NOT_FOUND', `Secret "${name}" is not set for ${deployment.systemSlug}`, 404);
+    }
+  });
+}
+
+// -----------------------------------------------------------------------------
+// Key rotation
+// -----------------------------------------------------------------------------
+
+async function reencryptRow(
+  client: PoolClient,
+  id: string,
+  stored: Buffer | string,
+  previousKey: string
+): Promise<boolean> {
+  let secrets: Map<string, string>;
+  try {
+    secrets = new Map(Object.entries(decryptMap(stored, previousKey)));
+  } catch {
+    // Already on the current key (a rerun after a partial rotation)
+    decryptMap(stored);
+    return false;
+  }
+
+  await client.query(`UPDATE deployments SET secrets_encrypted = $1 WHERE id = $2`, [
+    encryptSecretMap(secrets),
+    id,
+  ]);
+  return true;
+}
+
+/**
+ * Re-encrypt every deployment's secrets (archived ones included) from
+ * ENCRYPTION_KEY_PREVIOUS to ENCRYPTION_KEY in one transaction. A row that
+ * decrypts with neither key aborts the rotation without changing anything.
+ */
+export async function rotateSecrets(): Promise<RotationResult> {
+  requireVaultKey();
+  const previousKey = process.env.ENCRYPTION_KEY_PREVIOUS;
+  if (!previousKey) {
+    throw new SecretsVaultError(
+      'ROTATION_KEY_MISSING',
+      'Set ENCRYPTION_KEY_PREVIOUS to the old key to rotate secrets',
+      400
+    );
+  }
+
+  const result: RotationResult = { rotated: 0, unchanged: 0 };
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    const { rows } = await client.query<{ id: string; system_slug: string; secrets_encrypted: Buffer | string }>(
+      `SELECT id, system_slug, secrets_encrypted FROM deployments
+       WHERE secrets_encrypted IS NOT NULL
+       FOR UPDATE`
+    );
+
+    for (const row of rows) {
+      try {
+        if (await reencryptRow(client, row.id, row.secrets_encrypted, previousKey)) result.rotated++;
+        else result.unchanged++;
+      } catch (err) {
+        throw new SecretsVaultError(
+          'ROTATION_FAILED',
+          `Secrets for "${row.system_slug}" decrypt with neither ENCRYPTION_KEY nor ENCRYPTION_KEY_PREVIOUS`,
+          500,
+          err
+        );
+      }
+    }
+
+    await client.query('COMMIT');
+    return result;
+  } catch (err) {
+    await client.query('ROLLBACK');
+    throw err;
+  } finally {
+    client.release();
+  }
+}
+
+// Run directly via: ts-node services/secrets-vault.ts rotate
+if (require.main === module && process.argv[2] === 'rotate') {
+  rotateSecrets()
+    .then(({ rotated, unchanged }) => {
+      console.log(`Re-encrypted secrets for ${rotated} deployment(s), ${unchanged} already current.`);
+      process.exit(0);
+    })
+    .catch((err) => {
+      console.error('Secret rotation failed:', err);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,262 @@
+// =============================================================================
+// Spend Budgets
+// Per-system daily and monthly USD budgets, checked each time an
+// `execution:completed` event records a run's cost_usd. Crossing the warning
+// threshold logs a `budget_warning` operator action (once per period);
+// crossing the hard limit stops the system's processes and logs a
+// `budget_exceeded` action. Periods are UTC calendar days and months, and
+// spend is counted by when runs completed.
+// =============================================================================
+
+import { pool } from '../db';
+import { getSystem, updateSystemStatus } from './registry';
+import { stopSystemProcesses } from './pm2-manager';
+import { onExecutionCompleted, type ExecutionCompletedMessage } from './openclaw-client';
+
+// -----------------------------------------------------------------------------
+// Types
+// -----------------------------------------------------------------------------
+
+export type BudgetLevel = 'ok' | 'warning' | 'exceeded';
+
+export type BudgetPeriod = 'daily' | 'monthly';
+
+export interface SpendBudget {
+  /** null = no limit */
+  dailyLimitUsd: number | null;
+  monthlyLimitUsd: number | null;
+  /** Percentage of a limit at which a warning is raised */
+  warnPercent: number;
+}
+
+export interface BudgetWindow {
+  period: BudgetPeriod;
+  /** `2026-10-19` for daily, `2026-10` for monthly */
+  periodKey: string;
+  limitUsd: number | null;
+  spentUsd: number;
+  level: BudgetLevel;
+}
+
+export interface BudgetStatus extends SpendBudget {
+  spentTodayUsd: number;
+  spentThisMonthUsd: number;
+  /** The worse of the daily and monthly levels */
+  level: BudgetLevel;
+  windows: BudgetWindow[];
+}
+
+interface BudgetRow {
+  budget_daily_usd: string | null;
+  budget_monthly_usd: string | null;
+  budget_warn_percent: number;
+  spent_today_usd: string;
+  spent_month_usd: string;
+  period_day: string;
+  period_month: string;
+}
+
+// -----------------------------------------------------------------------------
+// Constants
+// -----------------------------------------------------------------------------
+
+export const MAX_BUDGET_USD = 100_000;
+
+const LEVEL_RANK: Record<BudgetLevel, number> = { ok: 0, warning: 1, exceeded: 2 };
+
+// -----------------------------------------------------------------------------
+// Module state
+// -----------------------------------------------------------------------------
+
+let stopCompletedListener: (() => void) | null = null;
+
+// -----------------------------------------------------------------------------
+// Internal
+// -----------------------------------------------------------------------------
+
+function windowLevel(spentUsd: number, limitUsd: number | null, warnPercent: number): BudgetLevel {
+  if (limitUsd === null) return 'ok';
+  if (spentUsd >= limitUsd) return 'exceeded';
+  if (spentUsd >= (limitUsd * warnPercent) / 100) return 'warning';
+  return 'ok';
+}
+
+function toStatus(row: BudgetRow): BudgetStatus {
+  // decimal columns come back from pg as strings
+  const dailyLimitUsd = row.budget_daily_usd !== null ? parseFloat(row.budget_daily_usd) : null;
+  const monthlyLimitUsd = row.budget_monthly_usd !== null ? parseFloat(row.budget_monthly_usd) : null;
+  const spentTodayUsd = parseFloat(row.spent_today_usd);
+  const spentThisMonthUsd = parseFloat(row.spent_month_usd);
+  const warnPercent = row.budget_warn_percent;
+
+  const windows: BudgetWindow[] = [
+    {
+      period: 'daily',
+      periodKey: row.period_day,
+      limitUsd: dailyLimitUsd,
+      spentUsd: spentTodayUsd,
+      level: windowLevel(spentTodayUsd, dailyLimitUsd, warnPercent),
+    },
+    {
+      period: 'monthly',
+      periodKey: row.period_month,
+      limitUsd: monthlyLimitUsd,
+      spentUsd: spentThisMonthUsd,
+      level: windowLevel(spentThisMonthUsd, monthlyLimitUsd, warnPercent),
+    },
+  ];
+
+  return {
+    dailyLimitUsd,
+    monthlyLimitUsd,
+    warnPercent,
+    spentTodayUsd,
+    spentThisMonthUsd,
+    level: windows.reduce<BudgetLevel>(
+      (worst, w) => (LEVEL_RANK[w.level] > LEVEL_RANK[worst] ? w.level : worst),
+      'ok'
+    ),
+    windows,
+  };
+}
+
+/** Whether a budget action of this type was already logged for the window */
+async function alreadyAlerted(deploymentId: string, actionType: string, window: BudgetWindow): Promise<boolean> {
+  const { rows } = await pool.query(
+    `SELECT 1 FROM operator_actions
+     WHERE deployment_id = $1 AND action_type = $2
+       AND after_state->>'period' = $3 AND after_state->>'periodKey' = $4
+     LIMIT 1`,
+    [deploymentId, actionType, window.period, window.periodKey]
+  );
+  return rows.length > 0;
+}
+
+async function recordBudgetAction(
+  deploymentId: string,
+  actionType: 'budget_warning' | 'budget_exceeded',
+  description: string,
+  window: BudgetWindow,
+  autoApplied: boolean
+): Promise<void> {
+  await pool.query(
+    `INSERT INTO operator_actions
+       (deployment_id, operator_type, action_type, description,
+        before_state, after_state, auto_applied, approved)
+     VALUES ($1, $2, $3, $4, $5::jsonb, $6::jsonb, $7, $8)`,
+    [
+      deploymentId,
+      'system_monitor',
+      actionType,
+      description,
+      JSON.stringify({ limitUsd: window.limitUsd, spentUsd: window.spentUsd }),
+      JSON.stringify({ period: window.period, periodKey: window.periodKey, level: window.level }),
+      autoApplied,
+      autoApplied ? true : null,
+    ]
+  );
+}
+
+function formatUsd(value: number | null): string {
+  return value === null ? '—' : `$${value.toFixed(2)}`;
+}
+
+// -----------------------------------------------------------------------------
+// Public API
+// -----------------------------------------------------------------------------
+
+/** Limits and current spend of a deployment, or null if it does not exist */
+export async function getBudgetStatus(deploymentId: string): Promise<BudgetStatus | null> {
+  const { rows } = await pool.query<BudgetRow>(
+    `WITH periods AS (
+       SELECT date_trunc('day', now() AT TIME ZONE 'UTC') AT TIME ZONE 'UTC' AS day_start,
+              date_trunc('month', now() AT TIME ZONE 'UTC') AT TIME ZONE 'UTC' AS month_start
+     )
+     SELECT d.budget_daily_usd, d.budget_monthly_usd, d.budget_warn_percent,
+            COALESCE(SUM(el.cost_usd) FILTER (WHERE el.completed_at >= p.day_start), 0)::text AS spent_today_usd,
+            COALESCE(SUM(el.cost_usd), 0)::text AS spent_month_usd,
+            to_char(p.day_start AT TIME ZONE 'UTC', 'YYYY-MM-DD') AS period_day,
+            to_char(p.month_start AT TIME ZONE 'UTC', 'YYYY-MM') AS period_month
+     FROM deployments d
+     CROSS JOIN periods p
+     LEFT JOIN execution_logs el
+       ON el.deployment_id = d.id AND el.cost_usd IS NOT NULL AND el.completed_at >= p.month_start
+     WHERE d.id = $1
+     GROUP BY d.id, p.day_start, p.month_start`,
+    [deploymentId]
+  );
+  return rows.length > 0 ? toStatus(rows[0]) : null;
+}
+
+/** Replace a deployment's budget. Takes effect from the next completed run. */
+export async function setBudget(deploymentId: string, budget: SpendBudget): Promise<BudgetStatus | null> {
+  await pool.query(
+    `UPDATE deployments
+     SET budget_daily_usd = $1, budget_monthly_usd = $2, budget_warn_percent = $3, updated_at = now()
+     WHERE id = $4`,
+    [budget.dailyLimitUsd, budget.monthlyLimitUsd, budget.warnPercent, deploymentId]
+  );
+  return getBudgetStatus(deploymentId);
+}
+
+/**
+ * Check a system's spend against its budget: log a warning for each window
+ * past its threshold (once per period), and stop a deployed system that is
+ * over a hard limit. Returns the status evaluated, or null for unknown or
+ * archived systems.
+ */
+export async function evaluateBudget(slug: string): Promise<BudgetStatus | null> {
+  const record = await getSystem(slug);
+  if (!record) return null;
+
+  const status = await getBudgetStatus(record.id);
+  if (!status || status.level === 'ok') return status;
+
+  for (const window of status.windows) {
+    if (window.level !== 'warning') continue;
+    if (await alreadyAlerted(record.id, 'budget_warning', window)) continue;
+
+    await recordBudgetAction(
+      record.id,
+      'budget_warning',
+      `${slug} has spent ${formatUsd(window.spentUsd)} of its ${window.period} budget of ${formatUsd(window.limitUsd)}`,
+      window,
+      false
+    );
+    console.warn(`[spend-budgets] ${slug}: ${window.period} spend at ${status.warnPercent}%+ of budget`);
+  }
+
+  const exceeded = status.windows.find((w) => w.level === 'exceeded');
+  if (exceeded && record.status === 'deployed') {
+    const stopped = await stopSystemProcesses(slug);
+    await updateSystemStatus(slug, 'stopped');
+    await recordBudgetAction(
+      record.id,
+      'budget_exceeded',
+      `${slug} spent ${formatUsd(exceeded.spentUsd)} against its ${exceeded.period} budget of ` +
+        `${formatUsd(exceeded.limitUsd)}; stopped ${stopped.length} process(es)`,
+      exceeded,
+      true
+    );
+    console.warn(`[spend-budgets] ${slug}: ${exceeded.period} budget exceeded — system stopped`);
+  }
+
+  return status;
+}
+
+/** Evaluate budgets after every completed run. */
+export function startBudgetMonitor(): { stop: () => void } {
+  stopBudgetMonitor();
+  stopCompletedListener = onExecutionCompleted((msg: ExecutionCompletedMessage) => {
+    if (!msg.costUsd) return;
+    evaluateBudget(msg.slug).catch((err) => {
+      console.error(`[spend-budgets] ${msg.slug}: budget check failed:`, err);
+    });
+  });
+  return { stop: stopBudgetMonitor };
+}
+
+export function stopBudgetMonitor(): void {
+  stopCompletedListener?.();
+  stopCompletedListener = null;
+}
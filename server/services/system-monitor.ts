@@ -145,10 +145,6 @@ function detectUnhealthy(processes: ProcessStatus[]): ProcessStatus[] {
   });
 }
 
-function extractSlug(processName: string): string {
-  return processName.replace(/^autopilate-/, '');
-}
-
 // -----------------------------------------------------------------------------
 // Core: handle a single unhealthy process
 // -----------------------------------------------------------------------------
@@ -156,7 +152,10 @@ function extractSlug(processName: string): string {
 async function handleUnhealthyProcess(
   proc: ProcessStatus
 ): Promise<OperatorAction | null> {
-  const slug = extractSlug(proc.name);
+  // Per-agent processes share their system's deployment record
+  const slug = proc.systemSlug;
+  if (!slug) return null;
+
   const deployment = await getSystem(slug);
   if (!deployment) {
     console.warn(`[system-monitor] No deployment record for slug: ${slug}`);
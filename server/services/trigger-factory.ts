@@ -5,7 +5,15 @@
 
 import * as fs from 'fs/promises';
 import * as path from 'path';
-import { TriggerPattern, SystemManifest } from '../types/registry';
+import {
+  TriggerPattern,
+  TriggerSettings,
+  MessagingPlatform,
+  CronCatchUpPolicy,
+  SystemManifest,
+  OpenClawFile,
+} from '../types/registry';
+import { parseCron } from '../lib/cron';
 
 // -----------------------------------------------------------------------------
 // Types
@@ -15,6 +23,8 @@ export interface CronTriggerConfig {
   type: 'cron';
   expression: string;
   timezone: string;
+  /** Missed-fire handling for the built-in executor; CRON_CATCH_UP when unset */
+  catchUp?: CronCatchUpPolicy;
   enabled: boolean;
 }
 
@@ -23,6 +33,7 @@ export interface WebhookTriggerConfig {
   endpointPath: string;
   method: 'POST';
   authType: 'bearer' | 'hmac' | 'none';
+  /** Only in configs written before the secret moved to the vault (WEBHOOK_SECRET) */
   secret?: string;
   enabled: boolean;
 }
@@ -35,7 +46,7 @@ export interface MessagingTriggerConfig {
 }
 
 export interface MessagingChannel {
-  platform: 'whatsapp' | 'telegram' | 'slack' | 'discord';
+  platform: MessagingPlatform;
   enabled: boolean;
 }
 
@@ -55,23 +66,76 @@ export type TriggerConfig =
 import { TriggerConfigError } from '../lib/errors';
 export { TriggerConfigError };
 
+const MESSAGING_PLATFORMS: MessagingPlatform[] = ['whatsapp', 'telegram', 'slack', 'discord'];
+
 // -----------------------------------------------------------------------------
 // Public API
 // -----------------------------------------------------------------------------
 
 /**
  * Create a trigger configuration and write it to the OpenClaw config directory.
+ * `settings` (from the deploy form) override the pattern's defaults.
  */
 export async function createTriggerConfig(
   triggerPattern: TriggerPattern,
   manifest: SystemManifest,
+  openclawRoot: string,
+  settings?: TriggerSettings
+): Promise<TriggerConfig> {
+  const config = resolveTriggerConfig(triggerPattern, manifest, settings);
+  await writeTriggerConfig(config, manifest.slug, openclawRoot);
+  return config;
+}
+
+/**
+ * The trigger configuration createTriggerConfig would write, without writing
+ * it. Throws TriggerConfigError for invalid settings (e.g. a bad cron).
+ */
+export function resolveTriggerConfig(
+  triggerPattern: TriggerPattern,
+  manifest: SystemManifest,
+  settings?: TriggerSettings
+): TriggerConfig {
+  if (settings && settings.type !== triggerPattern) {
+    throw new TriggerConfigError(
+      `Trigger settings are for "${settings.type}" but the system uses "${triggerPattern}"`,
+      triggerPattern
+    );
+  }
+  const defaults = buildTriggerConfig(triggerPattern, manifest);
+  return settings ? applyTriggerSettings(defaults, settings) : defaults;
+}
+
+/**
+ * Rewrite a deployed system's trigger from user settings. Settings of the
+ * current trigger type are merged over the current config, so omitted fields
+ * are kept; a new type starts from its defaults.
+ */
+export async function updateTriggerConfig(
+  current: TriggerConfig | null,
+  settings: TriggerSettings,
+  manifest: SystemManifest,
   openclawRoot: string
 ): Promise<TriggerConfig> {
-  const config = buildTriggerConfig(triggerPattern, manifest);
+  const base =
+    current?.type === settings.type ? current : buildTriggerConfig(settings.type, manifest);
+  const config = applyTriggerSettings(base, settings);
   await writeTriggerConfig(config, manifest.slug, openclawRoot);
   return config;
 }
 
+/**
+ * Write a previously generated trigger configuration back to disk unchanged
+ * (redeploys keep user edits, rollbacks restore a snapshot).
+ */
+export async function restoreTriggerConfig(
+  config: TriggerConfig,
+  systemSlug: string,
+  openclawRoot: string
+): Promise<void> {
+  await writeTriggerConfig(config, systemSlug, openclawRoot);
+}
+
 /**
  * Remove trigger configuration files for a system.
  */
@@ -79,9 +143,24 @@ export async function removeTriggerConfig(
   systemSlug: string,
   openclawRoot: string
 ): Promise<void> {
-  const triggerDir = path.join(openclawRoot, 'config', 'triggers');
-  const filePath = path.join(triggerDir, `${systemSlug}.json`);
-  await fs.rm(filePath, { force: true });
+  await fs.rm(triggerConfigPath(systemSlug, openclawRoot), { force: true });
+}
+
+/** A system's trigger file in OpenClaw's config/triggers/ directory */
+export function triggerConfigPath(systemSlug: string, openclawRoot: string): string {
+  return path.join(openclawRoot, 'config', 'triggers', `${systemSlug}.json`);
+}
+
+/** The trigger file writeTriggerConfig produces for `config` */
+export function triggerConfigFile(
+  config: TriggerConfig,
+  systemSlug: string,
+  openclawRoot: string
+): OpenClawFile {
+  return {
+    path: triggerConfigPath(systemSlug, openclawRoot),
+    content: JSON.stringify(config, null, 2),
+  };
 }
 
 // -----------------------------------------------------------------------------
@@ -109,7 +188,7 @@ function buildTriggerConfig(
 }
 
 function createCronTrigger(manifest: SystemManifest): CronTriggerConfig {
-  // Default cron: daily at 6 AM UTC. Systems can override via config wizard.
+  // Default cron by category, in UTC. The deploy form's settings override it.
   const expression = inferCronExpression(manifest.category);
 
   return {
@@ -131,14 +210,10 @@ function createWebhookTrigger(manifest: SystemManifest): WebhookTriggerConfig {
 }
 
 function createMessagingTrigger(_manifest: SystemManifest): MessagingTriggerConfig {
+  // Slack only unless the deploy form picks channels
   return {
     type: 'messaging',
-    channels: [
-      { platform: 'whatsapp', enabled: false },
-      { platform: 'telegram', enabled: false },
-      { platform: 'slack', enabled: true },
-      { platform: 'discord', enabled: false },
-    ],
+    channels: MESSAGING_PLATFORMS.map((platform) => ({ platform, enabled: platform === 'slack' })),
     routerEnabled: true,
     enabled: true,
   };
@@ -153,6 +228,75 @@ function createDaemonTrigger(manifest: SystemManifest): DaemonTriggerConfig {
   };
 }
 
+// -----------------------------------------------------------------------------
+// User settings — validated and merged over a base config
+// -----------------------------------------------------------------------------
+
+function applyTriggerSettings(base: TriggerConfig, settings: TriggerSettings): TriggerConfig {
+  switch (settings.type) {
+    case 'cron': {
+      const cron = base as CronTriggerConfig;
+      const config: CronTriggerConfig = {
+        ...cron,
+        expression: settings.expression?.trim() ?? cron.expression,
+        timezone: settings.timezone ?? cron.timezone,
+        ...(settings.catchUp && { catchUp: settings.catchUp }),
+        enabled: settings.enabled ?? cron.enabled,
+      };
+      assertValidCron(config);
+      return config;
+    }
+    case 'webhook': {
+      // The secret is stored in the vault by the deploy bridge, never in the config
+      const { secret: _secret, ...webhook } = base as WebhookTriggerConfig;
+      return {
+        ...webhook,
+        authType: settings.authType ?? webhook.authType,
+        enabled: settings.enabled ?? webhook.enabled,
+      };
+    }
+    case 'messaging': {
+      const messaging = base as MessagingTriggerConfig;
+      const channels = settings.channels
+        ? MESSAGING_PLATFORMS.map((platform) => ({
+            platform,
+            enabled: settings.channels!.includes(platform),
+          }))
+        : messaging.channels;
+      if (!channels.some((c) => c.enabled)) {
+        throw new TriggerConfigError('Enable at least one messaging channel', 'messaging');
+      }
+      return {
+        ...messaging,
+        channels,
+        routerEnabled: settings.routerEnabled ?? messaging.routerEnabled,
+        enabled: settings.enabled ?? messaging.enabled,
+      };
+    }
+    case 'always-on': {
+      const daemon = base as DaemonTriggerConfig;
+      return {
+        ...daemon,
+        healthCheckEndpoint: settings.healthCheckEndpoint ?? daemon.healthCheckEndpoint,
+        healthCheckIntervalMs: settings.healthCheckIntervalMs ?? daemon.healthCheckIntervalMs,
+        enabled: settings.enabled ?? daemon.enabled,
+      };
+    }
+  }
+}
+
+function assertValidCron(config: CronTriggerConfig): void {
+  try {
+    parseCron(config.expression, config.timezone);
+  } catch (err) {
+    throw new TriggerConfigError(
+      err instanceof Error ? err.message : String(err),
+      'cron',
+      err
+    );
+  }
+}
+
 // -----------------------------------------------------------------------------
 // Helpers
 // -----------------------------------------------------------------------------
@@ -183,9 +327,7 @@ async function writeTriggerConfig(
   systemSlug: string,
   openclawRoot: string
 ): Promise<void> {
-  const triggerDir = path.join(openclawRoot, 'config', 'triggers');
-  await fs.mkdir(triggerDir, { recursive: true });
-
-  const filePath = path.join(triggerDir, `${systemSlug}.json`);
-  await fs.writeFile(filePath, JSON.stringify(config, null, 2), 'utf-8');
+  const file = triggerConfigFile(config, systemSlug, openclawRoot);
+  await fs.mkdir(path.dirname(file.path), { recursive: true });
+  await fs.writeFile(file.path, file.content, 'utf-8');
 }
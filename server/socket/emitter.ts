@@ -19,6 +19,10 @@ import {
   ExecutionLogPayload,
   AgentResultPayload,
   ExecutionReportPayload,
+  ResumableRunPayload,
+  ApprovalRequestPayload,
+  ApprovalResolvedPayload,
+  ChannelMessagePayload,
 } from '../../shared/socket-events';
 
 // Type-safe Socket.io server
@@ -135,6 +139,35 @@ export function emitExecutionReport(payload: ExecutionReportPayload): void {
   getSocketServer().emit('execution:report', payload);
 }
 
+export function emitExecutionPaused(payload: ResumableRunPayload): void {
+  getSocketServer().emit('execution:paused', payload);
+}
+
+// -----------------------------------------------------------------------------
+// Approval Events
+// -----------------------------------------------------------------------------
+
+export function emitApprovalRequest(payload: ApprovalRequestPayload): void {
+  getSocketServer().emit('approval:request', payload);
+}
+
+export function emitApprovalResolved(payload: ApprovalResolvedPayload): void {
+  getSocketServer().emit('approval:resolved', payload);
+}
+
+// -----------------------------------------------------------------------------
+// Messaging Events
+// -----------------------------------------------------------------------------
+
+/** Deliver a message to the sockets bound to a web messaging channel */
+export function emitChannelMessage(payload: ChannelMessagePayload): void {
+  getSocketServer().sockets.sockets.forEach((socket) => {
+    if (socket.data.channelId === payload.channelId) {
+      socket.emit('message:outbound', payload);
+    }
+  });
+}
+
 // -----------------------------------------------------------------------------
 // Error Events
 // -----------------------------------------------------------------------------
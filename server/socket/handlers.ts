@@ -12,10 +12,21 @@ import { Session } from '../types/session';
 import { createSupervisorAgent, SupervisorAgent } from '../agents/supervisor';
 import { canvas_sync_from_client, canvasState, canvas_update_property, persistLayout, loadPersistedLayout } from '../mcp/canvas';
 import { validateSystem } from '../services/runtime';
-import { executeWorkflow, executeFixerAgent, stopExecution } from '../services/orchestrator-bridge';
+import {
+  executeWorkflow,
+  executeFixerAgent,
+  stopExecution,
+  pauseExecution,
+  resumeWorkflow,
+  listResumableRuns,
+  discardRun,
+} from '../services/orchestrator-bridge';
+import { listPendingApprovals, readApprovalAudit, resolveApproval } from '../services/approval-gates';
 import { SANDBOX_ROOT } from '../mcp/sandbox-mcp';
 import { emitExecutionLog } from './emitter';
 import { getSessionStore, FileSessionStore } from '../services/session-store';
+import { handleInboundMessage } from '../services/inbound-messages';
+import { inboundMessageBodySchema } from '../src/middleware/validation';
 
 // File-backed session store — survives server restarts
 const sessions: FileSessionStore = getSessionStore();
@@ -114,6 +125,20 @@ export function setupSocketHandlers(io: TypedSocketServer): void {
       callback(session.id);
     });
 
+    // Re-bind the session after a reconnect so session-scoped events keep working
+    socket.on('session:resume', (payload, callback) => {
+      const { sessionId } = payload;
+      if (!sessions.get(sessionId)) {
+        callback(false);
+        return;
+      }
+      socket.data.sessionId = sessionId;
+      // The web chat's messaging channel is its session (useSocket sends channelId = sessionId)
+      socket.data.channelId = sessionId;
+      console.log(`[Socket] Session resumed: ${sessionId}`);
+      callback(true);
+    });
+
     // Handle incoming messages
     socket.on('session:message', async (payload) => {
       const { sessionId, content } = payload;
@@ -153,12 +178,43 @@ export function setupSocketHandlers(io: TypedSocketServer): void {
       }
     });
 
+    // Route a channel message to the deployed systems (ChatPanel "Systems" mode)
+    socket.on('message:inbound', async (payload, callback) => {
+      const parsed = inboundMessageBodySchema.safeParse(payload);
+      if (!parsed.success) {
+        callback?.({
+          error: parsed.error.issues.map((i) => `${i.path.join('.')}: ${i.message}`).join('; '),
+        });
+        return;
+      }
+      const message = parsed.data;
+
+      // Web channels receive their replies (and the screened echo) on this socket
+      if (message.platform === 'web') {
+        socket.data.channelId = message.channelId;
+      }
+
+      try {
+        const result = await handleInboundMessage(message);
+        callback?.(result);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        socket.emit('error', {
+          code: 'INBOUND_MESSAGE_ERROR',
+          message: `Message routing failed: ${errorMessage}`,
+        });
+        callback?.({ error: errorMessage });
+      }
+    });
+
     // Handle session cancellation
     socket.on('session:cancel', (payload) => {
       const { sessionId } = payload;
       const session = sessions.get(sessionId);
 
       if (session) {
+        supervisors.get(sessionId)?.cancel();
+
         const previousState = session.state;
         sessions.updateState(sessionId, 'idle');
         socket.emit('session:stateChange', {
@@ -175,6 +231,11 @@ export function setupSocketHandlers(io: TypedSocketServer): void {
       const { sessionId } = payload;
       const session = sessions.get(sessionId);
 
+      // Canvas workflow runs pause at the next phase boundary
+      if (pauseExecution(sessionId)) {
+        console.log(`[Socket] Workflow pause requested: ${sessionId}`);
+      }
+
       if (session && session.state === 'executing') {
         sessions.updateState(sessionId, 'paused');
 
@@ -191,10 +252,28 @@ export function setupSocketHandlers(io: TypedSocketServer): void {
     });
 
     // Handle execution resume
-    socket.on('execution:resume', (payload) => {
-      const { sessionId } = payload;
+    socket.on('execution:resume', async (payload) => {
+      const { sessionId, runId } = payload;
       const session = sessions.get(sessionId);
 
+      // Checkpointed workflow run — explicit, or the session's latest paused one
+      const resumeRunId =
+        runId ?? listResumableRuns(sessionId).find((run) => run.status === 'paused')?.runId;
+      if (resumeRunId) {
+        console.log(`[Socket] Resuming workflow run ${resumeRunId} for session: ${sessionId}`);
+        try {
+          await resumeWorkflow(resumeRunId, sessionId);
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+          emitExecutionLog(sessionId, `Resume error: ${errorMessage}`, 'stderr');
+          socket.emit('error', {
+            code: 'RESUME_FAILED',
+            message: `Resume error: ${errorMessage}`,
+          });
+        }
+        return;
+      }
+
       if (session && session.state === 'paused') {
         sessions.updateState(sessionId, 'executing');
 
@@ -210,6 +289,62 @@ export function setupSocketHandlers(io: TypedSocketServer): void {
       }
     });
 
+    // List this session's checkpointed workflow runs that can be resumed
+    socket.on('execution:listResumable', (callback) => {
+      const sessionId = socket.data.sessionId;
+      callback(sessionId ? listResumableRuns(sessionId) : []);
+    });
+
+    // Drop one of this session's checkpointed runs
+    socket.on('execution:discard', (payload) => {
+      const sessionId = socket.data.sessionId;
+      const ownRun = !!sessionId && listResumableRuns(sessionId).some((run) => run.runId === payload.runId);
+      if (!ownRun) {
+        socket.emit('error', {
+          code: 'DISCARD_FAILED',
+          message: `Run ${payload.runId} is not a resumable run of this session`,
+        });
+        return;
+      }
+      try {
+        discardRun(payload.runId);
+      } catch (error) {
+        socket.emit('error', {
+          code: 'DISCARD_FAILED',
+          message: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    });
+
+    // Answer an approval gate raised by a running agent
+    socket.on('approval:respond', (payload) => {
+      const { approvalId, approved, reason } = payload;
+      // Only the session whose run raised the gate may answer it
+      const sessionId = socket.data.sessionId;
+      const ownRequest =
+        !!sessionId && listPendingApprovals(sessionId).some((request) => request.approvalId === approvalId);
+      if (!ownRequest || !resolveApproval(approvalId, approved, { reason })) {
+        socket.emit('error', {
+          code: 'APPROVAL_NOT_FOUND',
+          message: `Approval ${approvalId} is not pending for this session (already decided or expired)`,
+        });
+        return;
+      }
+      console.log(`[Socket] Approval ${approvalId} ${approved ? 'approved' : 'rejected'}`);
+    });
+
+    // This session's pending approvals, e.g. for a client that reconnects mid-run
+    socket.on('approval:listPending', (callback) => {
+      const sessionId = socket.data.sessionId;
+      callback(sessionId ? listPendingApprovals(sessionId) : []);
+    });
+
+    // This session's approval audit trail, most recent first
+    socket.on('approval:history', (callback) => {
+      const sessionId = socket.data.sessionId;
+      callback(sessionId ? readApprovalAudit(100, sessionId) : []);
+    });
+
     // Handle canvas sync from client
     socket.on('canvas:sync', (payload) => {
       const sessionId = socket.data.sessionId;
@@ -256,7 +391,7 @@ export function setupSocketHandlers(io: TypedSocketServer): void {
 
     // Handle system start (real orchestrator execution)
     socket.on('system:start', async (payload) => {
-      const { sessionId, nodes, edges, brief } = payload;
+      const { sessionId, nodes, edges, brief, budget, workflow } = payload;
 
       if (!sessionId) {
         socket.emit('error', {
@@ -314,7 +449,14 @@ export function setupSocketHandlers(io: TypedSocketServer): void {
 
       // Execute via real orchestrator engine
       try {
-        await executeWorkflow(sessionId, nodes as Parameters<typeof executeWorkflow>[1], edges as Parameters<typeof executeWorkflow>[2], brief);
+        await executeWorkflow(
+          sessionId,
+          nodes as Parameters<typeof executeWorkflow>[1],
+          edges as Parameters<typeof executeWorkflow>[2],
+          brief,
+          workflow?.trim() || undefined,
+          { budget }
+        );
       } catch (error) {
         const errorMessage = error instanceof Error ? error.message : 'Unknown error';
         emitExecutionLog(sessionId, `Runtime error: ${errorMessage}`, 'stderr');
@@ -35,6 +35,20 @@ vi.mock('../services/orchestrator-bridge', () => ({
   executeWorkflow: vi.fn().mockResolvedValue(undefined),
   executeFixerAgent: vi.fn().mockResolvedValue(undefined),
   stopExecution: vi.fn(),
+  pauseExecution: vi.fn().mockReturnValue(false),
+  resumeWorkflow: vi.fn().mockResolvedValue(undefined),
+  listResumableRuns: vi.fn().mockReturnValue([]),
+  discardRun: vi.fn(),
+}));
+
+vi.mock('../services/approval-gates', () => ({
+  listPendingApprovals: vi.fn().mockReturnValue([]),
+  readApprovalAudit: vi.fn().mockReturnValue([]),
+  resolveApproval: vi.fn().mockReturnValue(true),
+}));
+
+vi.mock('../services/inbound-messages', () => ({
+  handleInboundMessage: vi.fn().mockResolvedValue({ sessionId: 'channel-1', outcome: 'direct-answer', replies: [] }),
 }));
 
 import {
@@ -59,6 +73,9 @@ import {
   emitError,
 } from '../socket/emitter';
 import { canvas_sync_from_client } from '../mcp/canvas';
+import { discardRun, listResumableRuns, pauseExecution, resumeWorkflow } from '../services/orchestrator-bridge';
+import { listPendingApprovals, readApprovalAudit, resolveApproval } from '../services/approval-gates';
+import { handleInboundMessage } from '../services/inbound-messages';
 
 // =============================================================================
 // Tests: Session Management (from handlers.ts)
@@ -150,6 +167,30 @@ describe('setupSocketHandlers', () => {
     });
   });
 
+  describe('session:resume', () => {
+    it('should re-bind a known session to a reconnected socket', () => {
+      const started = vi.fn();
+      eventHandlers['session:start'](started);
+      const sessionId = started.mock.calls[0][0];
+      mockSocket.data = {};
+
+      const callback = vi.fn();
+      eventHandlers['session:resume']({ sessionId }, callback);
+
+      expect(callback).toHaveBeenCalledWith(true);
+      expect(mockSocket.data.sessionId).toBe(sessionId);
+      expect(mockSocket.data.channelId).toBe(sessionId);
+    });
+
+    it('should refuse an unknown session', () => {
+      const callback = vi.fn();
+      eventHandlers['session:resume']({ sessionId: 'nonexistent' }, callback);
+
+      expect(callback).toHaveBeenCalledWith(false);
+      expect(mockSocket.data.sessionId).toBeUndefined();
+    });
+  });
+
   describe('session:message', () => {
     it('should emit error for unknown session', async () => {
       await eventHandlers['session:message']({
@@ -188,6 +229,31 @@ describe('setupSocketHandlers', () => {
     });
   });
 
+  describe('message:inbound', () => {
+    it('should route the validated message and bind web channels to the socket', async () => {
+      const callback = vi.fn();
+      await eventHandlers['message:inbound']({ channelId: 'channel-1', platform: 'web', text: '  hi  ' }, callback);
+
+      expect(handleInboundMessage).toHaveBeenCalledWith({ channelId: 'channel-1', platform: 'web', text: 'hi' });
+      expect(mockSocket.data.channelId).toBe('channel-1');
+      expect(callback).toHaveBeenCalledWith(expect.objectContaining({ outcome: 'direct-answer' }));
+    });
+
+    it('should reject messages the REST route would reject', async () => {
+      const callback = vi.fn();
+      await eventHandlers['message:inbound']({ channelId: 'channel-1', platform: 'fax', text: 'hi' }, callback);
+      await eventHandlers['message:inbound'](
+        { channelId: 'channel-1', platform: 'web', text: 'x'.repeat(4001) },
+        callback
+      );
+
+      expect(callback).toHaveBeenNthCalledWith(1, { error: expect.stringContaining('platform') });
+      expect(callback).toHaveBeenNthCalledWith(2, { error: expect.stringContaining('text') });
+      expect(handleInboundMessage).not.toHaveBeenCalled();
+      expect(mockSocket.data.channelId).toBeUndefined();
+    });
+  });
+
   describe('session:cancel', () => {
     it('should reset session state to idle', () => {
       const callback = vi.fn();
@@ -217,6 +283,116 @@ describe('setupSocketHandlers', () => {
     });
   });
 
+  describe('workflow checkpoints', () => {
+    it('execution:pause should ask the workflow run to pause', () => {
+      eventHandlers['execution:pause']({ sessionId: 'session-1' });
+
+      expect(pauseExecution).toHaveBeenCalledWith('session-1');
+    });
+
+    it('execution:resume should resume the given run', async () => {
+      await eventHandlers['execution:resume']({ sessionId: 'session-1', runId: 'run_abc' });
+
+      expect(resumeWorkflow).toHaveBeenCalledWith('run_abc', 'session-1');
+    });
+
+    it("execution:resume without a runId should resume the session's paused run", async () => {
+      vi.mocked(listResumableRuns).mockReturnValueOnce([
+        { runId: 'run_paused', status: 'paused' } as ReturnType<typeof listResumableRuns>[number],
+      ]);
+
+      await eventHandlers['execution:resume']({ sessionId: 'session-1' });
+
+      expect(listResumableRuns).toHaveBeenCalledWith('session-1');
+      expect(resumeWorkflow).toHaveBeenCalledWith('run_paused', 'session-1');
+    });
+
+    it('execution:listResumable should answer with resumable runs', () => {
+      const callback = vi.fn();
+      eventHandlers['execution:listResumable'](callback);
+
+      expect(callback).toHaveBeenCalledWith([]);
+    });
+
+    it("execution:listResumable should only list the socket's session runs", () => {
+      mockSocket.data.sessionId = 'session-1';
+      eventHandlers['execution:listResumable'](vi.fn());
+
+      expect(listResumableRuns).toHaveBeenCalledWith('session-1');
+    });
+
+    it('execution:discard should only drop runs of the socket\'s session', () => {
+      mockSocket.data.sessionId = 'session-1';
+      vi.mocked(listResumableRuns).mockImplementation((sessionId) =>
+        sessionId === 'session-1'
+          ? [{ runId: 'run_own', status: 'paused' } as ReturnType<typeof listResumableRuns>[number]]
+          : []
+      );
+
+      eventHandlers['execution:discard']({ runId: 'run_other' });
+      eventHandlers['execution:discard']({ runId: 'run_own' });
+
+      expect(discardRun).toHaveBeenCalledTimes(1);
+      expect(discardRun).toHaveBeenCalledWith('run_own');
+      expect(mockSocket.emit).toHaveBeenCalledWith('error', expect.objectContaining({ code: 'DISCARD_FAILED' }));
+      vi.mocked(listResumableRuns).mockReturnValue([]);
+    });
+  });
+
+  describe('approval:respond', () => {
+    beforeEach(() => {
+      vi.mocked(listPendingApprovals).mockImplementation((sessionId) =>
+        sessionId === 'session-1'
+          ? ([{ approvalId: 'approval_1', sessionId }] as ReturnType<typeof listPendingApprovals>)
+          : []
+      );
+    });
+
+    it("should resolve an approval raised by the socket's session", () => {
+      mockSocket.data.sessionId = 'session-1';
+      eventHandlers['approval:respond']({ approvalId: 'approval_1', approved: true });
+
+      expect(resolveApproval).toHaveBeenCalledWith('approval_1', true, { reason: undefined });
+      expect(mockSocket.emit).not.toHaveBeenCalled();
+    });
+
+    it("should refuse an approval raised by another session's run", () => {
+      mockSocket.data.sessionId = 'session-2';
+      eventHandlers['approval:respond']({ approvalId: 'approval_1', approved: true });
+
+      expect(resolveApproval).not.toHaveBeenCalled();
+      expect(mockSocket.emit).toHaveBeenCalledWith(
+        'error',
+        expect.objectContaining({ code: 'APPROVAL_NOT_FOUND' })
+      );
+    });
+
+    it('should refuse approvals from a socket without a session', () => {
+      eventHandlers['approval:respond']({ approvalId: 'approval_1', approved: false });
+
+      expect(resolveApproval).not.toHaveBeenCalled();
+    });
+
+    it("approval:listPending and approval:history should only answer with the socket's session", () => {
+      mockSocket.data.sessionId = 'session-2';
+      const pending = vi.fn();
+      const history = vi.fn();
+      eventHandlers['approval:listPending'](pending);
+      eventHandlers['approval:history'](history);
+
+      expect(pending).toHaveBeenCalledWith([]);
+      expect(readApprovalAudit).toHaveBeenCalledWith(100, 'session-2');
+    });
+
+    it('approval:listPending should answer nothing without a session', () => {
+      const pending = vi.fn();
+      eventHandlers['approval:listPending'](pending);
+
+      expect(listPendingApprovals).not.toHaveBeenCalled();
+      expect(pending).toHaveBeenCalledWith([]);
+    });
+  });
+
   describe('disconnect', () => {
     it('should handle disconnect without errors', () => {
       expect(() => eventHandlers['disconnect']('transport close')).not.toThrow();
@@ -31,11 +31,30 @@ import { getSession } from '../socket/handlers';
 import { getPoolStatus } from '../lib/anthropic-client';
 import { analyzeWorkflow, analyzeNodeConfig } from '../services/configuration-analyzer';
 import { handleLogStreamUpgrade } from '../services/log-stream';
+import { startOperatorScheduler, stopOperatorScheduler } from '../services/operator-scheduler';
+import { startRunQueue, stopRunQueue } from '../services/execution-dispatcher';
+import { startBudgetMonitor, stopBudgetMonitor } from '../services/spend-budgets';
+import {
+  startCronExecutor,
+  stopCronExecutor,
+  cronExecutorEnabled,
+  getCronTriggers,
+} from '../services/cron-executor';
+import { startInboundMessaging, stopInboundMessaging } from '../services/inbound-messages';
+import {
+  startGatewayClient,
+  disconnectFromGateway,
+  getGatewayStatus,
+} from '../services/openclaw-client';
 
 // Routes
 import { systemsRouter } from '../routes/systems';
 import { deployRouter } from '../routes/deploy';
 import { operatorsRouter } from '../routes/operators';
+import { webhooksRouter } from '../routes/webhooks';
+import { messagesRouter } from '../routes/messages';
+import { metricsRouter } from '../routes/metrics';
+import { memoryRouter } from '../routes/memory';
 
 // Middleware
 import { requestLogger } from './middleware/request-logger';
@@ -52,7 +71,7 @@ import {
 } from './middleware/validation';
 import { apiKeyAuth } from './middleware/auth';
 import { slidingWindowRateLimiter } from './middleware/rate-limiter';
-import { webhookVerify } from './middleware/webhook-verify';
+import { captureRawBody } from './middleware/webhook-verify';
 
 // =============================================================================
 // Server Configuration
@@ -113,8 +132,8 @@ app.use(
   })
 );
 
-// Body parsing with size limit
-app.use(express.json({ limit: '1mb' }));
+// Body parsing with size limit (raw bytes kept for webhook HMAC verification)
+app.use(express.json({ limit: '1mb', verify: captureRawBody }));
 
 // Request logging
 app.use(requestLogger);
@@ -122,7 +141,8 @@ app.use(requestLogger);
 // Rate limiting — sliding window, 100 req/min per IP
 app.use('/api/', slidingWindowRateLimiter({ windowMs: 60_000, maxRequests: 100 }));
 
-// API key authentication — all /api/ routes except /api/health
+// API key authentication — all /api/ routes except /api/health and inbound
+// webhooks (those authenticate with their per-system secret)
 app.use('/api/', apiKeyAuth);
 
 // Stricter rate limit for AI-powered endpoints
@@ -379,13 +399,30 @@ app.post(
 
 // --- Health Check ---
 
+// Unauthenticated: booleans and counts only, details live behind /api/status
 app.get('/api/health', (_req, res) => {
   const poolStatus = getPoolStatus();
+  const gateway = getGatewayStatus();
   res.json({
     status: 'ok',
     timestamp: new Date().toISOString(),
     uptime: process.uptime(),
     pools: poolStatus,
+    gateway: {
+      configured: gateway.configured,
+      connected: gateway.connected,
+      subscriptions: gateway.subscriptions,
+    },
+    cronExecutor: { enabled: cronExecutorEnabled(), triggers: getCronTriggers().length },
+  });
+});
+
+// --- Runtime Status ---
+
+app.get('/api/status', (_req, res) => {
+  res.json({
+    gateway: getGatewayStatus(),
+    cronExecutor: { enabled: cronExecutorEnabled(), triggers: getCronTriggers() },
   });
 });
 
@@ -394,6 +431,10 @@ app.get('/api/health', (_req, res) => {
 app.use('/api/systems', systemsRouter);
 app.use('/api/deploy', deployRouter);
 app.use('/api/operators', operatorsRouter);
+app.use('/api/webhooks', webhooksRouter);
+app.use('/api/messages', messagesRouter);
+app.use('/api/metrics', metricsRouter);
+app.use('/api/memory', memoryRouter);
 
 // =============================================================================
 // Error Handling (must be after routes)
@@ -411,6 +452,16 @@ function gracefulShutdown(signal: string): void {
 
   // Flush session data to disk before exiting
   flushSessions();
+  stopOperatorScheduler();
+  stopCronExecutor();
+  stopRunQueue();
+  stopBudgetMonitor();
+  stopInboundMessaging().catch((err) => {
+    console.error('[Server] Failed to close messaging sessions:', err);
+  });
+  disconnectFromGateway().catch((err) => {
+    console.error('[Server] Failed to disconnect from OpenClaw gateway:', err);
+  });
 
   httpServer.close(() => {
     console.log('[Server] HTTP server closed');
@@ -439,6 +490,18 @@ async function startServer(): Promise<void> {
     await initializeSandbox();
     await loadPersistedLayout();
     await startSkillWatcher();
+    startOperatorScheduler();
+    startRunQueue();
+    startBudgetMonitor();
+    // Not awaited: catching up missed cron fires must not delay the listener
+    startCronExecutor().catch((err) => {
+      console.error('[Server] Cron executor failed to start:', err);
+    });
+    startInboundMessaging();
+    // Not awaited: an unreachable gateway is retried in the background
+    startGatewayClient().catch((err) => {
+      console.error('[Server] OpenClaw gateway client failed to start:', err);
+    });
 
     httpServer.listen(PORT, () => {
       console.log(`[Server] Running on http://localhost:${PORT}`);
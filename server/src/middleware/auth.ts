@@ -9,13 +9,18 @@ import { AuthenticationError } from '../../lib/errors';
 
 const SKIP_PATHS = ['/api/health'];
 
+// Inbound webhooks are called by third parties and verify their own secret
+const SKIP_PREFIXES = ['/api/webhooks/'];
+
 /**
  * Middleware that requires a valid API key in the X-API-Key header.
- * Skips /api/health for uptime monitoring.
+ * Skips /api/health for uptime monitoring and /api/webhooks/* for external callers.
  * Uses timing-safe comparison to prevent timing attacks.
  */
 export function apiKeyAuth(req: Request, _res: Response, next: NextFunction): void {
-  if (SKIP_PATHS.includes(req.path)) {
+  // req.path is relative to the mount point — rebuild the full path
+  const fullPath = req.baseUrl + req.path;
+  if (SKIP_PATHS.includes(fullPath) || SKIP_PREFIXES.some((p) => fullPath.startsWith(p))) {
     return next();
   }
 
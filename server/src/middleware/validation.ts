@@ -58,6 +58,61 @@ export const configureNodeBodySchema = z.object({
     .optional(),
 });
 
+/**
+ * Trigger settings for deploys and PUT /api/systems/:slug/trigger. Cron
+ * expressions are parsed by the trigger factory, which names the bad field.
+ */
+export const triggerSettingsSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('cron'),
+    expression: z.string().min(1).max(200).optional(),
+    timezone: z.string().min(1).max(64).optional(),
+    catchUp: z.enum(['skip', 'latest', 'all']).optional(),
+    enabled: z.boolean().optional(),
+  }),
+  z.object({
+    type: z.literal('webhook'),
+    authType: z.enum(['bearer', 'hmac', 'none']).optional(),
+    secret: z.string().min(16).max(256).optional(),
+    enabled: z.boolean().optional(),
+  }),
+  z.object({
+    type: z.literal('messaging'),
+    channels: z.array(z.enum(['whatsapp', 'telegram', 'slack', 'discord'])).min(1).optional(),
+    routerEnabled: z.boolean().optional(),
+    enabled: z.boolean().optional(),
+  }),
+  z.object({
+    type: z.literal('always-on'),
+    healthCheckEndpoint: z.string().max(256).regex(/^\/[\w\-./]*$/, 'must be a path starting with /').optional(),
+    healthCheckIntervalMs: z.number().int().min(5_000).max(3_600_000).optional(),
+    enabled: z.boolean().optional(),
+  }),
+]);
+
+/** A channel message for POST /api/messages/inbound and the `message:inbound` socket event */
+export const inboundMessageBodySchema = z.object({
+  channelId: z.string().min(1).max(200),
+  platform: z.enum(['web', 'whatsapp', 'telegram', 'slack', 'discord']),
+  text: z.string().trim().min(1).max(4000),
+});
+
+export const cronPreviewQuerySchema = z.object({
+  expression: z.string().min(1, 'expression is required').max(200),
+  timezone: z.string().min(1).max(64).default('UTC'),
+  count: z
+    .string()
+    .optional()
+    .transform((val) => (val ? parseInt(val, 10) : 5))
+    .pipe(z.number().int().min(1).max(20)),
+});
+
+export const metricsQuerySchema = z.object({
+  bucket: z.enum(['hour', 'day', 'week']).default('day'),
+  from: z.string().refine((val) => !Number.isNaN(Date.parse(val)), 'must be an ISO 8601 date').optional(),
+  to: z.string().refine((val) => !Number.isNaN(Date.parse(val)), 'must be an ISO 8601 date').optional(),
+});
+
 // -----------------------------------------------------------------------------
 // Validation Middleware Factory
 // -----------------------------------------------------------------------------
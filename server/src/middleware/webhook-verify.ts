@@ -4,9 +4,75 @@
 // =============================================================================
 
 import { Request, Response, NextFunction } from 'express';
+import type { IncomingMessage, ServerResponse } from 'http';
 import crypto from 'crypto';
 import { WebhookSignatureError } from '../../lib/errors';
 
+/** Request with the unparsed body captured by `captureRawBody`. */
+export interface RawBodyRequest extends Request {
+  rawBody?: Buffer;
+}
+
+/**
+ * `verify` callback for express.json() that keeps the raw request bytes.
+ * HMAC signatures must be computed over the exact bytes the sender signed —
+ * re-serializing the parsed JSON changes key order and whitespace.
+ */
+export function captureRawBody(
+  req: IncomingMessage,
+  _res: ServerResponse,
+  buf: Buffer
+): void {
+  (req as RawBodyRequest).rawBody = buf;
+}
+
+/**
+ * Verify a `sha256=<hex>` signature header against the given body and secret.
+ * Throws WebhookSignatureError on a missing, malformed or mismatched signature.
+ */
+export function verifyHmacSignature(
+  body: Buffer,
+  secret: string,
+  signature: string | undefined
+): void {
+  if (!signature) {
+    throw new WebhookSignatureError('Missing X-Webhook-Signature header');
+  }
+
+  // Expect format: sha256=<hex>
+  const parts = signature.split('=');
+  if (parts.length !== 2 || parts[0] !== 'sha256') {
+    throw new WebhookSignatureError('Invalid signature format, expected sha256=<hex>');
+  }
+
+  const expectedDigest = crypto.createHmac('sha256', secret).update(body).digest('hex');
+
+  // Timing-safe comparison
+  const expected = Buffer.from(expectedDigest, 'hex');
+  const provided = Buffer.from(parts[1], 'hex');
+
+  if (expected.length !== provided.length || !crypto.timingSafeEqual(expected, provided)) {
+    throw new WebhookSignatureError('Signature mismatch');
+  }
+}
+
+/**
+ * Verify an `Authorization: Bearer <token>` header against the given secret.
+ * Throws WebhookSignatureError on a missing or mismatched token.
+ */
+export function verifyBearerToken(secret: string, authorization: string | undefined): void {
+  if (!authorization || !authorization.startsWith('Bearer ')) {
+    throw new WebhookSignatureError('Missing bearer token');
+  }
+
+  const expected = Buffer.from(secret, 'utf-8');
+  const provided = Buffer.from(authorization.slice('Bearer '.length).trim(), 'utf-8');
+
+  if (expected.length !== provided.length || !crypto.timingSafeEqual(expected, provided)) {
+    throw new WebhookSignatureError('Invalid bearer token');
+  }
+}
+
 /**
  * Creates middleware that verifies HMAC-SHA256 webhook signatures.
  * The signature header format is: sha256=<hex digest>
@@ -20,30 +86,12 @@ export function webhookVerify(secretEnvVar: string = 'WEBHOOK_SECRET') {
       return next();
     }
 
-    const signature = req.header('X-Webhook-Signature');
-    if (!signature) {
-      return next(new WebhookSignatureError('Missing X-Webhook-Signature header'));
-    }
-
-    // Expect format: sha256=<hex>
-    const parts = signature.split('=');
-    if (parts.length !== 2 || parts[0] !== 'sha256') {
-      return next(new WebhookSignatureError('Invalid signature format, expected sha256=<hex>'));
-    }
-
-    const providedDigest = parts[1];
-    const body = JSON.stringify(req.body);
-    const expectedDigest = crypto
-      .createHmac('sha256', secret)
-      .update(body, 'utf-8')
-      .digest('hex');
-
-    // Timing-safe comparison
-    const expected = Buffer.from(expectedDigest, 'hex');
-    const provided = Buffer.from(providedDigest, 'hex');
+    const body = (req as RawBodyRequest).rawBody ?? Buffer.from(JSON.stringify(req.body), 'utf-8');
 
-    if (expected.length !== provided.length || !crypto.timingSafeEqual(expected, provided)) {
-      return next(new WebhookSignatureError('Signature mismatch'));
+    try {
+      verifyHmacSignature(body, secret, req.header('X-Webhook-Signature'));
+    } catch (err) {
+      return next(err);
     }
 
     next();
@@ -75,6 +75,18 @@ function setupHappyPath() {
   return { triggerConfig, deploymentRecord };
 }
 
+function createMultiAppBundle() {
+  const bundle = createTestBundle();
+  return createTestBundle({
+    pm2Ecosystem: {
+      apps: ['researcher', 'writer', 'editor'].map((agent) => ({
+        ...bundle.pm2Ecosystem.apps[0],
+        name: `test-system--${agent}`,
+      })),
+    },
+  });
+}
+
 describe('Deploy Bridge', () => {
   beforeEach(() => {
     vi.clearAllMocks();
@@ -143,7 +155,8 @@ describe('Deploy Bridge', () => {
       expect(mockCreateTriggerConfig).toHaveBeenCalledWith(
         'cron',
         bundle.manifest,
-        OPENCLAW_ROOT
+        OPENCLAW_ROOT,
+        undefined
       );
     });
 
@@ -171,6 +184,37 @@ describe('Deploy Bridge', () => {
       );
     });
 
+    it('records the bundle as the first deployment version', async () => {
+      setupHappyPath();
+      const bundle = createTestBundle();
+
+      await deploySystem(bundle, OPENCLAW_ROOT);
+
+      const versionInsert = mockPoolQuery.mock.calls.find((c) =>
+        (c[0] as string).includes('INSERT INTO deployment_versions')
+      );
+      expect(versionInsert).toBeDefined();
+      expect(versionInsert![1][0]).toBe('uuid-123');
+      expect(versionInsert![1][1]).toBe('1.0.0');
+      expect(JSON.parse(versionInsert![1][6])).toEqual(bundle.agentConfigs);
+    });
+
+    it('starts one PM2 process per agent app', async () => {
+      setupHappyPath();
+
+      await deploySystem(createMultiAppBundle(), OPENCLAW_ROOT);
+
+      expect(mockStartProcess).toHaveBeenCalledTimes(3);
+      expect(mockStartProcess.mock.calls.map((c) => c[0].name)).toEqual([
+        'autopilate-test-system--researcher',
+        'autopilate-test-system--writer',
+        'autopilate-test-system--editor',
+      ]);
+      for (const [config] of mockStartProcess.mock.calls) {
+        expect(config.cwd).toBe(path.join(OPENCLAW_ROOT, 'agents', 'test-system'));
+      }
+    });
+
     it('returns the deployment record with trigger and openclaw config', async () => {
       const { deploymentRecord } = setupHappyPath();
       const bundle = createTestBundle();
@@ -220,6 +264,23 @@ describe('Deploy Bridge', () => {
       );
     });
 
+    it('deletes every started agent process when a later agent fails', async () => {
+      setupHappyPath();
+      mockStartProcess
+        .mockResolvedValueOnce({})
+        .mockRejectedValueOnce(new Error('writer crashed'));
+
+      await expect(deploySystem(createMultiAppBundle(), OPENCLAW_ROOT)).rejects.toThrow(DeployError);
+
+      // The failed process is cleaned up too; the editor was never started
+      expect(mockStartProcess).toHaveBeenCalledTimes(2);
+      expect(mockDeleteProcess.mock.calls.map((c) => c[0])).toEqual([
+        'autopilate-test-system--researcher',
+        'autopilate-test-system--writer',
+      ]);
+      expect(mockUpdateSystemStatus).toHaveBeenCalledWith('test-system', 'errored');
+    });
+
     it('cleans up only completed steps when trigger config fails', async () => {
       setupHappyPath();
       mockCreateTriggerConfig.mockRejectedValue(new Error('trigger write failed'));
@@ -0,0 +1,198 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import express from 'express';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import type { AddressInfo } from 'net';
+import type { Server } from 'http';
+import { createTestBundle, createTestMcpConfig, createTestAgentConfig } from './fixtures';
+
+// ---------------------------------------------------------------------------
+// Mocks — must be declared before importing modules under test
+// ---------------------------------------------------------------------------
+
+const mockPoolQuery = vi.fn();
+vi.mock('../../db', () => ({
+  pool: { query: (...args: unknown[]) => mockPoolQuery(...args) },
+}));
+
+const mockDeploySystem = vi.fn();
+vi.mock('../../services/deploy-bridge', async () => ({
+  ...(await vi.importActual<typeof import('../../services/deploy-bridge')>('../../services/deploy-bridge')),
+  deploySystem: (...args: unknown[]) => mockDeploySystem(...args),
+}));
+
+vi.mock('../../services/pm2-manager', () => ({}));
+vi.mock('../../services/openclaw-client', () => ({}));
+
+import { planDeploy } from '../../services/deploy-plan';
+import { renderAgentConfigs } from '../../services/deploy-bridge';
+import { deployRouter } from '../../routes/deploy';
+import { errorHandler } from '../../src/middleware/error-handler';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+let openclawRoot: string;
+let server: Server;
+let baseUrl: string;
+
+function codes(issues: Array<{ code: string; subject: string }>) {
+  return issues.map((issue) => `${issue.code}:${issue.subject}`);
+}
+
+beforeEach(async () => {
+  vi.clearAllMocks();
+  mockPoolQuery.mockResolvedValue({ rows: [] });
+  openclawRoot = await fs.mkdtemp(path.join(os.tmpdir(), 'deploy-plan-'));
+  process.env.OPENCLAW_ROOT = openclawRoot;
+
+  const app = express();
+  app.use(express.json());
+  app.use('/api/deploy', deployRouter);
+  app.use(errorHandler);
+  server = app.listen(0);
+  await new Promise((resolve) => server.once('listening', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterEach(async () => {
+  delete process.env.OPENCLAW_ROOT;
+  await new Promise((resolve) => server.close(resolve));
+  await fs.rm(openclawRoot, { recursive: true, force: true });
+});
+
+// ---------------------------------------------------------------------------
+// planDeploy
+// ---------------------------------------------------------------------------
+
+describe('planDeploy', () => {
+  it('lists every file a fresh deploy would create without writing any', async () => {
+    const plan = await planDeploy(createTestBundle(), openclawRoot);
+
+    expect(plan.deployable).toBe(true);
+    expect(plan.files.map((f) => `${f.action} ${f.path}`)).toEqual([
+      'create agents/test-system/lead-agent/CLAUDE.md',
+      'create agents/test-system/worker-agent/CLAUDE.md',
+      'create config/mcp/test-system/filesystem.json',
+      'create config/mcp/test-system/browser.json',
+      'create config/triggers/test-system.json',
+    ]);
+    expect(plan.files[0].diff).toMatch(/^@@ -0,0 \+1,\d+ @@\n\+# Lead Agent\n/);
+    expect(plan.processes).toEqual(['autopilate-test-system']);
+    expect(plan.trigger).toEqual({ type: 'cron', expression: '*/5 * * * *', timezone: 'UTC', enabled: true });
+    expect(await fs.readdir(openclawRoot)).toEqual([]);
+  });
+
+  it('diffs against files already on disk', async () => {
+    const bundle = createTestBundle();
+    const [deployed] = renderAgentConfigs(bundle.agentConfigs, 'test-system', openclawRoot);
+    await fs.mkdir(path.dirname(deployed.path), { recursive: true });
+    await fs.writeFile(deployed.path, deployed.content);
+
+    const unchanged = await planDeploy(bundle, openclawRoot);
+    bundle.agentConfigs['lead-agent'].systemPrompt = 'You lead the team.';
+    const changed = await planDeploy(bundle, openclawRoot);
+
+    expect(unchanged.files[0]).toMatchObject({ action: 'unchanged', diff: '', added: 0, removed: 0 });
+    expect(changed.files[0]).toMatchObject({ action: 'update', added: 1, removed: 1 });
+    expect(changed.files[0].diff).toContain('-You are a test agent.\n+You lead the team.');
+  });
+
+  it('reports problems as errors and warnings', async () => {
+    mockPoolQuery.mockResolvedValue({ rows: [{ status: 'deployed' }] });
+    await fs.mkdir(path.join(openclawRoot, 'bin'));
+    await fs.writeFile(path.join(openclawRoot, 'bin', 'mcp-local'), '#!/bin/sh\n', { mode: 0o755 });
+
+    const plan = await planDeploy(createTestBundle({
+      trigger: { type: 'cron', expression: '61 * * * *' },
+      agentConfigs: { solo: createTestAgentConfig({ name: 'Solo', systemPrompt: '  ' }) },
+      mcpConfigs: [
+        createTestMcpConfig({ name: 'local', command: 'bin/mcp-local' }),
+        createTestMcpConfig({ name: 'search', command: 'no-such-mcp-binary' }),
+      ],
+      envExample: { OPENAI_API_KEY: '# openai API key' },
+    }), openclawRoot);
+
+    expect(plan.deployable).toBe(false);
+    expect(plan.trigger).toBeNull();
+    expect(codes(plan.issues.filter((i) => i.severity === 'error'))).toEqual([
+      'SLUG_TAKEN:test-system',
+      'TRIGGER_INVALID:cron',
+    ]);
+    expect(codes(plan.issues.filter((i) => i.severity === 'warning'))).toEqual([
+      'MISSING_SECRET:OPENAI_API_KEY',
+      'MCP_COMMAND_NOT_FOUND:search',
+      'MISSING_SYSTEM_PROMPT:solo',
+    ]);
+    expect(plan.issues[0].message).toContain('deploy the bundle as a new version');
+    expect(plan.files.map((f) => f.path)).not.toContain('config/triggers/test-system.json');
+  });
+
+  it('catches bundles PM2 cannot start', async () => {
+    const app = { name: 'test-system--worker', script: 'run.js' };
+
+    const empty = await planDeploy(createTestBundle({ pm2Ecosystem: { apps: [] } }), openclawRoot);
+    const duplicate = await planDeploy(createTestBundle({ pm2Ecosystem: { apps: [app, app] } }), openclawRoot);
+
+    expect(codes(empty.issues)).toContain('PM2_NO_CONFIG:');
+    expect(codes(duplicate.issues)).toContain('PM2_DUPLICATE_APP:autopilate-test-system--worker');
+    expect(duplicate.processes).toEqual(['autopilate-test-system--worker']);
+  });
+
+  it('keeps the webhook secret out of the trigger and its diff', async () => {
+    const bundle = createTestBundle({
+      manifest: { ...createTestBundle().manifest, triggerPattern: 'webhook' },
+      trigger: { type: 'webhook', authType: 'hmac', secret: 'whsec_0123456789abcdef' },
+    });
+
+    const plan = await planDeploy(bundle, openclawRoot);
+
+    expect(plan.trigger).toMatchObject({ type: 'webhook', authType: 'hmac' });
+    expect(plan.trigger).not.toHaveProperty('secret');
+    expect(JSON.stringify(plan)).not.toContain('whsec_0123456789abcdef');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// POST /api/deploy/plan
+// ---------------------------------------------------------------------------
+
+describe('POST /api/deploy/plan', () => {
+  it('returns the plan without deploying', async () => {
+    const res = await fetch(`${baseUrl}/api/deploy/plan`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(createTestBundle()),
+    });
+    const body = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(body).toMatchObject({ slug: 'test-system', deployable: true });
+    expect(body.files).toHaveLength(5);
+    expect(mockDeploySystem).not.toHaveBeenCalled();
+  });
+
+  it('validates the bundle like POST /api/deploy', async () => {
+    const res = await fetch(`${baseUrl}/api/deploy/plan`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ ...createTestBundle(), manifest: { slug: 'Bad Slug' } }),
+    });
+
+    expect(res.status).toBe(400);
+  });
+
+  it('rejects slugs containing the agent separator', async () => {
+    const bundle = createTestBundle();
+    const res = await fetch(`${baseUrl}/api/deploy/plan`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ ...bundle, manifest: { ...bundle.manifest, slug: 'lead--gen' } }),
+    });
+
+    expect(res.status).toBe(400);
+    expect(JSON.stringify(await res.json())).toContain('single hyphens');
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const mockPoolQuery = vi.fn();
+vi.mock('../../db', () => ({
+  pool: { query: (...args: unknown[]) => mockPoolQuery(...args) },
+}));
+
+import {
+  nextVersion,
+  getVersion,
+  latestVersion,
+  listVersions,
+} from '../../services/deployment-versions';
+
+beforeEach(() => {
+  vi.clearAllMocks();
+});
+
+describe('nextVersion', () => {
+  it('bumps the patch component', () => {
+    expect(nextVersion('1.0.0')).toBe('1.0.1');
+    expect(nextVersion('2.3.9')).toBe('2.3.10');
+  });
+
+  it('uses the requested version only when it is higher than the bump', () => {
+    expect(nextVersion('1.0.4', '1.1.0')).toBe('1.1.0');
+    expect(nextVersion('1.0.4', '1.0.5')).toBe('1.0.5');
+    expect(nextVersion('1.0.4', '1.0.0')).toBe('1.0.5');
+  });
+
+  it('falls back to 1.0.x for non-semver versions', () => {
+    expect(nextVersion('beta')).toBe('1.0.1');
+    expect(nextVersion('1.0.0', 'latest')).toBe('1.0.1');
+  });
+});
+
+describe('version queries', () => {
+  it('maps a snapshot row to a record', async () => {
+    mockPoolQuery.mockResolvedValueOnce({
+      rows: [{
+        id: 'v-1',
+        deployment_id: 'deploy-1',
+        version: '1.0.1',
+        manifest_json: { slug: 'test-system' },
+        canvas_json: null,
+        openclaw_config: null,
+        trigger_config: { type: 'cron' },
+        agent_configs: { a: { name: 'A' } },
+        mcp_configs: [],
+        pm2_ecosystem: { apps: [] },
+        created_at: '2026-02-20T00:00:00Z',
+      }],
+    });
+
+    const version = await getVersion('deploy-1', '1.0.1');
+
+    expect(version).toMatchObject({
+      deploymentId: 'deploy-1',
+      triggerConfig: { type: 'cron' },
+      agentConfigs: { a: { name: 'A' } },
+      pm2Ecosystem: { apps: [] },
+    });
+    expect(mockPoolQuery.mock.calls[0][1]).toEqual(['deploy-1', '1.0.1']);
+  });
+
+  it('returns null when a version or history is missing', async () => {
+    mockPoolQuery.mockResolvedValue({ rows: [] });
+
+    expect(await getVersion('deploy-1', '9.9.9')).toBeNull();
+    expect(await latestVersion('deploy-1')).toBeNull();
+  });
+
+  it('lists versions newest first without the bundle bodies', async () => {
+    mockPoolQuery.mockResolvedValueOnce({
+      rows: [
+        { id: 'v-2', deployment_id: 'deploy-1', version: '1.0.1', manifest_json: {}, created_at: 'b' },
+        { id: 'v-1', deployment_id: 'deploy-1', version: '1.0.0', manifest_json: {}, created_at: 'a' },
+      ],
+    });
+
+    const versions = await listVersions('deploy-1');
+
+    expect(versions.map((v) => v.version)).toEqual(['1.0.1', '1.0.0']);
+    expect(mockPoolQuery.mock.calls[0][0]).toContain('ORDER BY created_at DESC');
+    expect(mockPoolQuery.mock.calls[0][0]).not.toContain('agent_configs');
+  });
+});
@@ -26,6 +26,10 @@ import {
   deleteProcess,
   getProcessStatus,
   listProcesses,
+  listSystemProcesses,
+  stopSystemProcesses,
+  restartSystemProcesses,
+  deleteSystemProcesses,
   PM2Error,
 } from '../../services/pm2-manager';
 
@@ -252,6 +256,88 @@ describe('PM2 Manager', () => {
       expect(list).toHaveLength(2);
       expect(list.map((p) => p.name)).toEqual(['autopilate-sys-a', 'autopilate-sys-b']);
     });
+
+    it('reports the system and agent slug of each process', async () => {
+      mockPm2.list.mockImplementation((cb: (err?: Error, list?: unknown[]) => void) => {
+        cb(undefined, [
+          makeDescription('autopilate-sys-a--writer', 'online'),
+          makeDescription('autopilate-sys-b', 'online'),
+        ]);
+      });
+
+      const list = await listProcesses();
+
+      expect(list[0]).toMatchObject({ systemSlug: 'sys-a', agentSlug: 'writer' });
+      expect(list[1]).toMatchObject({ systemSlug: 'sys-b', agentSlug: null });
+    });
+  });
+
+  // ---------------------------------------------------------------------------
+  // System process groups
+  // ---------------------------------------------------------------------------
+  describe('system process groups', () => {
+    beforeEach(() => {
+      mockPm2.list.mockImplementation((cb: (err?: Error, list?: unknown[]) => void) => {
+        cb(undefined, [
+          makeDescription('autopilate-sys-a--researcher', 'online'),
+          makeDescription('autopilate-sys-a--writer', 'errored'),
+          makeDescription('autopilate-sys-ab--writer', 'online'),
+          makeDescription('autopilate-sys-b', 'online'),
+        ]);
+      });
+    });
+
+    it('lists only the processes of the requested system', async () => {
+      const list = await listSystemProcesses('sys-a');
+
+      expect(list.map((p) => p.agentSlug)).toEqual(['researcher', 'writer']);
+      expect(list[1].status).toBe('errored');
+    });
+
+    it('includes legacy single-process systems', async () => {
+      const list = await listSystemProcesses('sys-b');
+
+      expect(list.map((p) => p.name)).toEqual(['autopilate-sys-b']);
+    });
+
+    it('stops every agent process in one connection', async () => {
+      mockPm2.stop.mockImplementation((_name: string, cb: (err?: Error) => void) => cb());
+
+      const stopped = await stopSystemProcesses('sys-a');
+
+      expect(stopped).toEqual(['autopilate-sys-a--researcher', 'autopilate-sys-a--writer']);
+      expect(mockPm2.stop).toHaveBeenCalledTimes(2);
+      expect(mockPm2.connect).toHaveBeenCalledTimes(1);
+    });
+
+    it('restarts every agent process and waits for each to come online', async () => {
+      mockPm2.restart.mockImplementation((_name: string, cb: (err?: Error) => void) => cb());
+      mockPm2.describe.mockImplementation((name: string, cb: (err?: Error, desc?: unknown[]) => void) => {
+        cb(undefined, [makeDescription(name, 'online')]);
+      });
+
+      const promise = restartSystemProcesses('sys-a');
+      await vi.runAllTimersAsync();
+      const statuses = await promise;
+
+      expect(mockPm2.restart).toHaveBeenCalledWith('autopilate-sys-a--researcher', expect.any(Function));
+      expect(mockPm2.restart).toHaveBeenCalledWith('autopilate-sys-a--writer', expect.any(Function));
+      expect(statuses.every((s) => s.status === 'online')).toBe(true);
+    });
+
+    it('deletes every agent process', async () => {
+      mockPm2.delete.mockImplementation((_name: string, cb: (err?: Error) => void) => cb());
+
+      const deleted = await deleteSystemProcesses('sys-a');
+
+      expect(deleted).toHaveLength(2);
+      expect(mockPm2.delete).not.toHaveBeenCalledWith('autopilate-sys-ab--writer', expect.any(Function));
+    });
+
+    it('throws PM2Error when the system has no processes', async () => {
+      await expect(stopSystemProcesses('missing')).rejects.toThrow(PM2Error);
+      expect(mockPm2.disconnect).toHaveBeenCalled();
+    });
   });
 
   // ---------------------------------------------------------------------------
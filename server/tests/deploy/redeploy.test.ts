@@ -0,0 +1,473 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import * as path from 'path';
+import type { DeploymentRecord, DeploymentVersionRecord } from '../../types/registry';
+import { createTestBundle, createTestManifest } from './fixtures';
+
+// ---------------------------------------------------------------------------
+// Mock all dependencies before importing deploy-bridge
+// ---------------------------------------------------------------------------
+
+vi.mock('fs/promises', () => ({
+  mkdir: vi.fn().mockResolvedValue(undefined),
+  writeFile: vi.fn().mockResolvedValue(undefined),
+  rm: vi.fn().mockResolvedValue(undefined),
+}));
+
+const mockUpdateSystemStatus = vi.fn();
+const mockUpdateSystemSnapshot = vi.fn();
+const mockUpdateSystemTrigger = vi.fn();
+vi.mock('../../services/registry', () => ({
+  registerSystem: vi.fn(),
+  updateSystemStatus: (...args: unknown[]) => mockUpdateSystemStatus(...args),
+  updateSystemSnapshot: (...args: unknown[]) => mockUpdateSystemSnapshot(...args),
+  updateSystemTrigger: (...args: unknown[]) => mockUpdateSystemTrigger(...args),
+}));
+
+const mockCreateTriggerConfig = vi.fn();
+const mockUpdateTriggerConfig = vi.fn();
+const mockRestoreTriggerConfig = vi.fn();
+vi.mock('../../services/trigger-factory', () => ({
+  createTriggerConfig: (...args: unknown[]) => mockCreateTriggerConfig(...args),
+  updateTriggerConfig: (...args: unknown[]) => mockUpdateTriggerConfig(...args),
+  removeTriggerConfig: vi.fn(),
+  restoreTriggerConfig: (...args: unknown[]) => mockRestoreTriggerConfig(...args),
+}));
+
+const mockStartProcess = vi.fn();
+const mockDeleteProcess = vi.fn();
+const mockListSystemProcesses = vi.fn();
+const mockDeleteSystemProcesses = vi.fn();
+const mockRestartSystemProcesses = vi.fn();
+vi.mock('../../services/pm2-manager', () => ({
+  startProcess: (...args: unknown[]) => mockStartProcess(...args),
+  deleteProcess: (...args: unknown[]) => mockDeleteProcess(...args),
+  listSystemProcesses: (...args: unknown[]) => mockListSystemProcesses(...args),
+  deleteSystemProcesses: (...args: unknown[]) => mockDeleteSystemProcesses(...args),
+  restartSystemProcesses: (...args: unknown[]) => mockRestartSystemProcesses(...args),
+}));
+
+const mockRecordVersion = vi.fn();
+const mockGetVersion = vi.fn();
+const mockLatestVersion = vi.fn();
+vi.mock('../../services/deployment-versions', async () => {
+  const actual = await vi.importActual<typeof import('../../services/deployment-versions')>(
+    '../../services/deployment-versions'
+  );
+  return {
+    nextVersion: actual.nextVersion,
+    recordVersion: (...args: unknown[]) => mockRecordVersion(...args),
+    getVersion: (...args: unknown[]) => mockGetVersion(...args),
+    latestVersion: (...args: unknown[]) => mockLatestVersion(...args),
+  };
+});
+
+const mockSetSecret = vi.fn();
+vi.mock('../../services/secrets-vault', () => ({
+  setSecret: (...args: unknown[]) => mockSetSecret(...args),
+}));
+
+vi.mock('../../db', () => ({ pool: { query: vi.fn() } }));
+
+import * as fs from 'fs/promises';
+import {
+  redeploySystem,
+  rollbackSystem,
+  restartSystem,
+  updateTrigger,
+  DeployError,
+} from '../../services/deploy-bridge';
+
+const OPENCLAW_ROOT = '/opt/openclaw';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const CRON_TRIGGER = { type: 'cron', expression: '0 9 * * *', timezone: 'Europe/Berlin', enabled: true };
+
+function createExisting(overrides: Partial<DeploymentRecord> = {}): DeploymentRecord {
+  return {
+    id: 'uuid-123',
+    systemName: 'Test System',
+    systemSlug: 'test-system',
+    manifestJson: createTestManifest({ version: '1.0.2' }),
+    canvasJson: {},
+    openclawConfig: {},
+    triggerType: 'cron',
+    triggerConfig: CRON_TRIGGER,
+    pm2ProcessName: 'autopilate-test-system',
+    secretsDecrypted: null,
+    status: 'deployed',
+    deployedAt: '2026-02-20T00:00:00.000Z',
+    createdAt: '2026-02-20T00:00:00.000Z',
+    updatedAt: '2026-02-20T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+function createVersion(version: string): DeploymentVersionRecord {
+  const bundle = createTestBundle({
+    manifest: createTestManifest({ version }),
+    pm2Ecosystem: {
+      apps: [{ name: 'test-system--legacy', script: 'old.js' }],
+    },
+  });
+  return {
+    id: `version-${version}`,
+    deploymentId: 'uuid-123',
+    version,
+    manifestJson: bundle.manifest,
+    canvasJson: bundle.canvasJson,
+    openclawConfig: { agentDir: 'agents/test-system' },
+    triggerConfig: CRON_TRIGGER,
+    agentConfigs: bundle.agentConfigs,
+    mcpConfigs: bundle.mcpConfigs,
+    pm2Ecosystem: bundle.pm2Ecosystem,
+    createdAt: '2026-02-20T00:00:00.000Z',
+  };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  (fs.mkdir as ReturnType<typeof vi.fn>).mockResolvedValue(undefined);
+  (fs.writeFile as ReturnType<typeof vi.fn>).mockResolvedValue(undefined);
+  (fs.rm as ReturnType<typeof vi.fn>).mockResolvedValue(undefined);
+
+  mockListSystemProcesses.mockResolvedValue([{ name: 'autopilate-test-system' }]);
+  mockDeleteSystemProcesses.mockResolvedValue(['autopilate-test-system']);
+  mockStartProcess.mockResolvedValue({});
+  mockSetSecret.mockResolvedValue(undefined);
+  mockRestoreTriggerConfig.mockResolvedValue(undefined);
+  mockGetVersion.mockResolvedValue(null);
+  mockLatestVersion.mockResolvedValue('1.0.2');
+  mockUpdateSystemSnapshot.mockImplementation(async (_id: string, snapshot: { manifest: unknown }) => ({
+    ...createExisting(),
+    manifestJson: snapshot.manifest,
+  }));
+});
+
+// ---------------------------------------------------------------------------
+// redeploySystem
+// ---------------------------------------------------------------------------
+
+describe('redeploySystem', () => {
+  it('bumps the patch version and records the new snapshot', async () => {
+    const bundle = createTestBundle();
+
+    const result = await redeploySystem(createExisting(), bundle, OPENCLAW_ROOT);
+
+    expect(result.manifestJson.version).toBe('1.0.3');
+    expect(mockRecordVersion).toHaveBeenCalledWith(
+      'uuid-123',
+      expect.objectContaining({ version: '1.0.3', agentConfigs: bundle.agentConfigs })
+    );
+  });
+
+  it('bumps past the latest recorded version after a rollback', async () => {
+    mockLatestVersion.mockResolvedValue('1.0.5');
+
+    const result = await redeploySystem(createExisting(), createTestBundle(), OPENCLAW_ROOT);
+
+    expect(result.manifestJson.version).toBe('1.0.6');
+  });
+
+  it('honours a higher version requested by the bundle', async () => {
+    const bundle = createTestBundle({ manifest: createTestManifest({ version: '2.0.0' }) });
+
+    const result = await redeploySystem(createExisting(), bundle, OPENCLAW_ROOT);
+
+    expect(result.manifestJson.version).toBe('2.0.0');
+  });
+
+  it('replaces the running processes and rewrites agent and MCP dirs', async () => {
+    await redeploySystem(createExisting(), createTestBundle(), OPENCLAW_ROOT);
+
+    expect(mockDeleteSystemProcesses).toHaveBeenCalledWith('test-system');
+    expect(fs.rm).toHaveBeenCalledWith(
+      path.join(OPENCLAW_ROOT, 'agents', 'test-system'),
+      { recursive: true, force: true }
+    );
+    expect(fs.rm).toHaveBeenCalledWith(
+      path.join(OPENCLAW_ROOT, 'config', 'mcp', 'test-system'),
+      { recursive: true, force: true }
+    );
+    expect(fs.writeFile).toHaveBeenCalledWith(
+      path.join(OPENCLAW_ROOT, 'agents', 'test-system', 'lead-agent', 'CLAUDE.md'),
+      expect.any(String),
+      'utf-8'
+    );
+    expect(mockStartProcess).toHaveBeenCalledWith(
+      expect.objectContaining({ name: 'autopilate-test-system' })
+    );
+  });
+
+  it('keeps the existing trigger config when the trigger pattern is unchanged', async () => {
+    await redeploySystem(createExisting(), createTestBundle(), OPENCLAW_ROOT);
+
+    expect(mockCreateTriggerConfig).not.toHaveBeenCalled();
+    expect(mockRestoreTriggerConfig).toHaveBeenCalledWith(CRON_TRIGGER, 'test-system', OPENCLAW_ROOT);
+  });
+
+  it('generates a new trigger config when the trigger pattern changes', async () => {
+    const webhookTrigger = { type: 'webhook', endpointPath: '/api/webhooks/test-system' };
+    mockCreateTriggerConfig.mockResolvedValue(webhookTrigger);
+    const bundle = createTestBundle({
+      manifest: createTestManifest({ triggerPattern: 'webhook' }),
+    });
+
+    await redeploySystem(createExisting(), bundle, OPENCLAW_ROOT);
+
+    expect(mockRestoreTriggerConfig).toHaveBeenCalledWith(webhookTrigger, 'test-system', OPENCLAW_ROOT);
+  });
+
+  it('merges trigger settings sent with the bundle over the kept config', async () => {
+    const edited = { ...CRON_TRIGGER, expression: '0 7 * * *' };
+    mockUpdateTriggerConfig.mockResolvedValue(edited);
+    const bundle = { ...createTestBundle(), trigger: { type: 'cron' as const, expression: '0 7 * * *' } };
+
+    await redeploySystem(createExisting(), bundle, OPENCLAW_ROOT);
+
+    expect(mockUpdateTriggerConfig).toHaveBeenCalledWith(
+      CRON_TRIGGER,
+      bundle.trigger,
+      expect.objectContaining({ version: '1.0.3' }),
+      OPENCLAW_ROOT
+    );
+    expect(mockRestoreTriggerConfig).toHaveBeenCalledWith(edited, 'test-system', OPENCLAW_ROOT);
+  });
+
+  it('rejects trigger settings that do not match the trigger pattern', async () => {
+    const bundle = { ...createTestBundle(), trigger: { type: 'webhook' as const } };
+
+    await expect(redeploySystem(createExisting(), bundle, OPENCLAW_ROOT)).rejects.toMatchObject({
+      code: 'DEPLOYMENT_TRIGGER_INVALID',
+      statusCode: 400,
+    });
+    expect(mockDeleteSystemProcesses).not.toHaveBeenCalled();
+  });
+
+  it('rejects a bundle for a different slug', async () => {
+    const bundle = createTestBundle({ manifest: createTestManifest({ slug: 'other' }) });
+
+    await expect(redeploySystem(createExisting(), bundle, OPENCLAW_ROOT)).rejects.toMatchObject({
+      code: 'DEPLOYMENT_SLUG_MISMATCH',
+      statusCode: 400,
+    });
+    expect(mockDeleteSystemProcesses).not.toHaveBeenCalled();
+  });
+
+  it('restores the previous version when the new bundle fails to start', async () => {
+    mockGetVersion.mockResolvedValue(createVersion('1.0.2'));
+    mockStartProcess
+      .mockRejectedValueOnce(new Error('new agent crashed'))
+      .mockResolvedValue({});
+
+    await expect(
+      redeploySystem(createExisting(), createTestBundle(), OPENCLAW_ROOT)
+    ).rejects.toThrow(DeployError);
+
+    // Failed new process cleaned up, then the previous snapshot started again
+    expect(mockDeleteProcess).toHaveBeenCalledWith('autopilate-test-system');
+    expect(mockStartProcess).toHaveBeenLastCalledWith(
+      expect.objectContaining({ name: 'autopilate-test-system--legacy', script: 'old.js' })
+    );
+    expect(mockUpdateSystemSnapshot).toHaveBeenCalledWith(
+      'uuid-123',
+      expect.objectContaining({ manifest: expect.objectContaining({ version: '1.0.2' }) })
+    );
+    expect(mockRecordVersion).not.toHaveBeenCalled();
+  });
+
+  it('marks the system errored when there is no previous snapshot to restore', async () => {
+    mockStartProcess.mockRejectedValue(new Error('crashed'));
+
+    await expect(
+      redeploySystem(createExisting(), createTestBundle(), OPENCLAW_ROOT)
+    ).rejects.toThrow(DeployError);
+
+    expect(mockUpdateSystemStatus).toHaveBeenCalledWith('test-system', 'errored');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// rollbackSystem
+// ---------------------------------------------------------------------------
+
+describe('rollbackSystem', () => {
+  it('restores the snapshot of the requested version', async () => {
+    mockGetVersion.mockImplementation(async (_id: string, version: string) =>
+      version === '1.0.0' ? createVersion('1.0.0') : null
+    );
+
+    const result = await rollbackSystem(createExisting(), '1.0.0', OPENCLAW_ROOT);
+
+    expect(result.manifestJson.version).toBe('1.0.0');
+    expect(mockRestoreTriggerConfig).toHaveBeenCalledWith(CRON_TRIGGER, 'test-system', OPENCLAW_ROOT);
+    expect(mockStartProcess).toHaveBeenCalledWith(
+      expect.objectContaining({ name: 'autopilate-test-system--legacy' })
+    );
+    // Rolling back does not create a new version
+    expect(mockRecordVersion).not.toHaveBeenCalled();
+  });
+
+  it('skips process teardown when nothing is running', async () => {
+    mockGetVersion.mockResolvedValue(createVersion('1.0.0'));
+    mockListSystemProcesses.mockResolvedValue([]);
+
+    await rollbackSystem(createExisting({ status: 'stopped' }), '1.0.0', OPENCLAW_ROOT);
+
+    expect(mockDeleteSystemProcesses).not.toHaveBeenCalled();
+    expect(mockStartProcess).toHaveBeenCalled();
+  });
+
+  it('throws 404 for a version that was never deployed', async () => {
+    await expect(rollbackSystem(createExisting(), '0.9.0', OPENCLAW_ROOT)).rejects.toMatchObject({
+      code: 'DEPLOYMENT_VERSION_NOT_FOUND',
+      statusCode: 404,
+    });
+    expect(mockListSystemProcesses).not.toHaveBeenCalled();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// restartSystem
+// ---------------------------------------------------------------------------
+
+describe('restartSystem', () => {
+  const secrets = { OPENAI_API_KEY: 'sk-live-123', SLACK_TOKEN: 'xoxb-1' };
+
+  it('recreates the live version\'s processes with the vault secrets in their env', async () => {
+    const live = createVersion('1.0.2');
+    live.pm2Ecosystem.apps[0].env = { OPENAI_API_KEY: '${OPENAI_API_KEY}', MODEL: 'gpt-4o' };
+    mockGetVersion.mockResolvedValue(live);
+
+    await restartSystem(createExisting({ secretsDecrypted: secrets }), OPENCLAW_ROOT);
+
+    expect(mockGetVersion).toHaveBeenCalledWith('uuid-123', '1.0.2');
+    expect(mockDeleteSystemProcesses).toHaveBeenCalledWith('test-system');
+    expect(mockStartProcess).toHaveBeenCalledWith(
+      expect.objectContaining({
+        name: 'autopilate-test-system--legacy',
+        env: { OPENAI_API_KEY: 'sk-live-123', SLACK_TOKEN: 'xoxb-1', MODEL: 'gpt-4o' },
+      })
+    );
+    expect(mockRestartSystemProcesses).not.toHaveBeenCalled();
+  });
+
+  it('falls back to a plain restart without a recorded version', async () => {
+    mockRestartSystemProcesses.mockResolvedValue([{ name: 'autopilate-test-system' }]);
+
+    const processes = await restartSystem(createExisting(), OPENCLAW_ROOT);
+
+    expect(processes).toEqual([{ name: 'autopilate-test-system' }]);
+    expect(mockDeleteSystemProcesses).not.toHaveBeenCalled();
+  });
+
+  it('removes half-started processes when a start fails', async () => {
+    mockGetVersion.mockResolvedValue(createVersion('1.0.2'));
+    mockStartProcess.mockRejectedValue(new Error('crashed'));
+
+    await expect(restartSystem(createExisting(), OPENCLAW_ROOT)).rejects.toMatchObject({
+      code: 'DEPLOYMENT_FAILED',
+      step: 'restart',
+    });
+    expect(mockDeleteProcess).toHaveBeenCalledWith('autopilate-test-system--legacy');
+  });
+});
+
+describe('secrets on redeploy', () => {
+  it('starts the new version with the vault secrets and records its required secrets', async () => {
+    const bundle = createTestBundle();
+
+    await redeploySystem(createExisting({ secretsDecrypted: { API_KEY: 'real-key' } }), bundle, OPENCLAW_ROOT);
+
+    for (const [config] of mockStartProcess.mock.calls) {
+      expect(config.env.API_KEY).toBe('real-key');
+    }
+    expect(mockUpdateSystemSnapshot).toHaveBeenCalledWith(
+      'uuid-123',
+      expect.objectContaining({ requiredSecrets: { API_KEY: 'sk-...' } })
+    );
+  });
+});
+
+// ---------------------------------------------------------------------------
+// updateTrigger
+// ---------------------------------------------------------------------------
+
+describe('updateTrigger', () => {
+  const settings = { type: 'cron' as const, expression: '*/30 * * * *' };
+  const updatedTrigger = { ...CRON_TRIGGER, expression: '*/30 * * * *' };
+
+  beforeEach(() => {
+    mockUpdateTriggerConfig.mockResolvedValue(updatedTrigger);
+  });
+
+  it('rewrites the trigger file and registry row without touching processes', async () => {
+    mockUpdateSystemTrigger.mockResolvedValue(createExisting({ triggerConfig: updatedTrigger }));
+
+    const record = await updateTrigger(createExisting(), settings, OPENCLAW_ROOT);
+
+    expect(mockUpdateTriggerConfig).toHaveBeenCalledWith(
+      CRON_TRIGGER,
+      settings,
+      expect.objectContaining({ slug: 'test-system', triggerPattern: 'cron' }),
+      OPENCLAW_ROOT
+    );
+    expect(mockUpdateSystemTrigger).toHaveBeenCalledWith('test-system', updatedTrigger);
+    expect(record.triggerConfig).toEqual(updatedTrigger);
+    expect(mockDeleteSystemProcesses).not.toHaveBeenCalled();
+    expect(mockStartProcess).not.toHaveBeenCalled();
+  });
+
+  it('puts the previous trigger file back when the registry update fails', async () => {
+    mockUpdateSystemTrigger.mockRejectedValue(new Error('connection reset'));
+
+    await expect(updateTrigger(createExisting(), settings, OPENCLAW_ROOT)).rejects.toMatchObject({
+      code: 'DEPLOYMENT_FAILED',
+      step: 'trigger',
+    });
+    expect(mockRestoreTriggerConfig).toHaveBeenCalledWith(CRON_TRIGGER, 'test-system', OPENCLAW_ROOT);
+  });
+
+  it('stores a webhook secret in the vault instead of the trigger config', async () => {
+    const webhook = { type: 'webhook', endpointPath: '/api/webhooks/test-system', method: 'POST', authType: 'hmac', enabled: true };
+    mockUpdateTriggerConfig.mockResolvedValue(webhook);
+    mockUpdateSystemTrigger.mockResolvedValue(createExisting({ triggerType: 'webhook', triggerConfig: webhook }));
+    const existing = createExisting();
+
+    await updateTrigger(existing, { type: 'webhook', authType: 'hmac', secret: 'whsec_0123456789abcdef' }, OPENCLAW_ROOT);
+
+    expect(mockSetSecret).toHaveBeenCalledWith(existing, 'WEBHOOK_SECRET', 'whsec_0123456789abcdef');
+    expect(mockSetSecret.mock.invocationCallOrder[0]).toBeLessThan(mockUpdateTriggerConfig.mock.invocationCallOrder[0]);
+  });
+
+  it('moves a secret left in the current webhook config into the vault', async () => {
+    const legacy = {
+      type: 'webhook',
+      endpointPath: '/api/webhooks/test-system',
+      method: 'POST',
+      authType: 'bearer',
+      secret: 'legacy-secret-123',
+      enabled: true,
+    };
+    mockUpdateSystemTrigger.mockResolvedValue(createExisting());
+    const existing = createExisting({ triggerType: 'webhook', triggerConfig: legacy });
+
+    await updateTrigger(existing, { type: 'webhook', enabled: false }, OPENCLAW_ROOT);
+    await updateTrigger(existing, settings, OPENCLAW_ROOT);
+
+    expect(mockSetSecret).toHaveBeenCalledTimes(1);
+    expect(mockSetSecret).toHaveBeenCalledWith(existing, 'WEBHOOK_SECRET', 'legacy-secret-123');
+  });
+
+  it('changes nothing when the vault cannot store the secret', async () => {
+    mockSetSecret.mockRejectedValue(new Error('ENCRYPTION_KEY is not configured'));
+
+    await expect(
+      updateTrigger(createExisting(), { type: 'webhook', secret: 'whsec_0123456789abcdef' }, OPENCLAW_ROOT)
+    ).rejects.toThrow('ENCRYPTION_KEY is not configured');
+    expect(mockUpdateTriggerConfig).not.toHaveBeenCalled();
+    expect(mockUpdateSystemTrigger).not.toHaveBeenCalled();
+  });
+});
@@ -84,6 +84,7 @@ async function runMigrations(pool: Pool): Promise<void> {
         pm2_process_name varchar(128),
         status          varchar(20) DEFAULT 'deployed',
         secrets_encrypted bytea,
+        required_secrets jsonb NOT NULL DEFAULT '{}'::jsonb,
         deployed_at     timestamptz DEFAULT now(),
         created_at      timestamptz DEFAULT now(),
         updated_at      timestamptz DEFAULT now()
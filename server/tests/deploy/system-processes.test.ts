@@ -0,0 +1,169 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import express from 'express';
+import type { AddressInfo } from 'net';
+import type { Server } from 'http';
+import type { DeploymentRecord } from '../../types/registry';
+import { createTestManifest } from './fixtures';
+
+// ---------------------------------------------------------------------------
+// Mocks — must be declared before importing modules under test
+// ---------------------------------------------------------------------------
+
+const mockGetSystem = vi.fn();
+const mockUpdateSystemStatus = vi.fn();
+vi.mock('../../services/registry', () => ({
+  getSystem: (...args: unknown[]) => mockGetSystem(...args),
+  updateSystemStatus: (...args: unknown[]) => mockUpdateSystemStatus(...args),
+  registerSystem: vi.fn(),
+  listSystems: vi.fn(),
+  archiveSystem: vi.fn(),
+  SystemNotFoundError: class extends Error {},
+}));
+
+const mockListSystemProcesses = vi.fn();
+const mockStopSystemProcesses = vi.fn();
+const mockRestartSystemProcesses = vi.fn();
+vi.mock('../../services/pm2-manager', () => ({
+  listSystemProcesses: (...args: unknown[]) => mockListSystemProcesses(...args),
+  stopSystemProcesses: (...args: unknown[]) => mockStopSystemProcesses(...args),
+  restartSystemProcesses: (...args: unknown[]) => mockRestartSystemProcesses(...args),
+}));
+
+// No recorded version: restart falls back to a plain PM2 restart
+vi.mock('../../services/deployment-versions', () => ({
+  getVersion: vi.fn().mockResolvedValue(null),
+  listVersions: vi.fn(),
+}));
+
+vi.mock('../../db', () => ({ pool: { query: vi.fn() } }));
+
+import { systemsRouter } from '../../routes/systems';
+import { errorHandler, notFoundHandler } from '../../src/middleware/error-handler';
+import { PM2ProcessError } from '../../lib/errors';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function createDeployment(): DeploymentRecord {
+  return {
+    id: 'deploy-1',
+    systemName: 'Test System',
+    systemSlug: 'test-system',
+    manifestJson: createTestManifest(),
+    canvasJson: {},
+    openclawConfig: {},
+    triggerType: 'cron',
+    triggerConfig: {},
+    pm2ProcessName: 'autopilate-test-system',
+    secretsDecrypted: null,
+    status: 'deployed',
+    deployedAt: '2026-02-20T00:00:00Z',
+    createdAt: '2026-02-20T00:00:00Z',
+    updatedAt: '2026-02-20T00:00:00Z',
+  };
+}
+
+function agentProcess(agentSlug: string, status = 'online') {
+  return {
+    name: `autopilate-test-system--${agentSlug}`,
+    systemSlug: 'test-system',
+    agentSlug,
+    pid: 1234,
+    status,
+    cpu: 0,
+    memory: 0,
+    uptime: 0,
+    restarts: 0,
+  };
+}
+
+let server: Server;
+let baseUrl: string;
+
+async function request(path: string, init?: RequestInit) {
+  const res = await fetch(`${baseUrl}/api/systems${path}`, init);
+  return { status: res.status, body: await res.json() };
+}
+
+beforeEach(async () => {
+  vi.clearAllMocks();
+  mockGetSystem.mockResolvedValue(createDeployment());
+  mockUpdateSystemStatus.mockResolvedValue(undefined);
+
+  const app = express();
+  app.use(express.json());
+  app.use('/api/systems', systemsRouter);
+  app.use(notFoundHandler);
+  app.use(errorHandler);
+
+  server = app.listen(0);
+  await new Promise((resolve) => server.once('listening', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterEach(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('System process routes', () => {
+  it('GET /:slug/processes reports each agent process', async () => {
+    mockListSystemProcesses.mockResolvedValue([
+      agentProcess('researcher'),
+      agentProcess('writer', 'errored'),
+    ]);
+
+    const res = await request('/test-system/processes');
+
+    expect(res.status).toBe(200);
+    expect(mockListSystemProcesses).toHaveBeenCalledWith('test-system');
+    expect(res.body.processes.map((p: { agentSlug: string }) => p.agentSlug)).toEqual([
+      'researcher',
+      'writer',
+    ]);
+  });
+
+  it('POST /:slug/stop stops the group and marks the system stopped', async () => {
+    mockStopSystemProcesses.mockResolvedValue(['autopilate-test-system--researcher']);
+
+    const res = await request('/test-system/stop', { method: 'POST' });
+
+    expect(res.status).toBe(200);
+    expect(res.body.stopped).toEqual(['autopilate-test-system--researcher']);
+    expect(mockUpdateSystemStatus).toHaveBeenCalledWith('test-system', 'stopped');
+  });
+
+  it('POST /:slug/restart restarts the group and marks the system deployed', async () => {
+    mockRestartSystemProcesses.mockResolvedValue([agentProcess('researcher')]);
+
+    const res = await request('/test-system/restart', { method: 'POST' });
+
+    expect(res.status).toBe(200);
+    expect(res.body.processes).toHaveLength(1);
+    expect(mockUpdateSystemStatus).toHaveBeenCalledWith('test-system', 'deployed');
+  });
+
+  it('leaves the status untouched when PM2 fails', async () => {
+    mockStopSystemProcesses.mockRejectedValue(
+      new PM2ProcessError('No processes found for system: test-system')
+    );
+
+    const res = await request('/test-system/stop', { method: 'POST' });
+
+    expect(res.status).toBe(500);
+    expect(mockUpdateSystemStatus).not.toHaveBeenCalled();
+  });
+
+  it('returns 404 for unknown systems', async () => {
+    mockGetSystem.mockResolvedValue(null);
+
+    const res = await request('/missing/processes');
+
+    expect(res.status).toBe(404);
+    expect(mockListSystemProcesses).not.toHaveBeenCalled();
+  });
+});
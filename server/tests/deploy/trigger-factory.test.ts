@@ -2,6 +2,7 @@ import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import * as path from 'path';
 import {
   createTriggerConfig,
+  updateTriggerConfig,
   removeTriggerConfig,
   CronTriggerConfig,
   WebhookTriggerConfig,
@@ -144,6 +145,112 @@ describe('Trigger Factory', () => {
     });
   });
 
+  // ---------------------------------------------------------------------------
+  // User settings
+  // ---------------------------------------------------------------------------
+  describe('trigger settings', () => {
+    it('uses the expression and timezone chosen at deploy', async () => {
+      const manifest = createTestManifest({ triggerPattern: 'cron', category: 'monitoring' });
+      const config = await createTriggerConfig('cron', manifest, OPENCLAW_ROOT, {
+        type: 'cron',
+        expression: '30 7 * * mon-fri',
+        timezone: 'Europe/Berlin',
+      });
+
+      expect(config).toEqual({
+        type: 'cron',
+        expression: '30 7 * * mon-fri',
+        timezone: 'Europe/Berlin',
+        enabled: true,
+      });
+    });
+
+    it('rejects invalid cron expressions and timezones before writing', async () => {
+      const manifest = createTestManifest({ triggerPattern: 'cron' });
+
+      await expect(
+        createTriggerConfig('cron', manifest, OPENCLAW_ROOT, { type: 'cron', expression: '61 * * * *' })
+      ).rejects.toThrow(/Invalid minute value "61"/);
+      await expect(
+        createTriggerConfig('cron', manifest, OPENCLAW_ROOT, { type: 'cron', timezone: 'Mars/Olympus' })
+      ).rejects.toMatchObject({ code: 'DEPLOYMENT_TRIGGER_INVALID', statusCode: 400 });
+      expect(fs.writeFile).not.toHaveBeenCalled();
+    });
+
+    it('rejects settings for a different trigger type', async () => {
+      const manifest = createTestManifest({ triggerPattern: 'cron' });
+
+      await expect(
+        createTriggerConfig('cron', manifest, OPENCLAW_ROOT, { type: 'webhook' })
+      ).rejects.toBeInstanceOf(TriggerConfigError);
+    });
+
+    it('enables exactly the chosen messaging channels', async () => {
+      const manifest = createTestManifest({ triggerPattern: 'messaging' });
+      const config = await createTriggerConfig('messaging', manifest, OPENCLAW_ROOT, {
+        type: 'messaging',
+        channels: ['telegram', 'discord'],
+      }) as MessagingTriggerConfig;
+
+      expect(config.channels.filter((c) => c.enabled).map((c) => c.platform)).toEqual([
+        'telegram',
+        'discord',
+      ]);
+    });
+
+    it('applies webhook auth and daemon health settings', async () => {
+      const webhook = await createTriggerConfig(
+        'webhook',
+        createTestManifest({ triggerPattern: 'webhook' }),
+        OPENCLAW_ROOT,
+        { type: 'webhook', authType: 'hmac', secret: 'whsec_0123456789abcdef' }
+      ) as WebhookTriggerConfig;
+      const daemon = await createTriggerConfig(
+        'always-on',
+        createTestManifest({ triggerPattern: 'always-on' }),
+        OPENCLAW_ROOT,
+        { type: 'always-on', healthCheckEndpoint: '/healthz', healthCheckIntervalMs: 60_000 }
+      ) as DaemonTriggerConfig;
+
+      expect(webhook.authType).toBe('hmac');
+      expect(webhook).not.toHaveProperty('secret');
+      expect(daemon).toMatchObject({ healthCheckEndpoint: '/healthz', healthCheckIntervalMs: 60_000 });
+    });
+
+    it('merges updates over the current config of the same type', async () => {
+      const manifest = createTestManifest({ slug: 'hooks', triggerPattern: 'webhook' });
+      const current: WebhookTriggerConfig = {
+        type: 'webhook',
+        endpointPath: '/api/webhooks/hooks',
+        method: 'POST',
+        authType: 'hmac',
+        secret: 'whsec_0123456789abcdef',
+        enabled: true,
+      };
+
+      const config = await updateTriggerConfig(current, { type: 'webhook', enabled: false }, manifest, OPENCLAW_ROOT);
+
+      // A secret left by an earlier version is dropped; it now lives in the vault
+      const { secret: _secret, ...rest } = current;
+      expect(config).toEqual({ ...rest, enabled: false });
+      expect(fs.writeFile).toHaveBeenCalledWith(
+        path.join(OPENCLAW_ROOT, 'config', 'triggers', 'hooks.json'),
+        expect.any(String),
+        'utf-8'
+      );
+    });
+
+    it('starts a changed trigger type from its defaults', async () => {
+      const manifest = createTestManifest({ triggerPattern: 'cron', category: 'research' });
+      const current: CronTriggerConfig = { type: 'cron', expression: '0 9 * * *', timezone: 'UTC', enabled: true };
+
+      const config = await updateTriggerConfig(current, { type: 'messaging' }, manifest, OPENCLAW_ROOT);
+
+      expect(config.type).toBe('messaging');
+      expect((config as MessagingTriggerConfig).routerEnabled).toBe(true);
+    });
+  });
+
   // ---------------------------------------------------------------------------
   // removeTriggerConfig
   // ---------------------------------------------------------------------------
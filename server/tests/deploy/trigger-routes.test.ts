@@ -0,0 +1,220 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import express from 'express';
+import type { AddressInfo } from 'net';
+import type { Server } from 'http';
+import type { DeploymentRecord } from '../../types/registry';
+import { createTestBundle, createTestManifest } from './fixtures';
+
+// ---------------------------------------------------------------------------
+// Mocks — must be declared before importing modules under test
+// ---------------------------------------------------------------------------
+
+const mockGetSystem = vi.fn();
+vi.mock('../../services/registry', () => ({
+  getSystem: (...args: unknown[]) => mockGetSystem(...args),
+  registerSystem: vi.fn(),
+  listSystems: vi.fn(),
+  updateSystemStatus: vi.fn(),
+  archiveSystem: vi.fn(),
+}));
+
+const mockUpdateTrigger = vi.fn();
+const mockDeploySystem = vi.fn();
+vi.mock('../../services/deploy-bridge', async () => {
+  const { DeploymentError } = await vi.importActual<typeof import('../../lib/errors')>('../../lib/errors');
+  return {
+    updateTrigger: (...args: unknown[]) => mockUpdateTrigger(...args),
+    deploySystem: (...args: unknown[]) => mockDeploySystem(...args),
+    redeploySystem: vi.fn(),
+    rollbackSystem: vi.fn(),
+    restartSystem: vi.fn(),
+    DeployError: DeploymentError,
+  };
+});
+
+vi.mock('../../db', () => ({ pool: { query: vi.fn() } }));
+
+import { systemsRouter } from '../../routes/systems';
+import { deployRouter } from '../../routes/deploy';
+import { errorHandler } from '../../src/middleware/error-handler';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const WEBHOOK_TRIGGER = {
+  type: 'webhook',
+  endpointPath: '/api/webhooks/test-system',
+  method: 'POST',
+  authType: 'hmac',
+  secret: 'whsec_0123456789abcdef',
+  enabled: true,
+};
+
+function createDeployment(overrides: Partial<DeploymentRecord> = {}): DeploymentRecord {
+  return {
+    id: 'deploy-1',
+    systemName: 'Test System',
+    systemSlug: 'test-system',
+    manifestJson: createTestManifest(),
+    canvasJson: {},
+    openclawConfig: {},
+    triggerType: 'cron',
+    triggerConfig: { type: 'cron', expression: '0 6 * * *', timezone: 'UTC', enabled: true },
+    pm2ProcessName: 'autopilate-test-system',
+    secretsDecrypted: null,
+    status: 'deployed',
+    deployedAt: '2026-10-19T00:00:00Z',
+    createdAt: '2026-10-19T00:00:00Z',
+    updatedAt: '2026-10-19T00:00:00Z',
+    ...overrides,
+  };
+}
+
+let server: Server;
+let baseUrl: string;
+
+function send(method: string, path: string, body: unknown) {
+  return fetch(`${baseUrl}${path}`, {
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+}
+
+beforeEach(async () => {
+  vi.clearAllMocks();
+  mockGetSystem.mockResolvedValue(createDeployment());
+
+  const app = express();
+  app.use(express.json());
+  app.use('/api/systems', systemsRouter);
+  app.use('/api/deploy', deployRouter);
+  app.use(errorHandler);
+
+  server = app.listen(0);
+  await new Promise((resolve) => server.once('listening', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api`;
+});
+
+afterEach(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+// ---------------------------------------------------------------------------
+// PUT /api/systems/:slug/trigger
+// ---------------------------------------------------------------------------
+
+describe('PUT /api/systems/:slug/trigger', () => {
+  it('updates the trigger and masks the webhook secret in the response', async () => {
+    mockUpdateTrigger.mockResolvedValue(
+      createDeployment({ triggerType: 'webhook', triggerConfig: WEBHOOK_TRIGGER })
+    );
+    const settings = { type: 'webhook', authType: 'hmac', secret: 'whsec_0123456789abcdef' };
+
+    const res = await send('PUT', '/systems/test-system/trigger', settings);
+
+    expect(res.status).toBe(200);
+    expect(mockUpdateTrigger).toHaveBeenCalledWith(
+      expect.objectContaining({ systemSlug: 'test-system' }),
+      settings,
+      expect.any(String)
+    );
+    const body = await res.json();
+    expect(body.triggerConfig.secret).toBe('••••••••cdef');
+  });
+
+  it('rejects malformed settings', async () => {
+    const bad = [
+      { type: 'sms' },
+      { type: 'webhook', secret: 'short' },
+      { type: 'messaging', channels: [] },
+      { type: 'always-on', healthCheckEndpoint: 'health' },
+    ];
+
+    for (const settings of bad) {
+      expect((await send('PUT', '/systems/test-system/trigger', settings)).status).toBe(400);
+    }
+    expect(mockUpdateTrigger).not.toHaveBeenCalled();
+  });
+
+  it('returns 404 for unknown systems', async () => {
+    mockGetSystem.mockResolvedValue(null);
+
+    const res = await send('PUT', '/systems/missing/trigger', { type: 'cron' });
+
+    expect(res.status).toBe(404);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Deploy body
+// ---------------------------------------------------------------------------
+
+describe('POST /api/deploy trigger settings', () => {
+  it('passes the trigger settings through to the deploy bridge', async () => {
+    mockDeploySystem.mockResolvedValue(createDeployment());
+    const bundle = {
+      ...createTestBundle(),
+      trigger: { type: 'cron', expression: '0 8 * * 1', timezone: 'Asia/Tokyo' },
+    };
+
+    const res = await send('POST', '/deploy', bundle);
+
+    expect(res.status).toBe(201);
+    expect(mockDeploySystem.mock.calls[0][0].trigger).toEqual(bundle.trigger);
+  });
+
+  it('rejects settings for another trigger type than the manifest', async () => {
+    const bundle = { ...createTestBundle(), trigger: { type: 'webhook' } };
+
+    const res = await send('POST', '/deploy', bundle);
+
+    expect(res.status).toBe(400);
+    expect((await res.json()).details[0].path).toBe('trigger.type');
+    expect(mockDeploySystem).not.toHaveBeenCalled();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// GET /api/deploy/cron-preview
+// ---------------------------------------------------------------------------
+
+describe('GET /api/deploy/cron-preview', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-10-19T10:00:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('lists the next five fire times in the requested timezone', async () => {
+    const res = await fetch(
+      `${baseUrl}/deploy/cron-preview?expression=${encodeURIComponent('0 9 * * mon-fri')}&timezone=Europe/Berlin`
+    );
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({
+      expression: '0 9 * * mon-fri',
+      timezone: 'Europe/Berlin',
+      nextRuns: [
+        '2026-10-20T07:00:00.000Z',
+        '2026-10-21T07:00:00.000Z',
+        '2026-10-22T07:00:00.000Z',
+        '2026-10-23T07:00:00.000Z',
+        '2026-10-26T08:00:00.000Z',
+      ],
+    });
+  });
+
+  it('names the invalid field of a bad expression', async () => {
+    const res = await fetch(`${baseUrl}/deploy/cron-preview?expression=${encodeURIComponent('0 25 * * *')}`);
+
+    expect(res.status).toBe(400);
+    const body = await res.json();
+    expect(body.code).toBe('CRON_INVALID');
+    expect(body.error).toMatch(/Invalid hour value "25"/);
+  });
+});
@@ -0,0 +1,354 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import express from 'express';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+// ---------------------------------------------------------------------------
+// Mocks — must be declared before importing modules under test
+// ---------------------------------------------------------------------------
+
+const mocks = vi.hoisted(() => ({
+  stream: vi.fn(),
+}));
+
+vi.mock('@anthropic-ai/sdk', () => ({
+  default: class {
+    messages = { stream: mocks.stream };
+  },
+}));
+
+vi.mock('../../socket/emitter', () => ({
+  emitExecutionLog: vi.fn(),
+  emitExecutionStepStart: vi.fn(),
+  emitExecutionStepComplete: vi.fn(),
+  emitAgentResult: vi.fn(),
+  emitExecutionReport: vi.fn(),
+  emitExecutionPaused: vi.fn(),
+}));
+
+vi.mock('../../services/agent-tools', () => ({
+  openAgentToolset: vi.fn().mockResolvedValue({
+    tools: [],
+    call: vi.fn(),
+    close: vi.fn().mockResolvedValue(undefined),
+  }),
+}));
+
+import {
+  clearMemory,
+  listMemories,
+  loadMemory,
+  parseMemorySettings,
+  recallMemory,
+  recordMemory,
+  type MemorySettings,
+} from '../../services/agent-memory';
+import { executeWorkflow } from '../../services/orchestrator-bridge';
+import { memoryRouter } from '../../routes/memory';
+import { errorHandler, notFoundHandler } from '../../src/middleware/error-handler';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const writer = { id: 'writer', label: 'Writer' };
+
+function settings(overrides: Partial<MemorySettings> = {}): MemorySettings {
+  return {
+    persistence: 'persistent',
+    type: 'short-term',
+    maxContextTokens: 8000,
+    summarizationThreshold: 6000,
+    ...overrides,
+  };
+}
+
+function record(task: string, output: string, overrides: Partial<Parameters<typeof recordMemory>[0]> = {}) {
+  return recordMemory({
+    system: 'Blog Team',
+    agent: writer,
+    settings: settings(),
+    sessionId: 's-1',
+    task,
+    output,
+    summarize: vi.fn().mockResolvedValue('summary'),
+    ...overrides,
+  });
+}
+
+let memoryDir: string;
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  memoryDir = fs.mkdtempSync(path.join(os.tmpdir(), 'agent-memory-'));
+  process.env.AGENT_MEMORY_DIR = memoryDir;
+});
+
+afterEach(() => {
+  delete process.env.AGENT_MEMORY_DIR;
+  fs.rmSync(memoryDir, { recursive: true, force: true });
+});
+
+// ---------------------------------------------------------------------------
+// Settings
+// ---------------------------------------------------------------------------
+
+describe('parseMemorySettings', () => {
+  it('keeps no memory unless context persistence is session or persistent', () => {
+    expect(parseMemorySettings(undefined)).toBeNull();
+    expect(parseMemorySettings({ contextPersistence: 'none' })).toBeNull();
+    expect(parseMemorySettings({ maxContextTokens: 4000 })).toBeNull();
+  });
+
+  it('fills in the schema defaults and falls back to short-term memory', () => {
+    expect(parseMemorySettings({ contextPersistence: 'session', memoryType: 'conversation' })).toEqual({
+      persistence: 'session',
+      type: 'short-term',
+      maxContextTokens: 8000,
+      summarizationThreshold: 6000,
+    });
+    expect(parseMemorySettings({
+      contextPersistence: 'persistent',
+      memoryType: 'both',
+      maxContextTokens: '2000',
+      summarizationThreshold: 1500,
+    })).toEqual({ persistence: 'persistent', type: 'both', maxContextTokens: 2000, summarizationThreshold: 1500 });
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Recording and recall
+// ---------------------------------------------------------------------------
+
+describe('agent memory store', () => {
+  it('recalls persistent memory in later sessions', async () => {
+    await record('Write about solar panels', 'Solar draft v1');
+
+    const recalled = recallMemory(loadMemory('Blog Team', 'writer'), settings(), 'Next post', 's-2');
+
+    expect(recalled.entries).toBe(1);
+    expect(recalled.prompt).toContain('## Memory');
+    expect(recalled.prompt).toContain('Task: Write about solar panels\nOutput: Solar draft v1');
+  });
+
+  it('keeps session memory to the session that wrote it', async () => {
+    const session = settings({ persistence: 'session' });
+    await record('first', 'one', { settings: session });
+    await record('second', 'two', { settings: session });
+
+    expect(recallMemory(loadMemory('Blog Team', 'writer'), session, 'x', 's-1').entries).toBe(2);
+    expect(recallMemory(loadMemory('Blog Team', 'writer'), session, 'x', 's-2').prompt).toBe('');
+
+    // A new session starts over
+    await record('third', 'three', { settings: session, sessionId: 's-2' });
+    expect(loadMemory('Blog Team', 'writer')).toMatchObject({ sessionId: 's-2', entries: [{ task: 'third' }] });
+  });
+
+  it('recalls only what fits in maxContextTokens alongside the task', async () => {
+    await record('oldest', 'a'.repeat(400));
+    await record('middle', 'b'.repeat(400));
+    await record('newest', 'c'.repeat(400));
+    const memory = loadMemory('Blog Team', 'writer');
+
+    // ~110 tokens per entry; 300 tokens leaves room for two after a ~50 token task
+    const recalled = recallMemory(memory, settings({ maxContextTokens: 300 }), 't'.repeat(200), 's-1');
+
+    expect(recalled.entries).toBe(2);
+    expect(recalled.prompt).not.toContain('oldest');
+    expect(recalled.prompt.indexOf('middle')).toBeLessThan(recalled.prompt.indexOf('newest'));
+  });
+
+  it('recalls the summary and only related runs for long-term memory', async () => {
+    await record('Research kubernetes autoscaling', 'HPA notes');
+    await record('Write a poem', 'Roses are red');
+    const memory = { ...loadMemory('Blog Team', 'writer')!, summary: 'Prefers short posts.' };
+
+    const longTerm = recallMemory(memory, settings({ type: 'long-term' }), 'Kubernetes autoscaling post', 's-1');
+    const shortTerm = recallMemory(memory, settings(), 'Kubernetes autoscaling post', 's-1');
+
+    expect(longTerm).toMatchObject({ entries: 1, summary: true });
+    expect(longTerm.prompt).toContain('Prefers short posts.');
+    expect(longTerm.prompt).not.toContain('Roses');
+    expect(shortTerm).toMatchObject({ entries: 2, summary: false });
+  });
+
+  it('folds the oldest runs into a summary once the threshold is crossed', async () => {
+    const summarize = vi.fn().mockResolvedValue('  Covered solar and wind.  ');
+    const longTerm = settings({ type: 'long-term', summarizationThreshold: 250 });
+
+    await record('solar', 's'.repeat(400), { settings: longTerm, summarize });
+    await record('wind', 'w'.repeat(400), { settings: longTerm, summarize });
+    expect(summarize).not.toHaveBeenCalled();
+
+    const memory = await record('hydro', 'h'.repeat(400), { settings: longTerm, summarize });
+
+    expect(summarize).toHaveBeenCalledTimes(1);
+    expect(summarize.mock.calls[0][0].prompt).toContain('Task: solar');
+    expect(summarize.mock.calls[0][0].prompt).toContain('Task: wind');
+    expect(memory).toMatchObject({ summary: 'Covered solar and wind.', summarizedEntries: 2 });
+    expect(memory.entries.map((e) => e.task)).toEqual(['hydro']);
+  });
+
+  it('drops short-term runs instead, and keeps runs when summarizing fails', async () => {
+    const log = vi.fn();
+    const shortTerm = settings({ summarizationThreshold: 150 });
+    await record('one', 'x'.repeat(400), { settings: shortTerm });
+    const dropped = await record('two', 'y'.repeat(400), { settings: shortTerm, log });
+    expect(dropped.entries.map((e) => e.task)).toEqual(['two']);
+    expect(log).toHaveBeenCalledWith('  [MEMORY] Writer: dropped 1 older run(s)');
+
+    const both = settings({ type: 'both', summarizationThreshold: 150 });
+    const kept = await record('three', 'z'.repeat(400), {
+      settings: both,
+      log,
+      summarize: vi.fn().mockRejectedValue(new Error('overloaded')),
+    });
+    expect(kept.entries.map((e) => e.task)).toEqual(['two', 'three']);
+    expect(log).toHaveBeenCalledWith('  [MEMORY] Writer: summarization failed — overloaded', 'stderr');
+  });
+
+  it('keeps every run when the same agent records concurrently', async () => {
+    const longTerm = settings({ type: 'long-term', summarizationThreshold: 250 });
+    await record('solar', 's'.repeat(400), { settings: longTerm });
+    await record('wind', 'w'.repeat(400), { settings: longTerm });
+
+    // The first record waits on a slow summary while the others arrive
+    let finishSummary!: (summary: string) => void;
+    const slow = vi.fn(() => new Promise<string>((resolve) => (finishSummary = resolve)));
+    const first = record('hydro', 'h'.repeat(400), { settings: longTerm, summarize: slow });
+    const others = Promise.all([record('tidal', 't'), record('geothermal', 'g')]);
+    await vi.waitFor(() => expect(slow).toHaveBeenCalled());
+    finishSummary('Covered solar and wind.');
+    await Promise.all([first, others]);
+
+    expect(loadMemory('Blog Team', 'writer')).toMatchObject({
+      summary: 'Covered solar and wind.',
+      entries: [{ task: 'hydro' }, { task: 'tidal' }, { task: 'geothermal' }],
+    });
+  });
+
+  it('does not bring back memory cleared while a summary was written', async () => {
+    const longTerm = settings({ type: 'long-term', summarizationThreshold: 250 });
+    await record('solar', 's'.repeat(400), { settings: longTerm });
+    await record('wind', 'w'.repeat(400), { settings: longTerm });
+
+    const summarize = vi.fn(async () => {
+      clearMemory('Blog Team', 'writer');
+      return 'Covered solar and wind.';
+    });
+    await record('hydro', 'h'.repeat(400), { settings: longTerm, summarize });
+
+    expect(loadMemory('Blog Team', 'writer')).toMatchObject({ summary: '', entries: [{ task: 'hydro' }] });
+  });
+
+  it('lists and clears memories per system', async () => {
+    await record('a', 'b');
+    await record('c', 'd', { agent: { id: 'editor', label: 'Editor' } });
+    await record('e', 'f', { system: 'Other' });
+
+    expect(listMemories('Blog Team').map((m) => [m.agentId, m.entries])).toEqual(
+      expect.arrayContaining([['writer', 1], ['editor', 1]])
+    );
+    expect(clearMemory('Blog Team', 'editor')).toBe(1);
+    expect(clearMemory('Blog Team', 'editor')).toBe(0);
+    expect(clearMemory('Blog Team')).toBe(1);
+    expect(listMemories('Blog Team')).toEqual([]);
+    expect(listMemories('Other')).toHaveLength(1);
+  });
+
+  it('keeps systems whose names only differ in case or punctuation apart', async () => {
+    await record('a', 'b', { system: 'Lead Gen' });
+    await record('c', 'd', { system: 'lead-gen' });
+    await record('e', 'f', { system: 'LEAD_GEN' });
+
+    expect(clearMemory('lead-gen')).toBe(1);
+    expect(loadMemory('Lead Gen', 'writer')?.entries.map((e) => e.task)).toEqual(['a']);
+    expect(loadMemory('LEAD_GEN', 'writer')?.entries.map((e) => e.task)).toEqual(['e']);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Routes
+// ---------------------------------------------------------------------------
+
+describe('memory routes', () => {
+  let server: Server;
+  let baseUrl: string;
+
+  beforeEach(async () => {
+    const app = express();
+    app.use('/api/memory', memoryRouter);
+    app.use(notFoundHandler);
+    app.use(errorHandler);
+    server = app.listen(0);
+    await new Promise((resolve) => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('inspects and clears an agent memory', async () => {
+    await record('Write about solar panels', 'Solar draft v1');
+
+    const list = await fetch(`${baseUrl}/api/memory/Blog%20Team`).then((r) => r.json());
+    expect(list.agents).toEqual([expect.objectContaining({ agentId: 'writer', entries: 1 })]);
+
+    const memory = await fetch(`${baseUrl}/api/memory/Blog%20Team/writer`).then((r) => r.json());
+    expect(memory.entries[0]).toMatchObject({ task: 'Write about solar panels', output: 'Solar draft v1' });
+
+    const cleared = await fetch(`${baseUrl}/api/memory/Blog%20Team/writer`, { method: 'DELETE' }).then((r) => r.json());
+    expect(cleared).toEqual({ cleared: 1 });
+    expect((await fetch(`${baseUrl}/api/memory/Blog%20Team/writer`)).status).toBe(404);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Runs
+// ---------------------------------------------------------------------------
+
+describe('executeWorkflow with agent memory', () => {
+  const originalKey = process.env.ANTHROPIC_API_KEY;
+
+  beforeEach(() => {
+    process.env.ANTHROPIC_API_KEY = 'sk-test';
+    process.env.CHECKPOINTS_DIR = path.join(memoryDir, 'checkpoints');
+  });
+
+  afterEach(() => {
+    process.env.ANTHROPIC_API_KEY = originalKey;
+    delete process.env.CHECKPOINTS_DIR;
+  });
+
+  it('remembers earlier runs of the same system', async () => {
+    const systems: string[] = [];
+    mocks.stream.mockImplementation((params: { system: string }) => {
+      systems.push(params.system);
+      return {
+        on: vi.fn(),
+        finalMessage: async () => ({
+          content: [{ type: 'text', text: `Draft ${systems.length}` }],
+          stop_reason: 'end_turn',
+          usage: { input_tokens: 10, output_tokens: 5 },
+        }),
+      };
+    });
+    const nodes = [
+      {
+        id: 'writer',
+        data: { type: 'AGENT', label: 'Writer', config: { memory: { contextPersistence: 'persistent' } } },
+      },
+    ];
+
+    await executeWorkflow('s-1', nodes, [], 'Post about solar', 'Blog Team');
+    await executeWorkflow('s-2', nodes, [], 'Post about wind', 'Blog Team');
+
+    expect(systems[0]).not.toContain('## Memory');
+    expect(systems[1]).toContain('Task: Post about solar\nOutput: Draft 1');
+    expect(loadMemory('Blog Team', 'writer')!.entries.map((e) => e.output)).toEqual(['Draft 1', 'Draft 2']);
+  });
+});
@@ -0,0 +1,346 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+// ---------------------------------------------------------------------------
+// Mocks — must be declared before importing modules under test
+// ---------------------------------------------------------------------------
+
+const mocks = vi.hoisted(() => ({
+  stream: vi.fn(),
+  emitExecutionLog: vi.fn(),
+  emitAgentResult: vi.fn(),
+}));
+
+vi.mock('@anthropic-ai/sdk', () => ({
+  default: class {
+    messages = { stream: mocks.stream };
+  },
+}));
+
+vi.mock('../../socket/emitter', () => ({
+  emitExecutionLog: mocks.emitExecutionLog,
+  emitExecutionStepStart: vi.fn(),
+  emitExecutionStepComplete: vi.fn(),
+  emitAgentResult: mocks.emitAgentResult,
+  emitExecutionReport: vi.fn(),
+  emitExecutionPaused: vi.fn(),
+}));
+
+vi.mock('../../services/agent-tools', () => ({
+  openAgentToolset: vi.fn().mockResolvedValue({
+    tools: [],
+    call: vi.fn(),
+    close: vi.fn().mockResolvedValue(undefined),
+  }),
+}));
+
+import {
+  createPoolRuntime,
+  extractTasks,
+  parsePoolSettings,
+  poolMembers,
+  type MemberRunner,
+} from '../../services/agent-pools';
+import { buildPlan, formatPlan } from '../../services/execution-planner';
+import { executeWorkflow } from '../../services/orchestrator-bridge';
+import type { AgentResult, ParsedWorkflow, WorkflowEdge, WorkflowNode } from '../../services/orchestrator-bridge';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function agent(id: string, parentId?: string): WorkflowNode {
+  return { id, type: 'customNode', nodeType: 'AGENT', label: id, config: {}, parentId, position: { x: 0, y: 0 } };
+}
+
+function pool(id: string, config: Record<string, unknown> = {}): WorkflowNode {
+  return { id, type: 'agentPoolNode', nodeType: 'AGENT_POOL', label: id, config, position: { x: 0, y: 0 } };
+}
+
+function edge(source: string, target: string, type: string): WorkflowEdge {
+  return { id: `${source}-${target}`, source, target, type };
+}
+
+function workflow(agents: WorkflowNode[], pools: WorkflowNode[], edges: WorkflowEdge[] = []): ParsedWorkflow {
+  return {
+    name: 'Test',
+    description: '',
+    version: '1.0.0',
+    framework: 'vab-native',
+    nodes: [...agents, ...pools],
+    edges,
+    agents,
+    departments: [],
+    pools,
+    mcpServers: [],
+    skills: [],
+    hooks: [],
+  };
+}
+
+function result(member: WorkflowNode, status: AgentResult['status'] = 'success', output = `${member.label} done`): AgentResult {
+  return {
+    agentId: member.id,
+    agentLabel: member.label,
+    status,
+    output,
+    tokensUsed: { input: 0, output: 0 },
+    durationMs: 0,
+    cost: 0,
+  };
+}
+
+/** Member runner that records assignments and in-flight peaks; each run waits one tick */
+function recordingRunner(fail: (member: WorkflowNode) => boolean = () => false) {
+  const assigned: string[] = [];
+  let inFlight = 0;
+  const stats = { peak: 0 };
+  const run: MemberRunner = async (member, task) => {
+    assigned.push(`${member.id}:${task}`);
+    inFlight++;
+    stats.peak = Math.max(stats.peak, inFlight);
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    inFlight--;
+    return result(member, fail(member) ? 'error' : 'success', `${member.id}:${task}`);
+  };
+  return { run: vi.fn(run), assigned, stats };
+}
+
+const log = vi.fn();
+
+// ---------------------------------------------------------------------------
+// Settings and membership
+// ---------------------------------------------------------------------------
+
+describe('pool settings', () => {
+  it('defaults to one instance per member, one task each, round-robin', () => {
+    expect(parsePoolSettings({}, 3)).toEqual({
+      minInstances: 1,
+      maxInstances: 3,
+      concurrency: 1,
+      loadBalancing: 'round-robin',
+      rateLimit: undefined,
+      timeoutSeconds: undefined,
+      failoverChain: [],
+    });
+  });
+
+  it('reads AgentPoolConfig scaling, balancing, limits and failover', () => {
+    expect(parsePoolSettings({
+      scaling: { minInstances: 2, maxInstances: '4', concurrency: 3 },
+      loadBalancing: 'least-loaded',
+      rateLimit: 30,
+      timeout: 90,
+      failoverChain: ['Backup', ''],
+    }, 2)).toEqual({
+      minInstances: 2,
+      maxInstances: 4,
+      concurrency: 3,
+      loadBalancing: 'least-loaded',
+      rateLimit: 30,
+      timeoutSeconds: 90,
+      failoverChain: ['Backup'],
+    });
+    expect(parsePoolSettings({ scaling: { minInstances: 9, maxInstances: 2 }, loadBalancing: 'fastest' }, 1))
+      .toMatchObject({ minInstances: 2, maxInstances: 2, loadBalancing: 'round-robin' });
+  });
+
+  it('finds members nested in the pool or listed in its agents', () => {
+    const writers = pool('writers', { agents: ['editor'] });
+    const wf = workflow([agent('w1', 'writers'), agent('w2', 'writers'), agent('editor'), agent('lead')], [writers]);
+
+    expect(poolMembers(writers, wf).map((a) => a.id)).toEqual(['w1', 'w2', 'editor']);
+  });
+
+  it('turns TASK lines from upstream agents into separate tasks', () => {
+    expect(extractTasks('Brief', ['Plan:\nTASK: intro\n  TASK: outro  \nEVENT: done'])).toEqual([
+      'Brief\n\n## Your Task\nintro',
+      'Brief\n\n## Your Task\noutro',
+    ]);
+    expect(extractTasks('Brief', ['no tasks here'])).toEqual(['Brief']);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Planning
+// ---------------------------------------------------------------------------
+
+describe('buildPlan with pools', () => {
+  it('schedules the pool in place of its members and moves their edges onto it', () => {
+    const wf = workflow(
+      [agent('lead'), agent('w1', 'writers'), agent('w2', 'writers'), agent('qa'), agent('b1', 'backup')],
+      [pool('writers', { failoverChain: ['backup'], loadBalancing: 'least-loaded' }), pool('backup')],
+      [edge('lead', 'writers', 'delegation'), edge('w1', 'qa', 'data'), edge('w1', 'w2', 'data')]
+    );
+
+    const plan = buildPlan(wf);
+
+    expect(plan.phases.map((p) => p.agents.map((a) => a.id))).toEqual([['lead'], ['writers'], ['qa']]);
+    expect(plan.dependencies.get('qa')).toEqual([{ agentId: 'writers', kind: 'data' }]);
+    expect(plan.standby.map((a) => a.id)).toEqual(['backup']);
+    expect(formatPlan(plan, wf)).toContain(
+      '       • writers [pool: 2 members, 1–2 instances × 1, least-loaded] ← lead (delegation)'
+    );
+    expect(formatPlan(plan, wf)).toContain('         ↳ backup on failure');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Runtime
+// ---------------------------------------------------------------------------
+
+describe('createPoolRuntime', () => {
+  beforeEach(() => log.mockClear());
+
+  it('spreads tasks round-robin across instances within the concurrency limit', async () => {
+    const writers = pool('writers', { scaling: { maxInstances: 2, concurrency: 2 } });
+    const wf = workflow([agent('w1', 'writers'), agent('w2', 'writers')], [writers]);
+    const runner = recordingRunner();
+
+    const run = await createPoolRuntime({ workflow: wf, log }).run(writers, ['t1', 't2', 't3', 't4', 't5'], runner.run);
+
+    expect(runner.assigned).toEqual(['w1:t1', 'w2:t2', 'w1:t3', 'w2:t4', 'w1:t5']);
+    expect(runner.stats.peak).toBe(4);
+    expect(run.tasks.map((t) => t?.pool)).toEqual([
+      { id: 'writers', label: 'writers', instance: 1, task: 1 },
+      { id: 'writers', label: 'writers', instance: 2, task: 2 },
+      { id: 'writers', label: 'writers', instance: 1, task: 3 },
+      { id: 'writers', label: 'writers', instance: 2, task: 4 },
+      { id: 'writers', label: 'writers', instance: 1, task: 5 },
+    ]);
+  });
+
+  it('scales instances with the queue and sends work to the least-loaded one', async () => {
+    const writers = pool('writers', {
+      scaling: { minInstances: 1, maxInstances: 3, concurrency: 2 },
+      loadBalancing: 'least-loaded',
+    });
+    const wf = workflow([agent('w1', 'writers')], [writers]);
+    const runner = recordingRunner();
+
+    const small = await createPoolRuntime({ workflow: wf, log }).run(writers, ['t1', 't2'], runner.run);
+    const large = await createPoolRuntime({ workflow: wf, log }).run(writers, ['a', 'b', 'c', 'd', 'e'], runner.run);
+
+    expect(small.tasks.map((t) => t?.pool.instance)).toEqual([1, 1]);
+    expect(large.tasks.map((t) => t?.pool.instance)).toEqual([1, 2, 3, 1, 2]);
+    expect(log).toHaveBeenCalledWith('  [POOL] writers: 5 task(s) on 3 instance(s) × 2, least-loaded');
+  });
+
+  it('fails tasks over to the pools in the failover chain', async () => {
+    const primary = pool('primary', { failoverChain: ['Backup Pool'] });
+    const backup = pool('backup', { name: 'Backup Pool' });
+    const wf = workflow(
+      [agent('flaky', 'primary'), agent('steady', 'primary'), agent('spare', 'backup')],
+      [primary, backup]
+    );
+    const runner = recordingRunner((member) => member.id === 'flaky');
+
+    const run = await createPoolRuntime({ workflow: wf, log }).run(primary, ['t1', 't2', 't3'], runner.run);
+
+    expect(runner.assigned).toEqual(['flaky:t1', 'steady:t2', 'flaky:t3', 'spare:t1', 'spare:t3']);
+    expect(run.tasks.map((t) => `${t?.agentId}:${t?.status}`)).toEqual([
+      'spare:success',
+      'steady:success',
+      'spare:success',
+    ]);
+    expect(run.results).toHaveLength(5);
+    expect(log).toHaveBeenCalledWith('  [FAILOVER] primary: 2 task(s) failed → backup');
+  });
+
+  it('holds task starts to the per-minute rate limit', async () => {
+    vi.useFakeTimers();
+    try {
+      const writers = pool('writers', { rateLimit: 2, scaling: { concurrency: 5 } });
+      const wf = workflow([agent('w1', 'writers')], [writers]);
+      const runMember = vi.fn(async (member: WorkflowNode) => result(member));
+
+      const pending = createPoolRuntime({ workflow: wf, log }).run(writers, ['t1', 't2', 't3'], runMember);
+      await vi.advanceTimersByTimeAsync(1_000);
+      expect(runMember).toHaveBeenCalledTimes(2);
+      expect(log).toHaveBeenCalledWith('  [POOL] writers: rate limit of 2/min reached, waiting 60s');
+
+      await vi.advanceTimersByTimeAsync(59_000);
+      const run = await pending;
+      expect(runMember).toHaveBeenCalledTimes(3);
+      expect(run.tasks.every((t) => t?.status === 'success')).toBe(true);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Runs
+// ---------------------------------------------------------------------------
+
+describe('executeWorkflow with pools', () => {
+  let checkpointsDir: string;
+  const originalKey = process.env.ANTHROPIC_API_KEY;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    process.env.ANTHROPIC_API_KEY = 'sk-test';
+    checkpointsDir = fs.mkdtempSync(path.join(os.tmpdir(), 'agent-pools-'));
+    process.env.CHECKPOINTS_DIR = checkpointsDir;
+  });
+
+  afterEach(() => {
+    process.env.ANTHROPIC_API_KEY = originalKey;
+    delete process.env.CHECKPOINTS_DIR;
+    fs.rmSync(checkpointsDir, { recursive: true, force: true });
+  });
+
+  it('runs delegated tasks on pool members and hands the combined output downstream', async () => {
+    mocks.stream.mockImplementation((params: { system: string; messages: Array<{ content: string }> }) => {
+      const label = /^You are (\w+)\./.exec(params.system)![1];
+      const prompt = params.messages[0].content;
+      const text =
+        label === 'lead'
+          ? 'TASK: draft intro\nTASK: draft outro'
+          : label === 'editor'
+            ? `edited: ${prompt.includes('## Task 1') && prompt.includes('## Task 2')}`
+            : `${label} wrote ${/## Your Task\n(.+)$/.exec(prompt)![1]}`;
+      return {
+        on: vi.fn(),
+        finalMessage: async () => ({
+          content: [{ type: 'text', text }],
+          stop_reason: 'end_turn',
+          usage: { input_tokens: 10, output_tokens: 5 },
+        }),
+      };
+    });
+
+    const report = await executeWorkflow(
+      's-1',
+      [
+        { id: 'lead', data: { type: 'AGENT', label: 'lead' } },
+        { id: 'writers', type: 'agentPoolNode', data: { type: 'AGENT_POOL', label: 'Writers' } },
+        { id: 'w1', parentId: 'writers', data: { type: 'AGENT', label: 'alice' } },
+        { id: 'w2', parentId: 'writers', data: { type: 'AGENT', label: 'bob' } },
+        { id: 'editor', data: { type: 'AGENT', label: 'editor' } },
+      ],
+      [
+        { id: 'e1', source: 'lead', target: 'writers', type: 'delegation' },
+        { id: 'e2', source: 'writers', target: 'editor', type: 'data' },
+      ],
+      'Write a post'
+    );
+
+    expect(report.status).toBe('success');
+    expect(report.phases.map((p) => p.results.map((r) => r.agentLabel))).toEqual([
+      ['lead'],
+      ['alice', 'bob'],
+      ['editor'],
+    ]);
+    expect(report.phases[1].results.map((r) => [r.output, r.pool])).toEqual([
+      ['alice wrote draft intro', { id: 'writers', label: 'Writers', instance: 1, task: 1 }],
+      ['bob wrote draft outro', { id: 'writers', label: 'Writers', instance: 2, task: 2 }],
+    ]);
+    expect(report.phases[2].results[0].output).toBe('edited: true');
+    expect(mocks.emitAgentResult).toHaveBeenCalledWith(
+      expect.objectContaining({ agentLabel: 'bob', pool: expect.objectContaining({ task: 2 }) })
+    );
+  });
+});
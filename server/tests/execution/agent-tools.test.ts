@@ -0,0 +1,322 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+// ---------------------------------------------------------------------------
+// Mocks — must be declared before importing modules under test
+// ---------------------------------------------------------------------------
+
+const mocks = vi.hoisted(() => ({
+  connect: vi.fn(),
+  listTools: vi.fn(),
+  callTool: vi.fn(),
+  close: vi.fn(),
+  transportOptions: [] as Array<Record<string, unknown>>,
+  stream: vi.fn(),
+  emitExecutionLog: vi.fn(),
+  readFile: vi.fn(),
+}));
+
+vi.mock('@modelcontextprotocol/sdk/client/index.js', () => ({
+  Client: class {
+    connect = mocks.connect;
+    listTools = mocks.listTools;
+    callTool = mocks.callTool;
+    close = mocks.close;
+  },
+}));
+
+vi.mock('@modelcontextprotocol/sdk/client/stdio.js', () => ({
+  StdioClientTransport: class {
+    stderr = null;
+    constructor(options: Record<string, unknown>) {
+      mocks.transportOptions.push(options);
+    }
+    close = vi.fn().mockResolvedValue(undefined);
+  },
+  getDefaultEnvironment: () => ({ PATH: '/usr/bin' }),
+}));
+
+vi.mock('@anthropic-ai/sdk', () => ({
+  default: class {
+    messages = { stream: mocks.stream };
+  },
+}));
+
+vi.mock('../../socket/emitter', () => ({
+  emitExecutionLog: mocks.emitExecutionLog,
+  emitExecutionStepStart: vi.fn(),
+  emitExecutionStepComplete: vi.fn(),
+  emitAgentResult: vi.fn(),
+  emitExecutionReport: vi.fn(),
+}));
+
+vi.mock('../../mcp/sandbox-mcp', async () => {
+  const actual = await vi.importActual<typeof import('../../mcp/sandbox-mcp')>(
+    '../../mcp/sandbox-mcp'
+  );
+  const tools = Object.fromEntries(
+    Object.entries(actual.SANDBOX_TOOLS).map(([name, tool]) => [
+      name,
+      { ...tool, handler: name === 'sandbox_read_file' ? mocks.readFile : vi.fn() },
+    ])
+  );
+  return { SANDBOX_TOOLS: tools, SANDBOX_ROOT: '/tmp/sandbox' };
+});
+
+import {
+  findAgentMcpServers,
+  mcpToolName,
+  openAgentToolset,
+  resolveSandboxTools,
+} from '../../services/agent-tools';
+import { executeWorkflow } from '../../services/orchestrator-bridge';
+import type { ParsedWorkflow, WorkflowNode } from '../../services/orchestrator-bridge';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function node(id: string, nodeType: string, config: Record<string, unknown>): WorkflowNode {
+  return { id, type: 'customNode', nodeType, label: id, config, position: { x: 0, y: 0 } };
+}
+
+const GITHUB_MCP = node('mcp-github', 'MCP_SERVER', {
+  name: 'github',
+  command: 'npx',
+  args: ['-y', '@modelcontextprotocol/server-github'],
+  env: { GITHUB_TOKEN: 'ghp_test' },
+});
+
+const SEARCH_MCP = node('mcp-search', 'MCP_SERVER', { name: 'web search', command: 'uvx', args: ['search'] });
+
+const UNUSED_MCP = node('mcp-unused', 'MCP_SERVER', { name: 'unused', command: 'node' });
+
+function workflow(agent: WorkflowNode, edges: ParsedWorkflow['edges'] = []): ParsedWorkflow {
+  const mcpServers = [GITHUB_MCP, SEARCH_MCP, UNUSED_MCP];
+  return {
+    name: 'Test',
+    description: '',
+    version: '1.0.0',
+    framework: 'vab-native',
+    nodes: [agent, ...mcpServers],
+    edges,
+    agents: [agent],
+    departments: [],
+    pools: [],
+    mcpServers,
+    skills: [],
+    hooks: [],
+  };
+}
+
+function message(content: unknown[], stopReason: string) {
+  return {
+    content,
+    stop_reason: stopReason,
+    usage: { input_tokens: 100, output_tokens: 20 },
+  };
+}
+
+function scriptStream(...responses: ReturnType<typeof message>[]) {
+  for (const response of responses) {
+    mocks.stream.mockImplementationOnce(() => {
+      const handlers: Array<(text: string) => void> = [];
+      return {
+        on: (event: string, handler: (text: string) => void) => {
+          if (event === 'text') handlers.push(handler);
+        },
+        finalMessage: async () => {
+          for (const block of response.content as Array<{ type: string; text?: string }>) {
+            if (block.type === 'text') handlers.forEach((h) => h(block.text!));
+          }
+          return response;
+        },
+      };
+    });
+  }
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mocks.transportOptions.length = 0;
+  mocks.connect.mockResolvedValue(undefined);
+  mocks.close.mockResolvedValue(undefined);
+  mocks.listTools.mockResolvedValue({
+    tools: [{ name: 'create_issue', description: 'Open an issue', inputSchema: { type: 'object' } }],
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Tool resolution
+// ---------------------------------------------------------------------------
+
+describe('resolveSandboxTools', () => {
+  it('maps capability names onto sandbox tools', () => {
+    expect(resolveSandboxTools({ tools: ['Read'] }).sort()).toEqual([
+      'sandbox_file_exists',
+      'sandbox_list_directory',
+      'sandbox_read_file',
+    ]);
+    expect(resolveSandboxTools({ tools: ['Bash', 'WebSearch'] })).toEqual(['sandbox_execute_command']);
+  });
+
+  it('gives every sandbox tool to agents without a tools list', () => {
+    expect(resolveSandboxTools({})).toHaveLength(7);
+  });
+
+  it('drops disallowed tools and write tools in plan mode', () => {
+    expect(resolveSandboxTools({ tools: ['Read', 'Bash'], disallowedTools: ['Bash'] })).not.toContain(
+      'sandbox_execute_command'
+    );
+    expect(resolveSandboxTools({ tools: ['Write', 'Read'], permissionMode: 'plan' })).not.toContain(
+      'sandbox_create_file'
+    );
+  });
+});
+
+describe('findAgentMcpServers', () => {
+  it('collects servers connected by edges or named in mcps', () => {
+    const agent = node('agent-1', 'AGENT', { mcps: ['web search'] });
+    const servers = findAgentMcpServers(
+      agent,
+      workflow(agent, [{ id: 'e1', source: 'mcp-github', target: 'agent-1', type: 'default' }])
+    );
+
+    expect(servers.map((s) => s.name).sort()).toEqual(['github', 'web search']);
+    expect(servers.find((s) => s.name === 'github')).toMatchObject({
+      command: 'npx',
+      args: ['-y', '@modelcontextprotocol/server-github'],
+      env: { GITHUB_TOKEN: 'ghp_test' },
+    });
+  });
+
+  it('builds API-safe tool names', () => {
+    expect(mcpToolName('web search', 'fetch.page')).toBe('mcp__web_search__fetch_page');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Toolset lifecycle
+// ---------------------------------------------------------------------------
+
+describe('openAgentToolset', () => {
+  const agent = node('agent-1', 'AGENT', { tools: [], mcps: ['github'] });
+
+  it('spawns MCP servers over stdio and routes calls to them', async () => {
+    mocks.callTool.mockResolvedValue({ content: [{ type: 'text', text: 'Issue #7 created' }] });
+
+    const toolset = await openAgentToolset(agent, workflow(agent), 'session-1', vi.fn());
+
+    expect(mocks.transportOptions[0]).toMatchObject({
+      command: 'npx',
+      args: ['-y', '@modelcontextprotocol/server-github'],
+      env: { PATH: '/usr/bin', GITHUB_TOKEN: 'ghp_test' },
+    });
+    expect(toolset.tools.map((t) => t.name)).toEqual(['mcp__github__create_issue']);
+
+    const result = await toolset.call('mcp__github__create_issue', { title: 'Bug' });
+
+    expect(mocks.callTool).toHaveBeenCalledWith(
+      { name: 'create_issue', arguments: { title: 'Bug' } },
+      undefined,
+      expect.objectContaining({ timeout: 30_000 })
+    );
+    expect(result).toEqual({ content: 'Issue #7 created', isError: false });
+
+    await toolset.close();
+    expect(mocks.close).toHaveBeenCalled();
+  });
+
+  it('skips servers that fail to start', async () => {
+    mocks.connect.mockRejectedValue(new Error('spawn npx ENOENT'));
+    const log = vi.fn();
+
+    const toolset = await openAgentToolset(agent, workflow(agent), 'session-1', log);
+
+    expect(toolset.tools).toEqual([]);
+    expect(log).toHaveBeenCalledWith(expect.stringContaining('spawn npx ENOENT'), 'stderr');
+  });
+
+  it('reports unknown tools as errors instead of throwing', async () => {
+    const toolset = await openAgentToolset(agent, workflow(agent), 'session-1', vi.fn());
+
+    const result = await toolset.call('not_a_tool', {});
+
+    expect(result.isError).toBe(true);
+    expect(result.content).toContain('Unknown tool');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Tool-use loop
+// ---------------------------------------------------------------------------
+
+describe('runAgent tool-use loop', () => {
+  const originalKey = process.env.ANTHROPIC_API_KEY;
+
+  beforeEach(() => {
+    process.env.ANTHROPIC_API_KEY = 'sk-test';
+  });
+
+  afterEach(() => {
+    process.env.ANTHROPIC_API_KEY = originalKey;
+  });
+
+  const canvasNodes = [
+    { id: 'agent-1', data: { type: 'AGENT', label: 'Researcher', tools: ['Read'], mcps: ['github'] } },
+    { id: 'mcp-1', data: { type: 'MCP_SERVER', label: 'GitHub', name: 'github', command: 'npx', args: [] } },
+  ];
+
+  it('executes requested tools and feeds results back until the model finishes', async () => {
+    mocks.readFile.mockResolvedValue({ success: true, data: { content: 'notes' } });
+    mocks.callTool.mockResolvedValue({ content: [{ type: 'text', text: 'Issue #7 created' }] });
+    scriptStream(
+      message([
+        { type: 'text', text: 'Reading notes.' },
+        { type: 'tool_use', id: 'tu_1', name: 'sandbox_read_file', input: { path: 'notes.md' } },
+        { type: 'tool_use', id: 'tu_2', name: 'mcp__github__create_issue', input: { title: 'Bug' } },
+      ], 'tool_use'),
+      message([{ type: 'text', text: 'Filed the issue.' }], 'end_turn')
+    );
+
+    const report = await executeWorkflow('session-1', canvasNodes, [], 'File an issue');
+
+    const result = report.phases[0].results[0];
+    expect(result.status).toBe('success');
+    expect(result.output).toContain('Filed the issue.');
+    expect(result.tokensUsed).toEqual({ input: 200, output: 40 });
+
+    // Tools advertised to the model
+    const firstRequest = mocks.stream.mock.calls[0][0];
+    expect(firstRequest.tools.map((t: { name: string }) => t.name)).toContain('mcp__github__create_issue');
+
+    // Tool results sent back on the second turn
+    const secondRequest = mocks.stream.mock.calls[1][0];
+    expect(secondRequest.messages.at(-1).content).toEqual([
+      expect.objectContaining({ tool_use_id: 'tu_1', content: expect.stringContaining('notes') }),
+      expect.objectContaining({ tool_use_id: 'tu_2', content: 'Issue #7 created' }),
+    ]);
+
+    // Each tool result is streamed to the terminal
+    const logged = mocks.emitExecutionLog.mock.calls.map((call) => call[1] as string);
+    expect(logged.some((line) => line.includes('[TOOL] ✓ Researcher → sandbox_read_file'))).toBe(true);
+    expect(logged.some((line) => line.includes('Issue #7 created'))).toBe(true);
+
+    // MCP servers are stopped once the agent finishes
+    expect(mocks.close).toHaveBeenCalled();
+  });
+
+  it('flags failing tools back to the model', async () => {
+    mocks.callTool.mockRejectedValue(new Error('rate limited'));
+    scriptStream(
+      message([
+        { type: 'tool_use', id: 'tu_1', name: 'mcp__github__create_issue', input: {} },
+      ], 'tool_use'),
+      message([{ type: 'text', text: 'Could not file it.' }], 'end_turn')
+    );
+
+    await executeWorkflow('session-1', canvasNodes, []);
+
+    const toolResult = mocks.stream.mock.calls[1][0].messages.at(-1).content[0];
+    expect(toolResult).toMatchObject({ is_error: true, content: expect.stringContaining('rate limited') });
+  });
+});
@@ -0,0 +1,286 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+// ---------------------------------------------------------------------------
+// Mocks — must be declared before importing modules under test
+// ---------------------------------------------------------------------------
+
+const mocks = vi.hoisted(() => ({
+  stream: vi.fn(),
+  toolCall: vi.fn(),
+  emitExecutionLog: vi.fn(),
+  emitApprovalRequest: vi.fn(),
+  emitApprovalResolved: vi.fn(),
+}));
+
+vi.mock('@anthropic-ai/sdk', () => ({
+  default: class {
+    messages = { stream: mocks.stream };
+  },
+}));
+
+vi.mock('../../socket/emitter', () => ({
+  emitExecutionLog: mocks.emitExecutionLog,
+  emitExecutionStepStart: vi.fn(),
+  emitExecutionStepComplete: vi.fn(),
+  emitAgentResult: vi.fn(),
+  emitExecutionReport: vi.fn(),
+  emitExecutionPaused: vi.fn(),
+  emitApprovalRequest: mocks.emitApprovalRequest,
+  emitApprovalResolved: mocks.emitApprovalResolved,
+}));
+
+vi.mock('../../services/agent-tools', () => ({
+  openAgentToolset: vi.fn().mockResolvedValue({
+    tools: [{ name: 'sandbox_execute_command', description: 'Run', input_schema: { type: 'object' } }],
+    call: mocks.toolCall,
+    close: vi.fn().mockResolvedValue(undefined),
+  }),
+}));
+
+import {
+  approvalPolicy,
+  findGatedCommands,
+  gatedAction,
+  listPendingApprovals,
+  readApprovalAudit,
+  requestApproval,
+  resolveApproval,
+  toolActions,
+} from '../../services/approval-gates';
+import { executeWorkflow, stopExecution } from '../../services/orchestrator-bridge';
+import type { ParsedWorkflow, WorkflowNode } from '../../services/orchestrator-bridge';
+import type { ApprovalRequestPayload } from '../../../shared/socket-events';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+let tmpDir: string;
+const originalKey = process.env.ANTHROPIC_API_KEY;
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  process.env.ANTHROPIC_API_KEY = 'sk-test';
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'approvals-'));
+  process.env.APPROVALS_AUDIT_PATH = path.join(tmpDir, 'approvals.jsonl');
+  process.env.CHECKPOINTS_DIR = path.join(tmpDir, 'checkpoints');
+});
+
+afterEach(() => {
+  process.env.ANTHROPIC_API_KEY = originalKey;
+  delete process.env.APPROVALS_AUDIT_PATH;
+  delete process.env.CHECKPOINTS_DIR;
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+const request = {
+  sessionId: 's-1',
+  agentId: 'a',
+  agentLabel: 'Ops',
+  action: 'shell_commands' as const,
+  tool: 'sandbox_execute_command',
+  summary: '$ rm -rf build',
+  input: { command: 'rm -rf build' },
+};
+
+/** Answer every approval card the same way as soon as it is raised */
+function answerApprovals(approved: boolean) {
+  mocks.emitApprovalRequest.mockImplementation((payload: ApprovalRequestPayload) => {
+    setTimeout(() => resolveApproval(payload.approvalId, approved, { reason: 'reviewed' }), 0);
+  });
+}
+
+/** First turn asks for a shell command, second turn answers */
+function agentRunsCommand(command: string) {
+  let turn = 0;
+  mocks.stream.mockImplementation(() => {
+    turn++;
+    const message =
+      turn === 1
+        ? {
+            content: [{ type: 'tool_use', id: 'tu_1', name: 'sandbox_execute_command', input: { command } }],
+            stop_reason: 'tool_use',
+          }
+        : { content: [{ type: 'text', text: 'Done' }], stop_reason: 'end_turn' };
+    return {
+      on: vi.fn(),
+      finalMessage: async () => ({ ...message, usage: { input_tokens: 10, output_tokens: 5 } }),
+    };
+  });
+}
+
+function toolResultSent() {
+  return mocks.stream.mock.calls[1][0].messages[2].content[0];
+}
+
+// ---------------------------------------------------------------------------
+// Gate classification
+// ---------------------------------------------------------------------------
+
+describe('gate classification', () => {
+  it('maps tool calls onto requiresApprovalFor actions', () => {
+    expect(toolActions('sandbox_create_file', { path: 'a.txt' })).toEqual(['file_writes']);
+    expect(toolActions('sandbox_delete_file', { path: 'a.txt' })).toEqual(['file_deletes']);
+    expect(toolActions('sandbox_execute_command', { command: 'git push' })).toEqual(['git_operations', 'shell_commands']);
+    expect(toolActions('mcp__github__create_issue', {})).toEqual(['external_apis']);
+    expect(toolActions('sandbox_read_file', { path: 'a.txt' })).toEqual([]);
+  });
+
+  it('finds git anywhere in a command chain', () => {
+    for (const command of [
+      'cd repo && git push',
+      'npm test; git commit -am wip',
+      'cat patch | git apply',
+      'env GIT_DIR=.git git push',
+      'GIT_SSH_COMMAND=ssh /usr/bin/git fetch',
+      'sh -c "git push --force"',
+      '(cd repo && git reset --hard)',
+      'echo $(git rev-parse HEAD)',
+    ]) {
+      expect(toolActions('sandbox_execute_command', { command })).toContain('git_operations');
+    }
+    expect(toolActions('sandbox_execute_command', { command: 'grep -r gitignore . && ls .git' })).toEqual([
+      'shell_commands',
+    ]);
+  });
+
+  it('only gates actions the agent lists', () => {
+    const config = { requiresApprovalFor: ['git_operations'] };
+
+    expect(gatedAction(config, 'sandbox_execute_command', { command: 'git commit -m x' })).toBe('git_operations');
+    expect(gatedAction(config, 'sandbox_execute_command', { command: 'ls' })).toBeNull();
+    expect(gatedAction({}, 'sandbox_delete_file', { path: 'a.txt' })).toBeNull();
+  });
+
+  it('finds approval-gated commands handled by an agent', () => {
+    const node = (id: string, nodeType: string, config: Record<string, unknown>): WorkflowNode => ({
+      id, type: 'customNode', nodeType, label: id, config, position: { x: 0, y: 0 },
+    });
+    const ops = node('ops', 'AGENT', { commands: ['/release'] });
+    const workflow = {
+      nodes: [
+        ops,
+        node('release', 'COMMAND', { name: 'release', requiresApproval: true }),
+        node('deploy', 'COMMAND', { name: 'deploy', requiresApproval: true, agent: 'ops' }),
+        node('status', 'COMMAND', { name: 'status', requiresApproval: false }),
+        node('audit', 'COMMAND', { name: 'audit', requiresApproval: true }),
+      ],
+      edges: [{ id: 'e1', source: 'status', target: 'ops', type: 'default' }],
+    } as unknown as ParsedWorkflow;
+
+    expect(findGatedCommands(ops, workflow).map((c) => c.id)).toEqual(['release', 'deploy']);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Requests, timeouts and the audit trail
+// ---------------------------------------------------------------------------
+
+describe('requestApproval', () => {
+  it('waits for the user and records the decision', async () => {
+    const pending = requestApproval(request, approvalPolicy());
+    const [payload] = mocks.emitApprovalRequest.mock.calls[0];
+    expect(listPendingApprovals('s-1').map((r) => r.approvalId)).toEqual([payload.approvalId]);
+
+    expect(resolveApproval(payload.approvalId, true)).toBe(true);
+    await expect(pending).resolves.toEqual({ approved: true, decidedBy: 'user' });
+
+    expect(resolveApproval(payload.approvalId, false)).toBe(false);
+    expect(listPendingApprovals()).toEqual([]);
+    expect(mocks.emitApprovalResolved).toHaveBeenCalledWith(
+      expect.objectContaining({ approvalId: payload.approvalId, approved: true, decidedBy: 'user' })
+    );
+    expect(readApprovalAudit()).toEqual([
+      expect.objectContaining({ approvalId: payload.approvalId, summary: '$ rm -rf build', approved: true }),
+    ]);
+  });
+
+  it('applies the timeout policy when nobody answers', async () => {
+    const rejected = await requestApproval(request, approvalPolicy({ approvalTimeoutSeconds: 0.01 }));
+    const approved = await requestApproval(
+      request,
+      approvalPolicy({ approvalTimeoutSeconds: 0.01, approvalTimeoutPolicy: 'approve' })
+    );
+
+    expect(rejected).toMatchObject({ approved: false, decidedBy: 'timeout' });
+    expect(approved).toMatchObject({ approved: true, decidedBy: 'timeout' });
+    expect(readApprovalAudit().map((e) => e.decidedBy)).toEqual(['timeout', 'timeout']);
+    expect(readApprovalAudit(100, 'other-session')).toEqual([]);
+  });
+
+  it('rejects as cancelled when the run stops', async () => {
+    const controller = new AbortController();
+    const pending = requestApproval(request, approvalPolicy(), controller.signal);
+    controller.abort();
+
+    await expect(pending).resolves.toMatchObject({ approved: false, decidedBy: 'cancelled' });
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Enforcement during agent runs
+// ---------------------------------------------------------------------------
+
+describe('executeWorkflow with approval gates', () => {
+  const gatedAgent = [
+    { id: 'ops', data: { type: 'AGENT', label: 'Ops', requiresApprovalFor: ['shell_commands'] } },
+  ];
+
+  it('runs a gated tool call once approved', async () => {
+    agentRunsCommand('npm test');
+    answerApprovals(true);
+    mocks.toolCall.mockResolvedValue({ content: 'ok', isError: false });
+
+    const report = await executeWorkflow('s-1', gatedAgent, []);
+
+    expect(mocks.emitApprovalRequest).toHaveBeenCalledWith(
+      expect.objectContaining({ agentLabel: 'Ops', action: 'shell_commands', summary: '$ npm test' })
+    );
+    expect(mocks.toolCall).toHaveBeenCalledWith('sandbox_execute_command', { command: 'npm test' });
+    expect(report.status).toBe('success');
+  });
+
+  it('tells the agent when a gated tool call is rejected', async () => {
+    agentRunsCommand('rm -rf /');
+    answerApprovals(false);
+
+    const report = await executeWorkflow('s-1', gatedAgent, []);
+
+    expect(mocks.toolCall).not.toHaveBeenCalled();
+    expect(toolResultSent()).toMatchObject({ tool_use_id: 'tu_1', is_error: true });
+    expect(toolResultSent().content).toContain('Not approved (shell_commands)');
+    expect(report.phases[0].results[0].output).toBe('Done');
+
+    const logged = mocks.emitExecutionLog.mock.calls.map((call) => call[1] as string);
+    expect(logged).toContain('  [APPROVAL] Ops → sandbox_execute_command: ✗ rejected: reviewed');
+  });
+
+  it('does not run an agent whose gated command is rejected', async () => {
+    answerApprovals(false);
+
+    const report = await executeWorkflow('s-1', [
+      { id: 'ops', data: { type: 'AGENT', label: 'Ops' } },
+      { id: 'cmd', data: { type: 'COMMAND', label: 'release', name: 'release', requiresApproval: true } },
+    ], [{ id: 'e1', source: 'cmd', target: 'ops' }]);
+
+    expect(mocks.emitApprovalRequest).toHaveBeenCalledWith(
+      expect.objectContaining({ action: 'command', tool: '/release' })
+    );
+    expect(mocks.stream).not.toHaveBeenCalled();
+    expect(report.phases[0].results[0]).toMatchObject({ status: 'error' });
+  });
+
+  it('cancels a pending approval when the run is stopped', async () => {
+    agentRunsCommand('npm publish');
+    mocks.emitApprovalRequest.mockImplementation(() => setTimeout(() => stopExecution('s-1'), 0));
+
+    const report = await executeWorkflow('s-1', gatedAgent, []);
+
+    expect(mocks.toolCall).not.toHaveBeenCalled();
+    expect(report.status).toBe('failed');
+    expect(readApprovalAudit()[0]).toMatchObject({ approved: false, decidedBy: 'cancelled' });
+  });
+});
@@ -0,0 +1,236 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+// ---------------------------------------------------------------------------
+// Mocks — must be declared before importing modules under test
+// ---------------------------------------------------------------------------
+
+const mocks = vi.hoisted(() => ({
+  stream: vi.fn(),
+  emitExecutionLog: vi.fn(),
+  emitExecutionReport: vi.fn(),
+}));
+
+vi.mock('@anthropic-ai/sdk', () => ({
+  default: class {
+    messages = { stream: mocks.stream };
+  },
+}));
+
+vi.mock('../../socket/emitter', () => ({
+  emitExecutionLog: mocks.emitExecutionLog,
+  emitExecutionStepStart: vi.fn(),
+  emitExecutionStepComplete: vi.fn(),
+  emitAgentResult: vi.fn(),
+  emitExecutionReport: mocks.emitExecutionReport,
+  emitExecutionPaused: vi.fn(),
+}));
+
+vi.mock('../../services/agent-tools', () => ({
+  openAgentToolset: vi.fn().mockResolvedValue({
+    tools: [],
+    call: vi.fn(),
+    close: vi.fn().mockResolvedValue(undefined),
+  }),
+}));
+
+import { createBudgetMeter, parseBudgetLimits } from '../../services/execution-budget';
+import { executeWorkflow } from '../../services/orchestrator-bridge';
+import { listCheckpoints } from '../../services/execution-checkpoints';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+interface Reply {
+  /** Text streamed in chunks before the final message */
+  chunks: string[];
+  usage: { input_tokens: number; output_tokens: number };
+}
+
+/**
+ * Stream each agent's reply as content_block_delta events, like the SDK
+ * does. An aborted request rejects the way the SDK's stream does.
+ */
+function streamReplies(replies: Record<string, Reply>) {
+  mocks.stream.mockImplementation((params: { system: string }, options?: { signal?: AbortSignal }) => {
+    const label = /^You are (\w+)\./.exec(params.system)![1];
+    const reply = replies[label];
+    const handlers: Array<(event: unknown, snapshot: unknown) => void> = [];
+
+    return {
+      on: (event: string, handler: (event: unknown, snapshot: unknown) => void) => {
+        if (event === 'streamEvent') handlers.push(handler);
+      },
+      finalMessage: async () => {
+        const snapshot = { usage: { input_tokens: reply.usage.input_tokens, output_tokens: 1 } };
+        for (const text of reply.chunks) {
+          handlers.forEach((h) => h({ type: 'content_block_delta', delta: { type: 'text_delta', text } }, snapshot));
+          await new Promise((resolve) => setTimeout(resolve, 0));
+          if (options?.signal?.aborted) {
+            const err = new Error('Request was aborted.');
+            err.name = 'APIUserAbortError';
+            throw err;
+          }
+        }
+        return {
+          content: [{ type: 'text', text: reply.chunks.join('') }],
+          stop_reason: 'end_turn',
+          usage: reply.usage,
+        };
+      },
+    };
+  });
+}
+
+function agentsCalled(): string[] {
+  return mocks.stream.mock.calls.map((call) => /^You are (\w+)\./.exec(call[0].system)![1]);
+}
+
+const edges = [{ id: 'e1', source: 'research', target: 'writer', type: 'data' }];
+
+let checkpointsDir: string;
+const originalKey = process.env.ANTHROPIC_API_KEY;
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  process.env.ANTHROPIC_API_KEY = 'sk-test';
+  checkpointsDir = fs.mkdtempSync(path.join(os.tmpdir(), 'budgets-'));
+  process.env.CHECKPOINTS_DIR = checkpointsDir;
+});
+
+afterEach(() => {
+  process.env.ANTHROPIC_API_KEY = originalKey;
+  delete process.env.CHECKPOINTS_DIR;
+  fs.rmSync(checkpointsDir, { recursive: true, force: true });
+});
+
+// ---------------------------------------------------------------------------
+// Meters
+// ---------------------------------------------------------------------------
+
+describe('budget meters', () => {
+  it('keeps only positive limits', () => {
+    expect(parseBudgetLimits({ tokenLimit: 1000, costCap: '0.5' })).toEqual({ tokenLimit: 1000, costCap: 0.5 });
+    expect(parseBudgetLimits({ tokenLimit: 0, costCap: '' })).toEqual({});
+    expect(parseBudgetLimits(undefined)).toEqual({});
+  });
+
+  it('reports the first limit crossed', () => {
+    const meter = createBudgetMeter('agent', 'Writer', { tokenLimit: 100, costCap: 0.01 });
+
+    meter.add(100, 0.005);
+    expect(meter.exceeded()).toBeNull();
+
+    meter.add(1, 0.006);
+    expect(meter.exceeded()).toMatchObject({
+      code: 'EXECUTION_BUDGET_EXCEEDED',
+      scope: 'agent',
+      subject: 'Writer',
+      limit: 'tokens',
+      max: 100,
+      used: 101,
+    });
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Enforcement during runs
+// ---------------------------------------------------------------------------
+
+describe('executeWorkflow with budgets', () => {
+  it('stops an agent mid-stream when its token limit trips', async () => {
+    // 10 input tokens + 25 estimated output tokens per 100-character chunk
+    streamReplies({
+      research: { chunks: ['a'.repeat(100), 'b'.repeat(100), 'c'.repeat(100)], usage: { input_tokens: 10, output_tokens: 75 } },
+      writer: { chunks: ['draft'], usage: { input_tokens: 10, output_tokens: 5 } },
+    });
+
+    const report = await executeWorkflow('s-1', [
+      { id: 'research', data: { type: 'AGENT', label: 'research', guardrails: { tokenLimit: 50 } } },
+      { id: 'writer', data: { type: 'AGENT', label: 'writer' } },
+    ], edges);
+
+    expect(report.status).toBe('budget_exceeded');
+    expect(report.budgetExceeded).toMatchObject({ scope: 'agent', subject: 'research', limit: 'tokens', max: 50, used: 60 });
+    expect(agentsCalled()).toEqual(['research']);
+
+    const [result] = report.phases[0].results;
+    expect(result).toMatchObject({ status: 'error', tokensUsed: { input: 10, output: 50 } });
+    expect(result.output).toContain('Budget exceeded: research token limit of 50 tokens exceeded');
+
+    expect(mocks.emitExecutionReport).toHaveBeenCalledWith(
+      expect.objectContaining({ status: 'budget_exceeded', budgetExceeded: report.budgetExceeded })
+    );
+    const logged = mocks.emitExecutionLog.mock.calls.map((call) => call[1] as string);
+    expect(logged).toContain('> Workflow stopped: budget exceeded!');
+    expect(listCheckpoints()).toEqual([]);
+  });
+
+  it('stops the run when the workflow cost ceiling trips', async () => {
+    streamReplies({
+      research: { chunks: ['findings'], usage: { input_tokens: 100, output_tokens: 100 } },
+      writer: { chunks: ['x'.repeat(4000)], usage: { input_tokens: 100, output_tokens: 1000 } },
+    });
+
+    const report = await executeWorkflow(
+      's-1',
+      [
+        { id: 'research', data: { type: 'AGENT', label: 'research' } },
+        { id: 'writer', data: { type: 'AGENT', label: 'writer' } },
+      ],
+      edges,
+      'Write it up',
+      'Report',
+      { budget: { costCap: 0.005 } }
+    );
+
+    expect(report.phases[0].results[0].status).toBe('success');
+    expect(report.phases[1].results[0].output).toContain('Budget exceeded: Run cost cap of $0.0050 exceeded');
+    expect(report.status).toBe('budget_exceeded');
+    expect(report.budgetExceeded).toMatchObject({ scope: 'run', subject: 'Report', limit: 'cost', max: 0.005 });
+    expect(report.totalCost).toBeGreaterThan(0.005);
+  });
+
+  it('enforces an agent cost cap on the final usage', async () => {
+    streamReplies({
+      research: { chunks: ['findings'], usage: { input_tokens: 100_000, output_tokens: 10 } },
+      writer: { chunks: ['draft'], usage: { input_tokens: 10, output_tokens: 5 } },
+    });
+
+    const report = await executeWorkflow('s-1', [
+      { id: 'research', data: { type: 'AGENT', label: 'research', guardrails: { costCap: 0.01 } } },
+      { id: 'writer', data: { type: 'AGENT', label: 'writer' } },
+    ], edges);
+
+    expect(report.status).toBe('budget_exceeded');
+    expect(report.budgetExceeded).toMatchObject({ scope: 'agent', subject: 'research', limit: 'cost' });
+    expect(report.phases[0].results[0].cost).toBeGreaterThan(0.01);
+    expect(agentsCalled()).toEqual(['research']);
+  });
+
+  it('runs normally within budget', async () => {
+    streamReplies({
+      research: { chunks: ['findings'], usage: { input_tokens: 10, output_tokens: 5 } },
+      writer: { chunks: ['draft'], usage: { input_tokens: 10, output_tokens: 5 } },
+    });
+
+    const report = await executeWorkflow(
+      's-1',
+      [
+        { id: 'research', data: { type: 'AGENT', label: 'research', guardrails: { tokenLimit: 1000 } } },
+        { id: 'writer', data: { type: 'AGENT', label: 'writer' } },
+      ],
+      edges,
+      undefined,
+      undefined,
+      { budget: { costCap: 1, tokenLimit: 1000 } }
+    );
+
+    expect(report.status).toBe('success');
+    expect(report.budgetExceeded).toBeUndefined();
+    expect(report.totalTokens).toEqual({ input: 20, output: 10 });
+  });
+});
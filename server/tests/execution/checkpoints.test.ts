@@ -0,0 +1,173 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+// ---------------------------------------------------------------------------
+// Mocks — must be declared before importing modules under test
+// ---------------------------------------------------------------------------
+
+const mocks = vi.hoisted(() => ({
+  stream: vi.fn(),
+  emitExecutionLog: vi.fn(),
+  emitExecutionPaused: vi.fn(),
+  /** Called as each agent finishes, before its reply is returned */
+  onAgentDone: vi.fn(),
+}));
+
+vi.mock('@anthropic-ai/sdk', () => ({
+  default: class {
+    messages = { stream: mocks.stream };
+  },
+}));
+
+vi.mock('../../socket/emitter', () => ({
+  emitExecutionLog: mocks.emitExecutionLog,
+  emitExecutionStepStart: vi.fn(),
+  emitExecutionStepComplete: vi.fn(),
+  emitAgentResult: vi.fn(),
+  emitExecutionReport: vi.fn(),
+  emitExecutionPaused: mocks.emitExecutionPaused,
+}));
+
+vi.mock('../../services/agent-tools', () => ({
+  openAgentToolset: vi.fn().mockResolvedValue({
+    tools: [],
+    call: vi.fn(),
+    close: vi.fn().mockResolvedValue(undefined),
+  }),
+}));
+
+import {
+  executeWorkflow,
+  listResumableRuns,
+  pauseExecution,
+  resumeWorkflow,
+  stopExecution,
+} from '../../services/orchestrator-bridge';
+import { listCheckpoints, loadCheckpoint, saveCheckpoint } from '../../services/execution-checkpoints';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const nodes = [
+  { id: 'research', data: { type: 'AGENT', label: 'research' } },
+  { id: 'writer', data: { type: 'AGENT', label: 'writer' } },
+];
+const edges = [{ id: 'e1', source: 'research', target: 'writer', type: 'data' }];
+
+function agentsCalled(): string[] {
+  return mocks.stream.mock.calls.map((call) => /^You are (\w+)\./.exec(call[0].system)![1]);
+}
+
+let checkpointsDir: string;
+const originalKey = process.env.ANTHROPIC_API_KEY;
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  process.env.ANTHROPIC_API_KEY = 'sk-test';
+  checkpointsDir = fs.mkdtempSync(path.join(os.tmpdir(), 'checkpoints-'));
+  process.env.CHECKPOINTS_DIR = checkpointsDir;
+
+  mocks.stream.mockImplementation((params: { system: string }) => {
+    const label = /^You are (\w+)\./.exec(params.system)![1];
+    const reply = `${label} findings`;
+    return {
+      on: vi.fn(),
+      finalMessage: async () => {
+        mocks.onAgentDone(label);
+        return {
+          content: [{ type: 'text', text: reply }],
+          stop_reason: 'end_turn',
+          usage: { input_tokens: 10, output_tokens: 5 },
+        };
+      },
+    };
+  });
+});
+
+afterEach(() => {
+  process.env.ANTHROPIC_API_KEY = originalKey;
+  delete process.env.CHECKPOINTS_DIR;
+  fs.rmSync(checkpointsDir, { recursive: true, force: true });
+});
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('checkpointed workflow runs', () => {
+  it('removes the checkpoint once a run completes', async () => {
+    const report = await executeWorkflow('s-1', nodes, edges, 'Write a report');
+
+    expect(report.status).toBe('success');
+    expect(listCheckpoints()).toEqual([]);
+  });
+
+  it('pauses between phases and resumes from the next one', async () => {
+    mocks.onAgentDone.mockImplementationOnce(() => pauseExecution('s-1'));
+
+    const paused = await executeWorkflow('s-1', nodes, edges, 'Write a report');
+
+    expect(paused.status).toBe('paused');
+    expect(agentsCalled()).toEqual(['research']);
+    expect(mocks.emitExecutionPaused).toHaveBeenCalledWith(
+      expect.objectContaining({ runId: paused.runId, status: 'paused', completedPhases: 1, totalPhases: 2 })
+    );
+    expect(listResumableRuns('s-1').map((r) => r.runId)).toEqual([paused.runId]);
+
+    const saved = loadCheckpoint(paused.runId)!;
+    expect(saved.context).toMatchObject({ brief: 'Write a report', research: 'research findings' });
+    expect(saved.outcomes.research).toEqual({ status: 'success', output: 'research findings', events: ['completed'] });
+
+    // Another session picks the run back up
+    const finished = await resumeWorkflow(paused.runId, 's-2');
+
+    expect(finished.status).toBe('success');
+    expect(finished.runId).toBe(paused.runId);
+    expect(agentsCalled()).toEqual(['research', 'writer']);
+    expect(finished.phases.map((p) => p.results.map((r) => r.agentLabel))).toEqual([['research'], ['writer']]);
+    expect(finished.totalCost).toBeGreaterThan(paused.totalCost);
+
+    // Restored outcomes still feed the data edge
+    expect(mocks.stream.mock.calls[1][0].messages[0].content).toContain('## Input from research\nresearch findings');
+    expect(listCheckpoints()).toEqual([]);
+  });
+
+  it('restarts an interrupted run from its last completed phase', async () => {
+    mocks.onAgentDone.mockImplementationOnce(() => pauseExecution('s-1'));
+    const { runId } = await executeWorkflow('s-1', nodes, edges, 'Write a report');
+
+    // Rewrite the checkpoint as a server that died mid-phase would leave it
+    saveCheckpoint({ ...loadCheckpoint(runId)!, status: 'running' });
+    expect(listResumableRuns()).toEqual([expect.objectContaining({ runId, status: 'interrupted' })]);
+
+    mocks.stream.mockClear();
+    await resumeWorkflow(runId, 's-1');
+
+    expect(agentsCalled()).toEqual(['writer']);
+    const logged = mocks.emitExecutionLog.mock.calls.map((call) => call[1] as string);
+    expect(logged).toContain(`[RESUME] Resuming run ${runId} after phase 1/2`);
+  });
+
+  it('drops the checkpoint when the run is stopped', async () => {
+    mocks.onAgentDone.mockImplementationOnce(() => stopExecution('s-1'));
+
+    const report = await executeWorkflow('s-1', nodes, edges);
+
+    expect(report.status).toBe('failed');
+    expect(listCheckpoints()).toEqual([]);
+  });
+
+  it('does not pause sessions without a running workflow', () => {
+    expect(pauseExecution('idle-session')).toBe(false);
+  });
+
+  it('rejects unknown runs', async () => {
+    await expect(resumeWorkflow('run_missing', 's-1')).rejects.toMatchObject({
+      code: 'EXECUTION_CHECKPOINT_NOT_FOUND',
+      statusCode: 404,
+    });
+  });
+});
@@ -0,0 +1,388 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+// ---------------------------------------------------------------------------
+// Mocks — must be declared before importing modules under test
+// ---------------------------------------------------------------------------
+
+const mocks = vi.hoisted(() => ({
+  stream: vi.fn(),
+  emitAgentResult: vi.fn(),
+}));
+
+vi.mock('@anthropic-ai/sdk', () => ({
+  default: class {
+    messages = { stream: mocks.stream };
+  },
+}));
+
+vi.mock('../../socket/emitter', () => ({
+  emitExecutionLog: vi.fn(),
+  emitExecutionStepStart: vi.fn(),
+  emitExecutionStepComplete: vi.fn(),
+  emitAgentResult: mocks.emitAgentResult,
+  emitExecutionReport: vi.fn(),
+  emitExecutionPaused: vi.fn(),
+}));
+
+vi.mock('../../services/agent-tools', () => ({
+  openAgentToolset: vi.fn().mockResolvedValue({
+    tools: [],
+    call: vi.fn(),
+    close: vi.fn().mockResolvedValue(undefined),
+  }),
+}));
+
+import {
+  aggregateResults,
+  parseAggregation,
+  tallyVotes,
+  type AggregationSettings,
+  type ConsensusRunner,
+  type SubAgentResult,
+} from '../../services/consensus';
+import { buildPlan, formatPlan } from '../../services/execution-planner';
+import { openAgentToolset } from '../../services/agent-tools';
+import { loadMemory } from '../../services/agent-memory';
+import { executeWorkflow } from '../../services/orchestrator-bridge';
+import type { AgentResult, ParsedWorkflow, WorkflowEdge, WorkflowNode } from '../../services/orchestrator-bridge';
+import type { ConsensusBallot } from '../../../shared/socket-events';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function agent(id: string, config: Record<string, unknown> = {}): WorkflowNode {
+  return { id, type: 'customNode', nodeType: 'AGENT', label: id, config, position: { x: 0, y: 0 } };
+}
+
+function edge(source: string, target: string, type: string): WorkflowEdge {
+  return { id: `${source}-${target}`, source, target, type };
+}
+
+function workflow(agents: WorkflowNode[], edges: WorkflowEdge[] = []): ParsedWorkflow {
+  return {
+    name: 'Test',
+    description: '',
+    version: '1.0.0',
+    framework: 'vab-native',
+    nodes: agents,
+    edges,
+    agents,
+    departments: [],
+    pools: [],
+    mcpServers: [],
+    skills: [],
+    hooks: [],
+  };
+}
+
+function settings(overrides: Partial<AggregationSettings> = {}): AggregationSettings {
+  return { method: 'vote', votingMethod: 'majority', threshold: 0.67, weights: {}, escalationPath: [], ...overrides };
+}
+
+function candidate(id: string, output = `${id} draft`, finishedAt = 0): SubAgentResult {
+  return { agent: agent(id), status: 'success', output, finishedAt };
+}
+
+function ballot(voterId: string, choice: number | null, weight = 1): ConsensusBallot {
+  return { voterId, voterLabel: voterId, weight, scores: [choice === 0 ? 9 : 3, choice === 1 ? 9 : 3], choice };
+}
+
+function result(agentId: string, output: string, status: AgentResult['status'] = 'success'): AgentResult {
+  return { agentId, agentLabel: agentId, status, output, tokensUsed: { input: 0, output: 0 }, durationMs: 0, cost: 0 };
+}
+
+/** Runner whose voters each score with a fixed ballot; other agents answer `decided by <id>` */
+function runner(ballots: Record<string, string>, failing: string[] = []): ConsensusRunner {
+  return vi.fn(async (a: WorkflowNode, _input: string, role) =>
+    failing.includes(a.id)
+      ? result(a.id, '', 'error')
+      : result(a.id, role === 'ballot' ? ballots[a.id] ?? '' : `decided by ${a.id}`)
+  );
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+});
+
+// ---------------------------------------------------------------------------
+// Settings
+// ---------------------------------------------------------------------------
+
+describe('parseAggregation', () => {
+  it('merges by default and votes when consensus is enabled', () => {
+    expect(parseAggregation({})).toBeNull();
+    expect(parseAggregation({ subAgentConfig: { resultAggregation: 'merge' } })).toBeNull();
+    expect(parseAggregation({ palConfig: { consensusConfig: { enabled: true } } })).toEqual(settings());
+  });
+
+  it('reads the voting method, threshold, weights and escalation path', () => {
+    expect(
+      parseAggregation({
+        subAgentConfig: { resultAggregation: 'vote' },
+        palConfig: { consensusConfig: { votingMethod: 'weighted', threshold: 0.8, weights: { a: '2', b: 'x' } } },
+        delegation: { escalationPath: ['chief', ' '] },
+      })
+    ).toEqual(settings({ votingMethod: 'weighted', threshold: 0.8, weights: { a: 2 }, escalationPath: ['chief'] }));
+    expect(
+      parseAggregation({ subAgentConfig: { resultAggregation: 'first' }, palConfig: { consensusConfig: { votingMethod: 'ranked' } } })
+    ).toMatchObject({ method: 'first', votingMethod: 'majority' });
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Tally
+// ---------------------------------------------------------------------------
+
+describe('tallyVotes', () => {
+  const candidates = [candidate('a'), candidate('b')];
+
+  it('needs the threshold and a true majority, counting abstentions', () => {
+    const met = tallyVotes(candidates, [ballot('a', 0), ballot('b', 0), ballot('c', 1)], settings({ threshold: 0.6 }));
+    expect(met).toMatchObject({ winner: 'a', met: true });
+    expect(met.support).toBeCloseTo(2 / 3);
+    expect(met.candidates.map((c) => c.votes)).toEqual([2, 1]);
+
+    const short = tallyVotes(candidates, [ballot('a', 0), ballot('b', 0), ballot('c', 1)], settings());
+    expect(short.met).toBe(false);
+
+    const halves = tallyVotes(candidates, [ballot('a', 0), ballot('b', null)], settings({ threshold: 0.5 }));
+    expect(halves).toMatchObject({ winner: 'a', support: 0.5, met: false });
+  });
+
+  it('requires every voter for unanimous and weighs votes for weighted', () => {
+    const ballots = [ballot('a', 0, 3), ballot('b', 1), ballot('c', 1)];
+    expect(tallyVotes(candidates, ballots, settings({ votingMethod: 'unanimous' })).met).toBe(false);
+    expect(
+      tallyVotes(candidates, [ballot('a', 1), ballot('b', 1)], settings({ votingMethod: 'unanimous' }))
+    ).toMatchObject({ winner: 'b', met: true });
+
+    const weighted = tallyVotes(candidates, ballots, settings({ votingMethod: 'weighted', threshold: 0.6 }));
+    expect(weighted).toMatchObject({ winner: 'a', support: 0.6, met: true });
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Aggregation
+// ---------------------------------------------------------------------------
+
+describe('aggregateResults', () => {
+  const lead = agent('lead');
+  const flow = workflow([lead, agent('a'), agent('b'), agent('c'), agent('chief'), agent('editor')]);
+  const options = (run: ConsensusRunner) => ({ workflow: flow, brief: 'Write a post', run, log: vi.fn() });
+
+  it('picks the winning result from parsed ballots', async () => {
+    const run = runner({ a: 'A: 9\nB: 4', b: 'Candidate A = 8\nB = 8', c: 'B: 10\nA: 2' });
+    const failed: SubAgentResult = { ...candidate('c'), status: 'error' };
+    const outcome = await aggregateResults(
+      lead,
+      [candidate('a'), candidate('b'), failed],
+      settings({ threshold: 0.6 }),
+      options(run)
+    );
+
+    // Only agents that produced a result vote
+    expect(run).toHaveBeenCalledTimes(2);
+    expect(outcome.status).toBe('success');
+    expect(outcome.output).toBe('a draft');
+    expect(outcome.report).toMatchObject({ winner: 'a', met: true, status: 'success' });
+    expect(outcome.report.ballots.map((b) => [b.voterId, b.scores, b.choice])).toEqual([
+      ['a', [9, 4], 0],
+      ['b', [8, 8], 0],
+    ]);
+  });
+
+  it('escalates along the path when the vote misses the threshold', async () => {
+    const run = runner({ a: 'A: 9\nB: 1', b: 'A: 1\nB: 9' }, ['chief']);
+    const outcome = await aggregateResults(
+      lead,
+      [candidate('a'), candidate('b')],
+      settings({ escalationPath: ['chief', 'editor'] }),
+      options(run)
+    );
+
+    expect(outcome).toMatchObject({ status: 'success', output: 'decided by editor' });
+    expect(outcome.report).toMatchObject({
+      met: false,
+      escalatedTo: { agentId: 'editor', status: 'success' },
+      status: 'success',
+    });
+    expect(vi.mocked(run).mock.calls.map(([a, , role]) => [a.id, role])).toEqual([
+      ['a', 'ballot'],
+      ['b', 'ballot'],
+      ['chief', 'escalation'],
+      ['editor', 'escalation'],
+    ]);
+  });
+
+  it('fails without consensus or an escalation path', async () => {
+    const run = runner({ a: 'A: 9\nB: 1', b: 'no idea' });
+    const outcome = await aggregateResults(lead, [candidate('a'), candidate('b')], settings(), options(run));
+
+    expect(outcome.status).toBe('error');
+    expect(outcome.report.ballots[1].choice).toBeNull();
+  });
+
+  it('takes the first result or lets the coordinator merge them', async () => {
+    const run = runner({});
+    const first = await aggregateResults(
+      lead,
+      [candidate('a', 'slow', 20), candidate('b', 'fast', 10)],
+      settings({ method: 'first' }),
+      options(run)
+    );
+    expect(first).toMatchObject({ output: 'fast', report: { winner: 'b', aggregation: 'first' } });
+    expect(run).not.toHaveBeenCalled();
+
+    const custom = await aggregateResults(lead, [candidate('a'), candidate('b')], settings({ method: 'custom' }), options(run));
+    expect(custom).toMatchObject({ status: 'success', output: 'decided by lead' });
+    expect(vi.mocked(run).mock.calls[0][1]).toContain('### Candidate B (b)\nb draft');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Planning
+// ---------------------------------------------------------------------------
+
+describe('consensus planning', () => {
+  it('keeps escalation targets on standby and shows the aggregation', () => {
+    const lead = agent('lead', {
+      subAgentConfig: { resultAggregation: 'vote' },
+      delegation: { escalationPath: ['chief'] },
+    });
+    const flow = workflow(
+      [lead, agent('a'), agent('b'), agent('chief')],
+      [edge('lead', 'a', 'delegation'), edge('lead', 'b', 'delegation')]
+    );
+
+    const plan = buildPlan(flow);
+
+    expect(plan.standby.map((a) => a.id)).toEqual(['chief']);
+    expect(formatPlan(plan, flow)).toEqual(
+      expect.arrayContaining([
+        '       • lead [aggregate: vote, majority ≥ 67%]',
+        '         ↳ chief on no consensus',
+        '     Standby (escalation): chief',
+      ])
+    );
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Runs
+// ---------------------------------------------------------------------------
+
+describe('executeWorkflow with consensus', () => {
+  const originalKey = process.env.ANTHROPIC_API_KEY;
+  let checkpointsDir: string;
+
+  beforeEach(() => {
+    process.env.ANTHROPIC_API_KEY = 'sk-test';
+    checkpointsDir = fs.mkdtempSync(path.join(os.tmpdir(), 'consensus-'));
+    process.env.CHECKPOINTS_DIR = checkpointsDir;
+  });
+
+  afterEach(() => {
+    process.env.ANTHROPIC_API_KEY = originalKey;
+    delete process.env.CHECKPOINTS_DIR;
+    fs.rmSync(checkpointsDir, { recursive: true, force: true });
+  });
+
+  /** Voters score alice's draft highest; every prompt is collected by agent label */
+  function answerVotes(prompts: Record<string, string[]>) {
+    mocks.stream.mockImplementation((params: { system: string; messages: Array<{ content: string }> }) => {
+      const label = /^You are (\w+)\./.exec(params.system)![1];
+      const prompt = params.messages[0].content;
+      (prompts[label] ??= []).push(prompt);
+      const text = prompt.includes('## Your ballot')
+        ? label === 'alice' ? 'A: 9\nB: 6' : 'A: 8\nB: 7'
+        : label === 'lead' ? 'Split the work' : `${label} draft`;
+      return {
+        on: vi.fn(),
+        finalMessage: async () => ({
+          content: [{ type: 'text', text }],
+          stop_reason: 'end_turn',
+          usage: { input_tokens: 10, output_tokens: 5 },
+        }),
+      };
+    });
+  }
+
+  function voteWorkflow(voterConfig: Record<string, unknown> = {}) {
+    return executeWorkflow(
+      's-1',
+      [
+        { id: 'lead', data: { type: 'AGENT', label: 'lead', subAgentConfig: { resultAggregation: 'vote' } } },
+        { id: 'alice', data: { type: 'AGENT', label: 'alice', config: voterConfig } },
+        { id: 'bob', data: { type: 'AGENT', label: 'bob', config: voterConfig } },
+        { id: 'publisher', data: { type: 'AGENT', label: 'publisher' } },
+      ],
+      [
+        { id: 'e1', source: 'lead', target: 'alice', type: 'delegation' },
+        { id: 'e2', source: 'lead', target: 'bob', type: 'delegation' },
+        { id: 'e3', source: 'alice', target: 'publisher', type: 'data' },
+        { id: 'e4', source: 'bob', target: 'publisher', type: 'data' },
+      ],
+      'Write a post',
+      'Vote Team'
+    );
+  }
+
+  it('votes on parallel sub-agent results and hands only the winner downstream', async () => {
+    const prompts: Record<string, string[]> = {};
+    answerVotes(prompts);
+
+    const report = await voteWorkflow();
+
+    expect(report.status).toBe('success');
+    expect(report.phases[1].results.map((r) => [r.agentLabel, r.consensus?.role])).toEqual([
+      ['alice', undefined],
+      ['bob', undefined],
+      ['alice', 'ballot'],
+      ['bob', 'ballot'],
+    ]);
+    expect(report.consensus).toEqual([
+      expect.objectContaining({
+        coordinatorId: 'lead',
+        aggregation: 'vote',
+        winner: 'alice',
+        support: 1,
+        met: true,
+        candidates: [
+          expect.objectContaining({ agentId: 'alice', votes: 2, averageScore: 8.5 }),
+          expect.objectContaining({ agentId: 'bob', votes: 0, averageScore: 6.5 }),
+        ],
+      }),
+    ]);
+    expect(prompts.publisher[0]).toContain('## Input from lead (vote)\nalice draft');
+    expect(prompts.publisher[0]).not.toContain('## Input from bob');
+    expect(mocks.emitAgentResult).toHaveBeenCalledWith(
+      expect.objectContaining({ agentLabel: 'bob', consensus: { coordinatorId: 'lead', role: 'ballot' } })
+    );
+  });
+
+  it('runs ballots without tools and keeps them out of agent memory', async () => {
+    const memoryDir = fs.mkdtempSync(path.join(os.tmpdir(), 'consensus-memory-'));
+    process.env.AGENT_MEMORY_DIR = memoryDir;
+    answerVotes({});
+
+    try {
+      const report = await voteWorkflow({ memory: { contextPersistence: 'persistent' } });
+
+      expect(report.status).toBe('success');
+      expect(vi.mocked(openAgentToolset).mock.calls.map(([node]) => node.label)).toEqual([
+        'lead',
+        'alice',
+        'bob',
+        'publisher',
+      ]);
+      expect(loadMemory('Vote Team', 'alice')!.entries.map((e) => e.output)).toEqual(['alice draft']);
+    } finally {
+      delete process.env.AGENT_MEMORY_DIR;
+      fs.rmSync(memoryDir, { recursive: true, force: true });
+    }
+  });
+});
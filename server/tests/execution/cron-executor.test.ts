@@ -0,0 +1,285 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { DeploymentRecord } from '../../types/registry';
+import type { CronTriggerConfig } from '../../services/trigger-factory';
+import { parseCron } from '../../lib/cron';
+import { createTestManifest } from '../deploy/fixtures';
+
+// ---------------------------------------------------------------------------
+// Mocks — set up before importing the module under test
+// ---------------------------------------------------------------------------
+
+const mocks = vi.hoisted(() => ({
+  systems: [] as DeploymentRecord[],
+  lastCronFire: null as string | null,
+  dispatchExecution: vi.fn(),
+}));
+
+vi.mock('../../services/registry', () => ({
+  listSystems: async () => mocks.systems,
+  getSystem: async (slug: string) => mocks.systems.find((s) => s.systemSlug === slug) ?? null,
+}));
+
+vi.mock('../../services/execution-dispatcher', async (importActual) => ({
+  ...(await importActual<typeof import('../../services/execution-dispatcher')>()),
+  dispatchExecution: mocks.dispatchExecution,
+}));
+
+vi.mock('../../db', () => ({
+  pool: { query: async () => ({ rows: [{ last_started_at: mocks.lastCronFire }] }) },
+}));
+
+import {
+  cronExecutorEnabled,
+  getCronTriggers,
+  missedCronRuns,
+  startCronExecutor,
+  stopCronExecutor,
+  syncCronTriggers,
+} from '../../services/cron-executor';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function cronSystem(
+  slug: string,
+  trigger: Partial<CronTriggerConfig> = {},
+  overrides: Partial<DeploymentRecord> = {}
+): DeploymentRecord {
+  return {
+    id: `deploy-${slug}`,
+    systemName: slug,
+    systemSlug: slug,
+    manifestJson: createTestManifest({ slug }),
+    canvasJson: {},
+    openclawConfig: {},
+    triggerType: 'cron',
+    triggerConfig: { type: 'cron', expression: '*/15 * * * *', timezone: 'UTC', enabled: true, ...trigger },
+    pm2ProcessName: `autopilate-${slug}`,
+    secretsDecrypted: null,
+    status: 'deployed',
+    deployedAt: '2026-10-01T00:00:00Z',
+    createdAt: '2026-10-01T00:00:00Z',
+    updatedAt: '2026-10-01T00:00:00Z',
+    ...overrides,
+  };
+}
+
+function dispatchedSlugs(): string[] {
+  return mocks.dispatchExecution.mock.calls.map(([request]) => request.deployment.systemSlug);
+}
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout', 'setInterval', 'clearInterval', 'Date'] });
+  vi.setSystemTime(new Date('2026-10-19T10:07:30Z'));
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  mocks.systems = [];
+  mocks.lastCronFire = '2026-10-19T10:00:00Z';
+  mocks.dispatchExecution.mockReset();
+  mocks.dispatchExecution.mockImplementation(async () => ({
+    executionId: `exec-${mocks.dispatchExecution.mock.calls.length}`,
+    status: 'running',
+    deduplicated: false,
+  }));
+});
+
+afterEach(() => {
+  stopCronExecutor();
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+  delete process.env.CRON_EXECUTOR_ENABLED;
+  delete process.env.CRON_CATCH_UP;
+  delete process.env.OPENCLAW_GATEWAY_URL;
+});
+
+// ---------------------------------------------------------------------------
+// Configuration
+// ---------------------------------------------------------------------------
+
+describe('cronExecutorEnabled', () => {
+  it('runs by default only when no OpenClaw gateway is configured', () => {
+    expect(cronExecutorEnabled()).toBe(true);
+
+    process.env.OPENCLAW_GATEWAY_URL = 'ws://localhost:18789';
+    expect(cronExecutorEnabled()).toBe(false);
+
+    process.env.CRON_EXECUTOR_ENABLED = 'true';
+    expect(cronExecutorEnabled()).toBe(true);
+
+    process.env.CRON_EXECUTOR_ENABLED = 'false';
+    delete process.env.OPENCLAW_GATEWAY_URL;
+    expect(cronExecutorEnabled()).toBe(false);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Firing
+// ---------------------------------------------------------------------------
+
+describe('cron executor', () => {
+  it('fires enabled cron triggers on schedule with triggered_by=cron', async () => {
+    mocks.systems = [cronSystem('reports', { expression: '*/15 * * * *' })];
+
+    await startCronExecutor();
+    expect(getCronTriggers()).toEqual([
+      { systemSlug: 'reports', expression: '*/15 * * * *', timezone: 'UTC', nextRunAt: '2026-10-19T10:15:00.000Z' },
+    ]);
+
+    await vi.advanceTimersByTimeAsync(7 * 60_000);
+    expect(mocks.dispatchExecution).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(mocks.dispatchExecution).toHaveBeenCalledTimes(1);
+    expect(mocks.dispatchExecution).toHaveBeenCalledWith({
+      deployment: mocks.systems[0],
+      triggeredBy: 'cron',
+      inputs: {},
+    });
+    expect(getCronTriggers()[0].nextRunAt).toBe('2026-10-19T10:30:00.000Z');
+
+    await vi.advanceTimersByTimeAsync(30 * 60_000);
+    expect(mocks.dispatchExecution).toHaveBeenCalledTimes(3);
+  });
+
+  it('evaluates expressions in the trigger timezone', async () => {
+    mocks.systems = [cronSystem('digest', { expression: '0 13 * * *', timezone: 'Asia/Tokyo' })];
+
+    await startCronExecutor();
+
+    // 13:00 in Tokyo is 04:00 UTC
+    expect(getCronTriggers()[0].nextRunAt).toBe('2026-10-20T04:00:00.000Z');
+  });
+
+  it('skips disabled triggers, stopped systems and other trigger types', async () => {
+    mocks.systems = [
+      cronSystem('off', { enabled: false }),
+      cronSystem('stopped', {}, { status: 'stopped' }),
+      cronSystem('hooks', {}, { triggerType: 'webhook', triggerConfig: { type: 'webhook', enabled: true } }),
+      cronSystem('on'),
+    ];
+
+    await startCronExecutor();
+    await vi.advanceTimersByTimeAsync(8 * 60_000);
+
+    expect(getCronTriggers().map((t) => t.systemSlug)).toEqual(['on']);
+    expect(dispatchedSlugs()).toEqual(['on']);
+  });
+
+  it('does not fire a trigger disabled after it was armed', async () => {
+    mocks.systems = [cronSystem('reports')];
+    await startCronExecutor();
+
+    mocks.systems = [cronSystem('reports', { enabled: false })];
+    await vi.advanceTimersByTimeAsync(8 * 60_000);
+
+    expect(mocks.dispatchExecution).not.toHaveBeenCalled();
+  });
+
+  it('picks up edited and removed triggers on the next registry sync', async () => {
+    mocks.systems = [cronSystem('reports'), cronSystem('cleanup')];
+    await startCronExecutor();
+
+    mocks.systems = [cronSystem('reports', { expression: '0 12 * * *' })];
+    await syncCronTriggers();
+
+    expect(getCronTriggers()).toEqual([
+      { systemSlug: 'reports', expression: '0 12 * * *', timezone: 'UTC', nextRunAt: '2026-10-19T12:00:00.000Z' },
+    ]);
+    await vi.advanceTimersByTimeAsync(60 * 60_000);
+    expect(mocks.dispatchExecution).not.toHaveBeenCalled();
+  });
+
+  it('keeps firing when a dispatch fails', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    mocks.systems = [cronSystem('reports')];
+    mocks.dispatchExecution.mockRejectedValueOnce(new Error('Gateway not connected'));
+
+    await startCronExecutor();
+    await vi.advanceTimersByTimeAsync(23 * 60_000);
+
+    expect(mocks.dispatchExecution).toHaveBeenCalledTimes(2);
+  });
+
+  it('does nothing while disabled', async () => {
+    process.env.CRON_EXECUTOR_ENABLED = 'false';
+    mocks.systems = [cronSystem('reports')];
+
+    await startCronExecutor();
+    await vi.advanceTimersByTimeAsync(60 * 60_000);
+
+    expect(getCronTriggers()).toEqual([]);
+    expect(mocks.dispatchExecution).not.toHaveBeenCalled();
+  });
+
+  it('stays off when a gateway fires the cron triggers itself', async () => {
+    process.env.OPENCLAW_GATEWAY_URL = 'ws://localhost:18789';
+    mocks.systems = [cronSystem('reports')];
+
+    await startCronExecutor();
+    await vi.advanceTimersByTimeAsync(60 * 60_000);
+
+    expect(getCronTriggers()).toEqual([]);
+    expect(mocks.dispatchExecution).not.toHaveBeenCalled();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Catch-up after downtime
+// ---------------------------------------------------------------------------
+
+describe('missed-fire catch-up', () => {
+  const hourly = parseCron('0 * * * *');
+  const since = new Date('2026-10-19T05:30:00Z');
+  const now = new Date('2026-10-19T10:07:30Z');
+
+  it('computes missed fires per policy', () => {
+    expect(missedCronRuns(hourly, since, now, 'skip')).toEqual([]);
+    expect(missedCronRuns(hourly, since, now, 'latest')).toEqual([new Date('2026-10-19T10:00:00Z')]);
+    expect(missedCronRuns(hourly, since, now, 'all').map((d) => d.toISOString())).toEqual([
+      '2026-10-19T06:00:00.000Z',
+      '2026-10-19T07:00:00.000Z',
+      '2026-10-19T08:00:00.000Z',
+      '2026-10-19T09:00:00.000Z',
+      '2026-10-19T10:00:00.000Z',
+    ]);
+  });
+
+  it('caps `all` at the ten most recent fires within the last day', () => {
+    const missed = missedCronRuns(hourly, new Date('2026-10-10T00:00:00Z'), now, 'all');
+
+    expect(missed).toHaveLength(10);
+    expect(missed[0].toISOString()).toBe('2026-10-19T01:00:00.000Z');
+    expect(missed[9].toISOString()).toBe('2026-10-19T10:00:00.000Z');
+  });
+
+  it('runs the latest missed fire at start by default', async () => {
+    mocks.systems = [cronSystem('reports', { expression: '0 * * * *' })];
+    mocks.lastCronFire = '2026-10-19T06:00:01Z';
+
+    await startCronExecutor();
+
+    expect(mocks.dispatchExecution).toHaveBeenCalledTimes(1);
+  });
+
+  it('follows the trigger policy over CRON_CATCH_UP', async () => {
+    process.env.CRON_CATCH_UP = 'skip';
+    mocks.systems = [
+      cronSystem('all', { expression: '0 * * * *', catchUp: 'all' }),
+      cronSystem('default', { expression: '0 * * * *' }),
+    ];
+    mocks.lastCronFire = '2026-10-19T06:00:01Z';
+
+    await startCronExecutor();
+
+    expect(dispatchedSlugs()).toEqual(['all', 'all', 'all', 'all']);
+  });
+
+  it('does not catch up fires from before the deployment', async () => {
+    mocks.systems = [cronSystem('fresh', { expression: '0 * * * *' }, { deployedAt: '2026-10-19T10:05:00Z' })];
+    mocks.lastCronFire = null;
+
+    await startCronExecutor();
+
+    expect(mocks.dispatchExecution).not.toHaveBeenCalled();
+  });
+});
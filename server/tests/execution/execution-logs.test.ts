@@ -0,0 +1,271 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import express from 'express';
+import type { AddressInfo } from 'net';
+import type { Server } from 'http';
+import type { DeploymentRecord } from '../../types/registry';
+import { createTestManifest } from '../deploy/fixtures';
+
+// ---------------------------------------------------------------------------
+// Mocks — must be declared before importing modules under test
+// ---------------------------------------------------------------------------
+
+const mockPoolQuery = vi.fn();
+vi.mock('../../db', () => ({
+  pool: { query: (...args: unknown[]) => mockPoolQuery(...args) },
+}));
+
+const mockGetSystem = vi.fn();
+vi.mock('../../services/registry', () => ({
+  getSystem: (...args: unknown[]) => mockGetSystem(...args),
+  registerSystem: vi.fn(),
+  listSystems: vi.fn(),
+  updateSystemStatus: vi.fn(),
+  archiveSystem: vi.fn(),
+  SystemNotFoundError: class extends Error {},
+}));
+
+const mockPublish = vi.fn();
+vi.mock('ioredis', () => ({
+  default: vi.fn().mockImplementation(() => ({
+    connect: vi.fn().mockResolvedValue(undefined),
+    publish: (...args: unknown[]) => mockPublish(...args),
+  })),
+}));
+
+const mockDispatchExecution = vi.fn();
+vi.mock('../../services/execution-dispatcher', async (importActual) => ({
+  ...(await importActual<typeof import('../../services/execution-dispatcher')>()),
+  dispatchExecution: (...args: unknown[]) => mockDispatchExecution(...args),
+}));
+
+import { systemsRouter } from '../../routes/systems';
+import { errorHandler, notFoundHandler } from '../../src/middleware/error-handler';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const EXEC_ID = '6f1c2f9e-4a7b-4c1d-9f5e-2b3c4d5e6f70';
+
+function createDeployment(overrides: Partial<DeploymentRecord> = {}): DeploymentRecord {
+  return {
+    id: 'deploy-1',
+    systemName: 'Content Pipeline',
+    systemSlug: 'content-pipeline',
+    manifestJson: createTestManifest({
+      slug: 'content-pipeline',
+      requiredInputs: [
+        { name: 'topic', type: 'string', description: 'Article topic', required: true },
+      ],
+    }),
+    canvasJson: {},
+    openclawConfig: {},
+    triggerType: 'cron',
+    triggerConfig: {},
+    pm2ProcessName: 'autopilate-content-pipeline',
+    secretsDecrypted: null,
+    status: 'deployed',
+    deployedAt: '2026-02-20T00:00:00Z',
+    createdAt: '2026-02-20T00:00:00Z',
+    updatedAt: '2026-02-20T00:00:00Z',
+    ...overrides,
+  };
+}
+
+function createLogRow(overrides: Record<string, unknown> = {}) {
+  return {
+    id: EXEC_ID,
+    deployment_id: 'deploy-1',
+    system_slug: 'content-pipeline',
+    triggered_by: 'cron',
+    trigger_input: { topic: 'AI' },
+    status: 'completed',
+    phases_completed: 4,
+    phases_total: 4,
+    output_url: 'https://example.com/post',
+    output_type: 'document',
+    cost_usd: '0.4210',
+    duration_seconds: 95,
+    qa_scores: { overall: 91, 'Copy Quality': 88 },
+    error_message: null,
+    started_at: '2026-02-20T10:00:00Z',
+    completed_at: '2026-02-20T10:01:35Z',
+    ...overrides,
+  };
+}
+
+let server: Server;
+let baseUrl: string;
+
+async function request(path: string, init?: RequestInit) {
+  const res = await fetch(`${baseUrl}/api/systems${path}`, {
+    headers: { 'Content-Type': 'application/json' },
+    ...init,
+  });
+  return { status: res.status, body: await res.json() };
+}
+
+beforeEach(async () => {
+  vi.clearAllMocks();
+  mockGetSystem.mockResolvedValue(createDeployment());
+  mockPublish.mockResolvedValue(1);
+
+  const app = express();
+  app.use(express.json());
+  app.use('/api/systems', systemsRouter);
+  app.use(notFoundHandler);
+  app.use(errorHandler);
+
+  server = app.listen(0);
+  await new Promise((resolve) => server.once('listening', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterEach(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+// ---------------------------------------------------------------------------
+// GET /api/systems/:slug/logs
+// ---------------------------------------------------------------------------
+
+describe('GET /api/systems/:slug/logs', () => {
+  it('returns a page of logs with parsed cost and total', async () => {
+    mockPoolQuery
+      .mockResolvedValueOnce({ rows: [createLogRow()] })
+      .mockResolvedValueOnce({ rows: [{ count: '37' }] });
+
+    const res = await request('/content-pipeline/logs');
+
+    expect(res.status).toBe(200);
+    expect(res.body.total).toBe(37);
+    expect(res.body.limit).toBe(50);
+    expect(res.body.offset).toBe(0);
+    expect(res.body.logs[0]).toMatchObject({
+      id: EXEC_ID,
+      systemSlug: 'content-pipeline',
+      costUsd: 0.421,
+      qaScores: { overall: 91, 'Copy Quality': 88 },
+    });
+  });
+
+  it('applies status, triggered_by and date range filters', async () => {
+    mockPoolQuery
+      .mockResolvedValueOnce({ rows: [] })
+      .mockResolvedValueOnce({ rows: [{ count: '0' }] });
+
+    await request(
+      '/content-pipeline/logs?status=failed&triggered_by=webhook&from=2026-02-01&to=2026-03-01&limit=10&offset=20'
+    );
+
+    const [sql, params] = mockPoolQuery.mock.calls[0];
+    expect(sql).toContain('el.status = $2');
+    expect(sql).toContain('el.triggered_by = $3');
+    expect(sql).toContain('COALESCE(el.started_at, el.queued_at) >= $4');
+    expect(sql).toContain('COALESCE(el.started_at, el.queued_at) < $5');
+    expect(params).toEqual(['deploy-1', 'failed', 'webhook', '2026-02-01', '2026-03-01', 10, 20]);
+
+    // Count query shares the filters but not the pagination
+    expect(mockPoolQuery.mock.calls[1][1]).toEqual(['deploy-1', 'failed', 'webhook', '2026-02-01', '2026-03-01']);
+  });
+
+  it('dates and orders queued runs by when they were queued', async () => {
+    const queued = createLogRow({
+      status: 'queued',
+      queued_at: '2026-02-20T11:00:00Z',
+      started_at: null,
+      completed_at: null,
+    });
+    mockPoolQuery
+      .mockResolvedValueOnce({ rows: [queued, createLogRow()] })
+      .mockResolvedValueOnce({ rows: [{ count: '2' }] });
+
+    const res = await request('/content-pipeline/logs?from=2026-02-20');
+
+    const [sql] = mockPoolQuery.mock.calls[0];
+    expect(sql).toContain('COALESCE(el.started_at, el.queued_at) >= $2');
+    expect(sql).toContain('ORDER BY COALESCE(el.started_at, el.queued_at) DESC');
+    expect(res.body.logs[0]).toMatchObject({ status: 'queued', queuedAt: '2026-02-20T11:00:00Z', startedAt: null });
+  });
+
+  it('rejects invalid filters', async () => {
+    const bad = await request('/content-pipeline/logs?status=exploded');
+    const badDate = await request('/content-pipeline/logs?from=yesterday');
+
+    expect(bad.status).toBe(400);
+    expect(badDate.status).toBe(400);
+    expect(mockPoolQuery).not.toHaveBeenCalled();
+  });
+
+  it('returns 404 for unknown systems', async () => {
+    mockGetSystem.mockResolvedValue(null);
+
+    const res = await request('/missing/logs');
+
+    expect(res.status).toBe(404);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// GET /api/systems/:slug/logs/:id
+// ---------------------------------------------------------------------------
+
+describe('GET /api/systems/:slug/logs/:id', () => {
+  it('returns the execution scoped to the system', async () => {
+    mockPoolQuery.mockResolvedValueOnce({ rows: [createLogRow()] });
+
+    const res = await request(`/content-pipeline/logs/${EXEC_ID}`);
+
+    expect(res.status).toBe(200);
+    expect(res.body).toMatchObject({ id: EXEC_ID, costUsd: 0.421, durationSeconds: 95 });
+    expect(mockPoolQuery.mock.calls[0][1]).toEqual(['deploy-1', EXEC_ID]);
+  });
+
+  it('returns 404 when the execution is not found', async () => {
+    mockPoolQuery.mockResolvedValueOnce({ rows: [] });
+
+    const res = await request(`/content-pipeline/logs/${EXEC_ID}`);
+
+    expect(res.status).toBe(404);
+  });
+
+  it('returns 400 for a malformed id', async () => {
+    const res = await request('/content-pipeline/logs/not-a-uuid');
+
+    expect(res.status).toBe(400);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// POST /api/systems/:slug/trigger
+// ---------------------------------------------------------------------------
+
+describe('POST /api/systems/:slug/trigger', () => {
+  it('validates inputs and records a manual run', async () => {
+    mockDispatchExecution.mockResolvedValueOnce({ executionId: EXEC_ID, status: 'queued', deduplicated: false });
+
+    const res = await request('/content-pipeline/trigger', {
+      method: 'POST',
+      body: JSON.stringify({ inputs: { topic: 'Edge AI' } }),
+    });
+
+    expect(res.status).toBe(202);
+    expect(res.body).toEqual({ executionId: EXEC_ID, status: 'queued' });
+    expect(mockDispatchExecution).toHaveBeenCalledWith({
+      deployment: expect.objectContaining({ id: 'deploy-1' }),
+      triggeredBy: 'manual',
+      inputs: { topic: 'Edge AI' },
+    });
+  });
+
+  it('returns 422 when required inputs are missing', async () => {
+    const res = await request('/content-pipeline/trigger', {
+      method: 'POST',
+      body: JSON.stringify({ inputs: {} }),
+    });
+
+    expect(res.status).toBe(422);
+    expect(res.body.code).toBe('EXECUTION_MISSING_INPUTS');
+    expect(mockDispatchExecution).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,232 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import express from 'express';
+import type { AddressInfo } from 'net';
+import type { Server } from 'http';
+import type { DeploymentRecord } from '../../types/registry';
+import { createTestManifest } from '../deploy/fixtures';
+
+// ---------------------------------------------------------------------------
+// Mocks — must be declared before importing modules under test
+// ---------------------------------------------------------------------------
+
+const mockPoolQuery = vi.fn();
+vi.mock('../../db', () => ({
+  pool: { query: (...args: unknown[]) => mockPoolQuery(...args) },
+}));
+
+const mockGetSystem = vi.fn();
+vi.mock('../../services/registry', () => ({
+  getSystem: (...args: unknown[]) => mockGetSystem(...args),
+  registerSystem: vi.fn(),
+  listSystems: vi.fn(),
+  updateSystemStatus: vi.fn(),
+  archiveSystem: vi.fn(),
+  SystemNotFoundError: class extends Error {},
+}));
+
+import { systemsRouter } from '../../routes/systems';
+import { metricsRouter } from '../../routes/metrics';
+import { resolveMetricsRange } from '../../services/execution-metrics';
+import { errorHandler, notFoundHandler } from '../../src/middleware/error-handler';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function createDeployment(overrides: Partial<DeploymentRecord> = {}): DeploymentRecord {
+  return {
+    id: 'deploy-1',
+    systemName: 'Content Pipeline',
+    systemSlug: 'content-pipeline',
+    manifestJson: createTestManifest({ slug: 'content-pipeline' }),
+    canvasJson: {},
+    openclawConfig: {},
+    triggerType: 'cron',
+    triggerConfig: {},
+    pm2ProcessName: 'autopilate-content-pipeline',
+    secretsDecrypted: null,
+    status: 'deployed',
+    deployedAt: '2026-02-20T00:00:00Z',
+    createdAt: '2026-02-20T00:00:00Z',
+    updatedAt: '2026-02-20T00:00:00Z',
+    ...overrides,
+  };
+}
+
+function seriesRow(bucketStart: string | null, overrides: Record<string, unknown> = {}) {
+  return {
+    bucket_start: bucketStart,
+    executions: '4',
+    completed: '2',
+    failed: '1',
+    qa_failed: '1',
+    cost_usd: '1.2500',
+    p50_duration_seconds: 60,
+    p95_duration_seconds: 114,
+    ...overrides,
+  };
+}
+
+const RANGE = 'from=2026-10-17T09:30:00Z&to=2026-10-19T12:00:00Z';
+
+let server: Server;
+let baseUrl: string;
+
+async function request(path: string) {
+  const res = await fetch(`${baseUrl}/api${path}`);
+  return { status: res.status, body: await res.json() };
+}
+
+beforeEach(async () => {
+  vi.clearAllMocks();
+  mockGetSystem.mockResolvedValue(createDeployment());
+
+  const app = express();
+  app.use(express.json());
+  app.use('/api/systems', systemsRouter);
+  app.use('/api/metrics', metricsRouter);
+  app.use(notFoundHandler);
+  app.use(errorHandler);
+
+  server = app.listen(0);
+  await new Promise((resolve) => server.once('listening', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterEach(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+// ---------------------------------------------------------------------------
+// Ranges
+// ---------------------------------------------------------------------------
+
+describe('resolveMetricsRange', () => {
+  it('aligns `from` to the start of its UTC bucket', () => {
+    const to = '2026-10-19T12:00:00Z';
+
+    expect(resolveMetricsRange({ bucket: 'hour', from: '2026-10-19T09:45:12Z', to }).from.toISOString())
+      .toBe('2026-10-19T09:00:00.000Z');
+    expect(resolveMetricsRange({ bucket: 'day', from: '2026-10-17T09:45:12Z', to }).from.toISOString())
+      .toBe('2026-10-17T00:00:00.000Z');
+    // 2026-10-15 is a Thursday; weeks start on Monday
+    expect(resolveMetricsRange({ bucket: 'week', from: '2026-10-15T09:45:12Z', to }).from.toISOString())
+      .toBe('2026-10-12T00:00:00.000Z');
+  });
+
+  it('defaults to the last 24 hours, 30 days or 12 weeks', () => {
+    const to = '2026-10-19T12:00:00Z';
+
+    expect(resolveMetricsRange({ bucket: 'hour', to }).from.toISOString()).toBe('2026-10-18T12:00:00.000Z');
+    expect(resolveMetricsRange({ bucket: 'day', to }).from.toISOString()).toBe('2026-09-19T00:00:00.000Z');
+  });
+
+  it('rejects reversed and oversized ranges', () => {
+    expect(() => resolveMetricsRange({ bucket: 'day', from: '2026-10-19T00:00:00Z', to: '2026-10-01T00:00:00Z' }))
+      .toThrow(expect.objectContaining({ code: 'METRICS_RANGE_INVALID', statusCode: 400 }));
+    expect(() => resolveMetricsRange({ bucket: 'hour', from: '2025-01-01T00:00:00Z', to: '2026-01-01T00:00:00Z' }))
+      .toThrow(/more than 500 hour buckets/);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// GET /api/systems/:slug/metrics
+// ---------------------------------------------------------------------------
+
+describe('GET /api/systems/:slug/metrics', () => {
+  it('returns a gap-filled series with totals, rates and QA averages', async () => {
+    mockPoolQuery
+      .mockResolvedValueOnce({
+        rows: [
+          seriesRow('2026-10-18T00:00:00.000Z'),
+          seriesRow(null, { executions: '5', completed: '3', cost_usd: '1.5000' }),
+        ],
+      })
+      .mockResolvedValueOnce({
+        rows: [
+          { bucket_start: '2026-10-18T00:00:00.000Z', dimension: 'Copy Quality', average: '87.333333' },
+          { bucket_start: null, dimension: 'Copy Quality', average: '88.5' },
+        ],
+      });
+
+    const res = await request(`/systems/content-pipeline/metrics?bucket=day&${RANGE}`);
+
+    expect(res.status).toBe(200);
+    expect(res.body).toMatchObject({ bucket: 'day', from: '2026-10-17T00:00:00.000Z', to: '2026-10-19T12:00:00.000Z' });
+    expect(res.body.points.map((p: { bucketStart: string }) => p.bucketStart)).toEqual([
+      '2026-10-17T00:00:00.000Z',
+      '2026-10-18T00:00:00.000Z',
+      '2026-10-19T00:00:00.000Z',
+    ]);
+    expect(res.body.points[0]).toMatchObject({ executions: 0, costUsd: 0, failureRate: null, p50DurationSeconds: null });
+    expect(res.body.points[1]).toEqual({
+      bucketStart: '2026-10-18T00:00:00.000Z',
+      executions: 4,
+      completed: 2,
+      failed: 1,
+      qaFailed: 1,
+      costUsd: 1.25,
+      p50DurationSeconds: 60,
+      p95DurationSeconds: 114,
+      failureRate: 0.25,
+      qaFailedRate: 0.25,
+      qaScores: { 'Copy Quality': 87.33 },
+    });
+    expect(res.body.totals).toMatchObject({ executions: 5, costUsd: 1.5, failureRate: 0.2, qaScores: { 'Copy Quality': 88.5 } });
+
+    const [sql, params] = mockPoolQuery.mock.calls[0];
+    expect(sql).toContain('GROUPING SETS');
+    expect(params).toEqual(['day', '2026-10-17T00:00:00.000Z', '2026-10-19T12:00:00.000Z', 'deploy-1']);
+  });
+
+  it('rejects an unknown bucket and reversed ranges with 400', async () => {
+    const badBucket = await request('/systems/content-pipeline/metrics?bucket=month');
+    const reversed = await request('/systems/content-pipeline/metrics?from=2026-10-19&to=2026-10-01');
+
+    expect(badBucket.status).toBe(400);
+    expect(badBucket.body.code).toBe('VALIDATION_ERROR');
+    expect(reversed.status).toBe(400);
+    expect(reversed.body.code).toBe('METRICS_RANGE_INVALID');
+    expect(mockPoolQuery).not.toHaveBeenCalled();
+  });
+
+  it('returns 404 for unknown systems', async () => {
+    mockGetSystem.mockResolvedValue(null);
+
+    const res = await request('/systems/missing/metrics');
+
+    expect(res.status).toBe(404);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// GET /api/metrics
+// ---------------------------------------------------------------------------
+
+describe('GET /api/metrics', () => {
+  it('covers non-archived systems and ranks them by cost', async () => {
+    mockPoolQuery
+      .mockResolvedValueOnce({ rows: [seriesRow(null)] })
+      .mockResolvedValueOnce({ rows: [] })
+      .mockResolvedValueOnce({
+        rows: [
+          { system_slug: 'content-pipeline', executions: '3', completed: '2', failed: '1', qa_failed: '0', cost_usd: '1.0000' },
+          { system_slug: 'lead-enricher', executions: '1', completed: '0', failed: '0', qa_failed: '0', cost_usd: '0.2500' },
+        ],
+      });
+
+    const res = await request(`/metrics?bucket=hour&from=2026-10-19T09:00:00Z&to=2026-10-19T12:00:00Z`);
+
+    expect(res.status).toBe(200);
+    expect(res.body.points).toHaveLength(3);
+    expect(res.body.totals.executions).toBe(4);
+    expect(res.body.systems).toEqual([
+      { systemSlug: 'content-pipeline', executions: 3, costUsd: 1, failureRate: 0.3333, qaFailedRate: 0 },
+      { systemSlug: 'lead-enricher', executions: 1, costUsd: 0.25, failureRate: null, qaFailedRate: null },
+    ]);
+
+    const [sql, params] = mockPoolQuery.mock.calls[0];
+    expect(sql).toContain(`d.status != 'archived'`);
+    expect(params).toEqual(['hour', '2026-10-19T09:00:00.000Z', '2026-10-19T12:00:00.000Z']);
+  });
+});
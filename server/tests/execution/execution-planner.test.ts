@@ -0,0 +1,267 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+// ---------------------------------------------------------------------------
+// Mocks — must be declared before importing modules under test
+// ---------------------------------------------------------------------------
+
+const mocks = vi.hoisted(() => ({
+  stream: vi.fn(),
+  emitExecutionLog: vi.fn(),
+  emitAgentResult: vi.fn(),
+}));
+
+vi.mock('@anthropic-ai/sdk', () => ({
+  default: class {
+    messages = { stream: mocks.stream };
+  },
+}));
+
+vi.mock('../../socket/emitter', () => ({
+  emitExecutionLog: mocks.emitExecutionLog,
+  emitExecutionStepStart: vi.fn(),
+  emitExecutionStepComplete: vi.fn(),
+  emitAgentResult: mocks.emitAgentResult,
+  emitExecutionReport: vi.fn(),
+}));
+
+vi.mock('../../services/agent-tools', () => ({
+  openAgentToolset: vi.fn().mockResolvedValue({
+    tools: [],
+    call: vi.fn(),
+    close: vi.fn().mockResolvedValue(undefined),
+  }),
+}));
+
+import { buildPlan, emittedEvents, formatPlan } from '../../services/execution-planner';
+import { executeWorkflow } from '../../services/orchestrator-bridge';
+import type { ParsedWorkflow, WorkflowEdge, WorkflowNode } from '../../services/orchestrator-bridge';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function agent(id: string): WorkflowNode {
+  return { id, type: 'customNode', nodeType: 'AGENT', label: id, config: {}, position: { x: 0, y: 0 } };
+}
+
+function edge(source: string, target: string, type: string, event?: string): WorkflowEdge {
+  return { id: `${source}-${target}`, source, target, type, event };
+}
+
+function workflow(ids: string[], edges: WorkflowEdge[]): ParsedWorkflow {
+  const agents = ids.map(agent);
+  return {
+    name: 'Test',
+    description: '',
+    version: '1.0.0',
+    framework: 'vab-native',
+    nodes: agents,
+    edges,
+    agents,
+    departments: [],
+    pools: [],
+    mcpServers: [],
+    skills: [],
+    hooks: [],
+  };
+}
+
+function stageLabels(plan: ReturnType<typeof buildPlan>): string[][] {
+  return plan.phases.map((p) => p.agents.map((a) => a.label));
+}
+
+// ---------------------------------------------------------------------------
+// buildPlan
+// ---------------------------------------------------------------------------
+
+describe('buildPlan', () => {
+  it('keeps a single sequential phase when agents are not connected', () => {
+    const plan = buildPlan(workflow(['a', 'b'], []));
+
+    expect(plan.phases).toEqual([
+      expect.objectContaining({ name: 'Execution', parallel: false }),
+    ]);
+  });
+
+  it('orders agents by delegation and data edges', () => {
+    const plan = buildPlan(workflow(['ceo', 'research', 'writer', 'analyst'], [
+      edge('ceo', 'research', 'delegation'),
+      edge('ceo', 'analyst', 'delegation'),
+      edge('research', 'writer', 'data'),
+    ]));
+
+    expect(stageLabels(plan)).toEqual([['ceo'], ['research', 'analyst'], ['writer']]);
+    expect(plan.phases[0].name).toBe('Intake');
+    expect(plan.phases[1].parallel).toBe(true);
+    expect(plan.dependencies.get('writer')).toEqual([{ agentId: 'research', kind: 'data' }]);
+  });
+
+  it('runs auditors after every other agent', () => {
+    const plan = buildPlan(workflow(['a', 'b', 'qa'], [
+      edge('a', 'b', 'data'),
+      edge('a', 'qa', 'control'),
+    ]));
+
+    expect(stageLabels(plan)).toEqual([['a'], ['b'], ['qa']]);
+    expect(plan.phases[2].name).toBe('Quality Gate');
+  });
+
+  it('keeps failover-only agents on standby', () => {
+    const plan = buildPlan(workflow(['a', 'b', 'backup'], [
+      edge('a', 'b', 'data'),
+      edge('b', 'backup', 'failover'),
+    ]));
+
+    expect(stageLabels(plan)).toEqual([['a'], ['b']]);
+    expect(plan.standby.map((a) => a.id)).toEqual(['backup']);
+    expect(plan.failover.get('b')!.map((a) => a.id)).toEqual(['backup']);
+  });
+
+  it('records event names, defaulting to completed', () => {
+    const plan = buildPlan(workflow(['a', 'b', 'c'], [
+      edge('a', 'b', 'event', 'Approved'),
+      edge('a', 'c', 'event'),
+    ]));
+
+    expect(plan.dependencies.get('b')).toEqual([{ agentId: 'a', kind: 'event', event: 'approved' }]);
+    expect(plan.dependencies.get('c')![0].event).toBe('completed');
+  });
+
+  it('rejects cycles', () => {
+    expect(() =>
+      buildPlan(workflow(['a', 'b'], [edge('a', 'b', 'data'), edge('b', 'a', 'data')]))
+    ).toThrow(/cycle between: a, b/);
+  });
+});
+
+describe('emittedEvents', () => {
+  it('combines lifecycle events with EVENT markers in the output', () => {
+    expect(emittedEvents('success', 'Done.\nEVENT: Approved\n')).toEqual(new Set(['completed', 'approved']));
+    expect(emittedEvents('timeout', '')).toEqual(new Set(['failed', 'timeout']));
+  });
+});
+
+describe('formatPlan', () => {
+  it('shows stages, incoming edges and failover targets', () => {
+    const wf = workflow(['a', 'b', 'backup'], [
+      edge('a', 'b', 'event', 'ready'),
+      edge('a', 'backup', 'failover'),
+    ]);
+
+    const lines = formatPlan(buildPlan(wf), wf);
+
+    expect(lines).toEqual([
+      '  1. Stage 1',
+      '       • a',
+      '         ↳ backup on failure',
+      '  2. Stage 2',
+      '       • b ⚡ a:ready',
+      '     Standby (failover): backup',
+    ]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// executeWorkflow over the DAG
+// ---------------------------------------------------------------------------
+
+describe('executeWorkflow with a DAG plan', () => {
+  const originalKey = process.env.ANTHROPIC_API_KEY;
+
+  /** Each agent answers with a fixed reply; replies starting with ! fail. */
+  function replies(byAgent: Record<string, string>) {
+    mocks.stream.mockImplementation((params: { system: string }) => {
+      const label = /^You are (\w+)\./.exec(params.system)![1];
+      const reply = byAgent[label] ?? `${label} done`;
+      const handlers: Array<(text: string) => void> = [];
+      return {
+        on: (event: string, handler: (text: string) => void) => {
+          if (event === 'text') handlers.push(handler);
+        },
+        finalMessage: async () => {
+          if (reply.startsWith('!')) throw new Error(reply.slice(1));
+          handlers.forEach((h) => h(reply));
+          return {
+            content: [{ type: 'text', text: reply }],
+            stop_reason: 'end_turn',
+            usage: { input_tokens: 10, output_tokens: 5 },
+          };
+        },
+      };
+    });
+  }
+
+  function canvas(ids: string[]) {
+    return ids.map((id) => ({ id, data: { type: 'AGENT', label: id } }));
+  }
+
+  function userMessage(callIndex: number): string {
+    return mocks.stream.mock.calls[callIndex][0].messages[0].content;
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    process.env.ANTHROPIC_API_KEY = 'sk-test';
+  });
+
+  afterEach(() => {
+    process.env.ANTHROPIC_API_KEY = originalKey;
+  });
+
+  it('passes upstream output to data-edge targets', async () => {
+    replies({ research: 'Three key findings' });
+
+    await executeWorkflow('s-1', canvas(['research', 'writer']), [
+      { id: 'e1', source: 'research', target: 'writer', type: 'data' },
+    ], 'Write a report');
+
+    expect(userMessage(1)).toContain('Write a report\n\n## Input from research\nThree key findings');
+  });
+
+  it('re-routes to the failover agent and treats the run as recovered', async () => {
+    replies({ primary: '!overloaded', backup: 'Backup answer' });
+
+    const report = await executeWorkflow('s-1', canvas(['primary', 'backup', 'writer']), [
+      { id: 'e1', source: 'primary', target: 'writer', type: 'data' },
+      { id: 'e2', source: 'primary', target: 'backup', type: 'failover' },
+    ]);
+
+    expect(report.phases[0].results.map((r) => [r.agentLabel, r.status])).toEqual([
+      ['primary', 'error'],
+      ['backup', 'success'],
+    ]);
+    expect(userMessage(2)).toContain('## Input from primary\nBackup answer');
+    expect(report.status).toBe('success');
+
+    const logged = mocks.emitExecutionLog.mock.calls.map((call) => call[1] as string);
+    expect(logged).toContain('  [FAILOVER] primary failed → backup');
+  });
+
+  it('fires event-edge targets only when the event is emitted', async () => {
+    replies({ reviewer: 'Looks good\nEVENT: approved' });
+
+    const report = await executeWorkflow('s-1', canvas(['reviewer', 'publisher', 'fixer']), [
+      { id: 'e1', source: 'reviewer', target: 'publisher', type: 'event', label: 'approved' },
+      { id: 'e2', source: 'reviewer', target: 'fixer', type: 'event', data: { event: 'rejected' } },
+    ]);
+
+    const ran = report.phases.flatMap((p) => p.results.map((r) => r.agentLabel));
+    expect(ran).toEqual(['reviewer', 'publisher']);
+
+    const logged = mocks.emitExecutionLog.mock.calls.map((call) => call[1] as string);
+    expect(logged).toContain('  > Skipping fixer: no reviewer:rejected event');
+  });
+
+  it('visualizes the plan before running any agent', async () => {
+    replies({});
+
+    await executeWorkflow('s-1', canvas(['a', 'b']), [
+      { id: 'e1', source: 'a', target: 'b', type: 'data' },
+    ]);
+
+    const logged = mocks.emitExecutionLog.mock.calls.map((call) => call[1] as string);
+    const planLine = logged.indexOf('       • b ← a (data)');
+    expect(planLine).toBeGreaterThan(-1);
+    expect(planLine).toBeLessThan(logged.indexOf('  > Running: a...'));
+  });
+});
@@ -0,0 +1,170 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { DeploymentRecord } from '../../types/registry';
+import { createTestManifest } from '../deploy/fixtures';
+
+// ---------------------------------------------------------------------------
+// Mocks — must be declared before importing modules under test
+// ---------------------------------------------------------------------------
+
+vi.mock('../../db', async () => ({
+  pool: (await import('../fixtures/run-queue-db')).runQueueDb.pool,
+}));
+
+const mocks = vi.hoisted(() => ({
+  systems: [] as DeploymentRecord[],
+  executeWorkflow: vi.fn(),
+  recordExecutionEvent: vi.fn(),
+  sendTrigger: vi.fn(),
+}));
+
+vi.mock('../../services/registry', () => ({
+  listSystems: async () => mocks.systems,
+  getSystem: async (slug: string) => mocks.systems.find((s) => s.systemSlug === slug) ?? null,
+}));
+
+vi.mock('../../services/orchestrator-bridge', () => ({
+  executeWorkflow: mocks.executeWorkflow,
+}));
+
+vi.mock('../../services/openclaw-client', () => ({
+  sendTrigger: mocks.sendTrigger,
+  recordExecutionEvent: mocks.recordExecutionEvent,
+  onExecutionCompleted: () => () => {},
+  onExecutionFailed: () => () => {},
+}));
+
+import { startCronExecutor, stopCronExecutor } from '../../services/cron-executor';
+import { dispatchExecution } from '../../services/execution-dispatcher';
+import { runQueueDb } from '../fixtures/run-queue-db';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const canvas = {
+  nodes: [{ id: 'agent-1', data: { type: 'AGENT', label: 'Writer' } }],
+  edges: [],
+};
+
+function system(overrides: Partial<DeploymentRecord> = {}): DeploymentRecord {
+  return {
+    id: 'deploy-1',
+    systemName: 'Daily Report',
+    systemSlug: 'daily-report',
+    manifestJson: createTestManifest({ slug: 'daily-report' }),
+    canvasJson: canvas,
+    openclawConfig: {},
+    triggerType: 'cron',
+    triggerConfig: { type: 'cron', expression: '0 * * * *', timezone: 'UTC', enabled: true, catchUp: 'skip' },
+    pm2ProcessName: 'autopilate-daily-report',
+    secretsDecrypted: null,
+    status: 'deployed',
+    deployedAt: '2026-10-01T00:00:00Z',
+    createdAt: '2026-10-01T00:00:00Z',
+    updatedAt: '2026-10-01T00:00:00Z',
+    ...overrides,
+  };
+}
+
+function events(): Array<Record<string, unknown>> {
+  return mocks.recordExecutionEvent.mock.calls.map(([event]) => event);
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  runQueueDb.reset();
+  runQueueDb.addDeployment('deploy-1', 'daily-report');
+  mocks.systems = [system()];
+  mocks.executeWorkflow.mockResolvedValue({
+    status: 'success',
+    phases: [{ name: 'Phase 1', results: [], durationMs: 1000 }],
+    totalDurationMs: 42_000,
+    totalCost: 0.12,
+    completedAt: '2026-10-19T11:00:42.000Z',
+  });
+  mocks.recordExecutionEvent.mockResolvedValue(undefined);
+});
+
+afterEach(() => {
+  stopCronExecutor();
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+// ---------------------------------------------------------------------------
+// Standalone runs
+// ---------------------------------------------------------------------------
+
+describe('local runner', () => {
+  it('runs cron fires in-process when no gateway is configured', async () => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout', 'setInterval', 'clearInterval', 'Date'] });
+    vi.setSystemTime(new Date('2026-10-19T10:59:00Z'));
+
+    await startCronExecutor();
+    await vi.advanceTimersByTimeAsync(60_000);
+    await vi.waitFor(() => expect(events()).toHaveLength(2));
+
+    const [executionId] = runQueueDb.ids('running');
+    expect(mocks.sendTrigger).not.toHaveBeenCalled();
+    expect(mocks.executeWorkflow).toHaveBeenCalledWith(
+      `run:${executionId}`,
+      canvas.nodes,
+      canvas.edges,
+      undefined,
+      'Daily Report'
+    );
+    expect(events()).toEqual([
+      expect.objectContaining({ type: 'execution:started', executionId, slug: 'daily-report', triggeredBy: 'cron' }),
+      expect.objectContaining({
+        type: 'execution:completed',
+        executionId,
+        phasesCompleted: 1,
+        durationSeconds: 42,
+        costUsd: 0.12,
+      }),
+    ]);
+  });
+
+  it('passes trigger inputs as the brief and reports unsuccessful runs as failed', async () => {
+    mocks.executeWorkflow.mockResolvedValue({ status: 'partial', phases: [], totalDurationMs: 0, totalCost: 0 });
+
+    const { executionId } = await dispatchExecution({
+      deployment: mocks.systems[0],
+      triggeredBy: 'manual',
+      inputs: { topic: 'AI' },
+    });
+    await vi.waitFor(() => expect(events()).toHaveLength(2));
+
+    expect(mocks.executeWorkflow.mock.calls[0][3]).toContain('"topic": "AI"');
+    expect(events()[1]).toMatchObject({
+      type: 'execution:failed',
+      executionId,
+      error: 'Run ended with status partial',
+    });
+  });
+
+  it('fails a run whose system has no canvas', async () => {
+    mocks.systems = [system({ canvasJson: {} })];
+
+    const { executionId } = await dispatchExecution({ deployment: mocks.systems[0], triggeredBy: 'manual', inputs: {} });
+    await vi.waitFor(() => expect(events()).toHaveLength(1));
+
+    expect(mocks.executeWorkflow).not.toHaveBeenCalled();
+    expect(events()[0]).toMatchObject({ type: 'execution:failed', executionId, error: 'System daily-report has no canvas to run' });
+  });
+
+  it('leaves runs to the gateway when one is configured', async () => {
+    process.env.OPENCLAW_GATEWAY_URL = 'ws://localhost:18789';
+    mocks.sendTrigger.mockResolvedValue(undefined);
+
+    try {
+      await dispatchExecution({ deployment: mocks.systems[0], triggeredBy: 'manual', inputs: {} });
+    } finally {
+      delete process.env.OPENCLAW_GATEWAY_URL;
+    }
+
+    expect(mocks.sendTrigger).toHaveBeenCalledTimes(1);
+    expect(mocks.executeWorkflow).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,300 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { StandInGateway } from '../fixtures/openclaw-gateway';
+
+// ---------------------------------------------------------------------------
+// Mocks — set up before importing the module under test
+// ---------------------------------------------------------------------------
+
+const mockPublish = vi.hoisted(() => vi.fn());
+vi.mock('ioredis', () => ({
+  default: class {
+    connect = vi.fn().mockResolvedValue(undefined);
+    publish = mockPublish.mockResolvedValue(1);
+    quit = vi.fn().mockResolvedValue('OK');
+  },
+}));
+
+interface ExecutionRow {
+  id: string;
+  slug: string;
+  status: string;
+  error_message?: string | null;
+  phases_total?: number | null;
+  started_at?: string | null;
+}
+
+/** In-memory deployments + execution_logs behind pool.query */
+const db = {
+  deployments: [] as Array<{ system_slug: string; status: string }>,
+  executions: [] as ExecutionRow[],
+};
+
+const mockPoolQuery = vi.fn(async (sql: string, params: unknown[] = []) => {
+  if (sql.includes('SELECT system_slug FROM deployments')) {
+    return { rows: db.deployments.filter((d) => d.status !== 'archived') };
+  }
+  if (sql.includes('SELECT id FROM deployments')) {
+    return { rows: [{ id: `deploy-${params[0]}` }] };
+  }
+  if (sql.includes('INSERT INTO execution_logs')) {
+    const [id, , , status, phasesTotal, startedAt] = params as [string, string, string, string, number, string];
+    const existing = db.executions.find((e) => e.id === id);
+    if (existing && !sql.includes('ON CONFLICT (id) DO UPDATE')) {
+      throw Object.assign(new Error('duplicate key value violates unique constraint'), { code: '23505' });
+    }
+    if (existing) {
+      Object.assign(existing, { status, phases_total: phasesTotal, started_at: existing.started_at ?? startedAt });
+    } else {
+      db.executions.push({ id, slug: '', status, phases_total: phasesTotal, started_at: startedAt });
+    }
+    return { rows: [] };
+  }
+  if (sql.includes("WHERE el.status = 'running'")) {
+    return { rows: db.executions.filter((e) => e.status === 'running').map(({ id }) => ({ id })) };
+  }
+  if (sql.includes('el.id = ANY')) {
+    const ids = params[1] as string[];
+    const lost = db.executions.filter((e) => ids.includes(e.id) && e.status === 'running');
+    lost.forEach((e) => Object.assign(e, { status: 'failed', error_message: params[0] }));
+    return {
+      rows: lost.map((e) => ({
+        id: e.id,
+        system_slug: e.slug,
+        phases_completed: 1,
+        phases_total: 3,
+        started_at: '2026-10-19T10:00:00Z',
+        completed_at: '2026-10-19T10:01:30Z',
+      })),
+    };
+  }
+  if (sql.includes('UPDATE execution_logs SET')) {
+    const id = params[params.length - 1];
+    const row = db.executions.find((e) => e.id === id);
+    if (row) row.status = params[0] as string;
+    return { rows: [] };
+  }
+  return { rows: [] };
+});
+vi.mock('../../db', () => ({
+  pool: { query: (sql: string, params?: unknown[]) => mockPoolQuery(sql, params) },
+}));
+
+import {
+  startGatewayClient,
+  disconnectFromGateway,
+  getGatewayStatus,
+  subscribeToSystem,
+  unsubscribeFromSystem,
+  onExecutionCompleted,
+  onExecutionFailed,
+  sendTrigger,
+} from '../../services/openclaw-client';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+async function until(check: () => boolean, timeoutMs = 5_000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!check()) {
+    if (Date.now() > deadline) throw new Error('Condition not met in time');
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+}
+
+let gateway: StandInGateway;
+
+beforeEach(async () => {
+  vi.clearAllMocks();
+  db.deployments = [
+    { system_slug: 'content-factory', status: 'deployed' },
+    { system_slug: 'web-design-studio', status: 'stopped' },
+    { system_slug: 'old-system', status: 'archived' },
+  ];
+  db.executions = [];
+  gateway = await StandInGateway.start();
+  process.env.OPENCLAW_GATEWAY_URL = gateway.url;
+});
+
+afterEach(async () => {
+  await disconnectFromGateway();
+  await gateway.close();
+  delete process.env.OPENCLAW_GATEWAY_URL;
+});
+
+// ---------------------------------------------------------------------------
+// Startup + subscriptions
+// ---------------------------------------------------------------------------
+
+describe('startGatewayClient', () => {
+  it('connects at startup and subscribes every non-archived deployment', async () => {
+    await startGatewayClient();
+    await until(() => gateway.subscriptions.size === 2);
+
+    expect([...gateway.subscriptions].sort()).toEqual(['content-factory', 'web-design-studio']);
+    expect(getGatewayStatus()).toMatchObject({
+      configured: true,
+      connected: true,
+      url: gateway.url,
+      subscriptions: 2,
+      lastError: null,
+    });
+  });
+
+  it('stays disabled without OPENCLAW_GATEWAY_URL', async () => {
+    delete process.env.OPENCLAW_GATEWAY_URL;
+
+    await startGatewayClient();
+
+    expect(gateway.connections).toBe(0);
+    expect(getGatewayStatus()).toMatchObject({ configured: false, connected: false });
+  });
+
+  it('follows deploys and archives while connected', async () => {
+    await startGatewayClient();
+
+    subscribeToSystem('new-system');
+    unsubscribeFromSystem('content-factory');
+    await gateway.waitFor((m) => m.type === 'unsubscribe');
+
+    expect(gateway.subscriptions.has('new-system')).toBe(true);
+    expect(gateway.subscriptions.has('content-factory')).toBe(false);
+    expect(getGatewayStatus().subscriptions).toBe(2);
+  });
+
+  it('persists execution events from the gateway', async () => {
+    db.executions = [{ id: 'exec-1', slug: 'content-factory', status: 'running' }];
+    gateway.executions.set('exec-1', { status: 'running' });
+    const completed = vi.fn();
+    const unsubscribe = onExecutionCompleted(completed);
+    await startGatewayClient();
+
+    gateway.send({
+      type: 'execution:completed',
+      slug: 'content-factory',
+      executionId: 'exec-1',
+      phasesCompleted: 3,
+      phasesTotal: 3,
+      durationSeconds: 42,
+      costUsd: 0.12,
+      completedAt: '2026-10-19T10:00:42Z',
+    });
+    await until(() => completed.mock.calls.length === 1);
+    unsubscribe();
+
+    expect(db.executions[0].status).toBe('completed');
+  });
+
+  it('updates the row of a dispatched run on execution:started', async () => {
+    db.executions = [
+      { id: 'exec-1', slug: 'content-factory', status: 'running', phases_total: null, started_at: '2026-10-19T09:59:58Z' },
+    ];
+    gateway.executions.set('exec-1', { status: 'running' });
+    await startGatewayClient();
+
+    gateway.send({
+      type: 'execution:started',
+      slug: 'content-factory',
+      executionId: 'exec-1',
+      triggeredBy: 'webhook',
+      startedAt: '2026-10-19T10:00:00Z',
+      phasesTotal: 4,
+    });
+    await until(() => mockPublish.mock.calls.length === 1);
+
+    expect(db.executions).toEqual([
+      { id: 'exec-1', slug: 'content-factory', status: 'running', phases_total: 4, started_at: '2026-10-19T09:59:58Z' },
+    ]);
+    expect(mockPublish).toHaveBeenCalledWith(
+      'openclaw:logs:content-factory',
+      expect.stringContaining('"event":"execution:started"')
+    );
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Triggers
+// ---------------------------------------------------------------------------
+
+describe('sendTrigger', () => {
+  const trigger = {
+    executionId: 'exec-1',
+    slug: 'content-factory',
+    triggeredBy: 'webhook',
+    inputs: { topic: 'AI' },
+    triggeredAt: '2026-10-19T10:00:00Z',
+  };
+
+  it('sends the run to the gateway over the connection', async () => {
+    await startGatewayClient();
+
+    await sendTrigger(trigger);
+
+    expect(await gateway.waitFor((m) => m.type === 'trigger')).toEqual({ type: 'trigger', ...trigger });
+    expect(gateway.executions.get('exec-1')).toEqual({ status: 'running' });
+  });
+
+  it('rejects when the gateway is not connected', async () => {
+    await expect(sendTrigger(trigger)).rejects.toMatchObject({ code: 'OPENCLAW_not_connected' });
+    expect(gateway.received).toEqual([]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Reconnect + reconciliation
+// ---------------------------------------------------------------------------
+
+describe('reconnect', () => {
+  it('reconnects after an outage and reconciles executions stuck in running', async () => {
+    await startGatewayClient();
+    await until(() => gateway.subscriptions.size === 2);
+
+    // Runs that started before the outage; their events are lost with it
+    db.executions = [
+      { id: 'exec-done', slug: 'content-factory', status: 'running' },
+      { id: 'exec-live', slug: 'content-factory', status: 'running' },
+      { id: 'exec-lost', slug: 'web-design-studio', status: 'running' },
+    ];
+    gateway.executions.set('exec-live', { status: 'running' });
+    gateway.executions.set('exec-done', {
+      status: 'completed',
+      event: {
+        type: 'execution:completed',
+        slug: 'content-factory',
+        executionId: 'exec-done',
+        phasesCompleted: 3,
+        phasesTotal: 3,
+        durationSeconds: 60,
+        costUsd: 0.2,
+        completedAt: '2026-10-19T10:01:00Z',
+      },
+    });
+    const failed = vi.fn();
+    const unsubscribe = onExecutionFailed(failed);
+
+    gateway.dropConnections();
+    await until(() => !getGatewayStatus().connected);
+    gateway.subscriptions.clear();
+
+    await gateway.waitFor((m) => m.type === 'reconcile');
+    await until(() => failed.mock.calls.length === 1);
+    unsubscribe();
+
+    expect(gateway.connections).toBe(2);
+    expect(gateway.subscriptions.size).toBe(2);
+    expect(gateway.received.find((m) => m.type === 'reconcile')).toEqual({
+      type: 'reconcile',
+      executionIds: ['exec-done', 'exec-live', 'exec-lost'],
+    });
+    expect(db.executions.map((e) => [e.id, e.status])).toEqual([
+      ['exec-done', 'completed'],
+      ['exec-live', 'running'],
+      ['exec-lost', 'failed'],
+    ]);
+    expect(db.executions[2].error_message).toBe('Execution lost by the OpenClaw gateway');
+    expect(failed).toHaveBeenCalledWith(
+      expect.objectContaining({ executionId: 'exec-lost', slug: 'web-design-studio', durationSeconds: 90 })
+    );
+    expect(getGatewayStatus()).toMatchObject({ connected: true, reconnectAttempts: 0 });
+  });
+});
@@ -0,0 +1,413 @@
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import http from 'http';
+import type { AddressInfo } from 'net';
+
+// ---------------------------------------------------------------------------
+// Mocks — must be declared before importing modules under test
+// ---------------------------------------------------------------------------
+
+const mocks = vi.hoisted(() => ({
+  emitExecutionLog: vi.fn(),
+  emitAgentResult: vi.fn(),
+}));
+
+vi.mock('../../socket/emitter', () => ({
+  emitExecutionLog: mocks.emitExecutionLog,
+  emitExecutionStepStart: vi.fn(),
+  emitExecutionStepComplete: vi.fn(),
+  emitAgentResult: mocks.emitAgentResult,
+  emitExecutionReport: vi.fn(),
+}));
+
+vi.mock('../../services/agent-tools', () => ({
+  openAgentToolset: vi.fn().mockResolvedValue({
+    tools: [],
+    call: vi.fn(),
+    close: vi.fn().mockResolvedValue(undefined),
+  }),
+}));
+
+import {
+  calculateCost,
+  generateWithFailover,
+  lookupPrice,
+  resetPriceTable,
+  resolveModelTargets,
+} from '../../services/providers';
+import { toChatMessages } from '../../services/providers/openai-compatible';
+import { executeWorkflow } from '../../services/orchestrator-bridge';
+import { openAgentToolset } from '../../services/agent-tools';
+import { ProviderError } from '../../lib/errors';
+
+// ---------------------------------------------------------------------------
+// Stand-in OpenAI-compatible server
+// Behaviour is chosen by model name: `rate-limited` → 429, `broken` → 503,
+// `invalid` → 400, `slow` → never answers, `tool-caller` → asks for a tool.
+// ---------------------------------------------------------------------------
+
+interface RecordedRequest {
+  path: string;
+  headers: http.IncomingHttpHeaders;
+  body: { model: string; messages: unknown[]; tools?: unknown[] };
+}
+
+const requests: RecordedRequest[] = [];
+let server: http.Server;
+let baseUrl: string;
+
+function reply(res: http.ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+beforeAll(async () => {
+  server = http.createServer((req, res) => {
+    let raw = '';
+    req.on('data', (chunk) => (raw += chunk));
+    req.on('end', () => {
+      const body = JSON.parse(raw);
+      requests.push({ path: req.url ?? '', headers: req.headers, body });
+
+      switch (body.model) {
+        case 'rate-limited':
+          return reply(res, 429, { error: { message: 'Rate limit reached' } });
+        case 'broken':
+          return reply(res, 503, { error: { message: 'Service unavailable' } });
+        case 'invalid':
+          return reply(res, 400, { error: { message: 'Unknown parameter' } });
+        case 'slow':
+          return; // never respond
+        case 'tool-caller':
+          return reply(res, 200, {
+            choices: [{
+              message: {
+                content: null,
+                tool_calls: [{
+                  id: 'call_1',
+                  type: 'function',
+                  function: { name: 'lookup', arguments: '{"q":"weather"}' },
+                }],
+              },
+              finish_reason: 'tool_calls',
+            }],
+            usage: { prompt_tokens: 12, completion_tokens: 3 },
+          });
+        default:
+          return reply(res, 200, {
+            choices: [{ message: { content: `answer from ${body.model}` }, finish_reason: 'stop' }],
+            usage: { prompt_tokens: 1_000_000, completion_tokens: 1_000_000 },
+          });
+      }
+    });
+  });
+  server.listen(0);
+  await new Promise((resolve) => server.once('listening', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+});
+
+afterAll(async () => {
+  server.closeAllConnections();
+  await new Promise((resolve) => server.close(resolve));
+});
+
+const ENV_KEYS = ['OPENAI_API_KEY', 'OPENAI_BASE_URL', 'OPENROUTER_API_KEY', 'OPENROUTER_BASE_URL', 'ANTHROPIC_API_KEY', 'MODEL_PRICES_FILE'];
+const savedEnv: Record<string, string | undefined> = {};
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  requests.length = 0;
+  for (const key of ENV_KEYS) {
+    savedEnv[key] = process.env[key];
+    delete process.env[key];
+  }
+  process.env.OPENAI_API_KEY = 'sk-openai';
+  process.env.OPENAI_BASE_URL = baseUrl;
+  resetPriceTable();
+});
+
+afterEach(() => {
+  for (const key of ENV_KEYS) {
+    if (savedEnv[key] === undefined) delete process.env[key];
+    else process.env[key] = savedEnv[key];
+  }
+  resetPriceTable();
+});
+
+const baseRequest = { system: 'You are a tester.', messages: [{ role: 'user' as const, content: 'hi' }], maxTokens: 256, temperature: 0 };
+
+// ---------------------------------------------------------------------------
+// OpenAI-compatible adapter
+// ---------------------------------------------------------------------------
+
+describe('OpenAI-compatible adapter', () => {
+  it('sends a chat completion with bearer auth and function tools', async () => {
+    const { response } = await generateWithFailover([{ provider: 'openai', model: 'gpt-4o' }], {
+      ...baseRequest,
+      tools: [{ name: 'lookup', description: 'Look up', input_schema: { type: 'object' } }],
+    });
+
+    expect(response.content).toEqual([{ type: 'text', text: 'answer from gpt-4o' }]);
+    expect(requests[0].path).toBe('/v1/chat/completions');
+    expect(requests[0].headers.authorization).toBe('Bearer sk-openai');
+    expect(requests[0].body.tools).toEqual([
+      { type: 'function', function: { name: 'lookup', description: 'Look up', parameters: { type: 'object' } } },
+    ]);
+  });
+
+  it('turns tool calls into tool_use blocks', async () => {
+    const { response } = await generateWithFailover([{ provider: 'openai', model: 'tool-caller' }], baseRequest);
+
+    expect(response.stopReason).toBe('tool_use');
+    expect(response.content).toEqual([
+      { type: 'tool_use', id: 'call_1', name: 'lookup', input: { q: 'weather' } },
+    ]);
+    expect(response.usage).toEqual({ input: 12, output: 3 });
+  });
+
+  it('translates tool turns into assistant tool_calls and tool messages', () => {
+    const chat = toChatMessages('sys', [
+      { role: 'user', content: 'go' },
+      {
+        role: 'assistant',
+        content: [
+          { type: 'text', text: 'Checking.' },
+          { type: 'tool_use', id: 'call_1', name: 'lookup', input: { q: 'x' } },
+        ],
+      },
+      { role: 'user', content: [{ type: 'tool_result', tool_use_id: 'call_1', content: 'sunny' }] },
+    ]);
+
+    expect(chat).toEqual([
+      { role: 'system', content: 'sys' },
+      { role: 'user', content: 'go' },
+      {
+        role: 'assistant',
+        content: 'Checking.',
+        tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'lookup', arguments: '{"q":"x"}' } }],
+      },
+      { role: 'tool', tool_call_id: 'call_1', content: 'sunny' },
+    ]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Failover
+// ---------------------------------------------------------------------------
+
+describe('generateWithFailover', () => {
+  it.each(['rate-limited', 'broken'])('moves to the next target after a %s response', async (model) => {
+    const onFailover = vi.fn();
+
+    const result = await generateWithFailover(
+      [{ provider: 'openai', model }, { provider: 'openai', model: 'gpt-4o-mini' }],
+      baseRequest,
+      { onFailover }
+    );
+
+    expect(result.index).toBe(1);
+    expect(result.target.model).toBe('gpt-4o-mini');
+    expect(onFailover.mock.calls[0][2]).toBeInstanceOf(ProviderError);
+  });
+
+  it('treats a slow target as a timeout', async () => {
+    const result = await generateWithFailover(
+      [{ provider: 'openai', model: 'slow' }, { provider: 'openai', model: 'gpt-4o' }],
+      baseRequest,
+      { attemptTimeoutMs: 100 }
+    );
+
+    expect(result.target.model).toBe('gpt-4o');
+  });
+
+  it('moves to the next target when the first cannot be reached', async () => {
+    process.env.OPENROUTER_API_KEY = 'sk-openrouter';
+    process.env.OPENROUTER_BASE_URL = 'http://127.0.0.1:1/v1';
+    const onFailover = vi.fn();
+
+    const result = await generateWithFailover(
+      [{ provider: 'openrouter', model: 'openai/gpt-4o' }, { provider: 'openai', model: 'gpt-4o' }],
+      baseRequest,
+      { onFailover }
+    );
+
+    expect(result.index).toBe(1);
+    expect(onFailover.mock.calls[0][2]).toMatchObject({ code: 'PROVIDER_REQUEST_FAILED', retryable: true });
+  });
+
+  it('skips providers without credentials', async () => {
+    process.env.OPENROUTER_BASE_URL = baseUrl;
+
+    const result = await generateWithFailover(
+      [{ provider: 'openrouter', model: 'openai/gpt-4o' }, { provider: 'openai', model: 'gpt-4o' }],
+      baseRequest
+    );
+
+    expect(result.index).toBe(1);
+    expect(requests).toHaveLength(1);
+  });
+
+  it('does not fail over on client errors', async () => {
+    await expect(
+      generateWithFailover(
+        [{ provider: 'openai', model: 'invalid' }, { provider: 'openai', model: 'gpt-4o' }],
+        baseRequest
+      )
+    ).rejects.toMatchObject({ code: 'PROVIDER_REQUEST_FAILED', upstreamStatus: 400 });
+    expect(requests).toHaveLength(1);
+  });
+
+  it('throws the last error when the chain is exhausted', async () => {
+    await expect(
+      generateWithFailover([{ provider: 'openai', model: 'broken' }], baseRequest)
+    ).rejects.toMatchObject({ retryable: true, upstreamStatus: 503 });
+  });
+});
+
+describe('resolveModelTargets', () => {
+  it('reads provider:model entries, bare models and peer agents', () => {
+    const targets = resolveModelTargets(
+      { provider: 'openai', model: 'gpt-4o', failoverChain: ['gpt-4o-mini', 'anthropic:claude-haiku-4-5', 'Backup Agent'] },
+      [{ label: 'Backup Agent', config: { provider: 'ollama', model: 'llama3.2' } }]
+    );
+
+    expect(targets).toEqual([
+      { provider: 'openai', model: 'gpt-4o' },
+      { provider: 'openai', model: 'gpt-4o-mini' },
+      { provider: 'anthropic', model: 'claude-haiku-4-5' },
+      { provider: 'ollama', model: 'llama3.2' },
+    ]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Pricing
+// ---------------------------------------------------------------------------
+
+describe('price table', () => {
+  it('matches dated and vendor-prefixed model ids', () => {
+    expect(lookupPrice({ provider: 'anthropic', model: 'claude-sonnet-4-5-20250929' })).toEqual({ input: 3, output: 15 });
+    expect(lookupPrice({ provider: 'openrouter', model: 'openai/gpt-4o-mini' })).toEqual({ input: 0.15, output: 0.6 });
+    expect(lookupPrice({ provider: 'ollama', model: 'llama3.2' })).toEqual({ input: 0, output: 0 });
+    expect(lookupPrice({ provider: 'openai', model: 'mystery-model' })).toBeNull();
+  });
+
+  it('applies overrides from MODEL_PRICES_FILE', () => {
+    const file = path.join(os.tmpdir(), `model-prices-${process.pid}.json`);
+    fs.writeFileSync(file, JSON.stringify({ 'gpt-4o': { input: 1, output: 2 }, 'in-house': { input: 4, output: 4 } }));
+    process.env.MODEL_PRICES_FILE = file;
+
+    try {
+      expect(calculateCost({ provider: 'openai', model: 'gpt-4o' }, { input: 1_000_000, output: 1_000_000 })).toBe(3);
+      expect(lookupPrice({ provider: 'openai', model: 'in-house' })).toEqual({ input: 4, output: 4 });
+    } finally {
+      fs.unlinkSync(file);
+    }
+  });
+});
+
+// ---------------------------------------------------------------------------
+// runAgent against a non-Anthropic provider
+// ---------------------------------------------------------------------------
+
+describe('executeWorkflow with provider failover', () => {
+  it('runs the agent on its provider, fails over and prices the serving model', async () => {
+    const report = await executeWorkflow('s-1', [
+      {
+        id: 'agent-1',
+        data: {
+          type: 'AGENT',
+          label: 'Researcher',
+          provider: 'openai',
+          model: 'rate-limited',
+          failoverChain: ['gpt-4o-mini'],
+        },
+      },
+    ], []);
+
+    const result = report.phases[0].results[0];
+    expect(result.status).toBe('success');
+    expect(result.output).toBe('answer from gpt-4o-mini');
+    // 1M input + 1M output tokens at gpt-4o-mini prices
+    expect(result.cost).toBeCloseTo(0.75);
+    expect(requests.map((r) => r.body.model)).toEqual(['rate-limited', 'gpt-4o-mini']);
+
+    const logged = mocks.emitExecutionLog.mock.calls.map((call) => call[1] as string);
+    expect(logged.some((line) => line.includes('Failing over') && line.includes('to=openai:gpt-4o-mini'))).toBe(true);
+  });
+
+  it('retries a failed call with backoff and reports every attempt', async () => {
+    const report = await executeWorkflow('s-1', [
+      {
+        id: 'agent-1',
+        data: {
+          type: 'AGENT',
+          label: 'Researcher',
+          provider: 'openai',
+          model: 'rate-limited',
+          execution: { retryPolicy: { maxRetries: 2, backoffMs: 10 } },
+        },
+      },
+    ], []);
+
+    const result = report.phases[0].results[0];
+    expect(result.status).toBe('error');
+    expect(requests).toHaveLength(3);
+    expect(result.attempts!.map((a) => [a.attempt, a.reason, a.delayMs !== undefined])).toEqual([
+      [1, 'rate_limited', true],
+      [2, 'rate_limited', true],
+      [3, 'rate_limited', false],
+    ]);
+    expect(mocks.emitAgentResult).toHaveBeenCalledWith(
+      expect.objectContaining({ attempts: result.attempts })
+    );
+
+    const logged = mocks.emitExecutionLog.mock.calls.map((call) => call[1] as string);
+    expect(logged.filter((line) => line.startsWith('  [RETRY] Researcher: rate_limited — attempt'))).toHaveLength(2);
+  });
+
+  it('does not retry a rejected request', async () => {
+    const report = await executeWorkflow('s-1', [
+      { id: 'agent-1', data: { type: 'AGENT', label: 'Researcher', provider: 'openai', model: 'invalid' } },
+    ], []);
+
+    expect(requests).toHaveLength(1);
+    expect(report.phases[0].results[0].attempts).toEqual([
+      expect.objectContaining({ attempt: 1, reason: null }),
+    ]);
+  });
+
+  it('releases the agent timeout when its tools fail to start', async () => {
+    vi.mocked(openAgentToolset).mockRejectedValueOnce(new Error('spawn npx ENOENT'));
+    const setTimer = vi.spyOn(global, 'setTimeout');
+    const clearTimer = vi.spyOn(global, 'clearTimeout');
+
+    const report = await executeWorkflow('s-1', [
+      {
+        id: 'agent-1',
+        data: { type: 'AGENT', label: 'Researcher', provider: 'openai', model: 'gpt-4o', guardrails: { timeoutSeconds: 77 } },
+      },
+    ], []);
+
+    const armed = setTimer.mock.calls.findIndex(([, ms]) => ms === 77_000);
+    expect(clearTimer).toHaveBeenCalledWith(setTimer.mock.results[armed].value);
+    expect(report.phases[0].results[0]).toMatchObject({ status: 'error', output: expect.stringContaining('spawn npx ENOENT') });
+    setTimer.mockRestore();
+    clearTimer.mockRestore();
+  });
+
+  it('refuses to start when no provider in an agent chain is configured', async () => {
+    delete process.env.OPENAI_API_KEY;
+
+    await expect(
+      executeWorkflow('s-1', [
+        { id: 'agent-1', data: { type: 'AGENT', label: 'Researcher', provider: 'openai', model: 'gpt-4o' } },
+      ], [])
+    ).rejects.toThrow('Model provider not configured');
+
+    const logged = mocks.emitExecutionLog.mock.calls.map((call) => call[1] as string);
+    expect(logged).toContain('  • openai: OPENAI_API_KEY is not set');
+  });
+});
@@ -0,0 +1,281 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import express from 'express';
+import type { AddressInfo } from 'net';
+import type { Server } from 'http';
+import type { DeploymentRecord, ExecutionTriggeredBy } from '../../types/registry';
+import { createTestManifest } from '../deploy/fixtures';
+
+// ---------------------------------------------------------------------------
+// Mocks — must be declared before importing modules under test
+// ---------------------------------------------------------------------------
+
+vi.mock('../../db', async () => ({
+  pool: (await import('../fixtures/run-queue-db')).runQueueDb.pool,
+}));
+
+const mockGetSystem = vi.fn();
+vi.mock('../../services/registry', () => ({
+  getSystem: (...args: unknown[]) => mockGetSystem(...args),
+  registerSystem: vi.fn(),
+  listSystems: vi.fn(),
+  updateSystemStatus: vi.fn(),
+  archiveSystem: vi.fn(),
+  SystemNotFoundError: class extends Error {},
+}));
+
+const mockSendTrigger = vi.fn();
+
+const completedListeners = vi.hoisted(() => [] as Array<() => void>);
+vi.mock('../../services/openclaw-client', () => ({
+  sendTrigger: (...args: unknown[]) => mockSendTrigger(...args),
+  onExecutionCompleted: (listener: () => void) => {
+    completedListeners.push(listener);
+    return () => completedListeners.splice(completedListeners.indexOf(listener), 1);
+  },
+  onExecutionFailed: () => () => {},
+}));
+
+import { systemsRouter } from '../../routes/systems';
+import {
+  dispatchExecution,
+  startRunQueue,
+  stopRunQueue,
+  sweepRunQueues,
+} from '../../services/execution-dispatcher';
+import { errorHandler, notFoundHandler } from '../../src/middleware/error-handler';
+import { runQueueDb } from '../fixtures/run-queue-db';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function createDeployment(overrides: Partial<DeploymentRecord> = {}): DeploymentRecord {
+  return {
+    id: 'deploy-1',
+    systemName: 'Content Pipeline',
+    systemSlug: 'content-pipeline',
+    manifestJson: createTestManifest({ slug: 'content-pipeline' }),
+    canvasJson: {},
+    openclawConfig: {},
+    triggerType: 'webhook',
+    triggerConfig: {},
+    pm2ProcessName: 'autopilate-content-pipeline',
+    secretsDecrypted: null,
+    status: 'deployed',
+    deployedAt: '2026-02-20T00:00:00Z',
+    createdAt: '2026-02-20T00:00:00Z',
+    updatedAt: '2026-02-20T00:00:00Z',
+    ...overrides,
+  };
+}
+
+function dispatch(triggeredBy: ExecutionTriggeredBy, dedupeKey?: string) {
+  return dispatchExecution({ deployment: createDeployment(), triggeredBy, inputs: {}, dedupeKey });
+}
+
+function triggered(): string[] {
+  return mockSendTrigger.mock.calls.map(([trigger]) => trigger.triggeredBy);
+}
+
+let server: Server;
+let baseUrl: string;
+
+async function request(path: string, init?: RequestInit) {
+  const res = await fetch(`${baseUrl}/api/systems${path}`, {
+    headers: { 'Content-Type': 'application/json' },
+    ...init,
+  });
+  return { status: res.status, body: res.status === 204 ? null : await res.json() };
+}
+
+beforeEach(async () => {
+  vi.clearAllMocks();
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  runQueueDb.reset();
+  runQueueDb.addDeployment('deploy-1', 'content-pipeline');
+  process.env.OPENCLAW_GATEWAY_URL = 'ws://localhost:18789';
+  mockGetSystem.mockResolvedValue(createDeployment());
+  mockSendTrigger.mockResolvedValue(undefined);
+
+  const app = express();
+  app.use(express.json());
+  app.use('/api/systems', systemsRouter);
+  app.use(notFoundHandler);
+  app.use(errorHandler);
+
+  server = app.listen(0);
+  await new Promise((resolve) => server.once('listening', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterEach(async () => {
+  stopRunQueue();
+  vi.restoreAllMocks();
+  delete process.env.RUN_QUEUE_MAX_CONCURRENCY;
+  delete process.env.RUN_QUEUE_STALE_MS;
+  delete process.env.OPENCLAW_GATEWAY_URL;
+  await new Promise((resolve) => server.close(resolve));
+});
+
+// ---------------------------------------------------------------------------
+// Dispatching
+// ---------------------------------------------------------------------------
+
+describe('run queue', () => {
+  it('queues runs beyond the concurrency limit', async () => {
+    const first = await dispatch('webhook');
+    const second = await dispatch('webhook');
+
+    expect(first).toMatchObject({ status: 'running', deduplicated: false });
+    expect(second).toMatchObject({ status: 'queued', deduplicated: false });
+    expect(mockSendTrigger).toHaveBeenCalledTimes(1);
+    expect(runQueueDb.ids('queued')).toEqual([second.executionId]);
+  });
+
+  it('honours RUN_QUEUE_MAX_CONCURRENCY for systems without their own limit', async () => {
+    process.env.RUN_QUEUE_MAX_CONCURRENCY = '2';
+
+    await dispatch('webhook');
+    const second = await dispatch('webhook');
+    const third = await dispatch('webhook');
+
+    expect([second.status, third.status]).toEqual(['running', 'queued']);
+  });
+
+  it('starts queued runs by priority, then age, when a slot frees up', async () => {
+    const first = await dispatch('cron');
+    await dispatch('webhook');
+    await dispatch('manual');
+    await dispatch('qa-remediation');
+    mockSendTrigger.mockClear();
+
+    for (const expected of ['qa-remediation', 'manual', 'webhook']) {
+      runQueueDb.finish(runQueueDb.ids('running')[0] ?? first.executionId);
+      await sweepRunQueues();
+      expect(triggered().at(-1)).toBe(expected);
+    }
+  });
+
+  it('drains when the runtime reports a completed run', async () => {
+    startRunQueue();
+    const first = await dispatch('webhook');
+    const second = await dispatch('webhook');
+
+    runQueueDb.finish(first.executionId);
+    completedListeners.forEach((listener) => listener());
+    await vi.waitFor(() => expect(runQueueDb.ids('running')).toEqual([second.executionId]));
+  });
+
+  it('keeps the queue of a stopped system until it is redeployed', async () => {
+    const first = await dispatch('webhook');
+    await dispatch('webhook');
+    runQueueDb.deployments.get('deploy-1')!.status = 'stopped';
+
+    runQueueDb.finish(first.executionId);
+    await sweepRunQueues();
+
+    expect(runQueueDb.ids('queued')).toHaveLength(1);
+    expect(runQueueDb.ids('running')).toEqual([]);
+  });
+
+  it('fails runs stuck in running past RUN_QUEUE_STALE_MS and starts the next one', async () => {
+    process.env.RUN_QUEUE_STALE_MS = '60000';
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const lost = await dispatch('webhook');
+    const next = await dispatch('webhook');
+
+    await sweepRunQueues();
+    expect(runQueueDb.ids('running')).toEqual([lost.executionId]);
+
+    runQueueDb.executions[0].started_at = new Date(Date.now() - 61_000).toISOString();
+    await sweepRunQueues();
+
+    expect(runQueueDb.executions[0]).toMatchObject({
+      status: 'failed',
+      error_message: 'Run timed out without a result from the runtime',
+    });
+    expect(runQueueDb.ids('running')).toEqual([next.executionId]);
+  });
+
+  it('returns the earlier run for a repeated dedupe key', async () => {
+    const first = await dispatch('webhook', 'evt_1');
+    const retry = await dispatch('webhook', 'evt_1');
+
+    expect(retry).toEqual({ executionId: first.executionId, status: 'running', deduplicated: true });
+    expect(runQueueDb.executions).toHaveLength(1);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// /api/systems/:slug/queue
+// ---------------------------------------------------------------------------
+
+describe('/api/systems/:slug/queue', () => {
+  it('reports the limit, running count and queued runs in start order', async () => {
+    await dispatch('webhook');
+    const webhook = await dispatch('webhook');
+    const manual = await dispatch('manual');
+
+    const res = await request('/content-pipeline/queue');
+
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual({
+      maxConcurrency: 1,
+      running: 1,
+      queued: [
+        { executionId: manual.executionId, triggeredBy: 'manual', priority: 10, queuedAt: expect.any(String) },
+        { executionId: webhook.executionId, triggeredBy: 'webhook', priority: 0, queuedAt: expect.any(String) },
+      ],
+    });
+  });
+
+  it('raises the limit and starts the runs it lets through', async () => {
+    await dispatch('webhook');
+    await dispatch('webhook');
+    await dispatch('webhook');
+
+    const res = await request('/content-pipeline/queue', {
+      method: 'PUT',
+      body: JSON.stringify({ maxConcurrency: 3 }),
+    });
+
+    expect(res.status).toBe(200);
+    expect(res.body).toMatchObject({ maxConcurrency: 3, running: 3, queued: [] });
+    expect(mockSendTrigger).toHaveBeenCalledTimes(3);
+  });
+
+  it('rejects limits outside 1–50', async () => {
+    const res = await request('/content-pipeline/queue', {
+      method: 'PUT',
+      body: JSON.stringify({ maxConcurrency: 0 }),
+    });
+
+    expect(res.status).toBe(400);
+  });
+
+  it('cancels queued runs only', async () => {
+    const running = await dispatch('webhook');
+    const queued = await dispatch('webhook');
+
+    const cancelled = await request(`/content-pipeline/queue/${queued.executionId}`, { method: 'DELETE' });
+    const again = await request(`/content-pipeline/queue/${queued.executionId}`, { method: 'DELETE' });
+    const started = await request(`/content-pipeline/queue/${running.executionId}`, { method: 'DELETE' });
+    const unknown = await request('/content-pipeline/queue/6f1c2f9e-4a7b-4c1d-9f5e-2b3c4d5e6f70', {
+      method: 'DELETE',
+    });
+
+    expect(cancelled.status).toBe(204);
+    expect(runQueueDb.ids('cancelled')).toEqual([queued.executionId]);
+    expect(again.status).toBe(409);
+    expect(again.body.code).toBe('EXECUTION_NOT_QUEUED');
+    expect(started.status).toBe(409);
+    expect(unknown.status).toBe(404);
+    expect(unknown.body.code).toBe('EXECUTION_NOT_FOUND');
+  });
+
+  it('returns 400 for a malformed execution id', async () => {
+    const res = await request('/content-pipeline/queue/not-a-uuid', { method: 'DELETE' });
+
+    expect(res.status).toBe(400);
+  });
+});
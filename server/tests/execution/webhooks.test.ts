@@ -0,0 +1,276 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import express from 'express';
+import crypto from 'crypto';
+import type { AddressInfo } from 'net';
+import type { Server } from 'http';
+import type { DeploymentRecord } from '../../types/registry';
+import { createTestManifest } from '../deploy/fixtures';
+
+// ---------------------------------------------------------------------------
+// Mocks — must be declared before importing modules under test
+// ---------------------------------------------------------------------------
+
+vi.mock('../../db', async () => ({
+  pool: (await import('../fixtures/run-queue-db')).runQueueDb.pool,
+}));
+
+const mockGetSystem = vi.fn();
+vi.mock('../../services/registry', () => ({
+  getSystem: (...args: unknown[]) => mockGetSystem(...args),
+}));
+
+const mockSendTrigger = vi.fn();
+vi.mock('../../services/openclaw-client', () => ({
+  sendTrigger: (...args: unknown[]) => mockSendTrigger(...args),
+}));
+
+import { webhooksRouter } from '../../routes/webhooks';
+import { mapPayloadToInputs } from '../../services/execution-dispatcher';
+import { runQueueDb } from '../fixtures/run-queue-db';
+import { captureRawBody } from '../../src/middleware/webhook-verify';
+import { errorHandler, notFoundHandler } from '../../src/middleware/error-handler';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const SECRET = 'whsec_test_123';
+
+function createDeployment(overrides: Partial<DeploymentRecord> = {}): DeploymentRecord {
+  return {
+    id: 'deploy-1',
+    systemName: 'Lead Enricher',
+    systemSlug: 'lead-enricher',
+    manifestJson: createTestManifest({
+      slug: 'lead-enricher',
+      triggerPattern: 'webhook',
+      requiredInputs: [
+        { name: 'email', type: 'string', description: 'Lead email', required: true },
+        { name: 'company', type: 'string', description: 'Company name', required: false },
+      ],
+    }),
+    canvasJson: {},
+    openclawConfig: {},
+    triggerType: 'webhook',
+    triggerConfig: {
+      type: 'webhook',
+      endpointPath: '/api/webhooks/lead-enricher',
+      method: 'POST',
+      authType: 'hmac',
+      enabled: true,
+    },
+    pm2ProcessName: 'autopilate-lead-enricher',
+    secretsDecrypted: { WEBHOOK_SECRET: SECRET },
+    status: 'deployed',
+    deployedAt: '2026-02-20T00:00:00Z',
+    createdAt: '2026-02-20T00:00:00Z',
+    updatedAt: '2026-02-20T00:00:00Z',
+    ...overrides,
+  };
+}
+
+function sign(body: string, secret = SECRET): string {
+  return `sha256=${crypto.createHmac('sha256', secret).update(body).digest('hex')}`;
+}
+
+let server: Server;
+let baseUrl: string;
+
+async function post(body: string, headers: Record<string, string> = {}) {
+  const res = await fetch(`${baseUrl}/api/webhooks/lead-enricher`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body,
+  });
+  return { status: res.status, body: await res.json() };
+}
+
+beforeEach(async () => {
+  vi.clearAllMocks();
+  runQueueDb.reset();
+  runQueueDb.addDeployment('deploy-1', 'lead-enricher');
+  process.env.OPENCLAW_GATEWAY_URL = 'ws://localhost:18789';
+  mockSendTrigger.mockResolvedValue(undefined);
+
+  const app = express();
+  app.use(express.json({ verify: captureRawBody }));
+  app.use('/api/webhooks', webhooksRouter);
+  app.use(notFoundHandler);
+  app.use(errorHandler);
+
+  server = app.listen(0);
+  await new Promise((resolve) => server.once('listening', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterEach(async () => {
+  delete process.env.OPENCLAW_GATEWAY_URL;
+  await new Promise((resolve) => server.close(resolve));
+});
+
+// ---------------------------------------------------------------------------
+// mapPayloadToInputs
+// ---------------------------------------------------------------------------
+
+describe('mapPayloadToInputs', () => {
+  const manifest = createDeployment().manifestJson;
+
+  it('keeps declared inputs and drops unknown keys', () => {
+    const inputs = mapPayloadToInputs(manifest, { email: 'a@b.co', company: 'Acme', extra: 1 });
+    expect(inputs).toEqual({ email: 'a@b.co', company: 'Acme' });
+  });
+
+  it('rejects missing required inputs with 422', () => {
+    expect(() => mapPayloadToInputs(manifest, { company: 'Acme' })).toThrow(
+      expect.objectContaining({ code: 'EXECUTION_MISSING_INPUTS', statusCode: 422 })
+    );
+  });
+
+  it('rejects non-object payloads with 400', () => {
+    expect(() => mapPayloadToInputs(manifest, ['email'])).toThrow(
+      expect.objectContaining({ code: 'EXECUTION_INVALID_PAYLOAD', statusCode: 400 })
+    );
+  });
+});
+
+// ---------------------------------------------------------------------------
+// POST /api/webhooks/:slug
+// ---------------------------------------------------------------------------
+
+describe('POST /api/webhooks/:slug', () => {
+  it('dispatches a run for a valid HMAC-signed payload', async () => {
+    mockGetSystem.mockResolvedValue(createDeployment());
+    const body = JSON.stringify({ email: 'lead@acme.com', ignored: true });
+
+    const res = await post(body, { 'X-Webhook-Signature': sign(body) });
+
+    const [execution] = runQueueDb.executions;
+    expect(res.status).toBe(202);
+    expect(res.body).toEqual({ executionId: execution.id, status: 'running', deduplicated: false });
+    expect(execution).toMatchObject({
+      deployment_id: 'deploy-1',
+      triggered_by: 'webhook',
+      trigger_input: { email: 'lead@acme.com' },
+      status: 'running',
+    });
+
+    expect(mockSendTrigger).toHaveBeenCalledWith({
+      executionId: execution.id,
+      slug: 'lead-enricher',
+      triggeredBy: 'webhook',
+      inputs: { email: 'lead@acme.com' },
+      triggeredAt: expect.any(String),
+    });
+  });
+
+  it('verifies the signature over the raw body bytes', async () => {
+    mockGetSystem.mockResolvedValue(createDeployment());
+    // Whitespace that JSON.stringify(req.body) would not reproduce
+    const body = '{ "email" :  "lead@acme.com" }';
+
+    const res = await post(body, { 'X-Webhook-Signature': sign(body) });
+
+    expect(res.status).toBe(202);
+  });
+
+  it('rejects a bad signature without dispatching', async () => {
+    mockGetSystem.mockResolvedValue(createDeployment());
+    const body = JSON.stringify({ email: 'lead@acme.com' });
+
+    const res = await post(body, { 'X-Webhook-Signature': sign(body, 'wrong-secret') });
+
+    expect(res.status).toBe(401);
+    expect(res.body.code).toBe('WEBHOOK_SIGNATURE_INVALID');
+    expect(runQueueDb.executions).toEqual([]);
+    expect(mockSendTrigger).not.toHaveBeenCalled();
+  });
+
+  it('accepts a matching bearer token for bearer-auth webhooks', async () => {
+    const deployment = createDeployment();
+    deployment.triggerConfig = { ...(deployment.triggerConfig as object), authType: 'bearer' };
+    mockGetSystem.mockResolvedValue(deployment);
+
+    const ok = await post(JSON.stringify({ email: 'x@y.z' }), { Authorization: `Bearer ${SECRET}` });
+    const bad = await post(JSON.stringify({ email: 'x@y.z' }), { Authorization: 'Bearer nope' });
+
+    expect(ok.status).toBe(202);
+    expect(bad.status).toBe(401);
+  });
+
+  it('rejects authenticated webhooks when no secret is configured', async () => {
+    mockGetSystem.mockResolvedValue(createDeployment({ secretsDecrypted: null }));
+
+    const res = await post(JSON.stringify({ email: 'x@y.z' }));
+
+    expect(res.status).toBe(401);
+  });
+
+  it('prefers the vault secret over one left in the trigger config', async () => {
+    const deployment = createDeployment();
+    deployment.triggerConfig = { ...(deployment.triggerConfig as object), secret: 'legacy-secret-123' };
+    mockGetSystem.mockResolvedValue(deployment);
+    const body = JSON.stringify({ email: 'lead@acme.com' });
+
+    const vault = await post(body, { 'X-Webhook-Signature': sign(body) });
+    const legacy = await post(body, { 'X-Webhook-Signature': sign(body, 'legacy-secret-123') });
+
+    expect(vault.status).toBe(202);
+    expect(legacy.status).toBe(401);
+  });
+
+  it('returns 404 for systems without a webhook trigger', async () => {
+    mockGetSystem.mockResolvedValue(createDeployment({ triggerType: 'cron' }));
+
+    const res = await post('{}');
+
+    expect(res.status).toBe(404);
+  });
+
+  it('returns 422 when required inputs are missing', async () => {
+    mockGetSystem.mockResolvedValue(createDeployment());
+    const body = JSON.stringify({ company: 'Acme' });
+
+    const res = await post(body, { 'X-Webhook-Signature': sign(body) });
+
+    expect(res.status).toBe(422);
+    expect(res.body.code).toBe('EXECUTION_MISSING_INPUTS');
+  });
+
+  it('returns 409 when the system is stopped', async () => {
+    mockGetSystem.mockResolvedValue(createDeployment({ status: 'stopped' }));
+    const body = JSON.stringify({ email: 'lead@acme.com' });
+
+    const res = await post(body, { 'X-Webhook-Signature': sign(body) });
+
+    expect(res.status).toBe(409);
+    expect(res.body.code).toBe('EXECUTION_SYSTEM_NOT_RUNNING');
+  });
+
+  it('marks the execution failed when trigger delivery fails', async () => {
+    mockGetSystem.mockResolvedValue(createDeployment());
+    mockSendTrigger.mockRejectedValue(new Error('Gateway not connected'));
+    const body = JSON.stringify({ email: 'lead@acme.com' });
+
+    const res = await post(body, { 'X-Webhook-Signature': sign(body) });
+
+    expect(res.status).toBe(502);
+    expect(runQueueDb.executions[0]).toMatchObject({ status: 'failed', error_message: 'Trigger delivery failed' });
+  });
+
+  it('returns the earlier run for a retried Idempotency-Key', async () => {
+    mockGetSystem.mockResolvedValue(createDeployment());
+    const body = JSON.stringify({ email: 'lead@acme.com' });
+    const headers = { 'X-Webhook-Signature': sign(body), 'Idempotency-Key': 'evt_123' };
+
+    const first = await post(body, headers);
+    const retry = await post(body, headers);
+    const other = await post(body, { ...headers, 'Idempotency-Key': 'evt_124' });
+
+    expect(first.status).toBe(202);
+    expect(retry.status).toBe(200);
+    expect(retry.body).toEqual({ executionId: first.body.executionId, status: 'running', deduplicated: true });
+    expect(other.status).toBe(202);
+    expect(other.body).toMatchObject({ status: 'queued', deduplicated: false });
+    expect(mockSendTrigger).toHaveBeenCalledTimes(1);
+  });
+});
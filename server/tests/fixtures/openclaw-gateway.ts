@@ -0,0 +1,131 @@
+// =============================================================================
+// Stand-in OpenClaw gateway for tests: a local WebSocket server speaking the
+// gateway protocol (subscribe / unsubscribe / ping / reconcile / trigger)
+// whose events are pushed by the test. Triggered runs are answered with
+// `execution:started` and stay running until the test says otherwise.
+// =============================================================================
+
+import { WebSocketServer, WebSocket } from 'ws';
+import type { AddressInfo } from 'net';
+import type {
+  ExecutionCompletedMessage,
+  ExecutionFailedMessage,
+  GatewayMessage,
+  TriggerMessage,
+} from '../../services/openclaw-client';
+
+export type GatewayClientMessage =
+  | { type: 'subscribe'; slug: string }
+  | { type: 'unsubscribe'; slug: string }
+  | { type: 'reconcile'; executionIds: string[] }
+  | ({ type: 'trigger' } & TriggerMessage)
+  | { type: 'ping' };
+
+/** What the gateway knows about an execution when asked to reconcile. */
+export type GatewayExecution =
+  | { status: 'running' }
+  | { status: 'completed'; event: ExecutionCompletedMessage }
+  | { status: 'failed'; event: ExecutionFailedMessage };
+
+export class StandInGateway {
+  readonly subscriptions = new Set<string>();
+  readonly received: GatewayClientMessage[] = [];
+  readonly executions = new Map<string, GatewayExecution>();
+  connections = 0;
+
+  private constructor(private readonly wss: WebSocketServer) {
+    wss.on('connection', (socket) => {
+      this.connections++;
+      socket.on('message', (data) => this.handle(socket, JSON.parse(data.toString())));
+    });
+  }
+
+  static start(): Promise<StandInGateway> {
+    return new Promise((resolve) => {
+      const wss: WebSocketServer = new WebSocketServer({ port: 0, host: '127.0.0.1' }, () =>
+        resolve(new StandInGateway(wss))
+      );
+    });
+  }
+
+  get url(): string {
+    return `ws://127.0.0.1:${(this.wss.address() as AddressInfo).port}`;
+  }
+
+  /** Push an event to every connected client. */
+  send(message: GatewayMessage): void {
+    for (const client of this.wss.clients) {
+      client.send(JSON.stringify(message));
+    }
+  }
+
+  /** Simulate an outage: drop every connection without a close handshake. */
+  dropConnections(): void {
+    for (const client of this.wss.clients) {
+      client.terminate();
+    }
+  }
+
+  /** Resolve once a client message matching `predicate` has arrived. */
+  async waitFor(
+    predicate: (msg: GatewayClientMessage) => boolean,
+    timeoutMs = 5_000
+  ): Promise<GatewayClientMessage> {
+    const deadline = Date.now() + timeoutMs;
+    for (;;) {
+      const found = this.received.find(predicate);
+      if (found) return found;
+      if (Date.now() > deadline) throw new Error('Timed out waiting for gateway message');
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+  }
+
+  close(): Promise<void> {
+    for (const client of this.wss.clients) {
+      client.terminate();
+    }
+    return new Promise((resolve) => this.wss.close(() => resolve()));
+  }
+
+  private handle(socket: WebSocket, msg: GatewayClientMessage): void {
+    this.received.push(msg);
+    const reply = (message: GatewayMessage) => socket.send(JSON.stringify(message));
+
+    switch (msg.type) {
+      case 'subscribe':
+        this.subscriptions.add(msg.slug);
+        reply({ type: 'subscribed', slug: msg.slug });
+        break;
+      case 'unsubscribe':
+        this.subscriptions.delete(msg.slug);
+        reply({ type: 'unsubscribed', slug: msg.slug });
+        break;
+      case 'ping':
+        reply({ type: 'pong' });
+        break;
+      case 'reconcile': {
+        const running: string[] = [];
+        const unknown: string[] = [];
+        for (const id of msg.executionIds) {
+          const execution = this.executions.get(id);
+          if (!execution) unknown.push(id);
+          else if (execution.status === 'running') running.push(id);
+          else reply(execution.event);
+        }
+        reply({ type: 'reconciled', running, unknown });
+        break;
+      }
+      case 'trigger':
+        this.executions.set(msg.executionId, { status: 'running' });
+        reply({
+          type: 'execution:started',
+          slug: msg.slug,
+          executionId: msg.executionId,
+          triggeredBy: msg.triggeredBy,
+          startedAt: msg.triggeredAt,
+          phasesTotal: 3,
+        });
+        break;
+    }
+  }
+}
@@ -0,0 +1,173 @@
+// =============================================================================
+// In-memory stand-in for the deployments and execution_logs rows the run queue
+// reads and writes. Answers exactly the statements the execution dispatcher
+// issues (matched by their text) and fails loudly on anything else.
+// =============================================================================
+
+export interface QueueDeployment {
+  id: string;
+  system_slug: string;
+  status: string;
+  max_concurrency: number | null;
+}
+
+export interface QueueExecution {
+  id: string;
+  deployment_id: string;
+  triggered_by: string;
+  trigger_input: Record<string, unknown>;
+  status: string;
+  priority: number;
+  dedupe_key: string | null;
+  queued_at: string;
+  started_at: string | null;
+  completed_at: string | null;
+  error_message: string | null;
+}
+
+type Rows = { rows: unknown[] };
+
+export class RunQueueDb {
+  readonly deployments = new Map<string, QueueDeployment>();
+  readonly executions: QueueExecution[] = [];
+  private sequence = 0;
+
+  readonly pool = {
+    query: (sql: string, params: unknown[] = []) => this.query(sql, params),
+    connect: async () => ({
+      query: (sql: string, params: unknown[] = []) => this.query(sql, params),
+      release: () => {},
+    }),
+  };
+
+  reset(): void {
+    this.deployments.clear();
+    this.executions.length = 0;
+    this.sequence = 0;
+  }
+
+  addDeployment(id: string, slug: string, overrides: Partial<QueueDeployment> = {}): QueueDeployment {
+    const deployment = { id, system_slug: slug, status: 'deployed', max_concurrency: null, ...overrides };
+    this.deployments.set(id, deployment);
+    return deployment;
+  }
+
+  /** Ids of a deployment's executions in one status */
+  ids(status: string, deploymentId?: string): string[] {
+    return this.executions
+      .filter((e) => e.status === status && (!deploymentId || e.deployment_id === deploymentId))
+      .map((e) => e.id);
+  }
+
+  finish(id: string, status: 'completed' | 'failed' = 'completed'): void {
+    const execution = this.executions.find((e) => e.id === id)!;
+    execution.status = status;
+    execution.completed_at = new Date().toISOString();
+  }
+
+  private queued(deploymentId: string): QueueExecution[] {
+    return this.executions
+      .filter((e) => e.deployment_id === deploymentId && e.status === 'queued')
+      .sort((a, b) => b.priority - a.priority || a.queued_at.localeCompare(b.queued_at));
+  }
+
+  private running(deploymentId: string): number {
+    return this.executions.filter((e) => e.deployment_id === deploymentId && e.status === 'running').length;
+  }
+
+  private async query(sql: string, params: unknown[]): Promise<Rows> {
+    const text = sql.replace(/\s+/g, ' ').trim();
+    const find = (id: unknown) => this.executions.find((e) => e.id === id);
+
+    if (/^(BEGIN|COMMIT|ROLLBACK)$/.test(text)) return { rows: [] };
+
+    if (text.startsWith('SELECT status, max_concurrency FROM deployments')) {
+      const d = this.deployments.get(params[0] as string);
+      return { rows: d ? [{ status: d.status, max_concurrency: d.max_concurrency }] : [] };
+    }
+    if (text.startsWith('SELECT COUNT(*)::text AS count FROM execution_logs')) {
+      return { rows: [{ count: String(this.running(params[0] as string)) }] };
+    }
+    if (text.startsWith("UPDATE execution_logs el SET status = 'running'")) {
+      const claimed = this.queued(params[0] as string).slice(0, params[1] as number);
+      const slug = this.deployments.get(params[0] as string)!.system_slug;
+      return {
+        rows: claimed.map((e) => {
+          e.status = 'running';
+          e.started_at = new Date().toISOString();
+          return { ...e, system_slug: slug };
+        }),
+      };
+    }
+    if (text.includes('AND dedupe_key = $2')) {
+      const match = this.executions
+        .filter((e) => e.deployment_id === params[0] && e.dedupe_key === params[1])
+        .at(-1);
+      return { rows: match ? [{ id: match.id, status: match.status }] : [] };
+    }
+    if (text.startsWith('INSERT INTO execution_logs')) {
+      const n = ++this.sequence;
+      const execution: QueueExecution = {
+        id: `00000000-0000-4000-8000-${String(n).padStart(12, '0')}`,
+        deployment_id: params[0] as string,
+        triggered_by: params[1] as string,
+        trigger_input: JSON.parse(params[2] as string),
+        status: 'queued',
+        priority: params[3] as number,
+        dedupe_key: params[4] as string | null,
+        queued_at: new Date(Date.UTC(2026, 9, 19, 12, 0, n)).toISOString(),
+        started_at: null,
+        completed_at: null,
+        error_message: null,
+      };
+      this.executions.push(execution);
+      return { rows: [{ id: execution.id }] };
+    }
+    if (text.startsWith('SELECT status FROM execution_logs WHERE id = $1')) {
+      const e = find(params[0]);
+      return { rows: e ? [{ status: e.status }] : [] };
+    }
+    if (text.startsWith("UPDATE execution_logs el SET status = 'failed'")) {
+      const cutoff = Date.now() - (params[1] as number);
+      const stale = this.executions.filter(
+        (e) => e.status === 'running' && e.started_at !== null && Date.parse(e.started_at) < cutoff
+      );
+      return {
+        rows: stale.map((e) => {
+          Object.assign(e, { status: 'failed', error_message: params[0], completed_at: new Date().toISOString() });
+          return { id: e.id, system_slug: this.deployments.get(e.deployment_id)!.system_slug };
+        }),
+      };
+    }
+    if (text.startsWith("UPDATE execution_logs SET status = 'failed'")) {
+      Object.assign(find(params[1])!, { status: 'failed', error_message: params[0] });
+      return { rows: [] };
+    }
+    if (text.startsWith('SELECT d.max_concurrency')) {
+      const d = this.deployments.get(params[0] as string);
+      return { rows: d ? [{ max_concurrency: d.max_concurrency, running: String(this.running(d.id)) }] : [] };
+    }
+    if (text.startsWith('SELECT id, triggered_by, priority, queued_at FROM execution_logs')) {
+      return { rows: this.queued(params[0] as string) };
+    }
+    if (text.startsWith('WITH cancelled AS')) {
+      const e = find(params[0]);
+      if (!e || e.deployment_id !== params[1]) return { rows: [] };
+      const cancelled = e.status === 'queued';
+      if (cancelled) e.status = 'cancelled';
+      return { rows: [{ status: e.status, cancelled }] };
+    }
+    if (text.startsWith('SELECT DISTINCT deployment_id FROM execution_logs')) {
+      const ids = new Set(this.executions.filter((e) => e.status === 'queued').map((e) => e.deployment_id));
+      return { rows: Array.from(ids, (deployment_id) => ({ deployment_id })) };
+    }
+    if (text.startsWith('UPDATE deployments SET max_concurrency')) {
+      this.deployments.get(params[1] as string)!.max_concurrency = params[0] as number | null;
+      return { rows: [] };
+    }
+
+    throw new Error(`RunQueueDb: unexpected query: ${text}`);
+  }
+}
+
+export const runQueueDb = new RunQueueDb();
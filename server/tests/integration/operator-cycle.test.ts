@@ -13,6 +13,7 @@ const mockRestartProcess = vi.fn();
 vi.mock('../../services/pm2-manager', () => ({
   listProcesses: (...args: unknown[]) => mockListProcesses(...args),
   restartProcess: (...args: unknown[]) => mockRestartProcess(...args),
+  restartSystemProcesses: vi.fn().mockResolvedValue([]),
   startProcess: vi.fn(),
   deleteProcess: vi.fn(),
   stopProcess: vi.fn(),
@@ -76,6 +77,8 @@ function mockLlmDiagnosis(kind: Diagnosis['kind'], detail: string) {
 function makeCrashedProcess(name: string): ProcessStatus {
   return {
     name,
+    systemSlug: name.replace(/^autopilate-/, ''),
+    agentSlug: null,
     pid: undefined,
     status: 'errored',
     cpu: 0,
@@ -293,6 +296,8 @@ describe('Integration: Operator Remediation Cycle', () => {
       mockListProcesses.mockResolvedValue([
         {
           name: 'autopilate-healthy-system',
+          systemSlug: 'healthy-system',
+          agentSlug: null,
           pid: 1234,
           status: 'online',
           cpu: 5,
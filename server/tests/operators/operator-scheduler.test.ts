@@ -0,0 +1,329 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import express from 'express';
+import type { AddressInfo } from 'net';
+import type { Server } from 'http';
+
+// ---------------------------------------------------------------------------
+// Mocks — set up before importing the module under test
+// ---------------------------------------------------------------------------
+
+const mocks = vi.hoisted(() => ({
+  runSystemMonitor: vi.fn(),
+  runOptimizationAgent: vi.fn(),
+  runQaRemediation: vi.fn(),
+  fetchExecutionLog: vi.fn(),
+  completedListeners: [] as Array<(msg: unknown) => void>,
+}));
+
+vi.mock('../../services/system-monitor', () => ({
+  runSystemMonitor: mocks.runSystemMonitor,
+}));
+
+vi.mock('../../services/optimization-agent', () => ({
+  runOptimizationAgent: mocks.runOptimizationAgent,
+}));
+
+vi.mock('../../services/qa-remediation', async (importActual) => ({
+  ...(await importActual<typeof import('../../services/qa-remediation')>()),
+  runQaRemediation: mocks.runQaRemediation,
+  fetchExecutionLog: mocks.fetchExecutionLog,
+}));
+
+vi.mock('../../services/openclaw-client', () => ({
+  onExecutionCompleted: (listener: (msg: unknown) => void) => {
+    mocks.completedListeners.push(listener);
+    return () => mocks.completedListeners.splice(mocks.completedListeners.indexOf(listener), 1);
+  },
+}));
+
+vi.mock('../../services/pm2-manager', () => ({
+  restartSystemProcesses: vi.fn(),
+}));
+
+/** In-memory operator_runs table behind pool.query */
+const runsTable: Array<Record<string, unknown>> = [];
+const mockPoolQuery = vi.fn(async (sql: string, params: unknown[] = []) => {
+  if (sql.includes('INSERT INTO operator_runs')) {
+    const skipped = params[2] === 'skipped';
+    const row = {
+      id: `run-${runsTable.length + 1}`,
+      operator_type: params[0],
+      trigger: params[1],
+      status: params[2],
+      subject: params[3],
+      summary: params[4],
+      started_at: new Date().toISOString(),
+      completed_at: skipped ? new Date().toISOString() : null,
+      duration_ms: skipped ? 0 : null,
+      actions_count: 0,
+      error_message: null,
+    };
+    runsTable.push(row);
+    return { rows: [row] };
+  }
+  if (sql.includes('UPDATE operator_runs')) {
+    const row = runsTable.find((r) => r.id === params[5])!;
+    Object.assign(row, {
+      status: params[0],
+      duration_ms: params[1],
+      actions_count: params[2],
+      summary: params[3],
+      error_message: params[4],
+      completed_at: new Date().toISOString(),
+    });
+    return { rows: [row] };
+  }
+  if (sql.includes('COUNT(*)')) {
+    return { rows: [{ count: String(runsTable.length) }] };
+  }
+  if (sql.includes('FROM operator_runs')) {
+    return { rows: [...runsTable].reverse() };
+  }
+  return { rows: [] };
+});
+vi.mock('../../db', () => ({
+  pool: { query: (sql: string, params?: unknown[]) => mockPoolQuery(sql, params) },
+}));
+
+import {
+  getOperatorSchedules,
+  operatorCron,
+  startOperatorRun,
+  startOperatorScheduler,
+  stopOperatorScheduler,
+} from '../../services/operator-scheduler';
+import { operatorsRouter } from '../../routes/operators';
+import { errorHandler } from '../../src/middleware/error-handler';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const EXECUTION_ID = '7c9e6679-7425-40de-944b-e07fc1f90ae7';
+
+const failingLog = {
+  id: EXECUTION_ID,
+  deploymentId: 'deploy-1',
+  systemSlug: 'site-builder',
+  qaScores: { SEO: 60, Accessibility: 92 },
+  phasesTotal: 4,
+};
+
+function deferred<T>() {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>((r) => (resolve = r));
+  return { promise, resolve };
+}
+
+const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  runsTable.length = 0;
+  mocks.completedListeners.length = 0;
+  mocks.runSystemMonitor.mockResolvedValue([]);
+  mocks.runOptimizationAgent.mockResolvedValue({
+    recommendations: [{}, {}],
+    totalExecutions: 40,
+    autoAppliedCount: 1,
+    pendingApprovalCount: 1,
+  });
+  mocks.runQaRemediation.mockResolvedValue([{ actionType: 'patch' }, { actionType: 're-execute' }]);
+  mocks.fetchExecutionLog.mockResolvedValue(failingLog);
+});
+
+afterEach(() => {
+  stopOperatorScheduler();
+  vi.useRealTimers();
+  delete process.env.OPERATOR_MONITOR_CRON;
+  delete process.env.OPERATOR_OPTIMIZATION_CRON;
+  delete process.env.OPERATOR_SCHEDULER_ENABLED;
+});
+
+// ---------------------------------------------------------------------------
+// Schedules
+// ---------------------------------------------------------------------------
+
+describe('operator schedules', () => {
+  it('reads cron expressions from the environment', () => {
+    process.env.OPERATOR_MONITOR_CRON = '*/10 * * * *';
+    process.env.OPERATOR_OPTIMIZATION_CRON = 'off';
+
+    expect(operatorCron('system_monitor')?.expression).toBe('*/10 * * * *');
+    expect(operatorCron('optimization')).toBeNull();
+    expect(operatorCron('remediation')).toBeNull();
+
+    process.env.OPERATOR_MONITOR_CRON = 'every five minutes';
+    expect(() => operatorCron('system_monitor')).toThrow(/OPERATOR_MONITOR_CRON: Cron expression must have 5 fields/);
+  });
+
+  it('runs scheduled operators when their cron fires', async () => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout', 'Date'] });
+    vi.setSystemTime(new Date('2026-03-06T10:07:30Z'));
+
+    startOperatorScheduler();
+    expect(getOperatorSchedules()).toEqual([
+      expect.objectContaining({ operatorType: 'system_monitor', cron: '*/5 * * * *', nextRunAt: '2026-03-06T10:10:00.000Z' }),
+      expect.objectContaining({ operatorType: 'remediation', cron: null, nextRunAt: null }),
+      expect.objectContaining({ operatorType: 'optimization', cron: '0 3 * * 1', nextRunAt: '2026-03-09T03:00:00.000Z' }),
+    ]);
+
+    await vi.advanceTimersByTimeAsync(2 * 60_000);
+    expect(mocks.runSystemMonitor).toHaveBeenCalledTimes(0);
+
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(mocks.runSystemMonitor).toHaveBeenCalledTimes(1);
+    expect(getOperatorSchedules()[0].nextRunAt).toBe('2026-03-06T10:15:00.000Z');
+
+    await vi.advanceTimersByTimeAsync(10 * 60_000);
+    expect(mocks.runSystemMonitor).toHaveBeenCalledTimes(3);
+    expect(runsTable.map((r) => [r.operator_type, r.trigger, r.status])).toEqual([
+      ['system_monitor', 'schedule', 'completed'],
+      ['system_monitor', 'schedule', 'completed'],
+      ['system_monitor', 'schedule', 'completed'],
+    ]);
+  });
+
+  it('does nothing when disabled', () => {
+    process.env.OPERATOR_SCHEDULER_ENABLED = 'false';
+    startOperatorScheduler();
+
+    expect(getOperatorSchedules().every((s) => s.nextRunAt === null)).toBe(true);
+    expect(mocks.completedListeners).toHaveLength(0);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Runs
+// ---------------------------------------------------------------------------
+
+describe('operator runs', () => {
+  it('records the outcome of a run', async () => {
+    const { run, finished } = await startOperatorRun('optimization', 'manual');
+    expect(run.status).toBe('running');
+
+    expect(await finished).toMatchObject({
+      operatorType: 'optimization',
+      trigger: 'manual',
+      status: 'completed',
+      actionsCount: 2,
+      summary: '2 recommendation(s) over 40 execution(s): 1 auto-applied, 1 pending approval',
+    });
+  });
+
+  it('records a failed run with its error', async () => {
+    mocks.runSystemMonitor.mockRejectedValueOnce(new Error('PM2 unreachable'));
+
+    const { finished } = await startOperatorRun('system_monitor', 'manual');
+
+    expect(await finished).toMatchObject({ status: 'failed', error: 'PM2 unreachable' });
+  });
+
+  it('skips a run that would overlap one in progress', async () => {
+    const gate = deferred<unknown[]>();
+    mocks.runSystemMonitor.mockReturnValueOnce(gate.promise);
+
+    const first = await startOperatorRun('system_monitor', 'schedule');
+    const second = await startOperatorRun('system_monitor', 'manual');
+
+    expect(second.run).toMatchObject({ status: 'skipped', summary: 'Previous run still in progress' });
+    expect(mocks.runSystemMonitor).toHaveBeenCalledTimes(1);
+    expect(getOperatorSchedules()[0].running).toBe(true);
+
+    gate.resolve([]);
+    await first.finished;
+    expect(getOperatorSchedules()[0].running).toBe(false);
+    expect((await startOperatorRun('system_monitor', 'manual')).run.status).toBe('running');
+  });
+
+  it('starts QA remediation when a completed execution fails QA', async () => {
+    startOperatorScheduler();
+    const [listener] = mocks.completedListeners;
+
+    listener({ type: 'execution:completed', executionId: 'passing', qaScores: { SEO: 95 } });
+    listener({ type: 'execution:completed', executionId: EXECUTION_ID, qaScores: { SEO: 60 } });
+    await flush();
+
+    expect(mocks.fetchExecutionLog).toHaveBeenCalledTimes(1);
+    expect(mocks.runQaRemediation).toHaveBeenCalledWith(failingLog);
+    expect(runsTable[0]).toMatchObject({
+      operator_type: 'remediation',
+      trigger: 'event',
+      subject: EXECUTION_ID,
+      status: 'completed',
+      actions_count: 2,
+    });
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Routes
+// ---------------------------------------------------------------------------
+
+describe('operator run routes', () => {
+  let server: Server;
+  let baseUrl: string;
+
+  beforeEach(() => {
+    const app = express();
+    app.use(express.json());
+    app.use('/api/operators', operatorsRouter);
+    app.use(errorHandler);
+    server = app.listen(0);
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/operators`;
+  });
+
+  afterEach(() => {
+    server.close();
+  });
+
+  const post = (path: string, body: unknown = {}) =>
+    fetch(`${baseUrl}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+
+  it('runs an operator now and lists its runs', async () => {
+    const gate = deferred<unknown[]>();
+    mocks.runSystemMonitor.mockReturnValueOnce(gate.promise);
+
+    const started = await post('/system_monitor/run');
+    expect(started.status).toBe(202);
+    expect((await started.json()).run).toMatchObject({ operatorType: 'system_monitor', status: 'running' });
+
+    const overlapping = await post('/system_monitor/run');
+    expect(overlapping.status).toBe(409);
+
+    gate.resolve([]);
+    await flush();
+
+    const res = await fetch(`${baseUrl}/runs?operator_type=system_monitor`);
+    const body = await res.json();
+    expect(body.total).toBe(2);
+    expect(body.runs.map((r: { status: string }) => r.status)).toEqual(['skipped', 'completed']);
+    expect(mockPoolQuery).toHaveBeenCalledWith(expect.stringContaining('operator_type = $1'), [
+      'system_monitor',
+      50,
+      0,
+    ]);
+  });
+
+  it('remediates a specific execution on demand', async () => {
+    const res = await post('/remediation/run', { executionId: EXECUTION_ID });
+
+    expect(res.status).toBe(202);
+    expect((await res.json()).run).toMatchObject({ operatorType: 'remediation', subject: EXECUTION_ID });
+  });
+
+  it('rejects executions that cannot be remediated', async () => {
+    mocks.fetchExecutionLog.mockResolvedValueOnce(null);
+    expect((await post('/remediation/run', { executionId: EXECUTION_ID })).status).toBe(404);
+
+    mocks.fetchExecutionLog.mockResolvedValueOnce({ ...failingLog, qaScores: { SEO: 99 } });
+    expect((await post('/remediation/run', { executionId: EXECUTION_ID })).status).toBe(422);
+
+    expect((await post('/janitor/run')).status).toBe(404);
+    expect((await post('/remediation/run', { executionId: 'nope' })).status).toBe(400);
+  });
+});
@@ -14,6 +14,15 @@ vi.mock('../../lib/anthropic-client', () => ({
   smartGenerate: (...args: unknown[]) => mockSmartGenerate(...args),
 }));
 
+const mockDispatchExecution = vi.fn();
+vi.mock('../../services/execution-dispatcher', () => ({
+  dispatchExecution: (...args: unknown[]) => mockDispatchExecution(...args),
+}));
+
+vi.mock('../../services/registry', () => ({
+  getSystem: async (slug: string) => ({ id: 'deploy-1', systemSlug: slug, status: 'deployed' }),
+}));
+
 vi.mock('fs/promises', () => ({
   readFile: vi.fn().mockResolvedValue('# Existing Agent Config\n\nSome content here.'),
   writeFile: vi.fn().mockResolvedValue(undefined),
@@ -48,10 +57,9 @@ function mockLlmRemediation(patches: Array<{ dimension: string; constraint: stri
 
 /**
  * Mock the re-execution flow:
- * 1. triggerPartialReExecution — INSERT execution_logs RETURNING id
- * 2. triggerPartialReExecution — UPDATE deployments
- * 3. waitForReExecution — SELECT status, qa_scores (poll returns completed)
- * 4. recordOperatorAction (for each patch + re-execute action)
+ * 1. triggerPartialReExecution — queue the run, then UPDATE deployments
+ * 2. waitForReExecution — SELECT status, qa_scores (poll returns completed)
+ * 3. recordOperatorAction (for each patch + re-execute action)
  */
 function setupReExecutionMocks(
   newScores: Record<string, number> | null,
@@ -62,8 +70,8 @@ function setupReExecutionMocks(
     mockPoolQuery.mockResolvedValueOnce({ rows: [], rowCount: 1 }); // recordOperatorAction
   }
 
-  // triggerPartialReExecution — INSERT
-  mockPoolQuery.mockResolvedValueOnce({ rows: [{ id: 'reexec-1' }] });
+  // triggerPartialReExecution — queued through the run queue
+  mockDispatchExecution.mockResolvedValueOnce({ executionId: 'reexec-1', status: 'running', deduplicated: false });
   // triggerPartialReExecution — UPDATE
   mockPoolQuery.mockResolvedValueOnce({ rows: [], rowCount: 1 });
 
@@ -326,6 +334,13 @@ describe('QA Remediation Agent', () => {
       const patchActions = actions.filter((a) => a.actionType === 'patch');
       expect(patchActions).toHaveLength(1);
       expect(patchActions[0].autoApplied).toBe(true);
+
+      expect(mockDispatchExecution).toHaveBeenCalledWith(
+        expect.objectContaining({
+          triggeredBy: 'qa-remediation',
+          inputs: { partialReRun: { agentSlugs: ['frontend-engineer'] } },
+        })
+      );
     });
   });
 
@@ -0,0 +1,223 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { DeploymentRecord } from '../../types/registry';
+import type { ExecutionCompletedMessage } from '../../services/openclaw-client';
+import { createTestManifest } from '../deploy/fixtures';
+
+// ---------------------------------------------------------------------------
+// Mocks — set up before importing the module under test
+// ---------------------------------------------------------------------------
+
+const mocks = vi.hoisted(() => ({
+  budget: {} as Record<string, unknown>,
+  alerted: [] as Array<{ actionType: string; period: string }>,
+  inserted: [] as unknown[][],
+  completedListeners: [] as Array<(msg: ExecutionCompletedMessage) => void>,
+}));
+
+vi.mock('../../db', () => ({
+  pool: {
+    query: async (sql: string, params: unknown[] = []) => {
+      if (sql.includes('WITH periods AS')) return { rows: [mocks.budget] };
+      if (sql.includes('SELECT 1 FROM operator_actions')) {
+        const hit = mocks.alerted.some((a) => a.actionType === params[1] && a.period === params[2]);
+        return { rows: hit ? [{ '?column?': 1 }] : [] };
+      }
+      if (sql.includes('INSERT INTO operator_actions')) {
+        mocks.inserted.push(params);
+        return { rows: [] };
+      }
+      if (sql.includes('UPDATE deployments')) return { rows: [] };
+      throw new Error(`unexpected query: ${sql}`);
+    },
+  },
+}));
+
+const mockGetSystem = vi.fn();
+const mockUpdateSystemStatus = vi.fn();
+vi.mock('../../services/registry', () => ({
+  getSystem: (...args: unknown[]) => mockGetSystem(...args),
+  updateSystemStatus: (...args: unknown[]) => mockUpdateSystemStatus(...args),
+}));
+
+const mockStopSystemProcesses = vi.fn();
+vi.mock('../../services/pm2-manager', () => ({
+  stopSystemProcesses: (...args: unknown[]) => mockStopSystemProcesses(...args),
+}));
+
+vi.mock('../../services/openclaw-client', () => ({
+  onExecutionCompleted: (listener: (msg: ExecutionCompletedMessage) => void) => {
+    mocks.completedListeners.push(listener);
+    return () => mocks.completedListeners.splice(mocks.completedListeners.indexOf(listener), 1);
+  },
+}));
+
+import {
+  evaluateBudget,
+  getBudgetStatus,
+  startBudgetMonitor,
+  stopBudgetMonitor,
+} from '../../services/spend-budgets';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function createDeployment(overrides: Partial<DeploymentRecord> = {}): DeploymentRecord {
+  return {
+    id: 'deploy-1',
+    systemName: 'Lead Scraper',
+    systemSlug: 'lead-scraper',
+    manifestJson: createTestManifest({ slug: 'lead-scraper' }),
+    canvasJson: {},
+    openclawConfig: {},
+    triggerType: 'cron',
+    triggerConfig: {},
+    pm2ProcessName: 'autopilate-lead-scraper',
+    secretsDecrypted: null,
+    status: 'deployed',
+    deployedAt: '2026-10-01T00:00:00Z',
+    createdAt: '2026-10-01T00:00:00Z',
+    updatedAt: '2026-10-01T00:00:00Z',
+    ...overrides,
+  };
+}
+
+function budgetRow(overrides: Record<string, unknown> = {}) {
+  return {
+    budget_daily_usd: '10.00',
+    budget_monthly_usd: '100.00',
+    budget_warn_percent: 80,
+    spent_today_usd: '2.5000',
+    spent_month_usd: '40.0000',
+    period_day: '2026-10-19',
+    period_month: '2026-10',
+    ...overrides,
+  };
+}
+
+function insertedActionTypes(): string[] {
+  return mocks.inserted.map((params) => params[2] as string);
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  mocks.budget = budgetRow();
+  mocks.alerted = [];
+  mocks.inserted = [];
+  mockGetSystem.mockResolvedValue(createDeployment());
+  mockStopSystemProcesses.mockResolvedValue(['autopilate-lead-scraper']);
+});
+
+afterEach(() => {
+  stopBudgetMonitor();
+  vi.restoreAllMocks();
+});
+
+// ---------------------------------------------------------------------------
+// Status
+// ---------------------------------------------------------------------------
+
+describe('getBudgetStatus', () => {
+  it('reports spend against each limit', async () => {
+    mocks.budget = budgetRow({ spent_today_usd: '8.5000' });
+
+    const status = await getBudgetStatus('deploy-1');
+
+    expect(status).toEqual({
+      dailyLimitUsd: 10,
+      monthlyLimitUsd: 100,
+      warnPercent: 80,
+      spentTodayUsd: 8.5,
+      spentThisMonthUsd: 40,
+      level: 'warning',
+      windows: [
+        { period: 'daily', periodKey: '2026-10-19', limitUsd: 10, spentUsd: 8.5, level: 'warning' },
+        { period: 'monthly', periodKey: '2026-10', limitUsd: 100, spentUsd: 40, level: 'ok' },
+      ],
+    });
+  });
+
+  it('treats missing limits as unlimited', async () => {
+    mocks.budget = budgetRow({ budget_daily_usd: null, budget_monthly_usd: null, spent_today_usd: '999' });
+
+    expect((await getBudgetStatus('deploy-1'))?.level).toBe('ok');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Evaluation
+// ---------------------------------------------------------------------------
+
+describe('evaluateBudget', () => {
+  it('does nothing while under the warning threshold', async () => {
+    await evaluateBudget('lead-scraper');
+
+    expect(mocks.inserted).toEqual([]);
+    expect(mockStopSystemProcesses).not.toHaveBeenCalled();
+  });
+
+  it('logs one warning per window and period', async () => {
+    mocks.budget = budgetRow({ spent_today_usd: '8.0000' });
+
+    await evaluateBudget('lead-scraper');
+    mocks.alerted.push({ actionType: 'budget_warning', period: 'daily' });
+    await evaluateBudget('lead-scraper');
+
+    expect(insertedActionTypes()).toEqual(['budget_warning']);
+    const [deploymentId, operatorType, , description, , afterState, autoApplied] = mocks.inserted[0];
+    expect(deploymentId).toBe('deploy-1');
+    expect(operatorType).toBe('system_monitor');
+    expect(description).toBe('lead-scraper has spent $8.00 of its daily budget of $10.00');
+    expect(JSON.parse(afterState as string)).toEqual({ period: 'daily', periodKey: '2026-10-19', level: 'warning' });
+    expect(autoApplied).toBe(false);
+    expect(mockStopSystemProcesses).not.toHaveBeenCalled();
+  });
+
+  it('stops a deployed system over its hard limit and logs the stop', async () => {
+    mocks.budget = budgetRow({ spent_month_usd: '100.0100' });
+
+    const status = await evaluateBudget('lead-scraper');
+
+    expect(status?.level).toBe('exceeded');
+    expect(mockStopSystemProcesses).toHaveBeenCalledWith('lead-scraper');
+    expect(mockUpdateSystemStatus).toHaveBeenCalledWith('lead-scraper', 'stopped');
+    expect(insertedActionTypes()).toEqual(['budget_exceeded']);
+    expect(mocks.inserted[0][6]).toBe(true);
+    expect(mocks.inserted[0][3]).toContain('stopped 1 process(es)');
+  });
+
+  it('leaves an already stopped system alone', async () => {
+    mocks.budget = budgetRow({ spent_today_usd: '12.0000' });
+    mockGetSystem.mockResolvedValue(createDeployment({ status: 'stopped' }));
+
+    await evaluateBudget('lead-scraper');
+
+    expect(mockStopSystemProcesses).not.toHaveBeenCalled();
+    expect(mocks.inserted).toEqual([]);
+  });
+
+  it('returns null for unknown systems', async () => {
+    mockGetSystem.mockResolvedValue(null);
+
+    expect(await evaluateBudget('missing')).toBeNull();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Monitor
+// ---------------------------------------------------------------------------
+
+describe('startBudgetMonitor', () => {
+  it('evaluates the budget when a run with a cost completes', async () => {
+    mocks.budget = budgetRow({ spent_today_usd: '10.0000' });
+    startBudgetMonitor();
+
+    const completed = { type: 'execution:completed', slug: 'lead-scraper', executionId: 'exec-1' } as const;
+    mocks.completedListeners.forEach((listener) => listener({ ...completed, costUsd: 0 } as ExecutionCompletedMessage));
+    expect(mockGetSystem).not.toHaveBeenCalled();
+
+    mocks.completedListeners.forEach((listener) => listener({ ...completed, costUsd: 1.2 } as ExecutionCompletedMessage));
+    await vi.waitFor(() => expect(mockUpdateSystemStatus).toHaveBeenCalledWith('lead-scraper', 'stopped'));
+  });
+});
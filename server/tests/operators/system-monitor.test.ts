@@ -43,6 +43,8 @@ function mockLlmDiagnosis(kind: Diagnosis['kind'], detail: string) {
 function makeCrashedProcess(name: string): ProcessStatus {
   return {
     name,
+    systemSlug: name.replace(/^autopilate-/, ''),
+    agentSlug: null,
     pid: undefined,
     status: 'errored',
     cpu: 0,
@@ -55,6 +57,8 @@ function makeCrashedProcess(name: string): ProcessStatus {
 function makeHealthyProcess(name: string): ProcessStatus {
   return {
     name,
+    systemSlug: name.replace(/^autopilate-/, ''),
+    agentSlug: null,
     pid: 1234,
     status: 'online',
     cpu: 5,
@@ -355,6 +359,31 @@ describe('System Monitor', () => {
     });
   });
 
+  // -------------------------------------------------------------------------
+  // Per-agent processes
+  // -------------------------------------------------------------------------
+  describe('per-agent processes', () => {
+    it('resolves the system deployment and restarts only the failing agent', async () => {
+      mockListProcesses.mockResolvedValue([
+        {
+          ...makeCrashedProcess('autopilate-test-system--writer'),
+          systemSlug: 'test-system',
+          agentSlug: 'writer',
+        },
+      ]);
+      mockPoolQuery
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [{ id: 'action-1' }] });
+      mockLlmDiagnosis('timeout', 'Upstream timed out');
+
+      await runSystemMonitor();
+
+      expect(mockGetSystem).toHaveBeenCalledWith('test-system');
+      expect(mockRestartProcess).toHaveBeenCalledTimes(1);
+      expect(mockRestartProcess).toHaveBeenCalledWith('autopilate-test-system--writer');
+    });
+  });
+
   // -------------------------------------------------------------------------
   // No deployment record found
   // -------------------------------------------------------------------------
@@ -2,6 +2,8 @@
 // Execution Plan Types (Generated by Architect, Executed by Builder)
 // =============================================================================
 
+import type { RetryAttempt } from '../../shared/socket-events';
+
 // -----------------------------------------------------------------------------
 // Plan Metadata
 // -----------------------------------------------------------------------------
@@ -144,6 +146,8 @@ export interface StepResult {
     filePath?: string;
   };
   error?: string;
+  /** Failed attempts, in order (see lib/retry.ts) */
+  attempts?: RetryAttempt[];
 }
 
 export interface PlanExecutionState {
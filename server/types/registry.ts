@@ -4,6 +4,21 @@
 
 export type TriggerPattern = 'cron' | 'webhook' | 'messaging' | 'always-on';
 
+export type MessagingPlatform = 'whatsapp' | 'telegram' | 'slack' | 'discord';
+
+/** What the built-in cron executor does with fire times missed while the server was down */
+export type CronCatchUpPolicy = 'skip' | 'latest' | 'all';
+
+/**
+ * User-chosen trigger settings, sent with a deploy or PUT /api/systems/:slug/trigger.
+ * Omitted fields keep the current value (or the trigger factory's default).
+ */
+export type TriggerSettings =
+  | { type: 'cron'; expression?: string; timezone?: string; catchUp?: CronCatchUpPolicy; enabled?: boolean }
+  | { type: 'webhook'; authType?: 'bearer' | 'hmac' | 'none'; secret?: string; enabled?: boolean }
+  | { type: 'messaging'; channels?: MessagingPlatform[]; routerEnabled?: boolean; enabled?: boolean }
+  | { type: 'always-on'; healthCheckEndpoint?: string; healthCheckIntervalMs?: number; enabled?: boolean };
+
 export type SystemCategory =
   | 'web-development'
   | 'content-production'
@@ -15,6 +30,8 @@ export type SystemOutputType = 'web_artifact' | 'document' | 'data' | 'notificat
 
 export type DeploymentStatus = 'deployed' | 'stopped' | 'errored' | 'archived';
 
+export type ExecutionTriggeredBy = 'cron' | 'webhook' | 'messaging' | 'manual' | 'operator' | 'qa-remediation';
+
 export interface RequiredInput {
   name: string;
   type: string;
@@ -78,6 +95,13 @@ export interface MCPServerConfigSlim {
   [key: string]: unknown;
 }
 
+// A file the deploy bridge writes under OPENCLAW_ROOT
+export interface OpenClawFile {
+  /** Absolute path */
+  path: string;
+  content: string;
+}
+
 export interface SystemBundle {
   manifest: SystemManifest;
   canvasJson: unknown;
@@ -86,6 +110,52 @@ export interface SystemBundle {
   pm2Ecosystem: PM2EcosystemConfig;
   envExample: Record<string, string>;
   createdAt: string;
+  /** Trigger choices from the deploy form; its type must match manifest.triggerPattern */
+  trigger?: TriggerSettings;
+}
+
+// Snapshot of everything needed to re-materialize a deployed system.
+// Secrets are deliberately excluded — they live on the deployment row.
+export interface DeploymentVersionRecord {
+  id: string;
+  deploymentId: string;
+  version: string;
+  manifestJson: SystemManifest;
+  canvasJson: unknown;
+  openclawConfig: unknown;
+  triggerConfig: unknown;
+  agentConfigs: Record<string, AgentConfigSlim>;
+  mcpConfigs: MCPServerConfigSlim[];
+  pm2Ecosystem: PM2EcosystemConfig;
+  createdAt: string;
+}
+
+export type DeploymentVersionSummary = Pick<
+  DeploymentVersionRecord,
+  'id' | 'deploymentId' | 'version' | 'manifestJson' | 'createdAt'
+>;
+
+export type ExecutionStatus = 'queued' | 'running' | 'completed' | 'failed' | 'qa_failed' | 'cancelled';
+
+export interface ExecutionLogRecord {
+  id: string;
+  deploymentId: string;
+  systemSlug: string;
+  triggeredBy: string;
+  triggerInput: unknown;
+  status: ExecutionStatus;
+  phasesCompleted: number | null;
+  phasesTotal: number | null;
+  outputUrl: string | null;
+  outputType: string | null;
+  costUsd: number | null;
+  durationSeconds: number | null;
+  qaScores: Record<string, number> | null;
+  errorMessage: string | null;
+  /** Null for runs recorded before the run queue existed */
+  queuedAt: string | null;
+  startedAt: string | null;
+  completedAt: string | null;
 }
 
 export interface DeploymentRecord {
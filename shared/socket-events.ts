@@ -116,6 +116,105 @@ export interface AgentResultPayload {
   tokensUsed: { input: number; output: number };
   durationMs: number;
   cost: number;
+  /** Set when the agent ran a task as an instance of an agent pool */
+  pool?: AgentPoolAssignment;
+  /** Set when the run was part of a coordinator's result aggregation */
+  consensus?: ConsensusRole;
+  /** Failed model calls, in order; absent when every call succeeded first time */
+  attempts?: RetryAttempt[];
+}
+
+/** Which pool instance ran an agent, and which of the pool's tasks (1-based) */
+export interface AgentPoolAssignment {
+  id: string;
+  label: string;
+  instance: number;
+  task: number;
+}
+
+/** Why an agent ran during aggregation: to cast a ballot, decide an escalation, or merge results itself */
+export interface ConsensusRole {
+  coordinatorId: string;
+  role: 'ballot' | 'escalation' | 'synthesis';
+}
+
+export interface ConsensusCandidate {
+  agentId: string;
+  agentLabel: string;
+  votes: number;
+  /** Summed weight of the voters who picked this candidate */
+  weight: number;
+  /** Mean 0–10 score across ballots, null when nobody scored it */
+  averageScore: number | null;
+}
+
+export interface ConsensusBallot {
+  voterId: string;
+  voterLabel: string;
+  weight: number;
+  /** 0–10 per candidate, in candidate order; null where the voter gave none */
+  scores: Array<number | null>;
+  /** Index of the candidate voted for, null for an abstention or failed ballot */
+  choice: number | null;
+}
+
+/**
+ * How a coordinator (SubAgentConfig `resultAggregation`, PALConfig
+ * `consensusConfig`) combined its sub-agents' results.
+ */
+export interface ConsensusReport {
+  coordinatorId: string;
+  coordinatorLabel: string;
+  aggregation: 'first' | 'vote' | 'custom';
+  votingMethod?: 'majority' | 'unanimous' | 'weighted';
+  threshold?: number;
+  candidates: ConsensusCandidate[];
+  ballots: ConsensusBallot[];
+  /** Agent id of the chosen result */
+  winner?: string;
+  /** Share of votes (or of voter weight) behind the winner */
+  support?: number;
+  /** Whether the threshold was reached; false before an escalation */
+  met: boolean;
+  escalatedTo?: { agentId: string; agentLabel: string; status: 'success' | 'error' | 'timeout' };
+  status: 'success' | 'error';
+}
+
+/**
+ * One content filter hit (GuardrailsConfig `contentFilters`). Carries counts,
+ * never the matched text.
+ */
+export interface ContentFilterEvent {
+  /** Where the text was scanned: agent input, a tool result, the agent's final output, or a channel message */
+  stage: 'input' | 'tool_result' | 'output' | 'inbound';
+  category: 'pii' | 'profanity' | 'injection';
+  /** PII type, or the category itself for profanity and injection */
+  kind: 'email' | 'phone' | 'card' | 'api_key' | 'profanity' | 'injection';
+  count: number;
+  /** Injection is only flagged unless the filters are in block mode */
+  action: 'redacted' | 'blocked' | 'flagged';
+  /** Injection heuristics that matched */
+  signals?: string[];
+  agentId?: string;
+  agentLabel?: string;
+  /** Tool whose result was scanned */
+  tool?: string;
+  at: string;
+}
+
+/** One failed attempt of a retried operation (ExecutionConfig `retryPolicy`) */
+export interface RetryAttempt {
+  /** 1-based */
+  attempt: number;
+  error: string;
+  /**
+   * Why the failure was retryable; null when it was not and retrying stopped.
+   * `step_failed` is a builder step whose canvas or sandbox action was refused.
+   */
+  reason: 'rate_limited' | 'overloaded' | 'server_error' | 'timeout' | 'network' | 'step_failed' | null;
+  durationMs: number;
+  /** Backoff before the next attempt; absent when no further attempt was made */
+  delayMs?: number;
 }
 
 export interface ExecutionReportPayload {
@@ -136,10 +235,114 @@ export interface ExecutionReportPayload {
       tokensUsed: { input: number; output: number };
       durationMs: number;
       cost: number;
+      pool?: AgentPoolAssignment;
+      consensus?: ConsensusRole;
+      attempts?: RetryAttempt[];
     }>;
     durationMs: number;
   }>;
-  status: 'success' | 'partial' | 'failed';
+  status: 'success' | 'partial' | 'failed' | 'budget_exceeded';
+  /** The limit that stopped a `budget_exceeded` run */
+  budgetExceeded?: {
+    scope: 'agent' | 'run';
+    /** Agent label, or the workflow name for the run budget */
+    subject: string;
+    limit: 'tokens' | 'cost';
+    max: number;
+    used: number;
+  };
+  /** Content filter hits across all agents, in the order they happened */
+  contentFilterEvents?: ContentFilterEvent[];
+  /** Result aggregation by coordinators, in the order it happened */
+  consensus?: ConsensusReport[];
+}
+
+/** Run-wide limits sent with `system:start`; unset or zero means unlimited */
+export interface RunBudget {
+  costCap?: number;
+  tokenLimit?: number;
+}
+
+/** A checkpointed workflow run that can be picked up again */
+export interface ResumableRunPayload {
+  runId: string;
+  sessionId: string;
+  workflow: string;
+  brief: string;
+  /** `interrupted` runs were cut off by a server restart mid-phase */
+  status: 'paused' | 'interrupted';
+  completedPhases: number;
+  totalPhases: number;
+  totalCost: number;
+  startedAt: string;
+  updatedAt: string;
+}
+
+/** Gated agent actions: AgentConfig.requiresApprovalFor plus approval-gated commands */
+export type ApprovalGateAction =
+  | 'file_writes'
+  | 'file_deletes'
+  | 'shell_commands'
+  | 'external_apis'
+  | 'git_operations'
+  | 'command';
+
+export interface ApprovalRequestPayload {
+  approvalId: string;
+  sessionId: string;
+  agentId: string;
+  agentLabel: string;
+  action: ApprovalGateAction;
+  tool: string;
+  summary: string;
+  input: Record<string, unknown>;
+  requestedAt: string;
+  expiresAt: string;
+  /** What happens if nobody answers before expiresAt */
+  timeoutPolicy: 'approve' | 'reject';
+}
+
+export interface ApprovalResolvedPayload {
+  approvalId: string;
+  sessionId: string;
+  approved: boolean;
+  decidedBy: 'user' | 'timeout' | 'cancelled';
+  reason?: string;
+  decidedAt: string;
+}
+
+/** One line of the approval audit trail */
+export type ApprovalAuditEntry = ApprovalRequestPayload & ApprovalResolvedPayload;
+
+// -----------------------------------------------------------------------------
+// Inbound Messaging (Router Agent → deployed systems)
+// -----------------------------------------------------------------------------
+
+export type MessagingPlatform = 'web' | 'whatsapp' | 'telegram' | 'slack' | 'discord';
+
+export interface InboundMessagePayload {
+  channelId: string;
+  platform: MessagingPlatform;
+  text: string;
+}
+
+export interface InboundMessageResult {
+  /** Router session for the channel */
+  sessionId: string;
+  /** `blocked` messages were stopped by the inbound content filters before routing */
+  outcome: 'direct-answer' | 'clarify' | 'trigger' | 'revision' | 'blocked' | 'error';
+  /** Replies posted back to the channel, in order */
+  replies: string[];
+  systemSlug?: string;
+  executionId?: string;
+  /** Inbound content filter hits on the message */
+  contentFilterEvents?: ContentFilterEvent[];
+}
+
+/** A message on a web channel, delivered to the sockets bound to it */
+export interface ChannelMessagePayload {
+  channelId: string;
+  message: SessionMessage;
 }
 
 // -----------------------------------------------------------------------------
@@ -179,6 +382,14 @@ export interface ServerToClientEvents {
   'execution:log': (payload: ExecutionLogPayload) => void;
   'execution:agentResult': (payload: AgentResultPayload) => void;
   'execution:report': (payload: ExecutionReportPayload) => void;
+  'execution:paused': (payload: ResumableRunPayload) => void;
+
+  // Inbound messaging (web channels)
+  'message:outbound': (payload: ChannelMessagePayload) => void;
+
+  // Approval gates
+  'approval:request': (payload: ApprovalRequestPayload) => void;
+  'approval:resolved': (payload: ApprovalResolvedPayload) => void;
 
   // Fixer events
   'fixer:patches-applied': (payload: FixerApplyPatchesResultPayload) => void;
@@ -194,18 +405,42 @@ export interface ServerToClientEvents {
 export interface ClientToServerEvents {
   // Session events
   'session:start': (callback: (sessionId: string) => void) => void;
+  /** Re-bind an existing session to this socket after a reconnect; false if the server no longer has it */
+  'session:resume': (payload: { sessionId: string }, callback: (resumed: boolean) => void) => void;
   'session:message': (payload: { sessionId: string; content: string }) => void;
   'session:cancel': (payload: { sessionId: string }) => void;
 
   // Execution control
   'execution:pause': (payload: { sessionId: string }) => void;
-  'execution:resume': (payload: { sessionId: string }) => void;
+  /** With a runId, resumes that checkpointed run; otherwise the session's latest paused run */
+  'execution:resume': (payload: { sessionId: string; runId?: string }) => void;
+  'execution:listResumable': (callback: (runs: ResumableRunPayload[]) => void) => void;
+  'execution:discard': (payload: { runId: string }) => void;
+
+  // Approval gates
+  'approval:respond': (payload: { approvalId: string; approved: boolean; reason?: string }) => void;
+  'approval:listPending': (callback: (requests: ApprovalRequestPayload[]) => void) => void;
+  'approval:history': (callback: (entries: ApprovalAuditEntry[]) => void) => void;
+
+  // Inbound messaging: routes a channel message to deployed systems
+  'message:inbound': (
+    payload: InboundMessagePayload,
+    callback?: (result: InboundMessageResult | { error: string }) => void
+  ) => void;
 
   // Canvas sync (client informing server of manual changes)
   'canvas:sync': (payload: { nodes: unknown[]; edges: unknown[] }) => void;
 
   // Phase 6: Runtime control
-  'system:start': (payload: { sessionId: string; nodes: unknown[]; edges: unknown[]; brief: string }) => void;
+  'system:start': (payload: {
+    sessionId: string;
+    nodes: unknown[];
+    edges: unknown[];
+    brief: string;
+    budget?: RunBudget;
+    /** Workflow name; also the key agent memory is stored under */
+    workflow?: string;
+  }) => void;
   'system:stop': (payload: { sessionId: string }) => void;
 
   // Fixer: standalone Claude call for configuration fixes
@@ -231,4 +466,6 @@ export interface InterServerEvents {
 
 export interface SocketData {
   sessionId?: string;
+  /** Web messaging channel this socket receives `message:outbound` for */
+  channelId?: string;
 }
@@ -13,14 +13,19 @@ import {
   Play,
   StopCircle,
   Sparkles,
+  Boxes,
 } from 'lucide-react';
 import { useHeadlessSession } from '../../hooks/useHeadlessSession';
 import { SessionStatus } from './SessionStatus';
 import { ChatMessage } from './ChatMessage';
 import { ChatInput } from './ChatInput';
 
+/** Canvas: build with the Supervisor. Systems: talk to deployed systems via the Router. */
+type ChatMode = 'canvas' | 'systems';
+
 export const ChatPanel: React.FC = () => {
   const [isExpanded, setIsExpanded] = useState(false);
+  const [mode, setMode] = useState<ChatMode>('canvas');
   const [isMinimized, setIsMinimized] = useState(false);
   const [unreadCount, setUnreadCount] = useState(0);
   const messagesEndRef = useRef<HTMLDivElement>(null);
@@ -33,6 +38,7 @@ export const ChatPanel: React.FC = () => {
     messages,
     startSession,
     sendMessage,
+    sendInboundMessage,
     cancelSession,
     pauseExecution,
     resumeExecution,
@@ -69,7 +75,11 @@ export const ChatPanel: React.FC = () => {
   }, [messages, isExpanded]);
 
   const handleSend = (content: string) => {
-    sendMessage(content);
+    if (mode === 'systems') {
+      sendInboundMessage(content);
+    } else {
+      sendMessage(content);
+    }
   };
 
   const isProcessing =
@@ -204,8 +214,31 @@ export const ChatPanel: React.FC = () => {
         </div>
 
         {/* Status bar */}
-        <div className="px-4 py-2 border-b border-slate-100 bg-slate-50 flex-shrink-0">
+        <div className="px-4 py-2 border-b border-slate-100 bg-slate-50 flex-shrink-0
+                        flex items-center justify-between">
           <SessionStatus state={sessionState} isConnected={isConnected} />
+          <div className="flex items-center bg-slate-200/70 rounded-lg p-0.5 text-xs">
+            <button
+              onClick={() => setMode('canvas')}
+              className={`flex items-center gap-1 px-2 py-1 rounded-md transition-colors ${
+                mode === 'canvas' ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'
+              }`}
+              title="Build on the canvas"
+            >
+              <Sparkles size={12} />
+              Canvas
+            </button>
+            <button
+              onClick={() => setMode('systems')}
+              className={`flex items-center gap-1 px-2 py-1 rounded-md transition-colors ${
+                mode === 'systems' ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'
+              }`}
+              title="Talk to deployed systems"
+            >
+              <Boxes size={12} />
+              Systems
+            </button>
+          </div>
         </div>
 
         {/* Messages area */}
@@ -219,25 +252,34 @@ export const ChatPanel: React.FC = () => {
               <h3 className="font-medium text-slate-700 mb-2">
                 Welcome to AI Assistant
               </h3>
-              <p className="text-sm text-slate-500 leading-relaxed">
-                Tell me what you want to build. For example:
-              </p>
-              <div className="mt-4 space-y-2 text-left">
-                <button
-                  onClick={() => handleSend('Create a supervisor agent with two worker agents')}
-                  className="w-full px-3 py-2 text-sm text-left text-indigo-600
-                             bg-indigo-50 rounded-lg hover:bg-indigo-100 transition-colors"
-                >
-                  "Create a supervisor with two workers"
-                </button>
-                <button
-                  onClick={() => handleSend("What's on the canvas?")}
-                  className="w-full px-3 py-2 text-sm text-left text-indigo-600
-                             bg-indigo-50 rounded-lg hover:bg-indigo-100 transition-colors"
-                >
-                  "What's on the canvas?"
-                </button>
-              </div>
+              {mode === 'systems' ? (
+                <p className="text-sm text-slate-500 leading-relaxed">
+                  Ask a deployed system to do something. I'll pick the right one,
+                  ask for anything missing and post the result here.
+                </p>
+              ) : (
+                <>
+                  <p className="text-sm text-slate-500 leading-relaxed">
+                    Tell me what you want to build. For example:
+                  </p>
+                  <div className="mt-4 space-y-2 text-left">
+                    <button
+                      onClick={() => handleSend('Create a supervisor agent with two worker agents')}
+                      className="w-full px-3 py-2 text-sm text-left text-indigo-600
+                                 bg-indigo-50 rounded-lg hover:bg-indigo-100 transition-colors"
+                    >
+                      "Create a supervisor with two workers"
+                    </button>
+                    <button
+                      onClick={() => handleSend("What's on the canvas?")}
+                      className="w-full px-3 py-2 text-sm text-left text-indigo-600
+                                 bg-indigo-50 rounded-lg hover:bg-indigo-100 transition-colors"
+                    >
+                      "What's on the canvas?"
+                    </button>
+                  </div>
+                </>
+              )}
             </div>
           ) : (
             <>
@@ -259,6 +301,8 @@ export const ChatPanel: React.FC = () => {
               ? 'Connecting...'
               : isProcessing
               ? 'Processing...'
+              : mode === 'systems'
+              ? 'Ask a deployed system...'
               : 'Describe what you want to build...'
           }
         />
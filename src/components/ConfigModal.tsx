@@ -3,6 +3,7 @@ import { X, Settings, Sparkles, Package, Check, FileText, Zap } from 'lucide-rea
 import useStore from '../store/useStore';
 import {
   WorkflowConfig,
+  WorkflowBudget,
   ExportFramework,
   SkillSchema,
   FRAMEWORK_METADATA,
@@ -167,6 +168,17 @@ export const ConfigModal = () => {
     setLocalConfig({ ...localConfig, framework, frameworkOptions });
   };
 
+  const handleBudgetChange = (field: keyof WorkflowBudget, raw: string) => {
+    const value = parseFloat(raw);
+    const budget: WorkflowBudget = { ...localConfig.budget };
+    if (Number.isFinite(value) && value > 0) {
+      budget[field] = value;
+    } else {
+      delete budget[field];
+    }
+    setLocalConfig({ ...localConfig, budget });
+  };
+
   const handleSave = () => {
     setWorkflowConfig(localConfig);
     setConfigModalOpen(false);
@@ -303,6 +315,44 @@ export const ConfigModal = () => {
               )}
             </div>
           </div>
+
+          {/* Run Budget */}
+          <div className="space-y-3">
+            <h3 className="text-sm font-semibold text-slate-700 uppercase tracking-wide">Run Budget</h3>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1.5">
+                  Cost Ceiling (USD)
+                </label>
+                <input
+                  type="number"
+                  min={0}
+                  step={0.01}
+                  value={localConfig.budget?.costCap ?? ''}
+                  onChange={(e) => handleBudgetChange('costCap', e.target.value)}
+                  className="w-full px-4 py-2.5 border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition-all"
+                  placeholder="No limit"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1.5">
+                  Token Limit
+                </label>
+                <input
+                  type="number"
+                  min={0}
+                  step={1000}
+                  value={localConfig.budget?.tokenLimit ?? ''}
+                  onChange={(e) => handleBudgetChange('tokenLimit', e.target.value)}
+                  className="w-full px-4 py-2.5 border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition-all"
+                  placeholder="No limit"
+                />
+              </div>
+            </div>
+            <p className="text-xs text-slate-500">
+              Runs stop as soon as either limit is crossed. Per-agent limits live in each agent's guardrails.
+            </p>
+          </div>
         </div>
 
         {/* Footer */}
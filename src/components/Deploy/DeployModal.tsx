@@ -1,25 +1,37 @@
 // =============================================================================
 // Deploy Modal
-// Collects deployment config, generates bundle, registers, and deploys to OpenClaw
+// Collects deployment config, generates bundle, previews the deploy plan,
+// then registers and deploys to OpenClaw once the user confirms
 // =============================================================================
 
 import { useState, useEffect, useCallback } from 'react';
-import { Rocket, X, Loader2, CheckCircle2, AlertTriangle } from 'lucide-react';
+import { Rocket, X, Loader2, CheckCircle2, AlertTriangle, GitBranch, ArrowLeft, ClipboardList } from 'lucide-react';
 import axios from 'axios';
 import useStore from '../../store/useStore';
+import { redeploySystem, planDeploy, DeployPlan } from '../../services/api';
 import { generateSystemBundle, BundleMetadata } from '../../export/bundle-generator';
+import DeployPlanView from './DeployPlanView';
 import { slugify } from '../../utils/exportHelpers';
-import TriggerConfigFields, { TriggerFormState, TriggerType } from './TriggerConfigFields';
+import TriggerConfigFields, {
+  TriggerFormState,
+  TriggerType,
+  defaultTriggerForm,
+  toTriggerSettings,
+} from './TriggerConfigFields';
 
 interface DeployModalProps {
   isOpen: boolean;
   onClose: () => void;
 }
 
-type DeployPhase = 'idle' | 'bundling' | 'deploying' | 'success' | 'error';
+type DeployPhase = 'idle' | 'planning' | 'review' | 'bundling' | 'deploying' | 'success' | 'error';
+
+type SystemBundle = ReturnType<typeof generateSystemBundle>;
 
 const PHASE_LABELS: Record<DeployPhase, string> = {
   idle: '',
+  planning: 'Checking deployment plan...',
+  review: '',
   bundling: 'Generating system bundle...',
   deploying: 'Deploying to OpenClaw...',
   success: 'Deployed successfully!',
@@ -35,21 +47,23 @@ export default function DeployModal({ isOpen, onClose }: DeployModalProps) {
   const [phase, setPhase] = useState<DeployPhase>('idle');
   const [errorMessage, setErrorMessage] = useState('');
   const [deployedSlug, setDeployedSlug] = useState('');
+  const [deployedVersion, setDeployedVersion] = useState('');
+  // Set when the slug is already deployed — offers redeploy as a new version
+  const [slugExists, setSlugExists] = useState(false);
+  // Dry-run result for the bundle awaiting confirmation
+  const [plan, setPlan] = useState<DeployPlan | null>(null);
+  const [plannedBundle, setPlannedBundle] = useState<SystemBundle | null>(null);
 
-  const [trigger, setTrigger] = useState<TriggerFormState>({
-    type: 'cron',
-    cronExpression: '0 6 * * *',
-    cronTimezone: 'UTC',
-    webhookSlug: slugify(workflowConfig.name),
-    messagingChannels: ['slack'],
-  });
+  const [trigger, setTrigger] = useState<TriggerFormState>(() =>
+    defaultTriggerForm(slugify(workflowConfig.name))
+  );
 
   // Sync name → slug when name changes (unless user manually edited slug)
   useEffect(() => {
     if (!slugEdited) {
       const newSlug = slugify(systemName);
       setSystemSlug(newSlug);
-      setTrigger((prev) => ({ ...prev, webhookSlug: newSlug }));
+      setTrigger((prev) => ({ ...prev, webhookSlug: newSlug, healthCheckEndpoint: `/health/${newSlug}` }));
     }
   }, [systemName, slugEdited]);
 
@@ -63,21 +77,19 @@ export default function DeployModal({ isOpen, onClose }: DeployModalProps) {
       setPhase('idle');
       setErrorMessage('');
       setDeployedSlug('');
-      setTrigger({
-        type: 'cron',
-        cronExpression: '0 6 * * *',
-        cronTimezone: 'UTC',
-        webhookSlug: slug,
-        messagingChannels: ['slack'],
-      });
+      setDeployedVersion('');
+      setSlugExists(false);
+      setPlan(null);
+      setPlannedBundle(null);
+      setTrigger(defaultTriggerForm(slug));
     }
   }, [isOpen, workflowConfig.name]);
 
   const handleSlugChange = (value: string) => {
-    const cleaned = value.toLowerCase().replace(/[^a-z0-9-]/g, '');
+    const cleaned = value.toLowerCase().replace(/[^a-z0-9-]/g, '').replace(/-{2,}/g, '-');
     setSystemSlug(cleaned);
     setSlugEdited(true);
-    setTrigger((prev) => ({ ...prev, webhookSlug: cleaned }));
+    setTrigger((prev) => ({ ...prev, webhookSlug: cleaned, healthCheckEndpoint: `/health/${cleaned}` }));
   };
 
   const updateTrigger = useCallback((updates: Partial<TriggerFormState>) => {
@@ -88,48 +100,94 @@ export default function DeployModal({ isOpen, onClose }: DeployModalProps) {
     phase === 'idle' &&
     systemName.trim().length > 0 &&
     systemSlug.length > 0 &&
+    (trigger.type !== 'messaging' || trigger.messagingChannels.length > 0) &&
     nodes.filter((n) => n.data.type === 'AGENT').length > 0;
 
-  const handleDeploy = async () => {
-    setPhase('bundling');
+  const buildBundle = (): SystemBundle => {
+    const metadata: BundleMetadata = {
+      name: systemName,
+      description: workflowConfig.description,
+      version: workflowConfig.version,
+      triggerPattern: trigger.type as TriggerType,
+      environment: workflowConfig.environment,
+    };
+
+    const bundle = generateSystemBundle(nodes, edges, metadata);
+
+    // Override manifest slug with user-edited value
+    bundle.manifest.slug = systemSlug;
+    bundle.manifest.triggerPattern = trigger.type;
+    bundle.trigger = toTriggerSettings(trigger);
+    return bundle;
+  };
+
+  const showError = (err: unknown) => {
+    setPhase('error');
+    if (axios.isAxiosError(err)) {
+      setErrorMessage(err.response?.data?.error || err.message);
+    } else {
+      setErrorMessage(err instanceof Error ? err.message : 'Unknown error');
+    }
+  };
+
+  // Dry run first: nothing is written until the user confirms the plan
+  const handlePlan = async () => {
+    setPhase('planning');
     setErrorMessage('');
+    setSlugExists(false);
 
     try {
-      // Step 1: Generate bundle
-      const metadata: BundleMetadata = {
-        name: systemName,
-        description: workflowConfig.description,
-        version: workflowConfig.version,
-        triggerPattern: trigger.type as TriggerType,
-        environment: workflowConfig.environment,
-      };
+      const bundle = buildBundle();
+      const result = await planDeploy(bundle);
+      setPlannedBundle(bundle);
+      setPlan(result);
+      setSlugExists(result.issues.some((issue) => issue.code === 'SLUG_TAKEN'));
+      setPhase('review');
+    } catch (err) {
+      showError(err);
+    }
+  };
 
-      const bundle = generateSystemBundle(nodes, edges, metadata);
+  const handleDeploy = async (asNewVersion = false) => {
+    setPhase('bundling');
+    setErrorMessage('');
+    setSlugExists(false);
 
-      // Override manifest slug with user-edited value
-      bundle.manifest.slug = systemSlug;
-      bundle.manifest.triggerPattern = trigger.type;
+    try {
+      // Step 1: Generate bundle (reuse the one the plan was made for)
+      const bundle = plannedBundle ?? buildBundle();
 
       // Step 2: Deploy to OpenClaw (registers + writes configs + starts PM2)
       setPhase('deploying');
-      await axios.post('http://localhost:3001/api/deploy', bundle);
+      if (asNewVersion) {
+        const record = await redeploySystem(systemSlug, bundle);
+        setDeployedVersion(record.manifestJson.version);
+      } else {
+        await axios.post('http://localhost:3001/api/deploy', bundle);
+        setDeployedVersion(bundle.manifest.version);
+      }
 
       setDeployedSlug(systemSlug);
       setPhase('success');
     } catch (err) {
-      setPhase('error');
-      if (axios.isAxiosError(err)) {
-        const msg = err.response?.data?.error || err.message;
-        setErrorMessage(msg);
-      } else {
-        setErrorMessage(err instanceof Error ? err.message : 'Unknown error');
-      }
+      showError(err);
+      setPlannedBundle(null);
+      setSlugExists(
+        !asNewVersion && axios.isAxiosError(err) && err.response?.data?.code === 'DUPLICATE_SLUG'
+      );
     }
   };
 
+  const backToForm = () => {
+    setPhase('idle');
+    setPlan(null);
+    setPlannedBundle(null);
+    setSlugExists(false);
+  };
+
   if (!isOpen) return null;
 
-  const isDeploying = phase === 'bundling' || phase === 'deploying';
+  const isDeploying = phase === 'planning' || phase === 'bundling' || phase === 'deploying';
 
   return (
     <div className="fixed inset-0 z-[100] flex items-center justify-center">
@@ -203,6 +261,9 @@ export default function DeployModal({ isOpen, onClose }: DeployModalProps) {
             </>
           )}
 
+          {/* Deploy plan awaiting confirmation */}
+          {phase === 'review' && plan && <DeployPlanView plan={plan} />}
+
           {/* Progress indicator */}
           {isDeploying && (
             <div className="flex flex-col items-center py-8 gap-4">
@@ -253,7 +314,8 @@ export default function DeployModal({ isOpen, onClose }: DeployModalProps) {
                 </p>
               </div>
               <div className="text-xs text-slate-400 space-y-1 text-center mt-2">
-                <p>PM2 process: <code className="bg-slate-100 px-1 rounded">autopilate-{deployedSlug}</code></p>
+                {deployedVersion && <p>Version: <span className="font-mono">v{deployedVersion}</span></p>}
+                <p>PM2 processes: <code className="bg-slate-100 px-1 rounded">autopilate-{deployedSlug}--*</code></p>
                 <p>Trigger: <span className="capitalize">{trigger.type}</span></p>
               </div>
             </div>
@@ -270,10 +332,47 @@ export default function DeployModal({ isOpen, onClose }: DeployModalProps) {
               >
                 Cancel
               </button>
+              {slugExists && (
+                <button
+                  onClick={() => handleDeploy(true)}
+                  className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-blue-700 bg-white border border-blue-200 rounded-lg hover:bg-blue-50 transition-colors"
+                >
+                  <GitBranch size={14} />
+                  Deploy as New Version
+                </button>
+              )}
               <button
-                onClick={handleDeploy}
+                onClick={handlePlan}
                 disabled={!canDeploy}
                 className="flex items-center gap-2 px-5 py-2 text-sm font-medium text-white bg-gradient-to-r from-blue-500 to-cyan-600 rounded-lg hover:from-blue-600 hover:to-cyan-700 transition-all shadow-sm hover:shadow-md active:scale-[0.98] disabled:opacity-40 disabled:pointer-events-none"
+              >
+                <ClipboardList size={14} />
+                Review Plan
+              </button>
+            </>
+          )}
+          {phase === 'review' && plan && (
+            <>
+              <button
+                onClick={backToForm}
+                className="flex items-center gap-1.5 px-4 py-2 text-sm font-medium text-slate-600 hover:bg-slate-100 rounded-lg transition-colors"
+              >
+                <ArrowLeft size={14} />
+                Back
+              </button>
+              {slugExists && (
+                <button
+                  onClick={() => handleDeploy(true)}
+                  className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-blue-700 bg-white border border-blue-200 rounded-lg hover:bg-blue-50 transition-colors"
+                >
+                  <GitBranch size={14} />
+                  Deploy as New Version
+                </button>
+              )}
+              <button
+                onClick={() => handleDeploy()}
+                disabled={!plan.deployable}
+                className="flex items-center gap-2 px-5 py-2 text-sm font-medium text-white bg-gradient-to-r from-blue-500 to-cyan-600 rounded-lg hover:from-blue-600 hover:to-cyan-700 transition-all shadow-sm hover:shadow-md active:scale-[0.98] disabled:opacity-40 disabled:pointer-events-none"
               >
                 <Rocket size={14} />
                 Deploy
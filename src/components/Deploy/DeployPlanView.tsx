@@ -0,0 +1,114 @@
+// =============================================================================
+// Deploy Plan View
+// Dry-run result shown in DeployModal before the user confirms: validation
+// issues, the PM2 processes to start, and every file to write with its diff
+// =============================================================================
+
+import { useState } from 'react';
+import { AlertTriangle, ChevronDown, ChevronRight, FileText, Server, XCircle } from 'lucide-react';
+import type { DeployPlan, PlannedFile, PlannedFileAction } from '../../services/api';
+
+const ACTION_STYLES: Record<PlannedFileAction, string> = {
+  create: 'bg-emerald-100 text-emerald-700',
+  update: 'bg-amber-100 text-amber-700',
+  unchanged: 'bg-slate-100 text-slate-500',
+};
+
+function diffLineClass(line: string): string {
+  if (line.startsWith('@@')) return 'text-blue-600 bg-blue-50';
+  if (line.startsWith('+')) return 'text-emerald-800 bg-emerald-50';
+  if (line.startsWith('-')) return 'text-red-800 bg-red-50';
+  return 'text-slate-600';
+}
+
+function FileRow({ file }: { file: PlannedFile }) {
+  const [open, setOpen] = useState(false);
+  const hasDiff = file.diff.length > 0;
+
+  return (
+    <div className="border-b border-slate-100 last:border-b-0">
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        disabled={!hasDiff}
+        className="w-full flex items-center gap-2 py-1.5 text-left disabled:cursor-default"
+      >
+        {hasDiff ? (
+          open ? <ChevronDown size={12} className="text-slate-400 shrink-0" /> : <ChevronRight size={12} className="text-slate-400 shrink-0" />
+        ) : (
+          <FileText size={12} className="text-slate-300 shrink-0" />
+        )}
+        <span className="flex-1 text-xs font-mono text-slate-700 truncate">{file.path}</span>
+        {(file.added > 0 || file.removed > 0) && (
+          <span className="text-[10px] font-mono shrink-0">
+            <span className="text-emerald-600">+{file.added}</span>{' '}
+            <span className="text-red-600">-{file.removed}</span>
+          </span>
+        )}
+        <span className={`px-1.5 py-0.5 rounded text-[10px] font-medium shrink-0 ${ACTION_STYLES[file.action]}`}>
+          {file.action}
+        </span>
+      </button>
+      {open && (
+        <pre className="mb-2 max-h-48 overflow-auto rounded border border-slate-200 text-[11px] leading-4 font-mono">
+          {file.diff.split('\n').map((line, i) => (
+            <div key={i} className={`px-2 whitespace-pre ${diffLineClass(line)}`}>{line || ' '}</div>
+          ))}
+        </pre>
+      )}
+    </div>
+  );
+}
+
+export default function DeployPlanView({ plan }: { plan: DeployPlan }) {
+  const errors = plan.issues.filter((issue) => issue.severity === 'error');
+  const warnings = plan.issues.filter((issue) => issue.severity === 'warning');
+
+  return (
+    <div className="space-y-4">
+      {errors.length > 0 && (
+        <div className="p-3 rounded-lg bg-red-50 border border-red-200 space-y-1.5">
+          {errors.map((issue) => (
+            <p key={`${issue.code}-${issue.subject}`} className="flex items-start gap-2 text-xs text-red-700">
+              <XCircle size={13} className="mt-0.5 shrink-0" />
+              {issue.message}
+            </p>
+          ))}
+        </div>
+      )}
+      {warnings.length > 0 && (
+        <div className="p-3 rounded-lg bg-amber-50 border border-amber-200 space-y-1.5">
+          {warnings.map((issue) => (
+            <p key={`${issue.code}-${issue.subject}`} className="flex items-start gap-2 text-xs text-amber-800">
+              <AlertTriangle size={13} className="mt-0.5 shrink-0" />
+              {issue.message}
+            </p>
+          ))}
+        </div>
+      )}
+
+      <div>
+        <p className="text-xs font-medium text-slate-700 mb-1">Processes</p>
+        <div className="flex flex-wrap gap-1.5">
+          {plan.processes.map((name) => (
+            <span key={name} className="flex items-center gap-1 px-2 py-0.5 rounded bg-slate-100 text-[11px] font-mono text-slate-600">
+              <Server size={10} />
+              {name}
+            </span>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <p className="text-xs font-medium text-slate-700 mb-1">
+          Files under OPENCLAW_ROOT <span className="font-normal text-slate-400">({plan.files.length})</span>
+        </p>
+        <div className="rounded-lg border border-slate-200 px-3">
+          {plan.files.map((file) => (
+            <FileRow key={file.path} file={file} />
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
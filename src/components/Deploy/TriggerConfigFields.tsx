@@ -3,16 +3,26 @@
 // Renders trigger-specific configuration inputs based on selected trigger type
 // =============================================================================
 
-import { Clock, Globe, MessageSquare, Activity } from 'lucide-react';
+import { useEffect, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import axios from 'axios';
+import { Clock, Globe, MessageSquare, Activity, Loader2 } from 'lucide-react';
+import { fetchCronPreview } from '../../services/api';
+import type { MessagingPlatform, TriggerSettings } from '../../export/types';
 
 export type TriggerType = 'cron' | 'webhook' | 'messaging' | 'always-on';
+export type WebhookAuthType = 'bearer' | 'hmac' | 'none';
 
 export interface TriggerFormState {
   type: TriggerType;
   cronExpression: string;
   cronTimezone: string;
   webhookSlug: string;
-  messagingChannels: Array<'whatsapp' | 'telegram' | 'slack' | 'discord'>;
+  webhookAuthType: WebhookAuthType;
+  /** Saved as the system's WEBHOOK_SECRET; empty keeps the current one */
+  webhookSecret: string;
+  messagingChannels: MessagingPlatform[];
+  healthCheckEndpoint: string;
 }
 
 interface TriggerConfigFieldsProps {
@@ -20,6 +30,72 @@ interface TriggerConfigFieldsProps {
   onUpdate: (updates: Partial<TriggerFormState>) => void;
 }
 
+export function defaultTriggerForm(slug: string): TriggerFormState {
+  return {
+    type: 'cron',
+    cronExpression: '0 6 * * *',
+    cronTimezone: 'UTC',
+    webhookSlug: slug,
+    webhookAuthType: 'bearer',
+    webhookSecret: '',
+    messagingChannels: ['slack'],
+    healthCheckEndpoint: `/health/${slug}`,
+  };
+}
+
+/**
+ * Form state for a deployed trigger config, so the editor starts from what
+ * is live. The webhook secret is never sent back, so it starts empty.
+ */
+export function triggerFormFromConfig(config: unknown, slug: string): TriggerFormState {
+  const form = defaultTriggerForm(slug);
+  const c = (config ?? {}) as Record<string, unknown>;
+  switch (c.type) {
+    case 'cron':
+      return {
+        ...form,
+        cronExpression: String(c.expression ?? form.cronExpression),
+        cronTimezone: String(c.timezone ?? form.cronTimezone),
+      };
+    case 'webhook':
+      return { ...form, type: 'webhook', webhookAuthType: (c.authType as WebhookAuthType) ?? 'bearer' };
+    case 'messaging': {
+      const channels = (c.channels as Array<{ platform: MessagingPlatform; enabled: boolean }> | undefined) ?? [];
+      return {
+        ...form,
+        type: 'messaging',
+        messagingChannels: channels.filter((ch) => ch.enabled).map((ch) => ch.platform),
+      };
+    }
+    case 'always-on':
+      return {
+        ...form,
+        type: 'always-on',
+        healthCheckEndpoint: String(c.healthCheckEndpoint ?? form.healthCheckEndpoint),
+      };
+    default:
+      return form;
+  }
+}
+
+/** The settings the server expects for the selected trigger type */
+export function toTriggerSettings(form: TriggerFormState): TriggerSettings {
+  switch (form.type) {
+    case 'cron':
+      return { type: 'cron', expression: form.cronExpression.trim(), timezone: form.cronTimezone };
+    case 'webhook':
+      return {
+        type: 'webhook',
+        authType: form.webhookAuthType,
+        ...(form.webhookSecret ? { secret: form.webhookSecret } : {}),
+      };
+    case 'messaging':
+      return { type: 'messaging', channels: form.messagingChannels };
+    case 'always-on':
+      return { type: 'always-on', healthCheckEndpoint: form.healthCheckEndpoint };
+  }
+}
+
 const TRIGGER_OPTIONS: Array<{
   value: TriggerType;
   label: string;
@@ -34,6 +110,67 @@ const TRIGGER_OPTIONS: Array<{
 
 const MESSAGING_PLATFORMS = ['whatsapp', 'telegram', 'slack', 'discord'] as const;
 
+const AUTH_OPTIONS: Array<{ value: WebhookAuthType; label: string }> = [
+  { value: 'bearer', label: 'Bearer token' },
+  { value: 'hmac', label: 'HMAC signature' },
+  { value: 'none', label: 'None' },
+];
+
+const inputClass =
+  'w-full px-3 py-2 text-sm rounded-lg border border-slate-200 focus:border-blue-500 focus:ring-1 focus:ring-blue-500 outline-none';
+
+// -----------------------------------------------------------------------------
+// Cron preview — validated server-side with the same parser the scheduler uses
+// -----------------------------------------------------------------------------
+
+function CronPreview({ expression, timezone }: { expression: string; timezone: string }) {
+  // Wait for typing to settle before asking the server
+  const [debounced, setDebounced] = useState(expression.trim());
+  useEffect(() => {
+    const timer = setTimeout(() => setDebounced(expression.trim()), 400);
+    return () => clearTimeout(timer);
+  }, [expression]);
+
+  const { data, error, isFetching } = useQuery({
+    queryKey: ['cron-preview', debounced, timezone],
+    queryFn: () => fetchCronPreview(debounced, timezone),
+    enabled: debounced.length > 0,
+    retry: false,
+    staleTime: 60_000,
+  });
+
+  if (!debounced) return null;
+  if (error) {
+    const message = axios.isAxiosError(error) ? error.response?.data?.error ?? error.message : error.message;
+    return <p className="text-xs text-red-600 mt-1">{message}</p>;
+  }
+  if (!data) {
+    return isFetching ? <Loader2 size={12} className="animate-spin text-slate-400 mt-2" /> : null;
+  }
+
+  return (
+    <div className="mt-2 rounded-lg bg-slate-50 border border-slate-100 px-3 py-2">
+      <p className="text-[11px] font-medium text-slate-500 mb-1">Next {data.nextRuns.length} runs</p>
+      {data.nextRuns.length === 0 ? (
+        <p className="text-xs text-amber-700">This expression never fires.</p>
+      ) : (
+        <ul className="space-y-0.5">
+          {data.nextRuns.map((run) => (
+            <li key={run} className="text-xs text-slate-600 font-mono">
+              {new Date(run).toLocaleString(undefined, { timeZone: timezone, dateStyle: 'medium', timeStyle: 'short' })}
+              <span className="text-slate-400"> {timezone}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+// -----------------------------------------------------------------------------
+// Main Component
+// -----------------------------------------------------------------------------
+
 export default function TriggerConfigFields({ trigger, onUpdate }: TriggerConfigFieldsProps) {
   const toggleChannel = (channel: typeof MESSAGING_PLATFORMS[number]) => {
     const current = trigger.messagingChannels;
@@ -91,6 +228,7 @@ export default function TriggerConfigFields({ trigger, onUpdate }: TriggerConfig
                 e.g. <code className="bg-slate-100 px-1 rounded">0 6 * * *</code> = daily at 6 AM,{' '}
                 <code className="bg-slate-100 px-1 rounded">*/5 * * * *</code> = every 5 min
               </p>
+              <CronPreview expression={trigger.cronExpression} timezone={trigger.cronTimezone} />
             </div>
             <div>
               <label className="block text-sm font-medium text-slate-700 mb-1">Timezone</label>
@@ -128,8 +266,34 @@ export default function TriggerConfigFields({ trigger, onUpdate }: TriggerConfig
             </div>
             <p className="text-xs text-slate-400 mt-1">
               This endpoint will be created automatically on deploy.
-              Auth token will be generated and included in the deployment record.
             </p>
+            <label className="block text-sm font-medium text-slate-700 mt-3 mb-1">Authentication</label>
+            <select
+              value={trigger.webhookAuthType}
+              onChange={(e) => onUpdate({ webhookAuthType: e.target.value as WebhookAuthType })}
+              className={inputClass}
+            >
+              {AUTH_OPTIONS.map((opt) => (
+                <option key={opt.value} value={opt.value}>{opt.label}</option>
+              ))}
+            </select>
+            {trigger.webhookAuthType !== 'none' && (
+              <>
+                <input
+                  type="password"
+                  value={trigger.webhookSecret}
+                  onChange={(e) => onUpdate({ webhookSecret: e.target.value })}
+                  placeholder="Secret (min. 16 characters)"
+                  className={`${inputClass} font-mono mt-2`}
+                />
+                <p className="text-xs text-slate-400 mt-1">
+                  {trigger.webhookAuthType === 'hmac'
+                    ? 'Callers sign the body with HMAC-SHA256 in X-Webhook-Signature.'
+                    : 'Callers send Authorization: Bearer <secret>.'}{' '}
+                  Saved to the system's secrets as WEBHOOK_SECRET; leave empty to keep the current one.
+                </p>
+              </>
+            )}
           </div>
         )}
 
@@ -162,12 +326,23 @@ export default function TriggerConfigFields({ trigger, onUpdate }: TriggerConfig
         )}
 
         {trigger.type === 'always-on' && (
-          <div className="rounded-lg bg-amber-50 border border-amber-200 p-3">
-            <p className="text-sm text-amber-800">
-              This system will run as a persistent daemon with automatic restarts.
-              A health check endpoint at <code className="bg-amber-100 px-1 rounded text-xs">/health/{trigger.webhookSlug}</code> will
-              be polled every 30 seconds.
-            </p>
+          <div className="space-y-3">
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">Health Check Endpoint</label>
+              <input
+                type="text"
+                value={trigger.healthCheckEndpoint}
+                onChange={(e) => onUpdate({ healthCheckEndpoint: e.target.value })}
+                placeholder={`/health/${trigger.webhookSlug}`}
+                className={`${inputClass} font-mono`}
+              />
+            </div>
+            <div className="rounded-lg bg-amber-50 border border-amber-200 p-3">
+              <p className="text-sm text-amber-800">
+                This system will run as a persistent daemon with automatic restarts.
+                The health check endpoint will be polled every 30 seconds.
+              </p>
+            </div>
           </div>
         )}
       </div>
@@ -0,0 +1,187 @@
+import { useEffect, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import axios from 'axios';
+import {
+  fetchSystemBudget,
+  updateSystemBudget,
+  BudgetLevel,
+  BudgetWindow,
+} from '../../services/api';
+import { AlertTriangle, Loader2, Wallet } from 'lucide-react';
+
+// -----------------------------------------------------------------------------
+// Constants
+// -----------------------------------------------------------------------------
+
+const BUDGET_LEVEL_STYLES: Record<BudgetLevel, { bar: string; text: string }> = {
+  ok: { bar: 'bg-emerald-500', text: 'text-slate-700' },
+  warning: { bar: 'bg-amber-500', text: 'text-amber-700' },
+  exceeded: { bar: 'bg-red-500', text: 'text-red-700' },
+};
+
+// -----------------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------------
+
+function errorMessage(error: Error): string {
+  return axios.isAxiosError(error)
+    ? error.response?.data?.error ?? error.message
+    : error.message;
+}
+
+function formatUsd(value: number): string {
+  return `$${value.toFixed(2)}`;
+}
+
+/** Empty input = no limit */
+function parseLimit(value: string): number | null {
+  return value.trim() === '' ? null : Number(value);
+}
+
+// -----------------------------------------------------------------------------
+// Sub-components
+// -----------------------------------------------------------------------------
+
+function SpendBar({ window }: { window: BudgetWindow }) {
+  const style = BUDGET_LEVEL_STYLES[window.level];
+  const percent = window.limitUsd ? Math.min((window.spentUsd / window.limitUsd) * 100, 100) : 0;
+
+  return (
+    <div>
+      <div className="flex items-baseline justify-between mb-1">
+        <p className="text-[10px] text-slate-400 uppercase">
+          {window.period === 'daily' ? 'Today' : 'This month'}
+        </p>
+        <p className={`text-xs font-semibold ${style.text}`}>
+          {formatUsd(window.spentUsd)}
+          <span className="font-normal text-slate-400">
+            {window.limitUsd !== null ? ` / ${formatUsd(window.limitUsd)}` : ' · no limit'}
+          </span>
+        </p>
+      </div>
+      <div className="h-1.5 rounded-full bg-slate-100 overflow-hidden">
+        {window.limitUsd !== null && <div className={`h-full ${style.bar}`} style={{ width: `${percent}%` }} />}
+      </div>
+    </div>
+  );
+}
+
+// -----------------------------------------------------------------------------
+// Main Component
+// -----------------------------------------------------------------------------
+
+interface BudgetPanelProps {
+  slug: string;
+}
+
+export default function BudgetPanel({ slug }: BudgetPanelProps) {
+  const queryClient = useQueryClient();
+  const [daily, setDaily] = useState('');
+  const [monthly, setMonthly] = useState('');
+  const [warnPercent, setWarnPercent] = useState('80');
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['system-budget', slug],
+    queryFn: () => fetchSystemBudget(slug),
+    refetchInterval: 30000,
+  });
+
+  // Reset the form whenever the saved budget changes
+  useEffect(() => {
+    if (!data) return;
+    setDaily(data.dailyLimitUsd?.toString() ?? '');
+    setMonthly(data.monthlyLimitUsd?.toString() ?? '');
+    setWarnPercent(data.warnPercent.toString());
+  }, [data?.dailyLimitUsd, data?.monthlyLimitUsd, data?.warnPercent]);
+
+  const saveMutation = useMutation({
+    mutationFn: () =>
+      updateSystemBudget(slug, {
+        dailyLimitUsd: parseLimit(daily),
+        monthlyLimitUsd: parseLimit(monthly),
+        warnPercent: Number(warnPercent),
+      }),
+    onSuccess: (status) => queryClient.setQueryData(['system-budget', slug], status),
+  });
+
+  const dirty = data !== undefined && (
+    daily !== (data.dailyLimitUsd?.toString() ?? '') ||
+    monthly !== (data.monthlyLimitUsd?.toString() ?? '') ||
+    warnPercent !== data.warnPercent.toString()
+  );
+
+  return (
+    <div className="bg-white rounded-xl border border-slate-200 p-5">
+      <div className="flex items-center gap-2 mb-1">
+        <Wallet size={14} className="text-slate-500" />
+        <h3 className="text-sm font-semibold text-slate-800">Spend Budget</h3>
+      </div>
+      <p className="text-[11px] text-slate-400 mb-4">
+        Checked after every run. Crossing the warning threshold logs an operator action; reaching a limit stops the system.
+      </p>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-8">
+          <Loader2 size={20} className="animate-spin text-slate-400" />
+        </div>
+      ) : error ? (
+        <p className="text-xs text-red-700 text-center py-4">Failed to load budget: {errorMessage(error)}</p>
+      ) : data ? (
+        <>
+          {data.level === 'exceeded' && (
+            <div className="flex items-center gap-2 mb-3 p-3 bg-red-50 border border-red-200 rounded-lg text-xs text-red-700">
+              <AlertTriangle size={14} className="shrink-0" />
+              Budget exceeded. Raise the limit before starting the system again.
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {data.windows.map((window) => (
+              <SpendBar key={window.period} window={window} />
+            ))}
+          </div>
+
+          <div className="flex items-end gap-2 mt-4 pt-4 border-t border-slate-100">
+            <label className="flex-1 text-[10px] text-slate-400 uppercase">
+              Daily limit (USD)
+              <input
+                type="number" min="0" step="0.01" value={daily} placeholder="No limit"
+                onChange={(e) => setDaily(e.target.value)}
+                className="mt-1 w-full px-2.5 py-1.5 text-xs text-slate-700 border border-slate-200 rounded-md focus:outline-none focus:ring-1 focus:ring-indigo-400"
+              />
+            </label>
+            <label className="flex-1 text-[10px] text-slate-400 uppercase">
+              Monthly limit (USD)
+              <input
+                type="number" min="0" step="0.01" value={monthly} placeholder="No limit"
+                onChange={(e) => setMonthly(e.target.value)}
+                className="mt-1 w-full px-2.5 py-1.5 text-xs text-slate-700 border border-slate-200 rounded-md focus:outline-none focus:ring-1 focus:ring-indigo-400"
+              />
+            </label>
+            <label className="w-24 text-[10px] text-slate-400 uppercase">
+              Warn at %
+              <input
+                type="number" min="1" max="100" value={warnPercent}
+                onChange={(e) => setWarnPercent(e.target.value)}
+                className="mt-1 w-full px-2.5 py-1.5 text-xs text-slate-700 border border-slate-200 rounded-md focus:outline-none focus:ring-1 focus:ring-indigo-400"
+              />
+            </label>
+            <button
+              onClick={() => saveMutation.mutate()}
+              disabled={!dirty || saveMutation.isPending}
+              className="px-3 py-1.5 text-[11px] font-medium text-white bg-indigo-600 hover:bg-indigo-700 rounded-md transition-colors disabled:opacity-50"
+            >
+              Save
+            </button>
+          </div>
+        </>
+      ) : null}
+
+      {saveMutation.error && (
+        <div className="mt-3 p-3 bg-red-50 border border-red-200 rounded-lg text-xs text-red-700">
+          {errorMessage(saveMutation.error)}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,128 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import axios from 'axios';
+import { fetchSystemVersions, rollbackSystem, DeploymentVersion } from '../../services/api';
+import { CheckCircle, Clock, GitBranch, Loader2, RotateCcw } from 'lucide-react';
+
+// -----------------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------------
+
+function formatDate(dateString: string): string {
+  return new Date(dateString).toLocaleString();
+}
+
+// -----------------------------------------------------------------------------
+// Sub-components
+// -----------------------------------------------------------------------------
+
+function VersionRow({
+  version,
+  isCurrent,
+  onRollback,
+  isLoading,
+}: {
+  version: DeploymentVersion;
+  isCurrent: boolean;
+  onRollback: () => void;
+  isLoading: boolean;
+}) {
+  return (
+    <div className="flex items-center gap-3 py-2 px-3 rounded-lg hover:bg-slate-50 transition-colors">
+      <span className="text-xs font-mono font-semibold text-slate-800 shrink-0">
+        v{version.version}
+      </span>
+      <span className="flex-1 text-[11px] text-slate-500 truncate">
+        {version.manifestJson.nodeCount} nodes · {version.manifestJson.edgeCount} edges
+      </span>
+      <span className="text-[10px] text-slate-400 shrink-0 flex items-center gap-1">
+        <Clock size={10} />
+        {formatDate(version.createdAt)}
+      </span>
+      {isCurrent ? (
+        <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-[10px] font-medium bg-emerald-100 text-emerald-700 shrink-0">
+          <CheckCircle size={10} />
+          Live
+        </span>
+      ) : (
+        <button
+          onClick={onRollback}
+          disabled={isLoading}
+          className="flex items-center gap-1 px-2.5 py-1 text-[11px] font-medium text-slate-700 bg-white border border-slate-200 hover:bg-slate-50 rounded-md transition-colors disabled:opacity-50 shrink-0"
+        >
+          <RotateCcw size={11} />
+          Roll back
+        </button>
+      )}
+    </div>
+  );
+}
+
+// -----------------------------------------------------------------------------
+// Main Component
+// -----------------------------------------------------------------------------
+
+interface DeploymentVersionsPanelProps {
+  slug: string;
+}
+
+export default function DeploymentVersionsPanel({ slug }: DeploymentVersionsPanelProps) {
+  const queryClient = useQueryClient();
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['system-versions', slug],
+    queryFn: () => fetchSystemVersions(slug),
+  });
+
+  const rollbackMutation = useMutation({
+    mutationFn: (version: string) => rollbackSystem(slug, version),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['system-versions', slug] });
+      queryClient.invalidateQueries({ queryKey: ['system', slug] });
+      queryClient.invalidateQueries({ queryKey: ['system-processes', slug] });
+      queryClient.invalidateQueries({ queryKey: ['systems'] });
+    },
+  });
+
+  const versions = data?.versions ?? [];
+  const rollbackError = rollbackMutation.error;
+
+  return (
+    <div className="bg-white rounded-xl border border-slate-200 p-5">
+      <div className="flex items-center gap-2 mb-4">
+        <GitBranch size={14} className="text-slate-500" />
+        <h3 className="text-sm font-semibold text-slate-800">Deployment Versions</h3>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-8">
+          <Loader2 size={20} className="animate-spin text-slate-400" />
+        </div>
+      ) : versions.length === 0 ? (
+        <p className="text-xs text-slate-400 text-center py-4">
+          No versions recorded. Redeploy this system to start tracking versions.
+        </p>
+      ) : (
+        <div className="space-y-1">
+          {versions.map((version) => (
+            <VersionRow
+              key={version.id}
+              version={version}
+              isCurrent={version.version === data?.currentVersion}
+              onRollback={() => rollbackMutation.mutate(version.version)}
+              isLoading={rollbackMutation.isPending}
+            />
+          ))}
+        </div>
+      )}
+
+      {rollbackError && (
+        <div className="mt-3 p-3 bg-red-50 border border-red-200 rounded-lg text-xs text-red-700">
+          Rollback failed:{' '}
+          {axios.isAxiosError(rollbackError)
+            ? rollbackError.response?.data?.error ?? rollbackError.message
+            : rollbackError.message}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,359 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import {
+  fetchExecutionLogs,
+  fetchExecutionLog,
+  triggerSystem,
+  cancelQueuedRun,
+  ExecutionLog,
+  ExecutionStatus,
+  ExecutionTriggeredBy,
+  SystemManifest,
+} from '../../services/api';
+import {
+  ChevronDown,
+  ChevronLeft,
+  ChevronRight,
+  ChevronUp,
+  Clock,
+  DollarSign,
+  ExternalLink,
+  Filter,
+  History,
+  Loader2,
+  Play,
+  XCircle,
+} from 'lucide-react';
+
+// -----------------------------------------------------------------------------
+// Constants
+// -----------------------------------------------------------------------------
+
+const PAGE_SIZE = 20;
+
+const STATUS_BADGES: Record<ExecutionStatus, { label: string; color: string }> = {
+  queued: { label: 'Queued', color: 'bg-slate-100 text-slate-600' },
+  running: { label: 'Running', color: 'bg-blue-100 text-blue-700' },
+  completed: { label: 'Completed', color: 'bg-emerald-100 text-emerald-700' },
+  failed: { label: 'Failed', color: 'bg-red-100 text-red-700' },
+  qa_failed: { label: 'QA Failed', color: 'bg-amber-100 text-amber-700' },
+  cancelled: { label: 'Cancelled', color: 'bg-slate-100 text-slate-400' },
+};
+
+const TRIGGER_LABELS: Record<ExecutionTriggeredBy, string> = {
+  cron: 'Cron',
+  webhook: 'Webhook',
+  messaging: 'Messaging',
+  manual: 'Manual',
+  operator: 'Operator',
+  'qa-remediation': 'QA Remediation',
+};
+
+// -----------------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------------
+
+function formatDate(dateString: string | null): string {
+  return dateString ? new Date(dateString).toLocaleString() : '—';
+}
+
+function formatDuration(seconds: number | null): string {
+  if (seconds === null) return '—';
+  if (seconds < 60) return `${seconds}s`;
+  return `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+}
+
+function formatCost(cost: number | null): string {
+  return cost === null ? '—' : `$${cost.toFixed(4)}`;
+}
+
+// -----------------------------------------------------------------------------
+// Sub-components
+// -----------------------------------------------------------------------------
+
+function ExecutionDetail({ slug, id }: { slug: string; id: string }) {
+  const queryClient = useQueryClient();
+  const { data: log, isLoading } = useQuery({
+    queryKey: ['execution-log', slug, id],
+    queryFn: () => fetchExecutionLog(slug, id),
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: () => cancelQueuedRun(slug, id),
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['execution-log', slug, id] });
+      queryClient.invalidateQueries({ queryKey: ['execution-logs', slug] });
+      queryClient.invalidateQueries({ queryKey: ['system-queue', slug] });
+    },
+  });
+
+  if (isLoading || !log) {
+    return (
+      <div className="flex items-center justify-center py-4">
+        <Loader2 size={16} className="animate-spin text-slate-400" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="px-3 pb-3 pt-1 space-y-3 text-xs">
+      <div className="grid grid-cols-3 gap-3">
+        <div>
+          <p className="text-[10px] text-slate-400 uppercase">Phases</p>
+          <p className="text-slate-700">{log.phasesCompleted ?? 0} / {log.phasesTotal ?? '?'}</p>
+        </div>
+        <div>
+          <p className="text-[10px] text-slate-400 uppercase">Completed</p>
+          <p className="text-slate-700">{formatDate(log.completedAt)}</p>
+        </div>
+        <div>
+          <p className="text-[10px] text-slate-400 uppercase">Output</p>
+          {log.outputUrl ? (
+            <a href={log.outputUrl} target="_blank" rel="noreferrer"
+              className="text-indigo-600 hover:underline inline-flex items-center gap-1">
+              {log.outputType ?? 'Open'} <ExternalLink size={10} />
+            </a>
+          ) : (
+            <p className="text-slate-700">—</p>
+          )}
+        </div>
+      </div>
+
+      {log.status === 'queued' && (
+        <div className="flex items-center justify-between p-2 bg-slate-50 border border-slate-100 rounded">
+          <span className="text-slate-600">Queued {formatDate(log.queuedAt)} — waiting for a free run slot.</span>
+          <button
+            onClick={() => cancelMutation.mutate()}
+            disabled={cancelMutation.isPending}
+            className="flex items-center gap-1 px-2 py-1 text-[11px] font-medium text-red-700 bg-red-50 hover:bg-red-100 rounded-md transition-colors disabled:opacity-50"
+          >
+            {cancelMutation.isPending ? <Loader2 size={12} className="animate-spin" /> : <XCircle size={12} />}
+            Cancel
+          </button>
+        </div>
+      )}
+
+      {log.errorMessage && (
+        <div className="p-2 bg-red-50 border border-red-200 rounded text-red-700">{log.errorMessage}</div>
+      )}
+
+      {log.qaScores && Object.keys(log.qaScores).length > 0 && (
+        <div>
+          <p className="text-[10px] text-slate-400 uppercase mb-1">QA Scores</p>
+          <div className="flex flex-wrap gap-1.5">
+            {Object.entries(log.qaScores).map(([dimension, score]) => (
+              <span key={dimension}
+                className={`px-2 py-0.5 rounded-full text-[10px] font-medium ${score >= 85 ? 'bg-emerald-100 text-emerald-700' : 'bg-red-100 text-red-700'}`}>
+                {dimension}: {score}
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {log.triggerInput !== null && log.triggerInput !== undefined && (
+        <div>
+          <p className="text-[10px] text-slate-400 uppercase mb-1">Inputs</p>
+          <pre className="p-2 bg-slate-50 border border-slate-100 rounded text-[11px] text-slate-600 overflow-x-auto">
+            {JSON.stringify(log.triggerInput, null, 2)}
+          </pre>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function ExecutionRow({ slug, log, expanded, onToggle }: {
+  slug: string; log: ExecutionLog; expanded: boolean; onToggle: () => void;
+}) {
+  const badge = STATUS_BADGES[log.status] ?? STATUS_BADGES.running;
+
+  return (
+    <div className="rounded-lg border border-transparent hover:border-slate-100">
+      <button onClick={onToggle}
+        className="w-full flex items-center gap-3 py-2 px-3 rounded-lg hover:bg-slate-50 transition-colors text-left">
+        <span className={`inline-flex px-2 py-0.5 rounded-full text-[10px] font-medium shrink-0 ${badge.color}`}>
+          {badge.label}
+        </span>
+        <span className="text-xs text-slate-600 w-24 shrink-0">
+          {TRIGGER_LABELS[log.triggeredBy] ?? log.triggeredBy}
+        </span>
+        <span className="flex-1 text-[11px] text-slate-400 flex items-center gap-1">
+          <Clock size={10} />
+          {formatDate(log.startedAt ?? log.queuedAt)}
+        </span>
+        <span className="text-[11px] text-slate-500 w-16 text-right">{formatDuration(log.durationSeconds)}</span>
+        <span className="text-[11px] text-slate-500 w-20 text-right flex items-center justify-end gap-0.5">
+          <DollarSign size={10} />
+          {formatCost(log.costUsd).replace('$', '')}
+        </span>
+        {expanded ? <ChevronUp size={14} className="text-slate-400" /> : <ChevronDown size={14} className="text-slate-400" />}
+      </button>
+      {expanded && <ExecutionDetail slug={slug} id={log.id} />}
+    </div>
+  );
+}
+
+function ManualTriggerForm({ slug, manifest }: { slug: string; manifest: SystemManifest }) {
+  const queryClient = useQueryClient();
+  const [inputs, setInputs] = useState<Record<string, string>>({});
+
+  const triggerMutation = useMutation({
+    mutationFn: () => triggerSystem(slug, inputs),
+    onSuccess: () => {
+      setInputs({});
+      queryClient.invalidateQueries({ queryKey: ['execution-logs', slug] });
+    },
+  });
+
+  const missingRequired = manifest.requiredInputs.some((i) => i.required && !inputs[i.name]?.trim());
+
+  return (
+    <div className="mb-4 p-3 bg-slate-50 border border-slate-100 rounded-lg space-y-2">
+      {manifest.requiredInputs.map((input) => (
+        <div key={input.name}>
+          <label className="block text-[11px] font-medium text-slate-600 mb-0.5">
+            {input.name}{input.required && <span className="text-red-500"> *</span>}
+          </label>
+          <input
+            type="text"
+            value={inputs[input.name] ?? ''}
+            placeholder={input.description}
+            onChange={(e) => setInputs((prev) => ({ ...prev, [input.name]: e.target.value }))}
+            className="w-full px-2 py-1.5 text-xs border border-slate-200 rounded bg-white"
+          />
+        </div>
+      ))}
+      <div className="flex items-center justify-between">
+        {triggerMutation.isError ? (
+          <span className="text-[11px] text-red-600">Failed to start run.</span>
+        ) : triggerMutation.isSuccess ? (
+          <span className="text-[11px] text-emerald-600">
+            Run {triggerMutation.data.status === 'queued' ? 'queued' : 'started'}: {triggerMutation.data.executionId.slice(0, 8)}
+          </span>
+        ) : (
+          <span />
+        )}
+        <button
+          onClick={() => triggerMutation.mutate()}
+          disabled={missingRequired || triggerMutation.isPending}
+          className="flex items-center gap-1 px-3 py-1.5 text-[11px] font-medium text-emerald-700 bg-emerald-100 hover:bg-emerald-200 rounded-md transition-colors disabled:opacity-50"
+        >
+          {triggerMutation.isPending ? <Loader2 size={12} className="animate-spin" /> : <Play size={12} />}
+          Run Now
+        </button>
+      </div>
+    </div>
+  );
+}
+
+// -----------------------------------------------------------------------------
+// Main Component
+// -----------------------------------------------------------------------------
+
+interface ExecutionHistoryPanelProps {
+  slug: string;
+  manifest: SystemManifest;
+}
+
+export default function ExecutionHistoryPanel({ slug, manifest }: ExecutionHistoryPanelProps) {
+  const [statusFilter, setStatusFilter] = useState<ExecutionStatus | ''>('');
+  const [triggerFilter, setTriggerFilter] = useState<ExecutionTriggeredBy | ''>('');
+  const [page, setPage] = useState(0);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [showTrigger, setShowTrigger] = useState(false);
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['execution-logs', slug, statusFilter, triggerFilter, page],
+    queryFn: () =>
+      fetchExecutionLogs(slug, {
+        status: statusFilter || undefined,
+        triggeredBy: triggerFilter || undefined,
+        limit: PAGE_SIZE,
+        offset: page * PAGE_SIZE,
+      }),
+    refetchInterval: 15000,
+  });
+
+  const logs = data?.logs ?? [];
+  const total = data?.total ?? 0;
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  return (
+    <div className="bg-white rounded-xl border border-slate-200 p-5">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-sm font-semibold text-slate-800 flex items-center gap-2">
+          <History size={14} className="text-slate-500" />
+          Execution History
+          <span className="text-xs font-normal text-slate-400">({total})</span>
+        </h3>
+        <div className="flex items-center gap-2">
+          <Filter size={14} className="text-slate-400" />
+          <select
+            value={statusFilter}
+            onChange={(e) => { setStatusFilter(e.target.value as ExecutionStatus | ''); setPage(0); }}
+            className="text-xs border border-slate-200 rounded px-2 py-1 text-slate-600"
+          >
+            <option value="">All Statuses</option>
+            {Object.entries(STATUS_BADGES).map(([value, { label }]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+          <select
+            value={triggerFilter}
+            onChange={(e) => { setTriggerFilter(e.target.value as ExecutionTriggeredBy | ''); setPage(0); }}
+            className="text-xs border border-slate-200 rounded px-2 py-1 text-slate-600"
+          >
+            <option value="">All Triggers</option>
+            {Object.entries(TRIGGER_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+          <button
+            onClick={() => setShowTrigger((v) => !v)}
+            className="flex items-center gap-1 px-2.5 py-1 text-[11px] font-medium text-slate-700 border border-slate-200 hover:bg-slate-50 rounded-md transition-colors"
+          >
+            <Play size={12} />
+            Trigger
+          </button>
+        </div>
+      </div>
+
+      {showTrigger && <ManualTriggerForm slug={slug} manifest={manifest} />}
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-8">
+          <Loader2 size={20} className="animate-spin text-slate-400" />
+        </div>
+      ) : logs.length === 0 ? (
+        <p className="text-xs text-slate-400 text-center py-4">No executions recorded.</p>
+      ) : (
+        <div className="space-y-1">
+          {logs.map((log) => (
+            <ExecutionRow
+              key={log.id}
+              slug={slug}
+              log={log}
+              expanded={expandedId === log.id}
+              onToggle={() => setExpandedId(expandedId === log.id ? null : log.id)}
+            />
+          ))}
+        </div>
+      )}
+
+      {pageCount > 1 && (
+        <div className="flex items-center justify-end gap-2 mt-3 text-[11px] text-slate-500">
+          <button onClick={() => setPage((p) => p - 1)} disabled={page === 0}
+            className="p-1 rounded hover:bg-slate-100 disabled:opacity-40">
+            <ChevronLeft size={14} />
+          </button>
+          Page {page + 1} of {pageCount}
+          <button onClick={() => setPage((p) => p + 1)} disabled={page + 1 >= pageCount}
+            className="p-1 rounded hover:bg-slate-100 disabled:opacity-40">
+            <ChevronRight size={14} />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,242 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import {
+  fetchSystemMetrics,
+  fetchFleetMetrics,
+  FleetMetrics,
+  MetricsBucket,
+  MetricsPoint,
+} from '../../services/api';
+import { BarChart3, Loader2 } from 'lucide-react';
+
+// -----------------------------------------------------------------------------
+// Constants
+// -----------------------------------------------------------------------------
+
+const BUCKET_LABELS: Record<MetricsBucket, string> = {
+  hour: 'Last 24h',
+  day: 'Last 30 days',
+  week: 'Last 12 weeks',
+};
+
+const QA_COLORS = ['#6366f1', '#10b981', '#f59e0b', '#ec4899', '#0ea5e9', '#8b5cf6'];
+
+const CHART_WIDTH = 300;
+const CHART_HEIGHT = 64;
+
+// -----------------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------------
+
+function formatCost(value: number): string {
+  return `$${value.toFixed(2)}`;
+}
+
+function formatDuration(value: number): string {
+  return value < 60 ? `${Math.round(value)}s` : `${Math.floor(value / 60)}m ${Math.round(value % 60)}s`;
+}
+
+function formatPercent(value: number): string {
+  return `${(value * 100).toFixed(1)}%`;
+}
+
+function formatBucket(bucketStart: string, bucket: MetricsBucket): string {
+  const date = new Date(bucketStart);
+  return bucket === 'hour'
+    ? date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+    : date.toLocaleDateString([], { month: 'short', day: 'numeric' });
+}
+
+// -----------------------------------------------------------------------------
+// Sub-components
+// -----------------------------------------------------------------------------
+
+interface ChartSeries {
+  label: string;
+  color: string;
+  value: (point: MetricsPoint) => number | null;
+}
+
+/**
+ * Minimal SVG chart: bars for the first series when `kind` is "bar",
+ * otherwise one line per series. Buckets without a value break the line.
+ */
+function MetricChart({ title, summary, points, series, kind, bucket, format }: {
+  title: string;
+  summary: string;
+  points: MetricsPoint[];
+  series: ChartSeries[];
+  kind: 'bar' | 'line';
+  bucket: MetricsBucket;
+  format: (value: number) => string;
+}) {
+  const values = series.flatMap((s) => points.map(s.value)).filter((v): v is number => v !== null);
+  const max = Math.max(...values, 0) || 1;
+  const step = CHART_WIDTH / Math.max(points.length, 1);
+  const y = (value: number) => CHART_HEIGHT - (value / max) * CHART_HEIGHT;
+
+  return (
+    <div className="p-3 border border-slate-100 rounded-lg">
+      <div className="flex items-baseline justify-between mb-2">
+        <p className="text-[10px] text-slate-400 uppercase">{title}</p>
+        <p className="text-xs font-semibold text-slate-700">{summary}</p>
+      </div>
+      <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} preserveAspectRatio="none" className="w-full h-16">
+        {kind === 'bar'
+          ? points.map((point, i) => {
+              const value = series[0].value(point) ?? 0;
+              return (
+                <rect key={point.bucketStart} x={i * step + step * 0.15} y={y(value)} width={step * 0.7}
+                  height={CHART_HEIGHT - y(value)} fill={series[0].color}>
+                  <title>{`${formatBucket(point.bucketStart, bucket)}: ${format(value)}`}</title>
+                </rect>
+              );
+            })
+          : series.map((s) => {
+              // One polyline per run of consecutive buckets that have a value
+              const segments: Array<Array<[number, number]>> = [[]];
+              points.forEach((point, i) => {
+                const value = s.value(point);
+                if (value === null) segments.push([]);
+                else segments[segments.length - 1].push([i * step + step / 2, y(value)]);
+              });
+              return segments.filter((seg) => seg.length > 0).map((seg, i) => (
+                seg.length === 1 ? (
+                  <circle key={`${s.label}-${i}`} cx={seg[0][0]} cy={seg[0][1]} r={1.5} fill={s.color} />
+                ) : (
+                  <polyline key={`${s.label}-${i}`} points={seg.map(([px, py]) => `${px},${py}`).join(' ')}
+                    fill="none" stroke={s.color} strokeWidth={1.5} vectorEffect="non-scaling-stroke" />
+                )
+              ));
+            })}
+      </svg>
+      <div className="flex items-center justify-between mt-1 text-[10px] text-slate-400">
+        <span>{points.length > 0 && formatBucket(points[0].bucketStart, bucket)}</span>
+        {series.length > 1 && (
+          <span className="flex items-center gap-2 flex-wrap justify-center">
+            {series.map((s) => (
+              <span key={s.label} className="flex items-center gap-1">
+                <span className="w-2 h-2 rounded-full" style={{ backgroundColor: s.color }} />
+                {s.label}
+              </span>
+            ))}
+          </span>
+        )}
+        <span>{points.length > 0 && formatBucket(points[points.length - 1].bucketStart, bucket)}</span>
+      </div>
+    </div>
+  );
+}
+
+// -----------------------------------------------------------------------------
+// Main Component
+// -----------------------------------------------------------------------------
+
+interface MetricsPanelProps {
+  /** Metrics for one system; omitted for the whole fleet */
+  slug?: string;
+}
+
+export default function MetricsPanel({ slug }: MetricsPanelProps) {
+  const [bucket, setBucket] = useState<MetricsBucket>('day');
+
+  const { data, isLoading } = useQuery({
+    queryKey: slug ? ['system-metrics', slug, bucket] : ['fleet-metrics', bucket],
+    queryFn: () => (slug ? fetchSystemMetrics(slug, bucket) : fetchFleetMetrics(bucket)),
+    refetchInterval: 60000,
+  });
+
+  const points = data?.points ?? [];
+  const totals = data?.totals;
+  const qaDimensions = totals ? Object.keys(totals.qaScores) : [];
+  const fleetSystems = !slug && data ? (data as FleetMetrics).systems : [];
+
+  return (
+    <div className="bg-white rounded-xl border border-slate-200 p-5">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-sm font-semibold text-slate-800 flex items-center gap-2">
+          <BarChart3 size={14} className="text-slate-500" />
+          {slug ? 'Metrics' : 'Fleet Metrics'}
+        </h3>
+        <select
+          value={bucket}
+          onChange={(e) => setBucket(e.target.value as MetricsBucket)}
+          className="text-xs border border-slate-200 rounded px-2 py-1 text-slate-600"
+        >
+          {Object.entries(BUCKET_LABELS).map(([value, label]) => (
+            <option key={value} value={value}>{label}</option>
+          ))}
+        </select>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-8">
+          <Loader2 size={20} className="animate-spin text-slate-400" />
+        </div>
+      ) : !totals ? (
+        <p className="text-xs text-red-600 text-center py-4">Failed to load metrics.</p>
+      ) : totals.executions === 0 ? (
+        <p className="text-xs text-slate-400 text-center py-4">No runs in this period.</p>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <MetricChart title="Executions" summary={`${totals.executions}`} points={points} bucket={bucket} kind="bar"
+              series={[{ label: 'Executions', color: '#6366f1', value: (p) => p.executions }]} format={String} />
+            <MetricChart title="Cost" summary={formatCost(totals.costUsd)} points={points} bucket={bucket} kind="bar"
+              series={[{ label: 'Cost', color: '#10b981', value: (p) => p.costUsd }]} format={formatCost} />
+            <MetricChart
+              title="Duration"
+              summary={totals.p50DurationSeconds !== null ? `p50 ${formatDuration(totals.p50DurationSeconds)}` : '—'}
+              points={points} bucket={bucket} kind="line" format={formatDuration}
+              series={[
+                { label: 'p50', color: '#0ea5e9', value: (p) => p.p50DurationSeconds },
+                { label: 'p95', color: '#f59e0b', value: (p) => p.p95DurationSeconds },
+              ]}
+            />
+            <MetricChart
+              title="Failure rate"
+              summary={totals.failureRate !== null ? formatPercent(totals.failureRate) : '—'}
+              points={points} bucket={bucket} kind="line" format={formatPercent}
+              series={[
+                { label: 'Failed', color: '#ef4444', value: (p) => p.failureRate },
+                { label: 'QA failed', color: '#f59e0b', value: (p) => p.qaFailedRate },
+              ]}
+            />
+            {qaDimensions.length > 0 && (
+              <div className="md:col-span-2">
+                <MetricChart
+                  title="QA scores"
+                  summary={qaDimensions.map((d) => `${d} ${totals.qaScores[d]}`).slice(0, 3).join(' · ')}
+                  points={points} bucket={bucket} kind="line" format={String}
+                  series={qaDimensions.map((dimension, i) => ({
+                    label: dimension,
+                    color: QA_COLORS[i % QA_COLORS.length],
+                    value: (p: MetricsPoint) => p.qaScores[dimension] ?? null,
+                  }))}
+                />
+              </div>
+            )}
+          </div>
+
+          {fleetSystems.length > 0 && (
+            <div className="mt-4">
+              <p className="text-[10px] text-slate-400 uppercase mb-1">Cost by system</p>
+              <div className="space-y-1">
+                {fleetSystems.slice(0, 5).map((system) => (
+                  <div key={system.systemSlug} className="flex items-center gap-3 text-xs">
+                    <span className="flex-1 text-slate-700 truncate">{system.systemSlug}</span>
+                    <span className="text-slate-400 w-20 text-right">{system.executions} runs</span>
+                    <span className="text-slate-400 w-16 text-right">
+                      {system.failureRate !== null ? formatPercent(system.failureRate) : '—'}
+                    </span>
+                    <span className="text-slate-700 font-medium w-16 text-right">{formatCost(system.costUsd)}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -5,8 +5,14 @@ import {
   fetchPendingActions,
   approveAction,
   rejectAction,
+  fetchOperatorRuns,
+  fetchOperatorSchedules,
+  runOperatorNow,
   OperatorType,
   OperatorAction,
+  OperatorRun,
+  OperatorRunStatus,
+  OperatorSchedule,
 } from '../../services/api';
 import {
   AlertTriangle,
@@ -14,6 +20,7 @@ import {
   Clock,
   Filter,
   Loader2,
+  Play,
   Shield,
   TrendingUp,
   Wrench,
@@ -45,6 +52,13 @@ const OPERATOR_BADGES: Record<
   },
 };
 
+const RUN_STATUS_COLORS: Record<OperatorRunStatus, string> = {
+  running: 'bg-blue-100 text-blue-700',
+  completed: 'bg-emerald-100 text-emerald-700',
+  failed: 'bg-red-100 text-red-700',
+  skipped: 'bg-slate-100 text-slate-500',
+};
+
 // -----------------------------------------------------------------------------
 // Helpers
 // -----------------------------------------------------------------------------
@@ -153,6 +167,73 @@ function ActionRow({ action }: { action: OperatorAction }) {
   );
 }
 
+function ScheduleRow({
+  schedule,
+  onRunNow,
+  isStarting,
+}: {
+  schedule: OperatorSchedule;
+  onRunNow: () => void;
+  isStarting: boolean;
+}) {
+  const badge = OPERATOR_BADGES[schedule.operatorType];
+
+  return (
+    <div className="flex items-center gap-3 py-2 px-3 rounded-lg bg-slate-50">
+      <span
+        className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-[10px] font-medium shrink-0 ${badge.color}`}
+      >
+        {badge.icon}
+        {badge.label}
+      </span>
+      <span className="flex-1 text-[11px] text-slate-600 truncate">
+        {schedule.cron ? (
+          <>
+            <code className="font-mono">{schedule.cron}</code>
+            {schedule.nextRunAt && (
+              <span className="text-slate-400"> · next {formatDate(schedule.nextRunAt)}</span>
+            )}
+          </>
+        ) : schedule.operatorType === 'remediation' ? (
+          'On failing QA scores'
+        ) : (
+          'Not scheduled'
+        )}
+      </span>
+      <button
+        onClick={onRunNow}
+        disabled={schedule.running || isStarting}
+        className="flex items-center gap-1 px-2.5 py-1 text-[11px] font-medium text-slate-700 bg-white border border-slate-200 hover:bg-slate-100 rounded-md transition-colors disabled:opacity-50 shrink-0"
+      >
+        {schedule.running ? <Loader2 size={12} className="animate-spin" /> : <Play size={12} />}
+        {schedule.running ? 'Running' : 'Run now'}
+      </button>
+    </div>
+  );
+}
+
+function RunRow({ run }: { run: OperatorRun }) {
+  const badge = OPERATOR_BADGES[run.operatorType];
+
+  return (
+    <div className="flex items-center gap-3 py-1.5 px-3 rounded-lg hover:bg-slate-50 transition-colors">
+      <span className={`inline-flex px-2 py-0.5 rounded-full text-[10px] font-medium shrink-0 ${badge.color}`}>
+        {badge.label}
+      </span>
+      <p className="flex-1 text-xs text-slate-700 truncate" title={run.error ?? run.summary ?? undefined}>
+        {run.error ?? run.summary ?? `${run.trigger} run`}
+      </p>
+      <span className={`inline-flex px-2 py-0.5 rounded-full text-[10px] font-medium shrink-0 ${RUN_STATUS_COLORS[run.status]}`}>
+        {run.status}
+      </span>
+      <span className="text-[10px] text-slate-400 shrink-0 flex items-center gap-1">
+        <Clock size={10} />
+        {formatDate(run.startedAt)}
+      </span>
+    </div>
+  );
+}
+
 // -----------------------------------------------------------------------------
 // Main Component
 // -----------------------------------------------------------------------------
@@ -200,6 +281,26 @@ export default function OperatorActionsPanel({
     },
   });
 
+  const { data: schedulesData } = useQuery({
+    queryKey: ['operator-schedules'],
+    queryFn: fetchOperatorSchedules,
+    refetchInterval: 15000,
+  });
+
+  const { data: runsData } = useQuery({
+    queryKey: ['operator-runs', filter],
+    queryFn: () => fetchOperatorRuns({ operatorType: filter || undefined, limit: 10 }),
+    refetchInterval: 15000,
+  });
+
+  const runNowMutation = useMutation({
+    mutationFn: runOperatorNow,
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['operator-schedules'] });
+      queryClient.invalidateQueries({ queryKey: ['operator-runs'] });
+    },
+  });
+
   const pendingActions = pendingData?.actions ?? [];
   const allActions = actionsData?.actions ?? [];
   const mutationPending = approveMutation.isPending || rejectMutation.isPending;
@@ -225,6 +326,34 @@ export default function OperatorActionsPanel({
         </div>
       </div>
 
+      {/* Operator Runs */}
+      <div className="mb-4">
+        <span className="text-xs font-semibold text-slate-600">Schedules</span>
+        <div className="space-y-1.5 mt-2">
+          {(schedulesData?.schedules ?? []).map((schedule) => (
+            <ScheduleRow
+              key={schedule.operatorType}
+              schedule={schedule}
+              onRunNow={() => runNowMutation.mutate(schedule.operatorType)}
+              isStarting={runNowMutation.isPending && runNowMutation.variables === schedule.operatorType}
+            />
+          ))}
+        </div>
+        {runNowMutation.isError && (
+          <p className="text-[11px] text-red-600 mt-1.5">
+            {runNowMutation.error instanceof Error ? runNowMutation.error.message : 'Failed to start run'}
+          </p>
+        )}
+        {(runsData?.runs.length ?? 0) > 0 && (
+          <div className="space-y-1 mt-3">
+            <span className="text-xs font-semibold text-slate-600">Recent Runs</span>
+            {runsData!.runs.map((run) => (
+              <RunRow key={run.id} run={run} />
+            ))}
+          </div>
+        )}
+      </div>
+
       {/* Pending Approvals */}
       {pendingActions.length > 0 && (
         <div className="mb-4">
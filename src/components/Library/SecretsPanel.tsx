@@ -0,0 +1,244 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import axios from 'axios';
+import {
+  fetchSystemSecrets,
+  setSystemSecret,
+  deleteSystemSecret,
+  SystemSecret,
+} from '../../services/api';
+import { AlertTriangle, KeyRound, Loader2, Plus, Trash2 } from 'lucide-react';
+
+// -----------------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------------
+
+const ENV_VAR_NAME = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+function errorMessage(error: Error): string {
+  return axios.isAxiosError(error)
+    ? error.response?.data?.error ?? error.message
+    : error.message;
+}
+
+// -----------------------------------------------------------------------------
+// Sub-components
+// -----------------------------------------------------------------------------
+
+function SecretRow({
+  secret,
+  disabled,
+  onSave,
+  onDelete,
+}: {
+  secret: SystemSecret;
+  disabled: boolean;
+  onSave: (value: string) => void;
+  onDelete: () => void;
+}) {
+  const [editing, setEditing] = useState(false);
+  const [value, setValue] = useState('');
+
+  const save = () => {
+    onSave(value);
+    setValue('');
+    setEditing(false);
+  };
+
+  return (
+    <div className="py-2.5 border-b border-slate-100 last:border-b-0">
+      <div className="flex items-center gap-3">
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center gap-2">
+            <span className="text-xs font-mono font-semibold text-slate-800 truncate">{secret.name}</span>
+            {secret.required && (
+              <span className="px-1.5 py-0.5 rounded text-[10px] font-medium bg-slate-100 text-slate-600">
+                required
+              </span>
+            )}
+          </div>
+          {secret.description && (
+            <p className="text-[11px] text-slate-400 truncate">{secret.description}</p>
+          )}
+        </div>
+        {secret.maskedValue ? (
+          <span className="text-xs font-mono text-slate-500 shrink-0">{secret.maskedValue}</span>
+        ) : (
+          <span className="px-2 py-0.5 rounded-full text-[10px] font-medium bg-amber-100 text-amber-700 shrink-0">
+            Missing
+          </span>
+        )}
+        <button
+          onClick={() => setEditing(!editing)}
+          disabled={disabled}
+          className="px-2.5 py-1 text-[11px] font-medium text-slate-700 bg-white border border-slate-200 hover:bg-slate-50 rounded-md transition-colors disabled:opacity-50 shrink-0"
+        >
+          {secret.maskedValue ? 'Replace' : 'Set'}
+        </button>
+        {secret.maskedValue && (
+          <button
+            onClick={onDelete}
+            disabled={disabled}
+            title="Delete secret"
+            className="p-1.5 text-red-600 hover:bg-red-50 rounded-md transition-colors disabled:opacity-50 shrink-0"
+          >
+            <Trash2 size={12} />
+          </button>
+        )}
+      </div>
+      {editing && (
+        <div className="flex items-center gap-2 mt-2">
+          <input
+            type="password"
+            autoFocus
+            value={value}
+            onChange={(e) => setValue(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && value && save()}
+            placeholder={`Value for ${secret.name}`}
+            className="flex-1 px-2.5 py-1.5 text-xs font-mono border border-slate-200 rounded-md focus:outline-none focus:ring-1 focus:ring-indigo-400"
+          />
+          <button
+            onClick={save}
+            disabled={!value}
+            className="px-2.5 py-1.5 text-[11px] font-medium text-white bg-indigo-600 hover:bg-indigo-700 rounded-md transition-colors disabled:opacity-50"
+          >
+            Save
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function AddSecretForm({ disabled, onAdd }: { disabled: boolean; onAdd: (name: string, value: string) => void }) {
+  const [name, setName] = useState('');
+  const [value, setValue] = useState('');
+  const validName = ENV_VAR_NAME.test(name);
+
+  const add = () => {
+    onAdd(name, value);
+    setName('');
+    setValue('');
+  };
+
+  return (
+    <div className="flex items-center gap-2 mt-4 pt-4 border-t border-slate-100">
+      <input
+        value={name}
+        onChange={(e) => setName(e.target.value.toUpperCase())}
+        placeholder="NAME"
+        className="w-40 px-2.5 py-1.5 text-xs font-mono border border-slate-200 rounded-md focus:outline-none focus:ring-1 focus:ring-indigo-400"
+      />
+      <input
+        type="password"
+        value={value}
+        onChange={(e) => setValue(e.target.value)}
+        placeholder="Value"
+        className="flex-1 px-2.5 py-1.5 text-xs font-mono border border-slate-200 rounded-md focus:outline-none focus:ring-1 focus:ring-indigo-400"
+      />
+      <button
+        onClick={add}
+        disabled={disabled || !validName || !value}
+        className="flex items-center gap-1 px-2.5 py-1.5 text-[11px] font-medium text-slate-700 bg-white border border-slate-200 hover:bg-slate-50 rounded-md transition-colors disabled:opacity-50"
+      >
+        <Plus size={11} />
+        Add
+      </button>
+    </div>
+  );
+}
+
+// -----------------------------------------------------------------------------
+// Main Component
+// -----------------------------------------------------------------------------
+
+interface SecretsPanelProps {
+  slug: string;
+}
+
+export default function SecretsPanel({ slug }: SecretsPanelProps) {
+  const queryClient = useQueryClient();
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['system-secrets', slug],
+    queryFn: () => fetchSystemSecrets(slug),
+  });
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ['system-secrets', slug] });
+
+  const saveMutation = useMutation({
+    mutationFn: ({ name, value }: { name: string; value: string }) => setSystemSecret(slug, name, value),
+    onSuccess: invalidate,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (name: string) => deleteSystemSecret(slug, name),
+    onSuccess: invalidate,
+  });
+
+  const busy = saveMutation.isPending || deleteMutation.isPending;
+  const mutationError = saveMutation.error ?? deleteMutation.error;
+
+  return (
+    <div className="bg-white rounded-xl border border-slate-200 p-5 max-w-3xl">
+      <div className="flex items-center gap-2 mb-1">
+        <KeyRound size={14} className="text-slate-500" />
+        <h3 className="text-sm font-semibold text-slate-800">Secrets</h3>
+      </div>
+      <p className="text-[11px] text-slate-400 mb-4">
+        Encrypted at rest and injected into every agent process env. Changes apply on the next restart.
+      </p>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-8">
+          <Loader2 size={20} className="animate-spin text-slate-400" />
+        </div>
+      ) : error ? (
+        <p className="text-xs text-red-700 text-center py-4">Failed to load secrets: {errorMessage(error)}</p>
+      ) : data ? (
+        <>
+          {!data.vaultEnabled && (
+            <div className="flex items-center gap-2 mb-3 p-3 bg-amber-50 border border-amber-200 rounded-lg text-xs text-amber-800">
+              <AlertTriangle size={14} className="shrink-0" />
+              The server has no ENCRYPTION_KEY configured, so secrets cannot be stored.
+            </div>
+          )}
+          {data.missing.length > 0 && (
+            <div className="flex items-center gap-2 mb-3 p-3 bg-amber-50 border border-amber-200 rounded-lg text-xs text-amber-800">
+              <AlertTriangle size={14} className="shrink-0" />
+              {data.missing.length} required {data.missing.length === 1 ? 'secret is' : 'secrets are'} missing:{' '}
+              <span className="font-mono">{data.missing.join(', ')}</span>
+            </div>
+          )}
+
+          {data.secrets.length === 0 ? (
+            <p className="text-xs text-slate-400 text-center py-4">This system declares no secrets.</p>
+          ) : (
+            <div>
+              {data.secrets.map((secret) => (
+                <SecretRow
+                  key={secret.name}
+                  secret={secret}
+                  disabled={busy || !data.vaultEnabled}
+                  onSave={(value) => saveMutation.mutate({ name: secret.name, value })}
+                  onDelete={() => deleteMutation.mutate(secret.name)}
+                />
+              ))}
+            </div>
+          )}
+
+          <AddSecretForm
+            disabled={busy || !data.vaultEnabled}
+            onAdd={(name, value) => saveMutation.mutate({ name, value })}
+          />
+        </>
+      ) : null}
+
+      {mutationError && (
+        <div className="mt-3 p-3 bg-red-50 border border-red-200 rounded-lg text-xs text-red-700">
+          {errorMessage(mutationError)}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,9 +1,15 @@
+import { useState } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import {
   fetchSystem,
+  fetchSystemSecrets,
   updateSystemStatus,
   archiveSystem,
+  fetchSystemProcesses,
+  stopSystem,
+  restartSystem,
   DeploymentStatus,
+  ProcessStatus,
   TriggerPattern,
 } from '../../services/api';
 import useStore from '../../store/useStore';
@@ -12,6 +18,14 @@ import { Activity, AlertCircle, Archive, ArrowLeft, Calendar, CheckCircle, Clock
   Timer, Webhook, XCircle } from 'lucide-react';
 import { LogStream } from './LogStream';
 import OperatorActionsPanel from './OperatorActionsPanel';
+import ExecutionHistoryPanel from './ExecutionHistoryPanel';
+import DeploymentVersionsPanel from './DeploymentVersionsPanel';
+import MetricsPanel from './MetricsPanel';
+import BudgetPanel from './BudgetPanel';
+import SecretsPanel from './SecretsPanel';
+import TriggerSettingsPanel from './TriggerSettingsPanel';
+
+type DetailTab = 'overview' | 'secrets';
 
 const STATUS_CONFIG: Record<DeploymentStatus, { label: string; color: string; bg: string; dot: string }> = {
   deployed: { label: 'Online', color: 'text-emerald-700', bg: 'bg-emerald-50', dot: 'bg-emerald-500' },
@@ -50,6 +64,38 @@ function ActionButton({ icon, label, onClick, variant = 'default', loading }: {
   );
 }
 
+const PROCESS_STATUS_DOT: Record<string, string> = {
+  online: 'bg-emerald-500',
+  launching: 'bg-amber-400',
+  stopping: 'bg-amber-400',
+  stopped: 'bg-slate-400',
+  errored: 'bg-red-500',
+};
+
+function formatMemory(bytes: number): string {
+  return `${Math.round(bytes / (1024 * 1024))} MB`;
+}
+
+function ProcessRow({ proc }: { proc: ProcessStatus }) {
+  return (
+    <div className="flex items-center justify-between py-2 border-b border-slate-100 last:border-b-0">
+      <div className="flex items-center gap-2 min-w-0">
+        <span className={`w-2 h-2 rounded-full shrink-0 ${PROCESS_STATUS_DOT[proc.status] ?? 'bg-slate-300'}`} />
+        <div className="min-w-0">
+          <p className="text-sm text-slate-800 font-medium truncate">{proc.agentSlug ?? proc.systemSlug ?? proc.name}</p>
+          <p className="text-[11px] text-slate-400 truncate">{proc.name}</p>
+        </div>
+      </div>
+      <div className="flex items-center gap-3 text-[11px] text-slate-500 shrink-0">
+        <span className="capitalize">{proc.status}</span>
+        <span>{proc.cpu}% CPU</span>
+        <span>{formatMemory(proc.memory)}</span>
+        <span>{proc.restarts} restarts</span>
+      </div>
+    </div>
+  );
+}
+
 function InfoRow({ label, value, icon }: { label: string; value: string; icon?: React.ReactNode }) {
   return (
     <div className="flex items-center justify-between py-2.5 border-b border-slate-100 last:border-b-0">
@@ -63,6 +109,7 @@ export function SystemDetail() {
   const selectedSystemSlug = useStore(state => state.selectedSystemSlug);
   const setSelectedSystemSlug = useStore(state => state.setSelectedSystemSlug);
   const queryClient = useQueryClient();
+  const [tab, setTab] = useState<DetailTab>('overview');
 
   const { data: system, isLoading, error } = useQuery({
     queryKey: ['system', selectedSystemSlug],
@@ -80,6 +127,33 @@ export function SystemDetail() {
     },
   });
 
+  const { data: processes } = useQuery({
+    queryKey: ['system-processes', selectedSystemSlug],
+    queryFn: () => fetchSystemProcesses(selectedSystemSlug!),
+    enabled: !!selectedSystemSlug,
+    refetchInterval: 10000,
+  });
+
+  // Shares the Secrets tab's query so the missing-count badge stays in sync
+  const { data: secrets } = useQuery({
+    queryKey: ['system-secrets', selectedSystemSlug],
+    queryFn: () => fetchSystemSecrets(selectedSystemSlug!),
+    enabled: !!selectedSystemSlug,
+  });
+  const missingSecrets = secrets?.missing.length ?? 0;
+
+  const processMutation = useMutation({
+    mutationFn: async (action: 'stop' | 'restart') => {
+      if (action === 'stop') await stopSystem(selectedSystemSlug!);
+      else await restartSystem(selectedSystemSlug!);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['system', selectedSystemSlug] });
+      queryClient.invalidateQueries({ queryKey: ['system-processes', selectedSystemSlug] });
+      queryClient.invalidateQueries({ queryKey: ['systems'] });
+    },
+  });
+
   const archiveMutation = useMutation({
     mutationFn: () => archiveSystem(selectedSystemSlug!),
     onSuccess: () => {
@@ -154,8 +228,8 @@ export function SystemDetail() {
             <ActionButton
               icon={<Square size={14} />}
               label="Stop"
-              onClick={() => statusMutation.mutate('stopped')}
-              loading={statusMutation.isPending}
+              onClick={() => processMutation.mutate('stop')}
+              loading={processMutation.isPending}
             />
           )}
           {system.status === 'stopped' && (
@@ -163,8 +237,8 @@ export function SystemDetail() {
               icon={<Play size={14} />}
               label="Start"
               variant="success"
-              onClick={() => statusMutation.mutate('deployed')}
-              loading={statusMutation.isPending}
+              onClick={() => processMutation.mutate('restart')}
+              loading={processMutation.isPending}
             />
           )}
           {system.status === 'errored' && (
@@ -172,8 +246,8 @@ export function SystemDetail() {
               icon={<RotateCcw size={14} />}
               label="Restart"
               variant="success"
-              onClick={() => statusMutation.mutate('deployed')}
-              loading={statusMutation.isPending}
+              onClick={() => processMutation.mutate('restart')}
+              loading={processMutation.isPending}
             />
           )}
           <ActionButton
@@ -190,91 +264,153 @@ export function SystemDetail() {
             loading={archiveMutation.isPending}
           />
         </div>
+
+        {/* Tabs */}
+        <div className="flex items-center gap-1 mt-5 -mb-5">
+          {(['overview', 'secrets'] as const).map((t) => (
+            <button
+              key={t}
+              onClick={() => setTab(t)}
+              className={`flex items-center gap-1.5 px-3 py-2 text-sm font-medium border-b-2 transition-colors ${
+                tab === t
+                  ? 'border-indigo-600 text-indigo-700'
+                  : 'border-transparent text-slate-500 hover:text-slate-700'
+              }`}
+            >
+              {t === 'overview' ? 'Overview' : 'Secrets'}
+              {t === 'secrets' && missingSecrets > 0 && (
+                <span className="px-1.5 py-0.5 rounded-full text-[10px] font-semibold bg-amber-100 text-amber-700">
+                  {missingSecrets} missing
+                </span>
+              )}
+            </button>
+          ))}
+        </div>
       </div>
 
       {/* Content */}
       <div className="flex-1 overflow-y-auto p-6">
-        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 max-w-5xl">
-          {/* System Overview */}
-          <div className="bg-white rounded-xl border border-slate-200 p-5">
-            <h3 className="text-sm font-semibold text-slate-800 mb-4">System Overview</h3>
-            <InfoRow label="Name" value={system.systemName} icon={<Server size={12} />} />
-            {manifest?.description && (
-              <InfoRow label="Description" value={manifest.description} />
-            )}
-            <InfoRow label="Version" value={manifest?.version ?? '1.0.0'} />
-            <InfoRow label="Category" value={manifest?.category ?? 'N/A'} />
-            <InfoRow label="Output Type" value={manifest?.outputType ?? 'N/A'} />
-            <InfoRow
-              label="Estimated Cost"
-              value={`$${manifest?.estimatedCostUsd?.toFixed(2) ?? '0.00'}/run`}
-              icon={<DollarSign size={12} />}
-            />
-          </div>
-
-          {/* Trigger & Deployment */}
-          <div className="bg-white rounded-xl border border-slate-200 p-5">
-            <h3 className="text-sm font-semibold text-slate-800 mb-4">Trigger & Deployment</h3>
-            <div className="flex items-center gap-2 py-2.5 border-b border-slate-100">
-              <span className="text-xs text-slate-500 flex-1">Trigger Type</span>
-              <span className="flex items-center gap-2 text-sm text-slate-800 font-medium">
-                {trigger.icon}
-                {trigger.label}
-              </span>
+        {tab === 'secrets' ? (
+          <SecretsPanel slug={system.systemSlug} />
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 max-w-5xl">
+            {/* System Overview */}
+            <div className="bg-white rounded-xl border border-slate-200 p-5">
+              <h3 className="text-sm font-semibold text-slate-800 mb-4">System Overview</h3>
+              <InfoRow label="Name" value={system.systemName} icon={<Server size={12} />} />
+              {manifest?.description && (
+                <InfoRow label="Description" value={manifest.description} />
+              )}
+              <InfoRow label="Version" value={manifest?.version ?? '1.0.0'} />
+              <InfoRow label="Category" value={manifest?.category ?? 'N/A'} />
+              <InfoRow label="Output Type" value={manifest?.outputType ?? 'N/A'} />
+              <InfoRow
+                label="Estimated Cost"
+                value={`$${manifest?.estimatedCostUsd?.toFixed(2) ?? '0.00'}/run`}
+                icon={<DollarSign size={12} />}
+              />
             </div>
-            <InfoRow label="PM2 Process" value={system.pm2ProcessName} />
-            <InfoRow
-              label="Deployed"
-              value={formatDate(system.deployedAt)}
-              icon={<Calendar size={12} />}
-            />
-            <InfoRow
-              label="Created"
-              value={formatDate(system.createdAt)}
-              icon={<Clock size={12} />}
-            />
-            <InfoRow
-              label="Last Updated"
-              value={formatDate(system.updatedAt)}
-              icon={<RefreshCw size={12} />}
-            />
-            <InfoRow
-              label="Nodes / Edges"
-              value={`${manifest?.nodeCount ?? 0} / ${manifest?.edgeCount ?? 0}`}
-            />
-          </div>
 
-          {/* PM2 Process Status */}
-          <div className="bg-white rounded-xl border border-slate-200 p-5">
-            <h3 className="text-sm font-semibold text-slate-800 mb-4">PM2 Process Status</h3>
-            <div className="flex items-center gap-4 p-4 rounded-lg bg-slate-50 border border-slate-100">
-              <div className={`w-10 h-10 rounded-xl flex items-center justify-center ${status.bg}`}>
-                {system.status === 'deployed' && <CheckCircle size={20} className="text-emerald-500" />}
-                {system.status === 'stopped' && <Square size={20} className="text-slate-400" />}
-                {system.status === 'errored' && <XCircle size={20} className="text-red-500" />}
+            {/* Trigger & Deployment */}
+            <div className="bg-white rounded-xl border border-slate-200 p-5">
+              <h3 className="text-sm font-semibold text-slate-800 mb-4">Trigger & Deployment</h3>
+              <div className="flex items-center gap-2 py-2.5 border-b border-slate-100">
+                <span className="text-xs text-slate-500 flex-1">Trigger Type</span>
+                <span className="flex items-center gap-2 text-sm text-slate-800 font-medium">
+                  {trigger.icon}
+                  {trigger.label}
+                </span>
               </div>
-              <div>
-                <p className={`text-sm font-semibold ${status.color}`}>{status.label}</p>
-                <p className="text-xs text-slate-500">{system.pm2ProcessName}</p>
+              <InfoRow label="PM2 Process" value={system.pm2ProcessName} />
+              <InfoRow
+                label="Deployed"
+                value={formatDate(system.deployedAt)}
+                icon={<Calendar size={12} />}
+              />
+              <InfoRow
+                label="Created"
+                value={formatDate(system.createdAt)}
+                icon={<Clock size={12} />}
+              />
+              <InfoRow
+                label="Last Updated"
+                value={formatDate(system.updatedAt)}
+                icon={<RefreshCw size={12} />}
+              />
+              <InfoRow
+                label="Nodes / Edges"
+                value={`${manifest?.nodeCount ?? 0} / ${manifest?.edgeCount ?? 0}`}
+              />
+            </div>
+
+            {/* PM2 Process Status */}
+            <div className="bg-white rounded-xl border border-slate-200 p-5">
+              <h3 className="text-sm font-semibold text-slate-800 mb-4">PM2 Process Status</h3>
+              <div className="flex items-center gap-4 p-4 rounded-lg bg-slate-50 border border-slate-100">
+                <div className={`w-10 h-10 rounded-xl flex items-center justify-center ${status.bg}`}>
+                  {system.status === 'deployed' && <CheckCircle size={20} className="text-emerald-500" />}
+                  {system.status === 'stopped' && <Square size={20} className="text-slate-400" />}
+                  {system.status === 'errored' && <XCircle size={20} className="text-red-500" />}
+                </div>
+                <div>
+                  <p className={`text-sm font-semibold ${status.color}`}>{status.label}</p>
+                  <p className="text-xs text-slate-500">
+                    {processes
+                      ? `${processes.filter(p => p.status === 'online').length}/${processes.length} agents online`
+                      : system.pm2ProcessName}
+                  </p>
+                </div>
               </div>
+              {processes && processes.length > 0 && (
+                <div className="mt-3">
+                  {processes.map(proc => (
+                    <ProcessRow key={proc.name} proc={proc} />
+                  ))}
+                </div>
+              )}
+              {(statusMutation.isError || processMutation.isError) && (
+                <div className="mt-3 p-3 bg-red-50 border border-red-200 rounded-lg text-xs text-red-700">
+                  Failed to update status. Please try again.
+                </div>
+              )}
+            </div>
+
+            {/* Deployment Versions */}
+            <DeploymentVersionsPanel slug={system.systemSlug} />
+
+            {/* Trigger Settings */}
+            <div className="lg:col-span-2">
+              <TriggerSettingsPanel system={system} />
+            </div>
+
+            {/* Metrics */}
+            <div className="lg:col-span-2">
+              <MetricsPanel slug={system.systemSlug} />
+            </div>
+
+            {/* Spend Budget */}
+            <div className="lg:col-span-2">
+              <BudgetPanel slug={system.systemSlug} />
             </div>
-            {statusMutation.isError && (
-              <div className="mt-3 p-3 bg-red-50 border border-red-200 rounded-lg text-xs text-red-700">
-                Failed to update status. Please try again.
+
+            {/* Execution History */}
+            {manifest && (
+              <div className="lg:col-span-2">
+                <ExecutionHistoryPanel slug={system.systemSlug} manifest={manifest} />
               </div>
             )}
-          </div>
 
-          {/* Live Log Stream */}
-          <div className="lg:col-span-2">
-            <LogStream slug={system.systemSlug} />
-          </div>
+            {/* Live Log Stream */}
+            <div className="lg:col-span-2">
+              <LogStream slug={system.systemSlug} />
+            </div>
 
-          {/* Operator Actions */}
-          <div className="lg:col-span-2">
-            <OperatorActionsPanel systemSlug={system.systemSlug} />
+            {/* Operator Actions */}
+            <div className="lg:col-span-2">
+              <OperatorActionsPanel systemSlug={system.systemSlug} />
+            </div>
           </div>
-        </div>
+        )}
       </div>
     </div>
   );
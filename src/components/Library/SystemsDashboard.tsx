@@ -1,11 +1,15 @@
 import { useQuery } from '@tanstack/react-query';
 import {
   fetchSystems,
+  fetchSystemProcesses,
+  fetchSystemQueue,
+  fetchSystemBudget,
   DeploymentRecord,
   DeploymentStatus,
   TriggerPattern,
 } from '../../services/api';
 import useStore from '../../store/useStore';
+import MetricsPanel from './MetricsPanel';
 import {
   Activity,
   AlertCircle,
@@ -13,12 +17,14 @@ import {
   Calendar,
   Clock,
   DollarSign,
+  Layers,
   Loader2,
   Play,
   RefreshCw,
   Server,
   Square,
   Timer,
+  Wallet,
   Webhook,
   Zap,
   MessageSquare,
@@ -63,6 +69,30 @@ function SystemCard({ system, onClick }: SystemCardProps) {
   const trigger = TRIGGER_CONFIG[system.triggerType] || TRIGGER_CONFIG.cron;
   const manifest = system.manifestJson;
 
+  const { data: processes } = useQuery({
+    queryKey: ['system-processes', system.systemSlug],
+    queryFn: () => fetchSystemProcesses(system.systemSlug),
+    enabled: system.status !== 'archived',
+    refetchInterval: 10000,
+  });
+  const onlineCount = processes?.filter(p => p.status === 'online').length ?? 0;
+
+  const { data: queue } = useQuery({
+    queryKey: ['system-queue', system.systemSlug],
+    queryFn: () => fetchSystemQueue(system.systemSlug),
+    enabled: system.status !== 'archived',
+    refetchInterval: 10000,
+  });
+  const queuedCount = queue?.queued.length ?? 0;
+
+  const { data: budget } = useQuery({
+    queryKey: ['system-budget', system.systemSlug],
+    queryFn: () => fetchSystemBudget(system.systemSlug),
+    enabled: system.status !== 'archived',
+    refetchInterval: 30000,
+  });
+  const budgetWindow = budget?.windows.find(w => w.level === budget.level);
+
   return (
     <button
       onClick={onClick}
@@ -113,6 +143,29 @@ function SystemCard({ system, onClick }: SystemCardProps) {
       {/* Footer */}
       <div className="mt-4 pt-3 border-t border-slate-100 flex items-center justify-between text-[11px] text-slate-400">
         <span>v{manifest?.version ?? '1.0.0'}</span>
+        {processes && processes.length > 0 && (
+          <span className={onlineCount === processes.length ? 'text-emerald-600' : 'text-amber-600'}>
+            {onlineCount}/{processes.length} agents online
+          </span>
+        )}
+        {queue && (queue.running > 0 || queuedCount > 0) && (
+          <span
+            className={`flex items-center gap-1 ${queuedCount > 0 ? 'text-amber-600' : 'text-slate-500'}`}
+            title={`${queue.running} of ${queue.maxConcurrency} run slots in use`}
+          >
+            <Layers size={10} />
+            {queue.running}/{queue.maxConcurrency} running{queuedCount > 0 && `, ${queuedCount} queued`}
+          </span>
+        )}
+        {budget && budgetWindow && budget.level !== 'ok' && (
+          <span
+            className={`flex items-center gap-1 ${budget.level === 'exceeded' ? 'text-red-600' : 'text-amber-600'}`}
+            title={`${budgetWindow.period === 'daily' ? 'Daily' : 'Monthly'} budget ${budget.level}`}
+          >
+            <Wallet size={10} />
+            ${budgetWindow.spentUsd.toFixed(2)}/${budgetWindow.limitUsd?.toFixed(2)}
+          </span>
+        )}
         <span className="flex items-center gap-1">
           <Calendar size={10} />
           {new Date(system.createdAt).toLocaleDateString()}
@@ -226,6 +279,12 @@ export function SystemsDashboard() {
           </div>
         )}
 
+        {systems && systems.length > 0 && (
+          <div className="mb-6">
+            <MetricsPanel />
+          </div>
+        )}
+
         {systems && systems.length > 0 && (
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
             {systems.map(system => (
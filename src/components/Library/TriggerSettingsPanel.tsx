@@ -0,0 +1,124 @@
+import { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import axios from 'axios';
+import { updateSystemTrigger, DeploymentRecord } from '../../services/api';
+import TriggerConfigFields, {
+  TriggerFormState,
+  toTriggerSettings,
+  triggerFormFromConfig,
+} from '../Deploy/TriggerConfigFields';
+import { Loader2, Pencil, Timer } from 'lucide-react';
+
+// -----------------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------------
+
+/** One-line description of a live trigger config */
+function describeTrigger(config: unknown): string {
+  const c = (config ?? {}) as Record<string, unknown>;
+  switch (c.type) {
+    case 'cron':
+      return `${c.expression} (${c.timezone})`;
+    case 'webhook':
+      return `${c.endpointPath} · ${c.authType === 'none' ? 'no auth' : `${c.authType} auth`}`;
+    case 'messaging': {
+      const channels = (c.channels as Array<{ platform: string; enabled: boolean }> | undefined) ?? [];
+      return channels.filter((ch) => ch.enabled).map((ch) => ch.platform).join(', ') || 'no channels';
+    }
+    case 'always-on':
+      return `health check ${c.healthCheckEndpoint}`;
+    default:
+      return 'Not configured';
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Main Component
+// -----------------------------------------------------------------------------
+
+interface TriggerSettingsPanelProps {
+  system: DeploymentRecord;
+}
+
+export default function TriggerSettingsPanel({ system }: TriggerSettingsPanelProps) {
+  const queryClient = useQueryClient();
+  const [form, setForm] = useState<TriggerFormState | null>(null);
+
+  const saveMutation = useMutation({
+    mutationFn: (next: TriggerFormState) => updateSystemTrigger(system.systemSlug, toTriggerSettings(next)),
+    onSuccess: () => {
+      setForm(null);
+      queryClient.invalidateQueries({ queryKey: ['system', system.systemSlug] });
+      queryClient.invalidateQueries({ queryKey: ['systems'] });
+    },
+  });
+
+  const startEditing = () => {
+    saveMutation.reset();
+    setForm(triggerFormFromConfig(system.triggerConfig, system.systemSlug));
+  };
+
+  const enabled = (system.triggerConfig as { enabled?: boolean } | null)?.enabled !== false;
+
+  return (
+    <div className="bg-white rounded-xl border border-slate-200 p-5">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <Timer size={14} className="text-slate-500" />
+          <h3 className="text-sm font-semibold text-slate-800">Trigger Settings</h3>
+        </div>
+        {!form && (
+          <button
+            onClick={startEditing}
+            className="flex items-center gap-1 px-2.5 py-1 text-[11px] font-medium text-slate-700 bg-white border border-slate-200 hover:bg-slate-50 rounded-md transition-colors"
+          >
+            <Pencil size={11} />
+            Edit
+          </button>
+        )}
+      </div>
+
+      {!form ? (
+        <div className="flex items-center gap-2">
+          <span className="text-xs font-mono text-slate-700 truncate">{describeTrigger(system.triggerConfig)}</span>
+          {!enabled && (
+            <span className="px-2 py-0.5 rounded-full text-[10px] font-medium bg-slate-100 text-slate-500 shrink-0">
+              Disabled
+            </span>
+          )}
+        </div>
+      ) : (
+        <>
+          <TriggerConfigFields
+            trigger={form}
+            onUpdate={(updates) => setForm((prev) => (prev ? { ...prev, ...updates } : prev))}
+          />
+          {saveMutation.error && (
+            <div className="mt-3 p-3 bg-red-50 border border-red-200 rounded-lg text-xs text-red-700">
+              {axios.isAxiosError(saveMutation.error)
+                ? saveMutation.error.response?.data?.error ?? saveMutation.error.message
+                : saveMutation.error.message}
+            </div>
+          )}
+          <div className="flex items-center justify-end gap-2 mt-4">
+            <button
+              onClick={() => setForm(null)}
+              disabled={saveMutation.isPending}
+              className="px-3 py-1.5 text-xs font-medium text-slate-600 hover:bg-slate-100 rounded-md transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={() => saveMutation.mutate(form)}
+              disabled={saveMutation.isPending || (form.type === 'messaging' && form.messagingChannels.length === 0)}
+              className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-white bg-indigo-600 hover:bg-indigo-700 rounded-md transition-colors disabled:opacity-50"
+            >
+              {saveMutation.isPending && <Loader2 size={12} className="animate-spin" />}
+              Save Trigger
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
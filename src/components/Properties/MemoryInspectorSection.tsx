@@ -0,0 +1,147 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import axios from 'axios';
+import { Brain, ChevronDown, ChevronRight, Loader2, Trash2 } from 'lucide-react';
+import { fetchAgentMemory, clearAgentMemory } from '../../services/api';
+
+interface MemoryInspectorSectionProps {
+  /** Workflow name the agent's runs are stored under */
+  system: string;
+  agentId: string;
+}
+
+function errorMessage(error: Error): string {
+  return axios.isAxiosError(error)
+    ? error.response?.data?.error ?? error.message
+    : error.message;
+}
+
+export const MemoryInspectorSection = ({ system, agentId }: MemoryInspectorSectionProps) => {
+  const queryClient = useQueryClient();
+  const [open, setOpen] = useState(false);
+  const [expandedEntry, setExpandedEntry] = useState<string | null>(null);
+
+  const { data: memory, isLoading, error } = useQuery({
+    queryKey: ['agent-memory', system, agentId],
+    queryFn: () => fetchAgentMemory(system, agentId),
+    enabled: open,
+  });
+
+  const clearMutation = useMutation({
+    mutationFn: () => clearAgentMemory(system, agentId),
+    onSuccess: () => queryClient.setQueryData(['agent-memory', system, agentId], null),
+  });
+
+  const handleClear = () => {
+    if (confirm('Clear everything this agent remembers from earlier runs?')) {
+      clearMutation.mutate();
+    }
+  };
+
+  const tokens = memory
+    ? Math.ceil(memory.summary.length / 4) + memory.entries.reduce((sum, e) => sum + e.tokens, 0)
+    : 0;
+
+  return (
+    <div className="px-4 pb-4">
+      <div className="border border-slate-200 rounded-xl overflow-hidden">
+        <button
+          onClick={() => setOpen(!open)}
+          className="w-full flex items-center justify-between px-3 py-2.5 bg-slate-50 hover:bg-slate-100 transition-colors"
+        >
+          <div className="flex items-center gap-2">
+            <Brain className="w-4 h-4 text-slate-500" />
+            <span className="text-xs font-semibold text-slate-700 uppercase tracking-wide">
+              Memory
+            </span>
+            {memory && (
+              <span className="text-[10px] px-1.5 py-0.5 rounded-full bg-slate-200 text-slate-600 font-medium">
+                {memory.entries.length + memory.summarizedEntries}
+              </span>
+            )}
+          </div>
+          {open
+            ? <ChevronDown className="w-3.5 h-3.5 text-slate-400" />
+            : <ChevronRight className="w-3.5 h-3.5 text-slate-400" />
+          }
+        </button>
+
+        {open && (
+          <div className="px-3 py-3 space-y-3">
+            {isLoading ? (
+              <div className="flex items-center justify-center py-2">
+                <Loader2 className="w-4 h-4 animate-spin text-slate-400" />
+              </div>
+            ) : error ? (
+              <p className="text-xs text-red-600">{errorMessage(error)}</p>
+            ) : !memory ? (
+              <div className="text-center py-1">
+                <p className="text-xs text-slate-400">Nothing remembered yet</p>
+                <p className="text-[10px] text-slate-300 mt-0.5">
+                  Runs of “{system}” are stored here
+                </p>
+              </div>
+            ) : (
+              <>
+                <div className="flex items-center justify-between text-[10px] text-slate-500">
+                  <span>
+                    {memory.entries.length} run{memory.entries.length !== 1 ? 's' : ''}
+                    {memory.summarizedEntries > 0 && ` + ${memory.summarizedEntries} summarized`}
+                    {' · '}~{tokens.toLocaleString()} tokens
+                  </span>
+                  <span title={memory.updatedAt}>{new Date(memory.updatedAt).toLocaleString()}</span>
+                </div>
+                {memory.sessionId && (
+                  <p className="text-[10px] text-slate-400 font-mono truncate">
+                    Session {memory.sessionId}
+                  </p>
+                )}
+
+                {memory.summary && (
+                  <div>
+                    <p className="text-[10px] text-slate-400 uppercase mb-1">Summary</p>
+                    <p className="text-xs text-slate-600 whitespace-pre-wrap max-h-32 overflow-y-auto">
+                      {memory.summary}
+                    </p>
+                  </div>
+                )}
+
+                {memory.entries.length > 0 && (
+                  <div>
+                    <p className="text-[10px] text-slate-400 uppercase mb-1">Recent runs</p>
+                    <div className="divide-y divide-slate-100 border border-slate-100 rounded-lg">
+                      {[...memory.entries].reverse().map((entry) => (
+                        <button
+                          key={entry.id}
+                          onClick={() => setExpandedEntry(expandedEntry === entry.id ? null : entry.id)}
+                          className="w-full px-2 py-1.5 text-left hover:bg-slate-50 transition-colors"
+                        >
+                          <p className="text-[10px] text-slate-400">{new Date(entry.at).toLocaleString()}</p>
+                          <p className={`text-xs text-slate-600 ${expandedEntry === entry.id ? 'whitespace-pre-wrap' : 'truncate'}`}>
+                            {expandedEntry === entry.id ? `${entry.task}\n\n→ ${entry.output}` : entry.output}
+                          </p>
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                <button
+                  onClick={handleClear}
+                  disabled={clearMutation.isPending}
+                  className="w-full flex items-center justify-center gap-1.5 px-3 py-1.5 text-xs font-medium text-red-600 border border-red-200 rounded-lg hover:bg-red-50 disabled:opacity-50 transition-colors"
+                >
+                  {clearMutation.isPending ? <Loader2 className="w-3 h-3 animate-spin" /> : <Trash2 className="w-3 h-3" />}
+                  Clear memory
+                </button>
+                {clearMutation.error && (
+                  <p className="text-xs text-red-600">{errorMessage(clearMutation.error)}</p>
+                )}
+              </>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
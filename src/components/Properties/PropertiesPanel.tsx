@@ -16,9 +16,10 @@ import { useSocket } from '../../hooks/useSocket';
 import { nodeTypeIcons, nodeTypeColors } from './nodeTypeConstants';
 import { EdgeInspector } from './EdgeInspector';
 import { ContainerMembersSection } from './ContainerMembersSection';
+import { MemoryInspectorSection } from './MemoryInspectorSection';
 
 export const PropertiesPanel = () => {
-  const { selectedNode, setSelectedNode, selectedEdge, setSelectedEdge, updateEdgeType, nodes, edges, isPropertiesPanelCollapsed, togglePropertiesPanel } = useStore();
+  const { selectedNode, setSelectedNode, selectedEdge, setSelectedEdge, updateEdgeType, nodes, edges, isPropertiesPanelCollapsed, togglePropertiesPanel, workflowConfig } = useStore();
   const { socket } = useSocket();
   const [isClosing, setIsClosing] = useState(false);
 
@@ -241,6 +242,11 @@ export const PropertiesPanel = () => {
             onSelectNode={setSelectedNode}
           />
         )}
+
+        {/* Memory — what the agent kept from earlier runs of this workflow */}
+        {nodeType === 'AGENT' && ['session', 'persistent'].includes(selectedNode.data.config?.memory?.contextPersistence) && (
+          <MemoryInspectorSection system={workflowConfig.name} agentId={selectedNode.id} />
+        )}
       </div>
 
       {/* Footer */}
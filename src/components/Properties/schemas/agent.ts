@@ -393,8 +393,8 @@ export const agentSchema: NodeTypeSchema = {
       options: [
         { label: 'Merge All', value: 'merge', description: 'Combine all results' },
         { label: 'First Response', value: 'first', description: 'Use first result' },
-        { label: 'Voting', value: 'vote', description: 'Consensus-based' },
-        { label: 'Custom', value: 'custom', description: 'Custom aggregation' },
+        { label: 'Voting', value: 'vote', description: 'Sub-agents vote on the results' },
+        { label: 'Custom', value: 'custom', description: 'Coordinator merges the results' },
       ],
       defaultValue: 'merge',
     },
@@ -602,6 +602,14 @@ export const agentSchema: NodeTypeSchema = {
       width: 'half',
       conditional: { field: 'palConfig.consensusConfig.enabled', value: true },
     },
+    {
+      key: 'palConfig.consensusConfig.weights',
+      label: 'Agent Weights',
+      type: 'object',
+      section: 'pal',
+      description: 'Vote weight per sub-agent ID or name (unlisted agents weigh 1)',
+      conditional: { field: 'palConfig.consensusConfig.votingMethod', value: 'weighted' },
+    },
     {
       key: 'palConfig.contextRevival.enabled',
       label: 'Enable Context Revival',
@@ -790,7 +798,7 @@ export const agentSchema: NodeTypeSchema = {
       label: 'Filter PII',
       type: 'checkbox',
       section: 'guardrails',
-      description: 'Block personally identifiable information',
+      description: 'Emails, phone numbers, card numbers and API keys',
       defaultValue: true,
       width: 'half',
     },
@@ -799,9 +807,22 @@ export const agentSchema: NodeTypeSchema = {
       label: 'Prompt Injection Detection',
       type: 'checkbox',
       section: 'guardrails',
-      description: 'Detect and block prompt injection attempts',
+      description: 'Detect prompt injection in briefs and tool results',
       defaultValue: true,
     },
+    {
+      key: 'guardrails.contentFilters.mode',
+      label: 'Filter Action',
+      type: 'select',
+      section: 'guardrails',
+      description: 'What happens when a filter matches at runtime',
+      options: [
+        { label: 'Redact', value: 'redact', description: 'Mask PII and profanity, flag injection' },
+        { label: 'Block', value: 'block', description: 'Stop the input, tool result or output' },
+      ],
+      defaultValue: 'redact',
+      width: 'half',
+    },
 
     // === OBSERVABILITY SECTION (all roles) ===
     {
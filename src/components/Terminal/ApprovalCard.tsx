@@ -0,0 +1,63 @@
+// =============================================================================
+// ApprovalCard — An agent action waiting on a human decision
+// =============================================================================
+
+import React from 'react';
+import { ShieldAlert, Check, X } from 'lucide-react';
+import type { ApprovalGateAction, ApprovalRequestPayload } from '../../../shared/socket-events';
+
+const ACTION_LABELS: Record<ApprovalGateAction, string> = {
+  file_writes: 'File write',
+  file_deletes: 'File delete',
+  shell_commands: 'Shell command',
+  external_apis: 'External API',
+  git_operations: 'Git operation',
+  command: 'Slash command',
+};
+
+interface ApprovalCardProps {
+  request: ApprovalRequestPayload;
+  onRespond: (approvalId: string, approved: boolean) => void;
+}
+
+export const ApprovalCard: React.FC<ApprovalCardProps> = ({ request, onRespond }) => {
+  const expiresAt = new Date(request.expiresAt).toLocaleTimeString('en-US', { hour12: false });
+
+  return (
+    <div className="flex items-start gap-3 px-3 py-2 bg-amber-950/40 border border-amber-800/50 rounded">
+      <ShieldAlert size={16} className="text-amber-400 shrink-0 mt-0.5" />
+      <div className="flex-1 min-w-0 text-xs">
+        <div className="flex items-center gap-2">
+          <span className="text-amber-300 font-medium">{request.agentLabel}</span>
+          <span className="px-1.5 py-0.5 bg-amber-900/60 text-amber-200 rounded">
+            {ACTION_LABELS[request.action]}
+          </span>
+          <span className="text-slate-500">
+            Auto-{request.timeoutPolicy} at {expiresAt}
+          </span>
+        </div>
+        <div className="mt-1 font-mono text-slate-200 break-all">{request.summary}</div>
+      </div>
+      <div className="flex items-center gap-1 shrink-0">
+        <button
+          onClick={() => onRespond(request.approvalId, true)}
+          className="flex items-center gap-1 px-2 py-1 bg-emerald-600 hover:bg-emerald-500
+                     text-white text-xs rounded transition-colors font-medium"
+        >
+          <Check size={12} />
+          Approve
+        </button>
+        <button
+          onClick={() => onRespond(request.approvalId, false)}
+          className="flex items-center gap-1 px-2 py-1 bg-red-600 hover:bg-red-500
+                     text-white text-xs rounded transition-colors font-medium"
+        >
+          <X size={12} />
+          Reject
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ApprovalCard;
@@ -15,8 +15,11 @@ import {
   ChevronRight,
   Activity,
   Zap,
+  ShieldAlert,
+  Vote,
+  RotateCw,
 } from 'lucide-react';
-import type { ExecutionReportPayload } from '../../../shared/socket-events';
+import type { ConsensusRole, ExecutionReportPayload } from '../../../shared/socket-events';
 
 interface ExecutionResultsPanelProps {
   report: ExecutionReportPayload;
@@ -27,8 +30,74 @@ const statusBadge = {
   success: { label: 'Success', bg: 'bg-emerald-900/40', text: 'text-emerald-400', border: 'border-emerald-700' },
   partial: { label: 'Partial', bg: 'bg-yellow-900/40', text: 'text-yellow-400', border: 'border-yellow-700' },
   failed: { label: 'Failed', bg: 'bg-red-900/40', text: 'text-red-400', border: 'border-red-700' },
+  budget_exceeded: { label: 'Budget Exceeded', bg: 'bg-orange-900/40', text: 'text-orange-400', border: 'border-orange-700' },
 };
 
+function describeBudget(budget: NonNullable<ExecutionReportPayload['budgetExceeded']>): string {
+  const amount = (n: number) => (budget.limit === 'cost' ? `$${n.toFixed(4)}` : `${Math.round(n).toLocaleString()} tokens`);
+  const owner = budget.scope === 'run' ? 'Run' : budget.subject;
+  return `${owner} ${budget.limit === 'cost' ? 'cost cap' : 'token limit'} of ${amount(budget.max)} reached at ${amount(budget.used)}`;
+}
+
+type FilterEvent = NonNullable<ExecutionReportPayload['contentFilterEvents']>[number];
+
+const filterStages: Record<FilterEvent['stage'], string> = {
+  input: 'Input',
+  tool_result: 'Tool result',
+  output: 'Output',
+  inbound: 'Message',
+};
+
+function summarizeFilters(events: FilterEvent[]): string {
+  return (['redacted', 'flagged', 'blocked'] as const)
+    .map((action) => [action, events.filter((e) => e.action === action).length] as const)
+    .filter(([, count]) => count > 0)
+    .map(([action, count]) => `${count} ${action}`)
+    .join(', ');
+}
+
+function describeFilterEvent(event: FilterEvent): string {
+  const where = event.tool ? `${filterStages[event.stage]} (${event.tool})` : filterStages[event.stage];
+  const what = event.category === event.kind ? event.category : `${event.category}: ${event.kind.replace('_', ' ')}`;
+  return `${where} — ${what}${event.count > 1 ? ` ×${event.count}` : ''} ${event.action}`;
+}
+
+type ConsensusReport = NonNullable<ExecutionReportPayload['consensus']>[number];
+
+const consensusRoles: Record<ConsensusRole['role'], string> = {
+  ballot: 'Ballot',
+  escalation: 'Escalation',
+  synthesis: 'Aggregation',
+};
+
+function describeConsensus(consensus: ConsensusReport): string {
+  if (consensus.aggregation === 'first') return 'First result';
+  if (consensus.aggregation === 'custom') return 'Merged by coordinator';
+  const method = consensus.votingMethod === 'unanimous'
+    ? 'unanimous'
+    : `${consensus.votingMethod} ≥ ${Math.round((consensus.threshold ?? 0) * 100)}%`;
+  const support = consensus.support !== undefined ? `${Math.round(consensus.support * 100)}% support` : 'no votes';
+  return `Vote (${method}) · ${support}`;
+}
+
+function consensusOutcome(consensus: ConsensusReport): { label: string; color: string } {
+  if (consensus.escalatedTo) {
+    return consensus.escalatedTo.status === 'success'
+      ? { label: `Escalated → ${consensus.escalatedTo.agentLabel}`, color: 'text-yellow-400' }
+      : { label: `Escalation to ${consensus.escalatedTo.agentLabel} failed`, color: 'text-red-400' };
+  }
+  if (consensus.status === 'error') return { label: 'No consensus', color: 'text-red-400' };
+  return { label: 'Consensus', color: 'text-emerald-400' };
+}
+
+type RetryAttempt = NonNullable<ExecutionReportPayload['phases'][number]['results'][number]['attempts']>[number];
+
+function describeAttempt(attempt: RetryAttempt): string {
+  const why = attempt.reason ? attempt.reason.replace('_', ' ') : 'not retryable';
+  const next = attempt.delayMs !== undefined ? ` — retried after ${(attempt.delayMs / 1000).toFixed(1)}s` : '';
+  return `Attempt ${attempt.attempt}: ${why} (${attempt.error})${next}`;
+}
+
 const agentStatusIcon = {
   success: { Icon: CheckCircle, color: 'text-emerald-400' },
   error: { Icon: XCircle, color: 'text-red-400' },
@@ -39,6 +108,10 @@ export const ExecutionResultsPanel: React.FC<ExecutionResultsPanelProps> = ({ re
   const [expandedAgent, setExpandedAgent] = useState<string | null>(null);
 
   const badge = statusBadge[report.status];
+  const filterEvents = report.contentFilterEvents ?? [];
+  const consensus = report.consensus ?? [];
+  const labelOf = (agentId: string) =>
+    consensus.find((c) => c.coordinatorId === agentId)?.coordinatorLabel ?? agentId;
   const totalAgents = report.phases.reduce((sum, p) => sum + p.results.length, 0);
   const successCount = report.phases.reduce(
     (sum, p) => sum + p.results.filter((r) => r.status === 'success').length,
@@ -85,6 +158,15 @@ export const ExecutionResultsPanel: React.FC<ExecutionResultsPanelProps> = ({ re
             {report.phases.length} phases
           </span>
         </div>
+        {report.budgetExceeded && (
+          <div className="mt-2 text-xs text-orange-400">{describeBudget(report.budgetExceeded)}</div>
+        )}
+        {filterEvents.length > 0 && (
+          <div className="mt-2 flex items-center gap-1 text-xs text-sky-400">
+            <ShieldAlert size={12} />
+            Content filters: {summarizeFilters(filterEvents)}
+          </div>
+        )}
       </div>
 
       {/* Agent list by phase */}
@@ -104,20 +186,25 @@ export const ExecutionResultsPanel: React.FC<ExecutionResultsPanelProps> = ({ re
 
             {/* Agent rows */}
             <div className="space-y-1">
-              {phase.results.map((result) => {
+              {phase.results.map((result, resultIdx) => {
                 const { Icon, color } = agentStatusIcon[result.status];
-                const isExpanded = expandedAgent === result.agentId;
+                // Pool members can run several tasks, so rows are keyed by position
+                const rowKey = `${phaseIdx}:${resultIdx}`;
+                const isExpanded = expandedAgent === rowKey;
                 const totalTokens = result.tokensUsed.input + result.tokensUsed.output;
+                const agentFilters = filterEvents.filter((e) => e.agentId === result.agentId);
+                const attempts = result.attempts ?? [];
+                const retries = attempts.filter((a) => a.delayMs !== undefined);
 
                 return (
                   <div
-                    key={result.agentId}
+                    key={rowKey}
                     className="rounded border border-slate-700/50 bg-slate-800/30 overflow-hidden"
                   >
                     {/* Agent row */}
                     <button
                       onClick={() =>
-                        setExpandedAgent(isExpanded ? null : result.agentId)
+                        setExpandedAgent(isExpanded ? null : rowKey)
                       }
                       className="w-full flex items-center gap-2 px-3 py-2 text-left hover:bg-slate-700/30 transition-colors"
                     >
@@ -130,6 +217,34 @@ export const ExecutionResultsPanel: React.FC<ExecutionResultsPanelProps> = ({ re
                       <span className="text-sm text-slate-200 font-medium truncate">
                         {result.agentLabel}
                       </span>
+                      {result.pool && (
+                        <span
+                          className="px-1.5 py-0.5 rounded text-[10px] bg-indigo-900/40 text-indigo-300 border border-indigo-700/60 shrink-0"
+                          title={`Instance ${result.pool.instance} of pool ${result.pool.label}`}
+                        >
+                          {result.pool.label} #{result.pool.instance} · task {result.pool.task}
+                        </span>
+                      )}
+                      {result.consensus && (
+                        <span
+                          className="px-1.5 py-0.5 rounded text-[10px] bg-violet-900/40 text-violet-300 border border-violet-700/60 shrink-0"
+                          title={`Consensus round for ${labelOf(result.consensus.coordinatorId)}`}
+                        >
+                          {consensusRoles[result.consensus.role]} · {labelOf(result.consensus.coordinatorId)}
+                        </span>
+                      )}
+                      {agentFilters.length > 0 && (
+                        <ShieldAlert size={12} className="text-sky-400 shrink-0" />
+                      )}
+                      {retries.length > 0 && (
+                        <span
+                          className="flex items-center gap-0.5 text-[10px] text-amber-400 shrink-0"
+                          title={`${retries.length} retr${retries.length === 1 ? 'y' : 'ies'}`}
+                        >
+                          <RotateCw size={10} />
+                          {retries.length}
+                        </span>
+                      )}
 
                       <div className="flex items-center gap-3 ml-auto text-xs text-slate-500 shrink-0">
                         <span>{(result.durationMs / 1000).toFixed(1)}s</span>
@@ -154,6 +269,20 @@ export const ExecutionResultsPanel: React.FC<ExecutionResultsPanelProps> = ({ re
                             {result.tokensUsed.input} in / {result.tokensUsed.output} out
                           </span>
                         </div>
+                        {agentFilters.length > 0 && (
+                          <ul className="mb-2 space-y-0.5 text-xs text-sky-400">
+                            {agentFilters.map((event, i) => (
+                              <li key={i}>{describeFilterEvent(event)}</li>
+                            ))}
+                          </ul>
+                        )}
+                        {attempts.length > 0 && (
+                          <ul className="mb-2 space-y-0.5 text-xs text-amber-400">
+                            {attempts.map((attempt) => (
+                              <li key={attempt.attempt}>{describeAttempt(attempt)}</li>
+                            ))}
+                          </ul>
+                        )}
                         <pre className="text-xs text-slate-300 whitespace-pre-wrap break-words font-mono leading-relaxed max-h-48 overflow-y-auto">
                           {result.output}
                         </pre>
@@ -165,6 +294,72 @@ export const ExecutionResultsPanel: React.FC<ExecutionResultsPanelProps> = ({ re
             </div>
           </div>
         ))}
+
+        {/* Consensus breakdown per coordinator */}
+        {consensus.map((round) => {
+          const outcome = consensusOutcome(round);
+          const voted = round.aggregation === 'vote' && round.ballots.length > 0;
+          return (
+            <div key={round.coordinatorId} className="rounded border border-violet-800/50 bg-violet-950/20 px-3 py-2">
+              <div className="flex items-center gap-2 mb-1.5">
+                <Vote size={14} className="text-violet-400 shrink-0" />
+                <span className="text-sm text-slate-200 font-medium truncate">{round.coordinatorLabel}</span>
+                <span className="text-xs text-slate-500">{describeConsensus(round)}</span>
+                <span className={`ml-auto text-xs shrink-0 ${outcome.color}`}>{outcome.label}</span>
+              </div>
+
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="text-slate-500 text-left">
+                    <th className="font-normal py-0.5">Result</th>
+                    {voted && <th className="font-normal text-right">Votes</th>}
+                    {voted && round.votingMethod === 'weighted' && <th className="font-normal text-right">Weight</th>}
+                    {voted && <th className="font-normal text-right">Avg score</th>}
+                  </tr>
+                </thead>
+                <tbody>
+                  {round.candidates.map((candidate, i) => (
+                    <tr
+                      key={candidate.agentId}
+                      className={candidate.agentId === round.winner ? 'text-emerald-300' : 'text-slate-300'}
+                    >
+                      <td className="py-0.5">
+                        <span className="text-slate-500 mr-1">{String.fromCharCode(65 + i)}</span>
+                        {candidate.agentLabel}
+                        {candidate.agentId === round.winner && ' ✓'}
+                      </td>
+                      {voted && <td className="text-right">{candidate.votes}</td>}
+                      {voted && round.votingMethod === 'weighted' && (
+                        <td className="text-right">{candidate.weight.toFixed(1)}</td>
+                      )}
+                      {voted && (
+                        <td className="text-right">
+                          {candidate.averageScore !== null ? candidate.averageScore.toFixed(1) : '—'}
+                        </td>
+                      )}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+
+              {voted && (
+                <ul className="mt-1.5 space-y-0.5 text-[11px] text-slate-500">
+                  {round.ballots.map((ballot) => (
+                    <li key={ballot.voterId}>
+                      {ballot.voterLabel}
+                      {round.votingMethod === 'weighted' && ` (×${ballot.weight})`}:{' '}
+                      {ballot.scores
+                        .map((score, i) => `${String.fromCharCode(65 + i)} ${score ?? '—'}`)
+                        .join(', ')}
+                      {' → '}
+                      {ballot.choice !== null ? String.fromCharCode(65 + ballot.choice) : 'abstained'}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          );
+        })}
       </div>
     </div>
   );
@@ -0,0 +1,69 @@
+// =============================================================================
+// ResumableRunsBar — Paused and interrupted workflow runs that can be resumed
+// =============================================================================
+
+import React from 'react';
+import { PlayCircle, X } from 'lucide-react';
+import type { ResumableRunPayload } from '../../../shared/socket-events';
+
+interface ResumableRunsBarProps {
+  runs: ResumableRunPayload[];
+  disabled: boolean;
+  onResume: (runId: string) => void;
+  onDiscard: (runId: string) => void;
+}
+
+export const ResumableRunsBar: React.FC<ResumableRunsBarProps> = ({
+  runs,
+  disabled,
+  onResume,
+  onDiscard,
+}) => {
+  if (runs.length === 0) return null;
+
+  return (
+    <div className="px-3 py-2 bg-amber-950/30 border-b border-amber-900/40 space-y-1">
+      {runs.map((run) => (
+        <div key={run.runId} className="flex items-center gap-2 text-xs">
+          <span
+            className={`px-1.5 py-0.5 rounded font-medium ${
+              run.status === 'paused'
+                ? 'bg-amber-900/60 text-amber-300'
+                : 'bg-red-900/50 text-red-300'
+            }`}
+          >
+            {run.status === 'paused' ? 'Paused' : 'Interrupted'}
+          </span>
+          <span className="text-slate-300 truncate" title={run.brief}>
+            {run.workflow}
+          </span>
+          <span className="text-slate-500 shrink-0">
+            Phase {run.completedPhases}/{run.totalPhases} done · ${run.totalCost.toFixed(4)} ·{' '}
+            {new Date(run.updatedAt).toLocaleString()}
+          </span>
+          <div className="ml-auto flex items-center gap-1 shrink-0">
+            <button
+              onClick={() => onResume(run.runId)}
+              disabled={disabled}
+              className="flex items-center gap-1 px-2 py-0.5 bg-amber-600 hover:bg-amber-500
+                         disabled:bg-slate-600 disabled:cursor-not-allowed text-white rounded transition-colors"
+              title="Resume from the last completed phase"
+            >
+              <PlayCircle size={12} />
+              Resume
+            </button>
+            <button
+              onClick={() => onDiscard(run.runId)}
+              className="p-0.5 hover:bg-slate-700 rounded transition-colors"
+              title="Discard checkpoint"
+            >
+              <X size={12} className="text-slate-400 hover:text-slate-200" />
+            </button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default ResumableRunsBar;
@@ -9,6 +9,7 @@ import {
   Terminal,
   Play,
   Square,
+  Pause,
   Trash2,
   ChevronDown,
   ChevronUp,
@@ -22,9 +23,13 @@ import { AgentOutputBlock } from './AgentOutputBlock';
 import { TerminalProgressBar } from './TerminalProgressBar';
 import { ExecutionResultsPanel } from './ExecutionResultsPanel';
 import { ExecutionPromptModal } from './ExecutionPromptModal';
+import { ResumableRunsBar } from './ResumableRunsBar';
+import { ApprovalCard } from './ApprovalCard';
 import type {
   AgentResultPayload,
+  ApprovalRequestPayload,
   ExecutionReportPayload,
+  ResumableRunPayload,
 } from '../../../shared/socket-events';
 
 // ---------------------------------------------------------------------------
@@ -54,6 +59,9 @@ export const TerminalPanel: React.FC = () => {
   const [showResults, setShowResults] = useState(false);
   const [showPromptModal, setShowPromptModal] = useState(false);
   const [executionReport, setExecutionReport] = useState<ExecutionReportPayload | null>(null);
+  const [isPausing, setIsPausing] = useState(false);
+  const [resumableRuns, setResumableRuns] = useState<ResumableRunPayload[]>([]);
+  const [pendingApprovals, setPendingApprovals] = useState<ApprovalRequestPayload[]>([]);
 
   // Phase progress state
   const [currentPhase, setCurrentPhase] = useState(0);
@@ -75,7 +83,7 @@ export const TerminalPanel: React.FC = () => {
   const dragStartHeightRef = useRef(0);
 
   const logsEndRef = useRef<HTMLDivElement>(null);
-  const { nodes, edges } = useStore();
+  const { nodes, edges, workflowConfig } = useStore();
 
   // Socket connection with all event callbacks
   const { isConnected, sessionId, socket, startSession } = useSocket({
@@ -109,12 +117,66 @@ export const TerminalPanel: React.FC = () => {
     onExecutionReport: (payload: ExecutionReportPayload) => {
       setExecutionReport(payload);
       setIsRunning(false);
+      setIsPausing(false);
       setCurrentPhase(0);
       setTotalPhases(0);
       setCurrentPhaseName('');
     },
   });
 
+  // Checkpointed runs that can be resumed (paused, or cut off by a restart)
+  const refreshResumableRuns = useCallback(() => {
+    socket?.emit('execution:listResumable', (runs) => setResumableRuns(runs));
+  }, [socket]);
+
+  useEffect(() => {
+    if (!socket || !isConnected) return;
+    refreshResumableRuns();
+
+    const handlePaused = () => {
+      setIsRunning(false);
+      setIsPausing(false);
+      setCurrentPhase(0);
+      setTotalPhases(0);
+      setCurrentPhaseName('');
+      refreshResumableRuns();
+    };
+
+    socket.on('execution:paused', handlePaused);
+    socket.on('execution:report', refreshResumableRuns);
+    return () => {
+      socket.off('execution:paused', handlePaused);
+      socket.off('execution:report', refreshResumableRuns);
+    };
+  }, [socket, isConnected, refreshResumableRuns]);
+
+  // Approval gates raised by running agents
+  useEffect(() => {
+    if (!socket || !isConnected) return;
+    socket.emit('approval:listPending', (requests) => setPendingApprovals(requests));
+
+    const handleRequest = (request: ApprovalRequestPayload) => {
+      setPendingApprovals((prev) => [...prev.filter((r) => r.approvalId !== request.approvalId), request]);
+      setActiveTab('workflow');
+      setIsExpanded(true);
+    };
+    const handleResolved = (payload: { approvalId: string }) => {
+      setPendingApprovals((prev) => prev.filter((r) => r.approvalId !== payload.approvalId));
+    };
+
+    socket.on('approval:request', handleRequest);
+    socket.on('approval:resolved', handleResolved);
+    return () => {
+      socket.off('approval:request', handleRequest);
+      socket.off('approval:resolved', handleResolved);
+    };
+  }, [socket, isConnected]);
+
+  const handleApprovalResponse = useCallback((approvalId: string, approved: boolean) => {
+    socket?.emit('approval:respond', { approvalId, approved });
+    setPendingApprovals((prev) => prev.filter((r) => r.approvalId !== approvalId));
+  }, [socket]);
+
   // Listen for plain text execution logs
   useEffect(() => {
     if (!socket) return;
@@ -159,8 +221,10 @@ export const TerminalPanel: React.FC = () => {
           payload.output.includes('completed successfully') ||
           payload.output.includes('completed with warnings') ||
           payload.output.includes('FAILED') ||
+          payload.output.includes('budget exceeded') ||
           payload.output.includes('Execution cancelled') ||
-          payload.output.includes('Validation failed')
+          payload.output.includes('Validation failed') ||
+          payload.output.includes('Resume error')
         ) {
           setIsRunning(false);
         }
@@ -242,6 +306,8 @@ export const TerminalPanel: React.FC = () => {
     socket.emit('system:start', {
       sessionId: activeSessionId,
       brief,
+      budget: workflowConfig.budget,
+      workflow: workflowConfig.name,
       nodes: nodes.map((n) => ({
         id: n.id,
         data: n.data,
@@ -256,15 +322,50 @@ export const TerminalPanel: React.FC = () => {
         data: e.data,
       })),
     });
-  }, [isConnected, socket, sessionId, startSession, nodes, edges]);
+  }, [isConnected, socket, sessionId, startSession, nodes, edges, workflowConfig.budget, workflowConfig.name]);
 
   const handleStop = useCallback(() => {
     setIsRunning(false);
+    setIsPausing(false);
     if (socket && sessionId) {
       socket.emit('system:stop', { sessionId });
     }
   }, [socket, sessionId]);
 
+  // Pause takes effect once the current phase finishes
+  const handlePause = useCallback(() => {
+    if (socket && sessionId) {
+      setIsPausing(true);
+      socket.emit('execution:pause', { sessionId });
+    }
+  }, [socket, sessionId]);
+
+  const handleResume = useCallback(async (runId: string) => {
+    if (!isConnected || !socket) return;
+
+    let activeSessionId = sessionId;
+    if (!activeSessionId) {
+      try {
+        activeSessionId = await startSession();
+      } catch (err) {
+        console.error('[Terminal] Failed to start session:', err);
+        return;
+      }
+    }
+
+    setIsRunning(true);
+    setLogs([]);
+    setShowResults(false);
+    setExecutionReport(null);
+    setResumableRuns((prev) => prev.filter((run) => run.runId !== runId));
+    socket.emit('execution:resume', { sessionId: activeSessionId, runId });
+  }, [isConnected, socket, sessionId, startSession]);
+
+  const handleDiscard = useCallback((runId: string) => {
+    socket?.emit('execution:discard', { runId });
+    setResumableRuns((prev) => prev.filter((run) => run.runId !== runId));
+  }, [socket]);
+
   const handleClear = useCallback(() => {
     if (activeTab === 'fixer') {
       setFixerLogs([]);
@@ -469,14 +570,27 @@ export const TerminalPanel: React.FC = () => {
                   Execute
                 </button>
               ) : (
-                <button
-                  onClick={handleStop}
-                  className="flex items-center gap-1.5 px-3 py-1.5 bg-red-600
-                             hover:bg-red-500 text-white text-sm rounded transition-colors font-medium"
-                >
-                  <Square size={14} />
-                  Stop
-                </button>
+                <>
+                  <button
+                    onClick={handlePause}
+                    disabled={isPausing}
+                    className="flex items-center gap-1.5 px-3 py-1.5 bg-amber-600
+                               hover:bg-amber-500 disabled:opacity-60 disabled:cursor-not-allowed
+                               text-white text-sm rounded transition-colors font-medium"
+                    title="Pause after the current phase"
+                  >
+                    {isPausing ? <Loader2 size={14} className="animate-spin" /> : <Pause size={14} />}
+                    {isPausing ? 'Pausing...' : 'Pause'}
+                  </button>
+                  <button
+                    onClick={handleStop}
+                    className="flex items-center gap-1.5 px-3 py-1.5 bg-red-600
+                               hover:bg-red-500 text-white text-sm rounded transition-colors font-medium"
+                  >
+                    <Square size={14} />
+                    Stop
+                  </button>
+                </>
               )
             )}
 
@@ -558,6 +672,29 @@ export const TerminalPanel: React.FC = () => {
           />
         )}
 
+        {/* Paused / interrupted runs (workflow tab only) */}
+        {activeTab === 'workflow' && !isRunning && (
+          <ResumableRunsBar
+            runs={resumableRuns}
+            disabled={!isConnected}
+            onResume={handleResume}
+            onDiscard={handleDiscard}
+          />
+        )}
+
+        {/* Approval requests (workflow tab only) */}
+        {activeTab === 'workflow' && pendingApprovals.length > 0 && (
+          <div className="px-3 py-2 bg-slate-800/50 border-b border-slate-700/50 space-y-2">
+            {pendingApprovals.map((request) => (
+              <ApprovalCard
+                key={request.approvalId}
+                request={request}
+                onRespond={handleApprovalResponse}
+              />
+            ))}
+          </div>
+        )}
+
         {/* Content area — either logs, results, or fixer output */}
         {activeTab === 'workflow' && showResults && executionReport ? (
           <ExecutionResultsPanel report={executionReport} height={contentHeight} />
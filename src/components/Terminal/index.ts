@@ -3,3 +3,5 @@ export { AgentOutputBlock } from './AgentOutputBlock';
 export { TerminalProgressBar } from './TerminalProgressBar';
 export { ExecutionResultsPanel } from './ExecutionResultsPanel';
 export { ExecutionPromptModal } from './ExecutionPromptModal';
+export { ResumableRunsBar } from './ResumableRunsBar';
+export { ApprovalCard } from './ApprovalCard';
@@ -355,7 +355,8 @@ function appendGuardrailItems(
     if (guardrails.contentFilters.pii) filters.push('PII');
     if (guardrails.contentFilters.injection) filters.push('injection');
     if (filters.length > 0) {
-      items.push(`Content filters: ${filters.join(', ')}`);
+      const mode = guardrails.contentFilters.mode === 'block' ? ' (block)' : '';
+      items.push(`Content filters: ${filters.join(', ')}${mode}`);
     }
   }
 }
@@ -61,6 +61,20 @@ export interface PM2EcosystemConfig {
   apps: PM2AppConfig[];
 }
 
+// =============================================================================
+// Trigger Settings (user choices from the deploy form)
+// =============================================================================
+
+export type MessagingPlatform = 'whatsapp' | 'telegram' | 'slack' | 'discord';
+
+export type CronCatchUpPolicy = 'skip' | 'latest' | 'all';
+
+export type TriggerSettings =
+  | { type: 'cron'; expression?: string; timezone?: string; catchUp?: CronCatchUpPolicy; enabled?: boolean }
+  | { type: 'webhook'; authType?: 'bearer' | 'hmac' | 'none'; secret?: string; enabled?: boolean }
+  | { type: 'messaging'; channels?: MessagingPlatform[]; routerEnabled?: boolean; enabled?: boolean }
+  | { type: 'always-on'; healthCheckEndpoint?: string; healthCheckIntervalMs?: number; enabled?: boolean };
+
 // =============================================================================
 // System Bundle
 // =============================================================================
@@ -76,4 +90,6 @@ export interface SystemBundle {
   pm2Ecosystem: PM2EcosystemConfig;
   envExample: Record<string, string>;
   createdAt: string;
+  /** Overrides the trigger defaults; type must match manifest.triggerPattern */
+  trigger?: TriggerSettings;
 }
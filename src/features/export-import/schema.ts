@@ -80,6 +80,7 @@ export const GuardrailsConfigSchema = z.object({
     profanity: z.boolean().optional(),
     pii: z.boolean().optional(),
     injection: z.boolean().optional(),
+    mode: z.enum(['redact', 'block']).optional(),
   }).optional(),
   timeoutSeconds: z.number().optional(),
   maxRetries: z.number().optional(),
@@ -122,6 +123,7 @@ export const ConsensusConfigSchema = z.object({
   enabled: z.boolean().optional(),
   threshold: z.number().min(0).max(1).optional(),
   votingMethod: VotingMethodSchema.optional(),
+  weights: z.record(z.string(), z.union([z.number(), z.string()])).optional(),
 }).optional();
 
 // Context Revival
@@ -44,6 +44,8 @@ export interface UseSocketReturn {
   socket: TypedSocket | null;
   startSession: () => Promise<string>;
   sendMessage: (content: string) => void;
+  /** Route a message to the deployed systems via the Router Agent */
+  sendInboundMessage: (text: string) => void;
   cancelSession: () => void;
   pauseExecution: () => void;
   resumeExecution: () => void;
@@ -56,6 +58,9 @@ export function useSocket(options: UseSocketOptions = {}): UseSocketReturn {
   const [sessionId, setSessionId] = useState<string | null>(null);
   const [sessionState, setSessionState] = useState<SessionState>('idle');
   const [messages, setMessages] = useState<SessionMessage[]>([]);
+  // Read by the connect handler, which outlives any one render
+  const sessionIdRef = useRef<string | null>(null);
+  sessionIdRef.current = sessionId;
 
   // Store options in ref to avoid re-subscribing on every render
   const optionsRef = useRef(options);
@@ -74,6 +79,17 @@ export function useSocket(options: UseSocketOptions = {}): UseSocketReturn {
     socket.on('connect', () => {
       console.log('[Socket] Connected to server');
       setIsConnected(true);
+
+      // A reconnect gets a fresh server-side socket: bind the session to it again
+      const current = sessionIdRef.current;
+      if (current) {
+        socket.emit('session:resume', { sessionId: current }, (resumed) => {
+          if (!resumed) {
+            console.warn(`[Socket] Session ${current} is gone on the server; start a new one`);
+            setSessionId(null);
+          }
+        });
+      }
     });
 
     socket.on('disconnect', (reason) => {
@@ -92,6 +108,12 @@ export function useSocket(options: UseSocketOptions = {}): UseSocketReturn {
       optionsRef.current.onSessionMessage?.(payload.message);
     });
 
+    // Replies on this client's web messaging channel
+    socket.on('message:outbound', (payload) => {
+      setMessages((prev) => [...prev, payload.message]);
+      optionsRef.current.onSessionMessage?.(payload.message);
+    });
+
     // Canvas events
     socket.on('node:created', (payload) => {
       optionsRef.current.onNodeCreated?.(payload);
@@ -178,6 +200,16 @@ export function useSocket(options: UseSocketOptions = {}): UseSocketReturn {
     socketRef.current.emit('session:message', { sessionId, content });
   }, [sessionId]);
 
+  // Send a message to the deployed systems; the session doubles as the web channel
+  const sendInboundMessage = useCallback((text: string) => {
+    if (!socketRef.current?.connected || !sessionId) {
+      console.error('[Socket] Cannot send message: no active session');
+      return;
+    }
+
+    socketRef.current.emit('message:inbound', { channelId: sessionId, platform: 'web', text });
+  }, [sessionId]);
+
   // Cancel the current session
   const cancelSession = useCallback(() => {
     if (!socketRef.current?.connected || !sessionId) return;
@@ -210,6 +242,7 @@ export function useSocket(options: UseSocketOptions = {}): UseSocketReturn {
     socket: socketRef.current,
     startSession,
     sendMessage,
+    sendInboundMessage,
     cancelSession,
     pauseExecution,
     resumeExecution,
@@ -1,4 +1,5 @@
 import axios from 'axios';
+import type { TriggerSettings } from '../export/types';
 
 const API_URL = 'http://localhost:3001/api';
 
@@ -192,6 +193,440 @@ export const archiveSystem = async (slug: string): Promise<void> => {
   await axios.delete(`${API_URL}/systems/${slug}`);
 };
 
+// =============================================================================
+// Trigger Settings API
+// =============================================================================
+
+export type { TriggerSettings };
+
+export interface CronPreview {
+  expression: string;
+  timezone: string;
+  /** ISO timestamps of the next fire times */
+  nextRuns: string[];
+}
+
+export const updateSystemTrigger = async (
+  slug: string,
+  settings: TriggerSettings
+): Promise<DeploymentRecord> => {
+  const response = await axios.put<DeploymentRecord>(`${API_URL}/systems/${slug}/trigger`, settings);
+  return response.data;
+};
+
+export const fetchCronPreview = async (expression: string, timezone: string): Promise<CronPreview> => {
+  const response = await axios.get<CronPreview>(`${API_URL}/deploy/cron-preview`, {
+    params: { expression, timezone },
+  });
+  return response.data;
+};
+
+// =============================================================================
+// Deploy Plan API
+// =============================================================================
+
+export type PlanIssueSeverity = 'error' | 'warning';
+
+export interface PlanIssue {
+  severity: PlanIssueSeverity;
+  code: string;
+  message: string;
+  subject: string;
+}
+
+export type PlannedFileAction = 'create' | 'update' | 'unchanged';
+
+export interface PlannedFile {
+  /** Relative to OPENCLAW_ROOT */
+  path: string;
+  action: PlannedFileAction;
+  added: number;
+  removed: number;
+  /** Unified diff against the file on disk */
+  diff: string;
+}
+
+export interface DeployPlan {
+  slug: string;
+  /** False when any issue is an error */
+  deployable: boolean;
+  issues: PlanIssue[];
+  files: PlannedFile[];
+  processes: string[];
+  trigger: Record<string, unknown> | null;
+}
+
+/** Dry run of POST /deploy: validates the bundle and diffs the files it would write */
+export const planDeploy = async (bundle: unknown): Promise<DeployPlan> => {
+  const response = await axios.post<DeployPlan>(`${API_URL}/deploy/plan`, bundle);
+  return response.data;
+};
+
+// =============================================================================
+// Deployment Versions API
+// =============================================================================
+
+export interface DeploymentVersion {
+  id: string;
+  deploymentId: string;
+  version: string;
+  manifestJson: SystemManifest;
+  createdAt: string;
+}
+
+export interface DeploymentVersionsResponse {
+  currentVersion: string;
+  versions: DeploymentVersion[];
+}
+
+export const fetchSystemVersions = async (slug: string): Promise<DeploymentVersionsResponse> => {
+  const response = await axios.get<DeploymentVersionsResponse>(`${API_URL}/systems/${slug}/versions`);
+  return response.data;
+};
+
+export const redeploySystem = async (slug: string, bundle: unknown): Promise<DeploymentRecord> => {
+  const response = await axios.post<DeploymentRecord>(`${API_URL}/systems/${slug}/deploy`, bundle);
+  return response.data;
+};
+
+export const rollbackSystem = async (slug: string, version: string): Promise<DeploymentRecord> => {
+  const response = await axios.post<DeploymentRecord>(`${API_URL}/systems/${slug}/rollback`, { version });
+  return response.data;
+};
+
+// =============================================================================
+// System Processes API
+// =============================================================================
+
+export interface ProcessStatus {
+  name: string;
+  systemSlug: string | null;
+  agentSlug: string | null;
+  pid: number | undefined;
+  status: string;
+  cpu: number;
+  memory: number;
+  uptime: number | undefined;
+  restarts: number;
+}
+
+export const fetchSystemProcesses = async (slug: string): Promise<ProcessStatus[]> => {
+  const response = await axios.get<{ processes: ProcessStatus[] }>(
+    `${API_URL}/systems/${slug}/processes`
+  );
+  return response.data.processes;
+};
+
+export const stopSystem = async (slug: string): Promise<void> => {
+  await axios.post(`${API_URL}/systems/${slug}/stop`);
+};
+
+export const restartSystem = async (slug: string): Promise<ProcessStatus[]> => {
+  const response = await axios.post<{ processes: ProcessStatus[] }>(
+    `${API_URL}/systems/${slug}/restart`
+  );
+  return response.data.processes;
+};
+
+// =============================================================================
+// System Secrets API
+// =============================================================================
+
+export interface SystemSecret {
+  name: string;
+  /** Masked value, null when the secret has not been set */
+  maskedValue: string | null;
+  /** Listed in the bundle's .env.example */
+  required: boolean;
+  description: string | null;
+}
+
+export interface SystemSecretsResponse {
+  vaultEnabled: boolean;
+  secrets: SystemSecret[];
+  missing: string[];
+}
+
+export const fetchSystemSecrets = async (slug: string): Promise<SystemSecretsResponse> => {
+  const response = await axios.get<SystemSecretsResponse>(`${API_URL}/systems/${slug}/secrets`);
+  return response.data;
+};
+
+export const setSystemSecret = async (
+  slug: string,
+  name: string,
+  value: string
+): Promise<SystemSecret> => {
+  const response = await axios.put<SystemSecret>(
+    `${API_URL}/systems/${slug}/secrets/${encodeURIComponent(name)}`,
+    { value }
+  );
+  return response.data;
+};
+
+export const deleteSystemSecret = async (slug: string, name: string): Promise<void> => {
+  await axios.delete(`${API_URL}/systems/${slug}/secrets/${encodeURIComponent(name)}`);
+};
+
+// =============================================================================
+// Execution History API
+// =============================================================================
+
+export type ExecutionStatus =
+  | 'queued'
+  | 'running'
+  | 'completed'
+  | 'failed'
+  | 'qa_failed'
+  | 'cancelled';
+export type ExecutionTriggeredBy =
+  | 'cron'
+  | 'webhook'
+  | 'messaging'
+  | 'manual'
+  | 'operator'
+  | 'qa-remediation';
+
+export interface ExecutionLog {
+  id: string;
+  deploymentId: string;
+  systemSlug: string;
+  triggeredBy: ExecutionTriggeredBy;
+  triggerInput: unknown;
+  status: ExecutionStatus;
+  phasesCompleted: number | null;
+  phasesTotal: number | null;
+  outputUrl: string | null;
+  outputType: string | null;
+  costUsd: number | null;
+  durationSeconds: number | null;
+  qaScores: Record<string, number> | null;
+  errorMessage: string | null;
+  queuedAt: string | null;
+  startedAt: string | null;
+  completedAt: string | null;
+}
+
+export interface ExecutionLogsResponse {
+  logs: ExecutionLog[];
+  total: number;
+  limit: number;
+  offset: number;
+}
+
+export const fetchExecutionLogs = async (
+  slug: string,
+  params?: {
+    status?: ExecutionStatus;
+    triggeredBy?: ExecutionTriggeredBy;
+    from?: string;
+    to?: string;
+    limit?: number;
+    offset?: number;
+  }
+): Promise<ExecutionLogsResponse> => {
+  const queryParams = new URLSearchParams();
+  if (params?.status) queryParams.set('status', params.status);
+  if (params?.triggeredBy) queryParams.set('triggered_by', params.triggeredBy);
+  if (params?.from) queryParams.set('from', params.from);
+  if (params?.to) queryParams.set('to', params.to);
+  if (params?.limit) queryParams.set('limit', params.limit.toString());
+  if (params?.offset) queryParams.set('offset', params.offset.toString());
+
+  const qs = queryParams.toString();
+  const response = await axios.get<ExecutionLogsResponse>(
+    `${API_URL}/systems/${slug}/logs${qs ? `?${qs}` : ''}`
+  );
+  return response.data;
+};
+
+export const fetchExecutionLog = async (slug: string, id: string): Promise<ExecutionLog> => {
+  const response = await axios.get<ExecutionLog>(`${API_URL}/systems/${slug}/logs/${id}`);
+  return response.data;
+};
+
+export const triggerSystem = async (
+  slug: string,
+  inputs: Record<string, unknown>
+): Promise<{ executionId: string; status: ExecutionStatus }> => {
+  const response = await axios.post<{ executionId: string; status: ExecutionStatus }>(
+    `${API_URL}/systems/${slug}/trigger`,
+    { inputs }
+  );
+  return response.data;
+};
+
+// =============================================================================
+// Run Queue API
+// =============================================================================
+
+export interface QueuedRun {
+  executionId: string;
+  triggeredBy: ExecutionTriggeredBy;
+  priority: number;
+  queuedAt: string;
+}
+
+export interface RunQueue {
+  maxConcurrency: number;
+  running: number;
+  /** In start order */
+  queued: QueuedRun[];
+}
+
+export const fetchSystemQueue = async (slug: string): Promise<RunQueue> => {
+  const response = await axios.get<RunQueue>(`${API_URL}/systems/${slug}/queue`);
+  return response.data;
+};
+
+/** `null` restores the server default */
+export const updateSystemQueue = async (
+  slug: string,
+  maxConcurrency: number | null
+): Promise<RunQueue> => {
+  const response = await axios.put<RunQueue>(`${API_URL}/systems/${slug}/queue`, { maxConcurrency });
+  return response.data;
+};
+
+export const cancelQueuedRun = async (slug: string, executionId: string): Promise<void> => {
+  await axios.delete(`${API_URL}/systems/${slug}/queue/${executionId}`);
+};
+
+// =============================================================================
+// Spend Budgets API
+// =============================================================================
+
+export type BudgetLevel = 'ok' | 'warning' | 'exceeded';
+
+export interface SpendBudget {
+  /** null = no limit */
+  dailyLimitUsd: number | null;
+  monthlyLimitUsd: number | null;
+  warnPercent: number;
+}
+
+export interface BudgetWindow {
+  period: 'daily' | 'monthly';
+  periodKey: string;
+  limitUsd: number | null;
+  spentUsd: number;
+  level: BudgetLevel;
+}
+
+export interface BudgetStatus extends SpendBudget {
+  spentTodayUsd: number;
+  spentThisMonthUsd: number;
+  level: BudgetLevel;
+  windows: BudgetWindow[];
+}
+
+export const fetchSystemBudget = async (slug: string): Promise<BudgetStatus> => {
+  const response = await axios.get<BudgetStatus>(`${API_URL}/systems/${slug}/budget`);
+  return response.data;
+};
+
+export const updateSystemBudget = async (slug: string, budget: SpendBudget): Promise<BudgetStatus> => {
+  const response = await axios.put<BudgetStatus>(`${API_URL}/systems/${slug}/budget`, budget);
+  return response.data;
+};
+
+// =============================================================================
+// Metrics API
+// =============================================================================
+
+export type MetricsBucket = 'hour' | 'day' | 'week';
+
+export interface MetricsSummary {
+  executions: number;
+  completed: number;
+  failed: number;
+  qaFailed: number;
+  costUsd: number;
+  p50DurationSeconds: number | null;
+  p95DurationSeconds: number | null;
+  /** Share of finished runs; null when none finished */
+  failureRate: number | null;
+  qaFailedRate: number | null;
+  qaScores: Record<string, number>;
+}
+
+export interface MetricsPoint extends MetricsSummary {
+  bucketStart: string;
+}
+
+export interface MetricsSeries {
+  bucket: MetricsBucket;
+  from: string;
+  to: string;
+  totals: MetricsSummary;
+  points: MetricsPoint[];
+}
+
+export interface FleetMetrics extends MetricsSeries {
+  systems: Array<{
+    systemSlug: string;
+    executions: number;
+    costUsd: number;
+    failureRate: number | null;
+    qaFailedRate: number | null;
+  }>;
+}
+
+export const fetchSystemMetrics = async (
+  slug: string,
+  bucket: MetricsBucket = 'day'
+): Promise<MetricsSeries> => {
+  const response = await axios.get<MetricsSeries>(`${API_URL}/systems/${slug}/metrics?bucket=${bucket}`);
+  return response.data;
+};
+
+export const fetchFleetMetrics = async (bucket: MetricsBucket = 'day'): Promise<FleetMetrics> => {
+  const response = await axios.get<FleetMetrics>(`${API_URL}/metrics?bucket=${bucket}`);
+  return response.data;
+};
+
+// =============================================================================
+// Agent Memory API
+// =============================================================================
+
+export interface AgentMemoryEntry {
+  id: string;
+  sessionId: string;
+  at: string;
+  task: string;
+  output: string;
+  tokens: number;
+}
+
+export interface AgentMemory {
+  system: string;
+  agentId: string;
+  agentLabel: string;
+  /** Set when the memory is scoped to one session */
+  sessionId?: string;
+  summary: string;
+  summarizedEntries: number;
+  entries: AgentMemoryEntry[];
+  updatedAt: string;
+}
+
+/** `system` is the workflow name the runs were started under */
+export const fetchAgentMemory = async (system: string, agentId: string): Promise<AgentMemory | null> => {
+  try {
+    const response = await axios.get<AgentMemory>(
+      `${API_URL}/memory/${encodeURIComponent(system)}/${encodeURIComponent(agentId)}`
+    );
+    return response.data;
+  } catch (error) {
+    if (axios.isAxiosError(error) && error.response?.status === 404) return null;
+    throw error;
+  }
+};
+
+export const clearAgentMemory = async (system: string, agentId: string): Promise<void> => {
+  await axios.delete(`${API_URL}/memory/${encodeURIComponent(system)}/${encodeURIComponent(agentId)}`);
+};
+
 // =============================================================================
 // Operator Actions API
 // =============================================================================
@@ -256,4 +691,57 @@ export const approveAction = async (id: string): Promise<void> => {
 
 export const rejectAction = async (id: string): Promise<void> => {
   await axios.post(`${API_URL}/operators/actions/${id}/reject`);
+};
+
+// =============================================================================
+// Operator Runs API
+// =============================================================================
+
+export type OperatorRunStatus = 'running' | 'completed' | 'failed' | 'skipped';
+
+export interface OperatorRun {
+  id: string;
+  operatorType: OperatorType;
+  trigger: 'schedule' | 'manual' | 'event';
+  status: OperatorRunStatus;
+  subject: string | null;
+  startedAt: string;
+  completedAt: string | null;
+  durationMs: number | null;
+  actionsCount: number;
+  summary: string | null;
+  error: string | null;
+}
+
+export interface OperatorSchedule {
+  operatorType: OperatorType;
+  cron: string | null;
+  timezone: string;
+  nextRunAt: string | null;
+  running: boolean;
+}
+
+export const fetchOperatorRuns = async (params?: {
+  operatorType?: OperatorType;
+  limit?: number;
+}): Promise<{ runs: OperatorRun[]; total: number }> => {
+  const queryParams = new URLSearchParams();
+  if (params?.operatorType) queryParams.set('operator_type', params.operatorType);
+  if (params?.limit) queryParams.set('limit', params.limit.toString());
+
+  const qs = queryParams.toString();
+  const response = await axios.get<{ runs: OperatorRun[]; total: number }>(
+    `${API_URL}/operators/runs${qs ? `?${qs}` : ''}`
+  );
+  return response.data;
+};
+
+export const fetchOperatorSchedules = async (): Promise<{ schedules: OperatorSchedule[] }> => {
+  const response = await axios.get<{ schedules: OperatorSchedule[] }>(`${API_URL}/operators/schedules`);
+  return response.data;
+};
+
+export const runOperatorNow = async (operatorType: OperatorType): Promise<{ run: OperatorRun }> => {
+  const response = await axios.post<{ run: OperatorRun }>(`${API_URL}/operators/${operatorType}/run`);
+  return response.data;
 };
\ No newline at end of file
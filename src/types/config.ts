@@ -40,6 +40,13 @@ export interface ModelConfig {
 // Main Configuration
 // =============================================================================
 
+export interface WorkflowBudget {
+  /** USD ceiling for the whole run */
+  costCap?: number;
+  /** Input + output tokens across every agent in the run */
+  tokenLimit?: number;
+}
+
 export interface WorkflowConfig {
   // Identity
   name: string;
@@ -57,6 +64,9 @@ export interface WorkflowConfig {
   defaultModel: ModelConfig;
   environment: Environment;
 
+  // Execution limits for canvas runs; unset means unlimited
+  budget?: WorkflowBudget;
+
   // Metadata
   author?: string;
   tags?: string[];
@@ -142,6 +142,7 @@ export interface ConsensusConfig {
   enabled?: boolean;
   threshold?: number;  // 0-1 percentage
   votingMethod?: VotingMethod;
+  weights?: Record<string, number | string>;  // agent ID or label → vote weight (weighted voting)
 }
 
 // Context revival configuration
@@ -176,6 +177,7 @@ export interface GuardrailsConfig {
     profanity?: boolean;
     pii?: boolean;
     injection?: boolean;
+    mode?: 'redact' | 'block';   // redact PII/profanity and flag injection, or block on any hit
   };
   timeoutSeconds?: number;
   maxRetries?: number;
@@ -29,7 +29,7 @@ export interface DeploymentRecord {
 
 export type ExecutionTriggeredBy = 'cron' | 'webhook' | 'messaging' | 'manual' | 'operator';
 
-export type ExecutionStatus = 'running' | 'completed' | 'failed' | 'qa_failed';
+export type ExecutionStatus = 'queued' | 'running' | 'completed' | 'failed' | 'qa_failed' | 'cancelled';
 
 export type ExecutionOutputType = 'web_artifact' | 'document' | 'data' | 'notification';
 
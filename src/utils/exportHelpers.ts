@@ -15,7 +15,8 @@ export const getNodesByType = (nodes: Node[], type: NodeType): Node[] =>
 
 /**
  * Convert a name string to a URL/file-safe slug.
- * Lowercases, replaces spaces with hyphens, strips non-alphanumeric characters.
+ * Lowercases, replaces spaces with hyphens, strips non-alphanumeric characters
+ * and collapses repeated hyphens (`--` separates system and agent in PM2 names).
  */
 export const slugify = (name: string): string =>
-  name.toLowerCase().replace(/\s+/g, '-').replace(/[^a-z0-9-]/g, '');
+  name.toLowerCase().replace(/\s+/g, '-').replace(/[^a-z0-9-]/g, '').replace(/-{2,}/g, '-');